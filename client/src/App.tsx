@@ -29,6 +29,7 @@ import Trips from './pages/driver/Trips';
 import TripDetail from './pages/driver/TripDetail';
 import Deliveries from './pages/driver/Deliveries';
 import DeliveryDetail from './pages/driver/DeliveryDetail';
+import DriverCash from './pages/driver/Cash';
 
 // Supervisor Pages
 import SupervisorDashboard from './pages/supervisor/Dashboard';
@@ -47,6 +48,9 @@ import WarehouseReceiving from './pages/warehouse/Receiving';
 import WarehouseTaskDetail from './pages/warehouse/TaskDetail';
 import WarehouseInventoryDetail from './pages/warehouse/InventoryDetail';
 import WarehouseReceivingDetail from './pages/warehouse/ReceivingDetail';
+import WarehouseStockCounts from './pages/warehouse/StockCounts';
+import WarehouseStockCountDetail from './pages/warehouse/StockCountDetail';
+import WarehousePacking from './pages/warehouse/Packing';
 import WarehouseBatchPicking from './pages/warehouse/BatchPicking';
 import WarehouseCreatePO from './pages/warehouse/CreatePurchaseOrder';
 
@@ -59,9 +63,11 @@ import AdminOrderDetail from './pages/admin/OrderDetail';
 import AdminCategories from './pages/admin/Categories';
 import AdminBrands from './pages/admin/Brands';
 import AdminDiscounts from './pages/admin/Discounts';
+import AdminPriceLists from './pages/admin/PriceLists';
 import AdminProcurement from './pages/admin/Procurement';
 import AdminUsers from './pages/admin/Users';
 import AdminDeliveries from './pages/admin/Deliveries';
+import AdminTripPlanner from './pages/admin/TripPlanner';
 import AdminNotificationSettings from './pages/admin/NotificationSettings';
 import AdminSettings from './pages/admin/Settings';
 import AdminTelegram from './pages/admin/Telegram';
@@ -76,6 +82,11 @@ import UserLocationMapPage from './pages/admin/UserLocationMapPage';
 import AdminCustomerTiers from './pages/admin/CustomerTiers';
 import AdminTerritories from './pages/admin/Territories';
 import AdminReturns from './pages/admin/Returns';
+import AdminCashReconciliation from './pages/admin/CashReconciliation';
+import AdminInvoices from './pages/admin/Invoices';
+import AdminCreditNotes from './pages/admin/CreditNotes';
+import AdminAccounting from './pages/admin/Accounting';
+import AdminReceivables from './pages/admin/Receivables';
 import AdminInventory from './pages/admin/Inventory';
 import AdminVehicles from './pages/admin/Vehicles';
 import AdminReports from './pages/admin/Reports';
@@ -260,6 +271,7 @@ const App: Component = () => {
             <Route path="/orders/:id" component={SalesOrderDetail} />
             <Route path="/customers" component={SalesCustomers} />
             <Route path="/customers/:id" component={SalesCustomerDetail} />
+            <Route path="/cash" component={DriverCash} />
           </Route>
 
           {/* Supervisor App Routes */}
@@ -279,6 +291,7 @@ const App: Component = () => {
             <Route path="/trips/:id" component={TripDetail} />
             <Route path="/deliveries" component={Deliveries} />
             <Route path="/deliveries/:id" component={DeliveryDetail} />
+            <Route path="/cash" component={DriverCash} />
           </Route>
 
           {/* Warehouse App Routes */}
@@ -292,6 +305,9 @@ const App: Component = () => {
             <Route path="/receiving" component={WarehouseReceiving} />
             <Route path="/receiving/create" component={WarehouseCreatePO} />
             <Route path="/receiving/:id" component={WarehouseReceivingDetail} />
+            <Route path="/counts" component={WarehouseStockCounts} />
+            <Route path="/counts/:id" component={WarehouseStockCountDetail} />
+            <Route path="/packing/:id" component={WarehousePacking} />
           </Route>
 
           {/* Super Admin Routes */}
@@ -321,14 +337,21 @@ const App: Component = () => {
             <Route path="/products" component={AdminProducts} />
             <Route path="/categories" component={AdminCategories} />
             <Route path="/brands" component={AdminBrands} />
+            <Route path="/price-lists" component={AdminPriceLists} />
             <Route path="/discounts" component={AdminDiscounts} />
             <Route path="/procurement" component={AdminProcurement} />
             <Route path="/customers" component={AdminCustomers} />
             <Route path="/users" component={AdminUsers} />
             <Route path="/deliveries" component={AdminDeliveries} />
+            <Route path="/deliveries/plan" component={AdminTripPlanner} />
             <Route path="/vehicles" component={AdminVehicles} />
             <Route path="/reports" component={AdminReports} />
             <Route path="/returns" component={AdminReturns} />
+            <Route path="/cash" component={AdminCashReconciliation} />
+            <Route path="/invoices" component={AdminInvoices} />
+            <Route path="/credit-notes" component={AdminCreditNotes} />
+            <Route path="/accounting" component={AdminAccounting} />
+            <Route path="/receivables" component={AdminReceivables} />
             <Route path="/inventory" component={AdminInventory} />
             <Route path="/customer-tiers" component={AdminCustomerTiers} />
             <Route path="/territories" component={AdminTerritories} />
@@ -0,0 +1,100 @@
+import { type Component, createSignal, onMount } from 'solid-js';
+import { Eraser } from 'lucide-solid';
+
+interface SignaturePadProps {
+    /** Called with a PNG data URL after each stroke, or null when cleared */
+    onChange: (dataUrl: string | null) => void;
+    height?: number;
+}
+
+/**
+ * On-screen signature capture for touch and mouse input.
+ */
+const SignaturePad: Component<SignaturePadProps> = (props) => {
+    let canvas: HTMLCanvasElement | undefined;
+    let drawing = false;
+    const [isEmpty, setIsEmpty] = createSignal(true);
+
+    const context = () => canvas?.getContext('2d') ?? null;
+
+    onMount(() => {
+        if (!canvas) return;
+        // Match the backing store to the CSS size so strokes are not blurry
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = canvas.offsetWidth * ratio;
+        canvas.height = canvas.offsetHeight * ratio;
+
+        const ctx = context();
+        if (!ctx) return;
+        ctx.scale(ratio, ratio);
+        ctx.lineWidth = 2.5;
+        ctx.lineCap = 'round';
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = '#0f172a';
+    });
+
+    const point = (e: PointerEvent) => {
+        const rect = canvas!.getBoundingClientRect();
+        return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+        const ctx = context();
+        if (!ctx) return;
+        e.preventDefault();
+        canvas!.setPointerCapture(e.pointerId);
+        drawing = true;
+        const { x, y } = point(e);
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+        const ctx = context();
+        if (!drawing || !ctx) return;
+        e.preventDefault();
+        const { x, y } = point(e);
+        ctx.lineTo(x, y);
+        ctx.stroke();
+        setIsEmpty(false);
+    };
+
+    const handlePointerUp = () => {
+        if (!drawing) return;
+        drawing = false;
+        if (!isEmpty()) props.onChange(canvas!.toDataURL('image/png'));
+    };
+
+    const clear = () => {
+        const ctx = context();
+        if (!ctx || !canvas) return;
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        setIsEmpty(true);
+        props.onChange(null);
+    };
+
+    return (
+        <div class="relative">
+            <canvas
+                ref={canvas}
+                class="w-full bg-white rounded-xl touch-none"
+                style={{ height: `${props.height ?? 180}px` }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+            />
+            <div class="absolute bottom-2 left-3 right-3 border-b border-dashed border-slate-300 pointer-events-none" />
+            <button
+                type="button"
+                onClick={clear}
+                disabled={isEmpty()}
+                class="absolute top-2 right-2 p-2 rounded-lg bg-slate-100 text-slate-600 disabled:opacity-40"
+            >
+                <Eraser class="w-4 h-4" />
+            </button>
+        </div>
+    );
+};
+
+export default SignaturePad;
@@ -16,11 +16,17 @@ import {
     ShoppingBag,
     Crown,
     RotateCcw,
+    Wallet,
     Warehouse,
     CarFront,
     CreditCard,
     BarChart3,
     MapPin,
+    FileText,
+    ReceiptText,
+    BookOpen,
+    Hourglass,
+    ListOrdered,
     ChevronDown
 } from 'lucide-solid';
 import { logout } from '../../stores/auth';
@@ -78,7 +84,12 @@ const AdminLayout: Component<{ children: any }> = (props) => {
             label: 'Sales',
             items: [
                 { path: '/admin/orders', icon: ShoppingCart, label: 'Orders' },
+                { path: '/admin/invoices', icon: FileText, label: 'Invoices' },
                 { path: '/admin/returns', icon: RotateCcw, label: 'Returns' },
+                { path: '/admin/credit-notes', icon: ReceiptText, label: 'Credit Notes' },
+                { path: '/admin/cash', icon: Wallet, label: 'Cash' },
+                { path: '/admin/accounting', icon: BookOpen, label: 'Accounting' },
+                { path: '/admin/receivables', icon: Hourglass, label: 'Receivables' },
                 { path: '/admin/discounts', icon: Percent, label: 'Discounts' },
                 { path: '/admin/reports', icon: BarChart3, label: 'Reports' },
             ],
@@ -90,6 +101,7 @@ const AdminLayout: Component<{ children: any }> = (props) => {
                 { path: '/admin/products', icon: Package, label: 'Products' },
                 { path: '/admin/categories', icon: Tag, label: 'Categories' },
                 { path: '/admin/brands', icon: Package, label: 'Brands' },
+                { path: '/admin/price-lists', icon: ListOrdered, label: 'Price Lists' },
                 { path: '/admin/inventory', icon: Warehouse, label: 'Inventory' },
             ],
         },
@@ -1,6 +1,6 @@
 import { type Component } from 'solid-js';
 import { A, useLocation } from '@solidjs/router';
-import { Truck, Package, User } from 'lucide-solid';
+import { Truck, Package, Wallet, User } from 'lucide-solid';
 import AutoStartTracking from '../gps-tracking/AutoStartTracking';
 
 const MobileDriverLayout: Component<{ children: any }> = (props) => {
@@ -30,6 +30,11 @@ const MobileDriverLayout: Component<{ children: any }> = (props) => {
                     <span class="text-[10px] font-medium">Deliveries</span>
                 </A>
 
+                <A href="/driver/cash" class={`flex flex-col items-center gap-1 p-2 transition-all ${activeClass('/driver/cash')}`}>
+                    <Wallet size={24} />
+                    <span class="text-[10px] font-medium">Cash</span>
+                </A>
+
                 <A href="/driver/profile" class={`flex flex-col items-center gap-1 p-2 transition-all ${activeClass('/driver/profile')}`}>
                     <User size={24} />
                     <span class="text-[10px] font-medium">Profile</span>
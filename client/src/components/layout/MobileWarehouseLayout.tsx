@@ -1,6 +1,6 @@
 import { type Component } from 'solid-js';
 import { A, useLocation } from '@solidjs/router';
-import { LayoutDashboard, ClipboardList, Boxes, Truck } from 'lucide-solid';
+import { LayoutDashboard, ClipboardList, Boxes, Truck, ClipboardCheck } from 'lucide-solid';
 import { useI18n } from '../../i18n';
 
 const MobileWarehouseLayout: Component<{ children: any }> = (props) => {
@@ -42,6 +42,11 @@ const MobileWarehouseLayout: Component<{ children: any }> = (props) => {
                     <Truck size={22} />
                     <span class="text-[10px] font-medium">{t('warehouseApp.nav.receiving')}</span>
                 </A>
+
+                <A href="/warehouse/counts" class={`flex flex-col items-center gap-1 p-2 transition-all ${activeClass('/warehouse/counts')}`}>
+                    <ClipboardCheck size={22} />
+                    <span class="text-[10px] font-medium">{t('warehouseApp.nav.counts')}</span>
+                </A>
             </nav>
         </div>
     );
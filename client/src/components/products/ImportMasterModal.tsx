@@ -117,6 +117,9 @@ const ImportMasterModal: Component<Props> = (props) => {
                                                 <div>
                                                     <div class="font-medium text-white">{product.name}</div>
                                                     <div class="text-sm text-slate-500 font-mono">{product.sku}</div>
+                                                    <Show when={product.familyName}>
+                                                        <div class="text-xs text-blue-400">{product.familyName}: {Object.values(product.variantAttributes || {}).join(' / ')}</div>
+                                                    </Show>
                                                 </div>
                                             </div>
                                             <button
@@ -151,6 +154,9 @@ const ImportMasterModal: Component<Props> = (props) => {
                                 <div>
                                     <h3 class="text-lg font-bold text-white">{selectedProduct()?.name}</h3>
                                     <p class="text-slate-400 text-sm">{selectedProduct()?.sku} • {selectedProduct()?.category || 'General'}</p>
+                                    <Show when={selectedProduct()?.familyName}>
+                                        <p class="text-blue-400 text-xs mt-1">Joins the {selectedProduct()?.familyName} family as a variant</p>
+                                    </Show>
                                 </div>
                             </div>
 
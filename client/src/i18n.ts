@@ -135,7 +135,8 @@ export const translations = {
             removeDiscount: 'Chegirmani olib tashlash',
             addressRequired: 'Yetkazib berish manzilini kiriting',
             autoDiscountHint: 'Avtomatik chegirma qo\'llaniladi',
-            checkingDiscounts: 'Chegirmalar tekshirilmoqda...'
+            checkingDiscounts: 'Chegirmalar tekshirilmoqda...',
+            tierDiscount: '{tier} mijoz chegirmasi ({percent}%)'
         },
         payments: {
             totalPaid: "Jami to'langan:",
@@ -237,7 +238,12 @@ export const translations = {
             notes: 'Izoh',
             loading: 'Yuklanmoqda...',
             notFound: 'Buyurtma topilmadi',
-            back: 'Orqaga'
+            back: 'Orqaga',
+            receivedBy: 'Qabul qildi',
+            signature: 'Imzo',
+            deliveryPhotos: 'Yetkazish suratlari',
+            downloadInvoice: 'Hisob-fakturani yuklab olish',
+            invoiceFailed: 'Hisob-fakturani yuklab bo\'lmadi'
         },
         paymentPortal: {
             title: 'To\'lov',
@@ -256,11 +262,13 @@ export const translations = {
             contactSeller: 'Yangi havola olish uchun sotuvchiga murojaat qiling.',
             cancelled: 'To\'lov bekor qilindi',
             cancelledMessage: 'Ushbu to\'lov bekor qilingan.',
+            refunded: 'To\'lov qaytarildi',
+            refundedMessage: 'Ushbu to\'lov to\'lov tizimi tomonidan bekor qilinib, qaytarilgan.',
             customer: 'Mijoz',
             paymentAmount: 'To\'lov summasi',
             selectPaymentMethod: 'To\'lov usulini tanlang:',
-            payWithClick: 'Click orqali to\'lash',
-            payWithPayme: 'Payme orqali to\'lash',
+            payWith: '{provider} orqali to\'lash',
+            payWithTestGateway: 'Test to\'lov tizimi orqali to\'lash',
             noPaymentMethods: 'To\'lov usullari sozlanmagan. Sotuvchiga murojaat qiling.',
             securePayment: '🔒 Barcha to\'lovlar xavfsiz',
             poweredBy: 'IxaSales tomonidan ta\'minlangan'
@@ -552,7 +560,80 @@ export const translations = {
                 overview: 'Umumiy',
                 tasks: 'Vazifalar',
                 inventory: 'Inventar',
-                receiving: 'Qabul qilish'
+                receiving: 'Qabul qilish',
+                counts: 'Sanoq'
+            },
+            counts: {
+                title: 'Inventarizatsiya',
+                subtitle: 'Ombor qoldiqlarini sanash',
+                newCount: 'Yangi sanoq',
+                name: 'Sanoq nomi',
+                nameRequired: 'Sanoq nomini kiriting',
+                scope_full: 'To\'liq',
+                scope_category: 'Kategoriya',
+                scope_bin: 'Yacheyka',
+                scope_cycle: 'Sikl',
+                selectCategory: 'Kategoriyani tanlang',
+                selectBin: 'Yacheykani tanlang',
+                classA: 'A sinf (eng ko\'p sotiladigan)',
+                classB: 'B sinf',
+                classC: 'C sinf',
+                cycleLimit: 'Mahsulotlar soni',
+                blind: 'Ko\'r sanoq (kutilgan miqdor yashirin)',
+                start: 'Sanoqni boshlash',
+                created: 'Sanoq ochildi',
+                createFailed: 'Sanoqni ochib bo\'lmadi',
+                empty: 'Hali sanoqlar yo\'q',
+                counted: 'sanaldi',
+                status_in_progress: 'Sanalmoqda',
+                status_submitted: 'Tasdiq kutilmoqda',
+                status_completed: 'Yakunlangan',
+                status_cancelled: 'Bekor qilingan',
+                back: 'Orqaga',
+                scan: 'Mahsulotni skanerlash',
+                notInCount: 'Mahsulot bu sanoqda yo\'q',
+                scanFailed: 'Skanerlashda xatolik',
+                saveFailed: 'Saqlab bo\'lmadi',
+                expected: 'Kutilgan',
+                withVariance: 'Farqli',
+                varianceValue: 'Farq summasi',
+                blindHint: 'Ko\'r sanoq: kutilgan miqdor yashirin',
+                onlyVariances: 'Faqat farqlilar',
+                submit: 'Tasdiqlashga yuborish',
+                approve: 'Tasdiqlash',
+                reject: 'Qayta sanashga',
+                cancel: 'Sanoqni bekor qilish',
+                confirmZeroUncounted: '{count} ta mahsulot sanalmagan. Ularni 0 deb hisoblaylikmi?',
+                rejectReason: 'Qayta sanash sababi',
+                confirmCancel: 'Sanoqni bekor qilasizmi?',
+                submitDone: 'Sanoq yuborildi',
+                approveDone: 'Tuzatishlar kiritildi',
+                rejectDone: 'Qayta sanashga qaytarildi',
+                cancelDone: 'Sanoq bekor qilindi',
+                actionFailed: 'Amalni bajarib bo\'lmadi',
+                awaitingApproval: 'Supervayzer tasdig\'i kutilmoqda'
+            },
+            packing: {
+                title: 'Qadoqlash',
+                start: 'Qadoqlashni boshlash',
+                scan: 'Mahsulotni skanerlash',
+                progress: 'Tekshirildi',
+                notInOrder: 'Bu mahsulot buyurtmada yo\'q',
+                overScanned: 'Yig\'ilganidan ko\'p skanerlandi',
+                productNotFound: 'Mahsulot topilmadi',
+                scanFailed: 'Skanerlashda xatolik',
+                actionFailed: 'Amalni bajarib bo\'lmadi',
+                reset: 'Qayta skanerlash',
+                packageCount: 'Qutilar soni',
+                weightKg: 'Og\'irligi (kg)',
+                mismatchHint: 'Barcha mahsulotlar yig\'ilgan miqdorda skanerlanmaguncha yakunlab bo\'lmaydi',
+                complete: 'Qadoqlashni yakunlash',
+                completed: 'Buyurtma yuklashga tayyor',
+                cancel: 'Qadoqlashni bekor qilish',
+                confirmCancel: 'Qadoqlashni bekor qilasizmi?',
+                loaded: '{count} ta qutiga qadoqlandi',
+                printSlip: 'Qadoq varaqasi va yorliqlarni chop etish',
+                slipFailed: 'Qadoq varaqasini yuklab bo\'lmadi'
             },
             dashboard: {
                 title: 'Ombor ko\'rib chiqish',
@@ -604,7 +685,12 @@ export const translations = {
                 reorderPoint: 'Qayta buyurtma nuqtasi',
                 costPrice: 'Tan narxi',
                 price: 'Narx',
-                notFound: 'Tovar topilmadi'
+                notFound: 'Tovar topilmadi',
+                allWarehouses: 'Barcha omborlar',
+                byWarehouse: 'Omborlar bo\'yicha',
+                lots: 'Partiyalar',
+                expired: 'Muddati o\'tgan',
+                reserved: 'Band qilingan'
             },
             receiving: {
                 title: 'Qabul qilish',
@@ -644,6 +730,12 @@ export const translations = {
                 awaitingApproval: 'Admin tasdig\'ini kutmoqda',
                 draftModeTitle: 'Tahrirlash rejimi',
                 draftModeMessage: 'Bu qoralama buyurtma. Tovarlarni qo\'shish yoki o\'chirish mumkin.',
+                lotNumber: 'Partiya raqami',
+                expiryDate: 'Yaroqlilik muddati',
+                lotHint: 'Keyingi skanerlangan tovarlar shu partiyaga yoziladi',
+                putawayTo: 'Joylashtirish',
+                assignBin: 'Biriktirish',
+                binAssigned: 'Yacheyka biriktirildi',
                 deleteItem: 'Tovarni o\'chirish',
                 confirmDeleteItem: 'Tovarni o\'chirishni xohlaysizmi?',
                 itemDeleted: 'Tovar o\'chirildi',
@@ -664,7 +756,14 @@ export const translations = {
                 picked: 'Terildi',
                 insufficientStock: 'Zaxira yetarli emas',
                 orderBreakdown: 'Buyurtma tafsilotlari',
+                pickLotFirst: 'Avval oling',
+                expires: 'muddati',
                 pickOne: 'Birini terish',
+                bin: 'Yacheyka',
+                scanBin: 'Yacheykani skanerlang',
+                binConfirmed: 'Yacheyka tasdiqlandi',
+                wrongBin: 'Noto\'g\'ri yacheyka',
+                scanBinFirst: 'Avval yacheykani skanerlang',
                 itemPicked: 'Tovar terildi',
                 pickFailed: 'Terishda xato',
                 productNotInBatch: 'Tovar tanlangan buyurtmalarda yo\'q',
@@ -832,7 +931,8 @@ export const translations = {
             removeDiscount: 'Убрать скидку',
             addressRequired: 'Укажите адрес доставки',
             autoDiscountHint: 'Автоматическая скидка будет применена',
-            checkingDiscounts: 'Проверка скидок...'
+            checkingDiscounts: 'Проверка скидок...',
+            tierDiscount: 'Скидка уровня {tier} ({percent}%)'
         },
         payments: {
             totalPaid: 'Всего оплачено:',
@@ -934,7 +1034,12 @@ export const translations = {
             notes: 'Примечание',
             loading: 'Загрузка...',
             notFound: 'Заказ не найден',
-            back: 'Назад'
+            back: 'Назад',
+            receivedBy: 'Получил',
+            signature: 'Подпись',
+            deliveryPhotos: 'Фото доставки',
+            downloadInvoice: 'Скачать счёт-фактуру',
+            invoiceFailed: 'Не удалось скачать счёт-фактуру'
         },
         paymentPortal: {
             title: 'Оплата',
@@ -953,11 +1058,13 @@ export const translations = {
             contactSeller: 'Свяжитесь с продавцом для получения новой ссылки.',
             cancelled: 'Оплата отменена',
             cancelledMessage: 'Эта оплата была отменена.',
+            refunded: 'Оплата возвращена',
+            refundedMessage: 'Платёжная система отменила эту оплату и вернула средства.',
             customer: 'Клиент',
             paymentAmount: 'Сумма оплаты',
             selectPaymentMethod: 'Выберите способ оплаты:',
-            payWithClick: 'Оплатить через Click',
-            payWithPayme: 'Оплатить через Payme',
+            payWith: 'Оплатить через {provider}',
+            payWithTestGateway: 'Оплатить через тестовый шлюз',
             noPaymentMethods: 'Способы оплаты не настроены. Свяжитесь с продавцом.',
             securePayment: '🔒 Все платежи защищены',
             poweredBy: 'Работает на IxaSales'
@@ -1249,7 +1356,80 @@ export const translations = {
                 overview: 'Обзор',
                 tasks: 'Задачи',
                 inventory: 'Инвентарь',
-                receiving: 'Приёмка'
+                receiving: 'Приёмка',
+                counts: 'Подсчёт'
+            },
+            counts: {
+                title: 'Инвентаризация',
+                subtitle: 'Пересчёт складских остатков',
+                newCount: 'Новый подсчёт',
+                name: 'Название подсчёта',
+                nameRequired: 'Введите название подсчёта',
+                scope_full: 'Полный',
+                scope_category: 'Категория',
+                scope_bin: 'Ячейка',
+                scope_cycle: 'Цикл',
+                selectCategory: 'Выберите категорию',
+                selectBin: 'Выберите ячейку',
+                classA: 'Класс A (самые продаваемые)',
+                classB: 'Класс B',
+                classC: 'Класс C',
+                cycleLimit: 'Кол-во товаров',
+                blind: 'Слепой подсчёт (ожидаемое скрыто)',
+                start: 'Начать подсчёт',
+                created: 'Подсчёт открыт',
+                createFailed: 'Не удалось открыть подсчёт',
+                empty: 'Подсчётов пока нет',
+                counted: 'посчитано',
+                status_in_progress: 'Идёт подсчёт',
+                status_submitted: 'Ждёт утверждения',
+                status_completed: 'Завершён',
+                status_cancelled: 'Отменён',
+                back: 'Назад',
+                scan: 'Сканировать товар',
+                notInCount: 'Товара нет в этом подсчёте',
+                scanFailed: 'Ошибка сканирования',
+                saveFailed: 'Не удалось сохранить',
+                expected: 'Ожидается',
+                withVariance: 'С расхождением',
+                varianceValue: 'Сумма расхождений',
+                blindHint: 'Слепой подсчёт: ожидаемое количество скрыто',
+                onlyVariances: 'Только расхождения',
+                submit: 'Отправить на утверждение',
+                approve: 'Утвердить',
+                reject: 'На пересчёт',
+                cancel: 'Отменить подсчёт',
+                confirmZeroUncounted: 'Не посчитано товаров: {count}. Считать их равными 0?',
+                rejectReason: 'Причина пересчёта',
+                confirmCancel: 'Отменить подсчёт?',
+                submitDone: 'Подсчёт отправлен',
+                approveDone: 'Корректировки проведены',
+                rejectDone: 'Возвращено на пересчёт',
+                cancelDone: 'Подсчёт отменён',
+                actionFailed: 'Не удалось выполнить действие',
+                awaitingApproval: 'Ожидает утверждения супервайзером'
+            },
+            packing: {
+                title: 'Упаковка',
+                start: 'Начать упаковку',
+                scan: 'Сканировать товар',
+                progress: 'Проверено',
+                notInOrder: 'Этого товара нет в заказе',
+                overScanned: 'Отсканировано больше, чем собрано',
+                productNotFound: 'Товар не найден',
+                scanFailed: 'Ошибка сканирования',
+                actionFailed: 'Не удалось выполнить действие',
+                reset: 'Пересканировать',
+                packageCount: 'Кол-во мест',
+                weightKg: 'Вес (кг)',
+                mismatchHint: 'Нельзя завершить, пока все товары не отсканированы в собранном количестве',
+                complete: 'Завершить упаковку',
+                completed: 'Заказ готов к погрузке',
+                cancel: 'Отменить упаковку',
+                confirmCancel: 'Отменить упаковку?',
+                loaded: 'Упаковано мест: {count}',
+                printSlip: 'Печать упаковочного листа и этикеток',
+                slipFailed: 'Не удалось загрузить упаковочный лист'
             },
             dashboard: {
                 title: 'Обзор склада',
@@ -1301,7 +1481,12 @@ export const translations = {
                 reorderPoint: 'Точка перезаказа',
                 costPrice: 'Себестоимость',
                 price: 'Цена',
-                notFound: 'Товар не найден'
+                notFound: 'Товар не найден',
+                allWarehouses: 'Все склады',
+                byWarehouse: 'По складам',
+                lots: 'Партии',
+                expired: 'Просрочено',
+                reserved: 'Зарезервировано'
             },
             receiving: {
                 title: 'Приёмка',
@@ -1341,6 +1526,12 @@ export const translations = {
                 awaitingApproval: 'Ожидает подтверждения админа',
                 draftModeTitle: 'Режим редактирования',
                 draftModeMessage: 'Это черновик заказа. Можно добавлять и удалять товары.',
+                lotNumber: 'Номер партии',
+                expiryDate: 'Срок годности',
+                lotHint: 'Следующие отсканированные товары будут записаны в эту партию',
+                putawayTo: 'Разместить в',
+                assignBin: 'Закрепить',
+                binAssigned: 'Ячейка закреплена',
                 deleteItem: 'Удалить товар',
                 confirmDeleteItem: 'Вы уверены, что хотите удалить товар?',
                 itemDeleted: 'Товар удалён',
@@ -1361,7 +1552,14 @@ export const translations = {
                 picked: 'Собрано',
                 insufficientStock: 'Недостаточно запасов',
                 orderBreakdown: 'Разбивка по заказам',
+                pickLotFirst: 'Сначала берите',
+                expires: 'годен до',
                 pickOne: 'Собрать один',
+                bin: 'Ячейка',
+                scanBin: 'Отсканируйте ячейку',
+                binConfirmed: 'Ячейка подтверждена',
+                wrongBin: 'Неверная ячейка',
+                scanBinFirst: 'Сначала отсканируйте ячейку',
                 itemPicked: 'Товар собран',
                 pickFailed: 'Ошибка сборки',
                 productNotInBatch: 'Товара нет в выбранных заказах',
@@ -1529,7 +1727,8 @@ export const translations = {
             removeDiscount: 'Remove discount',
             addressRequired: 'Please enter delivery address',
             autoDiscountHint: 'Automatic discount will be applied',
-            checkingDiscounts: 'Checking discounts...'
+            checkingDiscounts: 'Checking discounts...',
+            tierDiscount: '{tier} tier discount ({percent}%)'
         },
         payments: {
             totalPaid: 'Total paid:',
@@ -1631,7 +1830,12 @@ export const translations = {
             notes: 'Notes',
             loading: 'Loading...',
             notFound: 'Order not found',
-            back: 'Back'
+            back: 'Back',
+            receivedBy: 'Received by',
+            signature: 'Signature',
+            deliveryPhotos: 'Delivery photos',
+            downloadInvoice: 'Download invoice',
+            invoiceFailed: 'Failed to download invoice'
         },
         paymentPortal: {
             title: 'Payment',
@@ -1650,11 +1854,13 @@ export const translations = {
             contactSeller: 'Contact the seller for a new link.',
             cancelled: 'Payment cancelled',
             cancelledMessage: 'This payment has been cancelled.',
+            refunded: 'Payment refunded',
+            refundedMessage: 'The payment provider cancelled this payment and refunded it.',
             customer: 'Customer',
             paymentAmount: 'Payment amount',
             selectPaymentMethod: 'Select payment method:',
-            payWithClick: 'Pay with Click',
-            payWithPayme: 'Pay with Payme',
+            payWith: 'Pay with {provider}',
+            payWithTestGateway: 'Pay with test gateway',
             noPaymentMethods: 'Payment methods not configured. Contact seller.',
             securePayment: '🔒 All payments are secure',
             poweredBy: 'Powered by IxaSales'
@@ -1947,7 +2153,80 @@ export const translations = {
                 overview: 'Overview',
                 tasks: 'Tasks',
                 inventory: 'Inventory',
-                receiving: 'Receiving'
+                receiving: 'Receiving',
+                counts: 'Counts'
+            },
+            counts: {
+                title: 'Stock Counts',
+                subtitle: 'Count what is on the shelves',
+                newCount: 'New count',
+                name: 'Count name',
+                nameRequired: 'Enter a count name',
+                scope_full: 'Full',
+                scope_category: 'Category',
+                scope_bin: 'Bin',
+                scope_cycle: 'Cycle',
+                selectCategory: 'Select category',
+                selectBin: 'Select bin',
+                classA: 'Class A (top sellers)',
+                classB: 'Class B',
+                classC: 'Class C',
+                cycleLimit: 'Products',
+                blind: 'Blind count (hide expected qty)',
+                start: 'Start count',
+                created: 'Count opened',
+                createFailed: 'Failed to open count',
+                empty: 'No stock counts yet',
+                counted: 'counted',
+                status_in_progress: 'Counting',
+                status_submitted: 'Awaiting approval',
+                status_completed: 'Completed',
+                status_cancelled: 'Cancelled',
+                back: 'Back',
+                scan: 'Scan product',
+                notInCount: 'Product is not part of this count',
+                scanFailed: 'Scan failed',
+                saveFailed: 'Failed to save',
+                expected: 'Expected',
+                withVariance: 'With variance',
+                varianceValue: 'Variance value',
+                blindHint: 'Blind count: expected quantities are hidden',
+                onlyVariances: 'Only variances',
+                submit: 'Submit for approval',
+                approve: 'Approve',
+                reject: 'Send back',
+                cancel: 'Cancel count',
+                confirmZeroUncounted: '{count} products were not counted. Record them as 0?',
+                rejectReason: 'Why should it be recounted?',
+                confirmCancel: 'Cancel this count?',
+                submitDone: 'Count submitted',
+                approveDone: 'Adjustments posted',
+                rejectDone: 'Sent back for recount',
+                cancelDone: 'Count cancelled',
+                actionFailed: 'Action failed',
+                awaitingApproval: 'Waiting for supervisor approval'
+            },
+            packing: {
+                title: 'Packing',
+                start: 'Start packing',
+                scan: 'Scan product',
+                progress: 'Verified',
+                notInOrder: 'This product is not in the order',
+                overScanned: 'Scanned more than was picked',
+                productNotFound: 'Product not found',
+                scanFailed: 'Scan failed',
+                actionFailed: 'Action failed',
+                reset: 'Rescan',
+                packageCount: 'Packages',
+                weightKg: 'Weight (kg)',
+                mismatchHint: 'Packing can be completed once every item is scanned in its picked quantity',
+                complete: 'Complete packing',
+                completed: 'Order is ready for loading',
+                cancel: 'Cancel packing',
+                confirmCancel: 'Cancel this packing session?',
+                loaded: 'Packed into {count} package(s)',
+                printSlip: 'Print packing slip & labels',
+                slipFailed: 'Failed to load packing slip'
             },
             dashboard: {
                 title: 'Warehouse Overview',
@@ -1999,7 +2278,12 @@ export const translations = {
                 reorderPoint: 'Reorder Point',
                 costPrice: 'Cost Price',
                 price: 'Price',
-                notFound: 'Item not found'
+                notFound: 'Item not found',
+                allWarehouses: 'All warehouses',
+                byWarehouse: 'By warehouse',
+                lots: 'Lots',
+                expired: 'Expired',
+                reserved: 'Reserved'
             },
             receiving: {
                 title: 'Receiving',
@@ -2039,6 +2323,12 @@ export const translations = {
                 awaitingApproval: 'Awaiting admin approval',
                 draftModeTitle: 'Edit mode',
                 draftModeMessage: 'This is a draft order. You can add or remove items.',
+                lotNumber: 'Lot number',
+                expiryDate: 'Expiry date',
+                lotHint: 'Next scanned items are booked into this lot',
+                putawayTo: 'Put away to',
+                assignBin: 'Assign',
+                binAssigned: 'Bin assigned',
                 deleteItem: 'Delete item',
                 confirmDeleteItem: 'Are you sure you want to delete this item?',
                 itemDeleted: 'Item deleted',
@@ -2059,7 +2349,14 @@ export const translations = {
                 picked: 'Picked',
                 insufficientStock: 'Insufficient stock',
                 orderBreakdown: 'Order Breakdown',
+                pickLotFirst: 'Pick first',
+                expires: 'expires',
                 pickOne: 'Pick One',
+                bin: 'Bin',
+                scanBin: 'Scan bin',
+                binConfirmed: 'Bin confirmed',
+                wrongBin: 'Wrong bin',
+                scanBinFirst: 'Scan the bin first',
                 itemPicked: 'Item picked',
                 pickFailed: 'Failed to pick',
                 productNotInBatch: 'Product not in selected orders',
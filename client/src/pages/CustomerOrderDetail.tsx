@@ -7,7 +7,7 @@
 
 import { type Component, createSignal, Show, For, onMount } from 'solid-js';
 import { useParams, useNavigate } from '@solidjs/router';
-import { ArrowLeft, Package, Loader2, CreditCard, CheckCircle, Clock, Truck, XCircle, AlertCircle, Box, Check, RefreshCw } from 'lucide-solid';
+import { ArrowLeft, Package, Loader2, CreditCard, CheckCircle, Clock, Truck, XCircle, AlertCircle, Box, Check, RefreshCw, FileText } from 'lucide-solid';
 import { customerApi } from '../services/customer-api';
 import type { OrderDetail, TimelineStep } from '../types/customer-portal';
 import { formatMoney, getImageUrl } from '../utils/formatters';
@@ -19,6 +19,7 @@ import '../styles/CustomerPortal.css';
 
 // Timeline Component
 const OrderTimeline: Component<{ timeline: TimelineStep[] }> = (props) => {
+    const { t } = useI18n();
     const getIcon = (iconName: string, completed: boolean, current: boolean) => {
         const iconClass = completed ? 'timeline-icon completed' : current ? 'timeline-icon current' : 'timeline-icon';
         const size = 20;
@@ -52,6 +53,27 @@ const OrderTimeline: Component<{ timeline: TimelineStep[] }> = (props) => {
                             <Show when={step.date}>
                                 <div class="timeline-date">{formatDateTime(step.date)}</div>
                             </Show>
+                            <Show when={step.proof}>
+                                {(proof) => (
+                                    <div class="timeline-proof">
+                                        <div class="timeline-date">{t('orderDetail.receivedBy')}: {proof().recipientName}</div>
+                                        <Show when={proof().signatureUrl}>
+                                            <img class="timeline-proof-signature" src={getImageUrl(proof().signatureUrl)} alt={t('orderDetail.signature') as string} />
+                                        </Show>
+                                        <Show when={proof().photoUrls.length > 0}>
+                                            <div class="timeline-proof-photos">
+                                                <For each={proof().photoUrls}>
+                                                    {(url) => (
+                                                        <a href={getImageUrl(url)} target="_blank" rel="noopener noreferrer">
+                                                            <img src={getImageUrl(url)} alt={t('orderDetail.deliveryPhotos') as string} />
+                                                        </a>
+                                                    )}
+                                                </For>
+                                            </div>
+                                        </Show>
+                                    </div>
+                                )}
+                            </Show>
                         </div>
                     </div>
                 )}
@@ -69,6 +91,7 @@ const CustomerOrderDetailContent: Component = () => {
     const [loading, setLoading] = createSignal(true);
     const [error, setError] = createSignal('');
     const [reordering, setReordering] = createSignal(false);
+    const [downloading, setDownloading] = createSignal(false);
 
     onMount(async () => {
         const token = customerApi.token.get();
@@ -102,6 +125,26 @@ const CustomerOrderDetailContent: Component = () => {
         }
     };
 
+    const handleDownloadInvoice = async () => {
+        const current = order();
+        if (!current?.invoice) return;
+
+        setDownloading(true);
+        const blob = await customerApi.orders.downloadInvoice(current.id);
+        setDownloading(false);
+        if (!blob) {
+            toast.error(t('orderDetail.invoiceFailed') as string);
+            return;
+        }
+
+        const url = window.URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${current.invoice.invoiceNumber}.pdf`;
+        link.click();
+        setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+    };
+
     const handleReorder = async () => {
         if (!order()) return;
 
@@ -250,6 +293,22 @@ const CustomerOrderDetailContent: Component = () => {
                         </div>
                     </div>
 
+                    {/* Invoice */}
+                    <Show when={order()!.invoice}>
+                        <div class="section">
+                            <button
+                                class="btn-secondary"
+                                onClick={handleDownloadInvoice}
+                                disabled={downloading()}
+                            >
+                                <Show when={downloading()} fallback={<FileText size={18} />}>
+                                    <Loader2 size={18} class="spin" />
+                                </Show>
+                                {t('orderDetail.downloadInvoice')} {order()!.invoice!.invoiceNumber}
+                            </button>
+                        </div>
+                    </Show>
+
                     {/* Notes */}
                     <Show when={order()!.notes}>
                         <div class="section">
@@ -5,14 +5,14 @@
  * Updated with i18n support for multilingual payments.
  */
 
-import { createSignal, onMount, Show } from 'solid-js';
+import { createSignal, onMount, Show, For } from 'solid-js';
 import type { Component } from 'solid-js';
 import { useParams } from '@solidjs/router';
 import { useI18n } from '../i18n';
 import '../styles/PaymentPortal.css';
 
 interface PaymentInfo {
-    status: 'pending' | 'paid' | 'expired' | 'cancelled';
+    status: 'pending' | 'paid' | 'expired' | 'cancelled' | 'refunded';
     order: {
         orderNumber: string;
         customerName: string;
@@ -20,8 +20,8 @@ interface PaymentInfo {
         currency: string;
     };
     expiresAt: string;
-    clickUrl?: string;
-    paymeUrl?: string;
+    providers: { provider: string; displayName: string; url: string }[];
+    mockEnabled?: boolean;
 }
 
 const PaymentPortal: Component = () => {
@@ -58,6 +58,16 @@ const PaymentPortal: Component = () => {
         }
     };
 
+    // Local test gateway: completes the payment without leaving the page
+    const payWithMock = async () => {
+        setLoading(true);
+        try {
+            await fetch(`/api/payment-gateway/mock/${params.token}/pay`, { method: 'POST' });
+        } finally {
+            await fetchPaymentStatus();
+        }
+    };
+
     const formatMoney = (amount: number) => {
         return amount.toLocaleString('ru-RU').replace(/,/g, ' ');
     };
@@ -111,6 +121,15 @@ const PaymentPortal: Component = () => {
                     </div>
                 </Show>
 
+                {/* Payment refunded by the gateway */}
+                <Show when={paymentInfo()?.status === 'refunded'}>
+                    <div class="payment-portal cancelled">
+                        <div class="cancelled-icon">↩️</div>
+                        <h2>{t('paymentPortal.refunded')}</h2>
+                        <p>{t('paymentPortal.refundedMessage')}</p>
+                    </div>
+                </Show>
+
                 {/* Pending payment - show payment options */}
                 <Show when={paymentInfo()?.status === 'pending'}>
                     <div class="payment-portal pending">
@@ -138,19 +157,21 @@ const PaymentPortal: Component = () => {
                         <div class="payment-methods">
                             <h3>{t('paymentPortal.selectPaymentMethod')}</h3>
 
-                            <Show when={paymentInfo()?.clickUrl}>
-                                <a href={paymentInfo()?.clickUrl} class="payment-btn click">
-                                    <span>{t('paymentPortal.payWithClick')}</span>
-                                </a>
-                            </Show>
-
-                            <Show when={paymentInfo()?.paymeUrl}>
-                                <a href={paymentInfo()?.paymeUrl} class="payment-btn payme">
-                                    <span>{t('paymentPortal.payWithPayme')}</span>
-                                </a>
+                            <For each={paymentInfo()?.providers || []}>
+                                {(link) => (
+                                    <a href={link.url} class={`payment-btn ${link.provider}`}>
+                                        <span>{t('paymentPortal.payWith', { provider: link.displayName })}</span>
+                                    </a>
+                                )}
+                            </For>
+
+                            <Show when={paymentInfo()?.mockEnabled}>
+                                <button type="button" onClick={payWithMock} class="payment-btn">
+                                    <span>{t('paymentPortal.payWithTestGateway')}</span>
+                                </button>
                             </Show>
 
-                            <Show when={!paymentInfo()?.clickUrl && !paymentInfo()?.paymeUrl}>
+                            <Show when={!paymentInfo()?.providers?.length && !paymentInfo()?.mockEnabled}>
                                 <p class="no-methods">{t('paymentPortal.noPaymentMethods')}</p>
                             </Show>
                         </div>
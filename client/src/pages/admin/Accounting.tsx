@@ -0,0 +1,545 @@
+import { type Component, createResource, createSignal, Show, For } from 'solid-js';
+import { Loader2, RefreshCw, BookOpen, Plus, Trash2, Upload } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { formatCurrency, formatDateTime } from '../../stores/settings';
+import { toast } from '../../components/Toast';
+
+type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+interface Account {
+    id: string;
+    code: string;
+    name: string;
+    type: AccountType;
+    systemRole: string | null;
+    isActive: boolean;
+}
+
+interface TrialBalanceLine {
+    accountId: string;
+    code: string;
+    name: string;
+    type: AccountType;
+    openingBalance: number;
+    debit: number;
+    credit: number;
+    closingBalance: number;
+}
+
+interface TrialBalance {
+    lines: TrialBalanceLine[];
+    totalDebit: number;
+    totalCredit: number;
+}
+
+interface ProfitAndLossLine {
+    accountId: string;
+    code: string;
+    name: string;
+    amount: number;
+}
+
+interface ProfitAndLoss {
+    revenue: ProfitAndLossLine[];
+    expenses: ProfitAndLossLine[];
+    totalRevenue: number;
+    totalExpenses: number;
+    netProfit: number;
+}
+
+interface JournalEntry {
+    id: string;
+    sourceType: string;
+    reference: string | null;
+    description: string | null;
+    totalAmount: string;
+    entryDate: string;
+    lines: { accountCode: string; accountName: string; debit: number; credit: number }[];
+}
+
+interface ExchangeRate {
+    id: string;
+    currency: string;
+    rate: string;
+    rateDate: string;
+    source: 'manual' | 'cbu';
+}
+
+interface ExchangeRatesResponse {
+    data: ExchangeRate[];
+    meta: { baseCurrency: string };
+}
+
+const SYSTEM_ROLES = ['cash', 'bank', 'receivable', 'inventory', 'payable', 'tax_payable', 'revenue', 'sales_returns', 'cogs', 'inventory_adjustment', 'fx_gain', 'fx_loss'];
+const ACCOUNT_TYPES: AccountType[] = ['asset', 'liability', 'equity', 'revenue', 'expense'];
+
+const roleLabel = (role: string) => role.replace(/_/g, ' ');
+
+const Accounting: Component = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const [tab, setTab] = createSignal<'trial-balance' | 'profit-and-loss' | 'journal' | 'accounts' | 'rates'>('trial-balance');
+    const [from, setFrom] = createSignal(`${today.slice(0, 8)}01`);
+    const [to, setTo] = createSignal(today);
+
+    const [trialBalance, { refetch: refetchTrialBalance }] = createResource(
+        () => tab() === 'trial-balance' && { from: from(), to: to() },
+        (params) => api.get<TrialBalance>('/accounting/trial-balance', { params })
+    );
+    const [profitAndLoss, { refetch: refetchProfitAndLoss }] = createResource(
+        () => tab() === 'profit-and-loss' && { from: from(), to: to() },
+        (params) => api.get<ProfitAndLoss>('/accounting/profit-and-loss', { params })
+    );
+    const [journal, { refetch: refetchJournal }] = createResource(
+        () => tab() === 'journal' && { from: from(), to: to() },
+        (params) => api.get<JournalEntry[]>('/accounting/journal', { params: { ...params, limit: '200' } })
+    );
+    const [accounts, { refetch: refetchAccounts }] = createResource(
+        () => tab() === 'accounts',
+        () => api.get<Account[]>('/accounting/accounts')
+    );
+    const [rates, { refetch: refetchRates }] = createResource(
+        () => tab() === 'rates',
+        () => api.response<ExchangeRatesResponse>('/accounting/exchange-rates', { params: { limit: '200' } })
+    );
+
+    const [newAccount, setNewAccount] = createSignal({ code: '', name: '', type: 'asset' as AccountType });
+    const [newRate, setNewRate] = createSignal({ currency: 'USD', rate: '', rateDate: today });
+    const [saving, setSaving] = createSignal(false);
+
+    const refresh = () => {
+        if (tab() === 'trial-balance') refetchTrialBalance();
+        else if (tab() === 'profit-and-loss') refetchProfitAndLoss();
+        else if (tab() === 'journal') refetchJournal();
+        else if (tab() === 'rates') refetchRates();
+        else refetchAccounts();
+    };
+
+    const createAccount = async () => {
+        const input = newAccount();
+        if (!input.code.trim() || !input.name.trim()) return;
+        setSaving(true);
+        try {
+            await api.post('/accounting/accounts', input);
+            setNewAccount({ code: '', name: '', type: input.type });
+            refetchAccounts();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to add account');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const updateAccount = async (account: Account, update: { name?: string; isActive?: boolean; systemRole?: string }) => {
+        try {
+            await api.patch(`/accounting/accounts/${account.id}`, update);
+            refetchAccounts();
+        } catch (error: any) {
+            toast.error(error.message || `Failed to update ${account.code}`);
+            refetchAccounts();
+        }
+    };
+
+    const saveRate = async () => {
+        const input = newRate();
+        const rate = Number(input.rate);
+        if (!/^[A-Za-z]{3}$/.test(input.currency) || !(rate > 0) || !input.rateDate) return;
+        setSaving(true);
+        try {
+            await api.put('/accounting/exchange-rates', { currency: input.currency.toUpperCase(), rate, rateDate: input.rateDate });
+            setNewRate({ ...input, rate: '' });
+            refetchRates();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to save rate');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const deleteRate = async (rate: ExchangeRate) => {
+        try {
+            await api.delete(`/accounting/exchange-rates/${rate.id}`);
+            refetchRates();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to delete rate');
+        }
+    };
+
+    // CBU rates file (JSON or XML) downloaded from cbu.uz
+    const importRates = async (file: File) => {
+        setSaving(true);
+        try {
+            const result = await api.post<{ imported: number; rateDates: string[] }>('/accounting/exchange-rates/import', {
+                content: await file.text(),
+            });
+            toast.success(`Imported ${result.imported} rates for ${result.rateDates.join(', ')}`);
+            refetchRates();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to import rates');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const loading = (
+        <div class="p-12 flex justify-center"><Loader2 class="w-8 h-8 animate-spin text-blue-500" /></div>
+    );
+
+    const tabClass = (name: string) => `px-4 py-2 rounded-xl text-sm font-medium transition-colors ${tab() === name
+        ? 'bg-blue-600 text-white'
+        : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`;
+
+    return (
+        <div class="p-4 pt-6 sm:p-8 sm:pt-8 space-y-8">
+            <div class="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 class="text-3xl font-bold text-white tracking-tight">Accounting</h1>
+                    <p class="text-slate-400 mt-1">General ledger posted from deliveries, payments, returns and stock adjustments</p>
+                </div>
+            </div>
+
+            {/* Tabs and period */}
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 flex flex-col lg:flex-row gap-4 lg:items-center">
+                <div class="flex flex-wrap gap-2 flex-1">
+                    <button class={tabClass('trial-balance')} onClick={() => setTab('trial-balance')}>Trial Balance</button>
+                    <button class={tabClass('profit-and-loss')} onClick={() => setTab('profit-and-loss')}>Profit &amp; Loss</button>
+                    <button class={tabClass('journal')} onClick={() => setTab('journal')}>Journal</button>
+                    <button class={tabClass('accounts')} onClick={() => setTab('accounts')}>Chart of Accounts</button>
+                    <button class={tabClass('rates')} onClick={() => setTab('rates')}>Exchange Rates</button>
+                </div>
+                <Show when={tab() !== 'accounts' && tab() !== 'rates'}>
+                    <input
+                        type="date"
+                        value={from()}
+                        onChange={(e) => setFrom(e.currentTarget.value)}
+                        class="bg-slate-950 border border-slate-800 rounded-xl px-3 py-2.5 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                    <input
+                        type="date"
+                        value={to()}
+                        onChange={(e) => setTo(e.currentTarget.value)}
+                        class="bg-slate-950 border border-slate-800 rounded-xl px-3 py-2.5 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                </Show>
+                <button
+                    onClick={refresh}
+                    class="p-3 bg-slate-800 text-slate-300 rounded-xl hover:bg-slate-700 transition-colors"
+                    title="Refresh"
+                >
+                    <RefreshCw class="w-5 h-5" />
+                </button>
+            </div>
+
+            {/* Trial balance */}
+            <Show when={tab() === 'trial-balance'}>
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <Show when={!trialBalance.loading} fallback={loading}>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-6 py-4">Account</th>
+                                        <th class="px-6 py-4 text-right">Opening</th>
+                                        <th class="px-6 py-4 text-right">Debit</th>
+                                        <th class="px-6 py-4 text-right">Credit</th>
+                                        <th class="px-6 py-4 text-right">Closing</th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={trialBalance()?.lines || []} fallback={
+                                        <tr><td colspan={5} class="px-6 py-12 text-center text-slate-500">No postings in this period</td></tr>
+                                    }>
+                                        {(line) => (
+                                            <tr class="hover:bg-slate-800/50 transition-colors">
+                                                <td class="px-6 py-4">
+                                                    <span class="text-white font-medium mr-2">{line.code}</span>
+                                                    <span class="text-slate-300">{line.name}</span>
+                                                </td>
+                                                <td class="px-6 py-4 text-right text-slate-400">{formatCurrency(line.openingBalance)}</td>
+                                                <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(line.debit)}</td>
+                                                <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(line.credit)}</td>
+                                                <td class="px-6 py-4 text-right text-white font-medium">{formatCurrency(line.closingBalance)}</td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                                <Show when={(trialBalance()?.lines || []).length > 0}>
+                                    <tfoot class="bg-slate-950 text-white font-semibold">
+                                        <tr>
+                                            <td class="px-6 py-4" colspan={2}>Total</td>
+                                            <td class="px-6 py-4 text-right">{formatCurrency(trialBalance()?.totalDebit)}</td>
+                                            <td class="px-6 py-4 text-right">{formatCurrency(trialBalance()?.totalCredit)}</td>
+                                            <td class="px-6 py-4" />
+                                        </tr>
+                                    </tfoot>
+                                </Show>
+                            </table>
+                        </div>
+                    </Show>
+                </div>
+            </Show>
+
+            {/* Profit and loss */}
+            <Show when={tab() === 'profit-and-loss'}>
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl p-6">
+                    <Show when={!profitAndLoss.loading && profitAndLoss()} fallback={loading}>
+                        {(report) => (
+                            <div class="space-y-6">
+                                <For each={[
+                                    { title: 'Revenue', lines: report().revenue, total: report().totalRevenue },
+                                    { title: 'Expenses', lines: report().expenses, total: report().totalExpenses },
+                                ]}>
+                                    {(section) => (
+                                        <div>
+                                            <h2 class="text-sm uppercase tracking-wider text-slate-400 font-semibold mb-2">{section.title}</h2>
+                                            <For each={section.lines} fallback={<div class="text-slate-500 text-sm py-2">None</div>}>
+                                                {(line) => (
+                                                    <div class="flex justify-between py-2 border-b border-slate-800 text-slate-300">
+                                                        <span><span class="text-white mr-2">{line.code}</span>{line.name}</span>
+                                                        <span>{formatCurrency(line.amount)}</span>
+                                                    </div>
+                                                )}
+                                            </For>
+                                            <div class="flex justify-between py-2 text-white font-medium">
+                                                <span>Total {section.title.toLowerCase()}</span>
+                                                <span>{formatCurrency(section.total)}</span>
+                                            </div>
+                                        </div>
+                                    )}
+                                </For>
+                                <div class="flex justify-between pt-4 border-t border-slate-700 text-lg font-bold">
+                                    <span class="text-white">Net profit</span>
+                                    <span class={report().netProfit < 0 ? 'text-red-400' : 'text-emerald-400'}>{formatCurrency(report().netProfit)}</span>
+                                </div>
+                            </div>
+                        )}
+                    </Show>
+                </div>
+            </Show>
+
+            {/* Journal */}
+            <Show when={tab() === 'journal'}>
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <Show when={!journal.loading} fallback={loading}>
+                        <Show when={(journal() || []).length > 0} fallback={
+                            <div class="p-12 flex flex-col items-center text-slate-500">
+                                <BookOpen class="w-12 h-12 mb-3 opacity-20" />
+                                No journal entries in this period
+                            </div>
+                        }>
+                            <div class="divide-y divide-slate-800">
+                                <For each={journal()}>
+                                    {(entry) => (
+                                        <div class="p-4 sm:px-6">
+                                            <div class="flex flex-wrap justify-between gap-2 mb-2">
+                                                <div>
+                                                    <span class="text-white font-medium mr-2">{entry.reference || entry.sourceType}</span>
+                                                    <span class="text-slate-400 text-sm">{entry.description}</span>
+                                                </div>
+                                                <span class="text-slate-500 text-sm">{formatDateTime(entry.entryDate)}</span>
+                                            </div>
+                                            <For each={entry.lines}>
+                                                {(line) => (
+                                                    <div class="grid grid-cols-[1fr_auto_auto] gap-4 text-sm py-0.5">
+                                                        <span class={line.credit > 0 ? 'pl-6 text-slate-400' : 'text-slate-300'}>
+                                                            {line.accountCode} {line.accountName}
+                                                        </span>
+                                                        <span class="w-32 text-right text-slate-300">{line.debit > 0 ? formatCurrency(line.debit) : ''}</span>
+                                                        <span class="w-32 text-right text-slate-300">{line.credit > 0 ? formatCurrency(line.credit) : ''}</span>
+                                                    </div>
+                                                )}
+                                            </For>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+                    </Show>
+                </div>
+            </Show>
+
+            {/* Chart of accounts */}
+            <Show when={tab() === 'accounts'}>
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 flex flex-col sm:flex-row gap-3">
+                    <input
+                        type="text"
+                        value={newAccount().code}
+                        onInput={(e) => setNewAccount({ ...newAccount(), code: e.currentTarget.value })}
+                        placeholder="Code"
+                        class="sm:w-28 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                    <input
+                        type="text"
+                        value={newAccount().name}
+                        onInput={(e) => setNewAccount({ ...newAccount(), name: e.currentTarget.value })}
+                        placeholder="Account name"
+                        class="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                    <select
+                        value={newAccount().type}
+                        onChange={(e) => setNewAccount({ ...newAccount(), type: e.currentTarget.value as AccountType })}
+                        class="bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white capitalize focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    >
+                        <For each={ACCOUNT_TYPES}>{(type) => <option value={type}>{type}</option>}</For>
+                    </select>
+                    <button
+                        onClick={createAccount}
+                        disabled={saving()}
+                        class="flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                    >
+                        <Plus class="w-4 h-4" /> Add Account
+                    </button>
+                </div>
+
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <Show when={!accounts.loading} fallback={loading}>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-6 py-4">Code</th>
+                                        <th class="px-6 py-4">Name</th>
+                                        <th class="px-6 py-4">Type</th>
+                                        <th class="px-6 py-4">Posts</th>
+                                        <th class="px-6 py-4">Active</th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={accounts()}>
+                                        {(account) => (
+                                            <tr class="hover:bg-slate-800/50 transition-colors">
+                                                <td class="px-6 py-3 text-white font-medium">{account.code}</td>
+                                                <td class="px-6 py-3">
+                                                    <input
+                                                        type="text"
+                                                        value={account.name}
+                                                        onChange={(e) => {
+                                                            const name = e.currentTarget.value.trim();
+                                                            if (name && name !== account.name) updateAccount(account, { name });
+                                                        }}
+                                                        class="w-full bg-transparent border border-transparent hover:border-slate-700 focus:border-slate-600 rounded-lg px-2 py-1 text-slate-200 outline-none"
+                                                    />
+                                                </td>
+                                                <td class="px-6 py-3 text-slate-400 capitalize">{account.type}</td>
+                                                <td class="px-6 py-3">
+                                                    <select
+                                                        value={account.systemRole || ''}
+                                                        onChange={(e) => e.currentTarget.value && updateAccount(account, { systemRole: e.currentTarget.value })}
+                                                        class="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-slate-300 capitalize outline-none"
+                                                    >
+                                                        <option value="">-</option>
+                                                        <For each={SYSTEM_ROLES}>{(role) => <option value={role}>{roleLabel(role)}</option>}</For>
+                                                    </select>
+                                                </td>
+                                                <td class="px-6 py-3">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={account.isActive}
+                                                        onChange={(e) => updateAccount(account, { isActive: e.currentTarget.checked })}
+                                                        class="w-4 h-4 accent-blue-600"
+                                                    />
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                    </Show>
+                </div>
+            </Show>
+
+            {/* Exchange rates */}
+            <Show when={tab() === 'rates'}>
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 flex flex-col sm:flex-row gap-3">
+                    <input
+                        type="text"
+                        maxLength={3}
+                        value={newRate().currency}
+                        onInput={(e) => setNewRate({ ...newRate(), currency: e.currentTarget.value.toUpperCase() })}
+                        placeholder="USD"
+                        class="sm:w-24 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white uppercase placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                    <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={newRate().rate}
+                        onInput={(e) => setNewRate({ ...newRate(), rate: e.currentTarget.value })}
+                        placeholder={`Rate in ${rates()?.meta.baseCurrency || 'base currency'}`}
+                        class="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                    <input
+                        type="date"
+                        value={newRate().rateDate}
+                        onChange={(e) => setNewRate({ ...newRate(), rateDate: e.currentTarget.value })}
+                        class="bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                    <button
+                        onClick={saveRate}
+                        disabled={saving()}
+                        class="flex items-center justify-center gap-2 px-4 py-3 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                    >
+                        <Plus class="w-4 h-4" /> Save Rate
+                    </button>
+                    <label class="flex items-center justify-center gap-2 px-4 py-3 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-xl font-medium transition-colors cursor-pointer">
+                        <Upload class="w-4 h-4" /> Import CBU File
+                        <input
+                            type="file"
+                            accept=".json,.xml,application/json,text/xml"
+                            class="hidden"
+                            disabled={saving()}
+                            onChange={(e) => {
+                                const file = e.currentTarget.files?.[0];
+                                e.currentTarget.value = '';
+                                if (file) importRates(file);
+                            }}
+                        />
+                    </label>
+                </div>
+
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <Show when={!rates.loading} fallback={loading}>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-6 py-4">Date</th>
+                                        <th class="px-6 py-4">Currency</th>
+                                        <th class="px-6 py-4 text-right">Rate ({rates()?.meta.baseCurrency})</th>
+                                        <th class="px-6 py-4">Source</th>
+                                        <th class="px-6 py-4" />
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={rates()?.data || []} fallback={
+                                        <tr><td colspan={5} class="px-6 py-12 text-center text-slate-500">No exchange rates yet</td></tr>
+                                    }>
+                                        {(rate) => (
+                                            <tr class="hover:bg-slate-800/50 transition-colors">
+                                                <td class="px-6 py-3 text-slate-300">{rate.rateDate}</td>
+                                                <td class="px-6 py-3 text-white font-medium">{rate.currency}</td>
+                                                <td class="px-6 py-3 text-right text-slate-200">{Number(rate.rate).toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                                                <td class="px-6 py-3 text-slate-400 uppercase text-xs">{rate.source}</td>
+                                                <td class="px-6 py-3 text-right">
+                                                    <button
+                                                        onClick={() => deleteRate(rate)}
+                                                        class="p-2 text-slate-500 hover:text-red-400 transition-colors"
+                                                        title="Delete"
+                                                    >
+                                                        <Trash2 class="w-4 h-4" />
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                    </Show>
+                </div>
+            </Show>
+        </div>
+    );
+};
+
+export default Accounting;
@@ -19,6 +19,8 @@ const AddDiscountModal: Component<AddDiscountModalProps> = (props) => {
         freeQty: '',
         minOrderAmount: '',
         maxDiscountAmount: '',
+        priority: '',
+        isStackable: false,
         startsAt: '',
         endsAt: '',
     });
@@ -90,6 +92,7 @@ const AddDiscountModal: Component<AddDiscountModalProps> = (props) => {
                 freeQty: formData().freeQty ? Number(formData().freeQty) : undefined,
                 minOrderAmount: formData().minOrderAmount ? Number(formData().minOrderAmount) : undefined,
                 maxDiscountAmount: formData().maxDiscountAmount ? Number(formData().maxDiscountAmount) : undefined,
+                priority: formData().priority ? Number(formData().priority) : undefined,
             };
 
             // Cleanup empty strings
@@ -260,6 +263,32 @@ const AddDiscountModal: Component<AddDiscountModalProps> = (props) => {
                                                 class="w-full px-4 py-2.5 bg-slate-900 border border-slate-800 rounded-xl text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
                                             />
                                         </div>
+
+                                        <div class="grid grid-cols-2 gap-4 items-end">
+                                            <div>
+                                                <label class="text-xs font-medium text-slate-400 ml-1">Priority</label>
+                                                <input
+                                                    type="number"
+                                                    step="1"
+                                                    value={formData().priority}
+                                                    onInput={(e) => setFormData({ ...formData(), priority: e.currentTarget.value })}
+                                                    placeholder="0"
+                                                    class="w-full px-4 py-2.5 bg-slate-900 border border-slate-800 rounded-xl text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                                                />
+                                            </div>
+                                            <label class="flex items-center gap-2 py-2.5 text-sm text-slate-300 cursor-pointer">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={formData().isStackable}
+                                                    onChange={(e) => setFormData({ ...formData(), isStackable: e.currentTarget.checked })}
+                                                    class="w-4 h-4 rounded border-slate-700 bg-slate-900"
+                                                />
+                                                Stacks with other promotions
+                                            </label>
+                                        </div>
+                                        <p class="text-xs text-slate-500 ml-1">
+                                            Higher priority applies first. A non-stacking promotion skips items another one already discounted.
+                                        </p>
                                     </div>
                                 </div>
                             </div>
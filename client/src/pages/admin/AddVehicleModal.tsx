@@ -14,6 +14,8 @@ const AddVehicleModal: Component<AddVehicleModalProps> = (props) => {
     const [name, setName] = createSignal('');
     const [plateNumber, setPlateNumber] = createSignal('');
     const [capacity, setCapacity] = createSignal('');
+    const [maxWeightKg, setMaxWeightKg] = createSignal('');
+    const [maxVolumeM3, setMaxVolumeM3] = createSignal('');
 
     const handleSubmit = async (e: Event) => {
         e.preventDefault();
@@ -25,6 +27,8 @@ const AddVehicleModal: Component<AddVehicleModalProps> = (props) => {
                 name: name(),
                 plateNumber: plateNumber(),
                 capacity: capacity() ? parseInt(capacity()) : undefined,
+                maxWeightKg: maxWeightKg() ? parseFloat(maxWeightKg()) : undefined,
+                maxVolumeM3: maxVolumeM3() ? parseFloat(maxVolumeM3()) : undefined,
             });
 
             props.onSuccess();
@@ -94,6 +98,33 @@ const AddVehicleModal: Component<AddVehicleModalProps> = (props) => {
                         />
                     </div>
 
+                    <div class="grid grid-cols-2 gap-4">
+                        <div class="space-y-1.5">
+                            <label class="text-sm font-medium text-slate-300">Max Load (kg)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.01"
+                                value={maxWeightKg()}
+                                onInput={(e) => setMaxWeightKg(e.currentTarget.value)}
+                                class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                placeholder="Unlimited"
+                            />
+                        </div>
+                        <div class="space-y-1.5">
+                            <label class="text-sm font-medium text-slate-300">Max Volume (m³)</label>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.001"
+                                value={maxVolumeM3()}
+                                onInput={(e) => setMaxVolumeM3(e.currentTarget.value)}
+                                class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                placeholder="Unlimited"
+                            />
+                        </div>
+                    </div>
+
                     <div class="pt-4 flex justify-end gap-3 border-t border-slate-800">
                         <button
                             type="button"
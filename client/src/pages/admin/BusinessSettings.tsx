@@ -2,7 +2,7 @@ import { type Component, createSignal, createResource, Show, createEffect } from
 import { createStore } from 'solid-js/store';
 import { A } from '@solidjs/router';
 import {
-    ArrowLeft, Settings, Save, Loader2, DollarSign, Hash, Clock, MapPin
+    ArrowLeft, Settings, Save, Loader2, DollarSign, Hash, Clock, MapPin, Truck
 } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { toast } from '../../components/Toast';
@@ -12,9 +12,13 @@ interface BusinessSettings {
     timezone: string;
     orderNumberPrefix: string;
     invoiceNumberPrefix: string;
+    invoiceIssueOn: 'delivery' | 'approval';
     defaultPaymentTerms: number;
     yandexGeocoderApiKey: string;
     openWeatherApiKey: string;
+    proofOfDeliveryRequired: boolean;
+    unreconciledCashLimit: number | null;
+    creditNoteApprovalLimit: number | null;
 }
 
 const CURRENCIES = [
@@ -53,9 +57,13 @@ const BusinessSettingsPage: Component = () => {
         timezone: 'Asia/Tashkent',
         orderNumberPrefix: 'ORD-',
         invoiceNumberPrefix: 'INV-',
+        invoiceIssueOn: 'delivery',
         defaultPaymentTerms: 7,
         yandexGeocoderApiKey: '',
         openWeatherApiKey: '',
+        proofOfDeliveryRequired: false,
+        unreconciledCashLimit: null as number | null,
+        creditNoteApprovalLimit: null as number | null,
     });
 
     createEffect(() => {
@@ -66,9 +74,13 @@ const BusinessSettingsPage: Component = () => {
                 timezone: d.timezone || 'Asia/Tashkent',
                 orderNumberPrefix: d.orderNumberPrefix ?? 'ORD-',
                 invoiceNumberPrefix: d.invoiceNumberPrefix ?? 'INV-',
+                invoiceIssueOn: d.invoiceIssueOn ?? 'delivery',
                 defaultPaymentTerms: d.defaultPaymentTerms ?? 7,
                 yandexGeocoderApiKey: d.yandexGeocoderApiKey ?? '',
                 openWeatherApiKey: d.openWeatherApiKey ?? '',
+                proofOfDeliveryRequired: d.proofOfDeliveryRequired ?? false,
+                unreconciledCashLimit: d.unreconciledCashLimit ?? null,
+                creditNoteApprovalLimit: d.creditNoteApprovalLimit ?? null,
             });
         }
     });
@@ -209,6 +221,20 @@ const BusinessSettingsPage: Component = () => {
                                     </p>
                                 </div>
                             </div>
+                            <div>
+                                <label class="block text-sm text-slate-400 mb-1.5">Issue Invoices</label>
+                                <select
+                                    value={form.invoiceIssueOn}
+                                    onChange={(e) => setForm('invoiceIssueOn', e.currentTarget.value as BusinessSettings['invoiceIssueOn'])}
+                                    class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                >
+                                    <option value="delivery">When the order is delivered</option>
+                                    <option value="approval">When the order is approved</option>
+                                </select>
+                                <p class="text-xs text-slate-500 mt-1">
+                                    Orders that skip approval are invoiced on delivery.
+                                </p>
+                            </div>
                         </div>
                     </div>
 
@@ -235,6 +261,63 @@ const BusinessSettingsPage: Component = () => {
                                 Number of days customers have to pay their invoices. Common values: 7, 14, 30 days.
                             </p>
                         </div>
+                        <div class="mt-4">
+                            <label class="block text-sm text-slate-400 mb-1.5">Credit Note Approval Limit</label>
+                            <div class="flex items-center gap-3">
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={form.creditNoteApprovalLimit ?? ''}
+                                    onInput={(e) => setForm('creditNoteApprovalLimit', e.currentTarget.value === '' ? null : parseFloat(e.currentTarget.value) || 0)}
+                                    placeholder="No approval"
+                                    class="w-40 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                />
+                                <span class="text-slate-500">{form.currency}</span>
+                            </div>
+                            <p class="text-xs text-slate-500 mt-2">
+                                Refunds above this amount wait for a supervisor before the credit note is issued. Leave empty to issue all credit notes immediately.
+                            </p>
+                        </div>
+                    </div>
+
+                    {/* Delivery */}
+                    <div class="bg-slate-900/60 border border-slate-800/50 rounded-2xl p-6">
+                        <h3 class="text-white font-medium mb-4 flex items-center gap-2">
+                            <Truck class="w-5 h-5 text-amber-400" />
+                            Delivery
+                        </h3>
+                        <label class="flex items-start gap-3 cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={form.proofOfDeliveryRequired}
+                                onChange={(e) => setForm('proofOfDeliveryRequired', e.currentTarget.checked)}
+                                class="mt-1 w-4 h-4 rounded border-slate-700 bg-slate-950 text-blue-600 focus:ring-blue-500"
+                            />
+                            <div>
+                                <div class="text-white text-sm">Require proof of delivery</div>
+                                <p class="text-xs text-slate-500 mt-1">
+                                    Drivers must capture the recipient's name and a signature or photo before marking a stop delivered.
+                                    The GPS position and time are recorded with it.
+                                </p>
+                            </div>
+                        </label>
+                        <div class="mt-5">
+                            <label class="block text-sm text-slate-400 mb-1.5">Unreconciled Cash Limit</label>
+                            <div class="flex items-center gap-3">
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={form.unreconciledCashLimit ?? ''}
+                                    onInput={(e) => setForm('unreconciledCashLimit', e.currentTarget.value === '' ? null : parseFloat(e.currentTarget.value) || 0)}
+                                    placeholder="No limit"
+                                    class="w-40 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                />
+                                <span class="text-slate-500">{form.currency}</span>
+                            </div>
+                            <p class="text-xs text-slate-500 mt-2">
+                                Drivers holding more collected cash than this cannot start a new trip until they hand it over. Leave empty for no limit.
+                            </p>
+                        </div>
                     </div>
 
                     {/* Location Services */}
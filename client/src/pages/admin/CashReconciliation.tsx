@@ -0,0 +1,234 @@
+import { type Component, createResource, createSignal, Show, For } from 'solid-js';
+import { Loader2, RefreshCw, Wallet } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { formatCurrency, formatDate } from '../../stores/settings';
+import ConfirmHandoverModal from './ConfirmHandoverModal';
+
+interface PendingHandover {
+    id: string;
+    userName: string | null;
+    businessDate: string;
+    expectedAmount: string;
+    declaredAmount: string;
+    submittedAt: string;
+}
+
+interface Balance {
+    userId: string;
+    userName: string | null;
+    role: string;
+    amount: number;
+    lastCollectedAt: string | null;
+}
+
+interface ReconciliationRow {
+    userId: string;
+    userName: string | null;
+    role: string | null;
+    collected: number;
+    expected: number;
+    declared: number;
+    received: number;
+    shortage: number;
+    overage: number;
+    onHand: number;
+    status: 'not_submitted' | 'pending' | 'reconciled' | 'discrepancy';
+}
+
+interface Reconciliation {
+    date: string;
+    rows: ReconciliationRow[];
+    totals: { collected: number; declared: number; received: number; shortage: number; overage: number; onHand: number };
+}
+
+const statusBadge = (status: ReconciliationRow['status']) => {
+    switch (status) {
+        case 'reconciled':
+            return { class: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20', label: 'Reconciled' };
+        case 'discrepancy':
+            return { class: 'bg-red-500/10 text-red-400 border-red-500/20', label: 'Discrepancy' };
+        case 'pending':
+            return { class: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20', label: 'Pending' };
+        default:
+            return { class: 'bg-slate-500/10 text-slate-400 border-slate-500/20', label: 'Not submitted' };
+    }
+};
+
+const roleLabel = (role: string | null) => role === 'sales_rep' ? 'Sales Rep' : role === 'driver' ? 'Driver' : role || '';
+
+const CashReconciliation: Component = () => {
+    const [date, setDate] = createSignal(new Date().toISOString().slice(0, 10));
+    const [selectedHandover, setSelectedHandover] = createSignal<string | null>(null);
+
+    const [pending, { refetch: refetchPending }] = createResource(async () => {
+        const response = await api.get<{ data: PendingHandover[] }>('/cash/handovers', { params: { status: 'submitted', limit: '100' } });
+        return (response?.data || response || []) as PendingHandover[];
+    });
+    const [balances, { refetch: refetchBalances }] = createResource(() => api<Balance[]>('/cash/balances'));
+    const [report, { refetch: refetchReport }] = createResource(date, (day) => api<Reconciliation>(`/cash/reconciliation?date=${day}`));
+
+    const refreshAll = () => {
+        refetchPending();
+        refetchBalances();
+        refetchReport();
+    };
+
+    return (
+        <div class="p-4 pt-6 sm:p-8 sm:pt-8 space-y-8">
+            <div class="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 class="text-3xl font-bold text-white tracking-tight">Cash Reconciliation</h1>
+                    <p class="text-slate-400 mt-1">Cash collected by drivers and sales reps, handovers and discrepancies</p>
+                </div>
+                <button
+                    onClick={refreshAll}
+                    class="p-3 bg-slate-800 text-slate-300 rounded-xl hover:bg-slate-700 transition-colors"
+                    title="Refresh"
+                >
+                    <RefreshCw class="w-5 h-5" />
+                </button>
+            </div>
+
+            <div class="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                {/* Pending handovers */}
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <div class="px-6 py-4 border-b border-slate-800 text-white font-semibold">Waiting for confirmation</div>
+                    <Show when={!pending.loading} fallback={<div class="p-8 flex justify-center"><Loader2 class="w-6 h-6 animate-spin text-blue-500" /></div>}>
+                        <Show when={(pending() || []).length > 0} fallback={<div class="p-8 text-center text-slate-500 text-sm">No handovers waiting</div>}>
+                            <div class="divide-y divide-slate-800">
+                                <For each={pending()}>
+                                    {(handover) => (
+                                        <div class="px-6 py-4 flex items-center justify-between gap-4">
+                                            <div>
+                                                <div class="text-white font-medium">{handover.userName}</div>
+                                                <div class="text-slate-500 text-xs">{formatDate(handover.businessDate)}</div>
+                                            </div>
+                                            <div class="text-right">
+                                                <div class="text-white">{formatCurrency(handover.declaredAmount)}</div>
+                                                <div class="text-slate-500 text-xs">expected {formatCurrency(handover.expectedAmount)}</div>
+                                            </div>
+                                            <button
+                                                onClick={() => setSelectedHandover(handover.id)}
+                                                class="px-3 py-1.5 bg-blue-600 text-white text-sm font-medium rounded-lg hover:bg-blue-500 transition-colors"
+                                            >
+                                                Review
+                                            </button>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+                    </Show>
+                </div>
+
+                {/* Cash on hand */}
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <div class="px-6 py-4 border-b border-slate-800 text-white font-semibold">Cash on hand</div>
+                    <Show when={!balances.loading} fallback={<div class="p-8 flex justify-center"><Loader2 class="w-6 h-6 animate-spin text-blue-500" /></div>}>
+                        <Show when={(balances() || []).length > 0} fallback={
+                            <div class="p-8 flex flex-col items-center text-slate-500 text-sm">
+                                <Wallet class="w-10 h-10 mb-2 opacity-20" />
+                                Nobody is holding cash
+                            </div>
+                        }>
+                            <div class="divide-y divide-slate-800">
+                                <For each={balances()}>
+                                    {(balance) => (
+                                        <div class="px-6 py-3 flex items-center justify-between">
+                                            <div>
+                                                <div class="text-white">{balance.userName}</div>
+                                                <div class="text-slate-500 text-xs">{roleLabel(balance.role)}</div>
+                                            </div>
+                                            <div class="text-white font-medium">{formatCurrency(balance.amount)}</div>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+                    </Show>
+                </div>
+            </div>
+
+            {/* Daily reconciliation */}
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                <div class="px-6 py-4 border-b border-slate-800 flex items-center justify-between gap-4">
+                    <div class="text-white font-semibold">Daily reconciliation</div>
+                    <input
+                        type="date"
+                        value={date()}
+                        onChange={(e) => setDate(e.currentTarget.value)}
+                        class="bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                    />
+                </div>
+                <Show when={!report.loading} fallback={<div class="p-12 flex justify-center"><Loader2 class="w-8 h-8 animate-spin text-blue-500" /></div>}>
+                    <Show when={(report()?.rows || []).length > 0} fallback={<div class="p-12 text-center text-slate-500">No cash activity on this day</div>}>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-6 py-4">User</th>
+                                        <th class="px-6 py-4 text-right">Collected</th>
+                                        <th class="px-6 py-4 text-right">Declared</th>
+                                        <th class="px-6 py-4 text-right">Received</th>
+                                        <th class="px-6 py-4 text-right">Shortage</th>
+                                        <th class="px-6 py-4 text-right">Overage</th>
+                                        <th class="px-6 py-4 text-right">On hand now</th>
+                                        <th class="px-6 py-4">Status</th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={report()?.rows}>
+                                        {(row) => {
+                                            const badge = statusBadge(row.status);
+                                            return (
+                                                <tr class="hover:bg-slate-800/50 transition-colors">
+                                                    <td class="px-6 py-4">
+                                                        <div class="text-white font-medium">{row.userName}</div>
+                                                        <div class="text-slate-500 text-xs">{roleLabel(row.role)}</div>
+                                                    </td>
+                                                    <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(row.collected)}</td>
+                                                    <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(row.declared)}</td>
+                                                    <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(row.received)}</td>
+                                                    <td class={`px-6 py-4 text-right ${row.shortage > 0 ? 'text-red-400' : 'text-slate-500'}`}>{formatCurrency(row.shortage)}</td>
+                                                    <td class={`px-6 py-4 text-right ${row.overage > 0 ? 'text-yellow-400' : 'text-slate-500'}`}>{formatCurrency(row.overage)}</td>
+                                                    <td class="px-6 py-4 text-right text-white">{formatCurrency(row.onHand)}</td>
+                                                    <td class="px-6 py-4">
+                                                        <span class={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium border ${badge.class}`}>
+                                                            {badge.label}
+                                                        </span>
+                                                    </td>
+                                                </tr>
+                                            );
+                                        }}
+                                    </For>
+                                </tbody>
+                                <tfoot class="bg-slate-950 text-sm font-semibold">
+                                    <tr>
+                                        <td class="px-6 py-4 text-slate-400">Total</td>
+                                        <td class="px-6 py-4 text-right text-white">{formatCurrency(report()?.totals.collected)}</td>
+                                        <td class="px-6 py-4 text-right text-white">{formatCurrency(report()?.totals.declared)}</td>
+                                        <td class="px-6 py-4 text-right text-white">{formatCurrency(report()?.totals.received)}</td>
+                                        <td class="px-6 py-4 text-right text-red-400">{formatCurrency(report()?.totals.shortage)}</td>
+                                        <td class="px-6 py-4 text-right text-yellow-400">{formatCurrency(report()?.totals.overage)}</td>
+                                        <td class="px-6 py-4 text-right text-white">{formatCurrency(report()?.totals.onHand)}</td>
+                                        <td />
+                                    </tr>
+                                </tfoot>
+                            </table>
+                        </div>
+                    </Show>
+                </Show>
+            </div>
+
+            <Show when={selectedHandover()}>
+                <ConfirmHandoverModal
+                    handoverId={selectedHandover()!}
+                    onClose={() => setSelectedHandover(null)}
+                    onSuccess={() => { setSelectedHandover(null); refreshAll(); }}
+                />
+            </Show>
+        </div>
+    );
+};
+
+export default CashReconciliation;
@@ -0,0 +1,204 @@
+import { type Component, For, Show, createSignal, createResource, createEffect } from 'solid-js';
+import { X, Loader2, Wallet } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { formatCurrency, formatDate } from '../../stores/settings';
+
+interface HandoverLine {
+    id: string;
+    paymentMethodId: string;
+    methodName: string | null;
+    expectedAmount: string;
+    declaredAmount: string;
+}
+
+interface HandoverDetail {
+    id: string;
+    userName: string | null;
+    businessDate: string;
+    notes: string | null;
+    lines: HandoverLine[];
+}
+
+interface ConfirmHandoverModalProps {
+    handoverId: string;
+    onClose: () => void;
+    onSuccess: () => void;
+}
+
+const ConfirmHandoverModal: Component<ConfirmHandoverModalProps> = (props) => {
+    const [submitting, setSubmitting] = createSignal<'confirm' | 'reject' | null>(null);
+    const [error, setError] = createSignal<string | null>(null);
+    const [received, setReceived] = createSignal<Record<string, string>>({});
+    const [notes, setNotes] = createSignal('');
+
+    const [handover] = createResource(() => props.handoverId, (id) => api<HandoverDetail>(`/cash/handovers/${id}`));
+
+    // Counted amounts start from what the collector declared
+    createEffect(() => {
+        const data = handover();
+        if (!data) return;
+        const initial: Record<string, string> = {};
+        for (const line of data.lines) initial[line.paymentMethodId] = line.declaredAmount;
+        setReceived(initial);
+    });
+
+    const difference = (line: HandoverLine) => (parseFloat(received()[line.paymentMethodId]) || 0) - parseFloat(line.expectedAmount);
+    const totalDifference = () => (handover()?.lines || []).reduce((sum, line) => sum + difference(line), 0);
+
+    const handleConfirm = async () => {
+        setSubmitting('confirm');
+        setError(null);
+        try {
+            await api(`/cash/handovers/${props.handoverId}/confirm`, {
+                method: 'POST',
+                body: JSON.stringify({
+                    lines: (handover()?.lines || []).map(line => ({
+                        paymentMethodId: line.paymentMethodId,
+                        receivedAmount: parseFloat(received()[line.paymentMethodId]) || 0,
+                    })),
+                    notes: notes().trim() || undefined,
+                })
+            });
+            props.onSuccess();
+        } catch (err: any) {
+            setError(err.message || 'Failed to confirm handover');
+        } finally {
+            setSubmitting(null);
+        }
+    };
+
+    const handleReject = async () => {
+        if (!notes().trim()) {
+            setError('Enter a note explaining why the handover is rejected');
+            return;
+        }
+        setSubmitting('reject');
+        setError(null);
+        try {
+            await api(`/cash/handovers/${props.handoverId}/reject`, {
+                method: 'POST',
+                body: JSON.stringify({ reason: notes().trim() })
+            });
+            props.onSuccess();
+        } catch (err: any) {
+            setError(err.message || 'Failed to reject handover');
+        } finally {
+            setSubmitting(null);
+        }
+    };
+
+    return (
+        <div class="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm">
+            <div class="w-full max-w-lg bg-slate-900 border border-slate-800 rounded-2xl shadow-2xl overflow-hidden">
+                <div class="p-6 border-b border-slate-800 flex justify-between items-center">
+                    <div class="flex items-center gap-3">
+                        <div class="w-10 h-10 rounded-lg bg-emerald-500/10 flex items-center justify-center">
+                            <Wallet class="w-5 h-5 text-emerald-400" />
+                        </div>
+                        <div>
+                            <h2 class="text-xl font-bold text-white">Confirm Cash Handover</h2>
+                            <Show when={handover()}>
+                                <p class="text-sm text-slate-400">{handover()!.userName} · {formatDate(handover()!.businessDate)}</p>
+                            </Show>
+                        </div>
+                    </div>
+                    <button onClick={props.onClose} class="text-slate-400 hover:text-white transition-colors">
+                        <X class="w-6 h-6" />
+                    </button>
+                </div>
+
+                <Show when={!handover.loading} fallback={
+                    <div class="p-12 flex justify-center"><Loader2 class="w-8 h-8 animate-spin text-blue-500" /></div>
+                }>
+                    <div class="p-6 space-y-4">
+                        {error() && (
+                            <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">
+                                {error()}
+                            </div>
+                        )}
+
+                        <table class="w-full text-sm">
+                            <thead class="text-slate-400 text-xs uppercase">
+                                <tr>
+                                    <th class="text-left pb-2">Method</th>
+                                    <th class="text-right pb-2">Expected</th>
+                                    <th class="text-right pb-2">Declared</th>
+                                    <th class="text-right pb-2">Received</th>
+                                </tr>
+                            </thead>
+                            <tbody class="divide-y divide-slate-800">
+                                <For each={handover()?.lines}>
+                                    {(line) => (
+                                        <tr>
+                                            <td class="py-2 text-white">{line.methodName}</td>
+                                            <td class="py-2 text-right text-slate-300">{formatCurrency(line.expectedAmount)}</td>
+                                            <td class="py-2 text-right text-slate-300">{formatCurrency(line.declaredAmount)}</td>
+                                            <td class="py-2 text-right">
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.01"
+                                                    value={received()[line.paymentMethodId] ?? ''}
+                                                    onInput={(e) => setReceived({ ...received(), [line.paymentMethodId]: e.currentTarget.value })}
+                                                    class="w-28 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-white text-right focus:ring-2 focus:ring-blue-500 outline-none"
+                                                />
+                                            </td>
+                                        </tr>
+                                    )}
+                                </For>
+                            </tbody>
+                        </table>
+
+                        <div class={`p-3 rounded-xl text-sm ${Math.abs(totalDifference()) < 0.01
+                            ? 'bg-emerald-500/10 text-emerald-400'
+                            : totalDifference() < 0 ? 'bg-red-500/10 text-red-400' : 'bg-yellow-500/10 text-yellow-400'}`}>
+                            {Math.abs(totalDifference()) < 0.01
+                                ? 'Received amount matches the expected cash'
+                                : `${totalDifference() < 0 ? 'Shortage' : 'Overage'} of ${formatCurrency(Math.abs(totalDifference()))} will be recorded`}
+                        </div>
+
+                        <Show when={handover()?.notes}>
+                            <div class="p-3 bg-slate-800/50 rounded-xl text-sm text-slate-300">
+                                <span class="text-slate-500">Collector notes: </span>{handover()!.notes}
+                            </div>
+                        </Show>
+
+                        <div class="space-y-1.5">
+                            <label class="text-sm font-medium text-slate-300">Notes</label>
+                            <textarea
+                                value={notes()}
+                                onInput={(e) => setNotes(e.currentTarget.value)}
+                                placeholder="Required when rejecting"
+                                class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none resize-none h-20"
+                            />
+                        </div>
+
+                        <div class="pt-4 flex justify-end gap-3 border-t border-slate-800">
+                            <button
+                                type="button"
+                                onClick={handleReject}
+                                disabled={submitting() !== null}
+                                class="px-5 py-2.5 text-red-400 font-medium hover:text-red-300 transition-colors disabled:opacity-50"
+                            >
+                                {submitting() === 'reject' ? 'Rejecting...' : 'Reject'}
+                            </button>
+                            <button
+                                type="button"
+                                onClick={handleConfirm}
+                                disabled={submitting() !== null}
+                                class="px-5 py-2.5 bg-emerald-600 hover:bg-emerald-500 text-white font-medium rounded-xl shadow-lg shadow-emerald-600/20 active:scale-[0.98] transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                            >
+                                <Show when={submitting() === 'confirm'} fallback={'Confirm Receipt'}>
+                                    <Loader2 class="w-4 h-4 animate-spin" />
+                                    Confirming...
+                                </Show>
+                            </button>
+                        </div>
+                    </div>
+                </Show>
+            </div>
+        </div>
+    );
+};
+
+export default ConfirmHandoverModal;
@@ -45,6 +45,10 @@ const CreatePurchaseOrderModal: Component<CreatePurchaseOrderModalProps> = (prop
             productId: product.id,
             name: product.name,
             sku: product.sku,
+            baseUnit: product.unit || 'piece',
+            baseCost: unitPrice,
+            units: product.units || [],
+            unit: null,
             qtyOrdered: 1,
             unitPrice: unitPrice,
             lineTotal: unitPrice
@@ -70,6 +74,18 @@ const CreatePurchaseOrderModal: Component<CreatePurchaseOrderModalProps> = (prop
         });
     };
 
+    // Quantity and cost are entered per the chosen pack; the cost starts from the per-piece cost
+    const setItemUnit = (index: number, unit: string) => {
+        const item = items()[index];
+        const pack = item.units.find((u: any) => u.unit === unit);
+        setItems(items().map((line, i) => i === index ? {
+            ...line,
+            unit: pack ? pack.unit : null,
+            unitPrice: Number((line.baseCost * (pack ? pack.factor : 1)).toFixed(2)),
+        } : line));
+        updateItem(index, 'qtyOrdered', Number(item.qtyOrdered));
+    };
+
     const removeItem = (index: number) => {
         setItems(items().filter((_, i) => i !== index));
     };
@@ -102,6 +118,7 @@ const CreatePurchaseOrderModal: Component<CreatePurchaseOrderModalProps> = (prop
                 notes: notes(),
                 items: items().map(i => ({
                     productId: i.productId,
+                    unit: i.unit,
                     qtyOrdered: Number(i.qtyOrdered),
                     unitPrice: Number(i.unitPrice),
                     lineTotal: Number(i.lineTotal)
@@ -274,6 +291,18 @@ const CreatePurchaseOrderModal: Component<CreatePurchaseOrderModalProps> = (prop
                                                         onChange={(e) => updateItem(index(), 'qtyOrdered', Number(e.currentTarget.value))}
                                                         class="w-full px-3 py-1.5 bg-slate-900 border border-slate-800 rounded-lg text-white text-center focus:ring-1 focus:ring-blue-500 outline-none"
                                                     />
+                                                    <Show when={item.units.length > 0}>
+                                                        <select
+                                                            value={item.unit || item.baseUnit}
+                                                            onChange={(e) => setItemUnit(index(), e.currentTarget.value)}
+                                                            class="w-full mt-1 px-2 py-1 bg-slate-900 border border-slate-800 rounded-lg text-slate-300 text-xs outline-none"
+                                                        >
+                                                            <option value={item.baseUnit}>{item.baseUnit}</option>
+                                                            <For each={item.units}>
+                                                                {(u: any) => <option value={u.unit}>{u.unit} of {u.factor}</option>}
+                                                            </For>
+                                                        </select>
+                                                    </Show>
                                                 </td>
                                                 <td class="p-4">
                                                     <input
@@ -0,0 +1,204 @@
+import { type Component, createResource, createSignal, Show, For } from 'solid-js';
+import { A } from '@solidjs/router';
+import { Loader2, RefreshCw, ReceiptText, Check, X } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { formatCurrency, formatDate } from '../../stores/settings';
+import { toast } from '../../components/Toast';
+
+interface CreditNote {
+    id: string;
+    creditNoteNumber: string | null;
+    status: 'pending_approval' | 'issued' | 'rejected';
+    settlement: 'credit' | 'cash_refund';
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    taxAmount: string;
+    totalAmount: string;
+    allocatedAmount: string;
+    issueDate: string | null;
+    createdAt: string;
+}
+
+const STATUS_STYLES: Record<CreditNote['status'], string> = {
+    pending_approval: 'bg-amber-500/10 text-amber-400',
+    issued: 'bg-emerald-500/10 text-emerald-400',
+    rejected: 'bg-red-500/10 text-red-400',
+};
+
+const STATUS_LABELS: Record<CreditNote['status'], string> = {
+    pending_approval: 'Awaiting approval',
+    issued: 'Issued',
+    rejected: 'Rejected',
+};
+
+const CreditNotes: Component = () => {
+    const [statusFilter, setStatusFilter] = createSignal('');
+    const [search, setSearch] = createSignal('');
+    const [busyId, setBusyId] = createSignal<string | null>(null);
+
+    const [notes, { refetch }] = createResource(
+        () => ({ status: statusFilter(), search: search() }),
+        async (filters) => {
+            const params: Record<string, string> = { limit: '100' };
+            if (filters.status) params.status = filters.status;
+            if (filters.search) params.search = filters.search;
+            const response = await api.get<{ data: CreditNote[] }>('/credit-notes', { params });
+            return (response?.data || response || []) as CreditNote[];
+        }
+    );
+
+    const unallocated = (note: CreditNote) =>
+        note.status === 'issued' && note.settlement === 'credit'
+            ? Number(note.totalAmount) - Number(note.allocatedAmount)
+            : 0;
+
+    const runAction = async (note: CreditNote, action: () => Promise<unknown>, done: string) => {
+        setBusyId(note.id);
+        try {
+            await action();
+            toast.success(done);
+            refetch();
+        } catch (err: any) {
+            toast.error(err.message || 'Action failed');
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const approve = (note: CreditNote) =>
+        runAction(note, () => api(`/credit-notes/${note.id}/approve`, { method: 'POST', body: JSON.stringify({}) }), 'Credit note approved');
+
+    const reject = (note: CreditNote) => {
+        const reason = window.prompt('Reason for rejecting this credit note');
+        if (reason === null) return;
+        runAction(note, () => api(`/credit-notes/${note.id}/reject`, { method: 'POST', body: JSON.stringify({ reason: reason || undefined }) }), 'Credit note rejected');
+    };
+
+    const allocate = (note: CreditNote) =>
+        runAction(note, () => api(`/credit-notes/${note.id}/allocate`, { method: 'POST', body: JSON.stringify({}) }), 'Credit applied to open orders');
+
+    return (
+        <div class="p-4 pt-6 sm:p-8 sm:pt-8 space-y-8">
+            <div class="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 class="text-3xl font-bold text-white tracking-tight">Credit Notes</h1>
+                    <p class="text-slate-400 mt-1">Refunds for processed returns, credited or paid back</p>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 flex flex-col sm:flex-row gap-4">
+                <input
+                    type="text"
+                    value={search()}
+                    onChange={(e) => setSearch(e.currentTarget.value.trim())}
+                    placeholder="Credit note, order or customer"
+                    class="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 outline-none"
+                />
+                <select
+                    value={statusFilter()}
+                    onChange={(e) => setStatusFilter(e.currentTarget.value)}
+                    class="bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                >
+                    <option value="">All Statuses</option>
+                    <option value="pending_approval">Awaiting approval</option>
+                    <option value="issued">Issued</option>
+                    <option value="rejected">Rejected</option>
+                </select>
+                <button
+                    onClick={() => refetch()}
+                    class="p-3 bg-slate-800 text-slate-300 rounded-xl hover:bg-slate-700 transition-colors"
+                    title="Refresh list"
+                >
+                    <RefreshCw class="w-5 h-5" />
+                </button>
+            </div>
+
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                <Show when={!notes.loading} fallback={<div class="p-12 flex justify-center"><Loader2 class="w-8 h-8 animate-spin text-blue-500" /></div>}>
+                    <Show when={(notes() || []).length > 0} fallback={
+                        <div class="p-12 flex flex-col items-center text-slate-500">
+                            <ReceiptText class="w-12 h-12 mb-3 opacity-20" />
+                            No credit notes found
+                        </div>
+                    }>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-6 py-4">Credit Note</th>
+                                        <th class="px-6 py-4">Order</th>
+                                        <th class="px-6 py-4">Customer</th>
+                                        <th class="px-6 py-4">Settlement</th>
+                                        <th class="px-6 py-4 text-right">Tax</th>
+                                        <th class="px-6 py-4 text-right">Total</th>
+                                        <th class="px-6 py-4 text-right">Unapplied</th>
+                                        <th class="px-6 py-4" />
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={notes()}>
+                                        {(note) => (
+                                            <tr class="hover:bg-slate-800/50 transition-colors">
+                                                <td class="px-6 py-4">
+                                                    <div class="text-white font-medium">{note.creditNoteNumber || '—'}</div>
+                                                    <div class="text-slate-500 text-xs">{formatDate(note.issueDate || note.createdAt)}</div>
+                                                    <span class={`inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[note.status]}`}>
+                                                        {STATUS_LABELS[note.status]}
+                                                    </span>
+                                                </td>
+                                                <td class="px-6 py-4">
+                                                    <A href={`/admin/orders/${note.orderId}`} class="text-blue-400 hover:underline">
+                                                        {note.orderNumber}
+                                                    </A>
+                                                </td>
+                                                <td class="px-6 py-4 text-slate-300">{note.customerName}</td>
+                                                <td class="px-6 py-4 text-slate-300">{note.settlement === 'cash_refund' ? 'Cash refund' : 'Account credit'}</td>
+                                                <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(note.taxAmount)}</td>
+                                                <td class="px-6 py-4 text-right text-white font-medium">{formatCurrency(note.totalAmount)}</td>
+                                                <td class="px-6 py-4 text-right text-slate-300">{unallocated(note) > 0 ? formatCurrency(unallocated(note)) : '-'}</td>
+                                                <td class="px-6 py-4 text-right whitespace-nowrap">
+                                                    <Show when={note.status === 'pending_approval'}>
+                                                        <button
+                                                            onClick={() => approve(note)}
+                                                            disabled={busyId() === note.id}
+                                                            class="p-2 text-emerald-400 hover:bg-emerald-500/10 rounded-lg transition-colors disabled:opacity-50"
+                                                            title="Approve"
+                                                        >
+                                                            <Check class="w-4 h-4" />
+                                                        </button>
+                                                        <button
+                                                            onClick={() => reject(note)}
+                                                            disabled={busyId() === note.id}
+                                                            class="p-2 text-red-400 hover:bg-red-500/10 rounded-lg transition-colors disabled:opacity-50"
+                                                            title="Reject"
+                                                        >
+                                                            <X class="w-4 h-4" />
+                                                        </button>
+                                                    </Show>
+                                                    <Show when={unallocated(note) > 0}>
+                                                        <button
+                                                            onClick={() => allocate(note)}
+                                                            disabled={busyId() === note.id}
+                                                            class="px-3 py-1.5 bg-slate-800 text-slate-300 text-sm rounded-lg hover:bg-slate-700 transition-colors disabled:opacity-50"
+                                                            title="Apply to the oldest open orders"
+                                                        >
+                                                            Apply
+                                                        </button>
+                                                    </Show>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                    </Show>
+                </Show>
+            </div>
+        </div>
+    );
+};
+
+export default CreditNotes;
@@ -34,6 +34,8 @@ interface Customer {
     tierId: string | null;
     territoryId: string | null;
     assignedSalesRepId: string | null;
+    openingTime: string | null;
+    closingTime: string | null;
     notes: string | null;
 }
 
@@ -58,6 +60,8 @@ const Customers: Component = () => {
         tierId: '',
         territoryId: '',
         assignedSalesRepId: '',
+        openingTime: '',
+        closingTime: '',
         notes: ''
     });
 
@@ -136,6 +140,8 @@ const Customers: Component = () => {
             tierId: customer.tierId || '',
             territoryId: customer.territoryId || '',
             assignedSalesRepId: customer.assignedSalesRepId || '',
+            openingTime: customer.openingTime?.slice(0, 5) || '',
+            closingTime: customer.closingTime?.slice(0, 5) || '',
             notes: customer.notes || ''
         });
         setShowCreateModal(true);
@@ -169,6 +175,8 @@ const Customers: Component = () => {
                     tierId: formData.tierId || undefined,
                     territoryId: formData.territoryId || undefined,
                     assignedSalesRepId: formData.assignedSalesRepId || undefined,
+                    openingTime: formData.openingTime || (editingId() ? null : undefined),
+                    closingTime: formData.closingTime || (editingId() ? null : undefined),
                     // For patch, we might send all fields, backend handles it
                 })
             });
@@ -185,6 +193,8 @@ const Customers: Component = () => {
                 tierId: '',
                 territoryId: '',
                 assignedSalesRepId: '',
+                openingTime: '',
+                closingTime: '',
                 notes: ''
             });
             refetch();
@@ -216,6 +226,8 @@ const Customers: Component = () => {
                             tierId: '',
                             territoryId: '',
                             assignedSalesRepId: '',
+                            openingTime: '',
+                            closingTime: '',
                             notes: ''
                         });
                         setShowCreateModal(true);
@@ -519,6 +531,27 @@ const Customers: Component = () => {
                                 />
                             </div>
 
+                            <div class="grid grid-cols-2 gap-4">
+                                <div class="space-y-1.5">
+                                    <label class="text-sm font-medium text-slate-300">Receiving From</label>
+                                    <input
+                                        type="time"
+                                        value={formData.openingTime}
+                                        onInput={(e) => setFormData('openingTime', e.currentTarget.value)}
+                                        class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                </div>
+                                <div class="space-y-1.5">
+                                    <label class="text-sm font-medium text-slate-300">Receiving Until</label>
+                                    <input
+                                        type="time"
+                                        value={formData.closingTime}
+                                        onInput={(e) => setFormData('closingTime', e.currentTarget.value)}
+                                        class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                    />
+                                </div>
+                            </div>
+
                             <div class="grid grid-cols-1 md:grid-cols-3 gap-4">
                                 <div class="space-y-1.5">
                                     <label class="text-sm font-medium text-slate-300">Pricing Tier</label>
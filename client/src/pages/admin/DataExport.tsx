@@ -9,9 +9,14 @@ import {
 import { api, API_BASE_URL } from '../../lib/api';
 
 // Types
+// 1c_xml and journal_csv hold the accounting journal instead of the data sets
+type ExportFormat = 'json' | 'csv' | 'xlsx' | '1c_xml' | 'journal_csv';
+
+const isJournalFormat = (format?: ExportFormat) => format === '1c_xml' || format === 'journal_csv';
+
 interface ExportRecord {
     id: string;
-    format: 'json' | 'csv';
+    format: ExportFormat;
     status: 'pending' | 'processing' | 'completed' | 'failed';
     filename: string | null;
     fileSize: number | null;
@@ -31,7 +36,7 @@ interface ExportSettings {
     id: string;
     tenantId: string;
     frequency: 'never' | 'daily' | 'weekly' | 'monthly';
-    format: 'json' | 'csv' | 'xlsx';
+    format: ExportFormat;
     scheduleTime: string; // HH:MM format
     sendToTelegram: boolean; // Send export to Telegram
     includeProducts: boolean;
@@ -61,7 +66,7 @@ const DataExport: Component = () => {
 
     // Export options
     const [exportOptions, setExportOptions] = createStore({
-        format: 'json' as 'json' | 'csv' | 'xlsx',
+        format: 'json' as ExportFormat,
         includeProducts: true,
         includeCustomers: true,
         includeOrders: true,
@@ -395,44 +400,71 @@ const DataExport: Component = () => {
                                     Excel
                                 </button>
                             </div>
+                            <label class="text-sm text-slate-400 mt-4 mb-2 block">Accounting Journal</label>
+                            <div class="flex gap-2">
+                                <button
+                                    onClick={() => setExportOptions('format', '1c_xml')}
+                                    class={`flex-1 py-2.5 rounded-xl font-medium transition-all ${exportOptions.format === '1c_xml'
+                                        ? 'bg-amber-600 text-white'
+                                        : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                        }`}
+                                >
+                                    1C XML
+                                </button>
+                                <button
+                                    onClick={() => setExportOptions('format', 'journal_csv')}
+                                    class={`flex-1 py-2.5 rounded-xl font-medium transition-all ${exportOptions.format === 'journal_csv'
+                                        ? 'bg-amber-600 text-white'
+                                        : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                        }`}
+                                >
+                                    Journal CSV
+                                </button>
+                            </div>
                         </div>
 
                         {/* Data Types */}
-                        <div class="mb-6">
-                            <label class="text-sm text-slate-400 mb-3 block">Include Data</label>
-                            <div class="grid grid-cols-1 gap-2">
-                                <DataTypeToggle
-                                    icon={Package}
-                                    label="Products"
-                                    checked={exportOptions.includeProducts}
-                                    onChange={(v) => setExportOptions('includeProducts', v)}
-                                />
-                                <DataTypeToggle
-                                    icon={Users}
-                                    label="Customers"
-                                    checked={exportOptions.includeCustomers}
-                                    onChange={(v) => setExportOptions('includeCustomers', v)}
-                                />
-                                <DataTypeToggle
-                                    icon={ShoppingCart}
-                                    label="Orders"
-                                    checked={exportOptions.includeOrders}
-                                    onChange={(v) => setExportOptions('includeOrders', v)}
-                                />
-                                <DataTypeToggle
-                                    icon={CreditCard}
-                                    label="Payments"
-                                    checked={exportOptions.includePayments}
-                                    onChange={(v) => setExportOptions('includePayments', v)}
-                                />
-                                <DataTypeToggle
-                                    icon={Warehouse}
-                                    label="Inventory"
-                                    checked={exportOptions.includeInventory}
-                                    onChange={(v) => setExportOptions('includeInventory', v)}
-                                />
+                        <Show when={!isJournalFormat(exportOptions.format)} fallback={
+                            <p class="mb-6 text-sm text-slate-400">
+                                Exports every general ledger entry with its postings, ready for import into 1C or other accounting software.
+                            </p>
+                        }>
+                            <div class="mb-6">
+                                <label class="text-sm text-slate-400 mb-3 block">Include Data</label>
+                                <div class="grid grid-cols-1 gap-2">
+                                    <DataTypeToggle
+                                        icon={Package}
+                                        label="Products"
+                                        checked={exportOptions.includeProducts}
+                                        onChange={(v) => setExportOptions('includeProducts', v)}
+                                    />
+                                    <DataTypeToggle
+                                        icon={Users}
+                                        label="Customers"
+                                        checked={exportOptions.includeCustomers}
+                                        onChange={(v) => setExportOptions('includeCustomers', v)}
+                                    />
+                                    <DataTypeToggle
+                                        icon={ShoppingCart}
+                                        label="Orders"
+                                        checked={exportOptions.includeOrders}
+                                        onChange={(v) => setExportOptions('includeOrders', v)}
+                                    />
+                                    <DataTypeToggle
+                                        icon={CreditCard}
+                                        label="Payments"
+                                        checked={exportOptions.includePayments}
+                                        onChange={(v) => setExportOptions('includePayments', v)}
+                                    />
+                                    <DataTypeToggle
+                                        icon={Warehouse}
+                                        label="Inventory"
+                                        checked={exportOptions.includeInventory}
+                                        onChange={(v) => setExportOptions('includeInventory', v)}
+                                    />
+                                </div>
                             </div>
-                        </div>
+                        </Show>
 
                         <button
                             onClick={handleCreateExport}
@@ -726,6 +758,26 @@ const DataExport: Component = () => {
                                             Excel
                                         </button>
                                     </div>
+                                    <div class="flex gap-2 mt-2">
+                                        <button
+                                            onClick={() => setScheduleForm('format', '1c_xml')}
+                                            class={`flex-1 py-2.5 rounded-xl font-medium transition-all ${scheduleForm.format === '1c_xml'
+                                                ? 'bg-amber-600 text-white'
+                                                : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                                }`}
+                                        >
+                                            1C XML
+                                        </button>
+                                        <button
+                                            onClick={() => setScheduleForm('format', 'journal_csv')}
+                                            class={`flex-1 py-2.5 rounded-xl font-medium transition-all ${scheduleForm.format === 'journal_csv'
+                                                ? 'bg-amber-600 text-white'
+                                                : 'bg-slate-800 text-slate-400 hover:bg-slate-700'
+                                                }`}
+                                        >
+                                            Journal CSV
+                                        </button>
+                                    </div>
                                 </div>
 
                                 {/* Data Types */}
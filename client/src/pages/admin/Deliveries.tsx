@@ -1,4 +1,5 @@
 import { type Component, For, Show, createSignal, createResource, createMemo } from 'solid-js';
+import { useNavigate } from '@solidjs/router';
 import * as LucideIcons from 'lucide-solid';
 import {
     Search,
@@ -9,7 +10,8 @@ import {
     Loader2,
     ChevronLeft,
     ChevronRight,
-    Navigation
+    Navigation,
+    Route
 } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { formatDateTime } from '../../stores/settings';
@@ -28,6 +30,7 @@ interface Trip {
 }
 
 const Deliveries: Component = () => {
+    const navigate = useNavigate();
     const [search, setSearch] = createSignal('');
     const [statusFilter, setStatusFilter] = createSignal('');
     const [page, setPage] = createSignal(1);
@@ -75,6 +78,13 @@ const Deliveries: Component = () => {
                     <h1 class="text-2xl lg:text-3xl font-bold text-white">Deliveries</h1>
                     <p class="text-slate-400">Manage delivery trips and routes</p>
                 </div>
+                <button
+                    onClick={() => navigate('/admin/deliveries/plan')}
+                    class="flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 text-white font-medium rounded-xl hover:bg-blue-700 active:scale-[0.98] transition-all"
+                >
+                    <Route class="w-5 h-5" />
+                    Plan Trips
+                </button>
             </div>
 
             {/* Filters */}
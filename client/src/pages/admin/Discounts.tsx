@@ -1,11 +1,37 @@
 import { type Component, createResource, createSignal, Show, For } from 'solid-js';
-import { Plus, Tag, Loader2 } from 'lucide-solid';
+import { Plus, Tag, Loader2, Ticket, BarChart3 } from 'lucide-solid';
 import { api } from '../../lib/api';
+import { formatCurrency } from '../../stores/settings';
 import AddDiscountModal from './AddDiscountModal';
+import PromoCodesModal from './PromoCodesModal';
+
+interface CampaignReportRow {
+    discountId: string;
+    discountName: string;
+    codes: number;
+    redemptions: number;
+    customers: number;
+    discountAmount: number;
+    revenue: number;
+}
 
 const AdminDiscounts: Component = () => {
     const [showAddModal, setShowAddModal] = createSignal(false);
+    const [codesDiscount, setCodesDiscount] = createSignal<{ id: string; name: string } | null>(null);
     const [search] = createSignal('');
+    const [reportFrom, setReportFrom] = createSignal('');
+    const [reportTo, setReportTo] = createSignal('');
+
+    // Redemptions and revenue per promo code campaign
+    const [report, { refetch: refetchReport }] = createResource(
+        () => ({ from: reportFrom(), to: reportTo() }),
+        async ({ from, to }) => {
+            const params = new URLSearchParams();
+            if (from) params.set('from', from);
+            if (to) params.set('to', to);
+            return await api.get<CampaignReportRow[]>(`/discounts/redemptions/report?${params}`);
+        }
+    );
 
     const [discounts, { refetch }] = createResource(async () => {
         const response = await api.get('/discounts');
@@ -69,6 +95,7 @@ const AdminDiscounts: Component = () => {
                                         <th class="px-6 py-4">Value</th>
                                         <th class="px-6 py-4">Validity</th>
                                         <th class="px-6 py-4">Status</th>
+                                        <th class="px-6 py-4">Promo Codes</th>
                                     </tr>
                                 </thead>
                                 <tbody class="divide-y divide-slate-800">
@@ -103,6 +130,15 @@ const AdminDiscounts: Component = () => {
                                                         {discount.isActive ? 'Active' : 'Inactive'}
                                                     </span>
                                                 </td>
+                                                <td class="px-6 py-4">
+                                                    <button
+                                                        onClick={() => setCodesDiscount({ id: discount.id, name: discount.name })}
+                                                        class="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-lg bg-slate-800 text-slate-300 text-xs font-medium border border-slate-700 hover:bg-slate-700"
+                                                    >
+                                                        <Ticket class="w-3.5 h-3.5" />
+                                                        {discount.promoCodeCount > 0 ? `${discount.promoCodeCount} codes` : 'Automatic'}
+                                                    </button>
+                                                </td>
                                             </tr>
                                         )}
                                     </For>
@@ -113,6 +149,61 @@ const AdminDiscounts: Component = () => {
                 </Show>
             </div>
 
+            {/* Promo code campaigns */}
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                <div class="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4 border-b border-slate-800">
+                    <h2 class="text-lg font-semibold text-white flex items-center gap-2">
+                        <BarChart3 class="w-5 h-5 text-blue-400" /> Promo Code Campaigns
+                    </h2>
+                    <div class="flex gap-2">
+                        <input type="date" value={reportFrom()} onChange={(e) => setReportFrom(e.currentTarget.value)} title="From"
+                            class="px-3 py-2 bg-slate-950 border border-slate-800 rounded-xl text-white text-sm outline-none" />
+                        <input type="date" value={reportTo()} onChange={(e) => setReportTo(e.currentTarget.value)} title="To"
+                            class="px-3 py-2 bg-slate-950 border border-slate-800 rounded-xl text-white text-sm outline-none" />
+                    </div>
+                </div>
+                <Show when={(report() || []).length > 0} fallback={
+                    <p class="p-8 text-center text-sm text-slate-500">No promo code campaigns yet.</p>
+                }>
+                    <div class="overflow-x-auto">
+                        <table class="w-full text-left">
+                            <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                <tr>
+                                    <th class="px-6 py-4">Campaign</th>
+                                    <th class="px-6 py-4 text-right">Codes</th>
+                                    <th class="px-6 py-4 text-right">Redemptions</th>
+                                    <th class="px-6 py-4 text-right">Customers</th>
+                                    <th class="px-6 py-4 text-right">Discount Given</th>
+                                    <th class="px-6 py-4 text-right">Revenue</th>
+                                </tr>
+                            </thead>
+                            <tbody class="divide-y divide-slate-800">
+                                <For each={report()}>
+                                    {(row) => (
+                                        <tr class="hover:bg-slate-800/50 transition-colors">
+                                            <td class="px-6 py-4 font-semibold text-slate-200">{row.discountName}</td>
+                                            <td class="px-6 py-4 text-right text-slate-400">{row.codes}</td>
+                                            <td class="px-6 py-4 text-right text-slate-300">{row.redemptions}</td>
+                                            <td class="px-6 py-4 text-right text-slate-300">{row.customers}</td>
+                                            <td class="px-6 py-4 text-right text-emerald-400">{formatCurrency(row.discountAmount)}</td>
+                                            <td class="px-6 py-4 text-right text-white font-medium">{formatCurrency(row.revenue)}</td>
+                                        </tr>
+                                    )}
+                                </For>
+                            </tbody>
+                        </table>
+                    </div>
+                </Show>
+            </div>
+
+            <Show when={codesDiscount()}>
+                <PromoCodesModal
+                    discount={codesDiscount()!}
+                    onClose={() => setCodesDiscount(null)}
+                    onChange={() => { refetch(); refetchReport(); }}
+                />
+            </Show>
+
             <Show when={showAddModal()}>
                 <AddDiscountModal
                     onClose={() => setShowAddModal(false)}
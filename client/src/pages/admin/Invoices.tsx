@@ -0,0 +1,170 @@
+import { type Component, createResource, createSignal, Show, For } from 'solid-js';
+import { A } from '@solidjs/router';
+import { Loader2, RefreshCw, FileText, Download } from 'lucide-solid';
+import { api, API_BASE_URL } from '../../lib/api';
+import { formatCurrency, formatDate } from '../../stores/settings';
+import { toast } from '../../components/Toast';
+
+interface Invoice {
+    id: string;
+    invoiceNumber: string;
+    status: 'issued' | 'cancelled';
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    currency: string;
+    taxAmount: string;
+    totalAmount: string;
+    issueDate: string;
+    dueDate: string | null;
+}
+
+const Invoices: Component = () => {
+    const [statusFilter, setStatusFilter] = createSignal('');
+    const [search, setSearch] = createSignal('');
+    const [from, setFrom] = createSignal('');
+    const [to, setTo] = createSignal('');
+
+    const [invoices, { refetch }] = createResource(
+        () => ({ status: statusFilter(), search: search(), from: from(), to: to() }),
+        async (filters) => {
+            const params: Record<string, string> = { limit: '100' };
+            if (filters.status) params.status = filters.status;
+            if (filters.search) params.search = filters.search;
+            if (filters.from) params.from = filters.from;
+            if (filters.to) params.to = filters.to;
+            const response = await api.get<{ data: Invoice[] }>('/invoices', { params });
+            return (response?.data || response || []) as Invoice[];
+        }
+    );
+
+    // The PDF endpoint needs the auth header, so fetch it and open the blob
+    const openPdf = async (invoice: Invoice) => {
+        try {
+            const token = localStorage.getItem('token');
+            const response = await fetch(`${API_BASE_URL}/invoices/${invoice.id}/pdf`, {
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            if (!response.ok) throw new Error('Download failed');
+
+            const url = window.URL.createObjectURL(await response.blob());
+            window.open(url, '_blank');
+            setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+        } catch {
+            toast.error(`Failed to load ${invoice.invoiceNumber}`);
+        }
+    };
+
+    return (
+        <div class="p-4 pt-6 sm:p-8 sm:pt-8 space-y-8">
+            <div class="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 class="text-3xl font-bold text-white tracking-tight">Invoices</h1>
+                    <p class="text-slate-400 mt-1">Invoices issued for approved and delivered orders</p>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 flex flex-col sm:flex-row gap-4">
+                <input
+                    type="text"
+                    value={search()}
+                    onChange={(e) => setSearch(e.currentTarget.value.trim())}
+                    placeholder="Invoice number or customer"
+                    class="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white placeholder:text-slate-500 focus:ring-2 focus:ring-blue-500/50 outline-none"
+                />
+                <select
+                    value={statusFilter()}
+                    onChange={(e) => setStatusFilter(e.currentTarget.value)}
+                    class="bg-slate-950 border border-slate-800 rounded-xl px-4 py-3 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                >
+                    <option value="">All Statuses</option>
+                    <option value="issued">Issued</option>
+                    <option value="cancelled">Cancelled</option>
+                </select>
+                <input
+                    type="date"
+                    value={from()}
+                    onChange={(e) => setFrom(e.currentTarget.value)}
+                    class="bg-slate-950 border border-slate-800 rounded-xl px-3 py-3 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                />
+                <input
+                    type="date"
+                    value={to()}
+                    onChange={(e) => setTo(e.currentTarget.value)}
+                    class="bg-slate-950 border border-slate-800 rounded-xl px-3 py-3 text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                />
+                <button
+                    onClick={() => refetch()}
+                    class="p-3 bg-slate-800 text-slate-300 rounded-xl hover:bg-slate-700 transition-colors"
+                    title="Refresh list"
+                >
+                    <RefreshCw class="w-5 h-5" />
+                </button>
+            </div>
+
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                <Show when={!invoices.loading} fallback={<div class="p-12 flex justify-center"><Loader2 class="w-8 h-8 animate-spin text-blue-500" /></div>}>
+                    <Show when={(invoices() || []).length > 0} fallback={
+                        <div class="p-12 flex flex-col items-center text-slate-500">
+                            <FileText class="w-12 h-12 mb-3 opacity-20" />
+                            No invoices found
+                        </div>
+                    }>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-6 py-4">Invoice</th>
+                                        <th class="px-6 py-4">Order</th>
+                                        <th class="px-6 py-4">Customer</th>
+                                        <th class="px-6 py-4">Date</th>
+                                        <th class="px-6 py-4">Due</th>
+                                        <th class="px-6 py-4 text-right">Tax</th>
+                                        <th class="px-6 py-4 text-right">Total</th>
+                                        <th class="px-6 py-4" />
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={invoices()}>
+                                        {(invoice) => (
+                                            <tr class="hover:bg-slate-800/50 transition-colors">
+                                                <td class="px-6 py-4">
+                                                    <div class="text-white font-medium">{invoice.invoiceNumber}</div>
+                                                    <Show when={invoice.status === 'cancelled'}>
+                                                        <div class="text-red-400 text-xs">Cancelled</div>
+                                                    </Show>
+                                                </td>
+                                                <td class="px-6 py-4">
+                                                    <A href={`/admin/orders/${invoice.orderId}`} class="text-blue-400 hover:underline">
+                                                        {invoice.orderNumber}
+                                                    </A>
+                                                </td>
+                                                <td class="px-6 py-4 text-slate-300">{invoice.customerName}</td>
+                                                <td class="px-6 py-4 text-slate-300">{formatDate(invoice.issueDate)}</td>
+                                                <td class="px-6 py-4 text-slate-400">{invoice.dueDate ? formatDate(invoice.dueDate) : '-'}</td>
+                                                <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(invoice.taxAmount)}</td>
+                                                <td class="px-6 py-4 text-right text-white font-medium">{formatCurrency(invoice.totalAmount)}</td>
+                                                <td class="px-6 py-4 text-right">
+                                                    <button
+                                                        onClick={() => openPdf(invoice)}
+                                                        class="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                                                        title="Download PDF"
+                                                    >
+                                                        <Download class="w-4 h-4" />
+                                                    </button>
+                                                </td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                    </Show>
+                </Show>
+            </div>
+        </div>
+    );
+};
+
+export default Invoices;
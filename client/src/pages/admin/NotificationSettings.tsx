@@ -36,6 +36,7 @@ interface TenantNotificationSettings {
     notifyPaymentPartial: boolean;
     notifyPaymentComplete: boolean;
     notifyLowStock: boolean;
+    notifyNearExpiry: boolean;
     notifyDueDebt: boolean;
     // Customer notifications
     customerNotifyOrderConfirmed: boolean;
@@ -49,6 +50,7 @@ interface TenantNotificationSettings {
     customerNotifyPaymentDue: boolean;
     // Thresholds
     lowStockThreshold: number;
+    nearExpiryDaysThreshold: number;
     dueDebtDaysThreshold: number;
 }
 
@@ -130,6 +132,16 @@ const ADMIN_NOTIFICATIONS: NotificationItem[] = [
         thresholdKey: 'lowStockThreshold',
         thresholdLabel: 'Stock threshold',
     },
+    {
+        key: 'notifyNearExpiry',
+        label: 'Near Expiry Alerts',
+        description: 'Daily summary of stock lots close to their expiry date',
+        icon: Clock,
+        color: 'orange',
+        hasThreshold: true,
+        thresholdKey: 'nearExpiryDaysThreshold',
+        thresholdLabel: 'Days before expiry',
+    },
     {
         key: 'notifyDueDebt',
         label: 'Overdue Debt Alerts',
@@ -242,6 +254,7 @@ const NotificationSettings: Component = () => {
         notifyPaymentPartial: true,
         notifyPaymentComplete: true,
         notifyLowStock: true,
+        notifyNearExpiry: true,
         notifyDueDebt: false,
         // Customer notifications
         customerNotifyOrderConfirmed: true,
@@ -255,6 +268,7 @@ const NotificationSettings: Component = () => {
         customerNotifyPaymentDue: true,
         // Thresholds
         lowStockThreshold: 10,
+        nearExpiryDaysThreshold: 30,
         dueDebtDaysThreshold: 7,
     });
 
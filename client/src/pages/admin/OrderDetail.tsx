@@ -5,6 +5,8 @@
  * - Order header (status, payment, amounts)
  * - Order items
  * - Status history timeline
+ * - Proof of delivery (signature, photos, GPS)
+ * - Invoice (issue, download, send via Telegram)
  * - Edit mode toggle
  */
 
@@ -24,10 +26,14 @@ import {
     X,
     MapPin,
     Phone,
-    FileText
+    FileText,
+    PenLine,
+    Download,
+    Send
 } from 'lucide-solid';
-import { api } from '../../lib/api';
+import { api, API_BASE_URL } from '../../lib/api';
 import { formatDateTime } from '../../stores/settings';
+import { getImageUrl } from '../../utils/formatters';
 import toast from '../../components/Toast';
 import { getOrderStatusConfig, getPaymentStatusConfig } from '../../components/shared/order';
 
@@ -50,6 +56,28 @@ interface StatusHistoryEntry {
     createdAt: string;
 }
 
+interface DeliveryProof {
+    id: string;
+    recipientName: string;
+    signatureUrl: string | null;
+    photoUrls: string[];
+    latitude: number | null;
+    longitude: number | null;
+    accuracy: number | null;
+    capturedAt: string;
+    capturedByName: string | null;
+}
+
+interface OrderInvoice {
+    id: string;
+    invoiceNumber: string;
+    status: 'issued' | 'cancelled';
+    issueDate: string;
+}
+
+// Orders past approval can be invoiced by hand
+const INVOICEABLE_STATUSES = ['approved', 'picking', 'picked', 'loaded', 'delivering', 'delivered', 'partial'];
+
 interface OrderDetailData {
     id: string;
     orderNumber: string;
@@ -81,6 +109,8 @@ interface OrderDetailData {
     } | null;
     items: OrderItem[];
     statusHistory: StatusHistoryEntry[];
+    deliveryProof: DeliveryProof | null;
+    invoice: OrderInvoice | null;
 }
 
 // Status configs now come from shared/order/constants.ts
@@ -211,6 +241,50 @@ const AdminOrderDetail: Component = () => {
         }
     };
 
+    const [invoiceBusy, setInvoiceBusy] = createSignal(false);
+
+    const issueInvoice = async () => {
+        setInvoiceBusy(true);
+        try {
+            await api('/invoices', { method: 'POST', body: JSON.stringify({ orderId: params.id }) });
+            toast.success('Invoice issued');
+            refetch();
+        } catch (e: any) {
+            toast.error(e.message || 'Failed to issue invoice');
+        } finally {
+            setInvoiceBusy(false);
+        }
+    };
+
+    // The PDF endpoint needs the auth header, so fetch it and open the blob
+    const openInvoice = async (invoiceId: string) => {
+        try {
+            const token = localStorage.getItem('token');
+            const response = await fetch(`${API_BASE_URL}/invoices/${invoiceId}/pdf`, {
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            if (!response.ok) throw new Error('Download failed');
+
+            const url = window.URL.createObjectURL(await response.blob());
+            window.open(url, '_blank');
+            setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+        } catch {
+            toast.error('Failed to load invoice');
+        }
+    };
+
+    const sendInvoice = async (invoiceId: string) => {
+        setInvoiceBusy(true);
+        try {
+            await api(`/invoices/${invoiceId}/send-telegram`, { method: 'POST' });
+            toast.success('Invoice sent to the customer');
+        } catch (e: any) {
+            toast.error(e.message || 'Failed to send invoice');
+        } finally {
+            setInvoiceBusy(false);
+        }
+    };
+
     const formatCurrency = (amount: string | number) => {
         const num = typeof amount === 'string' ? parseFloat(amount) : amount;
         return `$${num.toFixed(2)}`;
@@ -511,6 +585,110 @@ const AdminOrderDetail: Component = () => {
                                     </div>
                                 </div>
 
+                                {/* Invoice */}
+                                <Show when={detail().invoice || INVOICEABLE_STATUSES.includes(detail().status)}>
+                                    <div class="bg-slate-900/60 border border-slate-800/50 rounded-xl p-4 space-y-3">
+                                        <h3 class="font-semibold text-white flex items-center gap-2">
+                                            <FileText class="w-4 h-4 text-slate-400" />
+                                            Invoice
+                                        </h3>
+                                        <Show when={detail().invoice} fallback={
+                                            <button
+                                                onClick={issueInvoice}
+                                                disabled={invoiceBusy()}
+                                                class="w-full px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-lg transition-colors disabled:opacity-50"
+                                            >
+                                                Issue Invoice
+                                            </button>
+                                        }>
+                                            {(invoice) => (
+                                                <>
+                                                    <div>
+                                                        <div class="text-white font-medium">{invoice().invoiceNumber}</div>
+                                                        <div class="text-xs text-slate-500">
+                                                            {invoice().issueDate}
+                                                            <Show when={invoice().status === 'cancelled'}>
+                                                                <span class="text-red-400"> · Cancelled</span>
+                                                            </Show>
+                                                        </div>
+                                                    </div>
+                                                    <div class="flex gap-2">
+                                                        <button
+                                                            onClick={() => openInvoice(invoice().id)}
+                                                            class="flex-1 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm rounded-lg transition-colors flex items-center justify-center gap-2"
+                                                        >
+                                                            <Download class="w-4 h-4" />
+                                                            PDF
+                                                        </button>
+                                                        <Show when={invoice().status === 'issued'}>
+                                                            <button
+                                                                onClick={() => sendInvoice(invoice().id)}
+                                                                disabled={invoiceBusy()}
+                                                                class="flex-1 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-white text-sm rounded-lg transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                                                            >
+                                                                <Send class="w-4 h-4" />
+                                                                Telegram
+                                                            </button>
+                                                        </Show>
+                                                    </div>
+                                                </>
+                                            )}
+                                        </Show>
+                                    </div>
+                                </Show>
+
+                                {/* Proof of Delivery */}
+                                <Show when={detail().deliveryProof}>
+                                    {(proof) => (
+                                        <div class="bg-slate-900/60 border border-slate-800/50 rounded-xl p-4 space-y-3">
+                                            <h3 class="font-semibold text-white flex items-center gap-2">
+                                                <PenLine class="w-4 h-4 text-slate-400" />
+                                                Proof of Delivery
+                                            </h3>
+                                            <div>
+                                                <div class="text-xs text-slate-500 uppercase mb-1">Received By</div>
+                                                <div class="text-white">{proof().recipientName}</div>
+                                                <div class="text-xs text-slate-500 mt-0.5">
+                                                    {formatDateTime(proof().capturedAt)}
+                                                    <Show when={proof().capturedByName}> · {proof().capturedByName}</Show>
+                                                </div>
+                                            </div>
+                                            <Show when={proof().signatureUrl}>
+                                                <img
+                                                    src={getImageUrl(proof().signatureUrl)}
+                                                    alt="Signature"
+                                                    class="w-full bg-white rounded-lg"
+                                                />
+                                            </Show>
+                                            <Show when={proof().photoUrls.length > 0}>
+                                                <div class="grid grid-cols-3 gap-2">
+                                                    <For each={proof().photoUrls}>
+                                                        {(url) => (
+                                                            <a href={getImageUrl(url)} target="_blank" rel="noopener noreferrer">
+                                                                <img src={getImageUrl(url)} alt="Delivery photo" class="w-full aspect-square object-cover rounded-lg" />
+                                                            </a>
+                                                        )}
+                                                    </For>
+                                                </div>
+                                            </Show>
+                                            <Show when={proof().latitude !== null && proof().longitude !== null}>
+                                                <a
+                                                    href={`https://www.google.com/maps?q=${proof().latitude},${proof().longitude}`}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    class="flex items-center gap-2 text-sm text-blue-400 hover:underline"
+                                                >
+                                                    <MapPin class="w-4 h-4" />
+                                                    {proof().latitude!.toFixed(5)}, {proof().longitude!.toFixed(5)}
+                                                    <Show when={proof().accuracy !== null}>
+                                                        <span class="text-slate-500">(±{Math.round(proof().accuracy!)} m)</span>
+                                                    </Show>
+                                                </a>
+                                            </Show>
+                                        </div>
+                                    )}
+                                </Show>
+
                                 {/* Delivery Date */}
                                 <Show when={detail().requestedDeliveryDate || isEditMode()}>
                                     <div class="bg-slate-900/60 border border-slate-800/50 rounded-xl p-4">
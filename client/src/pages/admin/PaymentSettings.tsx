@@ -1,32 +1,50 @@
-import { createSignal, onMount, Show } from 'solid-js';
+import { createSignal, onMount, Show, For } from 'solid-js';
 import type { Component } from 'solid-js';
 import { showToast } from '../../components/Toast';
 import { api } from '../../lib/api';
 
+interface ProviderField {
+    key: string;
+    label: string;
+    secret: boolean;
+    required: boolean;
+}
+
+interface ProviderSettings {
+    name: string;
+    displayName: string;
+    isEnabled: boolean;
+    configured: boolean;
+    fields: ProviderField[];
+    credentials: Record<string, string>; // Secret fields come back masked
+    webhookPath: string;
+}
+
 interface PaymentSettings {
     paymentPortalEnabled: boolean;
-    clickMerchantId: string;
-    clickServiceId: string;
-    clickSecretKey: string;
-    paymeMerchantId: string;
-    paymeSecretKey: string;
+    providers: ProviderSettings[];
 }
 
+const MERCHANT_PANELS: Record<string, { url: string; label: string }> = {
+    click: { url: 'https://click.uz/merchant', label: 'Click merchant panelidan oling →' },
+    payme: { url: 'https://merchant.payme.uz', label: 'Payme merchant panelidan oling →' },
+};
+
+// Uzum Bank calls one URL per action under the webhook path
+const WEBHOOK_SUFFIXES: Record<string, string> = {
+    uzum: '/{check|create|confirm|reverse|status}',
+};
+
 const PaymentSettings: Component = () => {
     const [loading, setLoading] = createSignal(true);
     const [saving, setSaving] = createSignal(false);
     const [settings, setSettings] = createSignal<PaymentSettings>({
         paymentPortalEnabled: false,
-        clickMerchantId: '',
-        clickServiceId: '',
-        clickSecretKey: '',
-        paymeMerchantId: '',
-        paymeSecretKey: '',
+        providers: [],
     });
 
-    // For security, we mask the secret keys
-    const [showClickSecret, setShowClickSecret] = createSignal(false);
-    const [showPaymeSecret, setShowPaymeSecret] = createSignal(false);
+    // For security, secret keys are hidden until toggled
+    const [visibleSecrets, setVisibleSecrets] = createSignal<Record<string, boolean>>({});
 
     onMount(() => {
         fetchSettings();
@@ -48,9 +66,17 @@ const PaymentSettings: Component = () => {
         try {
             await api('/tenant-self/payment-settings', {
                 method: 'PUT',
-                body: JSON.stringify(settings()),
+                body: JSON.stringify({
+                    paymentPortalEnabled: settings().paymentPortalEnabled,
+                    providers: settings().providers.map(p => ({
+                        name: p.name,
+                        isEnabled: p.isEnabled,
+                        credentials: p.credentials,
+                    })),
+                }),
             });
             showToast('To\'lov sozlamalari saqlandi', 'success');
+            await fetchSettings();
         } catch (_error) {
             showToast('Xatolik yuz berdi', 'error');
         } finally {
@@ -58,8 +84,19 @@ const PaymentSettings: Component = () => {
         }
     };
 
-    const updateField = (field: keyof PaymentSettings, value: string | boolean) => {
-        setSettings(prev => ({ ...prev, [field]: value }));
+    const updateProvider = (name: string, update: (provider: ProviderSettings) => ProviderSettings) => {
+        setSettings(prev => ({
+            ...prev,
+            providers: prev.providers.map(p => p.name === name ? update(p) : p),
+        }));
+    };
+
+    const updateCredential = (name: string, key: string, value: string) => {
+        updateProvider(name, p => ({ ...p, credentials: { ...p.credentials, [key]: value } }));
+    };
+
+    const toggleSecret = (id: string) => {
+        setVisibleSecrets(prev => ({ ...prev, [id]: !prev[id] }));
     };
 
     return (
@@ -67,7 +104,7 @@ const PaymentSettings: Component = () => {
             <div class="page-header">
                 <h1>💳 To'lov Sozlamalari</h1>
                 <p class="description">
-                    Click va Payme orqali onlayn to'lovlarni qabul qilish uchun sozlamalar
+                    Click, Payme va Uzum Bank orqali onlayn to'lovlarni qabul qilish uchun sozlamalar
                 </p>
             </div>
 
@@ -89,7 +126,7 @@ const PaymentSettings: Component = () => {
                                 <input
                                     type="checkbox"
                                     checked={settings().paymentPortalEnabled}
-                                    onChange={(e) => updateField('paymentPortalEnabled', e.currentTarget.checked)}
+                                    onChange={(e) => setSettings(prev => ({ ...prev, paymentPortalEnabled: e.currentTarget.checked }))}
                                 />
                                 <span class="toggle-slider"></span>
                             </label>
@@ -97,126 +134,95 @@ const PaymentSettings: Component = () => {
                     </div>
 
                     <Show when={settings().paymentPortalEnabled}>
-                        {/* Click Settings */}
-                        <div class="setting-card provider-card click">
-                            <div class="provider-header">
-                                <div class="provider-logo click-logo">Click</div>
-                                <span class="provider-status" classList={{ active: !!settings().clickMerchantId }}>
-                                    {settings().clickMerchantId ? '✓ Sozlangan' : 'Sozlanmagan'}
-                                </span>
-                            </div>
-
-                            <div class="form-grid">
-                                <div class="form-group">
-                                    <label>Merchant ID</label>
-                                    <input
-                                        type="text"
-                                        placeholder="12345"
-                                        value={settings().clickMerchantId}
-                                        onInput={(e) => updateField('clickMerchantId', e.currentTarget.value)}
-                                    />
-                                </div>
-
-                                <div class="form-group">
-                                    <label>Service ID</label>
-                                    <input
-                                        type="text"
-                                        placeholder="67890"
-                                        value={settings().clickServiceId}
-                                        onInput={(e) => updateField('clickServiceId', e.currentTarget.value)}
-                                    />
-                                </div>
-
-                                <div class="form-group full-width">
-                                    <label>Secret Key</label>
-                                    <div class="password-input">
-                                        <input
-                                            type={showClickSecret() ? 'text' : 'password'}
-                                            placeholder="••••••••••••••••"
-                                            value={settings().clickSecretKey}
-                                            onInput={(e) => updateField('clickSecretKey', e.currentTarget.value)}
-                                        />
-                                        <button
-                                            type="button"
-                                            class="toggle-visibility"
-                                            onClick={() => setShowClickSecret(!showClickSecret())}
-                                        >
-                                            {showClickSecret() ? '🙈' : '👁️'}
-                                        </button>
+                        {/* Provider Settings */}
+                        <For each={settings().providers}>
+                            {(provider) => (
+                                <div class={`setting-card provider-card ${provider.name}`}>
+                                    <div class="provider-header">
+                                        <div class={`provider-logo ${provider.name}-logo`}>{provider.displayName}</div>
+                                        <div class="provider-controls">
+                                            <span class="provider-status" classList={{ active: provider.configured && provider.isEnabled }}>
+                                                {!provider.configured ? 'Sozlanmagan' : provider.isEnabled ? '✓ Sozlangan' : 'O\'chirilgan'}
+                                            </span>
+                                            <label class="toggle-switch">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={provider.isEnabled}
+                                                    onChange={(e) => {
+                                                        const isEnabled = e.currentTarget.checked;
+                                                        updateProvider(provider.name, p => ({ ...p, isEnabled }));
+                                                    }}
+                                                />
+                                                <span class="toggle-slider"></span>
+                                            </label>
+                                        </div>
                                     </div>
-                                </div>
-                            </div>
-
-                            <div class="provider-help">
-                                <a href="https://click.uz/merchant" target="_blank" rel="noopener">
-                                    Click merchant panelidan oling →
-                                </a>
-                            </div>
-                        </div>
-
-                        {/* Payme Settings */}
-                        <div class="setting-card provider-card payme">
-                            <div class="provider-header">
-                                <div class="provider-logo payme-logo">Payme</div>
-                                <span class="provider-status" classList={{ active: !!settings().paymeMerchantId }}>
-                                    {settings().paymeMerchantId ? '✓ Sozlangan' : 'Sozlanmagan'}
-                                </span>
-                            </div>
 
-                            <div class="form-grid">
-                                <div class="form-group full-width">
-                                    <label>Merchant ID</label>
-                                    <input
-                                        type="text"
-                                        placeholder="5e730e8e0b852a417aa49ceb"
-                                        value={settings().paymeMerchantId}
-                                        onInput={(e) => updateField('paymeMerchantId', e.currentTarget.value)}
-                                    />
-                                </div>
-
-                                <div class="form-group full-width">
-                                    <label>Secret Key</label>
-                                    <div class="password-input">
-                                        <input
-                                            type={showPaymeSecret() ? 'text' : 'password'}
-                                            placeholder="••••••••••••••••"
-                                            value={settings().paymeSecretKey}
-                                            onInput={(e) => updateField('paymeSecretKey', e.currentTarget.value)}
-                                        />
-                                        <button
-                                            type="button"
-                                            class="toggle-visibility"
-                                            onClick={() => setShowPaymeSecret(!showPaymeSecret())}
-                                        >
-                                            {showPaymeSecret() ? '🙈' : '👁️'}
-                                        </button>
+                                    <div class="form-grid">
+                                        <For each={provider.fields}>
+                                            {(field) => {
+                                                const secretId = `${provider.name}.${field.key}`;
+                                                return (
+                                                    <div class="form-group" classList={{ 'full-width': field.secret }}>
+                                                        <label>{field.label}{field.required ? '' : ' (ixtiyoriy)'}</label>
+                                                        <Show when={field.secret} fallback={
+                                                            <input
+                                                                type="text"
+                                                                value={provider.credentials[field.key] || ''}
+                                                                onInput={(e) => updateCredential(provider.name, field.key, e.currentTarget.value)}
+                                                            />
+                                                        }>
+                                                            <div class="password-input">
+                                                                <input
+                                                                    type={visibleSecrets()[secretId] ? 'text' : 'password'}
+                                                                    placeholder="••••••••••••••••"
+                                                                    value={provider.credentials[field.key] || ''}
+                                                                    onInput={(e) => updateCredential(provider.name, field.key, e.currentTarget.value)}
+                                                                />
+                                                                <button
+                                                                    type="button"
+                                                                    class="toggle-visibility"
+                                                                    onClick={() => toggleSecret(secretId)}
+                                                                >
+                                                                    {visibleSecrets()[secretId] ? '🙈' : '👁️'}
+                                                                </button>
+                                                            </div>
+                                                        </Show>
+                                                    </div>
+                                                );
+                                            }}
+                                        </For>
                                     </div>
-                                </div>
-                            </div>
 
-                            <div class="provider-help">
-                                <a href="https://merchant.payme.uz" target="_blank" rel="noopener">
-                                    Payme merchant panelidan oling →
-                                </a>
-                            </div>
-                        </div>
+                                    <Show when={MERCHANT_PANELS[provider.name]}>
+                                        {(panel) => (
+                                            <div class="provider-help">
+                                                <a href={panel().url} target="_blank" rel="noopener">
+                                                    {panel().label}
+                                                </a>
+                                            </div>
+                                        )}
+                                    </Show>
+                                </div>
+                            )}
+                        </For>
 
                         {/* Webhook URLs Info */}
                         <div class="setting-card info-card">
                             <h3>🔗 Webhook URL'lar</h3>
                             <p class="info-description">
-                                Quyidagi URL'larni Click/Payme merchant panelida ko'rsating:
+                                Quyidagi URL'larni to'lov tizimlarining merchant panelida ko'rsating:
                             </p>
 
                             <div class="webhook-urls">
-                                <div class="webhook-item">
-                                    <label>Click Webhook:</label>
-                                    <code>{window.location.origin}/api/payment-gateway/webhook/click</code>
-                                </div>
-                                <div class="webhook-item">
-                                    <label>Payme Webhook:</label>
-                                    <code>{window.location.origin}/api/payment-gateway/webhook/payme</code>
-                                </div>
+                                <For each={settings().providers}>
+                                    {(provider) => (
+                                        <div class="webhook-item">
+                                            <label>{provider.displayName} Webhook:</label>
+                                            <code>{window.location.origin}{provider.webhookPath}{WEBHOOK_SUFFIXES[provider.name] || ''}</code>
+                                        </div>
+                                    )}
+                                </For>
                             </div>
                         </div>
                     </Show>
@@ -367,6 +373,10 @@ const PaymentSettings: Component = () => {
                     border-left-color: #00c896;
                 }
 
+                .provider-card.uzum {
+                    border-left-color: #7000ff;
+                }
+
                 .provider-header {
                     display: flex;
                     justify-content: space-between;
@@ -391,6 +401,17 @@ const PaymentSettings: Component = () => {
                     color: white;
                 }
 
+                .uzum-logo {
+                    background: linear-gradient(135deg, #7000ff, #5a00cc);
+                    color: white;
+                }
+
+                .provider-controls {
+                    display: flex;
+                    align-items: center;
+                    gap: 12px;
+                }
+
                 .provider-status {
                     font-size: 12px;
                     padding: 6px 12px;
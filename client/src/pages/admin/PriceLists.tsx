@@ -0,0 +1,498 @@
+import { type Component, createResource, createSignal, Show, For } from 'solid-js';
+import { Plus, ListOrdered, Loader2, Trash2, Search, Eye, Check } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { toast } from '../../components/Toast';
+import { formatCurrency, getCurrency } from '../../stores/settings';
+
+type ScopeType = 'customer' | 'territory' | 'customer_tier';
+
+interface PriceList {
+    id: string;
+    name: string;
+    description: string | null;
+    currency: string;
+    isActive: boolean;
+    productCount: number;
+    assignmentCount: number;
+}
+
+interface Assignment {
+    scopeType: ScopeType;
+    scopeId: string;
+    name: string | null;
+}
+
+interface PriceListItem {
+    id: string;
+    productId: string;
+    productName: string;
+    sku: string | null;
+    basePrice: string;
+    price: string;
+    validFrom: string;
+    validTo: string | null;
+}
+
+interface BulkPreview {
+    effectiveFrom: string;
+    changes: { productId: string; productName: string; sku: string | null; source: 'price_list' | 'base'; currentPrice: number; newPrice: number }[];
+    totals: { products: number; currentAmount: number; newAmount: number };
+}
+
+interface Option {
+    id: string;
+    name: string;
+}
+
+const scopeLabels: Record<ScopeType, string> = {
+    customer: 'Customer',
+    territory: 'Territory',
+    customer_tier: 'Customer Tier',
+};
+
+const inputClass = 'bg-slate-950 border border-slate-800 rounded-xl px-3 py-2.5 text-white text-sm focus:ring-2 focus:ring-blue-500/50 outline-none';
+
+const PriceLists: Component = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const [selectedId, setSelectedId] = createSignal<string | null>(null);
+    const [tab, setTab] = createSignal<'prices' | 'assignments' | 'bulk'>('prices');
+    const [newListName, setNewListName] = createSignal('');
+    const [newListCurrency, setNewListCurrency] = createSignal('');
+
+    const [lists, { refetch: refetchLists }] = createResource(() => api.get<PriceList[]>('/price-lists'));
+    const selected = () => lists()?.find(list => list.id === selectedId()) ?? null;
+
+    // A list's prices are in its own currency
+    const formatListPrice = (amount: number) => {
+        const currency = selected()?.currency;
+        if (!currency || currency === getCurrency()) return formatCurrency(amount);
+        return `${amount.toLocaleString('ru-RU', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+    };
+
+    // Prices
+    const [itemSearch, setItemSearch] = createSignal('');
+    const [items, { refetch: refetchItems }] = createResource(
+        () => (selectedId() && tab() === 'prices' ? { id: selectedId()!, search: itemSearch() } : false),
+        ({ id, search }) => api.get<PriceListItem[]>(`/price-lists/${id}/items`, { params: { search, limit: '200' } })
+    );
+    const [productSearch, setProductSearch] = createSignal('');
+    const [productOptions] = createResource(
+        () => productSearch().trim().length >= 2 && productSearch().trim(),
+        (search) => api.get<Option[]>('/products', { params: { search, limit: '10' } })
+    );
+    const [newPrice, setNewPrice] = createSignal({ productId: '', productName: '', price: '', validFrom: today, validTo: '' });
+
+    // Assignments
+    const [detail, { refetch: refetchDetail }] = createResource(
+        () => selectedId() && tab() === 'assignments' && selectedId()!,
+        (id) => api.get<{ assignments: Assignment[] }>(`/price-lists/${id}`)
+    );
+    const [scopeType, setScopeType] = createSignal<ScopeType>('customer_tier');
+    const [scopeSearch, setScopeSearch] = createSignal('');
+    const [tiers] = createResource(() => api.get<Option[]>('/customers/tiers'));
+    const [territories] = createResource(() => api.get<Option[]>('/customers/territories'));
+    const [customerOptions] = createResource(
+        () => scopeType() === 'customer' && scopeSearch().trim().length >= 2 && scopeSearch().trim(),
+        (search) => api.get<Option[]>('/customers', { params: { search, limit: '10' } })
+    );
+    const scopeOptions = () => {
+        if (scopeType() === 'customer') return customerOptions() || [];
+        return (scopeType() === 'territory' ? territories() : tiers()) || [];
+    };
+
+    // Bulk update
+    const [brands] = createResource(() => api.get<Option[]>('/products/brands'));
+    const [categories] = createResource(() => api.get<Option[]>('/products/categories'));
+    const [bulk, setBulk] = createSignal({ percent: '', brandId: '', categoryId: '', effectiveFrom: today });
+    const [preview, setPreview] = createSignal<BulkPreview | null>(null);
+    const [working, setWorking] = createSignal(false);
+
+    const selectList = (id: string) => {
+        setSelectedId(id);
+        setPreview(null);
+    };
+
+    const handleCreateList = async (e: Event) => {
+        e.preventDefault();
+        if (!newListName().trim()) return;
+        const currency = newListCurrency().trim();
+        if (currency && !/^[A-Za-z]{3}$/.test(currency)) return;
+        try {
+            const list = await api.post<PriceList>('/price-lists', { name: newListName().trim(), ...(currency ? { currency } : {}) });
+            setNewListName('');
+            setNewListCurrency('');
+            await refetchLists();
+            selectList(list.id);
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to create price list');
+        }
+    };
+
+    const toggleActive = async (list: PriceList) => {
+        try {
+            await api.patch(`/price-lists/${list.id}`, { isActive: !list.isActive });
+            refetchLists();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to update price list');
+        }
+    };
+
+    const handleSetPrice = async (e: Event) => {
+        e.preventDefault();
+        const data = newPrice();
+        if (!data.productId) {
+            toast.error('Choose a product');
+            return;
+        }
+        try {
+            await api.put(`/price-lists/${selectedId()}/items`, {
+                productId: data.productId,
+                price: Number(data.price),
+                validFrom: data.validFrom || undefined,
+                validTo: data.validTo || null,
+            });
+            toast.success('Price saved');
+            setNewPrice({ productId: '', productName: '', price: '', validFrom: today, validTo: '' });
+            setProductSearch('');
+            refetchItems();
+            refetchLists();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to save price');
+        }
+    };
+
+    const deleteItem = async (item: PriceListItem) => {
+        try {
+            await api.delete(`/price-lists/items/${item.id}`);
+            refetchItems();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to delete price');
+        }
+    };
+
+    const saveAssignments = async (assignments: Assignment[]) => {
+        try {
+            await api.put(`/price-lists/${selectedId()}/assignments`, {
+                assignments: assignments.map(({ scopeType, scopeId }) => ({ scopeType, scopeId })),
+            });
+            refetchDetail();
+            refetchLists();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to save assignments');
+        }
+    };
+
+    const addAssignment = (option: Option) => {
+        const current = detail()?.assignments || [];
+        if (current.some(a => a.scopeType === scopeType() && a.scopeId === option.id)) return;
+        setScopeSearch('');
+        saveAssignments([...current, { scopeType: scopeType(), scopeId: option.id, name: option.name }]);
+    };
+
+    const bulkBody = () => ({
+        percent: Number(bulk().percent),
+        brandId: bulk().brandId || undefined,
+        categoryId: bulk().categoryId || undefined,
+        effectiveFrom: bulk().effectiveFrom || undefined,
+    });
+
+    const handlePreview = async () => {
+        setWorking(true);
+        try {
+            setPreview(await api.post<BulkPreview>(`/price-lists/${selectedId()}/bulk-update/preview`, bulkBody()));
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to preview');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleApply = async () => {
+        setWorking(true);
+        try {
+            const result = await api.post<BulkPreview>(`/price-lists/${selectedId()}/bulk-update`, bulkBody());
+            toast.success(`${result.totals.products} prices updated from ${result.effectiveFrom}`);
+            setPreview(null);
+            refetchLists();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to apply price change');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const tabClass = (name: string) => `px-4 py-2 rounded-xl text-sm font-medium transition-colors ${tab() === name
+        ? 'bg-blue-600 text-white'
+        : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`;
+
+    return (
+        <div class="p-4 pt-6 sm:p-8 sm:pt-8 space-y-8">
+            <div>
+                <h1 class="text-3xl font-bold text-white tracking-tight">Price Lists</h1>
+                <p class="text-slate-400 mt-1">Prices per customer tier, territory or customer, with scheduled changes</p>
+            </div>
+
+            <div class="grid grid-cols-1 lg:grid-cols-3 gap-6">
+                {/* Lists */}
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 space-y-4 h-fit">
+                    <form onSubmit={handleCreateList} class="flex gap-2">
+                        <input
+                            type="text"
+                            value={newListName()}
+                            onInput={(e) => setNewListName(e.currentTarget.value)}
+                            placeholder="e.g. Wholesale"
+                            class={`${inputClass} flex-1`}
+                        />
+                        <input
+                            type="text"
+                            value={newListCurrency()}
+                            onInput={(e) => setNewListCurrency(e.currentTarget.value.toUpperCase())}
+                            placeholder={getCurrency() || 'UZS'}
+                            maxLength={3}
+                            class={`${inputClass} w-20`}
+                        />
+                        <button type="submit" class="px-3 py-2.5 bg-blue-600 text-white rounded-xl hover:bg-blue-500">
+                            <Plus class="w-5 h-5" />
+                        </button>
+                    </form>
+
+                    <Show when={!lists.loading} fallback={<div class="p-6 flex justify-center"><Loader2 class="w-6 h-6 animate-spin text-blue-500" /></div>}>
+                        <Show when={(lists() || []).length > 0} fallback={
+                            <div class="p-6 flex flex-col items-center text-slate-500">
+                                <ListOrdered class="w-12 h-12 mb-3 opacity-20" />
+                                <p class="text-sm">No price lists yet. Everyone buys at the product price.</p>
+                            </div>
+                        }>
+                            <div class="space-y-2">
+                                <For each={lists()}>
+                                    {(list) => (
+                                        <div
+                                            onClick={() => selectList(list.id)}
+                                            class={`p-3 rounded-xl border cursor-pointer transition-colors ${selectedId() === list.id ? 'border-blue-500 bg-blue-500/10' : 'border-slate-800 hover:bg-slate-800/50'}`}
+                                        >
+                                            <div class="flex items-center justify-between">
+                                                <span class="font-semibold text-slate-200">{list.name}</span>
+                                                <button
+                                                    onClick={(e) => { e.stopPropagation(); toggleActive(list); }}
+                                                    class={`px-2 py-0.5 rounded-full text-xs font-medium border ${list.isActive
+                                                        ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                                                        : 'bg-red-500/10 text-red-400 border-red-500/20'}`}
+                                                >
+                                                    {list.isActive ? 'Active' : 'Inactive'}
+                                                </button>
+                                            </div>
+                                            <div class="text-xs text-slate-500 mt-1">{list.currency} · {list.productCount} products · {list.assignmentCount} assignments</div>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+                    </Show>
+                </div>
+
+                {/* Selected list */}
+                <div class="lg:col-span-2 bg-slate-900 border border-slate-800 rounded-2xl p-4 space-y-4">
+                    <Show when={selected()} fallback={<p class="p-12 text-center text-slate-500">Select a price list</p>}>
+                        <div class="flex flex-wrap gap-2">
+                            <button class={tabClass('prices')} onClick={() => setTab('prices')}>Prices</button>
+                            <button class={tabClass('assignments')} onClick={() => setTab('assignments')}>Assigned To</button>
+                            <button class={tabClass('bulk')} onClick={() => setTab('bulk')}>Bulk Update</button>
+                        </div>
+
+                        {/* Prices */}
+                        <Show when={tab() === 'prices'}>
+                            <form onSubmit={handleSetPrice} class="grid grid-cols-1 sm:grid-cols-5 gap-2">
+                                <div class="relative sm:col-span-2">
+                                    <input
+                                        type="text"
+                                        value={newPrice().productId ? newPrice().productName : productSearch()}
+                                        onInput={(e) => { setProductSearch(e.currentTarget.value); setNewPrice({ ...newPrice(), productId: '', productName: '' }); }}
+                                        placeholder="Search product"
+                                        class={`${inputClass} w-full`}
+                                    />
+                                    <Show when={!newPrice().productId && (productOptions() || []).length > 0}>
+                                        <div class="absolute z-10 mt-1 w-full bg-slate-900 border border-slate-700 rounded-xl max-h-60 overflow-y-auto">
+                                            <For each={productOptions()}>
+                                                {(product) => (
+                                                    <button type="button" class="block w-full text-left px-3 py-2 text-sm text-slate-200 hover:bg-slate-800"
+                                                        onClick={() => setNewPrice({ ...newPrice(), productId: product.id, productName: product.name })}>
+                                                        {product.name}
+                                                    </button>
+                                                )}
+                                            </For>
+                                        </div>
+                                    </Show>
+                                </div>
+                                <input type="number" min="0" step="0.01" required value={newPrice().price} placeholder="Price"
+                                    onInput={(e) => setNewPrice({ ...newPrice(), price: e.currentTarget.value })} class={inputClass} />
+                                <input type="date" min={today} value={newPrice().validFrom} title="From"
+                                    onChange={(e) => setNewPrice({ ...newPrice(), validFrom: e.currentTarget.value })} class={inputClass} />
+                                <div class="flex gap-2">
+                                    <input type="date" min={newPrice().validFrom} value={newPrice().validTo} title="Until (optional)"
+                                        onChange={(e) => setNewPrice({ ...newPrice(), validTo: e.currentTarget.value })} class={`${inputClass} flex-1 min-w-0`} />
+                                    <button type="submit" class="px-3 bg-blue-600 text-white rounded-xl hover:bg-blue-500"><Check class="w-4 h-4" /></button>
+                                </div>
+                            </form>
+
+                            <div class="relative">
+                                <Search class="w-4 h-4 absolute left-3 top-3 text-slate-500" />
+                                <input type="text" value={itemSearch()} onInput={(e) => setItemSearch(e.currentTarget.value)}
+                                    placeholder="Filter prices" class={`${inputClass} w-full pl-9`} />
+                            </div>
+
+                            <div class="overflow-x-auto">
+                                <table class="w-full text-left text-sm">
+                                    <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                        <tr>
+                                            <th class="px-4 py-3">Product</th>
+                                            <th class="px-4 py-3 text-right">Base Price</th>
+                                            <th class="px-4 py-3 text-right">List Price</th>
+                                            <th class="px-4 py-3">Valid</th>
+                                            <th class="px-4 py-3"></th>
+                                        </tr>
+                                    </thead>
+                                    <tbody class="divide-y divide-slate-800">
+                                        <For each={items()} fallback={<tr><td colspan="5" class="px-4 py-8 text-center text-slate-500">No prices in this list</td></tr>}>
+                                            {(item) => (
+                                                <tr class="hover:bg-slate-800/50">
+                                                    <td class="px-4 py-3">
+                                                        <div class="text-slate-200">{item.productName}</div>
+                                                        <div class="text-xs text-slate-500">{item.sku}</div>
+                                                    </td>
+                                                    <td class="px-4 py-3 text-right text-slate-500">{formatCurrency(Number(item.basePrice))}</td>
+                                                    <td class="px-4 py-3 text-right text-white font-medium">{formatListPrice(Number(item.price))}</td>
+                                                    <td class="px-4 py-3 text-slate-400">
+                                                        {item.validFrom} – {item.validTo ?? '…'}
+                                                        <Show when={item.validFrom > today}>
+                                                            <span class="ml-2 px-2 py-0.5 rounded-full text-xs bg-amber-500/10 text-amber-400 border border-amber-500/20">Scheduled</span>
+                                                        </Show>
+                                                    </td>
+                                                    <td class="px-4 py-3 text-right">
+                                                        <Show when={item.validFrom > today}>
+                                                            <button onClick={() => deleteItem(item)} class="p-1.5 text-slate-500 hover:text-red-400">
+                                                                <Trash2 class="w-4 h-4" />
+                                                            </button>
+                                                        </Show>
+                                                    </td>
+                                                </tr>
+                                            )}
+                                        </For>
+                                    </tbody>
+                                </table>
+                            </div>
+                        </Show>
+
+                        {/* Assignments */}
+                        <Show when={tab() === 'assignments'}>
+                            <p class="text-sm text-slate-400">A customer's own list wins over their territory's, which wins over their tier's.</p>
+                            <div class="flex flex-col sm:flex-row gap-2">
+                                <select value={scopeType()} onChange={(e) => { setScopeType(e.currentTarget.value as ScopeType); setScopeSearch(''); }} class={inputClass}>
+                                    <option value="customer_tier">Customer Tier</option>
+                                    <option value="territory">Territory</option>
+                                    <option value="customer">Customer</option>
+                                </select>
+                                <div class="relative flex-1">
+                                    <input type="text" value={scopeSearch()} onInput={(e) => setScopeSearch(e.currentTarget.value)}
+                                        placeholder={scopeType() === 'customer' ? 'Search customers' : 'Filter'} class={`${inputClass} w-full`} />
+                                    <Show when={scopeSearch().trim().length > 0}>
+                                        <div class="absolute z-10 mt-1 w-full bg-slate-900 border border-slate-700 rounded-xl max-h-60 overflow-y-auto">
+                                            <For each={scopeOptions().filter(o => o.name.toLowerCase().includes(scopeSearch().trim().toLowerCase()))}>
+                                                {(option) => (
+                                                    <button type="button" onClick={() => addAssignment(option)}
+                                                        class="block w-full text-left px-3 py-2 text-sm text-slate-200 hover:bg-slate-800">
+                                                        {option.name}
+                                                    </button>
+                                                )}
+                                            </For>
+                                        </div>
+                                    </Show>
+                                </div>
+                            </div>
+
+                            <div class="divide-y divide-slate-800 border border-slate-800 rounded-xl">
+                                <For each={detail()?.assignments || []} fallback={<p class="p-6 text-center text-sm text-slate-500">Not assigned to anyone yet</p>}>
+                                    {(assignment, index) => (
+                                        <div class="flex items-center justify-between px-4 py-3">
+                                            <div>
+                                                <div class="text-slate-200">{assignment.name ?? assignment.scopeId}</div>
+                                                <div class="text-xs text-slate-500">{scopeLabels[assignment.scopeType]}</div>
+                                            </div>
+                                            <button onClick={() => saveAssignments((detail()?.assignments || []).filter((_, i) => i !== index()))}
+                                                class="p-1.5 text-slate-500 hover:text-red-400">
+                                                <Trash2 class="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+
+                        {/* Bulk update */}
+                        <Show when={tab() === 'bulk'}>
+                            <div class="grid grid-cols-1 sm:grid-cols-4 gap-2">
+                                <input type="number" step="0.1" value={bulk().percent} placeholder="% change, e.g. 5 or -3"
+                                    onInput={(e) => { setBulk({ ...bulk(), percent: e.currentTarget.value }); setPreview(null); }} class={inputClass} />
+                                <select value={bulk().brandId} onChange={(e) => { setBulk({ ...bulk(), brandId: e.currentTarget.value }); setPreview(null); }} class={inputClass}>
+                                    <option value="">All brands</option>
+                                    <For each={brands()}>{(brand) => <option value={brand.id}>{brand.name}</option>}</For>
+                                </select>
+                                <select value={bulk().categoryId} onChange={(e) => { setBulk({ ...bulk(), categoryId: e.currentTarget.value }); setPreview(null); }} class={inputClass}>
+                                    <option value="">All categories</option>
+                                    <For each={categories()}>{(category) => <option value={category.id}>{category.name}</option>}</For>
+                                </select>
+                                <input type="date" min={today} value={bulk().effectiveFrom} title="Effective from"
+                                    onChange={(e) => { setBulk({ ...bulk(), effectiveFrom: e.currentTarget.value }); setPreview(null); }} class={inputClass} />
+                            </div>
+                            <div class="flex gap-2">
+                                <button onClick={handlePreview} disabled={working() || !bulk().percent}
+                                    class="px-4 py-2.5 bg-slate-800 text-slate-200 rounded-xl hover:bg-slate-700 flex items-center gap-2 disabled:opacity-50">
+                                    <Eye class="w-4 h-4" /> Preview
+                                </button>
+                                <Show when={preview() && preview()!.changes.length > 0}>
+                                    <button onClick={handleApply} disabled={working()}
+                                        class="px-4 py-2.5 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-500 flex items-center gap-2 disabled:opacity-50">
+                                        <Check class="w-4 h-4" /> Apply to {preview()!.totals.products} products from {preview()!.effectiveFrom}
+                                    </button>
+                                </Show>
+                            </div>
+
+                            <Show when={preview()}>
+                                <div class="overflow-x-auto max-h-[28rem] overflow-y-auto">
+                                    <table class="w-full text-left text-sm">
+                                        <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold sticky top-0">
+                                            <tr>
+                                                <th class="px-4 py-3">Product</th>
+                                                <th class="px-4 py-3 text-right">Current</th>
+                                                <th class="px-4 py-3 text-right">New</th>
+                                                <th class="px-4 py-3 text-right">Change</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody class="divide-y divide-slate-800">
+                                            <For each={preview()!.changes} fallback={<tr><td colspan="4" class="px-4 py-8 text-center text-slate-500">No products match</td></tr>}>
+                                                {(change) => (
+                                                    <tr>
+                                                        <td class="px-4 py-3">
+                                                            <div class="text-slate-200">{change.productName}</div>
+                                                            <div class="text-xs text-slate-500">{change.sku}{change.source === 'base' ? ' · from base price' : ''}</div>
+                                                        </td>
+                                                        <td class="px-4 py-3 text-right text-slate-400">{formatListPrice(change.currentPrice)}</td>
+                                                        <td class="px-4 py-3 text-right text-white font-medium">{formatListPrice(change.newPrice)}</td>
+                                                        <td class={`px-4 py-3 text-right ${change.newPrice >= change.currentPrice ? 'text-amber-400' : 'text-emerald-400'}`}>
+                                                            {change.newPrice >= change.currentPrice ? '+' : ''}{formatListPrice(change.newPrice - change.currentPrice)}
+                                                        </td>
+                                                    </tr>
+                                                )}
+                                            </For>
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </Show>
+                        </Show>
+                    </Show>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default PriceLists;
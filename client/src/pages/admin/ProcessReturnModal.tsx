@@ -1,6 +1,7 @@
-import { type Component, createSignal } from 'solid-js';
+import { type Component, createSignal, createResource, Show, For } from 'solid-js';
 import { X, Loader2, RotateCcw } from 'lucide-solid';
 import { api } from '../../lib/api';
+import { toast } from '../../components/Toast';
 
 interface ProcessReturnModalProps {
     returnItem: {
@@ -20,6 +21,15 @@ const ProcessReturnModal: Component<ProcessReturnModalProps> = (props) => {
     const [condition, setCondition] = createSignal('good');
     const [restock, setRestock] = createSignal(true);
     const [refundAmount, setRefundAmount] = createSignal('');
+    const [settlement, setSettlement] = createSignal<'credit' | 'cash_refund'>('credit');
+    const [paymentMethodId, setPaymentMethodId] = createSignal('');
+
+    const [paymentMethods] = createResource(async () => {
+        const methods = await api<{ id: string; name: string }[]>('/payments/methods');
+        return methods || [];
+    });
+
+    const hasRefund = () => parseFloat(refundAmount()) > 0;
 
     const handleSubmit = async (e: Event) => {
         e.preventDefault();
@@ -27,12 +37,20 @@ const ProcessReturnModal: Component<ProcessReturnModalProps> = (props) => {
         setError(null);
 
         try {
-            await api.patch(`/returns/${props.returnItem.id}/process`, {
+            const result = await api.patch<{ creditNote: { status: string; creditNoteNumber: string | null } | null }>(`/returns/${props.returnItem.id}/process`, {
                 condition: condition(),
                 restock: restock(),
                 refundAmount: refundAmount() ? parseFloat(refundAmount()) : undefined,
+                settlement: hasRefund() ? settlement() : undefined,
+                paymentMethodId: hasRefund() && settlement() === 'cash_refund' ? paymentMethodId() : undefined,
             });
 
+            const note = result?.creditNote;
+            if (note?.status === 'pending_approval') {
+                toast.info('Credit note is waiting for supervisor approval');
+            } else if (note?.creditNoteNumber) {
+                toast.success(`Credit note ${note.creditNoteNumber} issued`);
+            }
             props.onSuccess();
         } catch (err: any) {
             setError(err.message || 'Failed to process return');
@@ -110,6 +128,38 @@ const ProcessReturnModal: Component<ProcessReturnModalProps> = (props) => {
                         <p class="text-xs text-slate-500">Leave empty if no refund is issued.</p>
                     </div>
 
+                    <Show when={hasRefund()}>
+                        <div class="space-y-1.5">
+                            <label class="text-sm font-medium text-slate-300">Settle Refund As</label>
+                            <select
+                                value={settlement()}
+                                onChange={(e) => setSettlement(e.currentTarget.value as 'credit' | 'cash_refund')}
+                                class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                            >
+                                <option value="credit">Credit to customer account</option>
+                                <option value="cash_refund">Cash refund</option>
+                            </select>
+                            <p class="text-xs text-slate-500">A credit note is issued for the refund.</p>
+                        </div>
+
+                        <Show when={settlement() === 'cash_refund'}>
+                            <div class="space-y-1.5">
+                                <label class="text-sm font-medium text-slate-300">Paid Back Via</label>
+                                <select
+                                    value={paymentMethodId()}
+                                    onChange={(e) => setPaymentMethodId(e.currentTarget.value)}
+                                    required
+                                    class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                >
+                                    <option value="">Select payment method</option>
+                                    <For each={paymentMethods() || []}>
+                                        {(method) => <option value={method.id}>{method.name}</option>}
+                                    </For>
+                                </select>
+                            </div>
+                        </Show>
+                    </Show>
+
                     <div class="pt-4 flex justify-end gap-3 border-t border-slate-800">
                         <button
                             type="button"
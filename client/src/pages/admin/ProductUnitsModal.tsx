@@ -0,0 +1,155 @@
+import { type Component, createSignal, onMount, Show, For } from 'solid-js';
+import { Portal } from 'solid-js/web';
+import { X, Plus, Loader2, Boxes, Trash2 } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { toast } from '../../components/Toast';
+
+interface ProductUnitsModalProps {
+    product: { id: string; name: string; unit: string };
+    onClose: () => void;
+    onChange: () => void;
+}
+
+interface ProductUnit {
+    unit: string;
+    factor: number;
+    barcode: string | null;
+    isActive: boolean;
+}
+
+const UNITS = ['piece', 'kg', 'gram', 'liter', 'box', 'case', 'pack'];
+
+const ProductUnitsModal: Component<ProductUnitsModalProps> = (props) => {
+    const [saving, setSaving] = createSignal(false);
+    const [rows, setRows] = createSignal<{ unit: string; factor: string; barcode: string; isActive: boolean }[]>([]);
+
+    onMount(async () => {
+        try {
+            const units = await api.get<ProductUnit[]>(`/products/${props.product.id}/units`);
+            setRows(units.map(u => ({ unit: u.unit, factor: String(u.factor), barcode: u.barcode || '', isActive: u.isActive })));
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to load pack sizes');
+        }
+    });
+
+    const baseUnit = () => props.product.unit || 'piece';
+    const freeUnits = () => UNITS.filter(unit => unit !== baseUnit() && !rows().some(row => row.unit === unit));
+
+    const updateRow = (index: number, patch: Partial<{ unit: string; factor: string; barcode: string; isActive: boolean }>) => {
+        setRows(rows().map((row, i) => i === index ? { ...row, ...patch } : row));
+    };
+
+    const addRow = () => {
+        const unit = freeUnits()[0];
+        if (!unit) return;
+        setRows([...rows(), { unit, factor: '', barcode: '', isActive: true }]);
+    };
+
+    const handleSave = async (e: Event) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            await api.put(`/products/${props.product.id}/units`, {
+                units: rows().map(row => ({
+                    unit: row.unit,
+                    factor: parseInt(row.factor),
+                    barcode: row.barcode.trim() || null,
+                    isActive: row.isActive,
+                })),
+            });
+            toast.success('Pack sizes saved');
+            props.onChange();
+            props.onClose();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to save pack sizes');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full px-3 py-2 bg-slate-950 border border-slate-800 rounded-xl text-white text-sm focus:ring-2 focus:ring-blue-500/50 outline-none';
+
+    return (
+        <Portal>
+            <div class="fixed inset-0 bg-slate-950/95 backdrop-blur-sm z-[100] overflow-y-auto flex items-end sm:items-center justify-center p-4 pb-safe">
+                <div class="w-full max-w-2xl bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+                    <div class="flex items-center justify-between mb-6">
+                        <div>
+                            <h2 class="text-xl font-bold text-white">Pack Sizes</h2>
+                            <p class="text-slate-400 text-sm mt-1">
+                                {props.product.name} is stocked by the {baseUnit()}; packs can be sold, bought and scanned
+                            </p>
+                        </div>
+                        <button
+                            onClick={props.onClose}
+                            class="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+                        >
+                            <X class="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSave} class="space-y-4">
+                        <Show when={rows().length > 0} fallback={
+                            <div class="p-6 flex flex-col items-center text-slate-500">
+                                <Boxes class="w-10 h-10 mb-2 opacity-20" />
+                                <p class="text-sm">Only sold by the {baseUnit()}</p>
+                            </div>
+                        }>
+                            <div class="space-y-2">
+                                <div class="grid grid-cols-12 gap-2 text-xs font-medium text-slate-400 px-1">
+                                    <span class="col-span-3">Unit</span>
+                                    <span class="col-span-3">{baseUnit()}s per unit</span>
+                                    <span class="col-span-4">Barcode</span>
+                                    <span class="col-span-2"></span>
+                                </div>
+                                <For each={rows()}>
+                                    {(row, index) => (
+                                        <div class="grid grid-cols-12 gap-2 items-center">
+                                            <select value={row.unit} onChange={(e) => updateRow(index(), { unit: e.currentTarget.value })} class={`${inputClass} col-span-3`}>
+                                                <For each={[row.unit, ...freeUnits()]}>{(unit) => <option value={unit}>{unit}</option>}</For>
+                                            </select>
+                                            <input type="number" min="2" step="1" required value={row.factor} placeholder="e.g. 12"
+                                                onInput={(e) => updateRow(index(), { factor: e.currentTarget.value })}
+                                                class={`${inputClass} col-span-3`} />
+                                            <input type="text" maxLength={100} value={row.barcode} placeholder="Optional"
+                                                onInput={(e) => updateRow(index(), { barcode: e.currentTarget.value })}
+                                                class={`${inputClass} col-span-4`} />
+                                            <div class="col-span-2 flex items-center justify-end gap-1">
+                                                <button type="button" onClick={() => updateRow(index(), { isActive: !row.isActive })}
+                                                    class={`px-2 py-1 rounded-full text-xs font-medium border ${row.isActive
+                                                        ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                                                        : 'bg-red-500/10 text-red-400 border-red-500/20'}`}>
+                                                    {row.isActive ? 'On' : 'Off'}
+                                                </button>
+                                                <button type="button" onClick={() => setRows(rows().filter((_, i) => i !== index()))}
+                                                    class="p-1.5 text-slate-500 hover:text-red-400">
+                                                    <Trash2 class="w-4 h-4" />
+                                                </button>
+                                            </div>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+
+                        <div class="flex items-center justify-between">
+                            <button type="button" onClick={addRow} disabled={freeUnits().length === 0}
+                                class="px-4 py-2 bg-slate-800 text-slate-200 rounded-xl hover:bg-slate-700 text-sm flex items-center gap-2 disabled:opacity-50">
+                                <Plus class="w-4 h-4" /> Add Pack
+                            </button>
+                            <button type="submit" disabled={saving()}
+                                class="px-6 py-2.5 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-500 transition-all flex items-center gap-2 disabled:opacity-50">
+                                <Show when={saving()}>
+                                    <Loader2 class="w-4 h-4 animate-spin" />
+                                </Show>
+                                Save
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </Portal>
+    );
+};
+
+export default ProductUnitsModal;
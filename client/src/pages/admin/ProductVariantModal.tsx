@@ -0,0 +1,151 @@
+import { type Component, createSignal, createResource, Show, For } from 'solid-js';
+import { Portal } from 'solid-js/web';
+import { X, Loader2, Layers } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { toast } from '../../components/Toast';
+
+interface ProductVariantModalProps {
+    product: { id: string; name: string; familyId?: string | null; variantAttributes?: Record<string, string> | null };
+    onClose: () => void;
+    onChange: () => void;
+}
+
+interface ProductFamily {
+    id: string;
+    name: string;
+    attributes: string[];
+    variantCount: number;
+}
+
+const NEW_FAMILY = 'new';
+
+const ProductVariantModal: Component<ProductVariantModalProps> = (props) => {
+    const [saving, setSaving] = createSignal(false);
+    const [familyId, setFamilyId] = createSignal(props.product.familyId || '');
+    const [newName, setNewName] = createSignal('');
+    const [newAttributes, setNewAttributes] = createSignal('');
+    const [values, setValues] = createSignal<Record<string, string>>({ ...(props.product.variantAttributes || {}) });
+
+    const [families] = createResource(async () => {
+        return await api.get<ProductFamily[]>('/products/families');
+    });
+
+    // Attribute names of the picked family, or the ones typed for a new family
+    const attributes = (): string[] => {
+        if (familyId() === NEW_FAMILY) {
+            return newAttributes().split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+        }
+        return families()?.find(f => f.id === familyId())?.attributes || [];
+    };
+
+    const handleSave = async (e: Event) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            let targetId = familyId();
+            if (targetId === NEW_FAMILY) {
+                const family = await api.post<ProductFamily>('/products/families', {
+                    name: newName().trim(),
+                    attributes: attributes(),
+                });
+                targetId = family.id;
+            }
+
+            await api.put(`/products/${props.product.id}/variant`, {
+                variant: targetId
+                    ? { familyId: targetId, attributes: Object.fromEntries(attributes().map(name => [name, values()[name] || ''])) }
+                    : null,
+            });
+            toast.success(targetId ? 'Variant saved' : 'Removed from family');
+            props.onChange();
+            props.onClose();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to save variant');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const inputClass = 'w-full px-3 py-2 bg-slate-950 border border-slate-800 rounded-xl text-white text-sm focus:ring-2 focus:ring-blue-500/50 outline-none';
+
+    return (
+        <Portal>
+            <div class="fixed inset-0 bg-slate-950/95 backdrop-blur-sm z-[100] overflow-y-auto flex items-end sm:items-center justify-center p-4 pb-safe">
+                <div class="w-full max-w-lg bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+                    <div class="flex items-center justify-between mb-6">
+                        <div>
+                            <h2 class="text-xl font-bold text-white flex items-center gap-2">
+                                <Layers class="w-5 h-5 text-blue-400" /> Variant
+                            </h2>
+                            <p class="text-slate-400 text-sm mt-1">
+                                Group {props.product.name} with its other sizes or flavours under one parent product
+                            </p>
+                        </div>
+                        <button
+                            onClick={props.onClose}
+                            class="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+                        >
+                            <X class="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleSave} class="space-y-4">
+                        <div>
+                            <label class="block text-sm font-medium text-slate-400 mb-1">Parent Product</label>
+                            <select value={familyId()} onChange={(e) => setFamilyId(e.currentTarget.value)} class={inputClass}>
+                                <option value="">Not a variant</option>
+                                <For each={families() || []}>
+                                    {(family) => <option value={family.id}>{family.name} ({family.attributes.join(', ')})</option>}
+                                </For>
+                                <option value={NEW_FAMILY}>+ New parent product</option>
+                            </select>
+                        </div>
+
+                        <Show when={familyId() === NEW_FAMILY}>
+                            <div class="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label class="block text-sm font-medium text-slate-400 mb-1">Name</label>
+                                    <input type="text" required minLength={2} value={newName()} placeholder="e.g. Coca Cola"
+                                        onInput={(e) => setNewName(e.currentTarget.value)} class={inputClass} />
+                                </div>
+                                <div>
+                                    <label class="block text-sm font-medium text-slate-400 mb-1">Attributes</label>
+                                    <input type="text" required value={newAttributes()} placeholder="size, flavour"
+                                        onInput={(e) => setNewAttributes(e.currentTarget.value)} class={inputClass} />
+                                </div>
+                            </div>
+                        </Show>
+
+                        <Show when={familyId() && attributes().length > 0}>
+                            <div class="grid grid-cols-2 gap-3">
+                                <For each={attributes()}>
+                                    {(name) => (
+                                        <div>
+                                            <label class="block text-sm font-medium text-slate-400 mb-1 capitalize">{name}</label>
+                                            <input type="text" required maxLength={100} value={values()[name] || ''}
+                                                placeholder={name === 'size' ? 'e.g. 1.5L' : ''}
+                                                onInput={(e) => setValues({ ...values(), [name]: e.currentTarget.value })}
+                                                class={inputClass} />
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+
+                        <div class="flex justify-end">
+                            <button type="submit" disabled={saving()}
+                                class="px-6 py-2.5 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-500 transition-all flex items-center gap-2 disabled:opacity-50">
+                                <Show when={saving()}>
+                                    <Loader2 class="w-4 h-4 animate-spin" />
+                                </Show>
+                                Save
+                            </button>
+                        </div>
+                    </form>
+                </div>
+            </div>
+        </Portal>
+    );
+};
+
+export default ProductVariantModal;
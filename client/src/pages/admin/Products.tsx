@@ -12,7 +12,9 @@ import {
     Trash2,
     MoreVertical,
     X,
-    Download
+    Download,
+    Boxes,
+    Layers
 } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { formatCurrency } from '../../stores/settings';
@@ -20,6 +22,8 @@ import { getImageUrl } from '../../utils/formatters';
 import ImportMasterModal from '../../components/products/ImportMasterModal';
 import ImageUploader from '../../components/ImageUploader';
 import ImageLightbox from '../../components/ImageLightbox';
+import ProductUnitsModal from './ProductUnitsModal';
+import ProductVariantModal from './ProductVariantModal';
 
 interface Product {
     id: string;
@@ -39,6 +43,11 @@ interface Product {
     categoryId: string;
     brandId: string;
     imageUrl?: string | null;
+    weightKg?: string | null;
+    volumeM3?: string | null;
+    familyId?: string | null;
+    variantAttributes?: Record<string, string> | null;
+    family?: { id: string; name: string } | null;
 }
 
 const Products: Component = () => {
@@ -51,6 +60,8 @@ const Products: Component = () => {
     const [showImportModal, setShowImportModal] = createSignal(false);
     const [submitting, setSubmitting] = createSignal(false);
     const [editingId, setEditingId] = createSignal<string | null>(null);
+    const [unitsProduct, setUnitsProduct] = createSignal<Product | null>(null);
+    const [variantProduct, setVariantProduct] = createSignal<Product | null>(null);
     const [error, setError] = createSignal<string | null>(null);
 
     // Multi-image support
@@ -79,7 +90,9 @@ const Products: Component = () => {
         brandId: '',
         unit: 'piece',
         price: '',
-        costPrice: ''
+        costPrice: '',
+        weightKg: '',
+        volumeM3: ''
     });
 
     // Debounced search
@@ -202,7 +215,9 @@ const Products: Component = () => {
             brandId: product.brandId || '',
             unit: product.unit || 'piece',
             price: product.price,
-            costPrice: product.costPrice || ''
+            costPrice: product.costPrice || '',
+            weightKg: product.weightKg || '',
+            volumeM3: product.volumeM3 || ''
         });
         setShowCreateModal(true);
     };
@@ -246,6 +261,8 @@ const Products: Component = () => {
                     unit: formData.unit,
                     price: parseFloat(formData.price),
                     costPrice: formData.costPrice ? parseFloat(formData.costPrice) : undefined,
+                    weightKg: formData.weightKg ? parseFloat(formData.weightKg) : (editingId() ? null : undefined),
+                    volumeM3: formData.volumeM3 ? parseFloat(formData.volumeM3) : (editingId() ? null : undefined),
                     ...(imageUrl ? { imageUrl } : {})
                 })
             });
@@ -288,7 +305,9 @@ const Products: Component = () => {
                 brandId: '',
                 unit: 'piece',
                 price: '',
-                costPrice: ''
+                costPrice: '',
+                weightKg: '',
+                volumeM3: ''
             });
             refetch();
         } catch (err: any) {
@@ -327,7 +346,9 @@ const Products: Component = () => {
                                 brandId: '',
                                 unit: 'piece',
                                 price: '',
-                                costPrice: ''
+                                costPrice: '',
+                                weightKg: '',
+                                volumeM3: ''
                             });
                             setShowCreateModal(true);
                         }}
@@ -414,6 +435,11 @@ const Products: Component = () => {
                                                     <div>
                                                         <div class="text-white font-medium">{product.name}</div>
                                                         <div class="text-slate-500 text-xs">{product.categoryName || 'Uncategorized'}</div>
+                                                        <Show when={product.family}>
+                                                            <div class="text-blue-400 text-xs">
+                                                                {product.family?.name}: {Object.values(product.variantAttributes || {}).join(' / ')}
+                                                            </div>
+                                                        </Show>
                                                     </div>
                                                 </div>
                                             </td>
@@ -439,6 +465,20 @@ const Products: Component = () => {
                                                     >
                                                         <Edit2 class="w-4 h-4" />
                                                     </button>
+                                                    <button
+                                                        onClick={() => setUnitsProduct(product)}
+                                                        title="Pack sizes"
+                                                        class="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                                                    >
+                                                        <Boxes class="w-4 h-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => setVariantProduct(product)}
+                                                        title="Variant"
+                                                        class="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                                                    >
+                                                        <Layers class="w-4 h-4" />
+                                                    </button>
                                                     <button
                                                         onClick={() => handleDelete(product.id)}
                                                         class="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
@@ -696,6 +736,34 @@ const Products: Component = () => {
                                 </div>
                             </div>
 
+                            <div class="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                <div class="space-y-1.5">
+                                    <label class="text-sm font-medium text-slate-300">Weight per unit (kg)</label>
+                                    <input
+                                        type="number"
+                                        step="0.001"
+                                        min="0"
+                                        value={formData.weightKg}
+                                        onInput={(e) => setFormData('weightKg', e.currentTarget.value)}
+                                        class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                        placeholder="Used for vehicle loading"
+                                    />
+                                </div>
+
+                                <div class="space-y-1.5">
+                                    <label class="text-sm font-medium text-slate-300">Volume per unit (m³)</label>
+                                    <input
+                                        type="number"
+                                        step="0.000001"
+                                        min="0"
+                                        value={formData.volumeM3}
+                                        onInput={(e) => setFormData('volumeM3', e.currentTarget.value)}
+                                        class="w-full bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                                        placeholder="Used for vehicle loading"
+                                    />
+                                </div>
+                            </div>
+
                             <div class="pt-4 flex justify-end gap-3 border-t border-slate-800 mt-2">
                                 <button
                                     type="button"
@@ -731,6 +799,26 @@ const Products: Component = () => {
                 brands={brands() || []}
             />
 
+            <Show when={unitsProduct()}>
+                {(product) => (
+                    <ProductUnitsModal
+                        product={product()}
+                        onClose={() => setUnitsProduct(null)}
+                        onChange={refetch}
+                    />
+                )}
+            </Show>
+
+            <Show when={variantProduct()}>
+                {(product) => (
+                    <ProductVariantModal
+                        product={product()}
+                        onClose={() => setVariantProduct(null)}
+                        onChange={refetch}
+                    />
+                )}
+            </Show>
+
             {/* Image Lightbox */}
             <ImageLightbox
                 images={lightboxImages()}
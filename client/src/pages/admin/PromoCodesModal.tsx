@@ -0,0 +1,233 @@
+import { type Component, createSignal, createResource, Show, For } from 'solid-js';
+import { Portal } from 'solid-js/web';
+import { X, Plus, Loader2, Ticket, Copy, Trash2 } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { toast } from '../../components/Toast';
+
+interface PromoCodesModalProps {
+    discount: { id: string; name: string };
+    onClose: () => void;
+    onChange: () => void;
+}
+
+interface PromoCode {
+    id: string;
+    code: string;
+    batchId: string | null;
+    maxRedemptions: number | null;
+    maxPerCustomer: number | null;
+    firstOrderOnly: boolean;
+    isActive: boolean;
+    redemptions: number;
+}
+
+const PromoCodesModal: Component<PromoCodesModalProps> = (props) => {
+    const [mode, setMode] = createSignal<'single' | 'bulk'>('single');
+    const [saving, setSaving] = createSignal(false);
+    const [formData, setFormData] = createSignal({
+        code: '',
+        count: '50',
+        prefix: '',
+        maxRedemptions: '',
+        maxPerCustomer: '1',
+        firstOrderOnly: false,
+    });
+
+    const [codes, { refetch }] = createResource(async () => {
+        return await api.get<PromoCode[]>(`/discounts/${props.discount.id}/codes?limit=200`);
+    });
+
+    const optionalInt = (value: string) => value.trim() ? parseInt(value) : null;
+
+    const handleCreate = async (e: Event) => {
+        e.preventDefault();
+        setSaving(true);
+        try {
+            const data = formData();
+            const limits = {
+                maxRedemptions: optionalInt(data.maxRedemptions),
+                maxPerCustomer: optionalInt(data.maxPerCustomer),
+                firstOrderOnly: data.firstOrderOnly,
+            };
+            const body = mode() === 'single'
+                ? { code: data.code.trim().toUpperCase(), ...limits }
+                : { count: parseInt(data.count), prefix: data.prefix.trim() || undefined, ...limits };
+
+            const created = await api.post<PromoCode[]>(`/discounts/${props.discount.id}/codes`, body);
+            toast.success(`${created.length} code(s) created`);
+            setFormData({ ...formData(), code: '' });
+            refetch();
+            props.onChange();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to create codes');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const toggleActive = async (code: PromoCode) => {
+        try {
+            await api.patch(`/discounts/codes/${code.id}`, { isActive: !code.isActive });
+            refetch();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to update code');
+        }
+    };
+
+    const deleteCode = async (code: PromoCode) => {
+        try {
+            await api.delete(`/discounts/codes/${code.id}`);
+            refetch();
+            props.onChange();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to delete code');
+        }
+    };
+
+    const copyCodes = async () => {
+        const list = (codes() || []).filter(c => c.isActive).map(c => c.code).join('\n');
+        await navigator.clipboard.writeText(list);
+        toast.success('Active codes copied');
+    };
+
+    const limitLabel = (code: PromoCode) => [
+        code.maxRedemptions != null ? `${code.redemptions}/${code.maxRedemptions} used` : `${code.redemptions} used`,
+        code.maxPerCustomer != null ? `${code.maxPerCustomer} per customer` : null,
+        code.firstOrderOnly ? 'first order' : null,
+    ].filter(Boolean).join(' · ');
+
+    const inputClass = 'w-full px-4 py-2.5 bg-slate-950 border border-slate-800 rounded-xl text-white focus:ring-2 focus:ring-blue-500/50 outline-none';
+
+    return (
+        <Portal>
+            <div class="fixed inset-0 bg-slate-950/95 backdrop-blur-sm z-[100] overflow-y-auto flex items-end sm:items-center justify-center p-4 pb-safe">
+                <div class="w-full max-w-3xl bg-slate-900 border border-slate-800 rounded-2xl p-6 shadow-2xl animate-in fade-in zoom-in-95 duration-200">
+                    <div class="flex items-center justify-between mb-6">
+                        <div>
+                            <h2 class="text-xl font-bold text-white">Promo Codes</h2>
+                            <p class="text-slate-400 text-sm mt-1">{props.discount.name} applies only to orders that enter one of its codes</p>
+                        </div>
+                        <button
+                            onClick={props.onClose}
+                            class="p-2 rounded-full hover:bg-slate-800 text-slate-400 hover:text-white transition-colors"
+                        >
+                            <X class="w-5 h-5" />
+                        </button>
+                    </div>
+
+                    <form onSubmit={handleCreate} class="space-y-4 mb-6">
+                        <div class="flex gap-2">
+                            <button type="button" onClick={() => setMode('single')}
+                                class={`px-4 py-2 rounded-xl text-sm font-medium border ${mode() === 'single' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-400'}`}>
+                                Single code
+                            </button>
+                            <button type="button" onClick={() => setMode('bulk')}
+                                class={`px-4 py-2 rounded-xl text-sm font-medium border ${mode() === 'bulk' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-950 border-slate-800 text-slate-400'}`}>
+                                Generate batch
+                            </button>
+                        </div>
+
+                        <div class="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                            <Show when={mode() === 'single'} fallback={
+                                <>
+                                    <div>
+                                        <label class="text-xs font-medium text-slate-400 ml-1">How many</label>
+                                        <input type="number" min="1" max="1000" required value={formData().count}
+                                            onInput={(e) => setFormData({ ...formData(), count: e.currentTarget.value })}
+                                            class={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label class="text-xs font-medium text-slate-400 ml-1">Prefix (optional)</label>
+                                        <input type="text" maxLength={20} value={formData().prefix}
+                                            onInput={(e) => setFormData({ ...formData(), prefix: e.currentTarget.value.toUpperCase() })}
+                                            placeholder="e.g. SPRING" class={inputClass} />
+                                    </div>
+                                </>
+                            }>
+                                <div class="sm:col-span-2">
+                                    <label class="text-xs font-medium text-slate-400 ml-1">Code</label>
+                                    <input type="text" required minLength={3} maxLength={50} value={formData().code}
+                                        onInput={(e) => setFormData({ ...formData(), code: e.currentTarget.value.toUpperCase() })}
+                                        placeholder="e.g. WELCOME10" class={inputClass} />
+                                </div>
+                            </Show>
+                            <div>
+                                <label class="text-xs font-medium text-slate-400 ml-1">Total uses per code</label>
+                                <input type="number" min="1" value={formData().maxRedemptions}
+                                    onInput={(e) => setFormData({ ...formData(), maxRedemptions: e.currentTarget.value })}
+                                    placeholder="Unlimited" class={inputClass} />
+                            </div>
+                            <div>
+                                <label class="text-xs font-medium text-slate-400 ml-1">Uses per customer</label>
+                                <input type="number" min="1" value={formData().maxPerCustomer}
+                                    onInput={(e) => setFormData({ ...formData(), maxPerCustomer: e.currentTarget.value })}
+                                    placeholder="Unlimited" class={inputClass} />
+                            </div>
+                            <label class="flex items-center gap-2 text-sm text-slate-300 sm:mt-6">
+                                <input type="checkbox" checked={formData().firstOrderOnly}
+                                    onChange={(e) => setFormData({ ...formData(), firstOrderOnly: e.currentTarget.checked })}
+                                    class="rounded border-slate-700 bg-slate-950" />
+                                First order only
+                            </label>
+                        </div>
+
+                        <button type="submit" disabled={saving()}
+                            class="px-6 py-2.5 bg-blue-600 text-white font-semibold rounded-xl hover:bg-blue-500 transition-all flex items-center gap-2 disabled:opacity-50">
+                            <Show when={saving()} fallback={<Plus class="w-4 h-4" />}>
+                                <Loader2 class="w-4 h-4 animate-spin" />
+                            </Show>
+                            {mode() === 'single' ? 'Add Code' : 'Generate Codes'}
+                        </button>
+                    </form>
+
+                    <div class="flex items-center justify-between mb-2">
+                        <h3 class="text-sm font-semibold text-slate-300 flex items-center gap-2">
+                            <Ticket class="w-4 h-4 text-blue-400" /> Codes
+                        </h3>
+                        <Show when={(codes() || []).length > 0}>
+                            <button onClick={copyCodes} class="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+                                <Copy class="w-3.5 h-3.5" /> Copy active
+                            </button>
+                        </Show>
+                    </div>
+
+                    <Show when={!codes.loading} fallback={
+                        <div class="p-8 flex justify-center text-slate-500"><Loader2 class="w-6 h-6 animate-spin" /></div>
+                    }>
+                        <Show when={(codes() || []).length > 0} fallback={
+                            <p class="p-6 text-center text-sm text-slate-500">No codes yet. Without codes this discount applies automatically.</p>
+                        }>
+                            <div class="max-h-80 overflow-y-auto divide-y divide-slate-800 border border-slate-800 rounded-xl">
+                                <For each={codes()}>
+                                    {(code) => (
+                                        <div class="flex items-center justify-between px-4 py-3">
+                                            <div>
+                                                <div class={`font-mono font-semibold ${code.isActive ? 'text-slate-200' : 'text-slate-500 line-through'}`}>{code.code}</div>
+                                                <div class="text-xs text-slate-500">{limitLabel(code)}</div>
+                                            </div>
+                                            <div class="flex items-center gap-2">
+                                                <button onClick={() => toggleActive(code)}
+                                                    class={`px-2.5 py-1 rounded-full text-xs font-medium border ${code.isActive
+                                                        ? 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20'
+                                                        : 'bg-red-500/10 text-red-400 border-red-500/20'}`}>
+                                                    {code.isActive ? 'Active' : 'Inactive'}
+                                                </button>
+                                                <Show when={code.redemptions === 0}>
+                                                    <button onClick={() => deleteCode(code)} class="p-1.5 text-slate-500 hover:text-red-400">
+                                                        <Trash2 class="w-4 h-4" />
+                                                    </button>
+                                                </Show>
+                                            </div>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </Show>
+                    </Show>
+                </div>
+            </div>
+        </Portal>
+    );
+};
+
+export default PromoCodesModal;
@@ -0,0 +1,410 @@
+import { type Component, createResource, createSignal, Show, For } from 'solid-js';
+import { Loader2, RefreshCw, Download, ChevronDown, ChevronRight, CalendarPlus } from 'lucide-solid';
+import { api, API_BASE_URL } from '../../lib/api';
+import { formatCurrency } from '../../stores/settings';
+import { toast } from '../../components/Toast';
+
+type Bucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+
+interface AgingRow extends Record<Bucket, number> {
+    customerId: string;
+    customerName: string;
+    customerCode: string | null;
+    territoryName: string | null;
+    salesRepName: string | null;
+    tierName: string | null;
+    paymentTermsDays: number;
+    openItems: number;
+    maxDaysOverdue: number;
+    total: number;
+}
+
+interface AgingResponse {
+    data: AgingRow[];
+    summary: Record<Bucket, number> & { total: number; customers: number };
+    meta: { asOf: string };
+}
+
+interface AgingItem {
+    orderId: string;
+    orderNumber: string;
+    invoiceNumber: string | null;
+    dueDate: string;
+    daysOverdue: number;
+    totalAmount: number;
+    paidAmount: number;
+    amountDue: number;
+}
+
+interface WorklistRow extends AgingRow {
+    overdueAmount: number;
+    nextVisitDate: string | null;
+}
+
+interface AssignResult {
+    created: { customerId: string }[];
+    skipped: { customerId: string; customerName: string; reason: string }[];
+}
+
+interface Option {
+    id: string;
+    name: string;
+}
+
+const BUCKETS: { key: Bucket; label: string }[] = [
+    { key: 'current', label: 'Current' },
+    { key: 'days1to30', label: '1-30' },
+    { key: 'days31to60', label: '31-60' },
+    { key: 'days61to90', label: '61-90' },
+    { key: 'over90', label: '90+' },
+];
+
+const selectClass = 'bg-slate-950 border border-slate-800 rounded-xl px-3 py-2.5 text-white focus:ring-2 focus:ring-blue-500/50 outline-none';
+
+const Receivables: Component = () => {
+    const today = new Date().toISOString().slice(0, 10);
+    const [tab, setTab] = createSignal<'aging' | 'collections'>('aging');
+    const [territoryId, setTerritoryId] = createSignal('');
+    const [salesRepId, setSalesRepId] = createSignal('');
+    const [tierId, setTierId] = createSignal('');
+    const [asOf, setAsOf] = createSignal(today);
+    const [minDaysOverdue, setMinDaysOverdue] = createSignal('1');
+    const [plannedDate, setPlannedDate] = createSignal(today);
+    const [selected, setSelected] = createSignal<Set<string>>(new Set());
+    const [expanded, setExpanded] = createSignal<string | null>(null);
+    const [assigning, setAssigning] = createSignal(false);
+    const [exporting, setExporting] = createSignal(false);
+
+    const filters = () => {
+        const params: Record<string, string> = {};
+        if (territoryId()) params.territoryId = territoryId();
+        if (salesRepId()) params.salesRepId = salesRepId();
+        if (tierId()) params.tierId = tierId();
+        return params;
+    };
+
+    const [territories] = createResource(async () => {
+        const result = await api<any>('/territories', { params: { limit: '100' } });
+        return (result?.data || result || []) as Option[];
+    });
+    const [salesReps] = createResource(async () => {
+        const result = await api<any>('/users', { params: { role: 'sales_rep', isActive: 'true', limit: '100' } });
+        return (result?.data || result || []) as Option[];
+    });
+    const [tiers] = createResource(() => api.get<Option[]>('/customers/tiers'));
+
+    const [aging, { refetch: refetchAging }] = createResource(
+        () => tab() === 'aging' && { ...filters(), asOf: asOf() },
+        (params) => api.response<AgingResponse>('/reports/ar-aging', { params })
+    );
+    const [items] = createResource(
+        () => expanded() ? { customerId: expanded()!, asOf: asOf() } : false,
+        ({ customerId, asOf }) => api.get<AgingItem[]>(`/reports/ar-aging/customers/${customerId}`, { params: { asOf } })
+    );
+    const [worklist, { refetch: refetchWorklist }] = createResource(
+        () => tab() === 'collections' && { ...filters(), minDaysOverdue: minDaysOverdue() },
+        (params) => api.get<WorklistRow[]>('/reports/collection-worklist', { params })
+    );
+
+    const refresh = () => (tab() === 'aging' ? refetchAging() : refetchWorklist());
+
+    const toggleSelected = (customerId: string) => {
+        const next = new Set(selected());
+        if (next.has(customerId)) next.delete(customerId);
+        else next.add(customerId);
+        setSelected(next);
+    };
+
+    // The export endpoint needs the auth header, so fetch it and save the blob
+    const exportXlsx = async () => {
+        setExporting(true);
+        try {
+            const token = localStorage.getItem('token');
+            const query = new URLSearchParams({ ...filters(), asOf: asOf() });
+            const response = await fetch(`${API_BASE_URL}/reports/ar-aging/export?${query}`, {
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            if (!response.ok) throw new Error('Download failed');
+
+            const url = window.URL.createObjectURL(await response.blob());
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `ar-aging-${asOf()}.xlsx`;
+            link.click();
+            setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+        } catch {
+            toast.error('Failed to export the aging report');
+        } finally {
+            setExporting(false);
+        }
+    };
+
+    const assignVisits = async () => {
+        setAssigning(true);
+        try {
+            const result = await api.post<AssignResult>('/reports/collection-worklist/assign', {
+                ...filters(),
+                plannedDate: plannedDate(),
+                minDaysOverdue: Math.max(1, parseInt(minDaysOverdue()) || 1),
+                customerIds: selected().size > 0 ? [...selected()] : undefined,
+            });
+            toast.success(`Planned ${result.created.length} collection visit(s)`);
+            if (result.skipped.length > 0) {
+                toast.info(`${result.skipped.length} skipped: ${result.skipped.map(s => `${s.customerName} (${s.reason})`).join(', ')}`);
+            }
+            setSelected(new Set<string>());
+            refetchWorklist();
+        } catch (error: any) {
+            toast.error(error.message || 'Failed to plan collection visits');
+        } finally {
+            setAssigning(false);
+        }
+    };
+
+    const loading = (
+        <div class="p-12 flex justify-center"><Loader2 class="w-8 h-8 animate-spin text-blue-500" /></div>
+    );
+
+    const tabClass = (name: string) => `px-4 py-2 rounded-xl text-sm font-medium transition-colors ${tab() === name
+        ? 'bg-blue-600 text-white'
+        : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`;
+
+    const overdueClass = (days: number) => days > 60 ? 'text-red-400' : days > 0 ? 'text-amber-400' : 'text-slate-400';
+
+    return (
+        <div class="p-4 pt-6 sm:p-8 sm:pt-8 space-y-8">
+            <div class="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
+                <div>
+                    <h1 class="text-3xl font-bold text-white tracking-tight">Receivables</h1>
+                    <p class="text-slate-400 mt-1">Customer debt aged by due date, and overdue customers to collect from</p>
+                </div>
+            </div>
+
+            {/* Tabs and filters */}
+            <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 flex flex-col lg:flex-row flex-wrap gap-4 lg:items-center">
+                <div class="flex flex-wrap gap-2 flex-1">
+                    <button class={tabClass('aging')} onClick={() => setTab('aging')}>Aging</button>
+                    <button class={tabClass('collections')} onClick={() => setTab('collections')}>Collection Worklist</button>
+                </div>
+                <select value={territoryId()} onChange={(e) => setTerritoryId(e.currentTarget.value)} class={selectClass}>
+                    <option value="">All territories</option>
+                    <For each={territories() || []}>{(territory) => <option value={territory.id}>{territory.name}</option>}</For>
+                </select>
+                <select value={salesRepId()} onChange={(e) => setSalesRepId(e.currentTarget.value)} class={selectClass}>
+                    <option value="">All sales reps</option>
+                    <For each={salesReps() || []}>{(rep) => <option value={rep.id}>{rep.name}</option>}</For>
+                </select>
+                <select value={tierId()} onChange={(e) => setTierId(e.currentTarget.value)} class={selectClass}>
+                    <option value="">All tiers</option>
+                    <For each={tiers() || []}>{(tier) => <option value={tier.id}>{tier.name}</option>}</For>
+                </select>
+                <Show when={tab() === 'aging'} fallback={
+                    <input
+                        type="number"
+                        min="1"
+                        value={minDaysOverdue()}
+                        onChange={(e) => setMinDaysOverdue(e.currentTarget.value)}
+                        title="Minimum days overdue"
+                        class={`w-24 ${selectClass}`}
+                    />
+                }>
+                    <input type="date" value={asOf()} onChange={(e) => setAsOf(e.currentTarget.value)} title="As of" class={selectClass} />
+                </Show>
+                <button
+                    onClick={refresh}
+                    class="p-3 bg-slate-800 text-slate-300 rounded-xl hover:bg-slate-700 transition-colors"
+                    title="Refresh"
+                >
+                    <RefreshCw class="w-5 h-5" />
+                </button>
+            </div>
+
+            {/* Aging */}
+            <Show when={tab() === 'aging'}>
+                <Show when={aging()?.summary}>
+                    {(summary) => (
+                        <div class="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+                            <For each={BUCKETS}>
+                                {(bucket) => (
+                                    <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4">
+                                        <div class="text-slate-400 text-xs uppercase tracking-wider">{bucket.label}</div>
+                                        <div class="text-white text-lg font-semibold mt-1">{formatCurrency(summary()[bucket.key])}</div>
+                                    </div>
+                                )}
+                            </For>
+                            <div class="bg-slate-900 border border-blue-500/30 rounded-2xl p-4">
+                                <div class="text-slate-400 text-xs uppercase tracking-wider">Total ({summary().customers})</div>
+                                <div class="text-white text-lg font-semibold mt-1">{formatCurrency(summary().total)}</div>
+                            </div>
+                        </div>
+                    )}
+                </Show>
+
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <div class="flex justify-end p-4 border-b border-slate-800">
+                        <button
+                            onClick={exportXlsx}
+                            disabled={exporting()}
+                            class="flex items-center gap-2 px-4 py-2 bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white rounded-xl text-sm font-medium transition-colors"
+                        >
+                            <Download class="w-4 h-4" /> Export XLSX
+                        </button>
+                    </div>
+                    <Show when={!aging.loading} fallback={loading}>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-6 py-4">Customer</th>
+                                        <th class="px-6 py-4">Rep / Territory</th>
+                                        <For each={BUCKETS}>{(bucket) => <th class="px-4 py-4 text-right">{bucket.label}</th>}</For>
+                                        <th class="px-6 py-4 text-right">Total</th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={aging()?.data || []} fallback={
+                                        <tr><td colspan={8} class="px-6 py-12 text-center text-slate-500">No outstanding receivables</td></tr>
+                                    }>
+                                        {(row) => (
+                                            <>
+                                                <tr
+                                                    class="hover:bg-slate-800/50 transition-colors cursor-pointer"
+                                                    onClick={() => setExpanded(expanded() === row.customerId ? null : row.customerId)}
+                                                >
+                                                    <td class="px-6 py-4">
+                                                        <div class="flex items-center gap-2">
+                                                            <Show when={expanded() === row.customerId} fallback={<ChevronRight class="w-4 h-4 text-slate-500" />}>
+                                                                <ChevronDown class="w-4 h-4 text-slate-500" />
+                                                            </Show>
+                                                            <div>
+                                                                <div class="text-white font-medium">{row.customerName}</div>
+                                                                <div class="text-slate-500 text-xs">{row.tierName || 'No tier'} · {row.paymentTermsDays} days terms</div>
+                                                            </div>
+                                                        </div>
+                                                    </td>
+                                                    <td class="px-6 py-4 text-sm text-slate-400">
+                                                        <div>{row.salesRepName || '—'}</div>
+                                                        <div class="text-xs text-slate-500">{row.territoryName || ''}</div>
+                                                    </td>
+                                                    <For each={BUCKETS}>
+                                                        {(bucket) => (
+                                                            <td class={`px-4 py-4 text-right text-sm ${row[bucket.key] > 0 && bucket.key !== 'current' ? 'text-amber-300' : 'text-slate-300'}`}>
+                                                                {row[bucket.key] > 0 ? formatCurrency(row[bucket.key]) : '—'}
+                                                            </td>
+                                                        )}
+                                                    </For>
+                                                    <td class="px-6 py-4 text-right text-white font-medium">{formatCurrency(row.total)}</td>
+                                                </tr>
+                                                <Show when={expanded() === row.customerId}>
+                                                    <tr class="bg-slate-950/60">
+                                                        <td colspan={8} class="px-6 py-4">
+                                                            <Show when={!items.loading} fallback={<Loader2 class="w-5 h-5 animate-spin text-blue-500" />}>
+                                                                <table class="w-full text-sm">
+                                                                    <thead class="text-slate-500 text-xs uppercase">
+                                                                        <tr>
+                                                                            <th class="py-2 text-left">Order</th>
+                                                                            <th class="py-2 text-left">Invoice</th>
+                                                                            <th class="py-2 text-left">Due</th>
+                                                                            <th class="py-2 text-right">Days overdue</th>
+                                                                            <th class="py-2 text-right">Total</th>
+                                                                            <th class="py-2 text-right">Paid</th>
+                                                                            <th class="py-2 text-right">Due amount</th>
+                                                                        </tr>
+                                                                    </thead>
+                                                                    <tbody>
+                                                                        <For each={items() || []}>
+                                                                            {(item) => (
+                                                                                <tr class="text-slate-300">
+                                                                                    <td class="py-1.5">{item.orderNumber}</td>
+                                                                                    <td class="py-1.5">{item.invoiceNumber || '—'}</td>
+                                                                                    <td class="py-1.5">{item.dueDate}</td>
+                                                                                    <td class={`py-1.5 text-right ${overdueClass(item.daysOverdue)}`}>{Math.max(0, item.daysOverdue)}</td>
+                                                                                    <td class="py-1.5 text-right">{formatCurrency(item.totalAmount)}</td>
+                                                                                    <td class="py-1.5 text-right">{formatCurrency(item.paidAmount)}</td>
+                                                                                    <td class="py-1.5 text-right text-white">{formatCurrency(item.amountDue)}</td>
+                                                                                </tr>
+                                                                            )}
+                                                                        </For>
+                                                                    </tbody>
+                                                                </table>
+                                                            </Show>
+                                                        </td>
+                                                    </tr>
+                                                </Show>
+                                            </>
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                    </Show>
+                </div>
+            </Show>
+
+            {/* Collection worklist */}
+            <Show when={tab() === 'collections'}>
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl p-4 flex flex-col sm:flex-row gap-3 sm:items-center">
+                    <div class="flex-1 text-slate-400 text-sm">
+                        {selected().size > 0
+                            ? `${selected().size} customer(s) selected`
+                            : 'Plans a visit for every customer below with their sales rep'}
+                    </div>
+                    <input type="date" value={plannedDate()} min={today} onChange={(e) => setPlannedDate(e.currentTarget.value)} class={selectClass} />
+                    <button
+                        onClick={assignVisits}
+                        disabled={assigning() || (worklist() || []).length === 0}
+                        class="flex items-center justify-center gap-2 px-4 py-2.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-xl font-medium transition-colors"
+                    >
+                        <CalendarPlus class="w-4 h-4" /> Plan Collection Visits
+                    </button>
+                </div>
+
+                <div class="bg-slate-900 border border-slate-800 rounded-2xl overflow-hidden">
+                    <Show when={!worklist.loading} fallback={loading}>
+                        <div class="overflow-x-auto">
+                            <table class="w-full text-left">
+                                <thead class="bg-slate-950 text-slate-400 text-xs uppercase tracking-wider font-semibold">
+                                    <tr>
+                                        <th class="px-4 py-4" />
+                                        <th class="px-6 py-4">Customer</th>
+                                        <th class="px-6 py-4">Sales Rep</th>
+                                        <th class="px-6 py-4 text-right">Days overdue</th>
+                                        <th class="px-6 py-4 text-right">Overdue</th>
+                                        <th class="px-6 py-4 text-right">Total due</th>
+                                        <th class="px-6 py-4">Next visit</th>
+                                    </tr>
+                                </thead>
+                                <tbody class="divide-y divide-slate-800">
+                                    <For each={worklist() || []} fallback={
+                                        <tr><td colspan={7} class="px-6 py-12 text-center text-slate-500">No overdue customers</td></tr>
+                                    }>
+                                        {(row) => (
+                                            <tr class="hover:bg-slate-800/50 transition-colors">
+                                                <td class="px-4 py-4">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={selected().has(row.customerId)}
+                                                        onChange={() => toggleSelected(row.customerId)}
+                                                        class="rounded border-slate-700 bg-slate-950"
+                                                    />
+                                                </td>
+                                                <td class="px-6 py-4 text-white font-medium">{row.customerName}</td>
+                                                <td class="px-6 py-4 text-slate-400 text-sm">{row.salesRepName || 'Unassigned'}</td>
+                                                <td class={`px-6 py-4 text-right font-medium ${overdueClass(row.maxDaysOverdue)}`}>{row.maxDaysOverdue}</td>
+                                                <td class="px-6 py-4 text-right text-amber-300">{formatCurrency(row.overdueAmount)}</td>
+                                                <td class="px-6 py-4 text-right text-slate-300">{formatCurrency(row.total)}</td>
+                                                <td class="px-6 py-4 text-slate-400 text-sm">{row.nextVisitDate || '—'}</td>
+                                            </tr>
+                                        )}
+                                    </For>
+                                </tbody>
+                            </table>
+                        </div>
+                    </Show>
+                </div>
+            </Show>
+        </div>
+    );
+};
+
+export default Receivables;
@@ -0,0 +1,351 @@
+import { type Component, For, Show, createSignal, createResource } from 'solid-js';
+import { createStore } from 'solid-js/store';
+import { useNavigate } from '@solidjs/router';
+import { ArrowLeft, Loader2, MapPin, Route, Truck, AlertTriangle, Trash2, CheckCircle2 } from 'lucide-solid';
+import { api } from '../../lib/api';
+
+interface PlannedStop {
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    address: string | null;
+    latitude: number | null;
+    weightKg: number;
+    volumeM3: number;
+    missingDimensions: boolean;
+    sequence: number;
+    legKm: number | null;
+}
+
+interface PlannedTrip {
+    territoryName: string | null;
+    vehicleId: string;
+    vehicleName: string;
+    driverId: string | null;
+    weightKg: number;
+    volumeM3: number;
+    maxWeightKg: number | null;
+    maxVolumeM3: number | null;
+    distanceKm: number;
+    durationMin: number;
+    stops: PlannedStop[];
+}
+
+interface UnplannedOrder {
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    reason: 'no_vehicle' | 'exceeds_vehicle_capacity';
+}
+
+interface TripPlan {
+    date: string;
+    warehouseId: string;
+    distanceSource: 'osrm' | 'haversine';
+    trips: PlannedTrip[];
+    unplanned: UnplannedOrder[];
+}
+
+interface Option {
+    id: string;
+    name: string;
+    plateNumber?: string;
+}
+
+const unplannedReasons: Record<UnplannedOrder['reason'], string> = {
+    no_vehicle: 'No free vehicle left',
+    exceeds_vehicle_capacity: 'Too large for any free vehicle',
+};
+
+const tomorrow = () => {
+    const date = new Date();
+    date.setDate(date.getDate() + 1);
+    return date.toISOString().slice(0, 10);
+};
+
+const percent = (value: number, max: number | null) => (max ? Math.min(100, Math.round((value / max) * 100)) : 0);
+
+const TripPlanner: Component = () => {
+    const navigate = useNavigate();
+
+    const [date, setDate] = createSignal(tomorrow());
+    const [warehouseId, setWarehouseId] = createSignal('');
+    const [includeUnscheduled, setIncludeUnscheduled] = createSignal(false);
+    const [planning, setPlanning] = createSignal(false);
+    const [committing, setCommitting] = createSignal(false);
+    const [error, setError] = createSignal<string | null>(null);
+    const [plan, setPlan] = createStore<{ value: TripPlan | null }>({ value: null });
+
+    const [warehouses] = createResource(async () => {
+        const result = await api<Option[]>('/warehouses');
+        return ((result as any)?.data ?? result ?? []) as Option[];
+    });
+
+    const [vehicles] = createResource(async () => {
+        const result = await api<Option[]>('/delivery/vehicles');
+        return ((result as any)?.data ?? result ?? []) as Option[];
+    });
+
+    const [drivers] = createResource(async () => {
+        const result = await api<Option[]>('/users', { params: { role: 'driver', limit: '100' } });
+        return ((result as any)?.data ?? result ?? []) as Option[];
+    });
+
+    const handlePreview = async () => {
+        setPlanning(true);
+        setError(null);
+        try {
+            const result = await api<TripPlan>('/delivery/trips/plan', {
+                method: 'POST',
+                body: JSON.stringify({
+                    date: date(),
+                    warehouseId: warehouseId() || undefined,
+                    includeUnscheduled: includeUnscheduled(),
+                }),
+            });
+            setPlan('value', ((result as any)?.data ?? result) as TripPlan);
+        } catch (err: any) {
+            setError(err?.message || 'Failed to build the trip plan');
+        } finally {
+            setPlanning(false);
+        }
+    };
+
+    const removeTrip = (index: number) => {
+        const current = plan.value;
+        if (!current) return;
+        setPlan('value', 'trips', current.trips.filter((_, i) => i !== index));
+    };
+
+    const handleCommit = async () => {
+        const current = plan.value;
+        if (!current || current.trips.length === 0) return;
+        if (current.trips.some(trip => !trip.driverId)) {
+            setError('Assign a driver to every trip before creating them');
+            return;
+        }
+
+        setCommitting(true);
+        setError(null);
+        try {
+            await api('/delivery/trips/plan/commit', {
+                method: 'POST',
+                body: JSON.stringify({
+                    plannedDate: current.date,
+                    warehouseId: current.warehouseId,
+                    trips: current.trips.map(trip => ({
+                        driverId: trip.driverId,
+                        vehicleId: trip.vehicleId,
+                        orderIds: trip.stops.map(stop => stop.orderId),
+                    })),
+                }),
+            });
+            navigate('/admin/deliveries');
+        } catch (err: any) {
+            setError(err?.message || 'Failed to create trips');
+        } finally {
+            setCommitting(false);
+        }
+    };
+
+    const inputClass = 'bg-slate-950 border border-slate-800 rounded-xl px-4 py-2.5 text-white focus:ring-2 focus:ring-blue-500 outline-none';
+
+    return (
+        <div class="p-6 pt-6 lg:p-8 lg:pt-8 mt-6 lg:mt-8 space-y-6">
+            <div class="flex items-center gap-3">
+                <button
+                    onClick={() => navigate('/admin/deliveries')}
+                    class="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+                >
+                    <ArrowLeft class="w-5 h-5" />
+                </button>
+                <div>
+                    <h1 class="text-2xl lg:text-3xl font-bold text-white">Plan Trips</h1>
+                    <p class="text-slate-400">Group the day's orders into trips by territory and vehicle capacity</p>
+                </div>
+            </div>
+
+            <div class="bg-slate-900/60 border border-slate-800/50 rounded-2xl p-4 flex flex-col lg:flex-row lg:items-end gap-4">
+                <div class="space-y-1.5">
+                    <label class="text-sm font-medium text-slate-300">Delivery date</label>
+                    <input type="date" value={date()} onInput={(e) => setDate(e.currentTarget.value)} class={`w-full ${inputClass}`} />
+                </div>
+                <Show when={(warehouses() ?? []).length > 1}>
+                    <div class="space-y-1.5">
+                        <label class="text-sm font-medium text-slate-300">Warehouse</label>
+                        <select value={warehouseId()} onChange={(e) => setWarehouseId(e.currentTarget.value)} class={`w-full ${inputClass}`}>
+                            <option value="">Default warehouse</option>
+                            <For each={warehouses()}>
+                                {(w) => <option value={w.id}>{w.name}</option>}
+                            </For>
+                        </select>
+                    </div>
+                </Show>
+                <label class="flex items-center gap-2 text-sm text-slate-300 lg:pb-3">
+                    <input type="checkbox" checked={includeUnscheduled()} onChange={(e) => setIncludeUnscheduled(e.currentTarget.checked)} />
+                    Include orders without a delivery date
+                </label>
+                <button
+                    onClick={handlePreview}
+                    disabled={planning() || !date()}
+                    class="lg:ml-auto px-5 py-2.5 bg-blue-600 hover:bg-blue-500 text-white font-medium rounded-xl transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                    <Show when={planning()} fallback={<Route class="w-4 h-4" />}>
+                        <Loader2 class="w-4 h-4 animate-spin" />
+                    </Show>
+                    Preview plan
+                </button>
+            </div>
+
+            <Show when={error()}>
+                <div class="p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-red-400 text-sm">{error()}</div>
+            </Show>
+
+            <Show when={plan.value}>
+                {(current) => (
+                    <>
+                        <div class="flex flex-wrap items-center justify-between gap-4">
+                            <div class="text-slate-400 text-sm">
+                                {current().trips.length} trips · {current().trips.reduce((sum, trip) => sum + trip.stops.length, 0)} orders planned
+                                <Show when={current().unplanned.length > 0}> · {current().unplanned.length} not planned</Show>
+                                {' · '}
+                                {current().distanceSource === 'osrm' ? 'road distances' : 'estimated distances'}
+                            </div>
+                            <button
+                                onClick={handleCommit}
+                                disabled={committing() || current().trips.length === 0}
+                                class="px-5 py-2.5 bg-emerald-600 hover:bg-emerald-500 text-white font-medium rounded-xl transition-all disabled:opacity-50 flex items-center gap-2"
+                            >
+                                <Show when={committing()} fallback={<CheckCircle2 class="w-4 h-4" />}>
+                                    <Loader2 class="w-4 h-4 animate-spin" />
+                                </Show>
+                                Create {current().trips.length} trips
+                            </button>
+                        </div>
+
+                        <Show when={current().trips.length === 0 && current().unplanned.length === 0}>
+                            <div class="rounded-2xl border border-slate-800/60 bg-slate-900/40 p-6 text-slate-400 text-sm">
+                                No approved orders waiting for delivery on this date.
+                            </div>
+                        </Show>
+
+                        <div class="grid grid-cols-1 xl:grid-cols-2 gap-4">
+                            <For each={current().trips}>
+                                {(trip, index) => (
+                                    <div class="bg-slate-900/60 border border-slate-800/50 rounded-2xl p-4 space-y-3">
+                                        <div class="flex items-start justify-between gap-3">
+                                            <div>
+                                                <div class="text-white font-semibold flex items-center gap-2">
+                                                    <Truck class="w-4 h-4 text-cyan-400" />
+                                                    Trip {index() + 1}
+                                                    <span class="text-slate-400 font-normal">· {trip.territoryName || 'No territory'}</span>
+                                                </div>
+                                                <div class="text-slate-500 text-xs mt-1">
+                                                    {trip.stops.length} stops · {trip.distanceKm} km · ~{Math.round(trip.durationMin / 60 * 10) / 10} h
+                                                </div>
+                                            </div>
+                                            <button
+                                                onClick={() => removeTrip(index())}
+                                                class="p-2 text-slate-500 hover:text-red-400 hover:bg-red-400/10 rounded-lg transition-colors"
+                                                title="Leave these orders out"
+                                            >
+                                                <Trash2 class="w-4 h-4" />
+                                            </button>
+                                        </div>
+
+                                        <div class="grid grid-cols-2 gap-2">
+                                            <select
+                                                value={trip.vehicleId}
+                                                onChange={(e) => setPlan('value', 'trips', index(), 'vehicleId', e.currentTarget.value)}
+                                                class={`text-sm ${inputClass}`}
+                                            >
+                                                <For each={vehicles()}>
+                                                    {(v) => <option value={v.id}>{v.name}{v.plateNumber ? ` (${v.plateNumber})` : ''}</option>}
+                                                </For>
+                                            </select>
+                                            <select
+                                                value={trip.driverId ?? ''}
+                                                onChange={(e) => setPlan('value', 'trips', index(), 'driverId', e.currentTarget.value || null)}
+                                                class={`text-sm ${inputClass}`}
+                                            >
+                                                <option value="">Select driver</option>
+                                                <For each={drivers()}>
+                                                    {(d) => <option value={d.id}>{d.name}</option>}
+                                                </For>
+                                            </select>
+                                        </div>
+
+                                        <div class="space-y-1.5 text-xs text-slate-400">
+                                            <div>
+                                                Weight: {trip.weightKg} kg{trip.maxWeightKg ? ` / ${trip.maxWeightKg} kg` : ''}
+                                                <Show when={trip.maxWeightKg}>
+                                                    <div class="mt-1 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                                                        <div class="h-full bg-cyan-500" style={{ width: `${percent(trip.weightKg, trip.maxWeightKg)}%` }} />
+                                                    </div>
+                                                </Show>
+                                            </div>
+                                            <div>
+                                                Volume: {trip.volumeM3} m³{trip.maxVolumeM3 ? ` / ${trip.maxVolumeM3} m³` : ''}
+                                                <Show when={trip.maxVolumeM3}>
+                                                    <div class="mt-1 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                                                        <div class="h-full bg-indigo-500" style={{ width: `${percent(trip.volumeM3, trip.maxVolumeM3)}%` }} />
+                                                    </div>
+                                                </Show>
+                                            </div>
+                                        </div>
+
+                                        <ol class="divide-y divide-slate-800/50 border-t border-slate-800/50">
+                                            <For each={trip.stops}>
+                                                {(stop) => (
+                                                    <li class="py-2 flex items-center gap-3 text-sm">
+                                                        <span class="w-6 h-6 rounded-full bg-slate-800 text-slate-300 text-xs flex items-center justify-center flex-shrink-0">
+                                                            {stop.sequence}
+                                                        </span>
+                                                        <div class="flex-1 min-w-0">
+                                                            <div class="text-white truncate">{stop.customerName}</div>
+                                                            <div class="text-slate-500 text-xs truncate">{stop.orderNumber}{stop.address ? ` · ${stop.address}` : ''}</div>
+                                                        </div>
+                                                        <Show when={stop.latitude === null}>
+                                                            <span title="No customer location"><MapPin class="w-4 h-4 text-amber-400" /></span>
+                                                        </Show>
+                                                        <Show when={stop.missingDimensions}>
+                                                            <span title="Some products have no weight or volume"><AlertTriangle class="w-4 h-4 text-amber-400" /></span>
+                                                        </Show>
+                                                        <span class="text-slate-500 text-xs w-14 text-right">
+                                                            {stop.legKm !== null ? `${stop.legKm} km` : '—'}
+                                                        </span>
+                                                    </li>
+                                                )}
+                                            </For>
+                                        </ol>
+                                    </div>
+                                )}
+                            </For>
+                        </div>
+
+                        <Show when={current().unplanned.length > 0}>
+                            <div class="bg-slate-900/60 border border-amber-500/20 rounded-2xl p-4">
+                                <div class="text-amber-300 font-semibold mb-2 flex items-center gap-2">
+                                    <AlertTriangle class="w-4 h-4" />
+                                    Not planned
+                                </div>
+                                <ul class="space-y-1 text-sm">
+                                    <For each={current().unplanned}>
+                                        {(order) => (
+                                            <li class="flex justify-between gap-3">
+                                                <span class="text-white">{order.orderNumber} · {order.customerName}</span>
+                                                <span class="text-slate-400">{unplannedReasons[order.reason]}</span>
+                                            </li>
+                                        )}
+                                    </For>
+                                </ul>
+                            </div>
+                        </Show>
+                    </>
+                )}
+            </Show>
+        </div>
+    );
+};
+
+export default TripPlanner;
@@ -8,6 +8,8 @@ interface Vehicle {
     name: string;
     plateNumber: string;
     capacity: number | null;
+    maxWeightKg: string | null;
+    maxVolumeM3: string | null;
     isActive: boolean;
     createdAt: string;
 }
@@ -100,7 +102,14 @@ const Vehicles: Component = () => {
                                                     </span>
                                                 </div>
                                                 <div class="text-slate-400 text-sm mt-1">{vehicle.plateNumber}</div>
-                                                <Show when={vehicle.capacity}>
+                                                <Show when={vehicle.maxWeightKg || vehicle.maxVolumeM3}>
+                                                    <div class="text-slate-500 text-xs mt-2">
+                                                        Max load: {vehicle.maxWeightKg ? `${Number(vehicle.maxWeightKg)} kg` : '—'}
+                                                        {' · '}
+                                                        {vehicle.maxVolumeM3 ? `${Number(vehicle.maxVolumeM3)} m³` : '—'}
+                                                    </div>
+                                                </Show>
+                                                <Show when={vehicle.capacity && !vehicle.maxWeightKg}>
                                                     <div class="text-slate-500 text-xs mt-2">
                                                         Capacity: {vehicle.capacity} units
                                                     </div>
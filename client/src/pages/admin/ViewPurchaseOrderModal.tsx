@@ -176,7 +176,12 @@ const ViewPurchaseOrderModal: Component<ViewPurchaseOrderModalProps> = (props) =
                                                             <span class="font-medium text-white">{item.productName}</span>
                                                         </div>
                                                     </td>
-                                                    <td class="p-4 text-center text-slate-300">{item.qtyOrdered}</td>
+                                                    <td class="p-4 text-center text-slate-300">
+                                                        {item.qtyOrdered}
+                                                        <Show when={item.unit}>
+                                                            <div class="text-xs text-slate-500">{item.unitQty} {item.unit} × {item.unitFactor}</div>
+                                                        </Show>
+                                                    </td>
                                                     <td class="p-4 text-center text-slate-300">{item.qtyReceived || 0}</td>
                                                     <td class="p-4 text-right font-mono text-slate-300">${Number(item.unitPrice).toFixed(2)}</td>
                                                     <td class="p-4 text-right font-mono text-slate-300">${Number(item.lineTotal).toFixed(2)}</td>
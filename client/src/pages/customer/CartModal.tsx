@@ -17,7 +17,7 @@ interface CartModalProps {
     currency: string;
     onClose: () => void;
     onUpdateCart: (cart: CartItem[]) => void;
-    onCheckout: (notes: string, address: string, discountId?: string) => void;
+    onCheckout: (notes: string, address: string, promoCode?: string) => void;
     checkingOut: boolean;
 }
 
@@ -33,36 +33,31 @@ const CartModal: Component<CartModalProps> = (props) => {
     const [appliedDiscount, setAppliedDiscount] = createSignal<DiscountValidationResult | null>(null);
     const [discountError, setDiscountError] = createSignal('');
 
-    // Auto-discount preview
-    const [autoDiscount, setAutoDiscount] = createSignal<DiscountPreview | null>(null);
-    const [loadingAutoDiscount, setLoadingAutoDiscount] = createSignal(false);
+    // Server-side price of the cart (tier discount and promotions)
+    const [quote, setQuote] = createSignal<DiscountPreview | null>(null);
+    const [loadingQuote, setLoadingQuote] = createSignal(false);
 
-    const subtotal = () => props.cart.reduce((s, i) => s + i.product.sellingPrice * i.quantity, 0);
-    const totalQty = () => props.cart.reduce((s, i) => s + i.quantity, 0);
-    const discountAmount = () => appliedDiscount()?.discountAmount || autoDiscount()?.discountAmount || 0;
-    const total = () => subtotal() - discountAmount();
+    const cartLines = () => props.cart.map(i => ({ productId: i.product.id, quantity: i.quantity }));
+    const subtotal = () => quote()?.subtotalAmount ?? props.cart.reduce((s, i) => s + i.product.sellingPrice * i.quantity, 0);
+    const total = () => quote()?.totalAmount ?? subtotal();
+    const tierDiscount = () => quote()?.lines.reduce((s, l) => s + l.tierDiscount, 0) || 0;
 
-    // Fetch auto-discount preview when cart changes
+    // Reprice whenever the cart changes
     createEffect(async () => {
-        const cartTotal = subtotal();
-        const itemsCount = totalQty();
+        const items = cartLines();
 
-        if (cartTotal > 0 && !appliedDiscount()) {
-            setLoadingAutoDiscount(true);
+        if (items.length > 0) {
+            setLoadingQuote(true);
             try {
-                const result = await discountsApi.preview(cartTotal, itemsCount);
-                if (result.success && result.data) {
-                    setAutoDiscount(result.data);
-                } else {
-                    setAutoDiscount(null);
-                }
+                const result = await discountsApi.preview(items);
+                setQuote(result.success && result.data ? result.data : null);
             } catch {
                 // Ignore errors in preview
             } finally {
-                setLoadingAutoDiscount(false);
+                setLoadingQuote(false);
             }
-        } else if (cartTotal === 0) {
-            setAutoDiscount(null);
+        } else {
+            setQuote(null);
         }
     });
 
@@ -101,16 +96,11 @@ const CartModal: Component<CartModalProps> = (props) => {
         setDiscountError('');
 
         try {
-            const items = props.cart.map(i => ({
-                productId: i.product.id,
-                quantity: i.quantity,
-                unitPrice: i.product.sellingPrice
-            }));
-
-            const result = await discountsApi.validate(discountCode().trim(), subtotal(), items);
+            const result = await discountsApi.validate(discountCode().trim(), cartLines());
 
             if (result.success && result.data) {
                 setAppliedDiscount(result.data);
+                setQuote(result.data.quote);
                 setDiscountCode('');
             } else {
                 setDiscountError(result.error?.message || t('cart.invalidDiscount') as string);
@@ -122,16 +112,20 @@ const CartModal: Component<CartModalProps> = (props) => {
         }
     };
 
-    const handleRemoveDiscount = () => {
+    const handleRemoveDiscount = async () => {
         setAppliedDiscount(null);
         setDiscountError('');
+
+        // Reprice without the code's promotion
+        const result = await discountsApi.preview(cartLines()).catch(() => null);
+        if (result?.success && result.data && !appliedDiscount()) setQuote(result.data);
     };
 
     const handleCheckout = () => {
         props.onCheckout(
             notes(),
             getDeliveryAddress(),
-            appliedDiscount()?.discountId
+            appliedDiscount()?.promoCode
         );
     };
 
@@ -237,7 +231,7 @@ const CartModal: Component<CartModalProps> = (props) => {
                                 <div class="discount-applied">
                                     <div class="discount-applied-info">
                                         <Tag size={18} />
-                                        <span class="discount-applied-name">{appliedDiscount()!.discountName}</span>
+                                        <span class="discount-applied-name">{appliedDiscount()!.promoCode} · {appliedDiscount()!.discountName}</span>
                                         <span class="discount-applied-value">
                                             ({appliedDiscount()!.discountType === 'percentage'
                                                 ? `${appliedDiscount()!.discountValue}%`
@@ -259,27 +253,33 @@ const CartModal: Component<CartModalProps> = (props) => {
                                 <span>{formatMoney(subtotal())} {props.currency}</span>
                             </div>
 
-                            {/* Show manual discount */}
-                            <Show when={appliedDiscount()}>
+                            {/* Customer tier discount */}
+                            <Show when={tierDiscount() > 0}>
                                 <div class="cart-summary-row discount">
-                                    <span><Tag size={14} /> {appliedDiscount()!.discountName}</span>
-                                    <span>-{formatMoney(discountAmount())} {props.currency}</span>
+                                    <span>{t('cart.tierDiscount', { tier: quote()!.tierName || '', percent: quote()!.tierDiscountPercent })}</span>
+                                    <span>-{formatMoney(tierDiscount())} {props.currency}</span>
                                 </div>
                             </Show>
 
-                            {/* Show auto discount preview when no manual discount */}
-                            <Show when={!appliedDiscount() && autoDiscount()}>
-                                <div class="cart-summary-row discount auto-discount">
-                                    <span><Sparkles size={14} /> {autoDiscount()!.name}</span>
-                                    <span>-{formatMoney(autoDiscount()!.discountAmount)} {props.currency}</span>
+                            {/* Promotions the pricing engine applied; the entered code is marked with a tag */}
+                            <For each={quote()?.appliedDiscounts || []}>{(discount) => (
+                                <div class={`cart-summary-row discount${discount.id === appliedDiscount()?.discountId ? '' : ' auto-discount'}`}>
+                                    <span>
+                                        <Show when={discount.id === appliedDiscount()?.discountId} fallback={<Sparkles size={14} />}>
+                                            <Tag size={14} />
+                                        </Show> {discount.name}
+                                    </span>
+                                    <span>-{formatMoney(discount.amount)} {props.currency}</span>
                                 </div>
+                            )}</For>
+                            <Show when={(quote()?.appliedDiscounts.length || 0) > 0 && !appliedDiscount()}>
                                 <div class="auto-discount-hint">
                                     {t('cart.autoDiscountHint')}
                                 </div>
                             </Show>
 
-                            {/* Loading state for auto discount */}
-                            <Show when={!appliedDiscount() && !autoDiscount() && loadingAutoDiscount()}>
+                            {/* Loading state for the first quote */}
+                            <Show when={!quote() && loadingQuote()}>
                                 <div class="cart-summary-row discount loading">
                                     <span><Loader2 size={14} class="spin" /> {t('cart.checkingDiscounts')}</span>
                                 </div>
@@ -242,11 +242,11 @@ const CustomerDashboard: Component<CustomerDashboardProps> = (props) => {
         toast.success(t('products.addToCart') as string);
     };
 
-    const handleCheckout = async (notes: string, address: string, _discountId?: string) => {
+    const handleCheckout = async (notes: string, address: string, promoCode?: string) => {
         setCheckingOut(true);
         try {
             const items = cart().map(i => ({ productId: i.product.id, quantity: i.quantity }));
-            const result = await customerApi.orders.create(items, notes, address);
+            const result = await customerApi.orders.create(items, notes, address, promoCode);
 
             if (result.success && result.data) {
                 syncCart([]);
@@ -11,6 +11,7 @@ import { formatMoney, getOptimizedImage } from '../../../utils/formatters';
 import { isLowStock } from '../../../utils/constants';
 import { useI18n } from '../../../i18n';
 import EmptyState from '../../../components/EmptyState';
+import { groupVariants, attributeValues, pickVariant } from '../../../utils/variants';
 
 // Sort options
 type SortOption = 'default' | 'price_asc' | 'price_desc' | 'name_asc' | 'name_desc';
@@ -52,9 +53,9 @@ const ProductsTab: Component<ProductsTabProps> = (props) => {
         }, 300);
     };
 
-    // Sort products
+    // Sort products; a family shows as one card with a variant picker
     const sortedProducts = () => {
-        const prods = [...props.products];
+        const prods = groupVariants(props.products);
         switch (sortOption()) {
             case 'price_asc':
                 return prods.sort((a, b) => a.sellingPrice - b.sellingPrice);
@@ -153,39 +154,66 @@ const ProductsTab: Component<ProductsTabProps> = (props) => {
             </Show>
 
             <div class="products-grid">
-                <For each={sortedProducts()}>{(product) => {
-                    const qtyInCart = () => getProductQtyInCart(product.id);
+                <For each={sortedProducts()}>{(card) => {
+                    const [variantId, setVariantId] = createSignal(card.id);
+                    // The picked variant of a family card, else the product itself
+                    const current = (): Product => {
+                        const picked = card.family?.variants.find(v => v.id === variantId());
+                        return picked ? { ...card, ...picked, variantAttributes: picked.attributes } : card;
+                    };
+                    const qtyInCart = () => getProductQtyInCart(current().id);
                     return (
                         <div class="product-card">
-                            <div class="product-image-container" onClick={() => props.onSelectProduct(product)}>
+                            <div class="product-image-container" onClick={() => props.onSelectProduct(current())}>
                                 {/* Low Stock Badge */}
-                                <Show when={checkLowStock(product)}>
+                                <Show when={checkLowStock(current())}>
                                     <div class="low-stock-badge">
-                                        {t('products.lowStock', { qty: product.stockQty })}
+                                        {t('products.lowStock', { qty: current().stockQty })}
                                     </div>
                                 </Show>
 
-                                <Show when={product.imageUrl} fallback={
+                                <Show when={current().imageUrl} fallback={
                                     <div class="product-image-placeholder"><Box size={40} /></div>
                                 }>
-                                    <img src={getOptimizedImage(product.imageUrl, 400)} alt={product.name} class="product-image" loading="lazy" />
+                                    <img src={getOptimizedImage(current().imageUrl, 400)} alt={current().name} class="product-image" loading="lazy" />
                                 </Show>
                                 <button
-                                    class={`btn-favorite-card ${isFavorite(product.id) ? 'active' : ''}`}
-                                    onClick={(e) => { e.stopPropagation(); props.onToggleFavorite(product); }}
+                                    class={`btn-favorite-card ${isFavorite(current().id) ? 'active' : ''}`}
+                                    onClick={(e) => { e.stopPropagation(); props.onToggleFavorite(current()); }}
                                 >
-                                    <Heart size={18} fill={isFavorite(product.id) ? 'currentColor' : 'none'} />
+                                    <Heart size={18} fill={isFavorite(current().id) ? 'currentColor' : 'none'} />
                                 </button>
                                 <Show when={qtyInCart() > 0}>
                                     <div class="product-cart-badge">{qtyInCart()}</div>
                                 </Show>
                             </div>
                             <div class="product-info">
-                                <div class="product-name">{product.name}</div>
+                                <div class="product-name">{current().name}</div>
+                                <Show when={card.family}>
+                                    {(family) => (
+                                        <div class="variant-picker">
+                                            <For each={family().attributes}>{(attribute) => (
+                                                <div class="variant-options">
+                                                    <For each={attributeValues(family(), attribute)}>{(value) => (
+                                                        <button
+                                                            class={`variant-chip ${current().variantAttributes?.[attribute] === value ? 'active' : ''}`}
+                                                            onClick={() => {
+                                                                const next = pickVariant(family(), current().variantAttributes || {}, attribute, value);
+                                                                if (next) setVariantId(next.id);
+                                                            }}
+                                                        >
+                                                            {value}
+                                                        </button>
+                                                    )}</For>
+                                                </div>
+                                            )}</For>
+                                        </div>
+                                    )}
+                                </Show>
                                 <div class="product-footer">
-                                    <div class="product-price">{formatMoney(product.sellingPrice)} {props.currency}</div>
-                                    <Show when={product.inStock}>
-                                        <button class="btn-quick-add" onClick={(e) => { e.stopPropagation(); props.onAddToCart(product, 1); }}>
+                                    <div class="product-price">{formatMoney(current().sellingPrice)} {props.currency}</div>
+                                    <Show when={current().inStock}>
+                                        <button class="btn-quick-add" onClick={(e) => { e.stopPropagation(); props.onAddToCart(current(), 1); }}>
                                             <Plus size={18} />
                                         </button>
                                     </Show>
@@ -0,0 +1,214 @@
+import { type Component, For, Show, createSignal, createResource, createEffect } from 'solid-js';
+import { Wallet, Loader2, Send, Clock, CheckCircle2, XCircle } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { formatCurrency, formatDate } from '../../stores/settings';
+import { toast } from '../../components/Toast';
+
+interface MethodBalance {
+    paymentMethodId: string;
+    methodName: string | null;
+    amount: number;
+}
+
+interface Handover {
+    id: string;
+    businessDate: string;
+    status: 'submitted' | 'confirmed' | 'rejected';
+    expectedAmount: string;
+    declaredAmount: string;
+    receivedAmount: string | null;
+    differenceAmount: string | null;
+    cashierNotes: string | null;
+}
+
+interface CashSummary {
+    total: number;
+    methods: MethodBalance[];
+    openHandover: Handover | null;
+    recentHandovers: Handover[];
+}
+
+const statusConfig = (status: Handover['status']) => {
+    switch (status) {
+        case 'confirmed':
+            return { icon: CheckCircle2, color: 'text-emerald-400', label: 'Confirmed' };
+        case 'rejected':
+            return { icon: XCircle, color: 'text-red-400', label: 'Rejected' };
+        default:
+            return { icon: Clock, color: 'text-yellow-400', label: 'Waiting for cashier' };
+    }
+};
+
+/**
+ * Cash on hand for drivers and sales reps, with the end-of-day handover.
+ */
+const Cash: Component = () => {
+    const [summary, { refetch }] = createResource(() => api<CashSummary>('/cash/me'));
+    const [declared, setDeclared] = createSignal<Record<string, string>>({});
+    const [notes, setNotes] = createSignal('');
+    const [submitting, setSubmitting] = createSignal(false);
+
+    // Start the declaration from what the ledger expects
+    createEffect(() => {
+        const data = summary();
+        if (!data) return;
+        const initial: Record<string, string> = {};
+        for (const method of data.methods) initial[method.paymentMethodId] = String(method.amount);
+        setDeclared(initial);
+    });
+
+    const declaredTotal = () => Object.values(declared()).reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+
+    const handleSubmit = async () => {
+        const data = summary();
+        if (!data) return;
+
+        setSubmitting(true);
+        try {
+            await api('/cash/handovers', {
+                method: 'POST',
+                body: JSON.stringify({
+                    lines: data.methods.map(method => ({
+                        paymentMethodId: method.paymentMethodId,
+                        declaredAmount: parseFloat(declared()[method.paymentMethodId]) || 0,
+                    })),
+                    notes: notes().trim() || undefined,
+                })
+            });
+            toast.success('Handover submitted');
+            setNotes('');
+            refetch();
+        } catch (err: any) {
+            toast.error(err?.message || 'Failed to submit handover');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div class="p-4 space-y-4">
+            <h1 class="text-xl font-bold text-white pt-2">Cash</h1>
+
+            <Show when={!summary.loading} fallback={
+                <div class="flex justify-center py-12"><Loader2 class="w-8 h-8 text-emerald-400 animate-spin" /></div>
+            }>
+                {/* Cash on hand */}
+                <div class="bg-gradient-to-br from-emerald-600/20 to-teal-600/10 border border-emerald-500/20 rounded-2xl p-5">
+                    <div class="flex items-center gap-2 text-emerald-300 text-sm">
+                        <Wallet class="w-4 h-4" />
+                        Cash on hand
+                    </div>
+                    <div class="text-3xl font-bold text-white mt-1">{formatCurrency(summary()?.total ?? 0)}</div>
+                    <div class="mt-4 space-y-1.5">
+                        <For each={summary()?.methods}>
+                            {(method) => (
+                                <div class="flex justify-between text-sm">
+                                    <span class="text-slate-400">{method.methodName}</span>
+                                    <span class="text-white">{formatCurrency(method.amount)}</span>
+                                </div>
+                            )}
+                        </For>
+                    </div>
+                </div>
+
+                {/* Open handover or close-day form */}
+                <Show when={summary()?.openHandover} fallback={
+                    <Show when={(summary()?.methods.length ?? 0) > 0}>
+                        <div class="bg-slate-900/60 border border-slate-800/50 rounded-2xl p-4 space-y-3">
+                            <h2 class="text-white font-semibold">Close the day</h2>
+                            <p class="text-xs text-slate-500">Enter the amount you are handing over for each payment method.</p>
+                            <For each={summary()?.methods}>
+                                {(method) => (
+                                    <div class="flex items-center justify-between gap-3">
+                                        <label class="text-sm text-slate-300">{method.methodName}</label>
+                                        <input
+                                            type="number"
+                                            min="0"
+                                            step="0.01"
+                                            value={declared()[method.paymentMethodId] ?? ''}
+                                            onInput={(e) => setDeclared({ ...declared(), [method.paymentMethodId]: e.currentTarget.value })}
+                                            class="w-36 px-3 py-2 bg-slate-900 border border-slate-800 rounded-xl text-white text-right focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                                        />
+                                    </div>
+                                )}
+                            </For>
+                            <Show when={Math.abs(declaredTotal() - (summary()?.total ?? 0)) >= 0.01}>
+                                <div class="text-xs text-yellow-400">
+                                    Declared {formatCurrency(declaredTotal())} differs from the expected {formatCurrency(summary()?.total ?? 0)}.
+                                </div>
+                            </Show>
+                            <textarea
+                                value={notes()}
+                                onInput={(e) => setNotes(e.currentTarget.value)}
+                                placeholder="Notes (optional)"
+                                class="w-full px-4 py-3 bg-slate-900 border border-slate-800 rounded-xl text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 resize-none h-20"
+                            />
+                            <button
+                                onClick={handleSubmit}
+                                disabled={submitting()}
+                                class="w-full py-3 bg-gradient-to-r from-emerald-600 to-teal-600 text-white font-semibold rounded-xl flex items-center justify-center gap-2 active:scale-[0.98] transition-all disabled:opacity-50"
+                            >
+                                <Show when={submitting()} fallback={<Send class="w-4 h-4" />}>
+                                    <Loader2 class="w-4 h-4 animate-spin" />
+                                </Show>
+                                Hand over {formatCurrency(declaredTotal())}
+                            </button>
+                        </div>
+                    </Show>
+                }>
+                    <div class="bg-yellow-500/10 border border-yellow-500/20 rounded-2xl p-4">
+                        <div class="flex items-center gap-2 text-yellow-400 font-medium">
+                            <Clock class="w-4 h-4" />
+                            Waiting for the cashier
+                        </div>
+                        <div class="text-sm text-slate-300 mt-1">
+                            {formatCurrency(summary()!.openHandover!.declaredAmount)} declared for {formatDate(summary()!.openHandover!.businessDate)}
+                        </div>
+                    </div>
+                </Show>
+
+                {/* History */}
+                <Show when={(summary()?.recentHandovers.length ?? 0) > 0}>
+                    <div>
+                        <h2 class="text-slate-400 text-sm font-medium mb-2">Recent handovers</h2>
+                        <div class="space-y-2">
+                            <For each={summary()?.recentHandovers}>
+                                {(handover) => {
+                                    const config = statusConfig(handover.status);
+                                    const difference = () => parseFloat(handover.differenceAmount || '0');
+                                    return (
+                                        <div class="bg-slate-900/60 border border-slate-800/50 rounded-xl p-3">
+                                            <div class="flex items-center justify-between">
+                                                <span class="text-white text-sm font-medium">{formatDate(handover.businessDate)}</span>
+                                                <span class={`flex items-center gap-1 text-xs ${config.color}`}>
+                                                    <config.icon class="w-3.5 h-3.5" />
+                                                    {config.label}
+                                                </span>
+                                            </div>
+                                            <div class="flex justify-between text-xs text-slate-400 mt-1">
+                                                <span>Declared {formatCurrency(handover.declaredAmount)}</span>
+                                                <Show when={handover.receivedAmount !== null}>
+                                                    <span>Received {formatCurrency(handover.receivedAmount)}</span>
+                                                </Show>
+                                            </div>
+                                            <Show when={handover.status === 'confirmed' && difference() !== 0}>
+                                                <div class={`text-xs mt-1 ${difference() < 0 ? 'text-red-400' : 'text-emerald-400'}`}>
+                                                    {difference() < 0 ? 'Shortage' : 'Overage'}: {formatCurrency(Math.abs(difference()))}
+                                                </div>
+                                            </Show>
+                                            <Show when={handover.cashierNotes}>
+                                                <div class="text-xs text-slate-500 mt-1">{handover.cashierNotes}</div>
+                                            </Show>
+                                        </div>
+                                    );
+                                }}
+                            </For>
+                        </div>
+                    </div>
+                </Show>
+            </Show>
+        </div>
+    );
+};
+
+export default Cash;
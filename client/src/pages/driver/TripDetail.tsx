@@ -1,4 +1,4 @@
-import { type Component, For, Show, createSignal, createResource } from 'solid-js';
+import { type Component, For, Show, createSignal, createResource, onMount } from 'solid-js';
 import { useParams, useNavigate } from '@solidjs/router';
 import {
     ArrowLeft,
@@ -11,10 +11,32 @@ import {
     AlertCircle,
     DollarSign,
     Loader2,
-    XCircle
+    XCircle,
+    Camera,
+    PenLine,
+    Crosshair,
+    X
 } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { formatCurrency } from '../../stores/settings';
+import { getImageUrl } from '../../utils/formatters';
+import { toast } from '../../components/Toast';
+import SignaturePad from '../../components/SignaturePad';
+
+const MAX_PROOF_PHOTOS = 5;
+
+interface OrderLine {
+    id: string;
+    productName: string | null;
+    sku: string | null;
+    unitPrice: string;
+    qtyOrdered: number;
+    qtyPicked: number | null;
+    lineTotal: string;
+}
+
+// Goods that left the warehouse for the line
+const shippedQty = (line: OrderLine) => (line.qtyPicked ?? 0) > 0 ? line.qtyPicked! : line.qtyOrdered;
 
 interface TripOrder {
     id: string;
@@ -25,6 +47,9 @@ interface TripOrder {
     status: string;
     sequence: number;
     deliveryNotes: string | null;
+    deliveredAt: string | null;
+    proofCapturedAt: string | null;
+    proofRecipientName: string | null;
 }
 
 interface TripDetail {
@@ -37,6 +62,7 @@ interface TripDetail {
     notes: string | null;
     driverName: string | null;
     vehicleName: string | null;
+    proofRequired: boolean;
     orders: TripOrder[];
 }
 
@@ -63,6 +89,8 @@ const TripDetail: Component = () => {
                 return { color: 'text-yellow-400', bg: 'bg-yellow-500/10', icon: AlertCircle, label: 'Partial' };
             case 'cancelled':
                 return { color: 'text-red-400', bg: 'bg-red-500/10', icon: XCircle, label: 'Cancelled' };
+            case 'returned':
+                return { color: 'text-red-400', bg: 'bg-red-500/10', icon: XCircle, label: 'Refused' };
             default:
                 return { color: 'text-blue-400', bg: 'bg-blue-500/10', icon: Package, label: 'Pending' };
         }
@@ -76,6 +104,8 @@ const TripDetail: Component = () => {
                 body: JSON.stringify({ status: 'in_progress' })
             });
             refetch();
+        } catch (err: any) {
+            toast.error(err?.message || 'Failed to start trip');
         } finally {
             setActionLoading(null);
         }
@@ -101,7 +131,7 @@ const TripDetail: Component = () => {
 
     // formatCurrency is now imported from settings store
 
-    const pendingDeliveries = () => trip()?.orders.filter(o => !['delivered', 'cancelled'].includes(o.status)).length || 0;
+    const pendingDeliveries = () => trip()?.orders.filter(o => !['delivered', 'partial', 'cancelled', 'returned'].includes(o.status)).length || 0;
     const completedDeliveries = () => trip()?.orders.filter(o => o.status === 'delivered').length || 0;
 
     return (
@@ -211,7 +241,14 @@ const TripDetail: Component = () => {
                                             </div>
                                         </Show>
 
-                                        <Show when={!['delivered', 'cancelled'].includes(order.status)}>
+                                        <Show when={order.proofCapturedAt}>
+                                            <div class="flex items-center gap-2 mb-3 text-emerald-400 text-xs">
+                                                <PenLine class="w-3.5 h-3.5" />
+                                                <span class="truncate">Received by {order.proofRecipientName}</span>
+                                            </div>
+                                        </Show>
+
+                                        <Show when={trip()?.status === 'in_progress' && !['delivered', 'partial', 'cancelled', 'returned'].includes(order.status)}>
                                             <div class="flex gap-2">
                                                 <Show when={order.address}>
                                                     <button
@@ -285,6 +322,7 @@ const TripDetail: Component = () => {
                 <DeliveryConfirmModal
                     order={showConfirmModal()!}
                     tripId={params.id || ''}
+                    proofRequired={trip()?.proofRequired ?? false}
                     onClose={() => setShowConfirmModal(null)}
                     onConfirm={() => { setShowConfirmModal(null); refetch(); }}
                 />
@@ -297,26 +335,136 @@ const TripDetail: Component = () => {
 const DeliveryConfirmModal: Component<{
     order: TripOrder;
     tripId: string;
+    proofRequired: boolean;
     onClose: () => void;
     onConfirm: () => void;
 }> = (props) => {
     const [loading, setLoading] = createSignal(false);
     const [deliveryType, setDeliveryType] = createSignal<'full' | 'partial' | 'refused'>('full');
     const [notes, setNotes] = createSignal('');
+    const [recipientName, setRecipientName] = createSignal(props.order.proofRecipientName || '');
+    const [signature, setSignature] = createSignal<string | null>(null);
+    const [photos, setPhotos] = createSignal<{ url: string; thumb: string }[]>([]);
+    const [uploading, setUploading] = createSignal(false);
+    const [position, setPosition] = createSignal<GeolocationPosition | null>(null);
+    const [locating, setLocating] = createSignal(false);
+    const [delivered, setDelivered] = createSignal<Record<string, { qty: number; reason: string }>>({});
+
+    // Order lines, loaded once for recording partial deliveries
+    const [lines] = createResource(
+        () => props.order.id,
+        async (id) => {
+            const result = await api<{ items: OrderLine[] }>(`/delivery/orders/${id}`);
+            const initial: Record<string, { qty: number; reason: string }> = {};
+            for (const line of result.items) initial[line.id] = { qty: shippedQty(line), reason: '' };
+            setDelivered(initial);
+            return result.items;
+        }
+    );
+
+    const setLineQty = (line: OrderLine, value: number) => {
+        const qty = Math.min(shippedQty(line), Math.max(0, Math.floor(value) || 0));
+        setDelivered({ ...delivered(), [line.id]: { ...delivered()[line.id], qty } });
+    };
+    const setLineReason = (id: string, reason: string) => setDelivered({ ...delivered(), [id]: { ...delivered()[id], reason } });
+
+    const shortLines = () => (lines() || []).filter(line => (delivered()[line.id]?.qty ?? line.qtyOrdered) < line.qtyOrdered);
+    // Line value kept after the shortfall; order-level discounts are applied by the server
+    const deliveredValue = () => (lines() || []).reduce((sum, line) => {
+        const qty = delivered()[line.id]?.qty ?? line.qtyOrdered;
+        return sum + (line.qtyOrdered > 0 ? parseFloat(line.lineTotal) * qty / line.qtyOrdered : 0);
+    }, 0);
+
+    const needsProof = () => deliveryType() !== 'refused';
+    const hasProofInput = () => !!signature() || photos().length > 0;
+    const hasSavedProof = () => !!props.order.proofCapturedAt;
+
+    // GPS fix at handover; delivery can still be confirmed without one
+    const locate = () => {
+        if (!navigator.geolocation) return;
+        setLocating(true);
+        navigator.geolocation.getCurrentPosition(
+            (pos) => { setPosition(pos); setLocating(false); },
+            () => setLocating(false),
+            { enableHighAccuracy: true, timeout: 15000, maximumAge: 30000 }
+        );
+    };
+    onMount(locate);
+
+    const handlePhotoSelect = async (e: Event) => {
+        const input = e.currentTarget as HTMLInputElement;
+        const files = Array.from(input.files || []).slice(0, MAX_PROOF_PHOTOS - photos().length);
+        input.value = '';
+        if (files.length === 0) return;
+
+        setUploading(true);
+        try {
+            for (const file of files) {
+                const formData = new FormData();
+                formData.append('file', file);
+                const result: any = await api('/uploads', { method: 'POST', body: formData });
+                if (result?.url) setPhotos([...photos(), { url: result.url, thumb: result.thumbnails?.thumb || result.url }]);
+            }
+        } catch (err: any) {
+            toast.error(err?.message || 'Failed to upload photo');
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const removePhoto = (url: string) => setPhotos(photos().filter(p => p.url !== url));
 
     const handleConfirm = async () => {
+        if (deliveryType() === 'partial' && shortLines().length === 0) {
+            toast.error('Reduce the delivered quantity of at least one line');
+            return;
+        }
+        if (needsProof() && hasProofInput() && !recipientName().trim()) {
+            toast.error('Enter the name of the person receiving the order');
+            return;
+        }
+        if (needsProof() && props.proofRequired && !hasSavedProof() && (!hasProofInput() || !recipientName().trim())) {
+            toast.error('Recipient name and a signature or photo are required');
+            return;
+        }
+
         setLoading(true);
         try {
-            // This would call a delivery confirmation endpoint
-            // For now, we'll update the order status
-            await api(`/orders/${props.order.id}`, {
-                method: 'PATCH',
+            const base = `/delivery/trips/${props.tripId}/orders/${props.order.id}`;
+
+            if (needsProof() && hasProofInput()) {
+                const pos = position();
+                await api(`${base}/proof`, {
+                    method: 'POST',
+                    body: JSON.stringify({
+                        recipientName: recipientName().trim(),
+                        signature: signature() || undefined,
+                        photoUrls: photos().map(p => p.url),
+                        latitude: pos?.coords.latitude,
+                        longitude: pos?.coords.longitude,
+                        accuracy: pos?.coords.accuracy,
+                        capturedAt: new Date().toISOString(),
+                    })
+                });
+            }
+
+            await api(`${base}/complete`, {
+                method: 'POST',
                 body: JSON.stringify({
-                    status: deliveryType() === 'refused' ? 'cancelled' : deliveryType() === 'partial' ? 'partial' : 'delivered',
-                    deliveryNotes: notes() || undefined
+                    outcome: deliveryType() === 'refused' ? 'refused' : deliveryType() === 'partial' ? 'partial' : 'delivered',
+                    notes: notes() || undefined,
+                    lines: deliveryType() === 'partial'
+                        ? shortLines().map(line => ({
+                            orderItemId: line.id,
+                            qtyDelivered: delivered()[line.id].qty,
+                            reason: delivered()[line.id].reason.trim() || undefined,
+                        }))
+                        : undefined
                 })
             });
             props.onConfirm();
+        } catch (err: any) {
+            toast.error(err?.message || 'Failed to confirm delivery');
         } finally {
             setLoading(false);
         }
@@ -364,6 +512,161 @@ const DeliveryConfirmModal: Component<{
                     </div>
                 </div>
 
+                {/* Delivered Quantities */}
+                <Show when={deliveryType() === 'partial'}>
+                    <div class="mb-6">
+                        <label class="block text-white font-medium mb-3">Delivered Quantities</label>
+                        <Show when={!lines.loading} fallback={
+                            <div class="flex justify-center py-6"><Loader2 class="w-6 h-6 text-slate-500 animate-spin" /></div>
+                        }>
+                            <div class="space-y-2">
+                                <For each={lines()}>
+                                    {(line) => {
+                                        const entry = () => delivered()[line.id];
+                                        const isShort = () => (entry()?.qty ?? line.qtyOrdered) < line.qtyOrdered;
+                                        return (
+                                            <div class={`bg-slate-900/60 border rounded-xl p-3 ${isShort() ? 'border-yellow-500/40' : 'border-slate-800/50'}`}>
+                                                <div class="flex items-center justify-between gap-3">
+                                                    <div class="min-w-0">
+                                                        <div class="text-white text-sm font-medium truncate">{line.productName}</div>
+                                                        <div class="text-slate-500 text-xs">
+                                                            Shipped {shippedQty(line)} × {formatCurrency(line.unitPrice)}
+                                                        </div>
+                                                    </div>
+                                                    <div class="flex items-center gap-1 shrink-0">
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setLineQty(line, (entry()?.qty ?? 0) - 1)}
+                                                            class="w-8 h-8 rounded-lg bg-slate-800 text-white"
+                                                        >
+                                                            −
+                                                        </button>
+                                                        <input
+                                                            type="number"
+                                                            min={0}
+                                                            max={shippedQty(line)}
+                                                            value={entry()?.qty ?? 0}
+                                                            onInput={(e) => setLineQty(line, parseInt(e.currentTarget.value, 10))}
+                                                            class="w-14 py-1.5 bg-slate-900 border border-slate-800 rounded-lg text-white text-center"
+                                                        />
+                                                        <button
+                                                            type="button"
+                                                            onClick={() => setLineQty(line, (entry()?.qty ?? 0) + 1)}
+                                                            class="w-8 h-8 rounded-lg bg-slate-800 text-white"
+                                                        >
+                                                            +
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                                <Show when={isShort()}>
+                                                    <input
+                                                        type="text"
+                                                        value={entry()?.reason ?? ''}
+                                                        onInput={(e) => setLineReason(line.id, e.currentTarget.value)}
+                                                        placeholder="Reason (damaged, not needed...)"
+                                                        maxLength={500}
+                                                        class="w-full mt-2 px-3 py-2 bg-slate-900 border border-slate-800 rounded-lg text-white text-sm placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-yellow-500/50"
+                                                    />
+                                                </Show>
+                                            </div>
+                                        );
+                                    }}
+                                </For>
+                            </div>
+                            <Show when={shortLines().length > 0}>
+                                <div class="mt-3 text-sm text-slate-400">
+                                    Delivered value: <span class="text-white font-semibold">{formatCurrency(deliveredValue())}</span>
+                                    <span class="block text-xs text-slate-500 mt-1">The rest goes back to the warehouse as a return.</span>
+                                </div>
+                            </Show>
+                        </Show>
+                    </div>
+                </Show>
+
+                <Show when={deliveryType() === 'refused'}>
+                    <div class="mb-6 p-3 rounded-xl bg-red-500/10 text-red-300 text-sm">
+                        All goods go back to the warehouse and the order amount is taken off the customer's balance.
+                    </div>
+                </Show>
+
+                {/* Proof of Delivery */}
+                <Show when={needsProof()}>
+                    <div class="mb-6 space-y-4">
+                        <div class="flex items-center justify-between">
+                            <label class="text-white font-medium">
+                                Proof of Delivery {props.proofRequired ? '' : '(Optional)'}
+                            </label>
+                            <Show when={hasSavedProof()}>
+                                <span class="text-xs text-emerald-400">Already captured</span>
+                            </Show>
+                        </div>
+
+                        <div>
+                            <label class="block text-slate-400 text-sm mb-2">Received by</label>
+                            <input
+                                type="text"
+                                value={recipientName()}
+                                onInput={(e) => setRecipientName(e.currentTarget.value)}
+                                placeholder="Recipient name"
+                                class="w-full px-4 py-3 bg-slate-900 border border-slate-800 rounded-xl text-white placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                            />
+                        </div>
+
+                        <div>
+                            <label class="flex items-center gap-2 text-slate-400 text-sm mb-2">
+                                <PenLine class="w-4 h-4" />
+                                Signature
+                            </label>
+                            <SignaturePad onChange={setSignature} />
+                        </div>
+
+                        <div>
+                            <label class="flex items-center gap-2 text-slate-400 text-sm mb-2">
+                                <Camera class="w-4 h-4" />
+                                Photos ({photos().length}/{MAX_PROOF_PHOTOS})
+                            </label>
+                            <div class="flex flex-wrap gap-2">
+                                <For each={photos()}>
+                                    {(photo) => (
+                                        <div class="relative w-20 h-20">
+                                            <img src={getImageUrl(photo.thumb)} class="w-20 h-20 object-cover rounded-lg" />
+                                            <button
+                                                type="button"
+                                                onClick={() => removePhoto(photo.url)}
+                                                class="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-slate-800 text-slate-300 flex items-center justify-center"
+                                            >
+                                                <X class="w-3 h-3" />
+                                            </button>
+                                        </div>
+                                    )}
+                                </For>
+                                <Show when={photos().length < MAX_PROOF_PHOTOS}>
+                                    <label class="w-20 h-20 rounded-lg border border-dashed border-slate-700 flex items-center justify-center text-slate-500 cursor-pointer">
+                                        <Show when={uploading()} fallback={<Camera class="w-6 h-6" />}>
+                                            <Loader2 class="w-6 h-6 animate-spin" />
+                                        </Show>
+                                        <input type="file" accept="image/*" capture="environment" multiple class="hidden" onChange={handlePhotoSelect} disabled={uploading()} />
+                                    </label>
+                                </Show>
+                            </div>
+                        </div>
+
+                        <div class="flex items-center gap-2 text-xs">
+                            <Crosshair class="w-4 h-4 text-slate-500" />
+                            <Show when={position()} fallback={
+                                <span class="text-slate-500">
+                                    {locating() ? 'Getting location...' : 'Location unavailable'}
+                                    <Show when={!locating()}>
+                                        <button type="button" onClick={locate} class="ml-2 text-emerald-400">Retry</button>
+                                    </Show>
+                                </span>
+                            }>
+                                <span class="text-slate-400">Location captured (±{Math.round(position()!.coords.accuracy)} m)</span>
+                            </Show>
+                        </div>
+                    </div>
+                </Show>
+
                 {/* Notes */}
                 <div class="mb-6">
                     <label class="block text-white font-medium mb-2">Notes (Optional)</label>
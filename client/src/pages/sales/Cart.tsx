@@ -1,4 +1,4 @@
-import { type Component, For, Show, createSignal, onMount } from 'solid-js';
+import { type Component, For, Show, createSignal, createResource, onMount } from 'solid-js';
 import { A, useNavigate } from '@solidjs/router';
 import {
     ArrowLeft,
@@ -9,7 +9,9 @@ import {
     ShoppingBag,
     Send,
     AlertCircle,
-    CheckCircle2
+    CheckCircle2,
+    Tag,
+    X
 } from 'lucide-solid';
 import {
     cartItems,
@@ -18,6 +20,7 @@ import {
     cartCount,
     updateCartQuantity,
     removeFromCart,
+    setCartItemPack,
     clearCart,
     selectedCustomerId,
     setCustomer,
@@ -29,6 +32,22 @@ import { formatCurrency } from '../../stores/settings';
 import { useI18n } from '../../i18n';
 import AddCustomerModal from './AddCustomerModal';
 
+// Server-side price of the cart (POST /orders/quote)
+interface OrderQuote {
+    lines: {
+        productId: string;
+        unitPrice: number;
+        priceListName: string | null;
+        discountAmount: number;
+        netTotal: number;
+        explanations: { name: string; description: string; amount: number }[];
+    }[];
+    subtotalAmount: number;
+    discountAmount: number;
+    totalAmount: number;
+    promoCode: { code: string; applied: boolean } | null;
+}
+
 const Cart: Component = () => {
     const { t } = useI18n();
     const navigate = useNavigate();
@@ -37,6 +56,30 @@ const Cart: Component = () => {
     const [success, setSuccess] = createSignal(false);
     const [showCustomerSelect, setShowCustomerSelect] = createSignal(false);
     const [customerName, setCustomerName] = createSignal<string>('');
+    const [promoInput, setPromoInput] = createSignal('');
+    const [promoCode, setPromoCode] = createSignal<string | null>(null);
+    const [promoError, setPromoError] = createSignal<string | null>(null);
+
+    const quoteItems = () => cartItems().map(item => ({ productId: item.productId, qtyOrdered: item.quantity, unit: item.packUnit ?? null }));
+
+    // Discounts depend on the customer, so the cart is priced once one is selected
+    const [quote] = createResource(
+        () => selectedCustomerId() && cartItems().length > 0
+            ? { customerId: selectedCustomerId()!, items: quoteItems(), promoCode: promoCode() ?? undefined }
+            : false,
+        async (body) => {
+            try {
+                return await api.post<OrderQuote>('/orders/quote', body);
+            } catch (error) {
+                console.error('Failed to price cart:', error);
+                return null;
+            }
+        }
+    );
+    const lineQuote = (productId: string) => quote()?.lines.find(line => line.productId === productId);
+    const subtotal = () => quote()?.subtotalAmount ?? cartSubtotal();
+    const discount = () => quote()?.discountAmount ?? 0;
+    const total = () => quote()?.totalAmount ?? cartTotal();
     
     // Initialize customer name when component mounts if customer is already selected
     onMount(async () => {
@@ -60,6 +103,25 @@ const Cart: Component = () => {
         }
     };
 
+    // A code is kept only once the server has applied it to this cart
+    const handleApplyPromo = async () => {
+        const code = promoInput().trim();
+        if (!code || !selectedCustomerId()) return;
+
+        setPromoError(null);
+        try {
+            const result = await api.post<OrderQuote>('/orders/quote', { customerId: selectedCustomerId(), items: quoteItems(), promoCode: code });
+            if (result.promoCode?.applied) {
+                setPromoCode(result.promoCode.code);
+                setPromoInput('');
+            } else {
+                setPromoError('Promo code does not apply to this cart');
+            }
+        } catch (err: any) {
+            setPromoError(err.message || 'Invalid promo code');
+        }
+    };
+
     const handleSubmitOrder = async () => {
         if (!selectedCustomerId()) {
             setError(t('salesApp.cart.selectCustomerFirst'));
@@ -75,22 +137,17 @@ const Cart: Component = () => {
         setError(null);
 
         try {
-            // Build order items with correct field names
+            // Totals are calculated by the server; the customer's price shown is sent so a change is caught
             const orderItems = cartItems().map(item => ({
                 productId: item.productId,
                 qtyOrdered: item.quantity,
-                unitPrice: Number(item.price),
-                lineTotal: Number(item.price) * item.quantity
+                unit: item.packUnit ?? null,
+                unitPrice: lineQuote(item.productId)?.unitPrice ?? Number(item.price)
             }));
 
-            // Calculate totals
-            const subtotal = cartSubtotal();
-            const total = cartTotal();
-
             await api.post('/orders', {
                 customerId: selectedCustomerId(),
-                subtotalAmount: subtotal,
-                totalAmount: total,
+                promoCode: promoCode() ?? undefined,
                 items: orderItems
             });
 
@@ -105,6 +162,7 @@ const Cart: Component = () => {
             }
 
             setSuccess(true);
+            setPromoCode(null);
             clearCart();
 
             setTimeout(() => {
@@ -225,10 +283,31 @@ const Cart: Component = () => {
                                     <div class="flex-1 min-w-0">
                                         <h3 class="text-white font-medium text-sm line-clamp-1">{item.name}</h3>
                                         <div class="flex items-center gap-2 mt-0.5">
-                                            <span class="text-slate-500 text-xs">{formatCurrency(item.price)}</span>
+                                            <span class="text-slate-500 text-xs" title={lineQuote(item.productId)?.priceListName ?? undefined}>
+                                                {formatCurrency((lineQuote(item.productId)?.unitPrice ?? item.price) * (item.packFactor ?? 1))} / {item.packUnit ?? item.unit}
+                                            </span>
                                             <span class="text-slate-700 text-xs">|</span>
-                                            <span class="text-blue-400 text-xs font-semibold">Total: {formatCurrency(item.price * item.quantity)}</span>
+                                            <span class="text-blue-400 text-xs font-semibold">Total: {formatCurrency(lineQuote(item.productId)?.netTotal ?? item.price * item.quantity * (item.packFactor ?? 1))}</span>
                                         </div>
+                                        <Show when={item.packs && item.packs.length > 0}>
+                                            <select
+                                                value={item.packUnit ?? ''}
+                                                onChange={(e) => setCartItemPack(item.productId, item.packs!.find(p => p.unit === e.currentTarget.value) ?? null)}
+                                                class="mt-1 bg-slate-800 border border-slate-700 rounded-md px-1.5 py-0.5 text-[11px] text-slate-300"
+                                            >
+                                                <option value="">{item.unit}</option>
+                                                <For each={item.packs}>
+                                                    {(pack) => <option value={pack.unit}>{pack.unit} × {pack.factor}</option>}
+                                                </For>
+                                            </select>
+                                        </Show>
+                                        <For each={lineQuote(item.productId)?.explanations || []}>
+                                            {(explanation) => (
+                                                <div class="text-emerald-400 text-[11px] line-clamp-1">
+                                                    {explanation.name}: {explanation.description} (-{formatCurrency(explanation.amount)})
+                                                </div>
+                                            )}
+                                        </For>
                                     </div>
 
                                     {/* Quantity Controls */}
@@ -267,6 +346,7 @@ const Cart: Component = () => {
                     onSelect={(id, name) => {
                         setCustomer(id);
                         setCustomerName(name);
+                        setPromoCode(null);
                         setShowCustomerSelect(false);
                         setError(null);
                     }}
@@ -277,13 +357,52 @@ const Cart: Component = () => {
             {/* Bottom Summary & Submit */}
             <Show when={cartCount() > 0}>
                 <div class="fixed bottom-16 left-0 right-0 bg-slate-900/95 backdrop-blur-md border-t border-slate-800/50 p-4 z-30">
+                    <Show when={selectedCustomerId()}>
+                        <Show when={promoCode()} fallback={
+                            <div class="flex gap-2 mb-3">
+                                <input
+                                    type="text"
+                                    value={promoInput()}
+                                    onInput={(e) => setPromoInput(e.currentTarget.value.toUpperCase())}
+                                    placeholder="Promo code"
+                                    class="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-sm uppercase focus:outline-none focus:ring-2 focus:ring-blue-500"
+                                />
+                                <button
+                                    onClick={handleApplyPromo}
+                                    disabled={!promoInput().trim()}
+                                    class="px-4 py-2 bg-slate-800 border border-slate-700 rounded-lg text-slate-300 text-sm disabled:opacity-50"
+                                >
+                                    Apply
+                                </button>
+                            </div>
+                        }>
+                            <div class="flex items-center justify-between mb-3 px-3 py-2 bg-emerald-500/10 border border-emerald-500/20 rounded-lg">
+                                <span class="flex items-center gap-2 text-emerald-400 text-sm font-medium">
+                                    <Tag class="w-4 h-4" />
+                                    {promoCode()}
+                                </span>
+                                <button onClick={() => setPromoCode(null)} class="text-slate-400 hover:text-white">
+                                    <X class="w-4 h-4" />
+                                </button>
+                            </div>
+                        </Show>
+                        <Show when={promoError()}>
+                            <p class="text-red-400 text-xs -mt-2 mb-3">{promoError()}</p>
+                        </Show>
+                    </Show>
                     <div class="flex items-center justify-between mb-3">
                         <span class="text-slate-400">Subtotal</span>
-                        <span class="text-white font-medium">{formatCurrency(cartSubtotal())}</span>
+                        <span class="text-white font-medium">{formatCurrency(subtotal())}</span>
                     </div>
+                    <Show when={discount() > 0}>
+                        <div class="flex items-center justify-between mb-3">
+                            <span class="text-slate-400">Discount</span>
+                            <span class="text-emerald-400 font-medium">-{formatCurrency(discount())}</span>
+                        </div>
+                    </Show>
                     <div class="flex items-center justify-between mb-4">
                         <span class="text-white font-semibold text-lg">Total</span>
-                        <span class="text-white font-bold text-xl">{formatCurrency(cartTotal())}</span>
+                        <span class="text-white font-bold text-xl">{formatCurrency(total())}</span>
                     </div>
                     <button
                         onClick={handleSubmitOrder}
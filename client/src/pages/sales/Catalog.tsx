@@ -19,6 +19,7 @@ import { getImageUrl } from '../../utils/formatters';
 import { useI18n } from '../../i18n';
 import ProductDetailModal from './ProductDetailModal';
 import BarcodeScanner from '../../components/BarcodeScanner';
+import { groupVariants, attributeValues, pickVariant } from '../../utils/variants';
 
 interface Product {
     id: string;
@@ -31,7 +32,30 @@ interface Product {
     categoryName: string | null;
     subcategoryName: string | null;
     imageUrl: string | null;
-    barcode?: string;
+    barcode?: string | null;
+    units?: { unit: string; factor: number }[];
+    variantAttributes?: Record<string, string> | null;
+    family?: ProductFamily | null;
+}
+
+interface ProductVariant {
+    id: string;
+    name: string;
+    sku: string;
+    barcode: string | null;
+    price: string;
+    unit: string;
+    stockQuantity: number;
+    imageUrl: string | null;
+    attributes: Record<string, string>;
+    units?: { unit: string; factor: number }[];
+}
+
+interface ProductFamily {
+    id: string;
+    name: string;
+    attributes: string[];
+    variants: ProductVariant[];
 }
 
 interface Category {
@@ -104,7 +128,9 @@ const Catalog: Component = () => {
         }
     );
 
-    const products = () => (productsResponse() as any)?.data || productsResponse() || [];
+    const products = (): Product[] => (productsResponse() as any)?.data || productsResponse() || [];
+    // One card per family; its variants are picked on the card
+    const cards = () => groupVariants(products());
 
     // Check if product is in cart
     const getCartQuantity = (productId: string): number => {
@@ -120,6 +146,7 @@ const Catalog: Component = () => {
             sku: product.sku,
             price: parseFloat(product.price),
             unit: product.unit,
+            packs: product.units?.map(u => ({ unit: u.unit, factor: u.factor })),
             image: product.imageUrl || undefined
         });
     };
@@ -133,7 +160,9 @@ const Catalog: Component = () => {
     const handleBarcodeScanned = (barcode: string) => {
         setSearchQuery(barcode);
         // Try to find and auto-add to cart
-        const allProducts = products();
+        const allProducts = products().flatMap(p => p.family
+            ? p.family.variants.map(v => ({ ...p, ...v, variantAttributes: v.attributes }))
+            : [p]);
         const match = allProducts.find((p: Product) =>
             p.barcode === barcode || p.sku === barcode
         );
@@ -302,29 +331,36 @@ const Catalog: Component = () => {
                 {/* Product Grid */}
                 <Show when={!productsResponse.loading && products().length > 0}>
                     <div class="grid grid-cols-2 gap-3">
-                        <For each={products()}>
+                        <For each={cards()}>
                             {(product) => {
-                                const qty = () => getCartQuantity(product.id);
+                                const [variantId, setVariantId] = createSignal(product.id);
+                                // The picked variant of a family card, else the product itself
+                                const variant = () => product.family?.variants.find(v => v.id === variantId());
+                                const item = (): Product => {
+                                    const picked = variant();
+                                    return picked ? { ...product, ...picked, variantAttributes: picked.attributes } : product;
+                                };
+                                const qty = () => getCartQuantity(item().id);
                                 const inCart = () => qty() > 0;
 
                                 return (
                                     <div class="bg-slate-900/60 border border-slate-800/50 rounded-2xl overflow-hidden backdrop-blur-sm group">
                                         {/* Product Image - Tap to view details */}
                                         <div
-                                            onClick={() => setSelectedProductId(product.id)}
+                                            onClick={() => setSelectedProductId(item().id)}
                                             class="aspect-square bg-gradient-to-br from-slate-800 to-slate-900 relative flex items-center justify-center overflow-hidden cursor-pointer"
                                         >
-                                            <Show when={product.imageUrl} fallback={
+                                            <Show when={item().imageUrl} fallback={
                                                 <Package class="w-12 h-12 text-slate-700" />
                                             }>
                                                 <img
-                                                    src={getImageUrl(product.imageUrl!)}
-                                                    alt={product.name}
+                                                    src={getImageUrl(item().imageUrl!)}
+                                                    alt={item().name}
                                                     class="w-full h-full object-cover"
                                                     loading="lazy"
                                                 />
                                             </Show>
-                                            <Show when={product.stockQuantity <= 0}>
+                                            <Show when={item().stockQuantity <= 0}>
                                                 <div class="absolute inset-0 bg-slate-950/80 flex items-center justify-center">
                                                     <span class="text-red-400 text-xs font-bold px-2 py-1 bg-red-500/20 rounded-full border border-red-500/30">
                                                         {t('salesApp.catalog.outOfStock')}
@@ -345,37 +381,67 @@ const Catalog: Component = () => {
                                                 <Show when={product.brandName}>
                                                     <span class="text-blue-400">{product.brandName}</span>{' '}
                                                 </Show>
-                                                {product.name}
+                                                {item().name}
                                             </h3>
 
+                                            {/* Variant picker: one row of values per family attribute */}
+                                            <Show when={product.family}>
+                                                {(family) => (
+                                                    <div class="mt-1 space-y-1">
+                                                        <For each={family().attributes}>
+                                                            {(attribute) => (
+                                                                <div class="flex flex-wrap gap-1">
+                                                                    <For each={attributeValues(family(), attribute)}>
+                                                                        {(value) => (
+                                                                            <button
+                                                                                onClick={() => {
+                                                                                    const next = pickVariant(family(), item().variantAttributes || {}, attribute, value);
+                                                                                    if (next) setVariantId(next.id);
+                                                                                }}
+                                                                                class={`px-1.5 py-0.5 rounded-md text-[10px] font-medium transition-colors ${item().variantAttributes?.[attribute] === value
+                                                                                    ? 'bg-blue-600 text-white'
+                                                                                    : 'bg-slate-800 text-slate-400'
+                                                                                    }`}
+                                                                            >
+                                                                                {value}
+                                                                            </button>
+                                                                        )}
+                                                                    </For>
+                                                                </div>
+                                                            )}
+                                                        </For>
+                                                    </div>
+                                                )}
+                                            </Show>
+
                                             {/* Line 2: Price + Stock + Add Button */}
                                             <div class="flex items-center justify-between mt-1.5">
                                                 <div class="flex items-center gap-2">
                                                     <span class="text-white font-bold text-sm">
-                                                        {formatCurrency(product.price)}
+                                                        {formatCurrency(item().price)}
                                                     </span>
-                                                    <span class={`text-[10px] font-medium ${product.stockQuantity <= 0
+                                                    <span class={`text-[10px] font-medium ${item().stockQuantity <= 0
                                                         ? 'text-red-400'
-                                                        : product.stockQuantity <= 10
+                                                        : item().stockQuantity <= 10
                                                             ? 'text-amber-400'
                                                             : 'text-emerald-400'
                                                         }`}>
-                                                        {product.stockQuantity <= 0 ? 'Out' : product.stockQuantity}
+                                                        {item().stockQuantity <= 0 ? 'Out' : item().stockQuantity}
                                                     </span>
                                                 </div>
 
-                                                <Show when={product.stockQuantity > 0}>
+                                                <Show when={item().stockQuantity > 0}>
                                                     <Show when={!inCart()} fallback={
                                                         <div class="flex items-center gap-0.5">
                                                             <button
-                                                                onClick={() => handleQuantityChange(product.id, -1)}
+                                                                onClick={() => handleQuantityChange(item().id, -1)}
                                                                 class="w-7 h-7 rounded-lg bg-slate-800 text-white flex items-center justify-center active:scale-95"
                                                             >
                                                                 <Minus class="w-3 h-3" />
                                                             </button>
                                                             <span class="w-6 text-center text-white font-medium text-xs">{qty()}</span>
                                                             <button
-                                                                onClick={() => handleQuantityChange(product.id, 1)}
+                                                                onClick={() => handleQuantityChange(item().id, 1)}
                                                                 class="w-7 h-7 rounded-lg bg-blue-600 text-white flex items-center justify-center active:scale-95"
                                                             >
                                                                 <Plus class="w-3 h-3" />
@@ -383,7 +449,7 @@ const Catalog: Component = () => {
                                                         </div>
                                                     }>
                                                         <button
-                                                            onClick={() => handleAddToCart(product)}
+                                                            onClick={() => handleAddToCart(item())}
                                                             class="w-8 h-8 rounded-lg bg-blue-600 text-white flex items-center justify-center active:scale-95 shadow-lg shadow-blue-600/20"
                                                         >
                                                             <Plus class="w-4 h-4" />
@@ -415,7 +481,7 @@ const Catalog: Component = () => {
             {/* Product Detail Modal */}
             <Show when={selectedProductId()}>
                 {(() => {
-                    const currentProducts = products();
+                    const currentProducts = cards();
                     const currentIndex = currentProducts.findIndex((p: Product) => p.id === selectedProductId());
                     const hasNext = currentIndex < currentProducts.length - 1;
                     const hasPrev = currentIndex > 0;
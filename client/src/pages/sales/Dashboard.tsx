@@ -20,6 +20,7 @@ import {
     ArrowUpRight,
     ArrowDownRight,
     Zap,
+    Wallet,
     DollarSign,
     Calendar,
     PhoneCall,
@@ -34,9 +35,11 @@ import {
     Cloudy,
     Wind,
     Droplets,
-    Award
+    Award,
+    Save
 } from 'lucide-solid';
 import { api } from '../../lib/api';
+import { toast } from '../../components/Toast';
 import { currentUser, logout } from '../../stores/auth';
 import { formatCurrency, formatDate } from '../../stores/settings';
 import { useBranding } from '../../stores/branding';
@@ -107,10 +110,13 @@ interface RouteOptimization {
         plannedTime?: string;
         visitType: string;
         sequence: number;
+        eta?: string;
+        lateMin?: number;
     }>;
     totalVisits: number;
     estimatedDistance: number;
     estimatedTime: number;
+    lateVisits?: number;
 }
 
 interface Gamification {
@@ -248,6 +254,21 @@ const Dashboard: Component = () => {
     const timeInsights = () => dashboardData()?.timeInsights;
     const performanceMetrics = () => dashboardData()?.performanceMetrics;
     const routeOptimization = () => dashboardData()?.routeOptimization;
+    const [savingRoute, setSavingRoute] = createSignal(false);
+
+    const saveRouteOrder = async () => {
+        const visitIds = routeOptimization()?.visits?.map(v => v.visitId) ?? [];
+        if (visitIds.length === 0) return;
+        setSavingRoute(true);
+        try {
+            await api.post('/orders/route-optimization/apply', { visitIds });
+            toast.success('Visit order saved');
+        } catch (error: any) {
+            toast.error(error?.message || 'Failed to save visit order');
+        } finally {
+            setSavingRoute(false);
+        }
+    };
     const gamification = () => dashboardData()?.gamification;
     const weather = () => dashboardData()?.weather;
     const followUps = () => dashboardData()?.followUps;
@@ -472,6 +493,13 @@ const Dashboard: Component = () => {
                         <Package class="w-4 h-4 text-orange-400" />
                         <span class="text-sm text-white">View Orders</span>
                     </button>
+                    <button
+                        onClick={() => navigate('/sales/cash')}
+                        class="col-span-2 flex items-center gap-2 p-3 bg-slate-800/50 hover:bg-slate-800 rounded-xl text-left transition-colors"
+                    >
+                        <Wallet class="w-4 h-4 text-teal-400" />
+                        <span class="text-sm text-white">Cash Handover</span>
+                    </button>
                 </div>
             </div>
 
@@ -889,7 +917,19 @@ const Dashboard: Component = () => {
                                 <Route class="w-5 h-5 text-blue-400" />
                                 <h3 class="text-base font-semibold text-white">Today's Route</h3>
                             </div>
-                            <A href="/sales/visits" class="text-blue-400 text-sm font-medium">View All</A>
+                            <div class="flex items-center gap-3">
+                                <button
+                                    onClick={saveRouteOrder}
+                                    disabled={savingRoute()}
+                                    class="flex items-center gap-1 text-emerald-400 text-sm font-medium disabled:opacity-50"
+                                >
+                                    <Show when={savingRoute()} fallback={<Save class="w-4 h-4" />}>
+                                        <Loader2 class="w-4 h-4 animate-spin" />
+                                    </Show>
+                                    Save order
+                                </button>
+                                <A href="/sales/visits" class="text-blue-400 text-sm font-medium">View All</A>
+                            </div>
                         </div>
                         <div class="mb-3 p-3 bg-slate-800/50 rounded-lg">
                             <div class="flex justify-between items-center">
@@ -902,6 +942,12 @@ const Dashboard: Component = () => {
                                     <div class="text-lg font-bold text-white">{routeOptimization()?.estimatedTime || 0} min</div>
                                 </div>
                             </div>
+                            <Show when={(routeOptimization()?.lateVisits ?? 0) > 0}>
+                                <div class="mt-2 flex items-center gap-1.5 text-xs text-amber-400">
+                                    <AlertCircle class="w-3.5 h-3.5" />
+                                    {routeOptimization()?.lateVisits} visits can't be reached in their time window
+                                </div>
+                            </Show>
                         </div>
                         <div class="space-y-2">
                             <For each={routeOptimization()?.visits?.slice(0, 5)}>
@@ -919,7 +965,11 @@ const Dashboard: Component = () => {
                                                 <div class="text-xs text-slate-500 truncate mt-0.5">{visit.customerAddress}</div>
                                             </Show>
                                         </div>
-                                        <MapPin class="w-4 h-4 text-blue-400 shrink-0" />
+                                        <Show when={visit.eta} fallback={<MapPin class="w-4 h-4 text-blue-400 shrink-0" />}>
+                                            <div class={`text-xs font-medium shrink-0 ${(visit.lateMin ?? 0) > 0 ? 'text-amber-400' : 'text-slate-300'}`}>
+                                                {visit.eta}
+                                            </div>
+                                        </Show>
                                     </A>
                                 )}
                             </For>
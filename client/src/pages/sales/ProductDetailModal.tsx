@@ -21,6 +21,7 @@ interface ProductDetail {
     description?: string;
     price: string;
     unit: string;
+    units?: { unit: string; factor: number; isActive: boolean }[];
     stockQuantity: number;
     brandName?: string;
     categoryName?: string;
@@ -95,6 +96,7 @@ const ProductDetailModal: Component<ProductDetailModalProps> = (props) => {
             sku: product.sku,
             price: parseFloat(product.price),
             unit: product.unit,
+            packs: product.units?.filter(u => u.isActive).map(u => ({ unit: u.unit, factor: u.factor })),
             image: product.images.find(i => i.isPrimary)?.thumbnailUrl || product.images[0]?.thumbnailUrl || product.images[0]?.url
         });
     };
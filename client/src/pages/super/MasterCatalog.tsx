@@ -16,6 +16,17 @@ import {
     ChevronRight
 } from 'lucide-solid';
 
+// Variant attributes are edited as "size=0.5L, flavour=Cherry"
+const formatAttributes = (attributes: Record<string, string> | null | undefined) =>
+    Object.entries(attributes || {}).map(([name, value]) => `${name}=${value}`).join(', ');
+
+const parseAttributes = (text: string): Record<string, string> | null => {
+    const pairs = text.split(',')
+        .map(pair => pair.split('=').map(part => part.trim()))
+        .filter(([name, value]) => name && value);
+    return pairs.length > 0 ? Object.fromEntries(pairs) : null;
+};
+
 const MasterCatalog: Component = () => {
     const [page, setPage] = createSignal(0);
     const [search, setSearch] = createSignal('');
@@ -35,7 +46,9 @@ const MasterCatalog: Component = () => {
         barcode: '',
         category: '',
         description: '',
-        imageUrl: ''
+        imageUrl: '',
+        familyName: '',
+        variantAttributes: ''
     });
 
     const [products, { refetch }] = createResource(
@@ -58,7 +71,9 @@ const MasterCatalog: Component = () => {
             barcode: product.barcode || '',
             category: product.category || '',
             description: product.description || '',
-            imageUrl: product.imageUrl || ''
+            imageUrl: product.imageUrl || '',
+            familyName: product.familyName || '',
+            variantAttributes: formatAttributes(product.variantAttributes)
         });
         setIsModalOpen(true);
     };
@@ -71,14 +86,20 @@ const MasterCatalog: Component = () => {
             barcode: '',
             category: '',
             description: '',
-            imageUrl: ''
+            imageUrl: '',
+            familyName: '',
+            variantAttributes: ''
         });
         setIsModalOpen(true);
     };
 
     const handleSubmit = async (e: Event) => {
         e.preventDefault();
-        const data = formData();
+        const data = {
+            ...formData(),
+            familyName: formData().familyName.trim() || null,
+            variantAttributes: parseAttributes(formData().variantAttributes)
+        };
 
         try {
             if (editingProduct()) {
@@ -226,6 +247,9 @@ const MasterCatalog: Component = () => {
                                                     <span class="px-2 py-1 rounded-md bg-slate-800 text-xs text-slate-300 border border-slate-700">
                                                         {product.category || 'General'}
                                                     </span>
+                                                    <Show when={product.familyName}>
+                                                        <div class="text-xs text-slate-500 mt-1">{product.familyName}: {formatAttributes(product.variantAttributes)}</div>
+                                                    </Show>
                                                 </td>
                                                 <td class="p-4 pr-6 text-right">
                                                     <div class="flex items-center justify-end gap-2">
@@ -291,6 +315,11 @@ const MasterCatalog: Component = () => {
                                             <span class="px-2 py-0.5 rounded bg-slate-800 text-[10px] text-slate-300 border border-slate-700">
                                                 {product.category || 'General'}
                                             </span>
+                                            <Show when={product.familyName}>
+                                                <span class="px-2 py-0.5 rounded bg-blue-500/10 text-[10px] text-blue-300 border border-blue-500/20">
+                                                    {product.familyName}: {formatAttributes(product.variantAttributes)}
+                                                </span>
+                                            </Show>
                                         </div>
                                     </div>
 
@@ -438,6 +467,29 @@ const MasterCatalog: Component = () => {
                                 />
                             </div>
 
+                            <div class="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label class="block text-sm font-medium text-slate-400 mb-1">Variant Family</label>
+                                    <input
+                                        type="text"
+                                        class="w-full px-4 py-2 bg-slate-950 border border-slate-800 rounded-xl text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                                        placeholder="e.g. Coca Cola"
+                                        value={formData().familyName}
+                                        onInput={(e) => setFormData({ ...formData(), familyName: e.currentTarget.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <label class="block text-sm font-medium text-slate-400 mb-1">Variant Attributes</label>
+                                    <input
+                                        type="text"
+                                        class="w-full px-4 py-2 bg-slate-950 border border-slate-800 rounded-xl text-white focus:ring-2 focus:ring-blue-500/50 outline-none"
+                                        placeholder="size=1.5L, flavour=Cherry"
+                                        value={formData().variantAttributes}
+                                        onInput={(e) => setFormData({ ...formData(), variantAttributes: e.currentTarget.value })}
+                                    />
+                                </div>
+                            </div>
+
                             <div>
                                 <label class="block text-sm font-medium text-slate-400 mb-1">Description</label>
                                 <textarea
@@ -1,6 +1,6 @@
 import { type Component, Show, For, createSignal, createResource, createMemo } from 'solid-js';
 import { useNavigate, useSearchParams } from '@solidjs/router';
-import { ArrowLeft, Package, Loader2, CheckCircle2, Boxes, ScanLine, Users } from 'lucide-solid';
+import { ArrowLeft, Package, Loader2, CheckCircle2, Boxes, ScanLine, Users, MapPin } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { useI18n } from '../../i18n';
 import { showToast } from '../../components/Toast';
@@ -21,6 +21,18 @@ interface BatchItemOrder {
     qtyPicked: number;
 }
 
+interface BatchItemLot {
+    lotNumber: string;
+    expiryDate: string | null;
+    quantity: number;
+}
+
+interface BatchItemBin {
+    id: string;
+    code: string;
+    barcode: string | null;
+}
+
 interface BatchItem {
     productId: string;
     productName: string;
@@ -30,6 +42,8 @@ interface BatchItem {
     totalQtyOrdered: number;
     totalQtyPicked: number;
     orders: BatchItemOrder[];
+    lots: BatchItemLot[];
+    bin: BatchItemBin | null;
 }
 
 interface BatchData {
@@ -50,6 +64,8 @@ const BatchPicking: Component = () => {
     const [showScanner, setShowScanner] = createSignal(false);
     const [picking, setPicking] = createSignal(false);
     const [expandedProduct, setExpandedProduct] = createSignal<string | null>(null);
+    // Bin the picker is standing at (confirmed by scanning its barcode)
+    const [confirmedBin, setConfirmedBin] = createSignal<BatchItemBin | null>(null);
 
     const orderIds = createMemo(() => {
         const ids = searchParams.orderIds;
@@ -67,8 +83,19 @@ const BatchPicking: Component = () => {
     );
 
     const handleBarcodeScanned = async (barcode: string) => {
-        // Find matching product by barcode or SKU
         const items = batchData()?.batchItems || [];
+
+        // A bin label confirms the picker's location
+        const binItem = items.find((item: BatchItem) =>
+            item.bin && (item.bin.barcode === barcode || item.bin.code === barcode)
+        );
+        if (binItem?.bin) {
+            setConfirmedBin(binItem.bin);
+            showToast(`${t('warehouseApp.batchPicking.binConfirmed')}: ${binItem.bin.code}`, 'success');
+            return;
+        }
+
+        // Find matching product by barcode or SKU
         const matchingItem = items.find((item: BatchItem) =>
             item.productBarcode === barcode || item.productSku === barcode
         );
@@ -79,27 +106,40 @@ const BatchPicking: Component = () => {
         }
 
         // Pick 1 item
-        await handlePickProduct(matchingItem.productId, 1);
+        await handlePickProduct(matchingItem, 1);
     };
 
-    const handlePickProduct = async (productId: string, quantity: number) => {
+    const handlePickProduct = async (item: BatchItem, quantity: number) => {
+        // Products with a bin can only be picked after that bin was scanned
+        if (item.bin && confirmedBin()?.id !== item.bin.id) {
+            showToast(`${t('warehouseApp.batchPicking.scanBinFirst')}: ${item.bin.code}`, 'warning');
+            setShowScanner(true);
+            return;
+        }
+
         setPicking(true);
         try {
             await api('/warehouse/tasks/batch/pick', {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
-                    productId,
+                    productId: item.productId,
                     orderIds: orderIds(),
-                    quantity
+                    quantity,
+                    binBarcode: item.bin ? (confirmedBin()?.barcode || confirmedBin()?.code) : undefined
                 })
             });
 
             showToast(t('warehouseApp.batchPicking.itemPicked'), 'success');
             await refetch();
-        } catch (error) {
+        } catch (error: any) {
             console.error('Failed to pick item:', error);
-            showToast(t('warehouseApp.batchPicking.pickFailed'), 'error');
+            if (error?.message?.startsWith('Wrong bin')) {
+                setConfirmedBin(null);
+                showToast(t('warehouseApp.batchPicking.wrongBin'), 'error');
+            } else {
+                showToast(t('warehouseApp.batchPicking.pickFailed'), 'error');
+            }
         } finally {
             setPicking(false);
         }
@@ -238,6 +278,15 @@ const BatchPicking: Component = () => {
                                                     {item.productSku && item.productBarcode && <span> • </span>}
                                                     {item.productBarcode && <span>{item.productBarcode}</span>}
                                                 </div>
+                                                <Show when={item.bin}>
+                                                    <div class={`inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-lg text-xs font-mono border ${confirmedBin()?.id === item.bin!.id
+                                                        ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'
+                                                        : 'bg-slate-800/60 border-slate-700/60 text-slate-300'
+                                                        }`}>
+                                                        <MapPin class="w-3 h-3" />
+                                                        {t('warehouseApp.batchPicking.bin')}: {item.bin!.code}
+                                                    </div>
+                                                </Show>
                                             </div>
                                             <Show when={isComplete}>
                                                 <CheckCircle2 class="w-5 h-5 text-emerald-400" />
@@ -259,6 +308,14 @@ const BatchPicking: Component = () => {
                                             />
                                         </div>
 
+                                        {/* FEFO: lot to take from the shelf first */}
+                                        <Show when={!isComplete && item.lots?.length > 0}>
+                                            <div class="mt-2 text-xs text-blue-400">
+                                                {t('warehouseApp.batchPicking.pickLotFirst')}: {item.lots[0].lotNumber}
+                                                {item.lots[0].expiryDate && <span> • {t('warehouseApp.batchPicking.expires')} {item.lots[0].expiryDate}</span>}
+                                            </div>
+                                        </Show>
+
                                         {/* Stock Warning */}
                                         <Show when={item.stockQuantity < remaining}>
                                             <div class="mt-2 text-xs text-orange-400">
@@ -292,7 +349,7 @@ const BatchPicking: Component = () => {
                                                 <button
                                                     onClick={(e) => {
                                                         e.stopPropagation();
-                                                        handlePickProduct(item.productId, 1);
+                                                        handlePickProduct(item, 1);
                                                     }}
                                                     disabled={picking()}
                                                     class="mt-3 w-full py-2 rounded-xl bg-emerald-600/20 text-emerald-300 border border-emerald-500/30 text-sm font-semibold flex items-center justify-center gap-2 disabled:opacity-50 hover:bg-emerald-600/30 transition"
@@ -14,14 +14,28 @@ interface InventoryItem {
     barcode?: string;
 }
 
+interface Warehouse {
+    id: string;
+    name: string;
+    code: string;
+    isActive: boolean;
+}
+
 const WarehouseInventory: Component = () => {
     const navigate = useNavigate();
     const { t } = useI18n();
     const [showScanner, setShowScanner] = createSignal(false);
     const [searchQuery, setSearchQuery] = createSignal('');
+    const [warehouseId, setWarehouseId] = createSignal('');
 
-    const [inventory] = createResource(async () => {
-        const result = await api<InventoryItem[]>('/warehouse/inventory');
+    const [warehouses] = createResource(async () => {
+        const result = await api<Warehouse[]>('/warehouses');
+        return ((result as any)?.data ?? result ?? []).filter((w: Warehouse) => w.isActive);
+    });
+
+    const [inventory] = createResource(warehouseId, async (selected) => {
+        const query = selected ? `?warehouseId=${selected}` : '';
+        const result = await api<InventoryItem[]>(`/warehouse/inventory${query}`);
         return (result as any)?.data ?? result ?? [];
     });
 
@@ -73,6 +87,20 @@ const WarehouseInventory: Component = () => {
                     </button>
                 </div>
 
+                {/* Warehouse Filter */}
+                <Show when={(warehouses() ?? []).length > 1}>
+                    <select
+                        value={warehouseId()}
+                        onChange={(e) => setWarehouseId(e.currentTarget.value)}
+                        class="w-full mb-2 px-4 py-2 rounded-xl bg-slate-900/60 border border-slate-800/60 text-white focus:outline-none focus:border-emerald-500/50 transition"
+                    >
+                        <option value="">{t('warehouseApp.inventory.allWarehouses')}</option>
+                        <For each={warehouses()}>
+                            {(warehouse: Warehouse) => <option value={warehouse.id}>{warehouse.name} ({warehouse.code})</option>}
+                        </For>
+                    </select>
+                </Show>
+
                 {/* Search Bar */}
                 <input
                     type="text"
@@ -1,4 +1,4 @@
-import { type Component, Show, createResource } from 'solid-js';
+import { type Component, For, Show, createResource } from 'solid-js';
 import { useParams, useNavigate } from '@solidjs/router';
 import { ArrowLeft, Package, AlertCircle, Loader2 } from 'lucide-solid';
 import { api } from '../../lib/api';
@@ -13,6 +13,21 @@ interface InventoryDetailData {
     reorderPoint: number;
     costPrice: number;
     price: number;
+    warehouses?: {
+        warehouseId: string;
+        warehouseName: string;
+        warehouseCode: string;
+        quantity: number;
+        reservedQuantity: number;
+        binCode: string | null;
+    }[];
+    lots?: {
+        id: string;
+        warehouseName: string;
+        lotNumber: string;
+        expiryDate: string | null;
+        quantity: number;
+    }[];
 }
 
 const InventoryDetail: Component = () => {
@@ -118,6 +133,61 @@ const InventoryDetail: Component = () => {
                         </Show>
                     </div>
 
+                    {/* Per-warehouse balances */}
+                    <Show when={(product()?.warehouses ?? []).length > 1}>
+                        <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4">
+                            <h3 class="text-white font-semibold mb-3">{t('warehouseApp.inventory.byWarehouse')}</h3>
+                            <div class="space-y-2">
+                                <For each={product()?.warehouses}>
+                                    {(row) => (
+                                        <div class="flex items-center justify-between bg-slate-950/40 rounded-xl px-3 py-2 border border-slate-800/40">
+                                            <div>
+                                                <div class="text-white text-sm font-medium">{row.warehouseName}</div>
+                                                <div class="text-slate-500 text-xs font-mono">
+                                                    {row.warehouseCode}{row.binCode ? ` / ${row.binCode}` : ''}
+                                                </div>
+                                            </div>
+                                            <div class="text-right">
+                                                <div class="text-emerald-400 font-semibold">{formatNumber(row.quantity)}</div>
+                                                <div class="text-slate-500 text-xs">{t('warehouseApp.inventory.reserved')}: {formatNumber(row.reservedQuantity)}</div>
+                                            </div>
+                                        </div>
+                                    )}
+                                </For>
+                            </div>
+                        </div>
+                    </Show>
+
+                    {/* Lots, first to expire on top */}
+                    <Show when={(product()?.lots ?? []).length > 0}>
+                        <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4">
+                            <h3 class="text-white font-semibold mb-3">{t('warehouseApp.inventory.lots')}</h3>
+                            <div class="space-y-2">
+                                <For each={product()?.lots}>
+                                    {(lot) => {
+                                        const isExpired = !!lot.expiryDate && lot.expiryDate < new Date().toISOString().slice(0, 10);
+                                        return (
+                                            <div class="flex items-center justify-between bg-slate-950/40 rounded-xl px-3 py-2 border border-slate-800/40">
+                                                <div>
+                                                    <div class="text-white text-sm font-medium font-mono">{lot.lotNumber}</div>
+                                                    <div class="text-slate-500 text-xs">{lot.warehouseName}</div>
+                                                </div>
+                                                <div class="text-right">
+                                                    <div class="text-emerald-400 font-semibold">{formatNumber(lot.quantity)}</div>
+                                                    <Show when={lot.expiryDate}>
+                                                        <div class={`text-xs ${isExpired ? 'text-red-400' : 'text-slate-500'}`}>
+                                                            {isExpired ? `${t('warehouseApp.inventory.expired')}: ` : ''}{lot.expiryDate}
+                                                        </div>
+                                                    </Show>
+                                                </div>
+                                            </div>
+                                        );
+                                    }}
+                                </For>
+                            </div>
+                        </div>
+                    </Show>
+
                     {/* Pricing */}
                     <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4">
                         <h3 class="text-white font-semibold mb-4">Pricing</h3>
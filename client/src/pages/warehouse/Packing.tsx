@@ -0,0 +1,318 @@
+import { type Component, For, Show, createResource, createSignal } from 'solid-js';
+import { useParams, useNavigate } from '@solidjs/router';
+import { ArrowLeft, Loader2, ScanLine, CheckCircle2, RotateCcw, Printer, PackageCheck, MapPin, Ban } from 'lucide-solid';
+import { api, API_BASE_URL } from '../../lib/api';
+import { useI18n } from '../../i18n';
+import { showToast } from '../../components/Toast';
+import BarcodeScanner from '../../components/BarcodeScanner';
+
+interface PackingLine {
+    id: string;
+    productName: string | null;
+    sku: string | null;
+    binCode: string | null;
+    qtyOrdered: number;
+    qtyScanned: number;
+    isVerified: boolean;
+}
+
+interface PackingSession {
+    id: string;
+    orderId: string;
+    status: 'started' | 'in_progress' | 'completed' | 'cancelled';
+    itemsScanned: number;
+    totalItems: number;
+    packageCount: number | null;
+    weightKg: string | null;
+    allVerified: boolean;
+    order: {
+        orderNumber: string;
+        status: string;
+        customerName: string | null;
+        customerAddress: string | null;
+    };
+    items: PackingLine[];
+}
+
+const Packing: Component = () => {
+    const params = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const { t } = useI18n();
+
+    const [showScanner, setShowScanner] = createSignal(false);
+    const [busy, setBusy] = createSignal(false);
+    const [packageCount, setPackageCount] = createSignal(1);
+    const [weightKg, setWeightKg] = createSignal('');
+
+    const [session, { refetch }] = createResource(() => params.id, async (id) => {
+        const result = await api<PackingSession>(`/packing/sessions/${id}`);
+        return ((result as any)?.data ?? result) as PackingSession;
+    });
+
+    const isOpen = () => ['started', 'in_progress'].includes(session()?.status ?? '');
+
+    const handleBarcodeScanned = async (barcode: string) => {
+        try {
+            const result = await api(`/packing/sessions/${params.id}/scan`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ barcode, quantity: 1 })
+            });
+            const data = (result as any)?.data ?? result;
+            if (data?.productName) showToast(`✅ ${data.productName}: ${data.qtyScanned}/${data.qtyOrdered}`, 'success');
+            await refetch();
+        } catch (error: any) {
+            // api() surfaces the server's message only
+            const message = error?.message;
+            if (message === 'Product is not part of this order') {
+                showToast(t('warehouseApp.packing.notInOrder'), 'error');
+            } else if (message === 'Scanned more than was picked') {
+                showToast(t('warehouseApp.packing.overScanned'), 'error');
+            } else if (message === 'Product not found') {
+                showToast(t('warehouseApp.packing.productNotFound'), 'error');
+            } else {
+                showToast(t('warehouseApp.packing.scanFailed'), 'error');
+            }
+        }
+    };
+
+    const handleReset = async (itemId: string) => {
+        try {
+            await api(`/packing/sessions/${params.id}/items/${itemId}/reset`, { method: 'POST', body: JSON.stringify({}) });
+            await refetch();
+        } catch (error) {
+            console.error('Failed to reset item:', error);
+            showToast(t('warehouseApp.packing.actionFailed'), 'error');
+        }
+    };
+
+    const handleComplete = async () => {
+        const weight = parseFloat(weightKg());
+        setBusy(true);
+        try {
+            await api(`/packing/sessions/${params.id}/complete`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    packageCount: packageCount(),
+                    weightKg: isNaN(weight) ? undefined : weight
+                })
+            });
+            showToast(t('warehouseApp.packing.completed'), 'success');
+            await refetch();
+        } catch (error: any) {
+            showToast(error?.message || t('warehouseApp.packing.actionFailed'), 'error');
+            await refetch();
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!confirm(t('warehouseApp.packing.confirmCancel') as string)) return;
+        setBusy(true);
+        try {
+            await api(`/packing/sessions/${params.id}/cancel`, { method: 'POST', body: JSON.stringify({}) });
+            navigate(`/warehouse/tasks/${session()!.orderId}`);
+        } catch (error: any) {
+            showToast(error?.message || t('warehouseApp.packing.actionFailed'), 'error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    // The slip endpoint needs the auth header, so fetch it and open the blob
+    const handlePrintSlip = async () => {
+        try {
+            const token = localStorage.getItem('token');
+            const response = await fetch(`${API_BASE_URL}/packing/sessions/${params.id}/slip`, {
+                headers: { 'Authorization': `Bearer ${token}` },
+            });
+            if (!response.ok) throw new Error('Download failed');
+
+            const blob = await response.blob();
+            const url = window.URL.createObjectURL(blob);
+            window.open(url, '_blank');
+            setTimeout(() => window.URL.revokeObjectURL(url), 60_000);
+        } catch (error) {
+            console.error('Failed to load packing slip:', error);
+            showToast(t('warehouseApp.packing.slipFailed'), 'error');
+        }
+    };
+
+    return (
+        <div class="min-h-screen bg-slate-950 pb-24">
+            <div class="sticky top-0 z-30 bg-slate-950/90 backdrop-blur-md border-b border-slate-800/50 px-4 py-4">
+                <button
+                    onClick={() => navigate(session() ? `/warehouse/tasks/${session()!.orderId}` : '/warehouse/tasks')}
+                    class="flex items-center gap-2 text-slate-400 hover:text-white transition mb-2"
+                >
+                    <ArrowLeft class="w-5 h-5" />
+                    {t('warehouseApp.tasks.back')}
+                </button>
+
+                <div class="flex items-center justify-between">
+                    <div>
+                        <h1 class="text-xl font-bold text-white">{t('warehouseApp.packing.title')}</h1>
+                        <p class="text-slate-500 text-sm">
+                            {session()?.order.orderNumber}
+                            <Show when={session()?.order.customerName}> · {session()!.order.customerName}</Show>
+                        </p>
+                    </div>
+                    <Show when={isOpen()}>
+                        <button
+                            onClick={() => setShowScanner(true)}
+                            class="p-2 rounded-xl bg-emerald-600/20 border border-emerald-500/30 hover:bg-emerald-600/30 transition"
+                            title={t('warehouseApp.packing.scan')}
+                        >
+                            <ScanLine class="w-6 h-6 text-emerald-400" />
+                        </button>
+                    </Show>
+                </div>
+            </div>
+
+            <Show when={showScanner()}>
+                <BarcodeScanner
+                    title={t('warehouseApp.packing.scan')}
+                    onScan={handleBarcodeScanned}
+                    onClose={() => setShowScanner(false)}
+                />
+            </Show>
+
+            <Show when={session.loading && !session()}>
+                <div class="flex items-center justify-center py-10">
+                    <Loader2 class="w-7 h-7 text-emerald-400 animate-spin" />
+                </div>
+            </Show>
+
+            <Show when={session()}>
+                <div class="px-4 pt-4 space-y-3">
+                    <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4">
+                        <div class="flex items-center justify-between text-sm mb-2">
+                            <span class="text-slate-400">{t('warehouseApp.packing.progress')}</span>
+                            <span class="text-white font-semibold">{session()!.itemsScanned}/{session()!.totalItems}</span>
+                        </div>
+                        <div class="w-full bg-slate-800/60 rounded-full h-1.5 overflow-hidden">
+                            <div
+                                class={`h-full transition-all ${session()!.allVerified ? 'bg-emerald-500' : 'bg-amber-500'}`}
+                                style={{ width: `${session()!.totalItems ? Math.round((session()!.itemsScanned / session()!.totalItems) * 100) : 0}%` }}
+                            />
+                        </div>
+                    </div>
+
+                    <For each={session()!.items}>
+                        {(item) => (
+                            <div class={`bg-slate-900/60 border rounded-2xl p-4 ${item.isVerified ? 'border-emerald-500/40' : 'border-slate-800/60'}`}>
+                                <div class="flex items-start justify-between gap-3">
+                                    <div class="min-w-0">
+                                        <div class="text-white font-semibold truncate">{item.productName}</div>
+                                        <div class="text-slate-500 text-xs flex items-center gap-2">
+                                            {item.sku}
+                                            <Show when={item.binCode}>
+                                                <span class="flex items-center gap-1 text-indigo-300">
+                                                    <MapPin class="w-3 h-3" />
+                                                    {item.binCode}
+                                                </span>
+                                            </Show>
+                                        </div>
+                                    </div>
+                                    <div class="flex items-center gap-2">
+                                        <span class={`text-lg font-bold ${item.isVerified ? 'text-emerald-400' : 'text-white'}`}>
+                                            {item.qtyScanned}/{item.qtyOrdered}
+                                        </span>
+                                        <Show when={item.isVerified}>
+                                            <CheckCircle2 class="w-5 h-5 text-emerald-400" />
+                                        </Show>
+                                        <Show when={isOpen() && item.qtyScanned > 0}>
+                                            <button
+                                                onClick={() => handleReset(item.id)}
+                                                class="p-1.5 rounded-lg bg-slate-800/60 text-slate-400 hover:text-white"
+                                                title={t('warehouseApp.packing.reset')}
+                                            >
+                                                <RotateCcw class="w-4 h-4" />
+                                            </button>
+                                        </Show>
+                                    </div>
+                                </div>
+                            </div>
+                        )}
+                    </For>
+
+                    <Show when={isOpen()}>
+                        <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4 space-y-3">
+                            <div class="grid grid-cols-2 gap-3">
+                                <label class="text-xs text-slate-400 space-y-1">
+                                    <span>{t('warehouseApp.packing.packageCount')}</span>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        inputmode="numeric"
+                                        value={packageCount()}
+                                        onInput={(e) => setPackageCount(Math.max(1, parseInt(e.currentTarget.value) || 1))}
+                                        class="w-full px-3 py-2 rounded-xl bg-slate-950/60 border border-slate-800/60 text-white"
+                                    />
+                                </label>
+                                <label class="text-xs text-slate-400 space-y-1">
+                                    <span>{t('warehouseApp.packing.weightKg')}</span>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        step="0.001"
+                                        inputmode="decimal"
+                                        value={weightKg()}
+                                        onInput={(e) => setWeightKg(e.currentTarget.value)}
+                                        class="w-full px-3 py-2 rounded-xl bg-slate-950/60 border border-slate-800/60 text-white"
+                                    />
+                                </label>
+                            </div>
+
+                            <Show when={!session()!.allVerified}>
+                                <div class="rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs px-3 py-2">
+                                    {t('warehouseApp.packing.mismatchHint')}
+                                </div>
+                            </Show>
+
+                            <button
+                                onClick={handleComplete}
+                                disabled={busy() || !session()!.allVerified}
+                                class="w-full py-3 rounded-xl bg-emerald-600/20 text-emerald-300 border border-emerald-500/30 font-semibold flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                <Show when={busy()} fallback={<PackageCheck class="w-4 h-4" />}>
+                                    <Loader2 class="w-4 h-4 animate-spin" />
+                                </Show>
+                                {t('warehouseApp.packing.complete')}
+                            </button>
+
+                            <button
+                                onClick={handleCancel}
+                                disabled={busy()}
+                                class="w-full py-2 rounded-xl text-red-400 text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                <Ban class="w-4 h-4" />
+                                {t('warehouseApp.packing.cancel')}
+                            </button>
+                        </div>
+                    </Show>
+
+                    <Show when={session()!.status === 'completed'}>
+                        <div class="bg-slate-900/60 border border-emerald-500/30 rounded-2xl p-4 space-y-3">
+                            <div class="flex items-center gap-2 text-emerald-300 font-semibold">
+                                <PackageCheck class="w-5 h-5" />
+                                {t('warehouseApp.packing.loaded', { count: session()!.packageCount ?? 1 })}
+                            </div>
+                            <button
+                                onClick={handlePrintSlip}
+                                class="w-full py-3 rounded-xl bg-indigo-600/20 text-indigo-300 border border-indigo-500/30 font-semibold flex items-center justify-center gap-2"
+                            >
+                                <Printer class="w-4 h-4" />
+                                {t('warehouseApp.packing.printSlip')}
+                            </button>
+                        </div>
+                    </Show>
+                </div>
+            </Show>
+        </div>
+    );
+};
+
+export default Packing;
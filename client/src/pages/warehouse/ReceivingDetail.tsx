@@ -1,6 +1,6 @@
 import { type Component, Show, For, createResource, createSignal } from 'solid-js';
 import { useParams, useNavigate } from '@solidjs/router';
-import { ArrowLeft, Package, Truck, Calendar, Loader2, CheckCircle2, ScanLine, AlertTriangle, Plus, Trash2, Minus } from 'lucide-solid';
+import { ArrowLeft, Package, Truck, Calendar, Loader2, CheckCircle2, ScanLine, AlertTriangle, Plus, Trash2, Minus, MapPin } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { useI18n } from '../../i18n';
 import { showToast } from '../../components/Toast';
@@ -9,15 +9,20 @@ import AddProductToPoModal from './AddProductToPoModal';
 
 interface ReceivingItem {
     id: string;
+    productId: string;
     productName: string;
     qtyOrdered: number;
     qtyReceived: number;
+    putawayBinId: string | null;
+    putawayBin: string | null;
+    putawayReason: 'default_bin' | 'empty_bin' | 'no_bins';
 }
 
 interface ReceivingDetailData {
     id: string;
     poNumber: string;
     status: string;
+    warehouseId: string;
     expectedDate: string | null;
     supplierName: string | null;
     notes: string | null;
@@ -32,6 +37,8 @@ const ReceivingDetail: Component = () => {
     const [showScanner, setShowScanner] = createSignal(false);
     const [scanning, setScanning] = createSignal(false);
     const [showAddProduct, setShowAddProduct] = createSignal(false);
+    const [lotNumber, setLotNumber] = createSignal('');
+    const [expiryDate, setExpiryDate] = createSignal('');
 
     const [shipment, { refetch }] = createResource(() => params.id, async (id) => {
         const result = await api<ReceivingDetailData>(`/warehouse/receiving/${id}`);
@@ -45,14 +52,20 @@ const ReceivingDetail: Component = () => {
             const result = await api(`/warehouse/receiving/${params.id}/scan`, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ barcode, quantity: 1 })
+                body: JSON.stringify({
+                    barcode,
+                    quantity: 1,
+                    lotNumber: lotNumber().trim() || undefined,
+                    expiryDate: expiryDate() || undefined
+                })
             });
 
             const data = (result as any)?.data;
 
             if (data) {
                 // Show success toast
-                showToast(`✅ ${data.productName}: ${data.qtyReceived}/${data.qtyOrdered}`, 'success');
+                const binHint = data.putaway?.binCode ? ` → ${data.putaway.binCode}` : '';
+                showToast(`✅ ${data.productName}: ${data.qtyReceived}/${data.qtyOrdered}${binHint}`, 'success');
 
                 // Ref etch data
                 await refetch();
@@ -77,6 +90,23 @@ const ReceivingDetail: Component = () => {
         }
     };
 
+    // Make a suggested free bin the product's permanent location
+    const handleAssignBin = async (item: ReceivingItem) => {
+        if (!item.putawayBinId || !shipment()?.warehouseId) return;
+        try {
+            await api(`/warehouses/${shipment()!.warehouseId}/products/${item.productId}/bin`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ binId: item.putawayBinId })
+            });
+            showToast(t('warehouseApp.receiving.binAssigned'), 'success');
+            await refetch();
+        } catch (error) {
+            console.error('Failed to assign bin:', error);
+            showToast('❌ Failed', 'error');
+        }
+    };
+
     const formatDate = (dateStr: string | null) => {
         if (!dateStr) return '-';
         return new Date(dateStr).toLocaleDateString('en-US', {
@@ -246,6 +276,29 @@ const ReceivingDetail: Component = () => {
                     </div>
                 </div>
 
+                {/* Lot / expiry for the next scans */}
+                <Show when={canReceive()}>
+                    <div class="mt-3 grid grid-cols-2 gap-2">
+                        <input
+                            type="text"
+                            value={lotNumber()}
+                            onInput={(e) => setLotNumber(e.currentTarget.value)}
+                            placeholder={t('warehouseApp.receiving.lotNumber')}
+                            class="px-3 py-2 rounded-xl bg-slate-900/60 border border-slate-800 text-white text-sm placeholder-slate-500 focus:outline-none focus:border-emerald-500/50"
+                        />
+                        <input
+                            type="date"
+                            value={expiryDate()}
+                            onInput={(e) => setExpiryDate(e.currentTarget.value)}
+                            title={t('warehouseApp.receiving.expiryDate')}
+                            class="px-3 py-2 rounded-xl bg-slate-900/60 border border-slate-800 text-white text-sm focus:outline-none focus:border-emerald-500/50"
+                        />
+                    </div>
+                    <Show when={lotNumber() || expiryDate()}>
+                        <div class="text-slate-500 text-xs mt-1">{t('warehouseApp.receiving.lotHint')}</div>
+                    </Show>
+                </Show>
+
                 {/* Info message for draft POs */}
                 <Show when={canEdit() && shipment() && !shipment.loading}>
                     <div class="mt-3 p-3 rounded-xl bg-blue-500/10 border border-blue-500/30 flex items-start gap-2">
@@ -362,6 +415,20 @@ const ReceivingDetail: Component = () => {
                                                     <Package class="w-4 h-4 text-slate-400" />
                                                     {item.productName}
                                                 </div>
+                                                <Show when={item.putawayBin}>
+                                                    <div class="flex items-center gap-2 mt-1 text-xs text-slate-400">
+                                                        <MapPin class="w-3 h-3" />
+                                                        {t('warehouseApp.receiving.putawayTo')}: <span class="font-mono text-slate-200">{item.putawayBin}</span>
+                                                        <Show when={item.putawayReason === 'empty_bin' && item.qtyReceived > 0}>
+                                                            <button
+                                                                onClick={() => handleAssignBin(item)}
+                                                                class="px-2 py-0.5 rounded-lg bg-blue-600/20 border border-blue-500/30 text-blue-300 hover:bg-blue-600/30 transition"
+                                                            >
+                                                                {t('warehouseApp.receiving.assignBin')}
+                                                            </button>
+                                                        </Show>
+                                                    </div>
+                                                </Show>
                                             </div>
 
                                             <div class="flex items-center gap-2">
@@ -0,0 +1,355 @@
+import { type Component, For, Show, createResource, createSignal } from 'solid-js';
+import { useParams, useNavigate } from '@solidjs/router';
+import { ArrowLeft, Loader2, ScanLine, CheckCircle2, XCircle, Send, EyeOff, MapPin, Ban } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { useI18n } from '../../i18n';
+import { showToast } from '../../components/Toast';
+import BarcodeScanner from '../../components/BarcodeScanner';
+
+interface CountLine {
+    id: string;
+    productId: string;
+    productName: string;
+    sku: string;
+    binCode: string | null;
+    // Null while a blind count is in progress
+    expectedQty: number | null;
+    countedQty: number | null;
+    variance: number | null;
+    varianceValue?: number | null;
+}
+
+interface CountDetail {
+    id: string;
+    name: string;
+    status: 'in_progress' | 'submitted' | 'completed' | 'cancelled';
+    scope: string;
+    isBlind: boolean;
+    warehouseName: string | null;
+    notes: string | null;
+    canApprove: boolean;
+    items: CountLine[];
+    summary: {
+        totalItems: number;
+        countedItems: number;
+        itemsWithVariance?: number;
+        netVariance?: number;
+        varianceValue?: number;
+    };
+}
+
+const StockCountDetail: Component = () => {
+    const params = useParams<{ id: string }>();
+    const navigate = useNavigate();
+    const { t } = useI18n();
+
+    const [showScanner, setShowScanner] = createSignal(false);
+    const [busy, setBusy] = createSignal(false);
+    const [editingItem, setEditingItem] = createSignal<string | null>(null);
+    const [editQty, setEditQty] = createSignal('');
+    const [onlyVariances, setOnlyVariances] = createSignal(false);
+
+    const [count, { refetch }] = createResource(() => params.id, async (id) => {
+        const result = await api<CountDetail>(`/stock-counts/${id}`);
+        return ((result as any)?.data ?? result) as CountDetail;
+    });
+
+    const isCounting = () => count()?.status === 'in_progress';
+    const isReviewing = () => count()?.status === 'submitted';
+
+    const visibleItems = () => {
+        const items = count()?.items ?? [];
+        return onlyVariances() ? items.filter(i => i.variance != null && i.variance !== 0) : items;
+    };
+
+    const handleBarcodeScanned = async (barcode: string) => {
+        try {
+            const result = await api(`/stock-counts/${params.id}/scan`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ barcode, quantity: 1 })
+            });
+            const data = (result as any)?.data ?? result;
+            if (data?.productName) showToast(`✅ ${data.productName}: ${data.countedQty}`, 'success');
+            await refetch();
+        } catch (error: any) {
+            // api() surfaces the server's message only
+            if (error?.message === 'Product is not part of this count') {
+                showToast(t('warehouseApp.counts.notInCount'), 'error');
+            } else {
+                showToast(t('warehouseApp.counts.scanFailed'), 'error');
+            }
+        }
+    };
+
+    const startEdit = (item: CountLine) => {
+        setEditingItem(item.id);
+        setEditQty(item.countedQty != null ? String(item.countedQty) : '');
+    };
+
+    const saveEdit = async (itemId: string) => {
+        const value = editQty().trim();
+        const countedQty = value === '' ? null : parseInt(value);
+        if (countedQty != null && (isNaN(countedQty) || countedQty < 0)) return;
+
+        try {
+            await api(`/stock-counts/${params.id}/items/${itemId}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ countedQty })
+            });
+            setEditingItem(null);
+            await refetch();
+        } catch (error) {
+            console.error('Failed to save count:', error);
+            showToast(t('warehouseApp.counts.saveFailed'), 'error');
+        }
+    };
+
+    const runAction = async (action: 'submit' | 'approve' | 'reject' | 'cancel', body: Record<string, unknown> = {}) => {
+        setBusy(true);
+        try {
+            await api(`/stock-counts/${params.id}/${action}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(body)
+            });
+            showToast(t(`warehouseApp.counts.${action}Done`), 'success');
+            await refetch();
+        } catch (error: any) {
+            showToast(error?.message || t('warehouseApp.counts.actionFailed'), 'error');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const handleSubmit = () => {
+        const summary = count()?.summary;
+        const uncounted = summary ? summary.totalItems - summary.countedItems : 0;
+        // Uncounted lines are treated as empty shelves only if the counter says so
+        const zeroUncounted = uncounted > 0 && confirm(t('warehouseApp.counts.confirmZeroUncounted', { count: uncounted }) as string);
+        runAction('submit', { zeroUncounted });
+    };
+
+    const handleReject = () => {
+        const reason = prompt(t('warehouseApp.counts.rejectReason') as string);
+        if (reason?.trim()) runAction('reject', { reason: reason.trim() });
+    };
+
+    const handleCancel = () => {
+        if (confirm(t('warehouseApp.counts.confirmCancel') as string)) runAction('cancel');
+    };
+
+    const varianceClass = (variance: number | null) =>
+        variance == null || variance === 0 ? 'text-slate-400' : variance > 0 ? 'text-emerald-400' : 'text-red-400';
+
+    const formatVariance = (variance: number | null) =>
+        variance == null ? '-' : variance > 0 ? `+${variance}` : String(variance);
+
+    return (
+        <div class="min-h-screen bg-slate-950 pb-24">
+            <div class="sticky top-0 z-30 bg-slate-950/90 backdrop-blur-md border-b border-slate-800/50 px-4 py-4">
+                <button
+                    onClick={() => navigate('/warehouse/counts')}
+                    class="flex items-center gap-2 text-slate-400 hover:text-white transition mb-2"
+                >
+                    <ArrowLeft class="w-5 h-5" />
+                    {t('warehouseApp.counts.back')}
+                </button>
+
+                <div class="flex items-center justify-between">
+                    <div>
+                        <h1 class="text-xl font-bold text-white flex items-center gap-2">
+                            {count()?.name}
+                            <Show when={count()?.isBlind}>
+                                <EyeOff class="w-4 h-4 text-slate-500" />
+                            </Show>
+                        </h1>
+                        <p class="text-slate-500 text-sm">
+                            <Show when={count()}>
+                                {t(`warehouseApp.counts.status_${count()!.status}`)}
+                                <Show when={count()!.warehouseName}> · {count()!.warehouseName}</Show>
+                            </Show>
+                        </p>
+                    </div>
+                    <Show when={isCounting()}>
+                        <button
+                            onClick={() => setShowScanner(true)}
+                            class="p-2 rounded-xl bg-emerald-600/20 border border-emerald-500/30 hover:bg-emerald-600/30 transition"
+                            title={t('warehouseApp.counts.scan')}
+                        >
+                            <ScanLine class="w-6 h-6 text-emerald-400" />
+                        </button>
+                    </Show>
+                </div>
+            </div>
+
+            <Show when={showScanner()}>
+                <BarcodeScanner
+                    title={t('warehouseApp.counts.scan')}
+                    onScan={handleBarcodeScanned}
+                    onClose={() => setShowScanner(false)}
+                />
+            </Show>
+
+            <Show when={count.loading && !count()}>
+                <div class="flex items-center justify-center py-10">
+                    <Loader2 class="w-7 h-7 text-emerald-400 animate-spin" />
+                </div>
+            </Show>
+
+            <Show when={count()}>
+                <div class="px-4 pt-4 space-y-3">
+                    <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4 grid grid-cols-3 gap-3 text-center">
+                        <div>
+                            <div class="text-lg font-bold text-white">{count()!.summary.countedItems}/{count()!.summary.totalItems}</div>
+                            <div class="text-xs text-slate-500">{t('warehouseApp.counts.counted')}</div>
+                        </div>
+                        <Show
+                            when={count()!.summary.itemsWithVariance !== undefined}
+                            fallback={
+                                <div class="col-span-2 flex items-center justify-center gap-2 text-xs text-slate-500">
+                                    <EyeOff class="w-4 h-4" />
+                                    {t('warehouseApp.counts.blindHint')}
+                                </div>
+                            }
+                        >
+                            <div>
+                                <div class="text-lg font-bold text-amber-400">{count()!.summary.itemsWithVariance}</div>
+                                <div class="text-xs text-slate-500">{t('warehouseApp.counts.withVariance')}</div>
+                            </div>
+                            <div>
+                                <div class={`text-lg font-bold ${varianceClass(count()!.summary.varianceValue ?? 0)}`}>
+                                    {Math.round(count()!.summary.varianceValue ?? 0).toLocaleString()}
+                                </div>
+                                <div class="text-xs text-slate-500">{t('warehouseApp.counts.varianceValue')}</div>
+                            </div>
+                        </Show>
+                    </div>
+
+                    <Show when={count()!.notes}>
+                        <div class="rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs px-3 py-2 whitespace-pre-line">
+                            {count()!.notes}
+                        </div>
+                    </Show>
+
+                    <Show when={count()!.summary.itemsWithVariance !== undefined}>
+                        <label class="flex items-center gap-2 text-sm text-slate-300">
+                            <input type="checkbox" checked={onlyVariances()} onChange={(e) => setOnlyVariances(e.currentTarget.checked)} />
+                            {t('warehouseApp.counts.onlyVariances')}
+                        </label>
+                    </Show>
+
+                    <For each={visibleItems()}>
+                        {(item) => (
+                            <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4">
+                                <div class="flex items-start justify-between gap-3">
+                                    <div class="min-w-0">
+                                        <div class="text-white font-semibold truncate">{item.productName}</div>
+                                        <div class="text-slate-500 text-xs flex items-center gap-2">
+                                            {item.sku}
+                                            <Show when={item.binCode}>
+                                                <span class="flex items-center gap-1 text-indigo-300">
+                                                    <MapPin class="w-3 h-3" />
+                                                    {item.binCode}
+                                                </span>
+                                            </Show>
+                                        </div>
+                                    </div>
+
+                                    <Show
+                                        when={editingItem() === item.id}
+                                        fallback={
+                                            <button
+                                                onClick={() => isCounting() && startEdit(item)}
+                                                disabled={!isCounting()}
+                                                class="text-right"
+                                            >
+                                                <div class={`text-lg font-bold ${item.countedQty == null ? 'text-slate-600' : 'text-white'}`}>
+                                                    {item.countedQty ?? '—'}
+                                                </div>
+                                                <Show when={item.expectedQty != null}>
+                                                    <div class="text-xs text-slate-500">
+                                                        {t('warehouseApp.counts.expected')}: {item.expectedQty}
+                                                        <span class={`ml-1 ${varianceClass(item.variance)}`}>({formatVariance(item.variance)})</span>
+                                                    </div>
+                                                </Show>
+                                            </button>
+                                        }
+                                    >
+                                        <div class="flex items-center gap-2">
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                inputmode="numeric"
+                                                value={editQty()}
+                                                onInput={(e) => setEditQty(e.currentTarget.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && saveEdit(item.id)}
+                                                class="w-20 px-2 py-1 rounded-lg bg-slate-950/60 border border-slate-700 text-white text-right"
+                                                autofocus
+                                            />
+                                            <button onClick={() => saveEdit(item.id)} class="p-1.5 rounded-lg bg-emerald-600/20 text-emerald-300">
+                                                <CheckCircle2 class="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </Show>
+                                </div>
+                            </div>
+                        )}
+                    </For>
+
+                    <Show when={isCounting()}>
+                        <button
+                            onClick={handleSubmit}
+                            disabled={busy()}
+                            class="w-full py-3 rounded-xl bg-emerald-600/20 text-emerald-300 border border-emerald-500/30 font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <Send class="w-4 h-4" />
+                            {t('warehouseApp.counts.submit')}
+                        </button>
+                    </Show>
+
+                    <Show when={isReviewing() && count()!.canApprove}>
+                        <div class="grid grid-cols-2 gap-2">
+                            <button
+                                onClick={handleReject}
+                                disabled={busy()}
+                                class="py-3 rounded-xl bg-amber-600/20 text-amber-300 border border-amber-500/30 font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                <XCircle class="w-4 h-4" />
+                                {t('warehouseApp.counts.reject')}
+                            </button>
+                            <button
+                                onClick={() => runAction('approve')}
+                                disabled={busy()}
+                                class="py-3 rounded-xl bg-emerald-600/20 text-emerald-300 border border-emerald-500/30 font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                            >
+                                <CheckCircle2 class="w-4 h-4" />
+                                {t('warehouseApp.counts.approve')}
+                            </button>
+                        </div>
+                    </Show>
+
+                    <Show when={isReviewing() && !count()!.canApprove}>
+                        <div class="rounded-xl bg-amber-500/10 border border-amber-500/30 text-amber-300 text-xs px-3 py-2">
+                            {t('warehouseApp.counts.awaitingApproval')}
+                        </div>
+                    </Show>
+
+                    <Show when={(isCounting() || isReviewing()) && count()!.canApprove}>
+                        <button
+                            onClick={handleCancel}
+                            disabled={busy()}
+                            class="w-full py-2 rounded-xl text-red-400 text-sm flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <Ban class="w-4 h-4" />
+                            {t('warehouseApp.counts.cancel')}
+                        </button>
+                    </Show>
+                </div>
+            </Show>
+        </div>
+    );
+};
+
+export default StockCountDetail;
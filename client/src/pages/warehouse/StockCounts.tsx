@@ -0,0 +1,283 @@
+import { type Component, For, Show, createResource, createSignal } from 'solid-js';
+import { useNavigate } from '@solidjs/router';
+import { ClipboardCheck, Loader2, Plus, X, EyeOff } from 'lucide-solid';
+import { api } from '../../lib/api';
+import { useI18n } from '../../i18n';
+import { showToast } from '../../components/Toast';
+
+interface StockCountItem {
+    id: string;
+    name: string;
+    status: 'in_progress' | 'submitted' | 'completed' | 'cancelled';
+    scope: 'full' | 'category' | 'bin' | 'cycle';
+    scopeAbcClass: string | null;
+    isBlind: boolean;
+    warehouseName: string | null;
+    startedAt: string;
+    totalItems: number;
+    countedItems: number;
+}
+
+interface Option {
+    id: string;
+    name?: string;
+    code?: string;
+}
+
+type Scope = StockCountItem['scope'];
+
+const statusColors: Record<string, string> = {
+    in_progress: 'border-blue-500/30 bg-blue-500/10 text-blue-300',
+    submitted: 'border-amber-500/30 bg-amber-500/10 text-amber-300',
+    completed: 'border-emerald-500/30 bg-emerald-500/10 text-emerald-200',
+    cancelled: 'border-slate-500/30 bg-slate-500/10 text-slate-300',
+};
+
+const StockCounts: Component = () => {
+    const navigate = useNavigate();
+    const { t } = useI18n();
+
+    const [showCreate, setShowCreate] = createSignal(false);
+    const [creating, setCreating] = createSignal(false);
+    const [name, setName] = createSignal('');
+    const [warehouseId, setWarehouseId] = createSignal('');
+    const [scope, setScope] = createSignal<Scope>('full');
+    const [categoryId, setCategoryId] = createSignal('');
+    const [binId, setBinId] = createSignal('');
+    const [abcClass, setAbcClass] = createSignal<'A' | 'B' | 'C'>('A');
+    const [cycleLimit, setCycleLimit] = createSignal(50);
+    const [isBlind, setIsBlind] = createSignal(true);
+
+    const [counts, { refetch }] = createResource(async () => {
+        const result = await api<StockCountItem[]>('/stock-counts');
+        return (result as any)?.data ?? result ?? [];
+    });
+
+    const [warehouses] = createResource(showCreate, async () => {
+        const result = await api<Option[]>('/warehouses');
+        const list = (result as any)?.data ?? result ?? [];
+        if (!warehouseId() && list.length > 0) setWarehouseId(list[0].id);
+        return list as Option[];
+    });
+
+    const [categories] = createResource(() => showCreate() && scope() === 'category', async () => {
+        const result = await api<Option[]>('/products/categories');
+        return ((result as any)?.data ?? result ?? []) as Option[];
+    });
+
+    const [bins] = createResource(() => showCreate() && scope() === 'bin' && warehouseId(), async (id) => {
+        const result = await api<Option[]>(`/warehouses/${id}/bins`);
+        return ((result as any)?.data ?? result ?? []) as Option[];
+    });
+
+    const scopeLabel = (count: StockCountItem) => {
+        const label = t(`warehouseApp.counts.scope_${count.scope}`) as string;
+        return count.scope === 'cycle' && count.scopeAbcClass ? `${label} ${count.scopeAbcClass}` : label;
+    };
+
+    const handleCreate = async () => {
+        if (!name().trim()) {
+            showToast(t('warehouseApp.counts.nameRequired'), 'warning');
+            return;
+        }
+
+        setCreating(true);
+        try {
+            const result = await api('/stock-counts', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: name().trim(),
+                    warehouseId: warehouseId() || undefined,
+                    scope: scope(),
+                    categoryId: scope() === 'category' ? categoryId() || undefined : undefined,
+                    binId: scope() === 'bin' ? binId() || undefined : undefined,
+                    abcClass: scope() === 'cycle' ? abcClass() : undefined,
+                    limit: scope() === 'cycle' ? cycleLimit() : undefined,
+                    isBlind: isBlind(),
+                })
+            });
+            const created = (result as any)?.data ?? result;
+            showToast(t('warehouseApp.counts.created'), 'success');
+            setShowCreate(false);
+            setName('');
+            refetch();
+            if (created?.id) navigate(`/warehouse/counts/${created.id}`);
+        } catch (error: any) {
+            showToast(error?.message || t('warehouseApp.counts.createFailed'), 'error');
+        } finally {
+            setCreating(false);
+        }
+    };
+
+    const selectClass = 'w-full px-3 py-2 rounded-xl bg-slate-950/60 border border-slate-800/60 text-white text-sm focus:outline-none focus:border-emerald-500/50';
+
+    return (
+        <div class="min-h-screen bg-slate-950 pb-24">
+            <div class="sticky top-0 z-30 bg-slate-950/90 backdrop-blur-md border-b border-slate-800/50 px-4 py-4">
+                <div class="flex items-center justify-between">
+                    <div class="flex-1">
+                        <h1 class="text-xl font-bold text-white">{t('warehouseApp.counts.title')}</h1>
+                        <p class="text-slate-500 text-sm">{t('warehouseApp.counts.subtitle')}</p>
+                    </div>
+                    <button
+                        onClick={() => setShowCreate(!showCreate())}
+                        class="p-2 rounded-xl bg-indigo-600/20 border border-indigo-500/30 hover:bg-indigo-600/30 transition"
+                        title={t('warehouseApp.counts.newCount')}
+                    >
+                        <Show when={showCreate()} fallback={<Plus class="w-6 h-6 text-indigo-400" />}>
+                            <X class="w-6 h-6 text-indigo-400" />
+                        </Show>
+                    </button>
+                </div>
+            </div>
+
+            <div class="px-4 pt-4 space-y-3">
+                <Show when={showCreate()}>
+                    <div class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4 space-y-3">
+                        <input
+                            type="text"
+                            placeholder={t('warehouseApp.counts.name')}
+                            value={name()}
+                            onInput={(e) => setName(e.currentTarget.value)}
+                            class={selectClass}
+                        />
+
+                        <Show when={(warehouses() ?? []).length > 1}>
+                            <select value={warehouseId()} onChange={(e) => setWarehouseId(e.currentTarget.value)} class={selectClass}>
+                                <For each={warehouses()}>
+                                    {(w) => <option value={w.id}>{w.name}</option>}
+                                </For>
+                            </select>
+                        </Show>
+
+                        <div class="grid grid-cols-4 gap-2">
+                            <For each={['full', 'category', 'bin', 'cycle'] as Scope[]}>
+                                {(s) => (
+                                    <button
+                                        onClick={() => setScope(s)}
+                                        class={`py-2 rounded-xl text-xs font-semibold border transition ${scope() === s
+                                            ? 'bg-emerald-600/20 border-emerald-500/40 text-emerald-300'
+                                            : 'bg-slate-950/40 border-slate-800/60 text-slate-400'}`}
+                                    >
+                                        {t(`warehouseApp.counts.scope_${s}`)}
+                                    </button>
+                                )}
+                            </For>
+                        </div>
+
+                        <Show when={scope() === 'category'}>
+                            <select value={categoryId()} onChange={(e) => setCategoryId(e.currentTarget.value)} class={selectClass}>
+                                <option value="">{t('warehouseApp.counts.selectCategory')}</option>
+                                <For each={categories()}>
+                                    {(c) => <option value={c.id}>{c.name}</option>}
+                                </For>
+                            </select>
+                        </Show>
+
+                        <Show when={scope() === 'bin'}>
+                            <select value={binId()} onChange={(e) => setBinId(e.currentTarget.value)} class={selectClass}>
+                                <option value="">{t('warehouseApp.counts.selectBin')}</option>
+                                <For each={bins()}>
+                                    {(b) => <option value={b.id}>{b.code}</option>}
+                                </For>
+                            </select>
+                        </Show>
+
+                        <Show when={scope() === 'cycle'}>
+                            <div class="flex gap-2">
+                                <select value={abcClass()} onChange={(e) => setAbcClass(e.currentTarget.value as 'A' | 'B' | 'C')} class={selectClass}>
+                                    <option value="A">{t('warehouseApp.counts.classA')}</option>
+                                    <option value="B">{t('warehouseApp.counts.classB')}</option>
+                                    <option value="C">{t('warehouseApp.counts.classC')}</option>
+                                </select>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={cycleLimit()}
+                                    onInput={(e) => setCycleLimit(parseInt(e.currentTarget.value) || 50)}
+                                    class={`${selectClass} w-24`}
+                                    title={t('warehouseApp.counts.cycleLimit')}
+                                />
+                            </div>
+                        </Show>
+
+                        <label class="flex items-center gap-2 text-sm text-slate-300">
+                            <input type="checkbox" checked={isBlind()} onChange={(e) => setIsBlind(e.currentTarget.checked)} />
+                            {t('warehouseApp.counts.blind')}
+                        </label>
+
+                        <button
+                            onClick={handleCreate}
+                            disabled={creating()}
+                            class="w-full py-2 rounded-xl bg-emerald-600/20 text-emerald-300 border border-emerald-500/30 text-sm font-semibold flex items-center justify-center gap-2 disabled:opacity-50 hover:bg-emerald-600/30 transition"
+                        >
+                            <Show when={creating()} fallback={<ClipboardCheck class="w-4 h-4" />}>
+                                <Loader2 class="w-4 h-4 animate-spin" />
+                            </Show>
+                            {t('warehouseApp.counts.start')}
+                        </button>
+                    </div>
+                </Show>
+
+                <Show when={counts.loading}>
+                    <div class="flex items-center justify-center py-10">
+                        <Loader2 class="w-7 h-7 text-emerald-400 animate-spin" />
+                    </div>
+                </Show>
+
+                <Show when={!counts.loading && (counts() ?? []).length === 0}>
+                    <div class="rounded-2xl border border-slate-800/60 bg-slate-900/40 p-5 text-slate-400 text-sm">
+                        {t('warehouseApp.counts.empty')}
+                    </div>
+                </Show>
+
+                <For each={counts() ?? []}>
+                    {(count: StockCountItem) => (
+                        <div
+                            role="button"
+                            tabIndex={0}
+                            onClick={() => navigate(`/warehouse/counts/${count.id}`)}
+                            onKeyDown={(event) => {
+                                if (event.key === 'Enter' || event.key === ' ') {
+                                    event.preventDefault();
+                                    navigate(`/warehouse/counts/${count.id}`);
+                                }
+                            }}
+                            class="bg-slate-900/60 border border-slate-800/60 rounded-2xl p-4 transition hover:border-slate-700/70 hover:bg-slate-900/80 cursor-pointer"
+                        >
+                            <div class="flex items-center justify-between">
+                                <div>
+                                    <div class="text-white font-semibold flex items-center gap-2">
+                                        {count.name}
+                                        <Show when={count.isBlind}>
+                                            <EyeOff class="w-3.5 h-3.5 text-slate-500" />
+                                        </Show>
+                                    </div>
+                                    <div class="text-slate-400 text-sm">
+                                        {scopeLabel(count)}
+                                        <Show when={count.warehouseName}> · {count.warehouseName}</Show>
+                                    </div>
+                                </div>
+                                <span class={`text-xs px-2 py-0.5 rounded-full border ${statusColors[count.status] ?? statusColors.cancelled}`}>
+                                    {t(`warehouseApp.counts.status_${count.status}`)}
+                                </span>
+                            </div>
+                            <div class="mt-3 h-1.5 rounded-full bg-slate-800 overflow-hidden">
+                                <div
+                                    class="h-full bg-emerald-500"
+                                    style={{ width: `${count.totalItems ? Math.round((count.countedItems / count.totalItems) * 100) : 0}%` }}
+                                />
+                            </div>
+                            <div class="mt-1 text-xs text-slate-500">
+                                {count.countedItems}/{count.totalItems} {t('warehouseApp.counts.counted')}
+                            </div>
+                        </div>
+                    )}
+                </For>
+            </div>
+        </div>
+    );
+};
+
+export default StockCounts;
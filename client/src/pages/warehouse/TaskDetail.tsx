@@ -1,8 +1,9 @@
-import { type Component, Show, For, createResource } from 'solid-js';
+import { type Component, Show, For, createResource, createSignal } from 'solid-js';
 import { useParams, useNavigate } from '@solidjs/router';
-import { ArrowLeft, Package, User, Calendar, Loader2, CheckCircle2 } from 'lucide-solid';
+import { ArrowLeft, Package, User, Calendar, Loader2, CheckCircle2, PackageCheck } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { useI18n } from '../../i18n';
+import { showToast } from '../../components/Toast';
 
 interface TaskDetailData {
     id: string;
@@ -30,6 +31,25 @@ const TaskDetail: Component = () => {
         return (result as any)?.data ?? result;
     });
 
+    const [startingPacking, setStartingPacking] = createSignal(false);
+
+    // Opens (or resumes) the packing session for this order
+    const handleStartPacking = async () => {
+        setStartingPacking(true);
+        try {
+            const result = await api('/packing/sessions', {
+                method: 'POST',
+                body: JSON.stringify({ orderId: params.id })
+            });
+            const session = (result as any)?.data ?? result;
+            navigate(`/warehouse/packing/${session.id}`);
+        } catch (error: any) {
+            showToast(error?.message || t('warehouseApp.packing.actionFailed'), 'error');
+        } finally {
+            setStartingPacking(false);
+        }
+    };
+
     const formatDate = (dateStr: string | null) => {
         if (!dateStr) return '-';
         return new Date(dateStr).toLocaleDateString('en-US', {
@@ -155,6 +175,19 @@ const TaskDetail: Component = () => {
                             </For>
                         </div>
                     </div>
+
+                    <Show when={task()?.status === 'picked'}>
+                        <button
+                            onClick={handleStartPacking}
+                            disabled={startingPacking()}
+                            class="w-full py-3 rounded-xl bg-emerald-600/20 text-emerald-300 border border-emerald-500/30 font-semibold flex items-center justify-center gap-2 disabled:opacity-50"
+                        >
+                            <Show when={startingPacking()} fallback={<PackageCheck class="w-4 h-4" />}>
+                                <Loader2 class="w-4 h-4 animate-spin" />
+                            </Show>
+                            {t('warehouseApp.packing.start')}
+                        </button>
+                    </Show>
                 </div>
             </Show>
         </div>
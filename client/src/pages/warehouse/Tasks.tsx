@@ -1,6 +1,6 @@
 import { type Component, For, Show, createResource, createSignal } from 'solid-js';
 import { useNavigate } from '@solidjs/router';
-import { CheckCircle2, Timer, Loader2, Boxes, Square, CheckSquare } from 'lucide-solid';
+import { CheckCircle2, Timer, Loader2, Boxes, Square, CheckSquare, PackageCheck } from 'lucide-solid';
 import { api } from '../../lib/api';
 import { useI18n } from '../../i18n';
 import { showToast } from '../../components/Toast';
@@ -184,7 +184,16 @@ const WarehouseTasks: Component = () => {
                                             </span>
                                         </div>
                                     </div>
-                                    <Show when={!selectionMode()}>
+                                    <Show when={!selectionMode() && task.status === 'picked'}>
+                                        <button
+                                            onClick={(event) => { event.stopPropagation(); navigate(`/warehouse/tasks/${task.id}`); }}
+                                            class="mt-3 w-full py-2 rounded-xl bg-indigo-600/20 text-indigo-300 border border-indigo-500/30 text-sm font-semibold flex items-center justify-center gap-2 hover:bg-indigo-600/30 transition"
+                                        >
+                                            <PackageCheck class="w-4 h-4" />
+                                            {t('warehouseApp.packing.start')}
+                                        </button>
+                                    </Show>
+                                    <Show when={!selectionMode() && !['picked', 'loaded'].includes(task.status)}>
                                         <button
                                             onClick={(event) => handleMarkComplete(task.id, event)}
                                             disabled={updatingTask() === task.id}
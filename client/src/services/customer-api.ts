@@ -62,24 +62,24 @@ export const getSubdomain = (): string => {
 // API CLIENT
 // ============================================================================
 
-const RAW_BASE_URL = import.meta.env.VITE_API_URL;
-
-const resolveBaseUrl = () => {
-    const normalized = RAW_BASE_URL?.replace(/\/$/, '') || '/api';
-    if (!RAW_BASE_URL) return normalized;
-    if (typeof window === 'undefined') return normalized;
-    try {
-        const resolved = new URL(RAW_BASE_URL, window.location.origin);
-        if (import.meta.env.PROD && resolved.origin !== window.location.origin) {
-            return '/api';
-        }
-    } catch {
-        return normalized;
-    }
-    return normalized;
-};
-
-const BASE_URL = resolveBaseUrl();
+const RAW_BASE_URL = import.meta.env.VITE_API_URL;
+
+const resolveBaseUrl = () => {
+    const normalized = RAW_BASE_URL?.replace(/\/$/, '') || '/api';
+    if (!RAW_BASE_URL) return normalized;
+    if (typeof window === 'undefined') return normalized;
+    try {
+        const resolved = new URL(RAW_BASE_URL, window.location.origin);
+        if (import.meta.env.PROD && resolved.origin !== window.location.origin) {
+            return '/api';
+        }
+    } catch {
+        return normalized;
+    }
+    return normalized;
+};
+
+const BASE_URL = resolveBaseUrl();
 
 async function fetchWithAuth<T>(
     endpoint: string,
@@ -195,14 +195,27 @@ export const ordersApi = {
         return fetchWithAuth(`/customer-portal/orders/${orderId}/timeline`);
     },
 
+    async downloadInvoice(orderId: string): Promise<Blob | null> {
+        const token = tokenStorage.get();
+        try {
+            const res = await fetch(`${BASE_URL}/customer-portal/orders/${orderId}/invoice`, {
+                headers: token ? { 'Authorization': `Bearer ${token}` } : {},
+            });
+            return res.ok ? await res.blob() : null;
+        } catch {
+            return null;
+        }
+    },
+
     async create(
         items: { productId: string; quantity: number }[],
         notes?: string,
-        deliveryNotes?: string
+        deliveryNotes?: string,
+        promoCode?: string
     ): Promise<ApiResponse<{ orderId: string; orderNumber: string; totalAmount: number; itemCount: number; message: string }>> {
         return fetchWithAuth('/customer-portal/orders', {
             method: 'POST',
-            body: JSON.stringify({ items, notes, deliveryNotes })
+            body: JSON.stringify({ items, notes, deliveryNotes, promoCode })
         });
     },
 
@@ -343,7 +356,46 @@ export const brandingApi = {
 // DISCOUNTS API
 // ============================================================================
 
+export interface PriceAdjustment {
+    kind: 'tier' | 'promotion';
+    discountId: string | null;
+    name: string;
+    type: string;
+    description: string;
+    amount: number;
+}
+
+export interface PricedLine {
+    productId: string;
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    lineTotal: number;
+    tierDiscount: number;
+    promotionDiscount: number;
+    discountAmount: number;
+    discountId: string | null;
+    freeQty: number;
+    taxRate: number;
+    taxAmount: number;
+    netTotal: number;
+    explanations: PriceAdjustment[];
+}
+
+export interface DiscountPreview {
+    customerId: string;
+    tierName: string | null;
+    tierDiscountPercent: number;
+    lines: PricedLine[];
+    appliedDiscounts: { id: string; name: string; type: string; amount: number }[];
+    subtotalAmount: number;
+    discountAmount: number;
+    taxAmount: number;
+    totalAmount: number;
+}
+
 export interface DiscountValidationResult {
+    promoCode: string;
     discountId: string;
     discountName: string;
     discountType: string;
@@ -351,6 +403,7 @@ export interface DiscountValidationResult {
     discountAmount: number;
     originalTotal: number;
     newTotal: number;
+    quote: DiscountPreview;
 }
 
 export interface AvailableDiscount {
@@ -365,20 +418,11 @@ export interface AvailableDiscount {
     description: string;
 }
 
-export interface DiscountPreview {
-    id: string;
-    name: string;
-    type: string;
-    value: number;
-    discountAmount: number;
-    newTotal: number;
-}
-
 export const discountsApi = {
-    async validate(code: string, cartTotal: number, items?: { productId: string; quantity: number; unitPrice?: number }[]): Promise<ApiResponse<DiscountValidationResult>> {
+    async validate(code: string, items: { productId: string; quantity: number }[]): Promise<ApiResponse<DiscountValidationResult>> {
         return fetchWithAuth('/customer-portal/discounts/validate', {
             method: 'POST',
-            body: JSON.stringify({ code, cartTotal, items })
+            body: JSON.stringify({ code, items })
         });
     },
 
@@ -386,10 +430,10 @@ export const discountsApi = {
         return fetchWithAuth('/customer-portal/discounts/available');
     },
 
-    async preview(cartTotal: number, itemsCount: number): Promise<ApiResponse<DiscountPreview | null>> {
+    async preview(items: { productId: string; quantity: number }[]): Promise<ApiResponse<DiscountPreview>> {
         return fetchWithAuth('/customer-portal/discounts/preview', {
             method: 'POST',
-            body: JSON.stringify({ cartTotal, itemsCount })
+            body: JSON.stringify({ items })
         });
     },
 };
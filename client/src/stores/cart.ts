@@ -1,12 +1,23 @@
 import { createSignal, createMemo, createRoot } from 'solid-js';
 
+export interface CartItemPack {
+    unit: string;
+    // Base units per pack
+    factor: number;
+}
+
 export interface CartItem {
     productId: string;
     name: string;
     sku: string;
+    // Per base unit
     price: number;
     unit: string;
+    // In packUnit when one is chosen, otherwise in the base unit
     quantity: number;
+    packs?: CartItemPack[];
+    packUnit?: string | null;
+    packFactor?: number;
     discount?: number;
     image?: string;
 }
@@ -31,7 +42,7 @@ const rootState = createRoot(() => {
     const cartCount = createMemo(() => cartItems().reduce((sum, item) => sum + item.quantity, 0));
 
     const cartSubtotal = createMemo(() =>
-        cartItems().reduce((sum, item) => sum + item.price * item.quantity, 0)
+        cartItems().reduce((sum, item) => sum + item.price * item.quantity * (item.packFactor ?? 1), 0)
     );
 
     const cartDiscount = createMemo(() =>
@@ -92,6 +103,17 @@ export function updateCartQuantity(productId: string, quantity: number) {
     );
 }
 
+// Sell a line by the pack (null = the base unit); the quantity is kept
+export function setCartItemPack(productId: string, pack: CartItemPack | null) {
+    rootState.setCartItems((prev) =>
+        prev.map((item) =>
+            item.productId === productId
+                ? { ...item, packUnit: pack?.unit ?? null, packFactor: pack?.factor ?? 1 }
+                : item
+        )
+    );
+}
+
 export function removeFromCart(productId: string) {
     rootState.setCartItems((prev) => prev.filter((item) => item.productId !== productId));
 }
@@ -87,6 +87,7 @@ export interface OrderDetail extends Order {
     deliveryNotes?: string;
     items: OrderItem[];
     paymentUrl?: string;
+    invoice?: { invoiceNumber: string; issueDate: string } | null;
 }
 
 export interface OrderItem {
@@ -112,6 +113,27 @@ export interface Product {
     inStock: boolean;
     categoryId?: string;
     isFavorite?: boolean;
+    // Set on variants; catalogs show a family as one card with a picker
+    variantAttributes?: Record<string, string> | null;
+    family?: ProductFamily | null;
+}
+
+export interface ProductVariant {
+    id: string;
+    name: string;
+    sku: string;
+    attributes: Record<string, string>;
+    sellingPrice: number;
+    imageUrl?: string;
+    stockQty: number;
+    inStock: boolean;
+}
+
+export interface ProductFamily {
+    id: string;
+    name: string;
+    attributes: string[];
+    variants: ProductVariant[];
 }
 
 export interface ProductImage {
@@ -154,6 +176,14 @@ export interface TimelineStep {
     completed: boolean;
     current: boolean;
     date: string | null;
+    proof?: DeliveryProof | null;
+}
+
+export interface DeliveryProof {
+    recipientName: string;
+    signatureUrl: string | null;
+    photoUrls: string[];
+    capturedAt: string;
 }
 
 // ============================================================================
@@ -0,0 +1,56 @@
+/**
+ * Product Variant Helpers
+ * 
+ * Shared picker logic for catalogs that show a product family as one card.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VariantFamily<V extends { id: string; attributes: Record<string, string> }> {
+    id: string;
+    name: string;
+    attributes: string[];
+    variants: V[];
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Keeps the first product of each family so a family shows as one card
+ */
+export const groupVariants = <P extends { family?: { id: string } | null }>(products: P[]): P[] => {
+    const seen = new Set<string>();
+    return products.filter(product => {
+        if (!product.family) return true;
+        if (seen.has(product.family.id)) return false;
+        seen.add(product.family.id);
+        return true;
+    });
+};
+
+/**
+ * Distinct values of one attribute, in variant order
+ */
+export const attributeValues = <V extends { id: string; attributes: Record<string, string> }>(
+    family: VariantFamily<V>,
+    attribute: string
+): string[] => [...new Set(family.variants.map(v => v.attributes[attribute]).filter(Boolean))];
+
+/**
+ * The variant to switch to when one attribute changes: the one matching
+ * every other current value, else the first with the new value
+ */
+export const pickVariant = <V extends { id: string; attributes: Record<string, string> }>(
+    family: VariantFamily<V>,
+    current: Record<string, string>,
+    attribute: string,
+    value: string
+): V | undefined => {
+    const wanted = { ...current, [attribute]: value };
+    return family.variants.find(v => family.attributes.every(name => v.attributes[name] === wanted[name]))
+        ?? family.variants.find(v => v.attributes[attribute] === value);
+};
@@ -0,0 +1,41 @@
+/**
+ * Encrypt plaintext secrets and re-wrap secrets after a master key change
+ *
+ * Usage:
+ *   npm run secrets:rotate
+ *
+ * To rotate the master key:
+ *   1. Move the current SECRETS_ENCRYPTION_KEY to SECRETS_ENCRYPTION_KEY_PREVIOUS
+ *   2. Set a new SECRETS_ENCRYPTION_KEY (openssl rand -hex 32) and restart the server
+ *   3. Run this script, then remove SECRETS_ENCRYPTION_KEY_PREVIOUS
+ */
+
+import 'dotenv/config';
+import { rotateStoredSecrets } from '../src/lib/secret-rotation';
+
+async function main() {
+    console.log('🔐 Rotating stored secrets\n');
+
+    if (!process.env.DATABASE_URL) {
+        console.error('❌ Error: DATABASE_URL environment variable is not set');
+        process.exit(1);
+    }
+
+    try {
+        const result = await rotateStoredSecrets();
+        console.log(`Checked ${result.checked}, rotated ${result.rotated}, failed ${result.failed}`);
+
+        if (result.failed > 0) {
+            console.error('\n❌ Some secrets could not be rotated - keep the previous key configured and check the log above');
+            process.exit(1);
+        }
+
+        console.log('\n✅ All secrets are encrypted with the current key');
+        process.exit(0);
+    } catch (error: any) {
+        console.error('\n❌ Rotation failed:', error.message);
+        process.exit(1);
+    }
+}
+
+main();
@@ -0,0 +1,63 @@
+/**
+ * Test executor - a stand-in for the Drizzle db / transaction in unit tests
+ *
+ * Every awaited select, execute, or write with returning() resolves to the
+ * next of the queued results, in the order the code under test awaits them.
+ * Writes are recorded with their table and values so a test can check what
+ * would have been written; without returning() they resolve to nothing.
+ */
+
+export interface RecordedWrite {
+    op: 'insert' | 'update' | 'delete';
+    table: unknown;
+    values?: any;
+    returning?: boolean;
+}
+
+export function testExecutor(results: unknown[] = []) {
+    const queue = [...results];
+    const writes: RecordedWrite[] = [];
+
+    const query = (write?: RecordedWrite): any => {
+        const chain: any = new Proxy({}, {
+            get(_, prop) {
+                if (prop === 'then') {
+                    if (write && !write.returning) return (resolve: (value: unknown) => void) => resolve(undefined);
+                    if (queue.length === 0) throw new Error('Test executor has no result queued for this query');
+                    const result = queue.shift();
+                    return (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+                        Promise.resolve(result).then(resolve, reject);
+                }
+                return (...args: any[]) => {
+                    if (write && (prop === 'values' || prop === 'set')) write.values = args[0];
+                    if (write && prop === 'returning') write.returning = true;
+                    return chain;
+                };
+            },
+        });
+        return chain;
+    };
+
+    const record = (op: RecordedWrite['op']) => (table: unknown) => {
+        const write: RecordedWrite = { op, table };
+        writes.push(write);
+        return query(write);
+    };
+
+    const executor: any = {
+        select: () => query(),
+        selectDistinct: () => query(),
+        insert: record('insert'),
+        update: record('update'),
+        delete: record('delete'),
+        execute: () => query(),
+        transaction: async (work: (tx: any) => Promise<unknown>) => work(executor),
+    };
+
+    return {
+        executor,
+        writes,
+        // Results not consumed by the code under test
+        pending: () => queue.length,
+    };
+}
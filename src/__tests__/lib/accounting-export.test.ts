@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toPostings, journalToCSV } from '@/lib/accounting-export';
+import type { JournalExportEntry, JournalExportLine } from '@/services/general-ledger.service';
+
+const line = (accountCode: string, debit: number, credit: number, customerName: string | null = null): JournalExportLine =>
+    ({ accountCode, accountName: accountCode, debit, credit, customerName, supplierName: null });
+
+const entry = (lines: JournalExportLine[]): JournalExportEntry => ({
+    id: 'entry-1',
+    date: new Date('2026-10-19T09:30:00Z'),
+    sourceType: 'delivery',
+    reference: 'ORD-1',
+    description: 'Sale, order ORD-1',
+    totalAmount: lines.reduce((sum, l) => sum + l.debit, 0),
+    lines,
+});
+
+describe('toPostings', () => {
+    it('pairs a single debit with a single credit', () => {
+        assert.deepEqual(toPostings(entry([line('5010', 50, 0), line('4010', 0, 50, 'Dilshod Market')])), [
+            { debitAccount: '5010', creditAccount: '4010', amount: 50, counterparty: 'Dilshod Market' },
+        ]);
+    });
+
+    it('splits a sale into pairs matching amounts in order', () => {
+        const postings = toPostings(entry([
+            line('4010', 112, 0, 'Dilshod Market'),
+            line('9020', 0, 100),
+            line('6410', 0, 12),
+            line('9120', 70, 0),
+            line('2910', 0, 70),
+        ]));
+
+        assert.deepEqual(postings.map(p => [p.debitAccount, p.creditAccount, p.amount]), [
+            ['4010', '9020', 100],
+            ['4010', '6410', 12],
+            ['9120', '2910', 70],
+        ]);
+        assert.equal(postings[0].counterparty, 'Dilshod Market');
+    });
+
+    it('adds up exactly in tiyin', () => {
+        const postings = toPostings(entry([line('4010', 0.1, 0), line('4010', 0.2, 0), line('9020', 0, 0.3)]));
+
+        assert.deepEqual(postings.map(p => p.amount), [0.1, 0.2]);
+        assert.equal(Math.round(postings.reduce((sum, p) => sum + p.amount * 100, 0)), 30);
+    });
+
+    it('has no postings for an entry without lines', () => {
+        assert.deepEqual(toPostings(entry([])), []);
+    });
+});
+
+describe('journalToCSV', () => {
+    it('quotes values with commas and quotes', () => {
+        const csv = journalToCSV([entry([line('4010', 5, 0, 'Market "Baraka", Chilonzor'), line('5010', 0, 5)])]);
+        assert.ok(csv.includes('"Market ""Baraka"", Chilonzor"'));
+    });
+});
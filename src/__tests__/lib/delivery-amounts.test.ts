@@ -0,0 +1,140 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { resolveDelivered, shrinkOrder, shippedQty } from '@/lib/delivery-amounts';
+
+const items = [
+    { id: 'item-a', qtyOrdered: 6, qtyPicked: null, lineTotal: '60.00', discountAmount: '6.00', taxAmount: '6.00' },
+    { id: 'item-b', qtyOrdered: 4, qtyPicked: null, lineTotal: '40.00', discountAmount: '0', taxAmount: '4.00' },
+];
+
+// Lines add up to 100; a 10% order-level discount brings the order to 90
+const order = { subtotalAmount: '100.00', discountAmount: '10.00', taxAmount: '9.00', totalAmount: '90.00', paidAmount: '0' };
+
+describe('shippedQty', () => {
+    it('is the picked quantity once picking recorded one', () => {
+        assert.equal(shippedQty({ qtyOrdered: 6, qtyPicked: 5 }), 5);
+        assert.equal(shippedQty({ qtyOrdered: 6, qtyPicked: null }), 6);
+        assert.equal(shippedQty({ qtyOrdered: 6, qtyPicked: 0 }), 6);
+    });
+});
+
+describe('resolveDelivered', () => {
+    it('has no short lines for a full delivery', () => {
+        assert.equal(resolveDelivered('delivered', items, []).size, 0);
+    });
+
+    it('delivers nothing on a refused stop, keeping the reasons given', () => {
+        const delivered = resolveDelivered('refused', items, [{ orderItemId: 'item-b', qtyDelivered: 4, reason: 'damaged' }]);
+        assert.deepEqual([...delivered], [
+            ['item-a', { qtyDelivered: 0, reason: undefined }],
+            ['item-b', { qtyDelivered: 0, reason: 'damaged' }],
+        ]);
+    });
+
+    it('keeps only the lines delivered short', () => {
+        const delivered = resolveDelivered('partial', items, [
+            { orderItemId: 'item-a', qtyDelivered: 2, reason: 'expired' },
+            { orderItemId: 'item-b', qtyDelivered: 4 },
+        ]);
+        assert.deepEqual([...delivered], [['item-a', { qtyDelivered: 2, reason: 'expired' }]]);
+    });
+
+    it('allows no more than was shipped', () => {
+        const picked = [{ ...items[0], qtyPicked: 5 }];
+        assert.throws(() => resolveDelivered('partial', picked, [{ orderItemId: 'item-a', qtyDelivered: 6 }]), /between 0 and the shipped quantity/);
+        assert.throws(() => resolveDelivered('partial', items, [{ orderItemId: 'item-a', qtyDelivered: -1 }]), /between 0 and the shipped quantity/);
+        assert.throws(() => resolveDelivered('partial', items, [{ orderItemId: 'item-a', qtyDelivered: 1.5 }]), /between 0 and the shipped quantity/);
+    });
+
+    it('refuses unknown and repeated lines', () => {
+        assert.throws(() => resolveDelivered('partial', items, [{ orderItemId: 'other', qtyDelivered: 1 }]), /Order item not found/);
+        assert.throws(() => resolveDelivered('partial', items, [
+            { orderItemId: 'item-a', qtyDelivered: 1 },
+            { orderItemId: 'item-a', qtyDelivered: 2 },
+        ]), /more than once/);
+    });
+
+    it('needs a short line for a partial delivery', () => {
+        assert.throws(() => resolveDelivered('partial', items, [{ orderItemId: 'item-a', qtyDelivered: 6 }]), /at least one line delivered short/);
+    });
+});
+
+describe('shrinkOrder', () => {
+    it('shrinks the order, its discount and tax by the share not delivered', () => {
+        const amounts = shrinkOrder(order, items, new Map([['item-a', { qtyDelivered: 3 }]]));
+
+        // 30 of the 100 line value stayed in the van: 30% of every order amount
+        assert.equal(amounts.subtotalAmount, 70);
+        assert.equal(amounts.discountAmount, 7);
+        assert.equal(amounts.taxAmount, 6.3);
+        assert.equal(amounts.totalAmount, 63);
+        assert.equal(amounts.creditedAmount, 27);
+    });
+
+    it('keeps the delivered share of a short line', () => {
+        const [line] = shrinkOrder(order, items, new Map([['item-a', { qtyDelivered: 3, reason: 'expired' }]])).shortLines;
+
+        assert.deepEqual(line, {
+            itemId: 'item-a',
+            qtyDelivered: 3,
+            qtyBack: 3,
+            lineTotal: 30,
+            discountAmount: 3,
+            taxAmount: 3,
+            // The refund carries the order-level discount
+            refundAmount: 27,
+            reason: 'expired',
+        });
+    });
+
+    it('brings back only what was shipped', () => {
+        const picked = [{ ...items[0], qtyPicked: 5 }, items[1]];
+        const [line] = shrinkOrder(order, picked, new Map([['item-a', { qtyDelivered: 3 }]])).shortLines;
+        assert.equal(line.qtyBack, 2);
+    });
+
+    it('takes an unpaid credit off the debt', () => {
+        const amounts = shrinkOrder(order, items, new Map([['item-a', { qtyDelivered: 3 }]]));
+
+        assert.equal(amounts.debtReduction, 27);
+        assert.equal(amounts.overpaid, 0);
+        assert.equal(amounts.paidAmount, 0);
+        assert.equal(amounts.paymentStatus, 'unpaid');
+    });
+
+    it('turns an already paid share into customer credit', () => {
+        const amounts = shrinkOrder({ ...order, paidAmount: '80.00' }, items, new Map([['item-a', { qtyDelivered: 3 }]]));
+
+        // 10 of the 27 was still owed; the other 17 was paid
+        assert.equal(amounts.debtReduction, 10);
+        assert.equal(amounts.overpaid, 17);
+        assert.equal(amounts.paidAmount, 63);
+        assert.equal(amounts.paymentStatus, 'paid');
+    });
+
+    it('keeps an order paid in full paid for its new total', () => {
+        const amounts = shrinkOrder({ ...order, paidAmount: '90.00' }, items, new Map([['item-a', { qtyDelivered: 3 }]]));
+
+        assert.equal(amounts.debtReduction, 0);
+        assert.equal(amounts.overpaid, 27);
+        assert.equal(amounts.paidAmount, 63);
+        assert.equal(amounts.paymentStatus, 'paid');
+    });
+
+    it('credits the whole order when nothing is delivered', () => {
+        const amounts = shrinkOrder(order, items, resolveDelivered('refused', items, []));
+
+        assert.equal(amounts.totalAmount, 0);
+        assert.equal(amounts.creditedAmount, 90);
+        assert.deepEqual(amounts.shortLines.map(line => line.qtyBack), [6, 4]);
+        assert.equal(amounts.shortLines.reduce((sum, line) => sum + line.refundAmount, 0), 90);
+    });
+
+    it('changes nothing for a full delivery', () => {
+        const amounts = shrinkOrder(order, items, new Map());
+
+        assert.equal(amounts.totalAmount, 90);
+        assert.equal(amounts.creditedAmount, 0);
+        assert.deepEqual(amounts.shortLines, []);
+    });
+});
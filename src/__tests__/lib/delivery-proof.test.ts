@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkProofInput } from '@/lib/delivery-proof';
+
+const signature = 'data:image/png;base64,iVBORw0KGgo=';
+const photo = (name: string) => `/uploads/tenant-1/${name}.webp`;
+
+describe('checkProofInput', () => {
+    it('accepts a signature with the recipient\'s name', () => {
+        const now = new Date('2026-10-19T10:00:00Z');
+        assert.deepEqual(checkProofInput('tenant-1', { recipientName: ' Aziz ', signature }, now), {
+            recipientName: 'Aziz', photoUrls: [], capturedAt: now,
+        });
+    });
+
+    it('accepts photos alone and keeps the capture time sent by the device', () => {
+        const proof = checkProofInput('tenant-1', { recipientName: 'Aziz', photoUrls: [photo('a')], capturedAt: '2026-10-19T09:58:00Z' });
+        assert.deepEqual(proof.photoUrls, [photo('a')]);
+        assert.equal(proof.capturedAt.toISOString(), '2026-10-19T09:58:00.000Z');
+    });
+
+    it('needs a recipient and a signature or photo', () => {
+        assert.throws(() => checkProofInput('tenant-1', { recipientName: '  ', signature }), /Recipient name is required/);
+        assert.throws(() => checkProofInput('tenant-1', { recipientName: 'Aziz' }), /A signature or photo is required/);
+    });
+
+    it('only takes the tenant\'s own uploads, up to the photo limit', () => {
+        assert.throws(() => checkProofInput('tenant-1', { recipientName: 'Aziz', photoUrls: ['/uploads/tenant-2/a.webp'] }), /Invalid photo URL/);
+        assert.throws(() => checkProofInput('tenant-1', { recipientName: 'Aziz', photoUrls: [photo('../../x')] }), /Invalid photo URL/);
+        const photos = ['a', 'b', 'c', 'd', 'e', 'f'].map(photo);
+        assert.throws(() => checkProofInput('tenant-1', { recipientName: 'Aziz', photoUrls: photos }), /At most 5 photos are allowed/);
+    });
+
+    it('needs both coordinates of a GPS fix', () => {
+        assert.throws(() => checkProofInput('tenant-1', { recipientName: 'Aziz', signature, latitude: 41.3 }), /Latitude and longitude must be sent together/);
+    });
+});
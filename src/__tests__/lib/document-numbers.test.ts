@@ -0,0 +1,26 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { nextDocumentNumber } from '@/lib/document-numbers';
+import { testExecutor } from '../helpers/test-executor';
+
+describe('nextDocumentNumber', () => {
+    it('formats the counter with the prefix, zero padded', async () => {
+        const { executor } = testExecutor([[{ lastNumber: 7 }]]);
+        assert.equal(await nextDocumentNumber(executor, 'tenant-1', 'transfer', 'TRF-'), 'TRF-00007');
+    });
+
+    it('keeps counters above five digits whole', async () => {
+        const { executor } = testExecutor([[{ lastNumber: 123456 }]]);
+        assert.equal(await nextDocumentNumber(executor, 'tenant-1', 'bill', 'BILL-'), 'BILL-123456');
+    });
+
+    it('upserts the tenant counter for the document type', async () => {
+        const { executor, writes } = testExecutor([[{ lastNumber: 1 }]]);
+        await nextDocumentNumber(executor, 'tenant-1', 'transfer', 'TRF-');
+
+        assert.equal(writes.length, 1);
+        assert.equal(writes[0].table, schema.documentSequences);
+        assert.deepEqual(writes[0].values, { tenantId: 'tenant-1', documentType: 'transfer', lastNumber: 1 });
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import {
+    getPaymentProvider,
+    listPaymentProviders,
+    isProviderConfigured,
+    maskProviderCredentials,
+    saveTenantProviderConfig,
+    uzumProvider,
+} from '@/lib/payment-providers';
+
+const uzum = { serviceId: '101', login: 'shop', password: 'uzum-secret-password' };
+const basicAuth = (login: string, password: string) => `Basic ${Buffer.from(`${login}:${password}`).toString('base64')}`;
+
+describe('payment provider registry', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('lists Click, Payme and Uzum Bank and finds them by name', () => {
+        assert.deepEqual(listPaymentProviders().map(p => p.name), ['click', 'payme', 'uzum']);
+        assert.equal(getPaymentProvider('uzum'), uzumProvider);
+        assert.equal(getPaymentProvider('paypal'), null);
+    });
+
+    it('is configured once every required credential has a value', () => {
+        assert.equal(isProviderConfigured(uzumProvider, uzum), true);
+        assert.equal(isProviderConfigured(uzumProvider, { ...uzum, password: '' }), false);
+    });
+
+    it('masks secret credentials only', () => {
+        const masked = maskProviderCredentials(uzumProvider, uzum);
+        assert.deepEqual([masked.serviceId, masked.login], ['101', 'shop']);
+        assert.notEqual(masked.password, uzum.password);
+        assert.ok(masked.password.endsWith('word'));
+    });
+
+    it('keeps the stored secret when the mask is sent back', async () => {
+        const fake = testExecutor([[{ isEnabled: true, credentials: JSON.stringify(uzum) }]]);
+        mock.method(db, 'select', fake.executor.select);
+        mock.method(db, 'insert', fake.executor.insert);
+
+        const masked = maskProviderCredentials(uzumProvider, uzum);
+        await saveTenantProviderConfig('tenant-1', 'uzum', { credentials: { ...masked, login: ' shop2 ' } });
+
+        const saved = JSON.parse(fake.writes[0].values.credentials);
+        assert.deepEqual(saved, { serviceId: '101', login: 'shop2', password: uzum.password });
+    });
+});
+
+describe('Uzum Bank adapter', () => {
+    it('links to the Uzum checkout with the amount in tiyin', () => {
+        const url = new URL(uzumProvider.createLink(uzum, { token: 'tok', amount: 1500.5, currency: 'UZS' }));
+        assert.deepEqual([url.searchParams.get('serviceId'), url.searchParams.get('amount'), url.searchParams.get('account')], ['101', '150050', 'tok']);
+    });
+
+    it('accepts webhooks with the tenant\'s login, password and service only', () => {
+        const request = (authorization: string, serviceId = 101) => ({ headers: { authorization }, body: { serviceId } });
+
+        assert.equal(uzumProvider.verifyWebhook(uzum, request(basicAuth('shop', uzum.password))), true);
+        assert.equal(uzumProvider.verifyWebhook(uzum, request(basicAuth('shop', 'wrong'))), false);
+        assert.equal(uzumProvider.verifyWebhook(uzum, request(basicAuth('shop', uzum.password), 202)), false);
+    });
+});
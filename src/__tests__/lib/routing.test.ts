@@ -0,0 +1,90 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { optimizeRoute, optimizeRouteWithTimeWindows, type DistanceMatrix, type TimeWindow } from '@/lib/routing';
+
+// Points on a straight road, one kilometre per unit and a minute per kilometre
+const lineMatrix = (positions: number[]): DistanceMatrix => {
+    const distanceKm = positions.map(a => positions.map(b => Math.abs(a - b)));
+    return { distanceKm, durationMin: distanceKm.map(row => [...row]), source: 'haversine' };
+};
+
+// Points on a plane, straight-line distances
+const planeMatrix = (points: [number, number][]): DistanceMatrix => {
+    const distanceKm = points.map(([ax, ay]) => points.map(([bx, by]) => Math.hypot(ax - bx, ay - by)));
+    return { distanceKm, durationMin: distanceKm.map(row => [...row]), source: 'haversine' };
+};
+
+describe('optimizeRoute', () => {
+    it('returns an empty route for the depot alone', () => {
+        assert.deepEqual(optimizeRoute(lineMatrix([0])), { order: [], distanceKm: 0, durationMin: 0 });
+    });
+
+    it('visits stops along a road in order on an open route', () => {
+        const route = optimizeRoute(lineMatrix([0, 3, 1, 2]), { closed: false });
+        assert.deepEqual(route.order, [2, 3, 1]);
+        assert.equal(route.distanceKm, 3);
+        assert.equal(route.durationMin, 3);
+    });
+
+    it('counts the way back to the depot on a closed route', () => {
+        const route = optimizeRoute(lineMatrix([0, 3, 1, 2]));
+        assert.equal(route.distanceKm, 6);
+        assert.deepEqual([...route.order].sort(), [1, 2, 3]);
+    });
+
+    it('starts from the given depot node', () => {
+        const route = optimizeRoute(lineMatrix([5, 0, 10]), { start: 1, closed: false });
+        assert.deepEqual(route.order, [0, 2]);
+        assert.equal(route.distanceKm, 10);
+    });
+
+    it('untangles the crossing a nearest-neighbour tour leaves', () => {
+        // Nearest neighbour goes 0 -> 1 -> 2 -> 3 -> 4 and crosses 2 -> 3 on the way back
+        const route = optimizeRoute(planeMatrix([[0, 0], [1, 0], [2, 1], [2, -1], [4, 0]]));
+        // 0 -> 1 -> 2 -> 4 -> 3 -> 0, or the same loop mirrored
+        assert.ok(Math.abs(route.distanceKm - (1 + Math.SQRT2 + 3 * Math.sqrt(5))) < 1e-9);
+    });
+
+    it('visits every stop exactly once', () => {
+        const points: [number, number][] = Array.from({ length: 25 }, (_, i) => [Math.cos(i * 2.4) * (i % 7 + 1), Math.sin(i * 2.4) * (i % 5 + 1)]);
+        const route = optimizeRoute(planeMatrix(points));
+        assert.deepEqual([...route.order].sort((a, b) => a - b), Array.from({ length: 24 }, (_, i) => i + 1));
+    });
+});
+
+describe('optimizeRouteWithTimeWindows', () => {
+    const open = (serviceMin: number): TimeWindow => ({ earliest: null, latest: null, serviceMin });
+
+    it('drives past nearer stops to make a deadline', () => {
+        const windows = [open(0), open(10), open(10), { earliest: null, latest: 3, serviceMin: 10 }];
+        const route = optimizeRouteWithTimeWindows(lineMatrix([0, 1, 2, 3]), windows, { startMin: 0 });
+
+        assert.deepEqual(route.stops.map(stop => stop.node), [3, 2, 1]);
+        assert.equal(route.lateMin, 0);
+        assert.equal(route.distanceKm, 5);
+    });
+
+    it('waits for a window to open and counts service time', () => {
+        const windows = [open(0), { earliest: 60, latest: null, serviceMin: 5 }];
+        const route = optimizeRouteWithTimeWindows(lineMatrix([0, 1]), windows, { startMin: 0 });
+
+        assert.deepEqual(route.stops, [{ node: 1, legKm: 1, legMin: 1, arrivalMin: 1, startMin: 60, waitMin: 59, lateMin: 0 }]);
+        assert.equal(route.durationMin, 65);
+    });
+
+    it('reports lateness it cannot avoid', () => {
+        const windows = [open(0), { earliest: null, latest: 485, serviceMin: 0 }];
+        const route = optimizeRouteWithTimeWindows(lineMatrix([0, 10]), windows, { startMin: 480 });
+
+        assert.equal(route.stops[0].arrivalMin, 490);
+        assert.equal(route.lateMin, 5);
+    });
+
+    it('takes the shortest order when no stop has a window', () => {
+        const route = optimizeRouteWithTimeWindows(lineMatrix([0, 3, 1, 2]), [open(0), open(5), open(5), open(5)], { startMin: 0 });
+
+        assert.deepEqual(route.stops.map(stop => stop.node), [2, 3, 1]);
+        assert.equal(route.distanceKm, 3);
+        assert.equal(route.durationMin, 18);
+    });
+});
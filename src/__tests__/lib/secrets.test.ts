@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+
+// Read lazily by the module on first use
+process.env.SECRETS_ENCRYPTION_KEY = 'current-master-key';
+process.env.SECRETS_ENCRYPTION_KEY_PREVIOUS = 'retired-master-key';
+
+import {
+    encryptSecret,
+    decryptSecret,
+    rotateSecret,
+    needsRotation,
+    isEncryptedSecret,
+    maskSecret,
+    isMaskedSecret,
+} from '@/lib/secrets';
+
+// The module's key derivation, to build values written under the retired key
+const masterKey = (secret: string) => {
+    const key = crypto.createHash('sha256').update(secret).digest();
+    return { key, id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 8) };
+};
+
+const seal = (key: Buffer, plaintext: Buffer) => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, tag: cipher.getAuthTag(), ciphertext };
+};
+
+const b64 = (value: Buffer) => value.toString('base64');
+
+const v1Under = (secret: string, plaintext: string) => {
+    const { iv, tag, ciphertext } = seal(masterKey(secret).key, Buffer.from(plaintext));
+    return ['v1', b64(iv), b64(tag), b64(ciphertext)].join(':');
+};
+
+const v2Under = (secret: string, plaintext: string) => {
+    const master = masterKey(secret);
+    const dataKey = crypto.randomBytes(32);
+    const wrapped = seal(master.key, dataKey);
+    const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext));
+    return ['v2', master.id, b64(Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext])), b64(iv), b64(tag), b64(ciphertext)].join(':');
+};
+
+describe('encryptSecret / decryptSecret', () => {
+    it('round-trips a secret', () => {
+        const stored = encryptSecret('click-secret-key ✓');
+        assert.ok(stored.startsWith(`v2:${masterKey('current-master-key').id}:`));
+        assert.equal(decryptSecret(stored), 'click-secret-key ✓');
+    });
+
+    it('gives every value its own data key', () => {
+        const a = encryptSecret('same').split(':');
+        const b = encryptSecret('same').split(':');
+        assert.notEqual(a[2], b[2]);
+        assert.notEqual(a[5], b[5]);
+    });
+
+    it('rejects a tampered value', () => {
+        const parts = encryptSecret('bot-token').split(':');
+        const ciphertext = Buffer.from(parts[5], 'base64');
+        ciphertext[0] ^= 1;
+        parts[5] = b64(ciphertext);
+        assert.throws(() => decryptSecret(parts.join(':')));
+    });
+
+    it('reads values under a retired key and the first version format', () => {
+        assert.equal(decryptSecret(v2Under('retired-master-key', 'old-v2')), 'old-v2');
+        assert.equal(decryptSecret(v1Under('retired-master-key', 'old-v1')), 'old-v1');
+    });
+
+    it('refuses values under a key that is not configured', () => {
+        assert.throws(() => decryptSecret(v2Under('unknown-key', 'x')), /unknown master key/);
+        assert.throws(() => decryptSecret(v1Under('unknown-key', 'x')), /any configured master key/);
+        assert.throws(() => decryptSecret('v3:abc'), /Unsupported secret format/);
+    });
+});
+
+describe('rotateSecret', () => {
+    it('re-wraps the data key of a value under a retired key', () => {
+        const old = v2Under('retired-master-key', 'payme-key');
+        assert.equal(needsRotation(old), true);
+
+        const rotated = rotateSecret(old);
+        assert.equal(needsRotation(rotated), false);
+        assert.equal(decryptSecret(rotated), 'payme-key');
+        // Only the key wrapping changes
+        assert.deepEqual(rotated.split(':').slice(3), old.split(':').slice(3));
+    });
+
+    it('encrypts plaintext and first version values afresh', () => {
+        for (const old of ['legacy-plaintext', v1Under('retired-master-key', 'legacy-plaintext')]) {
+            assert.equal(needsRotation(old), true);
+            const rotated = rotateSecret(old);
+            assert.ok(rotated.startsWith('v2:'));
+            assert.equal(decryptSecret(rotated), 'legacy-plaintext');
+        }
+    });
+
+    it('leaves current values alone', () => {
+        const current = encryptSecret('smtp-password');
+        assert.equal(needsRotation(current), false);
+        assert.equal(rotateSecret(current), current);
+    });
+});
+
+describe('masking', () => {
+    it('keeps the last four characters of long secrets', () => {
+        assert.equal(maskSecret('1234567890abcd'), '••••abcd');
+        assert.equal(maskSecret('short'), '••••');
+        assert.equal(maskSecret(null), '');
+    });
+
+    it('tells masks and ciphertext apart from plaintext', () => {
+        assert.equal(isMaskedSecret(maskSecret('1234567890abcd')), true);
+        assert.equal(isMaskedSecret('1234567890abcd'), false);
+        assert.equal(isEncryptedSecret(encryptSecret('x')), true);
+        assert.equal(isEncryptedSecret('plain'), false);
+    });
+});
@@ -0,0 +1,92 @@
+import { describe, it, before, after, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import Fastify, { type FastifyInstance } from 'fastify';
+import { db, schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { paymentGatewayRoutes } from '@/routes-fastify/payment-gateway';
+import { customerLedgerService } from '@/services/customer-ledger.service';
+import { generalLedgerService } from '@/services/general-ledger.service';
+
+const paidToken = {
+    id: 'token-1', token: 'tok', tenantId: 'tenant-1', customerId: 'customer-1', orderId: 'order-1',
+    paymentId: 'payment-1', paidVia: 'mock', currency: 'UZS', status: 'refunded',
+};
+const original = {
+    id: 'payment-1', tenantId: 'tenant-1', paymentNumber: 'PAY-1', customerId: 'customer-1', orderId: 'order-1',
+    paymentMethodId: 'method-1', amount: '100.00', referenceNumber: null, reversedAt: null as Date | null,
+};
+
+// The whole request runs on the test executor, transaction or not
+const useExecutor = (results: unknown[]) => {
+    const fake = testExecutor(results);
+    for (const method of ['transaction', 'select', 'insert', 'update'] as const) {
+        mock.method(db, method, fake.executor[method]);
+    }
+    mock.method(customerLedgerService, 'postRefund', async () => undefined);
+    mock.method(customerLedgerService, 'reverseAllocations', async () => []);
+    mock.method(generalLedgerService, 'postPayment', async () => undefined);
+    return fake;
+};
+
+describe('mock gateway refund', () => {
+    let app: FastifyInstance;
+
+    before(async () => {
+        process.env.PAYMENT_MOCK_PROVIDER = 'true';
+        app = Fastify();
+        app.decorate('authenticate', async () => undefined);
+        await app.register(paymentGatewayRoutes);
+    });
+
+    after(async () => {
+        delete process.env.PAYMENT_MOCK_PROVIDER;
+        await app.close();
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    const refund = () => app.inject({ method: 'POST', url: '/mock/tok/refund', payload: {} });
+
+    it('refunds the token and reverses its payment, taking customer credit first', async () => {
+        const fake = useExecutor([
+            [paidToken],
+            [original],
+            [{ ...original, id: 'payment-2', paymentNumber: 'REV-1', amount: '-100' }],
+            [{ debtBalance: '0', creditBalance: '30' }],
+            // Notification lookups after the transaction
+            [{ name: 'Shop' }],
+            [{ orderNumber: 'ORD-1' }],
+            [],
+        ]);
+
+        const response = await refund();
+
+        assert.equal(response.statusCode, 200);
+        assert.equal(response.json().data.status, 'refunded');
+        const reversal = fake.writes.find(w => w.op === 'insert' && w.table === schema.payments)!;
+        assert.deepEqual([reversal.values.amount, reversal.values.reversalOfId], ['-100', 'payment-1']);
+        assert.ok(fake.writes.find(w => w.op === 'update' && w.table === schema.payments)!.values.reversedAt);
+        const customer = fake.writes.find(w => w.table === schema.customers)!;
+        assert.deepEqual([customer.values.creditBalance, customer.values.debtBalance], ['0', '70']);
+        assert.equal(fake.pending(), 0);
+    });
+
+    it('refuses to refund a token twice', async () => {
+        const fake = useExecutor([[]]);
+
+        const response = await refund();
+
+        assert.equal(response.statusCode, 400);
+        assert.equal(response.json().error.code, 'NOT_PAID');
+        assert.deepEqual(fake.writes.map(w => w.table), [schema.paymentTokens]);
+    });
+
+    it('does not reverse a payment that was reversed already', async () => {
+        const fake = useExecutor([[paidToken], [{ ...original, reversedAt: new Date() }]]);
+
+        const response = await refund();
+
+        assert.equal(response.statusCode, 200);
+        assert.equal(fake.writes.some(w => w.table === schema.payments || w.table === schema.customers), false);
+    });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { testExecutor } from '../helpers/test-executor';
+import { binService, sortByWalkingPath, type BinLocation } from '@/services/bin.service';
+
+const bin = (code: string, zone: string | null, aisle: string | null, pickSequence: number | null = null): BinLocation =>
+    ({ id: code, code, barcode: null, zone, aisle, pickSequence });
+
+describe('sortByWalkingPath', () => {
+    it('walks every other aisle back towards the front', () => {
+        const bins = [bin('A2-01', 'A', '2'), bin('A1-02', 'A', '1'), bin('A2-02', 'A', '2'), bin('A1-01', 'A', '1')];
+        assert.deepEqual(sortByWalkingPath(bins, b => b).map(b => b.code), ['A1-01', 'A1-02', 'A2-02', 'A2-01']);
+    });
+
+    it('puts explicit pick sequences first and lines without a bin last', () => {
+        const lines = [{ id: 'no-bin', bin: null }, { id: 'aisle', bin: bin('A1-01', 'A', '1') }, { id: 'first', bin: bin('Z9-99', 'Z', '9', 1) }];
+        assert.deepEqual(sortByWalkingPath(lines, line => line.bin).map(line => line.id), ['first', 'aisle', 'no-bin']);
+    });
+
+    it('orders aisles naturally, so aisle 10 comes after aisle 2', () => {
+        const bins = [bin('A10-01', 'A', '10'), bin('A2-01', 'A', '2')];
+        assert.deepEqual(sortByWalkingPath(bins, b => b).map(b => b.code), ['A2-01', 'A10-01']);
+    });
+});
+
+describe('BinService.suggestPutaway', () => {
+    it('keeps the default bin and hands each other product its own free bin', async () => {
+        const fake = testExecutor([
+            [{ productId: 'cola', ...bin('A1-01', 'A', '1') }],
+            [bin('A1-02', 'A', '1'), bin('A1-03', 'A', '1')],
+        ]);
+
+        const suggestions = await binService.suggestPutaway(fake.executor, 'warehouse-1', ['cola', 'fanta', 'sprite', 'water']);
+
+        assert.deepEqual(suggestions.map(s => [s.productId, s.bin?.code ?? null, s.reason]), [
+            ['cola', 'A1-01', 'default_bin'],
+            ['fanta', 'A1-02', 'empty_bin'],
+            ['sprite', 'A1-03', 'empty_bin'],
+            ['water', null, 'no_bins'],
+        ]);
+    });
+});
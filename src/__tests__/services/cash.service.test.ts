@@ -0,0 +1,97 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db, schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { cashService } from '@/services/cash.service';
+
+const useExecutor = (results: unknown[]) => {
+    const fake = testExecutor(results);
+    mock.method(db, 'transaction', async (work: (tx: any) => Promise<unknown>) => work(fake.executor));
+    return fake;
+};
+
+const ledgerEntries = (fake: ReturnType<typeof testExecutor>) =>
+    fake.writes.filter(w => w.table === schema.cashLedgerEntries).map(w => [w.values.type, w.values.amount]);
+
+describe('CashService.submitHandover', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('snapshots the cash on hand next to what the collector declares', async () => {
+        const fake = useExecutor([
+            [],
+            [],
+            [{ paymentMethodId: 'cash', methodName: 'Cash', amount: '150.00' }],
+            [{ id: 'cash', name: 'Cash' }],
+            [{ id: 'handover-1' }],
+        ]);
+
+        await cashService.submitHandover('tenant-1', 'driver-1', {
+            businessDate: '2026-10-19',
+            lines: [{ paymentMethodId: 'cash', declaredAmount: 140 }],
+        });
+
+        const handover = fake.writes.find(w => w.table === schema.cashHandovers)!;
+        assert.deepEqual([handover.values.expectedAmount, handover.values.declaredAmount], ['150', '140']);
+        const [line] = fake.writes.find(w => w.table === schema.cashHandoverLines)!.values;
+        assert.deepEqual([line.expectedAmount, line.declaredAmount], ['150', '140']);
+    });
+
+    it('refuses a second handover while one waits for the cashier', async () => {
+        const fake = useExecutor([[], [{ id: 'handover-1' }]]);
+
+        await assert.rejects(
+            cashService.submitHandover('tenant-1', 'driver-1', {
+                businessDate: '2026-10-19',
+                lines: [{ paymentMethodId: 'cash', declaredAmount: 140 }],
+            }),
+            /A handover is already waiting for confirmation/
+        );
+        assert.equal(fake.writes.length, 0);
+    });
+});
+
+describe('CashService.confirmHandover', () => {
+    afterEach(() => mock.restoreAll());
+
+    const submitted = { id: 'handover-1', tenantId: 'tenant-1', userId: 'driver-1', status: 'submitted' };
+    const lines = [{ id: 'line-1', handoverId: 'handover-1', paymentMethodId: 'cash', expectedAmount: '150', declaredAmount: '140' }];
+
+    it('takes the counted cash off the ledger and books the shortage', async () => {
+        const fake = useExecutor([[submitted], lines, [{ ...submitted, status: 'confirmed' }]]);
+
+        await cashService.confirmHandover('tenant-1', 'cashier-1', 'handover-1', {
+            lines: [{ paymentMethodId: 'cash', receivedAmount: 130 }],
+        });
+
+        assert.deepEqual(ledgerEntries(fake), [['handover', '-130'], ['shortage', '-20']]);
+        const handover = fake.writes.find(w => w.op === 'update' && w.table === schema.cashHandovers)!;
+        assert.deepEqual([handover.values.status, handover.values.receivedAmount, handover.values.differenceAmount], ['confirmed', '130', '-20']);
+    });
+
+    it('takes the declared amount for methods the cashier did not count', async () => {
+        const fake = useExecutor([[submitted], lines, [{ ...submitted, status: 'confirmed' }]]);
+
+        await cashService.confirmHandover('tenant-1', 'cashier-1', 'handover-1', {});
+
+        assert.deepEqual(ledgerEntries(fake), [['handover', '-140'], ['shortage', '-10']]);
+    });
+
+    it('refuses to let collectors confirm their own handover', async () => {
+        const fake = useExecutor([[submitted]]);
+
+        await assert.rejects(
+            cashService.confirmHandover('tenant-1', 'driver-1', 'handover-1', {}),
+            /You cannot confirm your own handover/
+        );
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('refuses a handover already confirmed', async () => {
+        useExecutor([[{ ...submitted, status: 'confirmed' }]]);
+
+        await assert.rejects(
+            cashService.confirmHandover('tenant-1', 'cashier-1', 'handover-1', {}),
+            /Handover is not waiting for confirmation/
+        );
+    });
+});
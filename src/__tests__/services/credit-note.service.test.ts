@@ -0,0 +1,41 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { creditNoteService } from '@/services/credit-note.service';
+import { customerLedgerService } from '@/services/customer-ledger.service';
+import { generalLedgerService } from '@/services/general-ledger.service';
+
+const note = {
+    id: 'note-1', tenantId: 'tenant-1', customerId: 'customer-1', orderId: 'order-1', status: 'pending_approval',
+    settlement: 'credit', totalAmount: '30.00', creditNoteNumber: null, sequenceNumber: null,
+};
+
+describe('CreditNoteService numbering', () => {
+    beforeEach(() => {
+        mock.method(customerLedgerService, 'postCreditNote', async () => undefined);
+        mock.method(customerLedgerService, 'allocate', async () => []);
+        mock.method(generalLedgerService, 'postCreditNote', async () => undefined);
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    const issue = async (lastNumber: number) => {
+        const issued = { ...note, status: 'issued' };
+        const fake = testExecutor([[{ timezone: 'Asia/Tashkent' }], [{ lastNumber }], [issued], [{ debtBalance: '0', creditBalance: '0' }]]);
+        await (creditNoteService as any).issue(fake.executor, note, 'user-1');
+        return fake.writes;
+    };
+
+    it('numbers the note from its own tenant counter', async () => {
+        const writes = await issue(4);
+
+        const counter = writes.find(w => w.table === schema.documentSequences)!;
+        assert.deepEqual(counter.values, { tenantId: 'tenant-1', documentType: 'credit_note', lastNumber: 1 });
+
+        const numbered = writes.find(w => w.op === 'update' && w.table === schema.creditNotes)!;
+        assert.equal(numbered.values.creditNoteNumber, 'CN-00004');
+        assert.equal(numbered.values.sequenceNumber, 4);
+        assert.equal(numbered.values.status, 'issued');
+    });
+});
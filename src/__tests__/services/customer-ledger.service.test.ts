@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { customerLedgerService } from '@/services/customer-ledger.service';
+
+const payment = { id: 'payment-1', tenantId: 'tenant-1', customerId: 'customer-1', amount: '150.00' };
+
+// Open orders, oldest first, as lockOpenOrders returns them
+const order = (id: string, totalAmount: number, paidAmount: number, billed = true) =>
+    ({ id, orderNumber: id.toUpperCase(), totalAmount: String(totalAmount), paidAmount: String(paidAmount), billed });
+
+const allocate = async (
+    orders: ReturnType<typeof order>[],
+    options: Parameters<typeof customerLedgerService.allocate>[2] = {},
+    source: Parameters<typeof customerLedgerService.allocate>[1] = payment,
+    alreadyAllocated = '0'
+) => {
+    const fake = testExecutor([[{ allocated: alreadyAllocated }], orders]);
+    const allocations = await customerLedgerService.allocate(fake.executor, source, options);
+    return { allocations, writes: fake.writes };
+};
+
+const amounts = (allocations: { orderId: string; amount: number }[]) => allocations.map(a => [a.orderId, a.amount]);
+
+describe('CustomerLedgerService.allocate', () => {
+    it('settles the oldest orders first', async () => {
+        const { allocations } = await allocate([order('o-1', 100, 0), order('o-2', 100, 20), order('o-3', 100, 0)]);
+        assert.deepEqual(amounts(allocations), [['o-1', 100], ['o-2', 50]]);
+    });
+
+    it('skips orders that are not delivered or invoiced yet', async () => {
+        const { allocations } = await allocate([order('o-1', 100, 0, false), order('o-2', 100, 0)]);
+        assert.deepEqual(amounts(allocations), [['o-2', 100]]);
+    });
+
+    it('settles the preferred order first, even before it is billed', async () => {
+        const { allocations } = await allocate(
+            [order('o-1', 100, 0), order('o-2', 80, 0, false)],
+            { preferOrderId: 'o-2' }
+        );
+        assert.deepEqual(amounts(allocations), [['o-2', 80], ['o-1', 70]]);
+    });
+
+    it('leaves what no order needs on the payment', async () => {
+        const { allocations } = await allocate([order('o-1', 100, 70)]);
+        assert.deepEqual(amounts(allocations), [['o-1', 30]]);
+    });
+
+    it('allocates only the part not allocated before', async () => {
+        const { allocations } = await allocate([order('o-1', 100, 0)], {}, payment, '120.00');
+        assert.deepEqual(amounts(allocations), [['o-1', 30]]);
+    });
+
+    it('does nothing for a fully allocated payment', async () => {
+        const fake = testExecutor([[{ allocated: '150.00' }]]);
+        assert.deepEqual(await customerLedgerService.allocate(fake.executor, payment), []);
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('allocates nothing when FIFO is off and no order is named', async () => {
+        const { allocations } = await allocate([order('o-1', 100, 0)], { fifo: false });
+        assert.deepEqual(allocations, []);
+    });
+
+    it('records the allocation and the order payment status', async () => {
+        const { writes } = await allocate([order('o-1', 100, 0), order('o-2', 100, 0)]);
+
+        const inserts = writes.filter(w => w.op === 'insert' && w.table === schema.paymentAllocations);
+        assert.deepEqual(inserts.map(w => [w.values.orderId, w.values.amount, w.values.paymentId, w.values.creditNoteId]), [
+            ['o-1', '100', 'payment-1', null],
+            ['o-2', '50', 'payment-1', null],
+        ]);
+
+        const updates = writes.filter(w => w.op === 'update' && w.table === schema.orders);
+        assert.deepEqual(updates.map(w => [w.values.paidAmount, w.values.paymentStatus]), [['100', 'paid'], ['50', 'partial']]);
+    });
+
+    it('allocates a credit note the same way', async () => {
+        const { writes } = await allocate([order('o-1', 100, 0)], {}, { ...payment, id: 'note-1', kind: 'credit_note', amount: '40' });
+
+        const [insert] = writes.filter(w => w.op === 'insert');
+        assert.equal(insert.values.paymentId, null);
+        assert.equal(insert.values.creditNoteId, 'note-1');
+        assert.equal(insert.values.amount, '40');
+    });
+
+    describe('manual lines', () => {
+        const open = () => [order('o-1', 100, 0), order('o-2', 100, 0, false)];
+
+        it('go exactly where they are told, billed or not', async () => {
+            const { allocations } = await allocate(open(), { manual: [{ orderId: 'o-2', amount: 60 }, { orderId: 'o-1', amount: 40 }] });
+            assert.deepEqual(amounts(allocations), [['o-2', 60], ['o-1', 40]]);
+        });
+
+        it('cannot exceed what the order owes', async () => {
+            await assert.rejects(allocate(open(), { manual: [{ orderId: 'o-1', amount: 101 }] }), /exceeds the amount due on O-1/);
+        });
+
+        it('cannot exceed the payment', async () => {
+            await assert.rejects(
+                allocate(open(), { manual: [{ orderId: 'o-1', amount: 100 }, { orderId: 'o-2', amount: 60 }] }),
+                /exceed the unallocated payment amount/
+            );
+        });
+
+        it('must name open orders, once each, with positive amounts', async () => {
+            await assert.rejects(allocate(open(), { manual: [{ orderId: 'o-9', amount: 10 }] }), /not open for this customer/);
+            await assert.rejects(allocate(open(), { manual: [{ orderId: 'o-1', amount: 10 }, { orderId: 'o-1', amount: 10 }] }), /more than once/);
+            await assert.rejects(allocate(open(), { manual: [{ orderId: 'o-1', amount: 0 }] }), /must be positive/);
+        });
+    });
+});
+
+describe('CustomerLedgerService.trimAllocations', () => {
+    // An order of 90 paid in full, newest source first
+    const sources = [
+        { paymentId: 'payment-2', creditNoteId: null, amount: '30.00' },
+        { paymentId: 'payment-1', creditNoteId: null, amount: '60.00' },
+    ];
+
+    const trim = async (totalAmount: number) => {
+        const fake = testExecutor([sources]);
+        const trimmed = await customerLedgerService.trimAllocations(fake.executor, { id: 'o-1', tenantId: 'tenant-1' }, totalAmount, 'user-1');
+        return { trimmed, given: fake.writes.map(w => [w.values.paymentId, w.values.amount]) };
+    };
+
+    it('gives back what a paid order holds above its new total, latest payment first', async () => {
+        assert.deepEqual(await trim(63), { trimmed: 27, given: [['payment-2', '-27']] });
+    });
+
+    it('gives everything back for a refused order', async () => {
+        assert.deepEqual(await trim(0), { trimmed: 90, given: [['payment-2', '-30'], ['payment-1', '-60']] });
+    });
+
+    it('leaves allocations within the total alone', async () => {
+        assert.deepEqual(await trim(90), { trimmed: 0, given: [] });
+    });
+});
@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { generalLedgerService, SYSTEM_ROLES } from '@/services/general-ledger.service';
+
+const header = { tenantId: 'tenant-1', sourceType: 'payment' as const, sourceId: 'payment-1', reference: 'PAY-1', description: 'Payment PAY-1' };
+
+const chart = SYSTEM_ROLES.map(role => ({ id: `account-${role}`, systemRole: role }));
+
+// Not posted yet, chart complete, then the entry insert
+const postingResults = (accounts = chart) => [[], accounts, accounts, [{ id: 'entry-1' }]];
+
+const post = (executor: any, lines: any[]) => (generalLedgerService as any).post(executor, header, lines);
+
+const writtenLines = (writes: { table: unknown; values?: any }[]) =>
+    writes.find(w => w.table === schema.journalLines)!.values.map((line: any) => [line.accountId, line.debit, line.credit]);
+
+describe('GeneralLedgerService posting', () => {
+    it('writes a balanced entry against the role accounts', async () => {
+        const fake = testExecutor(postingResults());
+        await post(fake.executor, [
+            { account: 'receivable', debit: 112, customerId: 'customer-1' },
+            { account: 'revenue', credit: 100 },
+            { account: 'tax_payable', credit: 12 },
+        ]);
+
+        const entry = fake.writes.find(w => w.table === schema.journalEntries)!;
+        assert.equal(entry.values.totalAmount, '112');
+        assert.equal(entry.values.sourceId, 'payment-1');
+        assert.deepEqual(writtenLines(fake.writes), [
+            ['account-receivable', '112', '0'],
+            ['account-revenue', '0', '100'],
+            ['account-tax_payable', '0', '12'],
+        ]);
+    });
+
+    it('posts to an explicit account and drops zero lines', async () => {
+        const fake = testExecutor(postingResults());
+        await post(fake.executor, [
+            { account: { id: 'account-bank-2' }, debit: 50 },
+            { account: 'receivable', credit: 50 },
+            { account: 'cogs', debit: 0 },
+            { account: 'inventory', credit: 0 },
+        ]);
+
+        assert.deepEqual(writtenLines(fake.writes), [['account-bank-2', '50', '0'], ['account-receivable', '0', '50']]);
+    });
+
+    it('compares totals after rounding to tiyin', async () => {
+        const fake = testExecutor(postingResults());
+        await post(fake.executor, [{ account: 'cash', debit: 0.1 }, { account: 'cash', debit: 0.2 }, { account: 'receivable', credit: 0.3 }]);
+        assert.equal(fake.writes.find(w => w.table === schema.journalEntries)!.values.totalAmount, '0.3');
+    });
+
+    it('refuses an unbalanced entry before writing anything', async () => {
+        const fake = testExecutor();
+        await assert.rejects(
+            post(fake.executor, [{ account: 'receivable', debit: 100 }, { account: 'revenue', credit: 99.99 }]),
+            /Unbalanced journal entry for payment payment-1: 100 \/ 99.99/
+        );
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('skips a document already posted', async () => {
+        const fake = testExecutor([[{ id: 'entry-0' }]]);
+        await post(fake.executor, [{ account: 'cash', debit: 10 }, { account: 'receivable', credit: 10 }]);
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('posts nothing when every line is zero', async () => {
+        const fake = testExecutor();
+        await post(fake.executor, [{ account: 'cash', debit: 0 }, { account: 'receivable', credit: 0 }]);
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('refuses to post while a role has no account', async () => {
+        const partial = chart.filter(account => account.systemRole !== 'fx_gain');
+        // The default fx_gain account's code is taken by another account
+        const fake = testExecutor([[], partial, partial]);
+        await assert.rejects(
+            post(fake.executor, [{ account: 'cash', debit: 10 }, { account: 'receivable', credit: 10 }]),
+            /No account holds the fx_gain role/
+        );
+    });
+
+    it('posts a refund the other way round', async () => {
+        const fake = testExecutor([[{ glAccountId: null }], ...postingResults()]);
+        await generalLedgerService.postPayment(fake.executor, {
+            id: 'payment-2', tenantId: 'tenant-1', customerId: 'customer-1', paymentNumber: 'REF-1', paymentMethodId: 'method-1', amount: '-50.00',
+        });
+
+        assert.deepEqual(writtenLines(fake.writes), [['account-cash', '0', '50'], ['account-receivable', '50', '0']]);
+        assert.equal(fake.writes.find(w => w.table === schema.journalEntries)!.values.description, 'Refund REF-1');
+    });
+});
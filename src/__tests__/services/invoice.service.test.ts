@@ -0,0 +1,111 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { invoiceService } from '@/services/invoice.service';
+
+const order = {
+    id: 'order-1', tenantId: 'tenant-1', customerId: 'customer-1', status: 'delivered',
+    subtotalAmount: '100.00', discountAmount: '0', taxAmount: '12.00', totalAmount: '100.00',
+};
+const tenant = { currency: 'UZS', timezone: 'Asia/Tashkent', invoiceNumberPrefix: 'F-', defaultPaymentTerms: 7 };
+const customer = { name: 'Dilshod Market', address: 'Chilonzor 5', phone: '+998901234567' };
+const items = [
+    { id: 'item-1', productId: 'p-1', productName: 'Cola 1L', sku: 'COLA1', productTaxRate: '12', unitPrice: '20.00', qtyOrdered: 5, qtyDelivered: 3, discountAmount: '0', taxAmount: '6.43', lineTotal: '60.00' },
+    { id: 'item-2', productId: 'p-2', productName: 'Water', sku: 'W1', productTaxRate: '12', unitPrice: '10.00', qtyOrdered: 4, qtyDelivered: 0, discountAmount: '0', taxAmount: '0', lineTotal: '0' },
+];
+
+// Queued results for issueForOrder when no invoice is issued yet
+const issueResults = (lastNumber: number, invoice: object = { id: 'invoice-1' }) =>
+    [[order], [], [tenant], [customer], items, [{ lastNumber }], [invoice]];
+
+describe('InvoiceService.issueForOrder', () => {
+    it('numbers the invoice from the tenant counter with its prefix', async () => {
+        const fake = testExecutor(issueResults(12));
+        await invoiceService.issueForOrder(fake.executor, 'order-1', 'user-1');
+
+        const counter = fake.writes.find(w => w.table === schema.documentSequences)!;
+        assert.deepEqual(counter.values, { tenantId: 'tenant-1', documentType: 'invoice', lastNumber: 1 });
+
+        const invoice = fake.writes.find(w => w.op === 'insert' && w.table === schema.invoices)!;
+        assert.equal(invoice.values.invoiceNumber, 'F-00012');
+        assert.equal(invoice.values.sequenceNumber, 12);
+        assert.equal(invoice.values.totalAmount, '100.00');
+        assert.equal(invoice.values.replacesInvoiceId, null);
+    });
+
+    it('falls back to the INV- prefix', async () => {
+        const fake = testExecutor([[order], [], [{ ...tenant, invoiceNumberPrefix: null }], [customer], items, [{ lastNumber: 1 }], [{ id: 'invoice-1' }]]);
+        await invoiceService.issueForOrder(fake.executor, 'order-1');
+
+        const invoice = fake.writes.find(w => w.op === 'insert' && w.table === schema.invoices)!;
+        assert.equal(invoice.values.invoiceNumber, 'INV-00001');
+    });
+
+    it('returns the issued invoice without taking a number', async () => {
+        const existing = { id: 'invoice-1', invoiceNumber: 'F-00003' };
+        const fake = testExecutor([[order], [existing]]);
+
+        assert.equal(await invoiceService.issueForOrder(fake.executor, 'order-1'), existing);
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('takes no number for a cancelled order', async () => {
+        const fake = testExecutor([[{ ...order, status: 'cancelled' }], []]);
+
+        await assert.rejects(invoiceService.issueForOrder(fake.executor, 'order-1'), /Cancelled orders cannot be invoiced/);
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('bills the delivered quantities only', async () => {
+        const fake = testExecutor(issueResults(12));
+        await invoiceService.issueForOrder(fake.executor, 'order-1');
+
+        const lines = fake.writes.find(w => w.table === schema.invoiceLines)!;
+        assert.deepEqual(lines.values.map((line: any) => [line.orderItemId, line.quantity, line.taxRate]), [['item-1', 3, '12']]);
+    });
+
+    it('bills the ordered quantities when issued before delivery', async () => {
+        const fake = testExecutor([[{ ...order, status: 'approved' }], [], [tenant], [customer], items, [{ lastNumber: 12 }], [{ id: 'invoice-1' }]]);
+        await invoiceService.issueForOrder(fake.executor, 'order-1');
+
+        const lines = fake.writes.find(w => w.table === schema.invoiceLines)!;
+        assert.deepEqual(lines.values.map((line: any) => [line.orderItemId, line.quantity]), [['item-1', 5], ['item-2', 4]]);
+    });
+});
+
+describe('InvoiceService.reissueForOrder', () => {
+    const issued = { id: 'invoice-1', invoiceNumber: 'F-00003', totalAmount: '100.00' };
+
+    it('cancels the invoice and issues the next number for the new total', async () => {
+        const fake = testExecutor([[issued], [{ totalAmount: '70.00' }], ...issueResults(4, { id: 'invoice-2' })]);
+        const replacement = await invoiceService.reissueForOrder(fake.executor, 'order-1', 'user-1');
+
+        assert.deepEqual(replacement, { id: 'invoice-2' });
+        const [cancel, insert] = fake.writes.filter(w => w.table === schema.invoices);
+        assert.equal(cancel.op, 'update');
+        assert.equal(cancel.values.status, 'cancelled');
+        assert.equal(insert.op, 'insert');
+        assert.equal(insert.values.invoiceNumber, 'F-00004');
+        assert.equal(insert.values.replacesInvoiceId, 'invoice-1');
+    });
+
+    it('keeps an invoice whose total still matches', async () => {
+        const fake = testExecutor([[issued], [{ totalAmount: '100' }]]);
+
+        assert.equal(await invoiceService.reissueForOrder(fake.executor, 'order-1'), issued);
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('only cancels when nothing was delivered', async () => {
+        const fake = testExecutor([[issued], [{ totalAmount: '0' }]]);
+
+        assert.equal(await invoiceService.reissueForOrder(fake.executor, 'order-1'), null);
+        assert.deepEqual(fake.writes.map(w => [w.op, w.values.status]), [['update', 'cancelled']]);
+    });
+
+    it('does nothing for an order without an issued invoice', async () => {
+        const fake = testExecutor([[]]);
+        assert.equal(await invoiceService.reissueForOrder(fake.executor, 'order-1'), null);
+    });
+});
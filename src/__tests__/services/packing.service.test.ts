@@ -0,0 +1,70 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { packingService } from '@/services/packing.service';
+import { ordersService } from '@/services/orders.service';
+
+const line = (qtyOrdered: number, qtyScanned: number) =>
+    ({ id: 'item-1', sessionId: 'session-1', productId: 'cola', qtyOrdered, qtyScanned });
+
+describe('PackingService.scan', () => {
+    it('verifies a line once every picked unit is scanned', async () => {
+        const fake = testExecutor([[line(6, 4)], [{ ...line(6, 6), isVerified: 1 }]]);
+
+        await packingService.scan(fake.executor, 'session-1', 'cola', 2);
+
+        const item = fake.writes.find(w => w.table === schema.packingItems)!;
+        assert.deepEqual([item.values.qtyScanned, item.values.isVerified], [6, 1]);
+    });
+
+    it('refuses to scan more than was picked', async () => {
+        const fake = testExecutor([[line(6, 6)]]);
+
+        await assert.rejects(packingService.scan(fake.executor, 'session-1', 'cola', 1), /Scanned more than was picked/);
+        assert.equal(fake.writes.length, 0);
+    });
+});
+
+describe('PackingService.complete', () => {
+    afterEach(() => mock.restoreAll());
+
+    const session = { id: 'session-1', orderId: 'order-1' };
+
+    it('loads the order once every line matches', async () => {
+        mock.method(ordersService, 'logStatusChange', async () => undefined);
+        const fake = testExecutor([
+            [{ itemId: 'item-1', productId: 'cola', productName: 'Cola', expected: 6, scanned: 6 }],
+            [{ status: 'picked' }],
+            [{ id: 'session-1', status: 'completed' }],
+        ]);
+
+        const result = await packingService.complete(fake.executor, session, 'packer-1', { packageCount: 2 });
+
+        assert.equal(result.completed, true);
+        const order = fake.writes.find(w => w.table === schema.orders)!;
+        assert.equal(order.values.status, 'loaded');
+    });
+
+    it('reports the lines that do not match and leaves the order picked', async () => {
+        const fake = testExecutor([[
+            { itemId: 'item-1', productId: 'cola', productName: 'Cola', expected: 6, scanned: 6 },
+            { itemId: 'item-2', productId: 'fanta', productName: 'Fanta', expected: 4, scanned: null },
+        ]]);
+
+        const result = await packingService.complete(fake.executor, session, 'packer-1', { packageCount: 2 });
+
+        assert.deepEqual(result, {
+            completed: false,
+            mismatches: [{ itemId: 'item-2', productId: 'fanta', productName: 'Fanta', expected: 4, scanned: 0 }],
+        });
+        assert.equal(fake.writes.length, 0);
+    });
+});
+
+describe('PackingService.isBeingPacked', () => {
+    it('holds back an order with an open packing session only', async () => {
+        assert.equal(await packingService.isBeingPacked(testExecutor([[{ id: 'session-1' }]]).executor, 'order-1'), true);
+        assert.equal(await packingService.isBeingPacked(testExecutor([[]]).executor, 'order-1'), false);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { priceListService } from '@/services/price-list.service';
+import { exchangeRateService } from '@/services/exchange-rate.service';
+
+const customer = { id: 'customer-1', tierId: 'tier-1', territoryId: 'territory-1' };
+const list = (priceListId: string, scopeType: string, currency = 'UZS') => ({ priceListId, priceListName: priceListId, currency, scopeType });
+// Items come back latest validFrom first
+const price = (priceListId: string, productId: string, value: number) => ({ priceListId, productId, price: String(value) });
+
+describe('PriceListService.resolvePrices', () => {
+    beforeEach(() => {
+        // The tenant's timezone, for the pricing day
+        mock.method(db, 'select', testExecutor([[{ timezone: 'Asia/Tashkent' }]]).executor.select);
+        mock.method(exchangeRateService, 'getRate', async (_tenantId: string, currency: string) => (currency === 'USD' ? 12700 : 1));
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('takes the customer\'s own list, then the territory\'s, then the tier\'s', async () => {
+        const fake = testExecutor([
+            [list('tier', 'customer_tier'), list('own', 'customer'), list('area', 'territory')],
+            [price('tier', 'cola', 9), price('area', 'cola', 10), price('own', 'cola', 11), price('tier', 'fanta', 7), price('area', 'chips', 5)],
+        ]);
+
+        const prices = await priceListService.resolvePrices('tenant-1', customer, ['cola', 'fanta', 'chips', 'water'], new Date('2026-10-19T08:00:00Z'), fake.executor);
+
+        assert.deepEqual([...prices].map(([productId, p]) => [productId, p.priceListId, p.price]), [
+            ['cola', 'own', 11],
+            ['chips', 'area', 5],
+            ['fanta', 'tier', 7],
+        ]);
+        assert.equal(prices.has('water'), false);
+    });
+
+    it('keeps the latest-starting price of a list', async () => {
+        const fake = testExecutor([[list('own', 'customer')], [price('own', 'cola', 12), price('own', 'cola', 11)]]);
+
+        const prices = await priceListService.resolvePrices('tenant-1', customer, ['cola'], new Date('2026-10-19T08:00:00Z'), fake.executor);
+
+        assert.equal(prices.get('cola')!.price, 12);
+    });
+
+    it('converts a list in another currency at the day\'s rate', async () => {
+        const fake = testExecutor([[list('export', 'customer', 'USD')], [price('export', 'cola', 1.5)]]);
+
+        const prices = await priceListService.resolvePrices('tenant-1', customer, ['cola'], new Date('2026-10-19T08:00:00Z'), fake.executor);
+
+        assert.deepEqual(prices.get('cola'), { price: 19050, priceListId: 'export', priceListName: 'export', currency: 'USD', listedPrice: 1.5 });
+    });
+
+    it('prices nothing for a customer without lists', async () => {
+        const fake = testExecutor([[]]);
+        const prices = await priceListService.resolvePrices('tenant-1', customer, ['cola'], new Date(), fake.executor);
+        assert.equal(prices.size, 0);
+    });
+});
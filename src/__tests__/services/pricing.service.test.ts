@@ -0,0 +1,191 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { testExecutor } from '../helpers/test-executor';
+import { pricingService, type PricingLineInput } from '@/services/pricing.service';
+import { priceListService } from '@/services/price-list.service';
+
+const customer = (tierDiscountPercent: string | null = null) =>
+    ({ id: 'customer-1', tierId: 'tier-1', territoryId: 'territory-1', tierName: tierDiscountPercent ? 'Gold' : null, tierDiscountPercent });
+
+const products = [
+    { id: 'cola', name: 'Cola 1L', price: '10.00', taxRate: '12', isActive: true, subcategoryId: 'soft-drinks', brandId: 'brand-a', categoryId: 'drinks' },
+    { id: 'chips', name: 'Chips', price: '20.00', taxRate: '0', isActive: true, subcategoryId: 'snacks', brandId: 'brand-b', categoryId: 'food' },
+];
+
+const discount = (id: string, fields: object) => ({
+    id, name: id, type: 'percentage', value: '0', minQty: null, freeQty: null,
+    minOrderAmount: null, maxDiscountAmount: null, priority: 0, isStackable: false, ...fields,
+});
+
+interface Setup {
+    tier?: string;
+    discounts?: object[];
+    scopes?: object[];
+    tiers?: object[];
+}
+
+const quote = async (lines: PricingLineInput[], setup: Setup = {}) => {
+    const discounts = setup.discounts ?? [];
+    const fake = testExecutor([
+        [customer(setup.tier)],
+        products,
+        discounts,
+        ...(discounts.length > 0 ? [setup.scopes ?? [], setup.tiers ?? []] : []),
+    ]);
+    return pricingService.quote({ tenantId: 'tenant-1', customerId: 'customer-1', lines }, fake.executor);
+};
+
+describe('PricingService.quote', () => {
+    beforeEach(() => {
+        mock.method(priceListService, 'resolvePrices', async () => new Map());
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('prices at the product price with tax included', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }, { productId: 'chips', quantity: 2 }]);
+
+        assert.equal(result.subtotalAmount, 140);
+        assert.equal(result.discountAmount, 0);
+        assert.equal(result.totalAmount, 140);
+        // 100 x 12 / 112
+        assert.equal(result.taxAmount, 10.71);
+        assert.deepEqual(result.lines.map(line => line.priceListId), [null, null]);
+    });
+
+    it('keeps the price an existing line was sold at', async () => {
+        const resolve = priceListService.resolvePrices as unknown as ReturnType<typeof mock.fn>;
+        const result = await quote([{ productId: 'cola', quantity: 3, unitPrice: 8 }, { productId: 'chips', quantity: 1 }]);
+
+        assert.equal(result.lines[0].lineTotal, 24);
+        assert.deepEqual(resolve.mock.calls[0].arguments[2], ['chips']);
+    });
+
+    it('stacks the tier discount under promotions', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }, { productId: 'chips', quantity: 1 }], {
+            tier: '10',
+            discounts: [discount('autumn', { value: '5' })],
+        });
+
+        const [cola, chips] = result.lines;
+        assert.equal(cola.tierDiscount, 10);
+        // 5% of what the tier left
+        assert.equal(cola.promotionDiscount, 4.5);
+        assert.equal(cola.netTotal, 85.5);
+        assert.equal(cola.taxAmount, 9.16);
+        assert.equal(chips.netTotal, 17.1);
+        assert.equal(result.totalAmount, 102.6);
+        assert.deepEqual(cola.explanations.map(e => e.kind), ['tier', 'promotion']);
+    });
+
+    it('gives a line to the non-stackable promotion of highest priority', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }], {
+            discounts: [discount('bigger', { value: '20' }), discount('preferred', { value: '10', priority: 1 })],
+        });
+
+        assert.deepEqual(result.appliedDiscounts, [{ id: 'preferred', name: 'preferred', type: 'percentage', amount: 10 }]);
+        assert.equal(result.totalAmount, 90);
+    });
+
+    it('breaks a priority tie by the larger amount', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }], {
+            discounts: [discount('small', { value: '10' }), discount('large', { value: '20' })],
+        });
+
+        assert.deepEqual(result.appliedDiscounts.map(d => d.id), ['large']);
+        assert.equal(result.lines[0].discountId, 'large');
+    });
+
+    it('applies a stackable promotion on top of a non-stackable one', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }], {
+            discounts: [discount('exclusive', { value: '10', priority: 1 }), discount('extra', { value: '5', isStackable: true })],
+        });
+
+        assert.deepEqual(result.appliedDiscounts.map(d => [d.id, d.amount]), [['exclusive', 10], ['extra', 4.5]]);
+        assert.equal(result.totalAmount, 85.5);
+        assert.equal(result.lines[0].discountId, 'exclusive');
+    });
+
+    it('lets a non-stackable promotion take the lines others left', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }, { productId: 'chips', quantity: 5 }], {
+            discounts: [discount('drinks-only', { value: '10', priority: 1 }), discount('storewide', { value: '20' })],
+            scopes: [{ discountId: 'drinks-only', scopeType: 'category', scopeId: 'drinks' }],
+        });
+
+        const [cola, chips] = result.lines;
+        assert.deepEqual(cola.explanations.map(e => e.discountId), ['drinks-only']);
+        assert.deepEqual(chips.explanations.map(e => e.discountId), ['storewide']);
+        assert.equal(chips.promotionDiscount, 20);
+    });
+
+    it('checks minOrderAmount after the tier discount', async () => {
+        const setup = { tier: '10', discounts: [discount('over-100', { value: '10', minOrderAmount: '100.00' })] };
+
+        const below = await quote([{ productId: 'cola', quantity: 10 }], setup);
+        assert.deepEqual(below.appliedDiscounts, []);
+
+        const above = await quote([{ productId: 'cola', quantity: 12 }], setup);
+        assert.equal(above.appliedDiscounts[0].amount, 10.8);
+    });
+
+    it('caps a promotion at maxDiscountAmount, split across its lines', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }, { productId: 'chips', quantity: 5 }], {
+            discounts: [discount('half-off', { value: '50', maxDiscountAmount: '30.00' })],
+        });
+
+        assert.equal(result.appliedDiscounts[0].amount, 30);
+        assert.deepEqual(result.lines.map(line => line.promotionDiscount), [15, 15]);
+    });
+
+    it('gives freeQty units of every minQty + freeQty free', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 7 }], {
+            discounts: [discount('2+1', { type: 'buy_x_get_y', minQty: 2, freeQty: 1 })],
+        });
+
+        assert.equal(result.lines[0].freeQty, 2);
+        assert.equal(result.lines[0].promotionDiscount, 20);
+    });
+
+    it('takes the best volume tier reached by the eligible quantity', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 25 }, { productId: 'chips', quantity: 30 }], {
+            discounts: [discount('cases', { type: 'volume' })],
+            scopes: [{ discountId: 'cases', scopeType: 'brand', scopeId: 'brand-a' }],
+            tiers: [{ discountId: 'cases', minQty: 10, discountPercent: '5' }, { discountId: 'cases', minQty: 20, discountPercent: '10' }],
+        });
+
+        assert.deepEqual(result.lines.map(line => line.promotionDiscount), [25, 0]);
+    });
+
+    it('splits a fixed amount by line amounts so the parts add up', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 5 }, { productId: 'chips', quantity: 5 }], {
+            discounts: [discount('ten-off', { type: 'fixed', value: '10' })],
+        });
+
+        assert.deepEqual(result.lines.map(line => line.promotionDiscount), [3.33, 6.67]);
+        assert.equal(result.discountAmount, 10);
+    });
+
+    it('skips promotions for other customers', async () => {
+        const result = await quote([{ productId: 'cola', quantity: 10 }], {
+            discounts: [discount('north', { value: '10' })],
+            scopes: [{ discountId: 'north', scopeType: 'territory', scopeId: 'territory-2' }],
+        });
+
+        assert.deepEqual(result.appliedDiscounts, []);
+    });
+
+    it('refuses unknown customers, inactive products and bad quantities', async () => {
+        await assert.rejects(
+            pricingService.quote({ tenantId: 'tenant-1', customerId: 'customer-2', lines: [] }, testExecutor([[]]).executor),
+            /Customer not found/
+        );
+
+        const delisted = testExecutor([[customer()], [{ ...products[0], isActive: false }]]);
+        await assert.rejects(
+            pricingService.quote({ tenantId: 'tenant-1', customerId: 'customer-1', lines: [{ productId: 'cola', quantity: 1 }] }, delisted.executor),
+            /Product is not available: Cola 1L/
+        );
+
+        await assert.rejects(quote([{ productId: 'cola', quantity: 1.5 }]), /Invalid quantity for Cola 1L/);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { testExecutor } from '../helpers/test-executor';
+import { productUnitService } from '@/services/product-unit.service';
+import { UnitNotSoldError } from '@/errors';
+
+// Active units, then the base units of the products entered in a unit
+const unitRows = [
+    { id: 'unit-1', productId: 'cola', unit: 'pack', factor: 6, barcode: null, isActive: true },
+    { id: 'unit-2', productId: 'cola', unit: 'case', factor: 24, barcode: '4780001', isActive: true },
+];
+const products = [
+    { id: 'cola', name: 'Cola 1L', unit: 'piece' },
+    { id: 'sugar', name: 'Sugar', unit: 'kg' },
+];
+
+describe('ProductUnitService.toBaseLines', () => {
+    it('converts packs to base units in input order', async () => {
+        const fake = testExecutor([unitRows, products]);
+        const lines = await productUnitService.toBaseLines('tenant-1', [
+            { productId: 'cola', unit: 'case', quantity: 2 },
+            { productId: 'cola', quantity: 5 },
+            { productId: 'cola', unit: 'pack', quantity: 1 },
+        ], fake.executor);
+
+        assert.deepEqual(lines, [
+            { productId: 'cola', unit: 'case', unitQty: 2, unitFactor: 24, quantity: 48 },
+            { productId: 'cola', unit: null, unitQty: 5, unitFactor: 1, quantity: 5 },
+            { productId: 'cola', unit: 'pack', unitQty: 1, unitFactor: 6, quantity: 6 },
+        ]);
+    });
+
+    it('treats the product\'s own unit as the base unit', async () => {
+        const fake = testExecutor([unitRows, products]);
+        const [line] = await productUnitService.toBaseLines('tenant-1', [{ productId: 'sugar', unit: 'kg', quantity: 3 }], fake.executor);
+
+        assert.deepEqual(line, { productId: 'sugar', unit: null, unitQty: 3, unitFactor: 1, quantity: 3 });
+    });
+
+    it('passes unknown products through for the caller to reject', async () => {
+        const fake = testExecutor([[], []]);
+        const [line] = await productUnitService.toBaseLines('tenant-1', [{ productId: 'gone', unit: 'case', quantity: 2 }], fake.executor);
+
+        assert.equal(line.quantity, 2);
+        assert.equal(line.unit, null);
+    });
+
+    it('refuses a unit the product is not sold by', async () => {
+        const fake = testExecutor([unitRows, products]);
+        await assert.rejects(
+            productUnitService.toBaseLines('tenant-1', [{ productId: 'cola', unit: 'box', quantity: 1 }], fake.executor),
+            (error: unknown) => error instanceof UnitNotSoldError && /Cola 1L is not sold by the box/.test(error.message)
+        );
+    });
+
+    it('does not query when every line is in the base unit', async () => {
+        const fake = testExecutor();
+        const lines = await productUnitService.toBaseLines('tenant-1', [{ productId: 'cola', quantity: 4 }], fake.executor);
+
+        assert.deepEqual(lines.map(line => line.quantity), [4]);
+    });
+});
+
+describe('ProductUnitService.resolveBarcode', () => {
+    it('scans a product code as one base unit', async () => {
+        const fake = testExecutor([[{ id: 'cola' }]]);
+        assert.deepEqual(await productUnitService.resolveBarcode('tenant-1', 'COLA1', fake.executor), { productId: 'cola', unit: null, factor: 1 });
+    });
+
+    it('scans a pack barcode as a whole pack', async () => {
+        const fake = testExecutor([[], [{ productId: 'cola', unit: 'case', factor: 24 }]]);
+        assert.deepEqual(await productUnitService.resolveBarcode('tenant-1', '4780001', fake.executor), { productId: 'cola', unit: 'case', factor: 24 });
+    });
+
+    it('finds nothing for an unknown code', async () => {
+        const fake = testExecutor([[], []]);
+        assert.equal(await productUnitService.resolveBarcode('tenant-1', '000', fake.executor), null);
+    });
+});
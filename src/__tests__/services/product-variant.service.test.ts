@@ -0,0 +1,65 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { productVariantService } from '@/services/product-variant.service';
+
+const product = { id: 'product-1', name: 'Cola 1L Cherry' };
+const family = { id: 'family-1', name: 'Cola', attributes: ['size', 'flavour'] };
+
+describe('ProductVariantService.setVariant', () => {
+    beforeEach(() => {
+        // The audit log entry
+        mock.method(db, 'insert', testExecutor().executor.insert);
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('stores a value for every family attribute, trimmed and keyed in lower case', async () => {
+        const fake = testExecutor([[product], [family], [], [{ id: product.id }]]);
+
+        await productVariantService.setVariant('tenant-1', product.id, {
+            familyId: family.id,
+            attributes: { Size: ' 1L ', flavour: 'Cherry' },
+        }, 'user-1', fake.executor);
+
+        const [update] = fake.writes;
+        assert.equal(update.op, 'update');
+        assert.deepEqual([update.values.familyId, update.values.variantAttributes], [family.id, { size: '1L', flavour: 'Cherry' }]);
+    });
+
+    it('needs a value for each attribute and no others', async () => {
+        const missing = testExecutor([[product], [family]]);
+        await assert.rejects(
+            productVariantService.setVariant('tenant-1', product.id, { familyId: family.id, attributes: { size: '1L', flavour: ' ' } }, 'user-1', missing.executor),
+            /A value for flavour is required/
+        );
+
+        const extra = testExecutor([[product], [family]]);
+        await assert.rejects(
+            productVariantService.setVariant('tenant-1', product.id, {
+                familyId: family.id,
+                attributes: { size: '1L', flavour: 'Cherry', colour: 'Red' },
+            }, 'user-1', extra.executor),
+            /Cola has no attribute colour/
+        );
+    });
+
+    it('refuses a combination another variant of the family already has', async () => {
+        const fake = testExecutor([[product], [family], [{ name: 'Cola 1L Cherry (old)' }]]);
+
+        await assert.rejects(
+            productVariantService.setVariant('tenant-1', product.id, { familyId: family.id, attributes: { size: '1L', flavour: 'Cherry' } }, 'user-1', fake.executor),
+            /Cola 1L Cherry \(old\) is already the 1L \/ Cherry variant of Cola/
+        );
+        assert.equal(fake.writes.length, 0);
+    });
+
+    it('makes the product standalone again when the variant is removed', async () => {
+        const fake = testExecutor([[product], [{ id: product.id }]]);
+
+        await productVariantService.setVariant('tenant-1', product.id, null, 'user-1', fake.executor);
+
+        assert.deepEqual([fake.writes[0].values.familyId, fake.writes[0].values.variantAttributes], [null, null]);
+    });
+});
@@ -0,0 +1,47 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PromoCodeError } from '@/errors';
+import { testExecutor } from '../helpers/test-executor';
+import { promoCodeService } from '@/services/promo-code.service';
+
+const promo = (limits: { maxRedemptions?: number; maxPerCustomer?: number; firstOrderOnly?: boolean } = {}) => ({
+    id: 'code-1', code: 'SPRING10', discountId: 'discount-1', isActive: true,
+    maxRedemptions: limits.maxRedemptions ?? null, maxPerCustomer: limits.maxPerCustomer ?? null, firstOrderOnly: limits.firstOrderOnly ?? false,
+});
+const discount = { id: 'discount-1', name: 'Spring', type: 'percentage', value: '10', minOrderAmount: '50', isActive: true, startsAt: null, endsAt: null };
+
+// The code, its discount, then its redemptions by all customers and by this one
+const resolve = (code: ReturnType<typeof promo>, usage = { total: 0, byCustomer: 0 }, more: unknown[] = []) => {
+    const fake = testExecutor([[code], [discount], [usage], ...more]);
+    return promoCodeService.resolve('tenant-1', 'customer-1', ' spring10 ', fake.executor);
+};
+
+const rejectsWith = (code: PromoCodeError['code']) => (error: unknown) => error instanceof PromoCodeError && error.code === code;
+
+describe('PromoCodeService.resolve', () => {
+    it('resolves a code within its limits to its discount', async () => {
+        const resolved = await resolve(promo({ maxRedemptions: 100, maxPerCustomer: 1 }), { total: 99, byCustomer: 0 });
+        assert.deepEqual(resolved, {
+            id: 'code-1', code: 'SPRING10', discountId: 'discount-1', discountName: 'Spring',
+            discountType: 'percentage', discountValue: 10, minOrderAmount: 50,
+        });
+    });
+
+    it('refuses a code past its usage limit', async () => {
+        await assert.rejects(resolve(promo({ maxRedemptions: 100 }), { total: 100, byCustomer: 0 }), rejectsWith('PROMO_CODE_EXHAUSTED'));
+    });
+
+    it('refuses a customer who used up their redemptions', async () => {
+        await assert.rejects(resolve(promo({ maxPerCustomer: 1 }), { total: 5, byCustomer: 1 }), rejectsWith('DISCOUNT_ALREADY_USED'));
+    });
+
+    it('refuses a first-order code to a customer with an order', async () => {
+        await assert.rejects(resolve(promo({ firstOrderOnly: true }), undefined, [[{ id: 'order-1' }]]), rejectsWith('PROMO_CODE_FIRST_ORDER_ONLY'));
+    });
+
+    it('refuses an unknown or inactive code', async () => {
+        const unknown = testExecutor([[]]);
+        await assert.rejects(promoCodeService.resolve('tenant-1', 'customer-1', 'NOPE', unknown.executor), rejectsWith('DISCOUNT_NOT_FOUND'));
+        await assert.rejects(resolve({ ...promo(), isActive: false }), rejectsWith('DISCOUNT_INACTIVE'));
+    });
+});
@@ -0,0 +1,49 @@
+import { describe, it, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { receivablesAgingService } from '@/services/receivables-aging.service';
+
+// An open order as loadOpenItems selects it; due dates are already delivery + terms
+const openOrder = (orderId: string, customerId: string, dueDate: string, totalAmount: number, paidAmount = 0) => ({
+    orderId, orderNumber: orderId.toUpperCase(), totalAmount: String(totalAmount), paidAmount: String(paidAmount),
+    deliveredAt: new Date(`${dueDate}T09:00:00Z`), invoiceId: null, invoiceNumber: null, dueDate,
+    customerId, customerName: customerId, customerCode: null, phone: null, territoryId: null, territoryName: null,
+    salesRepId: null, salesRepName: null, tierId: null, tierName: null, paymentTermsDays: 7,
+});
+
+describe('ReceivablesAgingService.getAging', () => {
+    afterEach(() => mock.restoreAll());
+
+    it('buckets what is still due by days past the due date, per customer', async () => {
+        const fake = testExecutor([[
+            openOrder('o-1', 'shop-a', '2026-10-25', 100),
+            openOrder('o-2', 'shop-a', '2026-10-09', 200, 50),
+            openOrder('o-3', 'shop-a', '2026-07-01', 80),
+            openOrder('o-4', 'shop-b', '2026-08-20', 40),
+        ]]);
+        mock.method(db, 'select', fake.executor.select);
+
+        const report = await receivablesAgingService.getAging('tenant-1', { asOf: '2026-10-19' });
+
+        const [a, b] = report.rows;
+        assert.deepEqual(
+            [a.customerId, a.current, a.days1to30, a.days31to60, a.days61to90, a.over90, a.total, a.maxDaysOverdue],
+            ['shop-a', 100, 150, 0, 0, 80, 330, 110]
+        );
+        assert.deepEqual([b.customerId, b.days31to60, b.total], ['shop-b', 40, 40]);
+        assert.deepEqual(
+            [report.summary.customers, report.summary.current, report.summary.days1to30, report.summary.days31to60, report.summary.over90, report.summary.total],
+            [2, 100, 150, 40, 80, 370]
+        );
+    });
+
+    it('is empty when nothing is owed', async () => {
+        mock.method(db, 'select', testExecutor([[]]).executor.select);
+
+        const report = await receivablesAgingService.getAging('tenant-1', { asOf: '2026-10-19' });
+
+        assert.deepEqual(report.rows, []);
+        assert.equal(report.summary.total, 0);
+    });
+});
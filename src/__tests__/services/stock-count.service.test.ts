@@ -0,0 +1,73 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { stockCountService } from '@/services/stock-count.service';
+import { stockService } from '@/services/stock.service';
+import { generalLedgerService } from '@/services/general-ledger.service';
+
+const count = { id: 'count-1', tenantId: 'tenant-1', name: 'October', warehouseId: 'warehouse-1' };
+const item = (id: string, expectedQty: number, countedQty: number | null) =>
+    ({ id, productId: `product-${id}`, expectedQty, countedQty, countedByUserId: 'counter-1' });
+
+describe('StockCountService.approve', () => {
+    beforeEach(() => {
+        mock.method(stockService, 'adjustQuantity', async (_tx: unknown, params: { change: number }) =>
+            ({ quantityBefore: 10, quantityAfter: 10 + params.change, movements: [], lots: [] }));
+        mock.method(generalLedgerService, 'postStockAdjustment', async () => undefined);
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('adjusts stock by the variance of each counted line and completes the count', async () => {
+        const fake = testExecutor([
+            [item('a', 10, 7), item('b', 5, 5), item('c', 3, null), item('d', 2, 4)],
+            [{ id: 'adj-a' }],
+            [{ id: 'adj-d' }],
+        ]);
+
+        const adjustments = await stockCountService.approve(fake.executor, count, 'approver-1');
+
+        assert.equal(adjustments.length, 2);
+        const adjust = stockService.adjustQuantity as unknown as ReturnType<typeof mock.fn>;
+        const params = adjust.mock.calls.map(c => c.arguments[1] as Parameters<typeof stockService.adjustQuantity>[1]);
+        assert.deepEqual(params.map(p => [p.productId, p.change, p.movementType]), [
+            ['product-a', -3, 'out'],
+            ['product-d', 2, 'adjust'],
+        ]);
+        const variances = fake.writes.filter(w => w.table === schema.stockCountItems).map(w => w.values.variance);
+        assert.deepEqual(variances, [-3, 2]);
+        const completed = fake.writes.find(w => w.table === schema.stockCounts)!;
+        assert.equal(completed.values.status, 'completed');
+    });
+});
+
+describe('StockCountService.buildLines', () => {
+    it('needs the scope\'s target', async () => {
+        const fake = testExecutor();
+        await assert.rejects(
+            stockCountService.buildLines(fake.executor, { tenantId: 'tenant-1', warehouseId: 'warehouse-1', scope: 'bin' }),
+            /binId is required for a bin count/
+        );
+    });
+
+    it('counts nothing when the ABC class is empty', async () => {
+        // No sales and no active products
+        const fake = testExecutor([[], []]);
+        const lines = await stockCountService.buildLines(fake.executor, { tenantId: 'tenant-1', warehouseId: 'warehouse-1', scope: 'cycle', abcClass: 'A' });
+        assert.deepEqual(lines, []);
+    });
+});
+
+describe('StockCountService.getAbcClasses', () => {
+    it('ranks products by sales value, unsold products in C', async () => {
+        const fake = testExecutor([
+            [{ productId: 'top', value: '800' }, { productId: 'mid', value: '150' }, { productId: 'low', value: '50' }],
+            [{ id: 'top' }, { id: 'mid' }, { id: 'low' }, { id: 'unsold' }],
+        ]);
+
+        const classes = await stockCountService.getAbcClasses(fake.executor, 'tenant-1');
+
+        assert.deepEqual(Object.fromEntries(classes), { top: 'A', mid: 'B', low: 'C', unsold: 'C' });
+    });
+});
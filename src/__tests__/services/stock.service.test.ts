@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { testExecutor } from '../helpers/test-executor';
+import { stockService } from '@/services/stock.service';
+
+const params = { tenantId: 'tenant-1', warehouseId: 'warehouse-1', productId: 'cola', movementType: 'adjust' as const };
+
+describe('StockService.adjustQuantity', () => {
+    it('books a change into the warehouse and the product total', async () => {
+        const fake = testExecutor([[{ productId: 'cola', quantity: 3, reservedQuantity: 0 }], [{ id: 'movement-1' }]]);
+        const result = await stockService.adjustQuantity(fake.executor, { ...params, change: 2 });
+
+        assert.equal(result.quantityAfter, 5);
+        const balance = fake.writes.find(w => w.op === 'update' && w.table === schema.warehouseStock)!;
+        assert.equal(balance.values.quantity, 5);
+        const movement = fake.writes.find(w => w.table === schema.stockMovements)!;
+        assert.deepEqual([movement.values.quantityBefore, movement.values.quantityAfter], [3, 5]);
+    });
+
+    it('refuses to take the warehouse below zero', async () => {
+        const fake = testExecutor([[{ productId: 'cola', quantity: 3, reservedQuantity: 0 }]]);
+
+        await assert.rejects(
+            stockService.adjustQuantity(fake.executor, { ...params, change: -5 }),
+            /Insufficient stock in the warehouse. Only 3 on hand./
+        );
+        assert.deepEqual(fake.writes.map(w => w.table), [schema.warehouseStock]);
+    });
+
+    it('takes outgoing stock from lots first-expiry-first-out, then from untracked stock', async () => {
+        // Lots come back from getLots already in FEFO order
+        const lots = [
+            { id: 'lot-a', lotNumber: 'A', expiryDate: '2026-11-01', quantity: 2, receivedAt: null },
+            { id: 'lot-b', lotNumber: 'B', expiryDate: '2027-01-01', quantity: 1, receivedAt: null },
+        ];
+        const fake = testExecutor([[{ productId: 'cola', quantity: 10, reservedQuantity: 0 }], lots, [{}], [{}], [{}]]);
+        const result = await stockService.adjustQuantity(fake.executor, { ...params, change: -4 });
+
+        assert.deepEqual(result.lots.map(l => [l.lotId, l.quantity]), [['lot-a', 2], ['lot-b', 1]]);
+        const lotUpdates = fake.writes.filter(w => w.table === schema.stockLots).map(w => w.values.quantity);
+        assert.deepEqual(lotUpdates, [0, 0]);
+        const movements = fake.writes.filter(w => w.table === schema.stockMovements).map(w => [w.values.lotId, w.values.quantity, w.values.quantityAfter]);
+        assert.deepEqual(movements, [['lot-a', 2, 8], ['lot-b', 1, 7], [null, 1, 6]]);
+    });
+
+    it('books incoming stock into the lot it was received as', async () => {
+        const fake = testExecutor([
+            [{ productId: 'cola', quantity: 0, reservedQuantity: 0 }],
+            [{ id: 'lot-c', lotNumber: 'C', expiryDate: '2027-03-01' }],
+            [{}],
+        ]);
+        const result = await stockService.adjustQuantity(fake.executor, { ...params, change: 6, lot: { lotNumber: 'C', expiryDate: '2027-03-01' } });
+
+        assert.deepEqual(result.lots, [{ lotId: 'lot-c', lotNumber: 'C', expiryDate: '2027-03-01', quantity: 6 }]);
+        const movement = fake.writes.find(w => w.table === schema.stockMovements)!;
+        assert.deepEqual([movement.values.lotId, movement.values.quantity], ['lot-c', 6]);
+    });
+});
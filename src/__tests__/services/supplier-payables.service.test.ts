@@ -0,0 +1,81 @@
+import { describe, it, beforeEach, afterEach, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { schema } from '@/db';
+import { AllocationError } from '@/errors';
+import { testExecutor } from '../helpers/test-executor';
+import { supplierPayablesService, type SupplierPaymentSource } from '@/services/supplier-payables.service';
+import { generalLedgerService } from '@/services/general-ledger.service';
+
+const payment: SupplierPaymentSource = {
+    id: 'spay-1', tenantId: 'tenant-1', supplierId: 'supplier-1', paymentNumber: 'SPAY-1',
+    amount: '150.00', currency: 'UZS', exchangeRate: '1', purchaseOrderId: 'po-2',
+};
+
+// Open bills, oldest first, as lockOpenBills returns them
+const bill = (id: string, purchaseOrderId: string, totalAmount: number, paidAmount = 0, currency = 'UZS', exchangeRate = 1) =>
+    ({ id, billNumber: id.toUpperCase(), purchaseOrderId, currency, exchangeRate: String(exchangeRate), totalAmount: String(totalAmount), paidAmount: String(paidAmount) });
+
+const allocate = async (bills: ReturnType<typeof bill>[], options: Parameters<typeof supplierPayablesService.allocate>[2] = {}, source = payment) => {
+    const fake = testExecutor([[{ allocated: '0' }], bills, ...bills.map(b => [{ id: `alloc-${b.id}` }])]);
+    const allocations = await supplierPayablesService.allocate(fake.executor, source, options);
+    return { allocations, writes: fake.writes };
+};
+
+const amounts = (allocations: { billId: string; amount: number }[]) => allocations.map(a => [a.billId, a.amount]);
+
+describe('SupplierPayablesService.allocate', () => {
+    beforeEach(() => {
+        mock.method(generalLedgerService, 'postSupplierFx', async () => undefined);
+    });
+
+    afterEach(() => mock.restoreAll());
+
+    it('settles the payment\'s purchase order first, then the oldest bills', async () => {
+        const { allocations } = await allocate([bill('b-1', 'po-1', 100), bill('b-2', 'po-2', 80)]);
+        assert.deepEqual(amounts(allocations), [['b-2', 80], ['b-1', 70]]);
+    });
+
+    it('only settles bills in the payment\'s currency', async () => {
+        const { allocations } = await allocate([bill('b-1', 'po-1', 100, 0, 'USD'), bill('b-2', 'po-3', 100)]);
+        assert.deepEqual(amounts(allocations), [['b-2', 100]]);
+    });
+
+    it('marks bills paid and books the difference between the two rates', async () => {
+        const usd = { ...payment, amount: '100.00', currency: 'USD', exchangeRate: '12700' };
+        const { allocations, writes } = await allocate([bill('b-1', 'po-2', 100, 0, 'USD', 12500)], {}, usd);
+
+        assert.deepEqual(allocations, [{ billId: 'b-1', billNumber: 'B-1', amount: 100, fxGainLoss: -20000 }]);
+        const billUpdate = writes.find(w => w.op === 'update' && w.table === schema.supplierBills)!;
+        assert.deepEqual([billUpdate.values.paidAmount, billUpdate.values.status], ['100', 'paid']);
+    });
+
+    describe('manual lines', () => {
+        const bills = () => [bill('b-1', 'po-1', 100), bill('b-2', 'po-3', 100)];
+
+        it('go exactly where they are told', async () => {
+            const { allocations } = await allocate(bills(), { manual: [{ billId: 'b-2', amount: 40 }] });
+            assert.deepEqual(amounts(allocations), [['b-2', 40]]);
+        });
+
+        it('cannot exceed what the bill owes', async () => {
+            await assert.rejects(
+                allocate(bills(), { manual: [{ billId: 'b-1', amount: 120 }] }),
+                (error: unknown) => error instanceof AllocationError && /amount due on B-1/.test(error.message)
+            );
+        });
+
+        it('cannot exceed the payment', async () => {
+            await assert.rejects(
+                allocate(bills(), { manual: [{ billId: 'b-1', amount: 100 }, { billId: 'b-2', amount: 60 }] }),
+                /Allocations exceed the unallocated payment amount/
+            );
+        });
+
+        it('cannot settle a bill in another currency', async () => {
+            await assert.rejects(
+                allocate([bill('b-1', 'po-1', 100, 0, 'USD')], { manual: [{ billId: 'b-1', amount: 10 }] }),
+                /B-1 is in USD, the payment in UZS/
+            );
+        });
+    });
+});
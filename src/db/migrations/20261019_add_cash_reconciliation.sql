@@ -0,0 +1,72 @@
+-- ============================================================================
+-- Cash collection and end-of-day reconciliation Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE cash_entry_type AS ENUM ('collection', 'handover', 'shortage', 'overage');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE cash_handover_status AS ENUM ('submitted', 'confirmed', 'rejected');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS cash_handovers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+    business_date DATE NOT NULL,
+    status cash_handover_status NOT NULL DEFAULT 'submitted',
+    expected_amount DECIMAL(15, 2) NOT NULL,
+    declared_amount DECIMAL(15, 2) NOT NULL,
+    received_amount DECIMAL(15, 2),
+    difference_amount DECIMAL(15, 2),
+    notes TEXT,
+    cashier_notes TEXT,
+    submitted_at TIMESTAMP DEFAULT NOW(),
+    confirmed_by_user_id UUID REFERENCES users(id),
+    confirmed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS cash_handover_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    handover_id UUID NOT NULL REFERENCES cash_handovers(id),
+    payment_method_id UUID NOT NULL REFERENCES payment_methods(id),
+    method_name VARCHAR(100),
+    expected_amount DECIMAL(15, 2) NOT NULL,
+    declared_amount DECIMAL(15, 2) NOT NULL,
+    received_amount DECIMAL(15, 2),
+    difference_amount DECIMAL(15, 2)
+);
+
+CREATE TABLE IF NOT EXISTS cash_ledger_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    user_id UUID NOT NULL REFERENCES users(id),
+    payment_method_id UUID NOT NULL REFERENCES payment_methods(id),
+    type cash_entry_type NOT NULL,
+    amount DECIMAL(15, 2) NOT NULL,
+    payment_id UUID REFERENCES payments(id),
+    handover_id UUID REFERENCES cash_handovers(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Only cash payment methods count toward cash on hand; flag the obvious ones
+ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS is_cash BOOLEAN NOT NULL DEFAULT false;
+UPDATE payment_methods SET is_cash = true
+WHERE name ILIKE '%cash%' OR name ILIKE '%naqd%' OR name ILIKE '%налич%';
+
+-- Drivers holding more unreconciled cash than this cannot start a trip (NULL = no limit)
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS unreconciled_cash_limit DECIMAL(15, 2);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_cash_ledger_user ON cash_ledger_entries(tenant_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_cash_handovers_tenant_date ON cash_handovers(tenant_id, business_date);
+CREATE INDEX IF NOT EXISTS idx_cash_handover_lines_handover ON cash_handover_lines(handover_id);
+-- One open handover per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_handovers_open ON cash_handovers(user_id) WHERE status = 'submitted';
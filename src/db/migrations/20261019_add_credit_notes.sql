@@ -0,0 +1,58 @@
+-- ============================================================================
+-- Credit Notes Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE credit_note_status AS ENUM ('pending_approval', 'issued', 'rejected');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE credit_note_settlement AS ENUM ('credit', 'cash_refund');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Credit notes above this amount wait for a supervisor; NULL disables approval
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS credit_note_approval_limit DECIMAL(15, 2);
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    credit_note_number VARCHAR(50),
+    sequence_number INTEGER,
+    return_id UUID NOT NULL UNIQUE REFERENCES returns(id),
+    order_id UUID NOT NULL REFERENCES orders(id),
+    invoice_id UUID REFERENCES invoices(id),
+    customer_id UUID NOT NULL REFERENCES customers(id),
+    status credit_note_status NOT NULL DEFAULT 'issued',
+    settlement credit_note_settlement NOT NULL DEFAULT 'credit',
+    currency VARCHAR(3) NOT NULL,
+    subtotal_amount DECIMAL(15, 2) NOT NULL,
+    tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(15, 2) NOT NULL,
+    payment_method_id UUID REFERENCES payment_methods(id),
+    refund_payment_id UUID REFERENCES payments(id),
+    notes TEXT,
+    issue_date DATE,
+    created_by UUID REFERENCES users(id),
+    approved_by UUID REFERENCES users(id),
+    approved_at TIMESTAMP,
+    rejection_reason TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_tenant_credit_note_number UNIQUE (tenant_id, sequence_number)
+);
+
+-- Credit notes are allocated to orders like payments
+ALTER TABLE payment_allocations ALTER COLUMN payment_id DROP NOT NULL;
+ALTER TABLE payment_allocations ADD COLUMN IF NOT EXISTS credit_note_id UUID REFERENCES credit_notes(id);
+ALTER TABLE customer_ledger_entries ADD COLUMN IF NOT EXISTS credit_note_id UUID REFERENCES credit_notes(id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_credit_notes_tenant_status ON credit_notes(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_customer ON credit_notes(customer_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_credit_note ON payment_allocations(credit_note_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_ledger_credit_note ON customer_ledger_entries(credit_note_id) WHERE type = 'credit_note';
@@ -0,0 +1,73 @@
+-- ============================================================================
+-- Customer ledger and payment allocation Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE customer_ledger_entry_type AS ENUM ('delivery', 'payment', 'return', 'credit_note', 'adjustment');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS payment_allocations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    payment_id UUID NOT NULL REFERENCES payments(id),
+    order_id UUID NOT NULL REFERENCES orders(id),
+    amount DECIMAL(15, 2) NOT NULL,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS customer_ledger_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    customer_id UUID NOT NULL REFERENCES customers(id),
+    type customer_ledger_entry_type NOT NULL,
+    debit DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    credit DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    order_id UUID REFERENCES orders(id),
+    payment_id UUID REFERENCES payments(id),
+    return_id UUID REFERENCES returns(id),
+    description VARCHAR(255),
+    entry_date TIMESTAMP NOT NULL,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_payment ON payment_allocations(payment_id);
+CREATE INDEX IF NOT EXISTS idx_payment_allocations_order ON payment_allocations(order_id);
+CREATE INDEX IF NOT EXISTS idx_customer_ledger_customer_date ON customer_ledger_entries(tenant_id, customer_id, entry_date);
+-- An order is debited once and a payment credited once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_ledger_delivery ON customer_ledger_entries(order_id) WHERE type = 'delivery';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_ledger_payment ON customer_ledger_entries(payment_id) WHERE type = 'payment';
+
+-- Backfill history. Order totals already include refunds for processed
+-- returns, so past returns get no separate credit.
+INSERT INTO customer_ledger_entries (tenant_id, customer_id, type, debit, order_id, description, entry_date)
+SELECT o.tenant_id, o.customer_id, 'delivery', o.total_amount, o.id, 'Order ' || o.order_number, COALESCE(o.delivered_at, o.created_at, NOW())
+FROM orders o
+WHERE o.status IN ('delivered', 'partial')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO customer_ledger_entries (tenant_id, customer_id, type, credit, order_id, payment_id, description, entry_date)
+SELECT p.tenant_id, p.customer_id, 'payment', p.amount, p.order_id, p.id, 'Payment ' || p.payment_number, COALESCE(p.collected_at, p.created_at, NOW())
+FROM payments p
+ON CONFLICT DO NOTHING;
+
+-- Each payment settles its own order, capped at what was still due after the
+-- earlier payments; any excess stays unallocated as customer credit.
+INSERT INTO payment_allocations (tenant_id, payment_id, order_id, amount, created_at)
+SELECT s.tenant_id, s.id, s.order_id, LEAST(s.amount, s.total_amount - s.paid_before), s.created_at
+FROM (
+    SELECT p.tenant_id, p.id, p.order_id, p.amount, p.created_at, o.total_amount,
+           COALESCE(SUM(p.amount) OVER (
+               PARTITION BY p.order_id ORDER BY p.created_at, p.id
+               ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+           ), 0) AS paid_before
+    FROM payments p
+    JOIN orders o ON o.id = p.order_id
+    WHERE p.amount > 0
+      AND NOT EXISTS (SELECT 1 FROM payment_allocations a WHERE a.payment_id = p.id)
+) s
+WHERE s.total_amount - s.paid_before > 0;
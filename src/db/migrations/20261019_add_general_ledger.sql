@@ -0,0 +1,64 @@
+-- ============================================================================
+-- General ledger (chart of accounts and double-entry journal) Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE gl_account_type AS ENUM ('asset', 'liability', 'equity', 'revenue', 'expense');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+    CREATE TYPE journal_source AS ENUM ('delivery', 'payment', 'supplier_payment', 'credit_note', 'return', 'stock_adjustment');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS gl_accounts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    code VARCHAR(20) NOT NULL,
+    name VARCHAR(255) NOT NULL,
+    type gl_account_type NOT NULL,
+    system_role VARCHAR(30),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_gl_account_code UNIQUE (tenant_id, code),
+    CONSTRAINT unique_gl_account_role UNIQUE (tenant_id, system_role)
+);
+
+CREATE TABLE IF NOT EXISTS journal_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    source_type journal_source NOT NULL,
+    source_id UUID NOT NULL,
+    reference VARCHAR(50),
+    description VARCHAR(255),
+    total_amount DECIMAL(15, 2) NOT NULL,
+    entry_date TIMESTAMP NOT NULL,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_journal_source UNIQUE (tenant_id, source_type, source_id)
+);
+
+CREATE TABLE IF NOT EXISTS journal_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entry_id UUID NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+    account_id UUID NOT NULL REFERENCES gl_accounts(id),
+    debit DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    credit DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    customer_id UUID REFERENCES customers(id),
+    supplier_id UUID REFERENCES suppliers(id)
+);
+
+ALTER TABLE payment_methods ADD COLUMN IF NOT EXISTS gl_account_id UUID REFERENCES gl_accounts(id);
+
+-- Accounting exports
+ALTER TYPE export_format ADD VALUE IF NOT EXISTS '1c_xml';
+ALTER TYPE export_format ADD VALUE IF NOT EXISTS 'journal_csv';
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_journal_entries_tenant_date ON journal_entries(tenant_id, entry_date);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_entry ON journal_lines(entry_id);
+CREATE INDEX IF NOT EXISTS idx_journal_lines_account ON journal_lines(account_id);
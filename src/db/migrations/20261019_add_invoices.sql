@@ -0,0 +1,59 @@
+-- ============================================================================
+-- Invoices Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE invoice_status AS ENUM ('issued', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- When invoices are issued: on 'delivery' or on order 'approval'
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS invoice_issue_on VARCHAR(20) DEFAULT 'delivery';
+
+CREATE TABLE IF NOT EXISTS invoices (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    invoice_number VARCHAR(50) NOT NULL,
+    sequence_number INTEGER NOT NULL,
+    order_id UUID NOT NULL REFERENCES orders(id),
+    customer_id UUID NOT NULL REFERENCES customers(id),
+    status invoice_status NOT NULL DEFAULT 'issued',
+    currency VARCHAR(3) NOT NULL,
+    subtotal_amount DECIMAL(15, 2) NOT NULL,
+    discount_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(15, 2) NOT NULL,
+    customer_name VARCHAR(255) NOT NULL,
+    customer_address VARCHAR(500),
+    customer_phone VARCHAR(50),
+    issue_date DATE NOT NULL,
+    due_date DATE,
+    issued_by UUID REFERENCES users(id),
+    cancelled_at TIMESTAMP,
+    replaces_invoice_id UUID REFERENCES invoices(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_tenant_invoice_number UNIQUE (tenant_id, sequence_number)
+);
+
+CREATE TABLE IF NOT EXISTS invoice_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    invoice_id UUID NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+    order_item_id UUID REFERENCES order_items(id),
+    product_id UUID REFERENCES products(id),
+    product_name VARCHAR(255) NOT NULL,
+    sku VARCHAR(100),
+    quantity INTEGER NOT NULL,
+    unit_price DECIMAL(15, 2) NOT NULL,
+    discount_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    tax_rate DECIMAL(5, 2) NOT NULL DEFAULT 0,
+    tax_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    line_total DECIMAL(15, 2) NOT NULL
+);
+
+-- Indexes
+-- Cancelled invoices keep their number; an order has at most one issued invoice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_invoices_order_issued ON invoices(order_id) WHERE status = 'issued';
+CREATE INDEX IF NOT EXISTS idx_invoices_tenant_issue_date ON invoices(tenant_id, issue_date);
+CREATE INDEX IF NOT EXISTS idx_invoices_customer ON invoices(customer_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_lines_invoice ON invoice_lines(invoice_id);
@@ -0,0 +1,45 @@
+-- ============================================================================
+-- Multi-currency (exchange rates, PO / supplier bill and payment currencies, realized FX) Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE exchange_rate_source AS ENUM ('manual', 'cbu');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE journal_source ADD VALUE IF NOT EXISTS 'supplier_fx';
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    currency VARCHAR(3) NOT NULL,
+    rate DECIMAL(20, 10) NOT NULL,
+    rate_date DATE NOT NULL,
+    source exchange_rate_source NOT NULL DEFAULT 'manual',
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    -- Also serves the latest-rate-on-or-before lookup
+    CONSTRAINT unique_exchange_rate_day UNIQUE (tenant_id, currency, rate_date)
+);
+
+-- Existing documents are in the tenant's base currency
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+UPDATE purchase_orders po SET currency = COALESCE(t.currency, 'UZS')
+FROM tenants t WHERE t.id = po.tenant_id AND po.currency IS NULL;
+ALTER TABLE purchase_orders ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE supplier_bills ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+ALTER TABLE supplier_bills ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(20, 10) NOT NULL DEFAULT 1;
+UPDATE supplier_bills b SET currency = COALESCE(t.currency, 'UZS')
+FROM tenants t WHERE t.id = b.tenant_id AND b.currency IS NULL;
+ALTER TABLE supplier_bills ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE supplier_payments ADD COLUMN IF NOT EXISTS currency VARCHAR(3);
+ALTER TABLE supplier_payments ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(20, 10) NOT NULL DEFAULT 1;
+UPDATE supplier_payments p SET currency = COALESCE(t.currency, 'UZS')
+FROM tenants t WHERE t.id = p.tenant_id AND p.currency IS NULL;
+ALTER TABLE supplier_payments ALTER COLUMN currency SET NOT NULL;
+
+ALTER TABLE supplier_bill_allocations ADD COLUMN IF NOT EXISTS fx_gain_loss DECIMAL(15, 2) NOT NULL DEFAULT 0;
@@ -0,0 +1,110 @@
+-- ============================================================================
+-- Multi-warehouse inventory Migration
+-- ============================================================================
+
+-- Transfer status enum
+DO $$ BEGIN
+    CREATE TYPE transfer_status AS ENUM ('draft', 'shipped', 'received', 'cancelled');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+-- Stock movements can now reference transfers
+ALTER TYPE reference_type ADD VALUE IF NOT EXISTS 'transfer';
+
+-- Warehouses table
+CREATE TABLE IF NOT EXISTS warehouses (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    name VARCHAR(255) NOT NULL,
+    code VARCHAR(50) NOT NULL,
+    address TEXT,
+    is_default BOOLEAN DEFAULT false,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_warehouse_code UNIQUE (tenant_id, code)
+);
+
+-- Per-warehouse stock balances
+CREATE TABLE IF NOT EXISTS warehouse_stock (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity INTEGER NOT NULL DEFAULT 0,
+    reserved_quantity INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_warehouse_product UNIQUE (warehouse_id, product_id)
+);
+
+-- Per-tenant document counters (TRF-00001, ...)
+CREATE TABLE IF NOT EXISTS document_sequences (
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    document_type VARCHAR(30) NOT NULL,
+    last_number INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (tenant_id, document_type)
+);
+
+-- Transfer documents
+CREATE TABLE IF NOT EXISTS stock_transfers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    transfer_number VARCHAR(50) NOT NULL,
+    from_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    to_warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    status transfer_status NOT NULL DEFAULT 'draft',
+    notes TEXT,
+    created_by UUID REFERENCES users(id),
+    shipped_by UUID REFERENCES users(id),
+    shipped_at TIMESTAMP,
+    received_by UUID REFERENCES users(id),
+    received_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_transfer_number UNIQUE (tenant_id, transfer_number)
+);
+
+CREATE TABLE IF NOT EXISTS stock_transfer_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    transfer_id UUID NOT NULL REFERENCES stock_transfers(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity INTEGER NOT NULL,
+    qty_received INTEGER DEFAULT 0,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Location columns on existing documents
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+ALTER TABLE stock_adjustments ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+ALTER TABLE trips ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+ALTER TABLE purchase_orders ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_warehouse_stock_product ON warehouse_stock(product_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_warehouse ON stock_movements(warehouse_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_tenant_status ON stock_transfers(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_orders_warehouse ON orders(warehouse_id);
+
+-- Backfill: every tenant gets a default "Main" warehouse holding today's global balances
+INSERT INTO warehouses (tenant_id, name, code, is_default)
+SELECT t.id, 'Main Warehouse', 'MAIN', true
+FROM tenants t
+WHERE NOT EXISTS (SELECT 1 FROM warehouses w WHERE w.tenant_id = t.id);
+
+INSERT INTO warehouse_stock (tenant_id, warehouse_id, product_id, quantity, reserved_quantity)
+SELECT p.tenant_id, w.id, p.id, COALESCE(p.stock_quantity, 0), COALESCE(p.reserved_quantity, 0)
+FROM products p
+JOIN warehouses w ON w.tenant_id = p.tenant_id AND w.is_default = true
+ON CONFLICT (warehouse_id, product_id) DO NOTHING;
+
+UPDATE orders o SET warehouse_id = w.id
+FROM warehouses w
+WHERE w.tenant_id = o.tenant_id AND w.is_default = true AND o.warehouse_id IS NULL;
+
+UPDATE stock_movements m SET warehouse_id = w.id
+FROM warehouses w
+WHERE w.tenant_id = m.tenant_id AND w.is_default = true AND m.warehouse_id IS NULL;
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Packing station Migration
+-- ============================================================================
+
+ALTER TABLE packing_sessions ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+ALTER TABLE packing_sessions ADD COLUMN IF NOT EXISTS package_count INTEGER;
+ALTER TABLE packing_sessions ADD COLUMN IF NOT EXISTS weight_kg DECIMAL(10, 3);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_packing_sessions_order ON packing_sessions(order_id);
+CREATE INDEX IF NOT EXISTS idx_packing_sessions_tenant_status ON packing_sessions(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_packing_items_session ON packing_items(session_id);
@@ -0,0 +1,18 @@
+-- ============================================================================
+-- Online payment reversals Migration
+-- ============================================================================
+
+ALTER TYPE payment_token_status ADD VALUE IF NOT EXISTS 'refunded';
+
+-- Link a paid token to the payment it created, and record cancellations
+ALTER TABLE payment_tokens ADD COLUMN IF NOT EXISTS payment_id UUID REFERENCES payments(id);
+ALTER TABLE payment_tokens ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP;
+ALTER TABLE payment_tokens ADD COLUMN IF NOT EXISTS cancel_reason VARCHAR(100);
+
+-- A reversal is a negative payment pointing back at the reversed one
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS reversal_of_id UUID REFERENCES payments(id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_payment_tokens_provider_transaction ON payment_tokens(paid_via, provider_transaction_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_reversal_of ON payments(reversal_of_id) WHERE reversal_of_id IS NOT NULL;
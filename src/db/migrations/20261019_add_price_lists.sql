@@ -0,0 +1,49 @@
+-- ============================================================================
+-- Price lists (per tier, territory and customer, with validity periods) Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE price_list_scope_type AS ENUM ('customer', 'territory', 'customer_tier');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS price_lists (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    currency VARCHAR(3) NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_price_list_name UNIQUE (tenant_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS price_list_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    price_list_id UUID NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+    scope_type price_list_scope_type NOT NULL,
+    scope_id UUID NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_price_list_scope UNIQUE (tenant_id, scope_type, scope_id)
+);
+
+CREATE TABLE IF NOT EXISTS price_list_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    price_list_id UUID NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    price DECIMAL(15, 2) NOT NULL,
+    valid_from DATE NOT NULL,
+    valid_to DATE,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_price_list_item_start UNIQUE (price_list_id, product_id, valid_from),
+    CONSTRAINT price_list_item_period CHECK (valid_to IS NULL OR valid_to >= valid_from)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_price_list_assignments_list ON price_list_assignments(price_list_id);
+CREATE INDEX IF NOT EXISTS idx_price_list_items_product ON price_list_items(product_id);
@@ -0,0 +1,10 @@
+-- ============================================================================
+-- Pricing engine (promotion priority and stacking) Migration
+-- ============================================================================
+
+ALTER TABLE discounts ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE discounts ADD COLUMN IF NOT EXISTS is_stackable BOOLEAN NOT NULL DEFAULT false;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_discount_scopes_discount ON discount_scopes(discount_id);
+CREATE INDEX IF NOT EXISTS idx_volume_tiers_discount ON volume_tiers(discount_id);
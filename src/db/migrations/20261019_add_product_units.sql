@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Product units of measure (pack sizes with conversion factors) Migration
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_units (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    unit product_unit NOT NULL,
+    factor INTEGER NOT NULL CHECK (factor > 1),
+    barcode VARCHAR(100),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_product_unit UNIQUE (product_id, unit),
+    CONSTRAINT unique_product_unit_barcode UNIQUE (tenant_id, barcode)
+);
+
+-- Order, PO and cart lines remember the unit they were entered in;
+-- their quantities stay in the base unit
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit product_unit;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit_qty INTEGER;
+ALTER TABLE order_items ADD COLUMN IF NOT EXISTS unit_factor INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit product_unit;
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit_qty INTEGER;
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS unit_factor INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE purchase_order_items ALTER COLUMN unit_price TYPE DECIMAL(15, 4);
+
+ALTER TABLE cart_items ADD COLUMN IF NOT EXISTS unit product_unit;
@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Product variants (parent product families with attribute-defined variants) Migration
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS product_families (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    description TEXT,
+    subcategory_id UUID REFERENCES subcategories(id),
+    brand_id UUID REFERENCES brands(id),
+    image_url VARCHAR(500),
+    attributes JSONB NOT NULL DEFAULT '[]',
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_product_family_name UNIQUE (tenant_id, name)
+);
+
+-- Variants are ordinary products with a family and attribute values
+ALTER TABLE products ADD COLUMN IF NOT EXISTS family_id UUID REFERENCES product_families(id) ON DELETE SET NULL;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS variant_attributes JSONB;
+
+ALTER TABLE master_products ADD COLUMN IF NOT EXISTS family_name VARCHAR(255);
+ALTER TABLE master_products ADD COLUMN IF NOT EXISTS variant_attributes JSONB;
+
+-- ============================================================================
+-- Indexes
+-- ============================================================================
+
+-- One variant per attribute combination within a family; also serves family lookups
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_family_variant ON products(family_id, variant_attributes) WHERE family_id IS NOT NULL;
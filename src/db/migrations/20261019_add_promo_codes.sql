@@ -0,0 +1,37 @@
+-- ============================================================================
+-- Promo codes and redemptions Migration
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS promo_codes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    discount_id UUID NOT NULL REFERENCES discounts(id) ON DELETE CASCADE,
+    code VARCHAR(50) NOT NULL,
+    batch_id UUID,
+    max_redemptions INTEGER,
+    max_per_customer INTEGER,
+    first_order_only BOOLEAN NOT NULL DEFAULT false,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_promo_code UNIQUE (tenant_id, code)
+);
+
+CREATE TABLE IF NOT EXISTS promo_code_redemptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    promo_code_id UUID NOT NULL REFERENCES promo_codes(id) ON DELETE CASCADE,
+    discount_id UUID NOT NULL REFERENCES discounts(id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    discount_amount DECIMAL(15, 2) NOT NULL,
+    order_total DECIMAL(15, 2) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_promo_redemption_order UNIQUE (order_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_promo_codes_discount ON promo_codes(discount_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_code_customer ON promo_code_redemptions(promo_code_id, customer_id);
+CREATE INDEX IF NOT EXISTS idx_promo_redemptions_tenant_date ON promo_code_redemptions(tenant_id, created_at);
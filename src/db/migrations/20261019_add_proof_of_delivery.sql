@@ -0,0 +1,26 @@
+-- ============================================================================
+-- Proof of delivery Migration
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS delivery_proofs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    trip_order_id UUID NOT NULL UNIQUE REFERENCES trip_orders(id),
+    order_id UUID NOT NULL REFERENCES orders(id),
+    recipient_name VARCHAR(255) NOT NULL,
+    signature_url VARCHAR(500),
+    photo_urls JSONB DEFAULT '[]'::jsonb,
+    latitude DECIMAL(10, 8),
+    longitude DECIMAL(11, 8),
+    accuracy DECIMAL(8, 2),
+    captured_at TIMESTAMP NOT NULL,
+    captured_by_user_id UUID NOT NULL REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Tenants opt in to requiring a proof before a stop can be marked delivered
+ALTER TABLE tenants ADD COLUMN IF NOT EXISTS proof_of_delivery_required BOOLEAN DEFAULT false;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_delivery_proofs_order ON delivery_proofs(order_id);
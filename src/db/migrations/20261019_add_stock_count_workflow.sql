@@ -0,0 +1,29 @@
+-- ============================================================================
+-- Stock count workflow Migration
+-- ============================================================================
+
+-- Counts wait for supervisor approval before adjustments are posted
+ALTER TYPE stock_count_status ADD VALUE IF NOT EXISTS 'submitted' AFTER 'in_progress';
+
+-- What a count covers
+DO $$ BEGIN
+    CREATE TYPE stock_count_scope AS ENUM ('full', 'category', 'bin', 'cycle');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS warehouse_id UUID REFERENCES warehouses(id);
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS scope stock_count_scope NOT NULL DEFAULT 'full';
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS scope_category_id UUID;
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS scope_bin_id UUID REFERENCES warehouse_bins(id);
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS scope_abc_class VARCHAR(1);
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS is_blind BOOLEAN NOT NULL DEFAULT true;
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP;
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS submitted_by_user_id UUID REFERENCES users(id);
+ALTER TABLE stock_counts ADD COLUMN IF NOT EXISTS approved_by_user_id UUID REFERENCES users(id);
+
+ALTER TABLE stock_count_items ADD COLUMN IF NOT EXISTS adjustment_id UUID;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_stock_counts_tenant_status ON stock_counts(tenant_id, status);
+CREATE INDEX IF NOT EXISTS idx_stock_count_items_count ON stock_count_items(count_id);
@@ -0,0 +1,41 @@
+-- ============================================================================
+-- Stock lots / expiry tracking Migration
+-- ============================================================================
+
+-- Lot balances per warehouse and product
+CREATE TABLE IF NOT EXISTS stock_lots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    lot_number VARCHAR(100) NOT NULL,
+    expiry_date DATE,
+    quantity INTEGER NOT NULL DEFAULT 0,
+    purchase_order_id UUID,
+    received_at TIMESTAMP DEFAULT NOW(),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_warehouse_product_lot UNIQUE (warehouse_id, product_id, lot_number)
+);
+
+-- Lots picked for each order line
+CREATE TABLE IF NOT EXISTS order_item_lots (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+    lot_id UUID NOT NULL REFERENCES stock_lots(id),
+    quantity INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS lot_id UUID REFERENCES stock_lots(id);
+ALTER TABLE stock_transfer_items ADD COLUMN IF NOT EXISTS lots JSONB;
+
+-- Near-expiry Telegram alert settings
+ALTER TABLE tenant_notification_settings ADD COLUMN IF NOT EXISTS notify_near_expiry BOOLEAN DEFAULT true;
+ALTER TABLE tenant_notification_settings ADD COLUMN IF NOT EXISTS near_expiry_days_threshold INTEGER DEFAULT 30;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_stock_lots_product ON stock_lots(warehouse_id, product_id, expiry_date);
+CREATE INDEX IF NOT EXISTS idx_stock_lots_tenant_expiry ON stock_lots(tenant_id, expiry_date) WHERE quantity > 0;
+CREATE INDEX IF NOT EXISTS idx_order_item_lots_item ON order_item_lots(order_item_id);
+CREATE INDEX IF NOT EXISTS idx_order_item_lots_lot ON order_item_lots(lot_id);
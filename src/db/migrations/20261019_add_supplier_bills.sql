@@ -0,0 +1,59 @@
+-- ============================================================================
+-- Supplier accounts payable (bills from received goods, payment allocations) Migration
+-- ============================================================================
+
+DO $$ BEGIN
+    CREATE TYPE supplier_bill_status AS ENUM ('open', 'partial', 'paid');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TYPE journal_source ADD VALUE IF NOT EXISTS 'supplier_bill';
+
+ALTER TABLE purchase_order_items ADD COLUMN IF NOT EXISTS qty_billed INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS supplier_bills (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    bill_number VARCHAR(50) NOT NULL,
+    supplier_id UUID NOT NULL REFERENCES suppliers(id),
+    purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id),
+    status supplier_bill_status NOT NULL DEFAULT 'open',
+    subtotal_amount DECIMAL(15, 2) NOT NULL,
+    tax_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    total_amount DECIMAL(15, 2) NOT NULL,
+    paid_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    bill_date DATE NOT NULL,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_bill_number UNIQUE (tenant_id, bill_number)
+);
+
+CREATE TABLE IF NOT EXISTS supplier_bill_lines (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bill_id UUID NOT NULL REFERENCES supplier_bills(id) ON DELETE CASCADE,
+    purchase_order_item_id UUID NOT NULL REFERENCES purchase_order_items(id),
+    product_id UUID NOT NULL REFERENCES products(id),
+    quantity INTEGER NOT NULL,
+    unit_price DECIMAL(15, 2) NOT NULL,
+    tax_amount DECIMAL(15, 2) NOT NULL DEFAULT 0,
+    line_total DECIMAL(15, 2) NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS supplier_bill_allocations (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    supplier_payment_id UUID NOT NULL REFERENCES supplier_payments(id),
+    bill_id UUID NOT NULL REFERENCES supplier_bills(id),
+    amount DECIMAL(15, 2) NOT NULL,
+    created_by UUID REFERENCES users(id),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_tenant_supplier ON supplier_bills(tenant_id, supplier_id, status);
+CREATE INDEX IF NOT EXISTS idx_supplier_bills_purchase_order ON supplier_bills(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bill_lines_bill ON supplier_bill_lines(bill_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bill_allocations_payment ON supplier_bill_allocations(supplier_payment_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_bill_allocations_bill ON supplier_bill_allocations(bill_id);
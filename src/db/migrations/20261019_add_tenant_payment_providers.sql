@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Tenant payment providers Migration
+-- ============================================================================
+-- Gateway credentials move from fixed tenants.click_* / payme_* columns to
+-- one row per tenant and provider. Credentials are encrypted by the app, so
+-- existing keys are copied by move_payment_credentials_to_providers.ts.
+
+CREATE TABLE IF NOT EXISTS tenant_payment_providers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    provider VARCHAR(20) NOT NULL,
+    is_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+    credentials TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_tenant_payment_provider UNIQUE (tenant_id, provider)
+);
@@ -0,0 +1,15 @@
+-- ============================================================================
+-- Trip planning Migration
+-- ============================================================================
+
+ALTER TABLE products ADD COLUMN IF NOT EXISTS weight_kg DECIMAL(10, 3);
+ALTER TABLE products ADD COLUMN IF NOT EXISTS volume_m3 DECIMAL(10, 6);
+
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS max_weight_kg DECIMAL(10, 2);
+ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS max_volume_m3 DECIMAL(10, 3);
+
+ALTER TABLE warehouses ADD COLUMN IF NOT EXISTS latitude DECIMAL(10, 8);
+ALTER TABLE warehouses ADD COLUMN IF NOT EXISTS longitude DECIMAL(11, 8);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_orders_tenant_delivery_date ON orders(tenant_id, requested_delivery_date);
@@ -0,0 +1,8 @@
+-- ============================================================================
+-- Visit route optimization Migration
+-- ============================================================================
+
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS opening_time TIME;
+ALTER TABLE customers ADD COLUMN IF NOT EXISTS closing_time TIME;
+
+ALTER TABLE sales_visits ADD COLUMN IF NOT EXISTS route_sequence INTEGER;
@@ -0,0 +1,30 @@
+-- ============================================================================
+-- Warehouse bin locations Migration
+-- ============================================================================
+
+-- Shelf locations (zone -> aisle -> bin)
+CREATE TABLE IF NOT EXISTS warehouse_bins (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id),
+    warehouse_id UUID NOT NULL REFERENCES warehouses(id),
+    code VARCHAR(50) NOT NULL,
+    barcode VARCHAR(100),
+    zone VARCHAR(50),
+    aisle VARCHAR(50),
+    pick_sequence INTEGER,
+    is_active BOOLEAN DEFAULT true,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CONSTRAINT unique_warehouse_bin_code UNIQUE (warehouse_id, code)
+);
+
+-- Default bin of a product in a warehouse
+ALTER TABLE warehouse_stock ADD COLUMN IF NOT EXISTS default_bin_id UUID REFERENCES warehouse_bins(id);
+
+-- Bin references on counting / packing lines
+ALTER TABLE stock_count_items ADD COLUMN IF NOT EXISTS bin_id UUID REFERENCES warehouse_bins(id);
+ALTER TABLE packing_items ADD COLUMN IF NOT EXISTS bin_id UUID REFERENCES warehouse_bins(id);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_warehouse_bins_barcode ON warehouse_bins(warehouse_id, barcode);
+CREATE INDEX IF NOT EXISTS idx_warehouse_stock_default_bin ON warehouse_stock(default_bin_id);
@@ -0,0 +1,12 @@
+-- ============================================================================
+-- Tenant secrets encryption Migration
+-- ============================================================================
+-- Secret columns hold envelope-encrypted values, which are longer than the
+-- old VARCHAR limits. Existing plaintext stays readable; encrypt it with
+-- `npm run secrets:rotate` after deploying.
+
+ALTER TABLE tenants ALTER COLUMN telegram_bot_token TYPE TEXT;
+ALTER TABLE tenants ALTER COLUMN click_secret_key TYPE TEXT;
+ALTER TABLE tenants ALTER COLUMN payme_secret_key TYPE TEXT;
+ALTER TABLE tenants ALTER COLUMN yandex_geocoder_api_key TYPE TEXT;
+ALTER TABLE tenants ALTER COLUMN open_weather_api_key TYPE TEXT;
@@ -0,0 +1,76 @@
+/**
+ * Migration: Move Click/Payme credentials into tenant_payment_providers
+ *
+ * Copies the tenants.click_* and payme_* columns into provider rows (the
+ * credentials column encrypts on write), then clears the old columns. Run
+ * after 20261019_add_tenant_payment_providers.sql with SECRETS_ENCRYPTION_KEY set.
+ */
+
+import { db, schema } from '../index';
+import { eq, or, isNotNull } from 'drizzle-orm';
+
+export async function up() {
+    console.log('[Migration] Moving payment gateway credentials to tenant_payment_providers...');
+
+    const tenants = await db
+        .select({
+            id: schema.tenants.id,
+            clickMerchantId: schema.tenants.clickMerchantId,
+            clickServiceId: schema.tenants.clickServiceId,
+            clickSecretKey: schema.tenants.clickSecretKey,
+            paymeMerchantId: schema.tenants.paymeMerchantId,
+            paymeSecretKey: schema.tenants.paymeSecretKey,
+        })
+        .from(schema.tenants)
+        .where(or(isNotNull(schema.tenants.clickMerchantId), isNotNull(schema.tenants.paymeMerchantId)));
+
+    for (const tenant of tenants) {
+        await db.transaction(async (tx) => {
+            if (tenant.clickMerchantId) {
+                await tx.insert(schema.tenantPaymentProviders).values({
+                    tenantId: tenant.id,
+                    provider: 'click',
+                    credentials: JSON.stringify({
+                        merchantId: tenant.clickMerchantId,
+                        serviceId: tenant.clickServiceId || '',
+                        secretKey: tenant.clickSecretKey || '',
+                    }),
+                }).onConflictDoNothing();
+            }
+
+            if (tenant.paymeMerchantId) {
+                await tx.insert(schema.tenantPaymentProviders).values({
+                    tenantId: tenant.id,
+                    provider: 'payme',
+                    credentials: JSON.stringify({
+                        merchantId: tenant.paymeMerchantId,
+                        secretKey: tenant.paymeSecretKey || '',
+                    }),
+                }).onConflictDoNothing();
+            }
+
+            await tx.update(schema.tenants).set({
+                clickMerchantId: null,
+                clickServiceId: null,
+                clickSecretKey: null,
+                paymeMerchantId: null,
+                paymeSecretKey: null,
+            }).where(eq(schema.tenants.id, tenant.id));
+        });
+    }
+
+    console.log(`[Migration] Moved credentials for ${tenants.length} tenant(s)`);
+}
+
+// Run migration if called directly
+if (typeof require !== 'undefined' && require.main === module) {
+    up()
+        .then(() => {
+            console.log('✅ Migration complete');
+            process.exit(0);
+        })
+        .catch((err) => {
+            console.error('❌ Migration failed:', err);
+            process.exit(1);
+        });
+}
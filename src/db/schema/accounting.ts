@@ -0,0 +1,80 @@
+import { pgTable, uuid, varchar, timestamp, boolean, decimal, pgEnum, unique } from 'drizzle-orm/pg-core';
+import { tenants, users } from './core';
+import { customers } from './customers';
+import { suppliers } from './products';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const glAccountTypeEnum = pgEnum('gl_account_type', [
+    'asset',
+    'liability',
+    'equity',
+    'revenue',
+    'expense'
+]);
+
+// What a journal entry was posted from; with sourceId it names the document
+export const journalSourceEnum = pgEnum('journal_source', [
+    'delivery',         // Sale: receivable, revenue, tax, cost of goods
+    'payment',          // Customer payment, refund or reversal
+    'supplier_payment',
+    'supplier_bill',    // Goods received from a supplier: inventory and input tax against payables
+    'supplier_fx',      // Realized exchange difference when a payment settles a foreign-currency bill
+    'credit_note',      // Return credited to the customer
+    'return',           // Returned goods put back into stock
+    'stock_adjustment'
+]);
+
+// ============================================================================
+// CHART OF ACCOUNTS (per tenant, seeded with a default chart)
+// ============================================================================
+
+export const glAccounts = pgTable('gl_accounts', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    code: varchar('code', { length: 20 }).notNull(),
+    name: varchar('name', { length: 255 }).notNull(),
+    type: glAccountTypeEnum('type').notNull(),
+    // Which automatic postings use this account (cash, receivable, revenue...);
+    // each role is held by exactly one account of the tenant
+    systemRole: varchar('system_role', { length: 30 }),
+    isActive: boolean('is_active').default(true).notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueTenantCode: unique('unique_gl_account_code').on(table.tenantId, table.code),
+    uniqueTenantRole: unique('unique_gl_account_role').on(table.tenantId, table.systemRole),
+}));
+
+// ============================================================================
+// JOURNAL
+// ============================================================================
+
+export const journalEntries = pgTable('journal_entries', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    sourceType: journalSourceEnum('source_type').notNull(),
+    sourceId: uuid('source_id').notNull(),
+    reference: varchar('reference', { length: 50 }), // Number of the source document
+    description: varchar('description', { length: 255 }),
+    totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull(),
+    entryDate: timestamp('entry_date').notNull(),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+    // A document is posted once
+    uniqueSource: unique('unique_journal_source').on(table.tenantId, table.sourceType, table.sourceId),
+}));
+
+export const journalLines = pgTable('journal_lines', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    entryId: uuid('entry_id').references(() => journalEntries.id, { onDelete: 'cascade' }).notNull(),
+    accountId: uuid('account_id').references(() => glAccounts.id).notNull(),
+    debit: decimal('debit', { precision: 15, scale: 2 }).default('0').notNull(),
+    credit: decimal('credit', { precision: 15, scale: 2 }).default('0').notNull(),
+    // Counterparty, for receivable/payable analytics
+    customerId: uuid('customer_id').references(() => customers.id),
+    supplierId: uuid('supplier_id').references(() => suppliers.id),
+});
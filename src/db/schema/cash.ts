@@ -0,0 +1,70 @@
+import { pgTable, uuid, varchar, text, timestamp, date, decimal, pgEnum } from 'drizzle-orm/pg-core';
+import { tenants, users } from './core';
+import { payments, paymentMethods } from './payments';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const cashEntryTypeEnum = pgEnum('cash_entry_type', [
+    'collection', // Customer payment taken by a field user
+    'handover',   // Money received by the cashier
+    'shortage',   // Handed over less than expected
+    'overage'     // Handed over more than expected
+]);
+
+export const cashHandoverStatusEnum = pgEnum('cash_handover_status', [
+    'submitted', // Declared by the collector, waiting for the cashier
+    'confirmed',
+    'rejected'
+]);
+
+// ============================================================================
+// CASH LEDGER (money on hand per field user)
+// ============================================================================
+
+export const cashLedgerEntries = pgTable('cash_ledger_entries', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    userId: uuid('user_id').references(() => users.id).notNull(),
+    paymentMethodId: uuid('payment_method_id').references(() => paymentMethods.id).notNull(),
+    type: cashEntryTypeEnum('type').notNull(),
+    amount: decimal('amount', { precision: 15, scale: 2 }).notNull(), // Signed: + increases cash on hand
+    paymentId: uuid('payment_id').references(() => payments.id),
+    handoverId: uuid('handover_id').references(() => cashHandovers.id),
+    createdAt: timestamp('created_at').defaultNow(),
+});
+
+// ============================================================================
+// CASH HANDOVERS (end-of-day close)
+// ============================================================================
+
+export const cashHandovers = pgTable('cash_handovers', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    userId: uuid('user_id').references(() => users.id).notNull(),
+    businessDate: date('business_date').notNull(),
+    status: cashHandoverStatusEnum('status').default('submitted').notNull(),
+    expectedAmount: decimal('expected_amount', { precision: 15, scale: 2 }).notNull(), // Cash on hand at submission
+    declaredAmount: decimal('declared_amount', { precision: 15, scale: 2 }).notNull(),
+    receivedAmount: decimal('received_amount', { precision: 15, scale: 2 }),
+    differenceAmount: decimal('difference_amount', { precision: 15, scale: 2 }), // received - expected
+    notes: text('notes'),
+    cashierNotes: text('cashier_notes'),
+    submittedAt: timestamp('submitted_at').defaultNow(),
+    confirmedByUserId: uuid('confirmed_by_user_id').references(() => users.id),
+    confirmedAt: timestamp('confirmed_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+});
+
+export const cashHandoverLines = pgTable('cash_handover_lines', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    handoverId: uuid('handover_id').references(() => cashHandovers.id).notNull(),
+    paymentMethodId: uuid('payment_method_id').references(() => paymentMethods.id).notNull(),
+    methodName: varchar('method_name', { length: 100 }),
+    expectedAmount: decimal('expected_amount', { precision: 15, scale: 2 }).notNull(),
+    declaredAmount: decimal('declared_amount', { precision: 15, scale: 2 }).notNull(),
+    receivedAmount: decimal('received_amount', { precision: 15, scale: 2 }),
+    differenceAmount: decimal('difference_amount', { precision: 15, scale: 2 }),
+});
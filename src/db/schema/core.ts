@@ -1,11 +1,12 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, pgEnum, unique } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, pgEnum, unique, primaryKey } from 'drizzle-orm/pg-core';
+import { encryptedText } from './encrypted';
 
 // ============================================================================
 // ENUMS
 // ============================================================================
 
 export const planEnum = pgEnum('plan', ['free', 'starter', 'pro', 'enterprise']);
-export const paymentTokenStatusEnum = pgEnum('payment_token_status', ['pending', 'paid', 'expired', 'cancelled']);
+export const paymentTokenStatusEnum = pgEnum('payment_token_status', ['pending', 'paid', 'expired', 'cancelled', 'refunded']);
 
 export const userRoleEnum = pgEnum('user_role', [
     'super_admin',
@@ -37,7 +38,9 @@ export const tenants = pgTable('tenants', {
     // Business Settings
     orderNumberPrefix: varchar('order_number_prefix', { length: 20 }).default('ORD-'),
     invoiceNumberPrefix: varchar('invoice_number_prefix', { length: 20 }).default('INV-'),
+    invoiceIssueOn: varchar('invoice_issue_on', { length: 20 }).default('delivery'), // delivery, approval
     defaultPaymentTerms: integer('default_payment_terms').default(7),
+    creditNoteApprovalLimit: decimal('credit_note_approval_limit', { precision: 15, scale: 2 }), // Null: no approval needed
 
     // Company Profile
     address: varchar('address', { length: 500 }),
@@ -55,23 +58,28 @@ export const tenants = pgTable('tenants', {
 
     // Super Admin controls
     telegramEnabled: boolean('telegram_enabled').default(false),
-    telegramBotToken: varchar('telegram_bot_token', { length: 100 }), // Tenant's own bot token
+    telegramBotToken: encryptedText('telegram_bot_token'), // Tenant's own bot token
     telegramBotUsername: varchar('telegram_bot_username', { length: 100 }), // e.g. "MyStoreBot"
     telegramWebhookSecret: varchar('telegram_webhook_secret', { length: 100 }), // Per-tenant webhook secret for security
 
     // Payment Gateway Configuration
     paymentPortalEnabled: boolean('payment_portal_enabled').default(false),
+    // Legacy gateway keys, moved to tenant_payment_providers by migration
     clickMerchantId: varchar('click_merchant_id', { length: 100 }),
     clickServiceId: varchar('click_service_id', { length: 100 }),
-    clickSecretKey: varchar('click_secret_key', { length: 255 }),
+    clickSecretKey: encryptedText('click_secret_key'),
     paymeMerchantId: varchar('payme_merchant_id', { length: 100 }),
-    paymeSecretKey: varchar('payme_secret_key', { length: 255 }),
+    paymeSecretKey: encryptedText('payme_secret_key'),
+
+    // Delivery
+    proofOfDeliveryRequired: boolean('proof_of_delivery_required').default(false), // signature/photo/GPS before a stop can be marked delivered
+    unreconciledCashLimit: decimal('unreconciled_cash_limit', { precision: 15, scale: 2 }), // drivers holding more cash than this cannot start a trip
 
     // Location Services
-    yandexGeocoderApiKey: varchar('yandex_geocoder_api_key', { length: 100 }),
+    yandexGeocoderApiKey: encryptedText('yandex_geocoder_api_key'),
 
     // Weather Services
-    openWeatherApiKey: varchar('open_weather_api_key', { length: 100 }),
+    openWeatherApiKey: encryptedText('open_weather_api_key'),
 
     isActive: boolean('is_active').default(true),
     createdAt: timestamp('created_at').defaultNow(),
@@ -120,6 +128,7 @@ export const tenantNotificationSettings = pgTable('tenant_notification_settings'
 
     // Stock & Debt - Admin
     notifyLowStock: boolean('notify_low_stock').default(true),
+    notifyNearExpiry: boolean('notify_near_expiry').default(true),
     notifyDueDebt: boolean('notify_due_debt').default(false),
 
     // ============================================================================
@@ -143,12 +152,26 @@ export const tenantNotificationSettings = pgTable('tenant_notification_settings'
     // THRESHOLDS
     // ============================================================================
     lowStockThreshold: integer('low_stock_threshold').default(10),
+    nearExpiryDaysThreshold: integer('near_expiry_days_threshold').default(30),
     dueDebtDaysThreshold: integer('due_debt_days_threshold').default(7),
 
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// ============================================================================
+// DOCUMENT NUMBERING (one counter row per tenant and document type)
+// ============================================================================
+
+export const documentSequences = pgTable('document_sequences', {
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    documentType: varchar('document_type', { length: 30 }).notNull(), // transfer, bill, invoice, credit_note
+    lastNumber: integer('last_number').default(0).notNull(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    pk: primaryKey({ columns: [table.tenantId, table.documentType] }),
+}));
+
 
 
 // ============================================================================
@@ -224,6 +247,25 @@ export const paymentTokens = pgTable('payment_tokens', {
     expiresAt: timestamp('expires_at').notNull(),
     createdAt: timestamp('created_at').defaultNow(),
     paidAt: timestamp('paid_at'),
-    paidVia: varchar('paid_via', { length: 20 }), // 'click' | 'payme'
+    paidVia: varchar('paid_via', { length: 20 }), // payment provider name, e.g. 'click' | 'payme' | 'uzum' | 'mock'
     providerTransactionId: varchar('provider_transaction_id', { length: 100 }),
+    paymentId: uuid('payment_id'), // References payments table - foreign key added via migration
+    cancelledAt: timestamp('cancelled_at'),
+    cancelReason: varchar('cancel_reason', { length: 100 }),
 });
+
+// ============================================================================
+// TENANT PAYMENT PROVIDERS (one row per tenant and gateway)
+// ============================================================================
+
+export const tenantPaymentProviders = pgTable('tenant_payment_providers', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    provider: varchar('provider', { length: 20 }).notNull(), // registry name: 'click' | 'payme' | 'uzum'
+    isEnabled: boolean('is_enabled').default(true).notNull(),
+    credentials: encryptedText('credentials'), // JSON, encrypted at rest
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueTenantProvider: unique('unique_tenant_payment_provider').on(table.tenantId, table.provider),
+}));
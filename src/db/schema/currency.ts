@@ -0,0 +1,30 @@
+import { pgTable, uuid, varchar, timestamp, date, decimal, pgEnum, unique } from 'drizzle-orm/pg-core';
+import { tenants, users } from './core';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const exchangeRateSourceEnum = pgEnum('exchange_rate_source', [
+    'manual',
+    'cbu'       // Imported from a Central Bank of Uzbekistan rates file
+]);
+
+// ============================================================================
+// EXCHANGE RATES (daily, to the tenant's base currency)
+// ============================================================================
+
+export const exchangeRates = pgTable('exchange_rates', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    currency: varchar('currency', { length: 3 }).notNull(),
+    // Base currency units for one unit of `currency`
+    rate: decimal('rate', { precision: 20, scale: 10 }).notNull(),
+    rateDate: date('rate_date').notNull(),
+    source: exchangeRateSourceEnum('source').default('manual').notNull(),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueTenantCurrencyDate: unique('unique_exchange_rate_day').on(table.tenantId, table.currency, table.rateDate),
+}));
@@ -1,7 +1,7 @@
 import { pgTable, uuid, varchar, text, timestamp, boolean, integer, unique } from 'drizzle-orm/pg-core';
 import { tenants } from './core';
 import { customers } from './customers';
-import { products } from './products';
+import { products, productUnitEnum } from './products';
 
 // ============================================================================
 // CUSTOMER FAVORITES
@@ -49,6 +49,8 @@ export const cartItems = pgTable('cart_items', {
     id: uuid('id').primaryKey().defaultRandom(),
     cartId: uuid('cart_id').references(() => shoppingCarts.id, { onDelete: 'cascade' }).notNull(),
     productId: uuid('product_id').references(() => products.id).notNull(),
+    // In this unit (null = the product's base unit)
+    unit: productUnitEnum('unit'),
     quantity: integer('quantity').notNull().default(1),
     createdAt: timestamp('created_at').defaultNow(),
 }, (t) => ({
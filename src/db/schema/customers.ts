@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, date, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, date, time, pgEnum } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 import { territories } from './territories';
 
@@ -52,6 +52,9 @@ export const customers = pgTable('customers', {
     waymark: varchar('waymark', { length: 255 }), // Landmark/reference point (Mo'ljal)
     latitude: decimal('latitude', { precision: 10, scale: 8 }),
     longitude: decimal('longitude', { precision: 11, scale: 8 }),
+    // Receiving hours, used as time windows when routing visits
+    openingTime: time('opening_time'),
+    closingTime: time('closing_time'),
     creditBalance: decimal('credit_balance', { precision: 15, scale: 2 }).default('0'),
     debtBalance: decimal('debt_balance', { precision: 15, scale: 2 }).default('0'),
     notes: text('notes'),
@@ -37,6 +37,10 @@ export const discounts = pgTable('discounts', {
     freeQty: integer('free_qty'),
     minOrderAmount: decimal('min_order_amount', { precision: 15, scale: 2 }),
     maxDiscountAmount: decimal('max_discount_amount', { precision: 15, scale: 2 }),
+    // Pricing engine: higher priority is applied first; a stackable
+    // promotion applies on top of the others instead of competing with them
+    priority: integer('priority').notNull().default(0),
+    isStackable: boolean('is_stackable').notNull().default(false),
     isActive: boolean('is_active').default(true),
     startsAt: timestamp('starts_at'),
     endsAt: timestamp('ends_at'),
@@ -0,0 +1,27 @@
+import { customType } from 'drizzle-orm/pg-core';
+import { encryptSecret, decryptSecret, isEncryptedSecret } from '../../lib/secrets';
+
+// ============================================================================
+// ENCRYPTED TEXT COLUMN
+// ============================================================================
+// Encrypted on write and decrypted on read, so callers only ever see
+// plaintext. Rows written before encryption was enabled are read as-is
+// until `npm run secrets:rotate` encrypts them.
+
+export const encryptedText = customType<{ data: string; driverData: string }>({
+    dataType() {
+        return 'text';
+    },
+    toDriver(value) {
+        return encryptSecret(value);
+    },
+    fromDriver(value) {
+        if (!isEncryptedSecret(value)) return value;
+        try {
+            return decryptSecret(value);
+        } catch (error) {
+            console.error('[Secrets] Cannot decrypt stored secret:', (error as Error).message);
+            return '';
+        }
+    },
+});
@@ -6,7 +6,8 @@ import { tenants } from './core';
 // ============================================================================
 
 export const exportStatusEnum = pgEnum('export_status', ['pending', 'processing', 'completed', 'failed']);
-export const exportFormatEnum = pgEnum('export_format', ['json', 'csv', 'xlsx']);
+// 1c_xml and journal_csv export the accounting journal only
+export const exportFormatEnum = pgEnum('export_format', ['json', 'csv', 'xlsx', '1c_xml', 'journal_csv']);
 export const exportFrequencyEnum = pgEnum('export_frequency', ['never', 'daily', 'weekly', 'monthly']);
 
 // ============================================================================
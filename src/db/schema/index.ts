@@ -10,7 +10,7 @@ export * from './users';
 // Territories
 export * from './territories';
 
-// Products (categories, subcategories, brands, suppliers, products, userBrands)
+// Products (categories, subcategories, brands, suppliers, productFamilies, products, productUnits, userBrands)
 export * from './products';
 
 // Customers (customerTiers, customers, customerUsers, tierDowngradeRules)
@@ -19,22 +19,40 @@ export * from './customers';
 // Discounts (discounts, discountScopes, volumeTiers)
 export * from './discounts';
 
-// Orders (orders, orderItems, orderStatusHistory)
+// Promotions (promoCodes, promoCodeRedemptions)
+export * from './promotions';
+
+// Price Lists (priceLists, priceListAssignments, priceListItems)
+export * from './price-lists';
+
+// Orders (orders, orderItems, orderItemLots, orderStatusHistory)
 export * from './orders';
 
-// Trips (vehicles, trips, tripOrders)
+// Trips (vehicles, trips, tripOrders, deliveryProofs)
 export * from './trips';
 
 // Returns
 export * from './returns';
 
-// Procurement (purchaseOrders, purchaseOrderItems)
+// Procurement (purchaseOrders, purchaseOrderItems, supplierBills, supplierBillLines)
 export * from './procurement';
 
-// Payments (paymentMethods, payments, supplierPayments)
+// Payments (paymentMethods, payments, creditNotes, paymentAllocations, customerLedgerEntries, supplierPayments, supplierBillAllocations)
 export * from './payments';
 
-// Stock (stockMovements, stockAdjustments)
+// Cash (cashLedgerEntries, cashHandovers, cashHandoverLines)
+export * from './cash';
+
+// Invoices (invoices, invoiceLines)
+export * from './invoices';
+
+// Accounting (glAccounts, journalEntries, journalLines)
+export * from './accounting';
+
+// Currency (exchangeRates)
+export * from './currency';
+
+// Stock (warehouses, warehouseBins, warehouseStock, stockLots, stockTransfers, stockMovements, stockAdjustments)
 export * from './stock';
 
 // Audit (notificationSettings, notificationLogs, auditLogs)
@@ -0,0 +1,62 @@
+import { pgTable, type AnyPgColumn, uuid, varchar, timestamp, date, decimal, integer, pgEnum, unique } from 'drizzle-orm/pg-core';
+import { tenants, users } from './core';
+import { customers } from './customers';
+import { products } from './products';
+import { orders, orderItems } from './orders';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const invoiceStatusEnum = pgEnum('invoice_status', [
+    'issued',
+    'cancelled' // Order cancelled after issue; the number stays used
+]);
+
+// ============================================================================
+// INVOICES
+// ============================================================================
+
+export const invoices = pgTable('invoices', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    invoiceNumber: varchar('invoice_number', { length: 50 }).notNull(),
+    sequenceNumber: integer('sequence_number').notNull(),
+    // One issued invoice per order (partial unique index in the migration)
+    orderId: uuid('order_id').references(() => orders.id).notNull(),
+    customerId: uuid('customer_id').references(() => customers.id).notNull(),
+    status: invoiceStatusEnum('status').default('issued').notNull(),
+    currency: varchar('currency', { length: 3 }).notNull(),
+    subtotalAmount: decimal('subtotal_amount', { precision: 15, scale: 2 }).notNull(),
+    discountAmount: decimal('discount_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull(),
+    // Buyer as it was at issue time
+    customerName: varchar('customer_name', { length: 255 }).notNull(),
+    customerAddress: varchar('customer_address', { length: 500 }),
+    customerPhone: varchar('customer_phone', { length: 50 }),
+    issueDate: date('issue_date').notNull(),
+    dueDate: date('due_date'),
+    issuedBy: uuid('issued_by').references(() => users.id),
+    cancelledAt: timestamp('cancelled_at'),
+    // Set when the order total changed after issue and this invoice took over
+    replacesInvoiceId: uuid('replaces_invoice_id').references((): AnyPgColumn => invoices.id),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+    uniqueTenantInvoiceNumber: unique('unique_tenant_invoice_number').on(table.tenantId, table.sequenceNumber),
+}));
+
+export const invoiceLines = pgTable('invoice_lines', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    invoiceId: uuid('invoice_id').references(() => invoices.id, { onDelete: 'cascade' }).notNull(),
+    orderItemId: uuid('order_item_id').references(() => orderItems.id),
+    productId: uuid('product_id').references(() => products.id),
+    productName: varchar('product_name', { length: 255 }).notNull(),
+    sku: varchar('sku', { length: 100 }),
+    quantity: integer('quantity').notNull(),
+    unitPrice: decimal('unit_price', { precision: 15, scale: 2 }).notNull(),
+    discountAmount: decimal('discount_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).default('0').notNull(),
+    taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    lineTotal: decimal('line_total', { precision: 15, scale: 2 }).notNull(),
+});
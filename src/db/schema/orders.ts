@@ -1,8 +1,9 @@
 import { pgTable, uuid, varchar, text, timestamp, integer, decimal, date, pgEnum } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 import { customers, customerUsers } from './customers';
-import { products } from './products';
+import { products, productUnitEnum } from './products';
 import { discounts } from './discounts';
+import { warehouses, stockLots } from './stock';
 
 // ============================================================================
 // ENUMS
@@ -41,6 +42,7 @@ export const orders = pgTable('orders', {
     driverId: uuid('driver_id').references(() => users.id),
     createdByUserId: uuid('created_by_user_id').references(() => users.id),
     createdByCustomerId: uuid('created_by_customer_id').references(() => customerUsers.id),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id),
     status: orderStatusEnum('status').default('pending'),
     paymentStatus: paymentStatusEnum('payment_status').default('unpaid'),
     subtotalAmount: decimal('subtotal_amount', { precision: 15, scale: 2 }).notNull(),
@@ -67,8 +69,13 @@ export const orderItems = pgTable('order_items', {
     id: uuid('id').primaryKey().defaultRandom(),
     orderId: uuid('order_id').references(() => orders.id).notNull(),
     productId: uuid('product_id').references(() => products.id).notNull(),
+    // Per base unit; all quantities below are in the base unit too
     unitPrice: decimal('unit_price', { precision: 15, scale: 2 }).notNull(),
     qtyOrdered: integer('qty_ordered').notNull(),
+    // How the line was entered (e.g. 2 cases of 12); null unit = the base unit
+    unit: productUnitEnum('unit'),
+    unitQty: integer('unit_qty'),
+    unitFactor: integer('unit_factor').notNull().default(1),
     qtyPicked: integer('qty_picked').default(0),
     qtyDelivered: integer('qty_delivered').default(0),
     qtyReturned: integer('qty_returned').default(0),
@@ -80,6 +87,15 @@ export const orderItems = pgTable('order_items', {
     updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// Which lots were picked for an order line (lot traceability / recalls)
+export const orderItemLots = pgTable('order_item_lots', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    orderItemId: uuid('order_item_id').references(() => orderItems.id, { onDelete: 'cascade' }).notNull(),
+    lotId: uuid('lot_id').references(() => stockLots.id).notNull(),
+    quantity: integer('quantity').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+});
+
 // ============================================================================
 // ORDER STATUS HISTORY
 // ============================================================================
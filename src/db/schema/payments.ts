@@ -1,9 +1,12 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, decimal } from 'drizzle-orm/pg-core';
+import { pgTable, type AnyPgColumn, uuid, varchar, text, timestamp, date, boolean, decimal, integer, pgEnum, unique } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 import { orders } from './orders';
 import { customers } from './customers';
 import { suppliers } from './products';
-import { purchaseOrders } from './procurement';
+import { purchaseOrders, supplierBills } from './procurement';
+import { returns } from './returns';
+import { invoices } from './invoices';
+import { glAccounts } from './accounting';
 
 // ============================================================================
 // PAYMENT METHODS
@@ -14,6 +17,10 @@ export const paymentMethods = pgTable('payment_methods', {
     tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
     name: varchar('name', { length: 100 }).notNull(),
     isActive: boolean('is_active').default(true),
+    // Money taken this way is physically held by the collector until handover
+    isCash: boolean('is_cash').default(false).notNull(),
+    // Where money taken this way is posted; the cash account when unset
+    glAccountId: uuid('gl_account_id').references(() => glAccounts.id),
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
 });
@@ -33,11 +40,107 @@ export const payments = pgTable('payments', {
     collectedBy: uuid('collected_by').references(() => users.id),
     referenceNumber: varchar('reference_number', { length: 100 }),
     notes: text('notes'),
+    // Set on a gateway payment that was cancelled after it was performed;
+    // the reversal is a negative payment pointing back at it
+    reversedAt: timestamp('reversed_at'),
+    reversalOfId: uuid('reversal_of_id').references((): AnyPgColumn => payments.id),
     collectedAt: timestamp('collected_at').defaultNow(),
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// ============================================================================
+// CREDIT NOTES (refunds for processed returns)
+// ============================================================================
+
+export const creditNoteStatusEnum = pgEnum('credit_note_status', [
+    'pending_approval', // Over the tenant's approval limit; no number yet
+    'issued',
+    'rejected'
+]);
+
+export const creditNoteSettlementEnum = pgEnum('credit_note_settlement', [
+    'credit',      // Lowers the customer's balance; allocatable to orders
+    'cash_refund'  // Paid back through a negative payment
+]);
+
+export const creditNotes = pgTable('credit_notes', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    // Assigned on issue, from the tenant's invoice counter row
+    creditNoteNumber: varchar('credit_note_number', { length: 50 }),
+    sequenceNumber: integer('sequence_number'),
+    returnId: uuid('return_id').references(() => returns.id).notNull().unique(),
+    orderId: uuid('order_id').references(() => orders.id).notNull(),
+    invoiceId: uuid('invoice_id').references(() => invoices.id),
+    customerId: uuid('customer_id').references(() => customers.id).notNull(),
+    status: creditNoteStatusEnum('status').default('issued').notNull(),
+    settlement: creditNoteSettlementEnum('settlement').default('credit').notNull(),
+    currency: varchar('currency', { length: 3 }).notNull(),
+    // Tax of the original line, reversed at its rate
+    subtotalAmount: decimal('subtotal_amount', { precision: 15, scale: 2 }).notNull(),
+    taxRate: decimal('tax_rate', { precision: 5, scale: 2 }).default('0').notNull(),
+    taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull(),
+    paymentMethodId: uuid('payment_method_id').references(() => paymentMethods.id),
+    refundPaymentId: uuid('refund_payment_id').references(() => payments.id),
+    notes: text('notes'),
+    issueDate: date('issue_date'),
+    createdBy: uuid('created_by').references(() => users.id),
+    approvedBy: uuid('approved_by').references(() => users.id),
+    approvedAt: timestamp('approved_at'),
+    rejectionReason: text('rejection_reason'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueTenantCreditNoteNumber: unique('unique_tenant_credit_note_number').on(table.tenantId, table.sequenceNumber),
+}));
+
+// ============================================================================
+// PAYMENT ALLOCATIONS (which orders a payment or credit note settles)
+// ============================================================================
+
+export const paymentAllocations = pgTable('payment_allocations', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    // Exactly one of paymentId / creditNoteId is set
+    paymentId: uuid('payment_id').references(() => payments.id),
+    creditNoteId: uuid('credit_note_id').references(() => creditNotes.id),
+    orderId: uuid('order_id').references(() => orders.id).notNull(),
+    amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+});
+
+// ============================================================================
+// CUSTOMER LEDGER (accounts receivable sub-ledger)
+// ============================================================================
+
+export const customerLedgerEntryTypeEnum = pgEnum('customer_ledger_entry_type', [
+    'delivery',    // Debit: goods delivered
+    'payment',     // Credit
+    'return',      // Credit: refund for goods returned after delivery
+    'credit_note', // Credit
+    'adjustment'
+]);
+
+export const customerLedgerEntries = pgTable('customer_ledger_entries', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    customerId: uuid('customer_id').references(() => customers.id).notNull(),
+    type: customerLedgerEntryTypeEnum('type').notNull(),
+    debit: decimal('debit', { precision: 15, scale: 2 }).default('0').notNull(),
+    credit: decimal('credit', { precision: 15, scale: 2 }).default('0').notNull(),
+    orderId: uuid('order_id').references(() => orders.id),
+    paymentId: uuid('payment_id').references(() => payments.id),
+    returnId: uuid('return_id').references(() => returns.id),
+    creditNoteId: uuid('credit_note_id').references(() => creditNotes.id),
+    description: varchar('description', { length: 255 }),
+    entryDate: timestamp('entry_date').notNull(),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+});
+
 // ============================================================================
 // SUPPLIER PAYMENTS
 // ============================================================================
@@ -50,6 +153,9 @@ export const supplierPayments = pgTable('supplier_payments', {
     supplierId: uuid('supplier_id').references(() => suppliers.id).notNull(),
     paymentMethodId: uuid('payment_method_id').references(() => paymentMethods.id).notNull(),
     amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
+    // Rate to the base currency on the payment date
+    currency: varchar('currency', { length: 3 }).notNull(),
+    exchangeRate: decimal('exchange_rate', { precision: 20, scale: 10 }).default('1').notNull(),
     paidBy: uuid('paid_by').references(() => users.id),
     referenceNumber: varchar('reference_number', { length: 100 }),
     notes: text('notes'),
@@ -57,3 +163,19 @@ export const supplierPayments = pgTable('supplier_payments', {
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
 });
+
+// ============================================================================
+// SUPPLIER BILL ALLOCATIONS (which bills a supplier payment settles)
+// ============================================================================
+
+export const supplierBillAllocations = pgTable('supplier_bill_allocations', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    supplierPaymentId: uuid('supplier_payment_id').references(() => supplierPayments.id).notNull(),
+    billId: uuid('bill_id').references(() => supplierBills.id).notNull(),
+    amount: decimal('amount', { precision: 15, scale: 2 }).notNull(),
+    // Realized in base currency: (bill rate - payment rate) x amount, positive is a gain
+    fxGainLoss: decimal('fx_gain_loss', { precision: 15, scale: 2 }).default('0').notNull(),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+});
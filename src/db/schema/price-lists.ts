@@ -0,0 +1,68 @@
+import { pgTable, uuid, varchar, text, timestamp, date, boolean, decimal, pgEnum, unique } from 'drizzle-orm/pg-core';
+import { tenants, users } from './core';
+import { products } from './products';
+
+// ============================================================================
+// ENUMS
+// ============================================================================
+
+export const priceListScopeTypeEnum = pgEnum('price_list_scope_type', [
+    'customer',
+    'territory',
+    'customer_tier'
+]);
+
+// ============================================================================
+// PRICE LISTS
+// ============================================================================
+
+// Named prices (wholesale, HoReCa, a region) replacing products.price for the customers they are assigned to
+export const priceLists = pgTable('price_lists', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    name: varchar('name', { length: 100 }).notNull(),
+    description: text('description'),
+    // Prices are in this currency; the tenant's base currency by default
+    currency: varchar('currency', { length: 3 }).notNull(),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueTenantName: unique('unique_price_list_name').on(table.tenantId, table.name),
+}));
+
+// ============================================================================
+// PRICE LIST ASSIGNMENTS
+// ============================================================================
+
+// A customer, territory or tier has at most one price list
+export const priceListAssignments = pgTable('price_list_assignments', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    priceListId: uuid('price_list_id').references(() => priceLists.id, { onDelete: 'cascade' }).notNull(),
+    scopeType: priceListScopeTypeEnum('scope_type').notNull(),
+    scopeId: uuid('scope_id').notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+    uniqueScope: unique('unique_price_list_scope').on(table.tenantId, table.scopeType, table.scopeId),
+}));
+
+// ============================================================================
+// PRICE LIST ITEMS
+// ============================================================================
+
+// A product's price from validFrom (tenant-local date) until validTo, or until
+// a later entry starts; once a dated entry ends the earlier one applies again
+export const priceListItems = pgTable('price_list_items', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    priceListId: uuid('price_list_id').references(() => priceLists.id, { onDelete: 'cascade' }).notNull(),
+    productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }).notNull(),
+    price: decimal('price', { precision: 15, scale: 2 }).notNull(),
+    validFrom: date('valid_from').notNull(),
+    validTo: date('valid_to'),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueProductStart: unique('unique_price_list_item_start').on(table.priceListId, table.productId, table.validFrom),
+}));
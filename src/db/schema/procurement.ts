@@ -1,6 +1,7 @@
-import { pgTable, uuid, varchar, text, timestamp, integer, decimal, date, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, integer, decimal, date, pgEnum, unique } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
-import { suppliers, products } from './products';
+import { suppliers, products, productUnitEnum } from './products';
+import { warehouses } from './stock';
 
 // ============================================================================
 // ENUMS
@@ -16,6 +17,12 @@ export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', [
     'cancelled'
 ]);
 
+export const supplierBillStatusEnum = pgEnum('supplier_bill_status', [
+    'open',
+    'partial',
+    'paid'
+]);
+
 // ============================================================================
 // PURCHASE ORDERS
 // ============================================================================
@@ -26,7 +33,10 @@ export const purchaseOrders = pgTable('purchase_orders', {
     poNumber: varchar('po_number', { length: 50 }).unique().notNull(),
     supplierId: uuid('supplier_id').references(() => suppliers.id).notNull(),
     createdBy: uuid('created_by').references(() => users.id).notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id),
     status: purchaseOrderStatusEnum('status').default('draft'),
+    // Amounts are in this currency; the tenant's base currency by default
+    currency: varchar('currency', { length: 3 }).notNull(),
     subtotalAmount: decimal('subtotal_amount', { precision: 15, scale: 2 }).notNull(),
     taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0'),
     totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull(),
@@ -46,9 +56,17 @@ export const purchaseOrderItems = pgTable('purchase_order_items', {
     id: uuid('id').primaryKey().defaultRandom(),
     purchaseOrderId: uuid('purchase_order_id').references(() => purchaseOrders.id).notNull(),
     productId: uuid('product_id').references(() => products.id).notNull(),
+    // Quantities and the unit price are per base unit
     qtyOrdered: integer('qty_ordered').notNull(),
     qtyReceived: integer('qty_received').default(0),
-    unitPrice: decimal('unit_price', { precision: 15, scale: 2 }).notNull(),
+    // Received units already on a supplier bill
+    qtyBilled: integer('qty_billed').default(0).notNull(),
+    // A case price divided by its pack size needs more than two decimals
+    unitPrice: decimal('unit_price', { precision: 15, scale: 4 }).notNull(),
+    // How the line was ordered (e.g. 10 cases of 12); null unit = the base unit
+    unit: productUnitEnum('unit'),
+    unitQty: integer('unit_qty'),
+    unitFactor: integer('unit_factor').notNull().default(1),
     taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0'),
     lineTotal: decimal('line_total', { precision: 15, scale: 2 }).notNull(),
     lastScannedAt: timestamp('last_scanned_at'),
@@ -56,3 +74,40 @@ export const purchaseOrderItems = pgTable('purchase_order_items', {
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
 });
+
+// ============================================================================
+// SUPPLIER BILLS (payables created from received quantities)
+// ============================================================================
+
+export const supplierBills = pgTable('supplier_bills', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    billNumber: varchar('bill_number', { length: 50 }).notNull(),
+    supplierId: uuid('supplier_id').references(() => suppliers.id).notNull(),
+    purchaseOrderId: uuid('purchase_order_id').references(() => purchaseOrders.id).notNull(),
+    status: supplierBillStatusEnum('status').default('open').notNull(),
+    // The PO's currency, with its rate to the base currency on the bill date
+    currency: varchar('currency', { length: 3 }).notNull(),
+    exchangeRate: decimal('exchange_rate', { precision: 20, scale: 10 }).default('1').notNull(),
+    subtotalAmount: decimal('subtotal_amount', { precision: 15, scale: 2 }).notNull(),
+    taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    totalAmount: decimal('total_amount', { precision: 15, scale: 2 }).notNull(),
+    paidAmount: decimal('paid_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    billDate: date('bill_date').notNull(),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueBillNumber: unique('unique_bill_number').on(table.tenantId, table.billNumber),
+}));
+
+export const supplierBillLines = pgTable('supplier_bill_lines', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    billId: uuid('bill_id').references(() => supplierBills.id, { onDelete: 'cascade' }).notNull(),
+    purchaseOrderItemId: uuid('purchase_order_item_id').references(() => purchaseOrderItems.id).notNull(),
+    productId: uuid('product_id').references(() => products.id).notNull(),
+    quantity: integer('quantity').notNull(),
+    unitPrice: decimal('unit_price', { precision: 15, scale: 2 }).notNull(),
+    taxAmount: decimal('tax_amount', { precision: 15, scale: 2 }).default('0').notNull(),
+    lineTotal: decimal('line_total', { precision: 15, scale: 2 }).notNull(),
+});
@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, pgEnum, primaryKey } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, decimal, pgEnum, primaryKey, unique, jsonb } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 
 // ============================================================================
@@ -87,6 +87,30 @@ export const suppliers = pgTable('suppliers', {
     updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// ============================================================================
+// PRODUCT FAMILIES (parent of variants)
+// ============================================================================
+
+// A parent product ("Cola") whose variants are ordinary products told apart by
+// attribute values ("size": "0.5L"). Each variant keeps its own SKU, barcode,
+// price and stock; the family only groups them in catalogs.
+export const productFamilies = pgTable('product_families', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    name: varchar('name', { length: 255 }).notNull(),
+    description: text('description'),
+    subcategoryId: uuid('subcategory_id').references(() => subcategories.id),
+    brandId: uuid('brand_id').references(() => brands.id),
+    imageUrl: varchar('image_url', { length: 500 }),
+    // Attribute names in picker order, e.g. ["size", "flavour"]
+    attributes: jsonb('attributes').$type<string[]>().notNull().default([]),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueName: unique('unique_product_family_name').on(table.tenantId, table.name),
+}));
+
 // ============================================================================
 // PRODUCTS
 // ============================================================================
@@ -109,11 +133,39 @@ export const products = pgTable('products', {
     taxRate: decimal('tax_rate', { precision: 5, scale: 2 }),
     barcode: varchar('barcode', { length: 100 }),
     imageUrl: varchar('image_url', { length: 500 }),
+    // Per-unit shipping dimensions, used by the trip planner for vehicle capacity
+    weightKg: decimal('weight_kg', { precision: 10, scale: 3 }),
+    volumeM3: decimal('volume_m3', { precision: 10, scale: 6 }),
+    // Set on variants only: the family and a value for each of its attributes
+    familyId: uuid('family_id').references(() => productFamilies.id, { onDelete: 'set null' }),
+    variantAttributes: jsonb('variant_attributes').$type<Record<string, string>>(),
     isActive: boolean('is_active').default(true),
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
 });
 
+// ============================================================================
+// PRODUCT UNITS (alternate pack sizes)
+// ============================================================================
+
+// A pack of the product's base unit (e.g. a case of 12 pieces) with its own barcode.
+// Stock, reservations and movements always stay in the base unit.
+export const productUnits = pgTable('product_units', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    productId: uuid('product_id').references(() => products.id, { onDelete: 'cascade' }).notNull(),
+    unit: productUnitEnum('unit').notNull(),
+    // Base units in one of this unit
+    factor: integer('factor').notNull(),
+    barcode: varchar('barcode', { length: 100 }),
+    isActive: boolean('is_active').notNull().default(true),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueProductUnit: unique('unique_product_unit').on(table.productId, table.unit),
+    uniqueBarcode: unique('unique_product_unit_barcode').on(table.tenantId, table.barcode),
+}));
+
 // ============================================================================
 // MASTER PRODUCTS (Global Catalog)
 // ============================================================================
@@ -126,6 +178,9 @@ export const masterProducts = pgTable('master_products', {
     description: text('description'),
     category: varchar('category', { length: 100 }), // Text-based category for flexible matching
     imageUrl: varchar('image_url', { length: 500 }),
+    // Variants share a family name; imports link them to the tenant's family of that name
+    familyName: varchar('family_name', { length: 255 }),
+    variantAttributes: jsonb('variant_attributes').$type<Record<string, string>>(),
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
 });
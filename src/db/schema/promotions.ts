@@ -0,0 +1,50 @@
+import { pgTable, uuid, varchar, timestamp, boolean, integer, decimal, unique } from 'drizzle-orm/pg-core';
+import { tenants, users } from './core';
+import { customers } from './customers';
+import { discounts } from './discounts';
+import { orders } from './orders';
+
+// ============================================================================
+// PROMO CODES
+// ============================================================================
+
+// A discount with promo codes only applies to orders that enter one of them
+export const promoCodes = pgTable('promo_codes', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    discountId: uuid('discount_id').references(() => discounts.id, { onDelete: 'cascade' }).notNull(),
+    // Stored upper-case; matched case-insensitively
+    code: varchar('code', { length: 50 }).notNull(),
+    // Codes generated together share a batch
+    batchId: uuid('batch_id'),
+    // Null = unlimited
+    maxRedemptions: integer('max_redemptions'),
+    maxPerCustomer: integer('max_per_customer'),
+    firstOrderOnly: boolean('first_order_only').notNull().default(false),
+    isActive: boolean('is_active').notNull().default(true),
+    createdBy: uuid('created_by').references(() => users.id),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueTenantCode: unique('unique_promo_code').on(table.tenantId, table.code),
+}));
+
+// ============================================================================
+// PROMO CODE REDEMPTIONS
+// ============================================================================
+
+// One per order; redemptions of cancelled orders do not count toward limits
+export const promoCodeRedemptions = pgTable('promo_code_redemptions', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id, { onDelete: 'cascade' }).notNull(),
+    promoCodeId: uuid('promo_code_id').references(() => promoCodes.id, { onDelete: 'cascade' }).notNull(),
+    discountId: uuid('discount_id').references(() => discounts.id, { onDelete: 'cascade' }).notNull(),
+    customerId: uuid('customer_id').references(() => customers.id).notNull(),
+    orderId: uuid('order_id').references(() => orders.id, { onDelete: 'cascade' }).notNull(),
+    // What the code's discount gave on the order
+    discountAmount: decimal('discount_amount', { precision: 15, scale: 2 }).notNull(),
+    orderTotal: decimal('order_total', { precision: 15, scale: 2 }).notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+}, (table) => ({
+    uniqueOrder: unique('unique_promo_redemption_order').on(table.orderId),
+}));
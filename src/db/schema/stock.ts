@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, timestamp, integer, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, integer, boolean, date, decimal, jsonb, pgEnum, unique } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 import { products } from './products';
 
@@ -20,7 +20,8 @@ export const referenceTypeEnum = pgEnum('reference_type', [
     'order',
     'return',
     'adjustment',
-    'initial'
+    'initial',
+    'transfer'
 ]);
 
 export const adjustmentTypeEnum = pgEnum('adjustment_type', [
@@ -31,6 +32,124 @@ export const adjustmentTypeEnum = pgEnum('adjustment_type', [
     'correction'
 ]);
 
+export const transferStatusEnum = pgEnum('transfer_status', [
+    'draft',
+    'shipped',
+    'received',
+    'cancelled'
+]);
+
+// ============================================================================
+// WAREHOUSES
+// ============================================================================
+
+export const warehouses = pgTable('warehouses', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    name: varchar('name', { length: 255 }).notNull(),
+    code: varchar('code', { length: 50 }).notNull(),
+    address: text('address'),
+    // Depot location: start and end point of planned delivery routes
+    latitude: decimal('latitude', { precision: 10, scale: 8 }),
+    longitude: decimal('longitude', { precision: 11, scale: 8 }),
+    isDefault: boolean('is_default').default(false),
+    isActive: boolean('is_active').default(true),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueWarehouseCode: unique('unique_warehouse_code').on(table.tenantId, table.code),
+}));
+
+// Shelf locations inside a warehouse: zone -> aisle -> bin. pickSequence lets a
+// warehouse override the computed walking order for awkward layouts.
+export const warehouseBins = pgTable('warehouse_bins', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id).notNull(),
+    code: varchar('code', { length: 50 }).notNull(), // e.g. A-03-02
+    barcode: varchar('barcode', { length: 100 }),
+    zone: varchar('zone', { length: 50 }),
+    aisle: varchar('aisle', { length: 50 }),
+    pickSequence: integer('pick_sequence'),
+    isActive: boolean('is_active').default(true),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueWarehouseBinCode: unique('unique_warehouse_bin_code').on(table.warehouseId, table.code),
+}));
+
+// Per-location balances. products.stockQuantity / reservedQuantity remain the
+// tenant-wide totals and are kept in sync by StockService.
+export const warehouseStock = pgTable('warehouse_stock', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id).notNull(),
+    productId: uuid('product_id').references(() => products.id).notNull(),
+    quantity: integer('quantity').default(0).notNull(),
+    reservedQuantity: integer('reserved_quantity').default(0).notNull(),
+    defaultBinId: uuid('default_bin_id').references(() => warehouseBins.id), // where the product lives in this warehouse
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueWarehouseProduct: unique('unique_warehouse_product').on(table.warehouseId, table.productId),
+}));
+
+// ============================================================================
+// STOCK LOTS
+// ============================================================================
+
+// Lot-level balances for products received with a lot number / expiry date.
+// The sum of a product's lots never exceeds its warehouse_stock quantity; the
+// difference is untracked stock (opening balances, returns, adjustments).
+export const stockLots = pgTable('stock_lots', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id).notNull(),
+    productId: uuid('product_id').references(() => products.id).notNull(),
+    lotNumber: varchar('lot_number', { length: 100 }).notNull(),
+    expiryDate: date('expiry_date'),
+    quantity: integer('quantity').default(0).notNull(),
+    purchaseOrderId: uuid('purchase_order_id'),
+    receivedAt: timestamp('received_at').defaultNow(),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueWarehouseProductLot: unique('unique_warehouse_product_lot').on(table.warehouseId, table.productId, table.lotNumber),
+}));
+
+// ============================================================================
+// STOCK TRANSFERS
+// ============================================================================
+
+export const stockTransfers = pgTable('stock_transfers', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    transferNumber: varchar('transfer_number', { length: 50 }).notNull(),
+    fromWarehouseId: uuid('from_warehouse_id').references(() => warehouses.id).notNull(),
+    toWarehouseId: uuid('to_warehouse_id').references(() => warehouses.id).notNull(),
+    status: transferStatusEnum('status').default('draft').notNull(),
+    notes: text('notes'),
+    createdBy: uuid('created_by').references(() => users.id),
+    shippedBy: uuid('shipped_by').references(() => users.id),
+    shippedAt: timestamp('shipped_at'),
+    receivedBy: uuid('received_by').references(() => users.id),
+    receivedAt: timestamp('received_at'),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+}, (table) => ({
+    uniqueTransferNumber: unique('unique_transfer_number').on(table.tenantId, table.transferNumber),
+}));
+
+export const stockTransferItems = pgTable('stock_transfer_items', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    transferId: uuid('transfer_id').references(() => stockTransfers.id, { onDelete: 'cascade' }).notNull(),
+    productId: uuid('product_id').references(() => products.id).notNull(),
+    quantity: integer('quantity').notNull(),
+    qtyReceived: integer('qty_received').default(0),
+    lots: jsonb('lots').$type<{ lotNumber: string; expiryDate: string | null; quantity: number }[]>(), // lots taken at ship time
+    createdAt: timestamp('created_at').defaultNow(),
+});
+
 // ============================================================================
 // STOCK MOVEMENTS
 // ============================================================================
@@ -39,6 +158,8 @@ export const stockMovements = pgTable('stock_movements', {
     id: uuid('id').primaryKey().defaultRandom(),
     tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
     productId: uuid('product_id').references(() => products.id).notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id),
+    lotId: uuid('lot_id').references(() => stockLots.id),
     movementType: movementTypeEnum('movement_type').notNull(),
     quantity: integer('quantity').notNull(),
     quantityBefore: integer('quantity_before').notNull(),
@@ -60,6 +181,7 @@ export const stockAdjustments = pgTable('stock_adjustments', {
     tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
     adjustmentNumber: varchar('adjustment_number', { length: 50 }).unique().notNull(),
     productId: uuid('product_id').references(() => products.id).notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id),
     adjustmentType: adjustmentTypeEnum('adjustment_type').notNull(),
     qtyBefore: integer('qty_before').notNull(),
     qtyAfter: integer('qty_after').notNull(),
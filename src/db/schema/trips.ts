@@ -1,6 +1,7 @@
-import { pgTable, uuid, varchar, text, timestamp, boolean, integer, date, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, boolean, integer, date, decimal, jsonb, pgEnum } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 import { orders } from './orders';
+import { warehouses } from './stock';
 
 // ============================================================================
 // ENUMS
@@ -23,7 +24,9 @@ export const vehicles = pgTable('vehicles', {
     tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
     name: varchar('name', { length: 100 }).notNull(),
     plateNumber: varchar('plate_number', { length: 50 }),
-    capacity: integer('capacity'),
+    capacity: integer('capacity'), // legacy free-form capacity, read as kg when maxWeightKg is not set
+    maxWeightKg: decimal('max_weight_kg', { precision: 10, scale: 2 }),
+    maxVolumeM3: decimal('max_volume_m3', { precision: 10, scale: 3 }),
     isActive: boolean('is_active').default(true),
     createdAt: timestamp('created_at').defaultNow(),
     updatedAt: timestamp('updated_at').defaultNow(),
@@ -39,6 +42,7 @@ export const trips = pgTable('trips', {
     tripNumber: varchar('trip_number', { length: 50 }).unique().notNull(),
     driverId: uuid('driver_id').references(() => users.id).notNull(),
     vehicleId: uuid('vehicle_id').references(() => vehicles.id),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id),
     status: tripStatusEnum('status').default('planned'),
     plannedDate: date('planned_date').notNull(),
     startedAt: timestamp('started_at'),
@@ -62,3 +66,24 @@ export const tripOrders = pgTable('trip_orders', {
     deliveryNotes: text('delivery_notes'),
     createdAt: timestamp('created_at').defaultNow(),
 });
+
+// ============================================================================
+// DELIVERY PROOFS (signature, photos and GPS at handover, one per trip stop)
+// ============================================================================
+
+export const deliveryProofs = pgTable('delivery_proofs', {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+    tripOrderId: uuid('trip_order_id').references(() => tripOrders.id).unique().notNull(),
+    orderId: uuid('order_id').references(() => orders.id).notNull(),
+    recipientName: varchar('recipient_name', { length: 255 }).notNull(),
+    signatureUrl: varchar('signature_url', { length: 500 }),
+    photoUrls: jsonb('photo_urls').$type<string[]>().default([]),
+    latitude: decimal('latitude', { precision: 10, scale: 8 }),
+    longitude: decimal('longitude', { precision: 11, scale: 8 }),
+    accuracy: decimal('accuracy', { precision: 8, scale: 2 }), // GPS accuracy in meters
+    capturedAt: timestamp('captured_at').notNull(), // device time at handover
+    capturedByUserId: uuid('captured_by_user_id').references(() => users.id).notNull(),
+    createdAt: timestamp('created_at').defaultNow(),
+    updatedAt: timestamp('updated_at').defaultNow(),
+});
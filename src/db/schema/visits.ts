@@ -1,4 +1,4 @@
-import { pgTable, uuid, text, timestamp, date, time, decimal, pgEnum, json } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, text, timestamp, date, time, decimal, integer, pgEnum, json } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 import { customers } from './customers';
 import { orders } from './orders';
@@ -45,6 +45,7 @@ export const salesVisits = pgTable('sales_visits', {
     // Scheduling
     plannedDate: date('planned_date').notNull(),
     plannedTime: time('planned_time'),
+    routeSequence: integer('route_sequence'), // Saved order from route optimization
 
     // Execution tracking
     startedAt: timestamp('started_at'),
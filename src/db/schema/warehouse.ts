@@ -1,6 +1,7 @@
-import { pgTable, uuid, varchar, text, timestamp, integer, json, pgEnum } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, integer, boolean, decimal, json, pgEnum } from 'drizzle-orm/pg-core';
 import { tenants, users } from './core';
 import { products } from './products';
+import { warehouses, warehouseBins } from './stock';
 
 // ============================================================================
 // ENUMS
@@ -17,10 +18,18 @@ export const scanActionEnum = pgEnum('scan_action', [
 
 export const stockCountStatusEnum = pgEnum('stock_count_status', [
     'in_progress',
+    'submitted', // Counting finished, waiting for supervisor approval
     'completed',
     'cancelled'
 ]);
 
+export const stockCountScopeEnum = pgEnum('stock_count_scope', [
+    'full',
+    'category',
+    'bin',
+    'cycle' // ABC-driven cycle count
+]);
+
 export const packingStatusEnum = pgEnum('packing_status', [
     'started',
     'in_progress',
@@ -53,8 +62,17 @@ export const stockCounts = pgTable('stock_counts', {
     tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
     name: varchar('name', { length: 255 }).notNull(),
     status: stockCountStatusEnum('status').default('in_progress').notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id),
+    scope: stockCountScopeEnum('scope').default('full').notNull(),
+    scopeCategoryId: uuid('scope_category_id'),
+    scopeBinId: uuid('scope_bin_id').references(() => warehouseBins.id),
+    scopeAbcClass: varchar('scope_abc_class', { length: 1 }), // A, B or C
+    isBlind: boolean('is_blind').default(true).notNull(), // Counters don't see expected qty
     createdByUserId: uuid('created_by_user_id').references(() => users.id).notNull(),
     startedAt: timestamp('started_at').defaultNow().notNull(),
+    submittedAt: timestamp('submitted_at'),
+    submittedByUserId: uuid('submitted_by_user_id').references(() => users.id),
+    approvedByUserId: uuid('approved_by_user_id').references(() => users.id),
     completedAt: timestamp('completed_at'),
     notes: text('notes'),
 });
@@ -63,11 +81,13 @@ export const stockCountItems = pgTable('stock_count_items', {
     id: uuid('id').primaryKey().defaultRandom(),
     countId: uuid('count_id').references(() => stockCounts.id).notNull(),
     productId: uuid('product_id').references(() => products.id).notNull(),
+    binId: uuid('bin_id').references(() => warehouseBins.id), // Where the item was counted
     expectedQty: integer('expected_qty').notNull(), // From system
     countedQty: integer('counted_qty'), // Actual counted  
     variance: integer('variance'), // countedQty - expectedQty
     scannedAt: timestamp('scanned_at'),
     countedByUserId: uuid('counted_by_user_id').references(() => users.id),
+    adjustmentId: uuid('adjustment_id'), // stock_adjustments row posted on approval
     notes: text('notes'),
 });
 
@@ -85,6 +105,9 @@ export const packingSessions = pgTable('packing_sessions', {
     completedAt: timestamp('completed_at'),
     itemsScanned: integer('items_scanned').default(0),
     totalItems: integer('total_items').notNull(),
+    warehouseId: uuid('warehouse_id').references(() => warehouses.id),
+    packageCount: integer('package_count'), // Boxes/bags the order was packed into
+    weightKg: decimal('weight_kg', { precision: 10, scale: 3 }), // Total packed weight
     notes: text('notes'),
 });
 
@@ -92,6 +115,7 @@ export const packingItems = pgTable('packing_items', {
     id: uuid('id').primaryKey().defaultRandom(),
     sessionId: uuid('session_id').references(() => packingSessions.id).notNull(),
     productId: uuid('product_id').references(() => products.id).notNull(),
+    binId: uuid('bin_id').references(() => warehouseBins.id), // Bin the item was picked from
     qtyOrdered: integer('qty_ordered').notNull(),
     qtyScanned: integer('qty_scanned').default(0),
     scannedAt: timestamp('scanned_at'),
@@ -3,4 +3,34 @@ export class InvalidStatusTransitionError extends Error {
     super(message);
     this.name = 'InvalidStatusTransitionError';
   }
-}
\ No newline at end of file
+}
+
+/**
+ * A promo code that cannot be used; `code` is the customer-facing error code.
+ */
+export class PromoCodeError extends Error {
+  constructor(public readonly code: 'DISCOUNT_NOT_FOUND' | 'DISCOUNT_INACTIVE' | 'DISCOUNT_EXPIRED' | 'DISCOUNT_ALREADY_USED' | 'PROMO_CODE_EXHAUSTED' | 'PROMO_CODE_FIRST_ORDER_ONLY', message: string) {
+    super(message);
+    this.name = 'PromoCodeError';
+  }
+}
+
+/**
+ * A payment allocation that does not fit the open orders or bills, or the payment.
+ */
+export class AllocationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AllocationError';
+  }
+}
+
+/**
+ * A line given in a unit the product has no pack size for.
+ */
+export class UnitNotSoldError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnitNotSoldError';
+  }
+}
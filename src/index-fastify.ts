@@ -20,6 +20,7 @@ import { paymentRoutes } from './routes-fastify/payments';
 import { userRoutes } from './routes-fastify/users';
 import { deliveryRoutes } from './routes-fastify/delivery';
 import { discountRoutes } from './routes-fastify/discounts';
+import { priceListRoutes } from './routes-fastify/price-lists';
 import { returnRoutes } from './routes-fastify/returns';
 import { reportRoutes } from './routes-fastify/reports';
 import { notificationRoutes } from './routes-fastify/notifications';
@@ -36,6 +37,13 @@ import { gpsTrackingRoutes } from './routes-fastify/gps-tracking';
 import userActivityRoutes from './routes-fastify/user-activity';
 import { supervisorRoutes } from './routes-fastify/supervisor';
 import { warehouseRoutes } from './routes-fastify/warehouse';
+import { warehousesRoutes } from './routes-fastify/warehouses';
+import { stockCountRoutes } from './routes-fastify/stock-counts';
+import { packingRoutes } from './routes-fastify/packing';
+import { cashRoutes } from './routes-fastify/cash';
+import { invoiceRoutes } from './routes-fastify/invoices';
+import { creditNoteRoutes } from './routes-fastify/credit-notes';
+import { accountingRoutes } from './routes-fastify/accounting';
 import { batchOrderRoutes } from './routes-fastify/batch-orders';
 
 // Initialize Redis rate limiter (if REDIS_URL is set)
@@ -282,10 +290,15 @@ export const buildServer = async (): Promise<FastifyInstance> => {
         await api.register(visitRoutes, { prefix: '/visits' });
         await api.register(inventoryRoutes, { prefix: '/inventory' });
         await api.register(paymentRoutes, { prefix: '/payments' });
+        await api.register(cashRoutes, { prefix: '/cash' });
+        await api.register(invoiceRoutes, { prefix: '/invoices' });
+        await api.register(creditNoteRoutes, { prefix: '/credit-notes' });
+        await api.register(accountingRoutes, { prefix: '/accounting' });
         await api.register(userRoutes, { prefix: '/users' });
         await api.register((await import('./routes-fastify/user-telegram-link')).userTelegramLinkRoutes, { prefix: '/users' });
         await api.register(deliveryRoutes, { prefix: '/delivery' });
         await api.register(discountRoutes, { prefix: '/discounts' });
+        await api.register(priceListRoutes, { prefix: '/price-lists' });
         await api.register(returnRoutes, { prefix: '/returns' });
         await api.register(reportRoutes, { prefix: '/reports' });
         await api.register(notificationRoutes, { prefix: '/notifications' });
@@ -294,6 +307,9 @@ export const buildServer = async (): Promise<FastifyInstance> => {
         await api.register(procurementRoutes, { prefix: '/procurement' });
         await api.register(supervisorRoutes, { prefix: '/supervisor' });
         await api.register(warehouseRoutes, { prefix: '/warehouse' });
+        await api.register(warehousesRoutes, { prefix: '/warehouses' });
+        await api.register(stockCountRoutes, { prefix: '/stock-counts' });
+        await api.register(packingRoutes, { prefix: '/packing' });
         await api.register(uploadRoutes, { prefix: '/uploads' });
         await api.register(imageRoutes, { prefix: '/images' });
         await api.register(superRoutes, { prefix: '/super' });
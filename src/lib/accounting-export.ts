@@ -0,0 +1,161 @@
+/**
+ * Accounting Export Formats
+ *
+ * Writes the general ledger journal for accounting software:
+ * - 1C: CommerceML-style XML, one document per journal entry with its
+ *   postings as debit/credit account pairs (1C posts in pairs, so
+ *   multi-line entries are split)
+ * - Generic CSV: one row per journal line
+ */
+
+import type { JournalExportEntry } from '../services/general-ledger.service';
+
+// ============================================================================
+// 1C XML
+// ============================================================================
+
+// 1C business operation names per source document
+const OPERATIONS: Record<JournalExportEntry['sourceType'], string> = {
+    delivery: 'Реализация товаров',
+    payment: 'Оплата от покупателя',
+    supplier_payment: 'Оплата поставщику',
+    supplier_bill: 'Поступление товаров',
+    supplier_fx: 'Курсовая разница',
+    credit_note: 'Возврат товаров от покупателя',
+    return: 'Оприходование возвращённых товаров',
+    stock_adjustment: 'Корректировка остатков товаров',
+};
+
+interface Posting {
+    debitAccount: string;
+    creditAccount: string;
+    amount: number;
+    counterparty: string | null;
+}
+
+const escapeXml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const money = (value: number) => value.toFixed(2);
+
+/**
+ * Split an entry's lines into debit/credit pairs, matching amounts in order.
+ * Works in tiyin so the pairs add up exactly.
+ */
+export function toPostings(entry: JournalExportEntry): Posting[] {
+    const side = (pick: 'debit' | 'credit') => entry.lines
+        .filter(line => line[pick] > 0)
+        .map(line => ({ account: line.accountCode, left: Math.round(line[pick] * 100), counterparty: line.customerName ?? line.supplierName }));
+
+    const debits = side('debit');
+    const credits = side('credit');
+    const postings: Posting[] = [];
+
+    let d = 0;
+    let c = 0;
+    while (d < debits.length && c < credits.length) {
+        const amount = Math.min(debits[d].left, credits[c].left);
+        postings.push({
+            debitAccount: debits[d].account,
+            creditAccount: credits[c].account,
+            amount: amount / 100,
+            counterparty: debits[d].counterparty ?? credits[c].counterparty,
+        });
+        debits[d].left -= amount;
+        credits[c].left -= amount;
+        if (debits[d].left === 0) d++;
+        if (credits[c].left === 0) c++;
+    }
+
+    return postings;
+}
+
+export function journalTo1CXml(journal: JournalExportEntry[], meta: { tenantName: string; currency: string }): string {
+    const now = new Date().toISOString().slice(0, 19);
+
+    // Accounts used, for the chart section
+    const accounts = new Map<string, string>();
+    for (const entry of journal) {
+        for (const line of entry.lines) accounts.set(line.accountCode, line.accountName);
+    }
+
+    const out: string[] = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<КоммерческаяИнформация ВерсияСхемы="2.10" ДатаФормирования="${now}">`,
+        `  <Организация>${escapeXml(meta.tenantName)}</Организация>`,
+        '  <ПланСчетов>',
+    ];
+
+    for (const [code, name] of [...accounts].sort(([a], [b]) => a.localeCompare(b))) {
+        out.push('    <Счет>', `      <Код>${escapeXml(code)}</Код>`, `      <Наименование>${escapeXml(name)}</Наименование>`, '    </Счет>');
+    }
+    out.push('  </ПланСчетов>');
+
+    for (const entry of journal) {
+        const iso = entry.date.toISOString();
+        out.push(
+            '  <Документ>',
+            `    <Ид>${entry.id}</Ид>`,
+            `    <Номер>${escapeXml(entry.reference ?? '')}</Номер>`,
+            `    <Дата>${iso.slice(0, 10)}</Дата>`,
+            `    <Время>${iso.slice(11, 19)}</Время>`,
+            `    <ХозОперация>${OPERATIONS[entry.sourceType]}</ХозОперация>`,
+            `    <Валюта>${escapeXml(meta.currency)}</Валюта>`,
+            `    <Сумма>${money(entry.totalAmount)}</Сумма>`,
+            `    <Комментарий>${escapeXml(entry.description ?? '')}</Комментарий>`,
+            '    <Проводки>'
+        );
+        for (const posting of toPostings(entry)) {
+            out.push(
+                '      <Проводка>',
+                `        <СчетДт>${escapeXml(posting.debitAccount)}</СчетДт>`,
+                `        <СчетКт>${escapeXml(posting.creditAccount)}</СчетКт>`,
+                `        <Сумма>${money(posting.amount)}</Сумма>`,
+                ...(posting.counterparty ? [`        <Контрагент>${escapeXml(posting.counterparty)}</Контрагент>`] : []),
+                '      </Проводка>'
+            );
+        }
+        out.push('    </Проводки>', '  </Документ>');
+    }
+
+    out.push('</КоммерческаяИнформация>');
+    return out.join('\n');
+}
+
+// ============================================================================
+// CSV JOURNAL
+// ============================================================================
+
+const csvValue = (value: string | number | null) => {
+    if (value === null) return '';
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function journalToCSV(journal: JournalExportEntry[]): string {
+    const rows = [
+        ['date', 'entry_id', 'reference', 'source', 'description', 'account_code', 'account_name', 'debit', 'credit', 'counterparty'].join(','),
+    ];
+
+    for (const entry of journal) {
+        for (const line of entry.lines) {
+            rows.push([
+                entry.date.toISOString(),
+                entry.id,
+                entry.reference,
+                entry.sourceType,
+                entry.description,
+                line.accountCode,
+                line.accountName,
+                money(line.debit),
+                money(line.credit),
+                line.customerName ?? line.supplierName,
+            ].map(csvValue).join(','));
+        }
+    }
+
+    return rows.join('\n') + '\n';
+}
@@ -0,0 +1,171 @@
+/**
+ * Delivery amounts - what a closed trip stop does to its order
+ *
+ * The calculations behind DeliveryService.completeStop. A short line keeps
+ * the delivered share of its amounts; the order's own discount and tax
+ * shrink in the same proportion as its lines, and every unit that left the
+ * warehouse but was not delivered comes back with its share of the order
+ * total as the refund.
+ */
+
+import type { StopOutcome, DeliveredLine } from '../services/delivery.service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DeliveryItem {
+    id: string;
+    qtyOrdered: number;
+    qtyPicked: number | null;
+    lineTotal: string | number;
+    discountAmount: string | number | null;
+    taxAmount: string | number | null;
+}
+
+export interface DeliveryOrder {
+    subtotalAmount: string | number;
+    discountAmount: string | number | null;
+    taxAmount: string | number | null;
+    totalAmount: string | number;
+    paidAmount: string | number | null;
+}
+
+export interface ShortLine {
+    itemId: string;
+    qtyDelivered: number;
+    /** Units that left the warehouse and come back */
+    qtyBack: number;
+    lineTotal: number;
+    discountAmount: number;
+    taxAmount: number;
+    /** The line's share of the order total that is not delivered */
+    refundAmount: number;
+    reason?: string;
+}
+
+export interface DeliveryAmounts {
+    shortLines: ShortLine[];
+    subtotalAmount: number;
+    discountAmount: number;
+    taxAmount: number;
+    totalAmount: number;
+    /** Value taken off the order for goods not delivered */
+    creditedAmount: number;
+    paidAmount: number;
+    paymentStatus: 'unpaid' | 'partial' | 'paid';
+    /** The unpaid part of the credit, off the customer's debt */
+    debtReduction: number;
+    /** The already paid part of the credit, to customer credit */
+    overpaid: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// CALCULATIONS
+// ============================================================================
+
+/**
+ * Goods that left the warehouse for this line
+ */
+export const shippedQty = (item: { qtyOrdered: number; qtyPicked: number | null }) =>
+    (item.qtyPicked ?? 0) > 0 ? item.qtyPicked! : item.qtyOrdered;
+
+/**
+ * Delivered quantity per short line, validated against what was shipped.
+ * Lines left out are delivered in full; a refused stop delivers nothing.
+ */
+export function resolveDelivered(
+    outcome: StopOutcome,
+    items: { id: string; qtyOrdered: number; qtyPicked: number | null }[],
+    lines: DeliveredLine[]
+) {
+    const delivered = new Map<string, { qtyDelivered: number; reason?: string }>();
+
+    if (outcome === 'refused') {
+        for (const item of items) delivered.set(item.id, { qtyDelivered: 0, reason: lines.find(l => l.orderItemId === item.id)?.reason });
+        return delivered;
+    }
+    if (outcome === 'delivered') return delivered;
+
+    for (const line of lines) {
+        const item = items.find(i => i.id === line.orderItemId);
+        if (!item) throw new Error('Order item not found');
+        if (delivered.has(item.id)) throw new Error('An order line appears more than once');
+        if (!Number.isInteger(line.qtyDelivered) || line.qtyDelivered < 0 || line.qtyDelivered > shippedQty(item)) {
+            throw new Error('Delivered quantity must be between 0 and the shipped quantity');
+        }
+        if (line.qtyDelivered < item.qtyOrdered) delivered.set(item.id, { qtyDelivered: line.qtyDelivered, reason: line.reason });
+    }
+
+    if (delivered.size === 0) throw new Error('Partial delivery needs at least one line delivered short');
+    return delivered;
+}
+
+/**
+ * The order's amounts after delivering `delivered` of its lines, and how
+ * the credit settles: the unpaid part comes off the debt, anything already
+ * paid above the new total becomes customer credit.
+ */
+export function shrinkOrder(
+    order: DeliveryOrder,
+    items: DeliveryItem[],
+    delivered: Map<string, { qtyDelivered: number; reason?: string }>
+): DeliveryAmounts {
+    let linesBefore = 0;
+    let linesAfter = 0;
+    const short: { item: DeliveryItem; qtyDelivered: number; lineReduction: number; reason?: string }[] = [];
+
+    for (const item of items) {
+        const lineTotal = Number(item.lineTotal);
+        linesBefore += lineTotal;
+
+        const entry = delivered.get(item.id);
+        if (!entry) {
+            linesAfter += lineTotal;
+            continue;
+        }
+
+        const newLineTotal = item.qtyOrdered > 0 ? round2(lineTotal * entry.qtyDelivered / item.qtyOrdered) : 0;
+        linesAfter += newLineTotal;
+        short.push({ item, qtyDelivered: entry.qtyDelivered, lineReduction: lineTotal - newLineTotal, reason: entry.reason });
+    }
+
+    const keepShare = linesBefore > 0 ? linesAfter / linesBefore : 1;
+    const oldTotal = Number(order.totalAmount);
+    const totalAmount = round2(oldTotal * keepShare);
+    const creditedAmount = round2(oldTotal - totalAmount);
+    const totalPerLineValue = linesBefore > 0 ? oldTotal / linesBefore : 0;
+
+    const shortLines = short.map(({ item, qtyDelivered, lineReduction, reason }) => {
+        const ratio = item.qtyOrdered > 0 ? qtyDelivered / item.qtyOrdered : 0;
+        return {
+            itemId: item.id,
+            qtyDelivered,
+            qtyBack: Math.max(0, shippedQty(item) - qtyDelivered),
+            lineTotal: round2(Number(item.lineTotal) - lineReduction),
+            discountAmount: round2(Number(item.discountAmount ?? 0) * ratio),
+            taxAmount: round2(Number(item.taxAmount ?? 0) * ratio),
+            refundAmount: round2(lineReduction * totalPerLineValue),
+            reason,
+        };
+    });
+
+    const paid = Number(order.paidAmount ?? 0);
+    const debtReduction = Math.min(creditedAmount, Math.max(0, oldTotal - paid));
+    const paidAmount = Math.min(paid, totalAmount);
+
+    return {
+        shortLines,
+        subtotalAmount: round2(Number(order.subtotalAmount) * keepShare),
+        discountAmount: round2(Number(order.discountAmount ?? 0) * keepShare),
+        taxAmount: round2(Number(order.taxAmount ?? 0) * keepShare),
+        totalAmount,
+        creditedAmount,
+        paidAmount,
+        paymentStatus: paidAmount <= 0 ? 'unpaid' : paidAmount >= totalAmount ? 'paid' : 'partial',
+        debtReduction,
+        overpaid: round2(creditedAmount - debtReduction),
+    };
+}
@@ -0,0 +1,37 @@
+/**
+ * Delivery proof input - what a driver's proof must contain
+ *
+ * The checks behind DeliveryProofService.save, run before the signature is
+ * stored: a recipient, a signature or at least one of the tenant's own
+ * uploaded photos, and a complete GPS fix when one is sent.
+ */
+
+import type { ProofInput } from '../services/delivery-proof.service';
+
+export const MAX_PROOF_PHOTOS = 5;
+
+/**
+ * Validates a proof and returns its normalised recipient, photos and
+ * capture time. Throws on the first rule it breaks.
+ */
+export function checkProofInput(tenantId: string, input: ProofInput, now = new Date()) {
+    const recipientName = input.recipientName.trim();
+    if (!recipientName) throw new Error('Recipient name is required');
+
+    const photoUrls = input.photoUrls ?? [];
+    if (photoUrls.length > MAX_PROOF_PHOTOS) throw new Error(`At most ${MAX_PROOF_PHOTOS} photos are allowed`);
+    // Photos must be this tenant's uploads, not arbitrary links
+    if (photoUrls.some(url => !url.startsWith(`/uploads/${tenantId}/`) || url.includes('..'))) {
+        throw new Error('Invalid photo URL');
+    }
+
+    if (!input.signature && photoUrls.length === 0) throw new Error('A signature or photo is required');
+    if ((input.latitude === undefined) !== (input.longitude === undefined)) {
+        throw new Error('Latitude and longitude must be sent together');
+    }
+
+    const capturedAt = input.capturedAt ? new Date(input.capturedAt) : now;
+    if (Number.isNaN(capturedAt.getTime())) throw new Error('Invalid capture time');
+
+    return { recipientName, photoUrls, capturedAt };
+}
@@ -0,0 +1,31 @@
+import { sql } from 'drizzle-orm';
+import { schema } from '../db';
+
+/**
+ * Next value of a tenant's counter for a document series, starting at 1.
+ * Call inside the transaction that inserts the document: the counter row
+ * stays locked until it commits, so concurrent documents never share a
+ * number.
+ */
+export const nextDocumentSequence = async (tx: any, tenantId: string, documentType: string): Promise<number> => {
+    const [row] = await tx.insert(schema.documentSequences)
+        .values({ tenantId, documentType, lastNumber: 1 })
+        .onConflictDoUpdate({
+            target: [schema.documentSequences.tenantId, schema.documentSequences.documentType],
+            set: { lastNumber: sql`${schema.documentSequences.lastNumber} + 1`, updatedAt: new Date() },
+        })
+        .returning({ lastNumber: schema.documentSequences.lastNumber });
+    return row.lastNumber;
+};
+
+/**
+ * A counter value as prefix plus zero-padded counter (TRF-00001).
+ */
+export const formatDocumentNumber = (prefix: string, sequence: number): string =>
+    `${prefix}${String(sequence).padStart(5, '0')}`;
+
+/**
+ * Next number for a tenant's document series, formatted with the prefix.
+ */
+export const nextDocumentNumber = async (tx: any, tenantId: string, documentType: string, prefix: string): Promise<string> =>
+    formatDocumentNumber(prefix, await nextDocumentSequence(tx, tenantId, documentType));
@@ -33,6 +33,9 @@ export type ErrorCode =
     | 'DISCOUNT_INACTIVE'
     | 'DISCOUNT_MIN_NOT_MET'
     | 'DISCOUNT_ALREADY_USED'
+    | 'DISCOUNT_NOT_APPLICABLE'
+    | 'PROMO_CODE_EXHAUSTED'
+    | 'PROMO_CODE_FIRST_ORDER_ONLY'
     // Stock errors
     | 'PRODUCT_UNAVAILABLE'
     | 'INSUFFICIENT_STOCK'
@@ -189,6 +192,21 @@ export const ERROR_MESSAGES: Record<ErrorCode, ErrorTranslation> = {
         en: 'This discount has already been used',
         ru: 'Эта скидка уже использована'
     },
+    DISCOUNT_NOT_APPLICABLE: {
+        uz: 'Chegirma savatdagi mahsulotlarga tegishli emas',
+        en: 'Discount does not apply to the items in your cart',
+        ru: 'Скидка не распространяется на товары в корзине'
+    },
+    PROMO_CODE_EXHAUSTED: {
+        uz: 'Promokod limiti tugagan',
+        en: 'This promo code has been fully redeemed',
+        ru: 'Лимит использования промокода исчерпан'
+    },
+    PROMO_CODE_FIRST_ORDER_ONLY: {
+        uz: 'Promokod faqat birinchi buyurtma uchun amal qiladi',
+        en: 'This promo code is valid on the first order only',
+        ru: 'Промокод действует только на первый заказ'
+    },
     // Stock errors
     PRODUCT_UNAVAILABLE: {
         uz: 'Mahsulot mavjud emas',
@@ -0,0 +1,82 @@
+/**
+ * Image Upload Utilities
+ *
+ * Validates uploaded images and stores them as webp in full, medium and
+ * thumbnail sizes under uploads/<tenantId>/. Used by the generic upload
+ * endpoint and by features that receive images inline (delivery signatures).
+ */
+
+import { join } from 'path';
+import sharp from 'sharp';
+import { mkdir } from 'fs/promises';
+
+export interface StoredImage {
+    url: string;
+    thumbnails: { thumb: string; medium: string };
+    metadata: { width?: number; height?: number; format: 'webp' };
+}
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Magic bytes for common image formats
+const IMAGE_SIGNATURES: Record<string, number[][]> = {
+    'image/jpeg': [[0xFF, 0xD8, 0xFF]],
+    'image/png': [[0x89, 0x50, 0x4E, 0x47]],
+    'image/gif': [[0x47, 0x49, 0x46, 0x38]],
+    'image/webp': [[0x52, 0x49, 0x46, 0x46]],
+    'image/bmp': [[0x42, 0x4D]],
+};
+
+export function validateMagicBytes(buffer: Uint8Array): boolean {
+    for (const signatures of Object.values(IMAGE_SIGNATURES)) {
+        for (const sig of signatures) {
+            if (sig.every((byte, i) => buffer[i] === byte)) return true;
+        }
+    }
+    return false;
+}
+
+async function ensureDir(path: string) {
+    try { await mkdir(path, { recursive: true }); } catch (err: any) { if (err.code !== 'EEXIST') throw err; }
+}
+
+/**
+ * Resizes an image into the three stored sizes and returns their public URLs.
+ * Throws sharp/fs errors as-is so callers can report them.
+ */
+export async function storeImage(buffer: Buffer, tenantId: string, originalName: string): Promise<StoredImage> {
+    const baseName = originalName.replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9-]/g, '-').substring(0, 50);
+    const fileName = `${Date.now()}-${baseName}.webp`;
+
+    const basePath = join('uploads', tenantId);
+    const fullPath = join(basePath, 'full');
+    const mediumPath = join(basePath, 'medium');
+    const thumbPath = join(basePath, 'thumb');
+
+    await ensureDir(fullPath);
+    await ensureDir(mediumPath);
+    await ensureDir(thumbPath);
+
+    const metadata = await sharp(buffer).metadata();
+
+    // Full size (max 1920px width)
+    await sharp(buffer).resize(1920, null, { withoutEnlargement: true, fit: 'inside' })
+        .webp({ quality: 85 }).toFile(join(fullPath, fileName));
+
+    // Medium (400x400)
+    await sharp(buffer).resize(400, 400, { fit: 'cover', position: 'center' })
+        .webp({ quality: 80 }).toFile(join(mediumPath, fileName));
+
+    // Thumbnail (100x100)
+    await sharp(buffer).resize(100, 100, { fit: 'cover', position: 'center' })
+        .webp({ quality: 75 }).toFile(join(thumbPath, fileName));
+
+    return {
+        url: `/uploads/${tenantId}/full/${fileName}`,
+        thumbnails: {
+            thumb: `/uploads/${tenantId}/thumb/${fileName}`,
+            medium: `/uploads/${tenantId}/medium/${fileName}`,
+        },
+        metadata: { width: metadata.width, height: metadata.height, format: 'webp' },
+    };
+}
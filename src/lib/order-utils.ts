@@ -8,6 +8,7 @@
 import { db } from '../db';
 import * as schema from '../db/schema';
 import { eq, and, sql } from 'drizzle-orm';
+import { stockService } from '../services/stock.service';
 
 
 /**
@@ -90,15 +91,18 @@ export async function generateOrderNumber(
 }
 
 /**
- * Check and reserve stock for order items
+ * Check and reserve stock for order items in a warehouse
+ * (the tenant's default warehouse when none is given).
  * Returns validated items or error
  */
 export async function validateAndReserveStock(
     tx: typeof db,
     tenantId: string,
-    items: { productId: string; quantity: number }[]
+    items: { productId: string; quantity: number }[],
+    warehouseId?: string | null
 ): Promise<{
     success: boolean;
+    warehouseId?: string;
     orderItems?: {
         productId: string;
         qty: number;
@@ -110,6 +114,7 @@ export async function validateAndReserveStock(
     errors?: string[];
 }> {
     const productIds = items.map(i => i.productId);
+    const resolvedWarehouseId = await stockService.resolveWarehouseId(tx, tenantId, warehouseId);
 
     // Get products with row locking
     const products = await tx
@@ -117,8 +122,6 @@ export async function validateAndReserveStock(
             id: schema.products.id,
             name: schema.products.name,
             price: schema.products.price,
-            stockQuantity: schema.products.stockQuantity,
-            reservedQuantity: schema.products.reservedQuantity,
             isActive: schema.products.isActive,
         })
         .from(schema.products)
@@ -129,6 +132,7 @@ export async function validateAndReserveStock(
         .for('update');
 
     const productMap = new Map(products.map(p => [p.id, p]));
+    const balances = await stockService.getBalances(tx, resolvedWarehouseId, productIds, true);
 
     let totalAmount = 0;
     const orderItems: {
@@ -159,8 +163,8 @@ export async function validateAndReserveStock(
             continue;
         }
 
-        // Check AVAILABLE stock (total - reserved)
-        const availableStock = (product.stockQuantity || 0) - (product.reservedQuantity || 0);
+        // Check AVAILABLE stock (on hand - reserved) in the chosen warehouse
+        const availableStock = balances.get(item.productId)!.available;
         if (qty > availableStock) {
             errors.push(`Yetarli zaxira yo'q: ${product.name} (mavjud: ${availableStock})`);
             continue;
@@ -184,25 +188,28 @@ export async function validateAndReserveStock(
     }
 
     // Reserve stock
-    for (const item of orderItems) {
-        await tx
-            .update(schema.products)
-            .set({
-                reservedQuantity: sql`COALESCE(${schema.products.reservedQuantity}, 0) + ${item.qty}`,
-            })
-            .where(eq(schema.products.id, item.productId));
-    }
+    await stockService.reserve(tx, tenantId, resolvedWarehouseId, orderItems.map(item => ({
+        productId: item.productId,
+        quantity: item.qty,
+    })));
 
-    return { success: true, orderItems, totalAmount, errors };
+    return { success: true, warehouseId: resolvedWarehouseId, orderItems, totalAmount, errors };
 }
 
 /**
- * Release reserved stock for order items
+ * Release reserved stock for order items from the order's warehouse
  */
 export async function releaseReservedStock(
     tx: typeof db,
     orderId: string
 ): Promise<void> {
+    const [order] = await tx
+        .select({ tenantId: schema.orders.tenantId, warehouseId: schema.orders.warehouseId })
+        .from(schema.orders)
+        .where(eq(schema.orders.id, orderId))
+        .limit(1);
+    if (!order) return;
+
     const items = await tx
         .select({
             productId: schema.orderItems.productId,
@@ -211,14 +218,10 @@ export async function releaseReservedStock(
         .from(schema.orderItems)
         .where(eq(schema.orderItems.orderId, orderId));
 
-    for (const item of items) {
-        await tx
-            .update(schema.products)
-            .set({
-                reservedQuantity: sql`GREATEST(0, COALESCE(${schema.products.reservedQuantity}, 0) - ${item.qtyOrdered})`,
-            })
-            .where(eq(schema.products.id, item.productId));
-    }
+    await stockService.releaseOrder(tx, order, items.map(item => ({
+        productId: item.productId,
+        quantity: item.qtyOrdered,
+    })));
 }
 
 /**
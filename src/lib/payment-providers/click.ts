@@ -6,9 +6,13 @@
  * Click uses a two-phase process:
  * 1. Prepare - Verify the order exists and amount is correct
  * 2. Complete - Confirm the payment was successful
+ *
+ * Status checks and refunds go through the Click Merchant API, which needs
+ * the merchant user ID from the Click cabinet.
  */
 
 import crypto from 'crypto';
+import type { PaymentProvider, ProviderCredentials, ProviderTransactionStatus } from './types';
 
 // ============================================================================
 // TYPES
@@ -188,3 +192,97 @@ export function clickErrorResponse(
         errorNote
     );
 }
+
+// ============================================================================
+// MERCHANT API (status / refund)
+// ============================================================================
+
+const CLICK_MERCHANT_API_URL = 'https://api.click.uz/v2/merchant';
+
+interface ClickMerchantApiResponse {
+    error_code: number;
+    error_note: string;
+    payment_id?: number;
+    payment_status?: number; // < 0 failed or reversed, 1 processing, 2 successful
+}
+
+async function clickMerchantRequest(
+    credentials: ProviderCredentials,
+    method: 'GET' | 'DELETE',
+    path: string
+): Promise<ClickMerchantApiResponse> {
+    if (!credentials.merchantUserId) {
+        throw new Error('Click merchant user ID is not configured');
+    }
+
+    // Auth: merchant_user_id:sha1(timestamp + secret_key):timestamp
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const digest = crypto.createHash('sha1').update(timestamp + credentials.secretKey).digest('hex');
+
+    const response = await fetch(`${CLICK_MERCHANT_API_URL}${path}`, {
+        method,
+        headers: {
+            'Accept': 'application/json',
+            'Content-Type': 'application/json',
+            'Auth': `${credentials.merchantUserId}:${digest}:${timestamp}`,
+        },
+    });
+
+    if (!response.ok) {
+        throw new Error(`Click merchant API returned ${response.status}`);
+    }
+    return await response.json() as ClickMerchantApiResponse;
+}
+
+// ============================================================================
+// PROVIDER ADAPTER
+// ============================================================================
+
+export const clickProvider: PaymentProvider = {
+    name: 'click',
+    displayName: 'Click',
+    credentialFields: [
+        { key: 'merchantId', label: 'Merchant ID', secret: false, required: true },
+        { key: 'serviceId', label: 'Service ID', secret: false, required: true },
+        { key: 'secretKey', label: 'Secret Key', secret: true, required: true },
+        { key: 'merchantUserId', label: 'Merchant User ID', secret: false, required: false },
+    ],
+
+    createLink(credentials, request) {
+        return generateClickUrl(credentials.merchantId, credentials.serviceId, request.amount, request.token);
+    },
+
+    verifyWebhook(credentials, request) {
+        const params = request.body as ClickPrepareRequest | ClickCompleteRequest;
+        if (!params || typeof params.sign_string !== 'string') return false;
+
+        return params.action === 1
+            ? verifyClickCompleteSignature(params, credentials.secretKey)
+            : verifyClickPrepareSignature(params, credentials.secretKey);
+    },
+
+    async getStatus(credentials, transactionId): Promise<ProviderTransactionStatus> {
+        const result = await clickMerchantRequest(
+            credentials,
+            'GET',
+            `/payment/status/${credentials.serviceId}/${encodeURIComponent(transactionId)}`
+        );
+
+        if (result.error_code !== 0 || result.payment_status === undefined) return 'unknown';
+        if (result.payment_status === 2) return 'paid';
+        if (result.payment_status < 0) return 'cancelled';
+        return 'pending';
+    },
+
+    async refund(credentials, transactionId) {
+        const result = await clickMerchantRequest(
+            credentials,
+            'DELETE',
+            `/payment/reversal/${credentials.serviceId}/${encodeURIComponent(transactionId)}`
+        );
+
+        if (result.error_code !== 0) {
+            throw new Error(`Click refund failed: ${result.error_note}`);
+        }
+    },
+};
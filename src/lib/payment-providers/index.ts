@@ -8,11 +8,15 @@ import { db, schema } from '../../db';
 import { eq, and, gt, lt } from 'drizzle-orm';
 import crypto from 'crypto';
 
-import { generateClickUrl } from './click';
-import { generatePaymeUrl, sumToTiyin } from './payme';
+import { buildProviderLinks, type ProviderLink } from './registry';
+import type { PaymentProviderName } from './types';
 
+export * from './types';
+export * from './registry';
 export * from './click';
 export * from './payme';
+export * from './uzum';
+export * from './mock';
 
 // ============================================================================
 // TOKEN GENERATION
@@ -32,8 +36,7 @@ export function generatePaymentToken(): string {
 export interface PaymentLinkResult {
     token: string;
     portalUrl: string;
-    clickUrl?: string;
-    paymeUrl?: string;
+    providers: ProviderLink[];
     expiresAt: Date;
     amount: number;
     currency: string;
@@ -66,9 +69,6 @@ export async function createPaymentLink(options: CreatePaymentLinkOptions): Prom
         .select({
             subdomain: schema.tenants.subdomain,
             paymentPortalEnabled: schema.tenants.paymentPortalEnabled,
-            clickMerchantId: schema.tenants.clickMerchantId,
-            clickServiceId: schema.tenants.clickServiceId,
-            paymeMerchantId: schema.tenants.paymeMerchantId,
         })
         .from(schema.tenants)
         .where(eq(schema.tenants.id, tenantId))
@@ -98,31 +98,12 @@ export async function createPaymentLink(options: CreatePaymentLinkOptions): Prom
     const baseUrl = process.env.PAYMENT_PORTAL_URL || `https://${tenant.subdomain}.ixasales.com`;
     const portalUrl = `${baseUrl}/pay/${token}`;
 
-    let clickUrl: string | undefined;
-    let paymeUrl: string | undefined;
-
-    if (tenant.clickMerchantId && tenant.clickServiceId) {
-        clickUrl = generateClickUrl(
-            tenant.clickMerchantId,
-            tenant.clickServiceId,
-            amount,
-            token
-        );
-    }
-
-    if (tenant.paymeMerchantId) {
-        paymeUrl = generatePaymeUrl(
-            tenant.paymeMerchantId,
-            sumToTiyin(amount),
-            { payment_token: token }
-        );
-    }
+    const providers = await buildProviderLinks(tenantId, { token, amount, currency });
 
     return {
         token,
         portalUrl,
-        clickUrl,
-        paymeUrl,
+        providers,
         expiresAt,
         amount,
         currency,
@@ -160,13 +141,55 @@ export async function getPaymentToken(token: string): Promise<{
 }
 
 /**
- * Mark payment token as paid
+ * Find the payment token a gateway transaction belongs to
+ */
+export async function getPaymentTokenByTransaction(
+    provider: PaymentProviderName,
+    providerTransactionId: string
+): Promise<Awaited<ReturnType<typeof getPaymentToken>>> {
+    const [row] = await db
+        .select({ token: schema.paymentTokens.token })
+        .from(schema.paymentTokens)
+        .where(
+            and(
+                eq(schema.paymentTokens.paidVia, provider),
+                eq(schema.paymentTokens.providerTransactionId, providerTransactionId)
+            )
+        )
+        .limit(1);
+
+    return row ? getPaymentToken(row.token) : null;
+}
+
+/**
+ * Remember the gateway transaction created for a pending token, so later
+ * callbacks that carry only the transaction ID can find it
+ */
+export async function attachPendingTransaction(
+    token: string,
+    provider: PaymentProviderName,
+    providerTransactionId: string
+): Promise<void> {
+    await db
+        .update(schema.paymentTokens)
+        .set({ paidVia: provider, providerTransactionId })
+        .where(
+            and(
+                eq(schema.paymentTokens.token, token),
+                eq(schema.paymentTokens.status, 'pending')
+            )
+        );
+}
+
+/**
+ * Mark payment token as paid. Returns the updated token, or null if it
+ * was no longer pending.
  */
 export async function markTokenAsPaid(
     token: string,
-    provider: 'click' | 'payme',
+    provider: PaymentProviderName,
     providerTransactionId: string
-): Promise<boolean> {
+): Promise<typeof schema.paymentTokens.$inferSelect | null> {
     const [updated] = await db
         .update(schema.paymentTokens)
         .set({
@@ -183,7 +206,61 @@ export async function markTokenAsPaid(
         )
         .returning();
 
-    return !!updated;
+    return updated ?? null;
+}
+
+/**
+ * Mark a paid token as refunded after the gateway cancelled the performed
+ * transaction. Returns the updated token, or null if it was not paid. Pass
+ * the transaction that reverses the payment, so neither happens alone.
+ */
+export async function markTokenAsRefunded(
+    token: string,
+    reason: string,
+    executor: any = db
+): Promise<typeof schema.paymentTokens.$inferSelect | null> {
+    const [updated] = await executor
+        .update(schema.paymentTokens)
+        .set({
+            status: 'refunded',
+            cancelledAt: new Date(),
+            cancelReason: reason.slice(0, 100),
+        })
+        .where(
+            and(
+                eq(schema.paymentTokens.token, token),
+                eq(schema.paymentTokens.status, 'paid')
+            )
+        )
+        .returning();
+
+    return updated ?? null;
+}
+
+/**
+ * Cancel a token whose gateway transaction was cancelled before it was
+ * performed. Returns the updated token, or null if it was not pending.
+ */
+export async function markTokenAsCancelled(
+    token: string,
+    reason: string
+): Promise<typeof schema.paymentTokens.$inferSelect | null> {
+    const [updated] = await db
+        .update(schema.paymentTokens)
+        .set({
+            status: 'cancelled',
+            cancelledAt: new Date(),
+            cancelReason: reason.slice(0, 100),
+        })
+        .where(
+            and(
+                eq(schema.paymentTokens.token, token),
+                eq(schema.paymentTokens.status, 'pending')
+            )
+        )
+        .returning();
+
+    return updated ?? null;
 }
 
 /**
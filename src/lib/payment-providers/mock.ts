@@ -0,0 +1,31 @@
+/**
+ * Mock Payment Provider
+ *
+ * Local stand-in for Click and Payme so payment links, completed payments
+ * and reversals can be exercised end-to-end without the real gateways.
+ * Enabled with PAYMENT_MOCK_PROVIDER=true, and never in production.
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+/**
+ * Whether the mock gateway endpoints are available
+ */
+export function isMockProviderEnabled(): boolean {
+    return process.env.PAYMENT_MOCK_PROVIDER === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+// ============================================================================
+// TRANSACTIONS
+// ============================================================================
+
+/**
+ * Generate a transaction ID in the shape a gateway would return
+ */
+export function generateMockTransactionId(): string {
+    return `mock_${Date.now()}_${crypto.randomBytes(4).toString('hex')}`;
+}
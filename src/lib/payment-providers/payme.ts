@@ -12,8 +12,14 @@
  * - GetStatement - Get transaction history
  * 
  * Note: Payme amounts are in TIYIN (1 UZS = 100 tiyin)
+ *
+ * The Merchant API only lets Payme call us, so there is no status or refund
+ * call from our side; refunds are started from the Payme merchant cabinet
+ * and arrive as CancelTransaction.
  */
 
+import type { PaymentProvider } from './types';
+
 // ============================================================================
 // TYPES
 // ============================================================================
@@ -244,3 +250,29 @@ export function paymeInsufficientPrivilege(id: number): PaymeResponse {
         "Insufficient privilege"
     );
 }
+
+// ============================================================================
+// PROVIDER ADAPTER
+// ============================================================================
+
+export const paymeProvider: PaymentProvider = {
+    name: 'payme',
+    displayName: 'Payme',
+    credentialFields: [
+        { key: 'merchantId', label: 'Merchant ID', secret: false, required: true },
+        { key: 'secretKey', label: 'Secret Key', secret: true, required: true },
+    ],
+
+    createLink(credentials, request) {
+        return generatePaymeUrl(credentials.merchantId, sumToTiyin(request.amount), { payment_token: request.token });
+    },
+
+    verifyWebhook(credentials, request) {
+        const authHeader = request.headers['authorization'];
+        return verifyPaymeAuth(
+            typeof authHeader === 'string' ? authHeader : undefined,
+            credentials.merchantId,
+            credentials.secretKey
+        );
+    },
+};
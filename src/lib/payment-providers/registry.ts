@@ -0,0 +1,198 @@
+/**
+ * Payment Provider Registry
+ *
+ * Maps provider names to their adapters and stores each tenant's
+ * credentials for them in tenant_payment_providers (encrypted at rest by
+ * the column type).
+ * Adding a gateway means writing an adapter and listing it here.
+ */
+
+import { db, schema } from '../../db';
+import { eq, and } from 'drizzle-orm';
+import { maskSecret, isMaskedSecret } from '../secrets';
+
+import { clickProvider } from './click';
+import { paymeProvider } from './payme';
+import { uzumProvider } from './uzum';
+import type { PaymentProvider, ProviderCredentials, ProviderLinkRequest } from './types';
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const PROVIDERS: PaymentProvider[] = [clickProvider, paymeProvider, uzumProvider];
+
+/**
+ * Get the adapter for a provider name
+ */
+export function getPaymentProvider(name: string): PaymentProvider | null {
+    return PROVIDERS.find(p => p.name === name) ?? null;
+}
+
+/**
+ * All providers tenants can configure, in display order
+ */
+export function listPaymentProviders(): PaymentProvider[] {
+    return [...PROVIDERS];
+}
+
+/**
+ * Whether every required credential has a value
+ */
+export function isProviderConfigured(provider: PaymentProvider, credentials: ProviderCredentials): boolean {
+    return provider.credentialFields.every(field => !field.required || !!credentials[field.key]);
+}
+
+// ============================================================================
+// TENANT CREDENTIALS
+// ============================================================================
+
+export interface TenantProviderConfig {
+    provider: PaymentProvider;
+    isEnabled: boolean;
+    credentials: ProviderCredentials;
+}
+
+function readCredentials(stored: string | null, tenantId: string, provider: string): ProviderCredentials {
+    if (!stored) return {};
+    try {
+        return JSON.parse(stored) as ProviderCredentials;
+    } catch (error) {
+        console.error(`[Payment Providers] Cannot read ${provider} credentials for tenant ${tenantId}:`, error);
+        return {};
+    }
+}
+
+/**
+ * Every registered provider with the tenant's settings for it
+ */
+export async function getTenantProviderConfigs(tenantId: string): Promise<TenantProviderConfig[]> {
+    const rows = await db
+        .select()
+        .from(schema.tenantPaymentProviders)
+        .where(eq(schema.tenantPaymentProviders.tenantId, tenantId));
+
+    return PROVIDERS.map(provider => {
+        const row = rows.find(r => r.provider === provider.name);
+        return {
+            provider,
+            isEnabled: row?.isEnabled ?? false,
+            credentials: readCredentials(row?.credentials ?? null, tenantId, provider.name),
+        };
+    });
+}
+
+/**
+ * Decrypted credentials of a configured provider, or null. Disabled
+ * providers are still returned so callbacks for transactions that were
+ * already started can be verified.
+ */
+export async function getTenantProviderCredentials(
+    tenantId: string,
+    name: string
+): Promise<ProviderCredentials | null> {
+    const provider = getPaymentProvider(name);
+    if (!provider) return null;
+
+    const [row] = await db
+        .select({ credentials: schema.tenantPaymentProviders.credentials })
+        .from(schema.tenantPaymentProviders)
+        .where(
+            and(
+                eq(schema.tenantPaymentProviders.tenantId, tenantId),
+                eq(schema.tenantPaymentProviders.provider, name)
+            )
+        )
+        .limit(1);
+
+    if (!row) return null;
+
+    const credentials = readCredentials(row.credentials, tenantId, name);
+    return isProviderConfigured(provider, credentials) ? credentials : null;
+}
+
+/**
+ * Credentials for display: secret fields masked, the rest as stored
+ */
+export function maskProviderCredentials(provider: PaymentProvider, credentials: ProviderCredentials): ProviderCredentials {
+    const masked: ProviderCredentials = {};
+    for (const field of provider.credentialFields) {
+        const value = credentials[field.key] || '';
+        masked[field.key] = field.secret ? maskSecret(value) : value;
+    }
+    return masked;
+}
+
+/**
+ * Save a tenant's settings for a provider. Secret values sent back still
+ * masked keep what is stored; unknown keys are dropped.
+ */
+export async function saveTenantProviderConfig(
+    tenantId: string,
+    name: string,
+    update: { isEnabled?: boolean; credentials?: ProviderCredentials }
+): Promise<void> {
+    const provider = getPaymentProvider(name);
+    if (!provider) {
+        throw new Error(`Unknown payment provider: ${name}`);
+    }
+
+    const [existing] = await db
+        .select()
+        .from(schema.tenantPaymentProviders)
+        .where(
+            and(
+                eq(schema.tenantPaymentProviders.tenantId, tenantId),
+                eq(schema.tenantPaymentProviders.provider, name)
+            )
+        )
+        .limit(1);
+
+    const current = readCredentials(existing?.credentials ?? null, tenantId, name);
+    const credentials: ProviderCredentials = {};
+    for (const field of provider.credentialFields) {
+        const submitted = update.credentials?.[field.key];
+        credentials[field.key] = submitted === undefined || (field.secret && isMaskedSecret(submitted))
+            ? current[field.key] || ''
+            : submitted.trim();
+    }
+
+    const values = {
+        isEnabled: update.isEnabled ?? existing?.isEnabled ?? true,
+        credentials: JSON.stringify(credentials),
+        updatedAt: new Date(),
+    };
+
+    await db
+        .insert(schema.tenantPaymentProviders)
+        .values({ tenantId, provider: name, ...values })
+        .onConflictDoUpdate({
+            target: [schema.tenantPaymentProviders.tenantId, schema.tenantPaymentProviders.provider],
+            set: values,
+        });
+}
+
+// ============================================================================
+// PAYMENT LINKS
+// ============================================================================
+
+export interface ProviderLink {
+    provider: string;
+    displayName: string;
+    url: string;
+}
+
+/**
+ * Checkout URLs for every provider the tenant has enabled and configured
+ */
+export async function buildProviderLinks(tenantId: string, request: ProviderLinkRequest): Promise<ProviderLink[]> {
+    const configs = await getTenantProviderConfigs(tenantId);
+
+    return configs
+        .filter(c => c.isEnabled && isProviderConfigured(c.provider, c.credentials))
+        .map(c => ({
+            provider: c.provider.name,
+            displayName: c.provider.displayName,
+            url: c.provider.createLink(c.credentials, request),
+        }));
+}
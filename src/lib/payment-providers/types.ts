@@ -0,0 +1,54 @@
+/**
+ * Payment Provider Types
+ *
+ * Common interface every gateway adapter implements, so payment links,
+ * webhook verification, status checks and refunds work the same way for
+ * Click, Payme, Uzum and any gateway added later.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PaymentProviderName = 'click' | 'payme' | 'uzum' | 'mock';
+
+/** Decrypted credential values, keyed by ProviderCredentialField.key */
+export type ProviderCredentials = Record<string, string>;
+
+export interface ProviderCredentialField {
+    key: string;
+    label: string;
+    secret: boolean; // Masked when read back, never logged
+    required: boolean; // Needed before the provider can take payments
+}
+
+export interface ProviderLinkRequest {
+    token: string; // Our payment token, sent to the gateway as the order reference
+    amount: number; // In sum (UZS)
+    currency: string;
+}
+
+export interface ProviderWebhookRequest {
+    body: unknown;
+    headers: Record<string, string | string[] | undefined>;
+}
+
+export type ProviderTransactionStatus = 'pending' | 'paid' | 'cancelled' | 'unknown';
+
+export interface PaymentProvider {
+    name: PaymentProviderName;
+    displayName: string;
+    credentialFields: ProviderCredentialField[];
+
+    /** Build the URL the customer is sent to for paying a token */
+    createLink(credentials: ProviderCredentials, request: ProviderLinkRequest): string;
+
+    /** Check a webhook call really comes from the gateway */
+    verifyWebhook(credentials: ProviderCredentials, request: ProviderWebhookRequest): boolean;
+
+    /** Ask the gateway for the state of a transaction, where its API allows it */
+    getStatus?(credentials: ProviderCredentials, transactionId: string): Promise<ProviderTransactionStatus>;
+
+    /** Refund a performed transaction from our side, where its API allows it */
+    refund?(credentials: ProviderCredentials, transactionId: string, amount: number): Promise<void>;
+}
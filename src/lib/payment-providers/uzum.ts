@@ -0,0 +1,151 @@
+/**
+ * Uzum Bank Payment Provider Integration
+ *
+ * Uzum Bank calls the merchant over five JSON endpoints, authenticated with
+ * Basic auth (login:password issued by Uzum):
+ * - check   - Verify the account (our payment token) can be paid
+ * - create  - Create a pending transaction
+ * - confirm - Execute the payment
+ * - reverse - Cancel/refund
+ * - status  - Check status
+ *
+ * Note: Uzum amounts are in TIYIN (1 UZS = 100 tiyin). Like Payme, refunds
+ * are started from the Uzum merchant cabinet and arrive as reverse.
+ */
+
+import crypto from 'crypto';
+import type { PaymentProvider } from './types';
+import { sumToTiyin } from './payme';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type UzumAction = 'check' | 'create' | 'confirm' | 'reverse' | 'status';
+
+export interface UzumRequest {
+    serviceId: number;
+    timestamp: number;
+    transId?: string; // Uzum's transaction ID (all but check)
+    params?: {
+        account?: string; // Our payment token
+    };
+    amount?: number; // In tiyin (check and create)
+}
+
+export type UzumTransactionStatus = 'CREATED' | 'CONFIRMED' | 'REVERSED' | 'FAILED';
+
+export interface UzumResponse {
+    serviceId: number;
+    timestamp?: number;
+    transId?: string;
+    status: 'OK' | UzumTransactionStatus;
+    transTime?: number;
+    confirmTime?: number | null;
+    reverseTime?: number | null;
+    amount?: number;
+    data?: Record<string, unknown>;
+    errorCode?: string;
+}
+
+// Error codes
+export const UZUM_ERRORS = {
+    ACCESS_DENIED: '10001',
+    JSON_PARSE_ERROR: '10002',
+    INVALID_OPERATION: '10003',
+    MISSING_PARAMETERS: '10005',
+    INVALID_SERVICE_ID: '10006',
+    ACCOUNT_NOT_FOUND: '10007',
+    ALREADY_PAID: '10008',
+    INCORRECT_AMOUNT: '10011',
+    TRANSACTION_NOT_FOUND: '10014',
+    TRANSACTION_CANCELLED: '10015',
+} as const;
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+/**
+ * Verify Uzum Basic Auth header
+ * Uzum sends: Authorization: Basic base64(LOGIN:PASSWORD)
+ */
+export function verifyUzumAuth(
+    authHeader: string | undefined,
+    login: string,
+    password: string
+): boolean {
+    if (!authHeader || !authHeader.startsWith('Basic ')) {
+        return false;
+    }
+
+    const received = Buffer.from(authHeader.slice(6));
+    const expected = Buffer.from(Buffer.from(`${login}:${password}`).toString('base64'));
+
+    return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+// ============================================================================
+// URL GENERATION
+// ============================================================================
+
+/**
+ * Generate Uzum Bank checkout URL
+ *
+ * @param serviceId - Uzum service ID
+ * @param amount - Amount in TIYIN
+ * @param account - Our payment token
+ * @returns Uzum checkout URL (opens the Uzum Bank app on mobile)
+ */
+export function generateUzumUrl(
+    serviceId: string,
+    amount: number,
+    account: string
+): string {
+    const params = new URLSearchParams({
+        serviceId,
+        amount: amount.toString(),
+        account,
+    });
+
+    return `https://www.uzumbank.uz/open-service?${params.toString()}`;
+}
+
+// ============================================================================
+// RESPONSE HELPERS
+// ============================================================================
+
+export function uzumErrorResponse(serviceId: number, errorCode: string): UzumResponse {
+    return {
+        serviceId,
+        timestamp: Date.now(),
+        status: 'FAILED',
+        errorCode,
+    };
+}
+
+// ============================================================================
+// PROVIDER ADAPTER
+// ============================================================================
+
+export const uzumProvider: PaymentProvider = {
+    name: 'uzum',
+    displayName: 'Uzum Bank',
+    credentialFields: [
+        { key: 'serviceId', label: 'Service ID', secret: false, required: true },
+        { key: 'login', label: 'Login', secret: false, required: true },
+        { key: 'password', label: 'Password', secret: true, required: true },
+    ],
+
+    createLink(credentials, request) {
+        return generateUzumUrl(credentials.serviceId, sumToTiyin(request.amount), request.token);
+    },
+
+    verifyWebhook(credentials, request) {
+        const authHeader = request.headers['authorization'];
+        const body = request.body as UzumRequest | undefined;
+
+        return verifyUzumAuth(typeof authHeader === 'string' ? authHeader : undefined, credentials.login, credentials.password)
+            && String(body?.serviceId) === credentials.serviceId;
+    },
+};
@@ -0,0 +1,62 @@
+/**
+ * PDF Utilities
+ *
+ * Thin wrapper around pdfkit for server-rendered documents (packing slips,
+ * labels). The built-in PDF fonts only cover Latin-1, so a Unicode TTF is
+ * registered when one is available to render Cyrillic names.
+ */
+
+import PDFDocument from 'pdfkit';
+import { existsSync } from 'fs';
+
+export type PdfDocument = InstanceType<typeof PDFDocument>;
+
+// First existing file wins; PDF_FONT_PATH / PDF_FONT_BOLD_PATH override
+const REGULAR_FONTS = [
+    process.env.PDF_FONT_PATH,
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans.ttf',
+    '/usr/share/fonts/TTF/DejaVuSans.ttf',
+];
+const BOLD_FONTS = [
+    process.env.PDF_FONT_BOLD_PATH,
+    '/usr/share/fonts/truetype/dejavu/DejaVuSans-Bold.ttf',
+    '/usr/share/fonts/TTF/DejaVuSans-Bold.ttf',
+];
+
+let resolvedFonts: { regular: string; bold: string } | null = null;
+
+function resolveFonts() {
+    if (resolvedFonts) return resolvedFonts;
+    const regular = REGULAR_FONTS.find((path): path is string => !!path && existsSync(path));
+    const bold = BOLD_FONTS.find((path): path is string => !!path && existsSync(path));
+    resolvedFonts = {
+        regular: regular || 'Helvetica',
+        bold: bold || regular || 'Helvetica-Bold',
+    };
+    return resolvedFonts;
+}
+
+/**
+ * Creates a document with 'regular' and 'bold' fonts registered.
+ */
+export function createPdfDocument(options: PDFKit.PDFDocumentOptions = {}): PdfDocument {
+    const doc = new PDFDocument({ margin: 40, ...options });
+    const fonts = resolveFonts();
+    doc.registerFont('regular', fonts.regular);
+    doc.registerFont('bold', fonts.bold);
+    doc.font('regular');
+    return doc;
+}
+
+/**
+ * Ends the document and collects it into a Buffer.
+ */
+export function pdfToBuffer(doc: PdfDocument): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+        doc.end();
+    });
+}
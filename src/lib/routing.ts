@@ -0,0 +1,319 @@
+/**
+ * Routing helpers - distance matrices and stop ordering for delivery routes
+ *
+ * Distances come from an OSRM server when OSRM_URL is set (table service) and
+ * fall back to straight-line haversine distance scaled by a road factor.
+ * Stops are ordered with nearest neighbour followed by 2-opt improvement,
+ * which is fast enough for the 10-60 stop routes a van does in a day. Routes
+ * with time windows (sales visits) also use or-opt and score lateness.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GeoPoint {
+    lat: number;
+    lng: number;
+}
+
+export interface DistanceMatrix {
+    distanceKm: number[][];
+    durationMin: number[][];
+    source: 'osrm' | 'haversine';
+}
+
+export interface OptimizedRoute {
+    /** Node indices in visiting order, without the start node */
+    order: number[];
+    distanceKm: number;
+    durationMin: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_KM = 6371;
+// Straight line -> street distance; ~1.3 is typical for city grids
+const ROAD_FACTOR = 1.3;
+const AVG_SPEED_KMH = Number(process.env.ROUTING_AVG_SPEED_KMH) || 30;
+// Public OSRM builds reject table requests above 100 coordinates
+const OSRM_MAX_POINTS = 100;
+const OSRM_TIMEOUT_MS = 10000;
+const MAX_TWO_OPT_PASSES = 50;
+
+// ============================================================================
+// DISTANCES
+// ============================================================================
+
+/**
+ * Great-circle distance between two points in kilometres.
+ */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+    const toRad = (deg: number) => (deg * Math.PI) / 180;
+    const dLat = toRad(b.lat - a.lat);
+    const dLng = toRad(b.lng - a.lng);
+    const h = Math.sin(dLat / 2) ** 2
+        + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Matrix of estimated road distances from straight-line distance.
+ */
+export function buildHaversineMatrix(points: GeoPoint[]): DistanceMatrix {
+    const distanceKm = points.map(a => points.map(b => haversineKm(a, b) * ROAD_FACTOR));
+    const durationMin = distanceKm.map(row => row.map(km => (km / AVG_SPEED_KMH) * 60));
+    return { distanceKm, durationMin, source: 'haversine' };
+}
+
+/**
+ * Matrix from an OSRM table service. Returns null when OSRM is not configured,
+ * the request fails or any pair is unroutable, so callers can fall back.
+ */
+export async function fetchOsrmMatrix(points: GeoPoint[]): Promise<DistanceMatrix | null> {
+    const baseUrl = process.env.OSRM_URL;
+    if (!baseUrl || points.length < 2 || points.length > OSRM_MAX_POINTS) return null;
+
+    const coordinates = points.map(p => `${p.lng},${p.lat}`).join(';');
+    const url = `${baseUrl.replace(/\/$/, '')}/table/v1/driving/${coordinates}?annotations=distance,duration`;
+
+    try {
+        const response = await fetch(url, { signal: AbortSignal.timeout(OSRM_TIMEOUT_MS) });
+        if (!response.ok) return null;
+
+        const body = await response.json() as { code?: string; distances?: (number | null)[][]; durations?: (number | null)[][] };
+        if (body.code !== 'Ok' || !body.distances || !body.durations) return null;
+        if (body.distances.some(row => row.some(v => v === null))) return null;
+
+        return {
+            distanceKm: body.distances.map(row => row.map(m => (m as number) / 1000)),
+            durationMin: body.durations.map(row => row.map(s => (s as number) / 60)),
+            source: 'osrm',
+        };
+    } catch (error) {
+        console.error('OSRM table request failed:', error);
+        return null;
+    }
+}
+
+/**
+ * Distance matrix for the given points, OSRM first and haversine otherwise.
+ */
+export async function getDistanceMatrix(points: GeoPoint[]): Promise<DistanceMatrix> {
+    return (await fetchOsrmMatrix(points)) ?? buildHaversineMatrix(points);
+}
+
+// ============================================================================
+// STOP ORDERING
+// ============================================================================
+
+function pathCost(path: number[], cost: number[][], closed: boolean): number {
+    let total = 0;
+    for (let i = 1; i < path.length; i++) total += cost[path[i - 1]][path[i]];
+    if (closed && path.length > 1) total += cost[path[path.length - 1]][path[0]];
+    return total;
+}
+
+/**
+ * Greedy tour: from the start node always go to the closest unvisited node.
+ */
+export function nearestNeighbour(cost: number[][], start = 0): number[] {
+    const path = [start];
+    const visited = new Set(path);
+
+    while (path.length < cost.length) {
+        const current = path[path.length - 1];
+        let next = -1;
+        for (let j = 0; j < cost.length; j++) {
+            if (visited.has(j)) continue;
+            if (next === -1 || cost[current][j] < cost[current][next]) next = j;
+        }
+        path.push(next);
+        visited.add(next);
+    }
+
+    return path;
+}
+
+/**
+ * 2-opt: reverse any segment that shortens the path until no reversal helps.
+ * The first node stays fixed. Whole-path cost is recomputed per candidate so
+ * asymmetric (one-way street) OSRM matrices are handled correctly.
+ */
+export function twoOpt(path: number[], cost: number[][], closed: boolean): number[] {
+    let best = [...path];
+    let bestCost = pathCost(best, cost, closed);
+
+    for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+        let improved = false;
+        for (let i = 1; i < best.length - 1; i++) {
+            for (let k = i + 1; k < best.length; k++) {
+                const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+                const candidateCost = pathCost(candidate, cost, closed);
+                if (candidateCost < bestCost - 1e-9) {
+                    best = candidate;
+                    bestCost = candidateCost;
+                    improved = true;
+                }
+            }
+        }
+        if (!improved) break;
+    }
+
+    return best;
+}
+
+/**
+ * Orders the nodes of a matrix starting from node `start` (the depot).
+ * With `closed` the route returns to the start and the return leg is counted.
+ */
+export function optimizeRoute(matrix: DistanceMatrix, options: { start?: number; closed?: boolean } = {}): OptimizedRoute {
+    const start = options.start ?? 0;
+    const closed = options.closed ?? true;
+    if (matrix.distanceKm.length <= 1) return { order: [], distanceKm: 0, durationMin: 0 };
+
+    const path = twoOpt(nearestNeighbour(matrix.distanceKm, start), matrix.distanceKm, closed);
+
+    return {
+        order: path.slice(1),
+        distanceKm: pathCost(path, matrix.distanceKm, closed),
+        durationMin: pathCost(path, matrix.durationMin, closed),
+    };
+}
+
+// ============================================================================
+// TIME WINDOWS
+// ============================================================================
+
+/** Times are minutes after local midnight */
+export interface TimeWindow {
+    earliest: number | null;
+    latest: number | null;
+    serviceMin: number;
+}
+
+export interface ScheduledStop {
+    node: number;
+    legKm: number;
+    legMin: number;
+    arrivalMin: number;
+    /** Service start: arrival, or window opening if arrived early */
+    startMin: number;
+    waitMin: number;
+    lateMin: number;
+}
+
+export interface TimedRoute {
+    stops: ScheduledStop[];
+    distanceKm: number;
+    durationMin: number;
+    lateMin: number;
+}
+
+// Being late anywhere outweighs any amount of extra driving
+const LATE_PENALTY = 1000;
+// Idle time is cheaper than driving but still worth avoiding
+const WAIT_WEIGHT = 0.2;
+const MAX_OR_OPT_SEGMENT = 3;
+
+function schedule(path: number[], matrix: DistanceMatrix, windows: TimeWindow[], startMin: number) {
+    const stops: ScheduledStop[] = [];
+    let clock = startMin;
+    let distanceKm = 0;
+    let travelMin = 0;
+    let waitMin = 0;
+    let lateMin = 0;
+
+    for (let i = 1; i < path.length; i++) {
+        const from = path[i - 1];
+        const node = path[i];
+        const window = windows[node];
+        const legKm = matrix.distanceKm[from][node];
+        const legMin = matrix.durationMin[from][node];
+
+        const arrivalMin = clock + legMin;
+        const startAt = window.earliest !== null ? Math.max(arrivalMin, window.earliest) : arrivalMin;
+        const wait = startAt - arrivalMin;
+        const late = window.latest !== null ? Math.max(0, startAt - window.latest) : 0;
+
+        stops.push({ node, legKm, legMin, arrivalMin, startMin: startAt, waitMin: wait, lateMin: late });
+        clock = startAt + window.serviceMin;
+        distanceKm += legKm;
+        travelMin += legMin;
+        waitMin += wait;
+        lateMin += late;
+    }
+
+    return {
+        stops,
+        distanceKm,
+        durationMin: clock - startMin,
+        lateMin,
+        cost: travelMin + waitMin * WAIT_WEIGHT + lateMin * LATE_PENALTY,
+    };
+}
+
+/**
+ * Open route from `start` that visits every other node, respecting time
+ * windows as far as possible. Starts from the better of a nearest-neighbour
+ * and a deadline-ordered tour, then improves it with 2-opt and or-opt
+ * (moving runs of up to three stops) until neither finds a cheaper schedule.
+ */
+export function optimizeRouteWithTimeWindows(
+    matrix: DistanceMatrix,
+    windows: TimeWindow[],
+    options: { start?: number; startMin: number }
+): TimedRoute {
+    const start = options.start ?? 0;
+    const cost = (path: number[]) => schedule(path, matrix, windows, options.startMin).cost;
+
+    const byDeadline = [start, ...windows
+        .map((window, node) => ({ node, key: window.latest ?? window.earliest ?? Infinity }))
+        .filter(entry => entry.node !== start)
+        .sort((a, b) => a.key - b.key)
+        .map(entry => entry.node)];
+    const byDistance = nearestNeighbour(matrix.distanceKm, start);
+
+    let best = cost(byDeadline) <= cost(byDistance) ? byDeadline : byDistance;
+    let bestCost = cost(best);
+
+    const consider = (candidate: number[]) => {
+        const candidateCost = cost(candidate);
+        if (candidateCost < bestCost - 1e-9) {
+            best = candidate;
+            bestCost = candidateCost;
+            return true;
+        }
+        return false;
+    };
+
+    for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+        let improved = false;
+
+        // 2-opt: reverse best[i..k]
+        for (let i = 1; i < best.length - 1; i++) {
+            for (let k = i + 1; k < best.length; k++) {
+                improved = consider([...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)]) || improved;
+            }
+        }
+
+        // or-opt: move best[i..i+len) to another position
+        for (let len = 1; len <= MAX_OR_OPT_SEGMENT; len++) {
+            for (let i = 1; i + len <= best.length; i++) {
+                const segment = best.slice(i, i + len);
+                const rest = [...best.slice(0, i), ...best.slice(i + len)];
+                for (let j = 1; j <= rest.length; j++) {
+                    if (j === i) continue;
+                    improved = consider([...rest.slice(0, j), ...segment, ...rest.slice(j)]) || improved;
+                }
+            }
+        }
+
+        if (!improved) break;
+    }
+
+    const result = schedule(best, matrix, windows, options.startMin);
+    return { stops: result.stops, distanceKm: result.distanceKm, durationMin: result.durationMin, lateMin: result.lateMin };
+}
@@ -5,7 +5,7 @@
  * These should be triggered by a cron scheduler (e.g., node-cron, external cron, or cloud scheduler).
  */
 
-import { processOverdueDebtNotifications, retryFailedNotifications, getRetryQueueStats } from './telegram';
+import { processOverdueDebtNotifications, processNearExpiryNotifications, retryFailedNotifications, getRetryQueueStats } from './telegram';
 import { db } from '../db';
 import * as schema from '../db/schema';
 import { eq, lt, and, sql } from 'drizzle-orm';
@@ -35,6 +35,25 @@ export async function runOverdueDebtJob(): Promise<void> {
     }
 }
 
+// ============================================================================
+// JOB: Near-Expiry Stock Alerts
+// ============================================================================
+
+/**
+ * Notify admins about stock lots close to (or past) their expiry date
+ * Recommended: Run daily
+ */
+export async function runNearExpiryAlertJob(): Promise<void> {
+    console.log('[Scheduler] Running near-expiry stock alert job...');
+
+    try {
+        const result = await processNearExpiryNotifications();
+        console.log(`[Scheduler] Near-expiry job completed. Lots: ${result.processed}, Sent: ${result.sent}`);
+    } catch (error) {
+        console.error('[Scheduler] Error in near-expiry job:', error);
+    }
+}
+
 // ============================================================================
 // JOB: Subscription Expiration Warnings
 // ============================================================================
@@ -217,6 +236,7 @@ export function initializeScheduler(): void {
     // Run debt notification job after a short delay (to let server warm up)
     setTimeout(() => {
         runOverdueDebtJob().catch(console.error);
+        runNearExpiryAlertJob().catch(console.error);
         runSubscriptionExpirationJob().catch(console.error);
         runFollowUpRemindersJob().catch(console.error);
         runTierDowngradeJob().catch(console.error);
@@ -226,6 +246,7 @@ export function initializeScheduler(): void {
     // Then run daily
     setInterval(() => {
         runOverdueDebtJob().catch(console.error);
+        runNearExpiryAlertJob().catch(console.error);
         runSubscriptionExpirationJob().catch(console.error);
         runGPSTrackingCleanup().catch(console.error);
         runFollowUpRemindersJob().catch(console.error);
@@ -259,6 +280,10 @@ export async function triggerJob(jobName: string): Promise<{ success: boolean; m
             await runOverdueDebtJob();
             return { success: true, message: 'Overdue debt job completed' };
 
+        case 'near-expiry':
+            await runNearExpiryAlertJob();
+            return { success: true, message: 'Near-expiry alert job completed' };
+
         case 'subscription-expiration':
             await runSubscriptionExpirationJob();
             return { success: true, message: 'Subscription expiration job completed' };
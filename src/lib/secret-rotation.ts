@@ -0,0 +1,109 @@
+/**
+ * Secret Rotation
+ *
+ * Brings every stored secret up to date with the current master key:
+ * plaintext left from before encryption is encrypted, and values wrapped
+ * with a retired key (SECRETS_ENCRYPTION_KEY_PREVIOUS) are re-wrapped.
+ * Run with `npm run secrets:rotate`.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, inArray, isNotNull, sql } from 'drizzle-orm';
+import { needsRotation, rotateSecret } from './secrets';
+import { SECRET_SETTING_KEYS } from './systemSettings';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SecretRotationResult {
+    checked: number;
+    rotated: number;
+    failed: number;
+}
+
+// Encrypted tenant columns, by property name
+const TENANT_SECRET_COLUMNS = {
+    telegramBotToken: schema.tenants.telegramBotToken,
+    clickSecretKey: schema.tenants.clickSecretKey,
+    paymeSecretKey: schema.tenants.paymeSecretKey,
+    yandexGeocoderApiKey: schema.tenants.yandexGeocoderApiKey,
+    openWeatherApiKey: schema.tenants.openWeatherApiKey,
+};
+
+// ============================================================================
+// ROTATION
+// ============================================================================
+
+/**
+ * Rotate every stored secret. Values are read and written raw (through
+ * `sql`), bypassing the encrypting column type.
+ */
+export async function rotateStoredSecrets(): Promise<SecretRotationResult> {
+    const result: SecretRotationResult = { checked: 0, rotated: 0, failed: 0 };
+
+    const rotate = (label: string, stored: string): string | null => {
+        if (!stored) return null;
+        result.checked++;
+        if (!needsRotation(stored)) return null;
+
+        try {
+            const rotated = rotateSecret(stored);
+            result.rotated++;
+            return rotated;
+        } catch (error) {
+            result.failed++;
+            console.error(`[Secrets] Cannot rotate ${label}:`, (error as Error).message);
+            return null;
+        }
+    };
+
+    // 1. Tenant columns
+    for (const [field, column] of Object.entries(TENANT_SECRET_COLUMNS)) {
+        const rows = await db
+            .select({ id: schema.tenants.id, stored: sql<string>`${column}` })
+            .from(schema.tenants)
+            .where(isNotNull(column));
+
+        for (const row of rows) {
+            const rotated = rotate(`tenants.${field} (${row.id})`, row.stored);
+            if (rotated) {
+                await db.update(schema.tenants)
+                    .set({ [field]: sql`${rotated}` })
+                    .where(eq(schema.tenants.id, row.id));
+            }
+        }
+    }
+
+    // 2. Payment provider credentials
+    const providers = await db
+        .select({ id: schema.tenantPaymentProviders.id, stored: sql<string>`${schema.tenantPaymentProviders.credentials}` })
+        .from(schema.tenantPaymentProviders)
+        .where(isNotNull(schema.tenantPaymentProviders.credentials));
+
+    for (const row of providers) {
+        const rotated = rotate(`tenant_payment_providers.credentials (${row.id})`, row.stored);
+        if (rotated) {
+            await db.update(schema.tenantPaymentProviders)
+                .set({ credentials: sql`${rotated}` })
+                .where(eq(schema.tenantPaymentProviders.id, row.id));
+        }
+    }
+
+    // 3. Platform settings
+    const settings = await db
+        .select({ key: schema.systemSettings.key, value: schema.systemSettings.value })
+        .from(schema.systemSettings)
+        .where(and(inArray(schema.systemSettings.key, SECRET_SETTING_KEYS), isNotNull(schema.systemSettings.value)));
+
+    for (const row of settings) {
+        const rotated = rotate(`system_settings.${row.key}`, row.value || '');
+        if (rotated) {
+            await db.update(schema.systemSettings)
+                .set({ value: rotated, updatedAt: new Date() })
+                .where(eq(schema.systemSettings.key, row.key));
+        }
+    }
+
+    return result;
+}
@@ -0,0 +1,209 @@
+/**
+ * Secret Encryption
+ *
+ * Envelope encryption for credentials stored in the database (payment
+ * provider keys, bot tokens, API keys, the SMTP password). Every value gets
+ * its own random data key; the data key is wrapped with the master key from
+ * SECRETS_ENCRYPTION_KEY. Rotating the master key only re-wraps data keys.
+ *
+ * Stored format: `v2:<master key id>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>`
+ * Values written by the first version (`v1:...`, encrypted directly with the
+ * master key) are still read, and upgraded by rotation.
+ */
+
+import crypto from 'crypto';
+
+// ============================================================================
+// KEY CONFIGURATION
+// ============================================================================
+
+const DEV_FALLBACK_KEY = 'development-only-secrets-key-32ch';
+
+interface MasterKey {
+    id: string;
+    key: Buffer;
+}
+
+let currentKey: MasterKey | null = null;
+let previousKeys: MasterKey[] | null = null;
+
+function deriveMasterKey(secret: string): MasterKey {
+    // Any length of secret is stretched to a 32-byte key
+    const key = crypto.createHash('sha256').update(secret).digest();
+    const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8);
+    return { id, key };
+}
+
+function getCurrentKey(): MasterKey {
+    if (currentKey) return currentKey;
+
+    const secret = process.env.SECRETS_ENCRYPTION_KEY;
+    if (!secret) {
+        if (process.env.NODE_ENV === 'production') {
+            throw new Error('SECRETS_ENCRYPTION_KEY is required in production');
+        }
+        console.warn('[Secrets] ⚠️  WARNING: SECRETS_ENCRYPTION_KEY is not set - using an insecure development key');
+    }
+
+    currentKey = deriveMasterKey(secret || DEV_FALLBACK_KEY);
+    return currentKey;
+}
+
+/**
+ * Retired master keys (SECRETS_ENCRYPTION_KEY_PREVIOUS, comma separated),
+ * kept readable until rotation has re-wrapped everything
+ */
+function getPreviousKeys(): MasterKey[] {
+    if (previousKeys) return previousKeys;
+
+    previousKeys = (process.env.SECRETS_ENCRYPTION_KEY_PREVIOUS || '')
+        .split(',')
+        .map(s => s.trim())
+        .filter(Boolean)
+        .map(deriveMasterKey);
+    return previousKeys;
+}
+
+function findMasterKey(id: string): MasterKey {
+    const key = [getCurrentKey(), ...getPreviousKeys()].find(k => k.id === id);
+    if (!key) {
+        throw new Error(`Secret was encrypted with unknown master key ${id}`);
+    }
+    return key;
+}
+
+// ============================================================================
+// AES-GCM PRIMITIVES
+// ============================================================================
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function wrapDataKey(master: MasterKey, dataKey: Buffer): string {
+    const { iv, tag, ciphertext } = seal(master.key, dataKey);
+    return Buffer.concat([iv, tag, ciphertext]).toString('base64');
+}
+
+function unwrapDataKey(master: MasterKey, wrapped: string): Buffer {
+    const raw = Buffer.from(wrapped, 'base64');
+    return open(master.key, raw.subarray(0, 12), raw.subarray(12, 28), raw.subarray(28));
+}
+
+// ============================================================================
+// ENCRYPT / DECRYPT
+// ============================================================================
+
+/**
+ * Whether a stored value is ciphertext rather than legacy plaintext
+ */
+export function isEncryptedSecret(value: string): boolean {
+    return /^v[12]:/.test(value);
+}
+
+/**
+ * Encrypt a plaintext secret for storage
+ */
+export function encryptSecret(plaintext: string): string {
+    const master = getCurrentKey();
+    const dataKey = crypto.randomBytes(32);
+    const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+    return [
+        'v2',
+        master.id,
+        wrapDataKey(master, dataKey),
+        iv.toString('base64'),
+        tag.toString('base64'),
+        ciphertext.toString('base64'),
+    ].join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret. Throws if it was tampered
+ * with or its master key is not configured.
+ */
+export function decryptSecret(stored: string): string {
+    const parts = stored.split(':');
+
+    if (parts[0] === 'v2' && parts.length === 6) {
+        const [, keyId, wrapped, iv, tag, ciphertext] = parts;
+        const dataKey = unwrapDataKey(findMasterKey(keyId), wrapped);
+        return open(dataKey, Buffer.from(iv, 'base64'), Buffer.from(tag, 'base64'), Buffer.from(ciphertext, 'base64')).toString('utf8');
+    }
+
+    if (parts[0] === 'v1' && parts.length === 4) {
+        const [, iv, tag, ciphertext] = parts;
+        for (const master of [getCurrentKey(), ...getPreviousKeys()]) {
+            try {
+                return open(master.key, Buffer.from(iv, 'base64'), Buffer.from(tag, 'base64'), Buffer.from(ciphertext, 'base64')).toString('utf8');
+            } catch {
+                // Try the next key
+            }
+        }
+        throw new Error('Secret cannot be decrypted with any configured master key');
+    }
+
+    throw new Error('Unsupported secret format');
+}
+
+// ============================================================================
+// ROTATION
+// ============================================================================
+
+/**
+ * Whether a stored value is plaintext, in the old format, or wrapped with
+ * a retired master key
+ */
+export function needsRotation(stored: string): boolean {
+    if (!isEncryptedSecret(stored)) return true;
+    const [version, keyId] = stored.split(':');
+    return version !== 'v2' || keyId !== getCurrentKey().id;
+}
+
+/**
+ * Bring a stored value up to date: plaintext and v1 values are encrypted
+ * afresh, v2 values under a retired key get their data key re-wrapped
+ */
+export function rotateSecret(stored: string): string {
+    if (!isEncryptedSecret(stored)) return encryptSecret(stored);
+
+    const parts = stored.split(':');
+    if (parts[0] !== 'v2') return encryptSecret(decryptSecret(stored));
+
+    const master = getCurrentKey();
+    if (parts[1] === master.id) return stored;
+
+    const dataKey = unwrapDataKey(findMasterKey(parts[1]), parts[2]);
+    return ['v2', master.id, wrapDataKey(master, dataKey), ...parts.slice(3)].join(':');
+}
+
+// ============================================================================
+// MASKING
+// ============================================================================
+
+export const SECRET_MASK_PREFIX = '••••';
+
+/**
+ * Mask a secret for display, keeping the last four characters
+ */
+export function maskSecret(value: string | null | undefined): string {
+    if (!value) return '';
+    return SECRET_MASK_PREFIX + (value.length > 8 ? value.slice(-4) : '');
+}
+
+/**
+ * Whether a submitted value is a mask echoed back unchanged
+ */
+export function isMaskedSecret(value: string): boolean {
+    return value.startsWith(SECRET_MASK_PREFIX);
+}
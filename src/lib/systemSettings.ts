@@ -3,11 +3,14 @@
  * 
  * Centralized configuration for platform-wide settings.
  * Settings are persisted to database with in-memory caching.
+ * Secret values (SMTP password, bot token) are encrypted in the database
+ * and masked when read back through the API.
  */
 
 import { db } from '../db';
 import * as schema from '../db/schema';
 import { eq } from 'drizzle-orm';
+import { encryptSecret, decryptSecret, isEncryptedSecret, maskSecret, isMaskedSecret } from './secrets';
 
 // ============================================================================
 // TYPES
@@ -121,6 +124,9 @@ const DEFAULT_SETTINGS: AllSystemSettings = {
     },
 };
 
+// Keys stored encrypted (`category.key`)
+export const SECRET_SETTING_KEYS = ['email.smtpPassword', 'telegram.botToken', 'telegram.webhookSecret'];
+
 // ============================================================================
 // IN-MEMORY CACHE
 // ============================================================================
@@ -142,12 +148,22 @@ export async function loadSettingsFromDB(): Promise<void> {
         for (const row of rows) {
             const [category, key] = row.key.split('.');
             if (category && key && (cachedSettings as any)[category]) {
+                let value = row.value || '';
+                if (isEncryptedSecret(value)) {
+                    try {
+                        value = decryptSecret(value);
+                    } catch (error) {
+                        console.error(`[Settings] Cannot decrypt ${row.key}:`, (error as Error).message);
+                        continue;
+                    }
+                }
+
                 try {
                     // Try parsing as JSON for complex values
-                    (cachedSettings as any)[category][key] = JSON.parse(row.value || '');
+                    (cachedSettings as any)[category][key] = JSON.parse(value);
                 } catch {
                     // Fall back to raw string
-                    (cachedSettings as any)[category][key] = row.value;
+                    (cachedSettings as any)[category][key] = value;
                 }
             }
         }
@@ -163,7 +179,8 @@ export async function loadSettingsFromDB(): Promise<void> {
  * Save a setting to database
  */
 async function saveSetting(key: string, value: any): Promise<void> {
-    const stringValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const plainValue = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    const stringValue = SECRET_SETTING_KEYS.includes(key) && plainValue ? encryptSecret(plainValue) : plainValue;
 
     try {
         // Upsert
@@ -188,6 +205,37 @@ async function saveCategory(category: string, settings: object): Promise<void> {
     }
 }
 
+// ============================================================================
+// MASKING
+// ============================================================================
+
+/**
+ * Copy of a category's settings with secret values masked, for API responses
+ */
+export function maskSecretSettings<T extends object>(category: string, settings: T): T {
+    const masked: any = { ...settings };
+    for (const key of Object.keys(masked)) {
+        if (SECRET_SETTING_KEYS.includes(`${category}.${key}`)) {
+            masked[key] = maskSecret(masked[key]);
+        }
+    }
+    return masked;
+}
+
+/**
+ * Drop secret values that were sent back still masked, so they keep the
+ * stored value
+ */
+export function withoutMaskedSecrets<T extends object>(category: string, settings: T): Partial<T> {
+    const result: any = { ...settings };
+    for (const [key, value] of Object.entries(result)) {
+        if (SECRET_SETTING_KEYS.includes(`${category}.${key}`) && typeof value === 'string' && isMaskedSecret(value)) {
+            delete result[key];
+        }
+    }
+    return result;
+}
+
 // ============================================================================
 // GETTERS
 // ============================================================================
@@ -18,6 +18,7 @@ import { getTelegramSettings } from './systemSettings';
 import { db } from '../db';
 import * as schema from '../db/schema';
 import { eq, and, sql, lt, inArray } from 'drizzle-orm';
+import { stockService } from '../services/stock.service';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -148,6 +149,7 @@ export const STATUS_TAGS = {
 
     // Stock
     lowStock: '#kam_qoldi',
+    nearExpiry: '#muddati_yaqin',
 
     // Security
     security: '#xavfsizlik',
@@ -415,22 +417,25 @@ export async function notifyUser(
 
 /**
  * Send a document/file via Telegram Bot
- * Used for sending export files to admins
+ * Used for sending export files to admins and invoices to customers
  * 
  * @param chatId - Target chat ID
- * @param filePath - Absolute path to the file
+ * @param file - Absolute path to the file, or its contents
  * @param filename - Display name for the file
  * @param caption - Optional caption for the document
+ * @param botToken - Send through this bot (e.g. the tenant's) instead of the platform bot
  */
 export async function sendTelegramDocument(
     chatId: string,
-    filePath: string,
+    file: string | Buffer,
     filename: string,
-    caption?: string
+    caption?: string,
+    botToken?: string
 ): Promise<boolean> {
     const settings = getTelegramSettings();
+    const token = botToken || settings.botToken;
 
-    if (!settings.enabled || !settings.botToken) {
+    if (!botToken && (!settings.enabled || !settings.botToken)) {
         console.log('[Telegram] Not enabled or no bot token configured');
         return false;
     }
@@ -442,29 +447,33 @@ export async function sendTelegramDocument(
 
     try {
         const fs = await import('fs');
-        const path = await import('path');
 
-        // Check if file exists
-        if (!fs.existsSync(filePath)) {
-            console.error(`[Telegram] File not found: ${filePath}`);
-            return false;
+        let size: number;
+        if (typeof file === 'string') {
+            // Check if file exists
+            if (!fs.existsSync(file)) {
+                console.error(`[Telegram] File not found: ${file}`);
+                return false;
+            }
+            size = fs.statSync(file).size;
+        } else {
+            size = file.length;
         }
 
         // Check file size (Telegram limit is 50MB for bots)
-        const stats = fs.statSync(filePath);
-        const fileSizeMB = stats.size / (1024 * 1024);
+        const fileSizeMB = size / (1024 * 1024);
         if (fileSizeMB > 50) {
             console.error(`[Telegram] File too large: ${fileSizeMB.toFixed(2)}MB (max 50MB)`);
             return false;
         }
 
-        const url = `https://api.telegram.org/bot${settings.botToken}/sendDocument`;
+        const url = `https://api.telegram.org/bot${token}/sendDocument`;
 
         // Create form data
         const FormData = (await import('form-data')).default;
         const form = new FormData();
         form.append('chat_id', chatId);
-        form.append('document', fs.createReadStream(filePath), {
+        form.append('document', typeof file === 'string' ? fs.createReadStream(file) : file, {
             filename: filename,
         });
         if (caption) {
@@ -655,6 +664,7 @@ export type AdminNotificationType =
     | 'notifyPaymentPartial'
     | 'notifyPaymentComplete'
     | 'notifyLowStock'
+    | 'notifyNearExpiry'
     | 'notifyDueDebt';
 
 // Customer notification types (check tenant notification settings)
@@ -676,6 +686,7 @@ interface TenantNotificationCheck {
     canSend: boolean;
     settings: {
         lowStockThreshold?: number;
+        nearExpiryDaysThreshold?: number;
         dueDebtDaysThreshold?: number;
     } | null;
 }
@@ -720,6 +731,7 @@ export async function canSendTenantNotification(
                 canSend: defaults[0]?.[notificationType] ?? true,
                 settings: {
                     lowStockThreshold: defaults[0]?.lowStockThreshold ?? 10,
+                    nearExpiryDaysThreshold: defaults[0]?.nearExpiryDaysThreshold ?? 30,
                     dueDebtDaysThreshold: defaults[0]?.dueDebtDaysThreshold ?? 7,
                 }
             };
@@ -730,6 +742,7 @@ export async function canSendTenantNotification(
             canSend: settings[notificationType] ?? false,
             settings: {
                 lowStockThreshold: settings.lowStockThreshold ?? 10,
+                nearExpiryDaysThreshold: settings.nearExpiryDaysThreshold ?? 30,
                 dueDebtDaysThreshold: settings.dueDebtDaysThreshold ?? 7,
             }
         };
@@ -825,7 +838,7 @@ export async function canSendNotificationToRoles(
 ): Promise<{
     canSend: boolean;
     targetRoles: string[];
-    settings: { lowStockThreshold?: number; dueDebtDaysThreshold?: number } | null;
+    settings: { lowStockThreshold?: number; nearExpiryDaysThreshold?: number; dueDebtDaysThreshold?: number } | null;
 }> {
     // First check if notification is enabled
     const check = await canSendTenantNotification(tenantId, notificationType);
@@ -927,6 +940,41 @@ export async function notifyLowStockBatch(
     );
 }
 
+/**
+ * Send a consolidated near-expiry notification for stock lots
+ * Expired lots are listed first so they can be pulled from the shelf
+ */
+export async function notifyNearExpiryBatch(
+    targetChatId: string | null,
+    lots: Array<{ name: string; sku: string; lotNumber: string; expiryDate: string; daysLeft: number; quantity: number; warehouseName?: string }>
+): Promise<boolean> {
+    if (lots.length === 0) return true;
+
+    const lotList = lots
+        .slice(0, 10) // Limit to 10 to avoid too long message
+        .map(l => {
+            const when = l.daysLeft < 0
+                ? `❌ muddati o'tgan (${l.expiryDate})`
+                : `${l.expiryDate} (${l.daysLeft} kun)`;
+            return `• <b>${escapeHtml(l.name)}</b> (${escapeHtml(l.sku)}) - partiya ${escapeHtml(l.lotNumber)}, ` +
+                `${l.quantity} dona, ${when}` +
+                (l.warehouseName ? ` - ${escapeHtml(l.warehouseName)}` : '');
+        })
+        .join('\n');
+
+    const moreText = lots.length > 10
+        ? `\n\n<i>...va yana ${lots.length - 10} ta partiya</i>`
+        : '';
+
+    return notifyUser(targetChatId,
+        `⏳ <b>Yaroqlilik muddati tugayapti</b>\n\n` +
+        `${lots.length} ta partiyaning muddati yaqin:\n\n` +
+        lotList +
+        moreText +
+        `\n\n${hashtagDate()} ${STATUS_TAGS.nearExpiry}`
+    );
+}
+
 export async function notifyPaymentReceived(
     targetChatId: string | null,
     payment: {
@@ -958,6 +1006,32 @@ export async function notifyPaymentReceived(
     );
 }
 
+export async function notifyPaymentReversed(
+    targetChatId: string | null,
+    reversal: {
+        amount: number;
+        currency: string;
+        customerName: string;
+        provider: string;
+        paymentNumber: string;
+        orderNumber?: string;
+        reason?: string;
+    }
+): Promise<boolean> {
+    const orderTag = reversal.orderNumber ? hashtagOrder(reversal.orderNumber) : '';
+
+    return notifyUser(targetChatId,
+        `⚠️ <b>Onlayn to'lov bekor qilindi</b>\n\n` +
+        `👤 Mijoz: ${escapeHtml(reversal.customerName)}\n` +
+        `💵 Summa: ${formatUzbekMoney(reversal.amount)} ${escapeHtml(reversal.currency)}\n` +
+        `💳 To'lov: ${escapeHtml(reversal.paymentNumber)} (${escapeHtml(reversal.provider)})\n` +
+        (reversal.orderNumber ? `📝 Buyurtma: #${escapeHtml(reversal.orderNumber)}\n` : '') +
+        (reversal.reason ? `📝 Sabab: ${escapeHtml(reversal.reason)}\n` : '') +
+        `\n${hashtagCustomer(reversal.customerName)} ${orderTag}\n` +
+        `${hashtagDate()} ${STATUS_TAGS.payment} ${STATUS_TAGS.cancelled}`
+    );
+}
+
 export async function notifyDeliveryCompleted(
     targetChatId: string | null,
     delivery: {
@@ -1460,20 +1534,23 @@ export async function notifyCustomerOutForDelivery(
 export async function notifyCustomerDelivered(
     tenantId: string,
     customer: { chatId: string; name: string },
-    order: { orderNumber: string; total: number; currency: string; deliveredItems?: number; totalItems?: number; driverName?: string; driverPhone?: string }
+    order: { orderNumber: string; total: number; currency: string; deliveredItems?: number; totalItems?: number; returnedAmount?: number; driverName?: string; driverPhone?: string }
 ): Promise<boolean> {
     if (!customer.chatId) return false;
 
-    const isPartial = order.deliveredItems && order.totalItems && order.deliveredItems < order.totalItems;
+    const isPartial = order.deliveredItems !== undefined && order.totalItems !== undefined && order.deliveredItems < order.totalItems;
+    // Goods refused at the door are taken back and deducted, not delivered later
+    const isReturned = !!order.returnedAmount;
 
     return sendToCustomer(tenantId, customer.chatId,
         `📦 <b>Buyurtma yetkazildi${isPartial ? ' (qisman)' : ''}!</b>\n\n` +
         `Assalomu alaykum ${escapeHtml(customer.name)},\n\n` +
         `Buyurtmangiz <b>#${escapeHtml(order.orderNumber)}</b> yetkazildi.\n\n` +
         (isPartial ? `📦 Yetkazildi: ${order.deliveredItems}/${order.totalItems} ta\n` : '') +
+        (isReturned ? `↩️ Qaytarildi: ${formatUzbekMoney(order.returnedAmount!)} ${escapeHtml(order.currency)}\n` : '') +
         (order.driverName ? `👨‍🚗 Kurier: ${escapeHtml(order.driverName)}${order.driverPhone ? ` (📞 ${escapeHtml(order.driverPhone)})` : ''}\n` : '') +
         `💰 Summa: ${formatUzbekMoney(order.total)} ${escapeHtml(order.currency)}\n\n` +
-        (isPartial ? `Qolgan mahsulotlar yetkazilganda xabar beramiz.` : `Xaridingiz uchun rahmat! 🙏`),
+        (isPartial && !isReturned ? `Qolgan mahsulotlar yetkazilganda xabar beramiz.` : `Xaridingiz uchun rahmat! 🙏`),
         {
             tenantId,
             recipientType: 'customer',
@@ -1651,6 +1728,49 @@ export async function processOverdueDebtNotifications(): Promise<{ processed: nu
     return { processed, sent };
 }
 
+/**
+ * Send each tenant a digest of stock lots expiring within its threshold
+ * Should be called by a scheduled job (daily)
+ */
+export async function processNearExpiryNotifications(): Promise<{ processed: number; sent: number }> {
+    let processed = 0;
+    let sent = 0;
+
+    try {
+        const tenants = await db
+            .select({ id: schema.tenants.id })
+            .from(schema.tenants)
+            .where(eq(schema.tenants.telegramEnabled, true));
+
+        for (const tenant of tenants) {
+            const { canSend, settings } = await canSendTenantNotification(tenant.id, 'notifyNearExpiry');
+            if (!canSend || !settings) continue;
+
+            const lots = await stockService.getNearExpiryLots(db, tenant.id, settings.nearExpiryDaysThreshold ?? 30);
+            if (lots.length === 0) continue;
+            processed += lots.length;
+
+            const admins = await getTenantAdminsWithTelegram(tenant.id);
+            for (const admin of admins) {
+                const success = await notifyNearExpiryBatch(admin.telegramChatId, lots.map(lot => ({
+                    name: lot.productName,
+                    sku: lot.sku,
+                    lotNumber: lot.lotNumber,
+                    expiryDate: lot.expiryDate,
+                    daysLeft: lot.daysLeft,
+                    quantity: lot.quantity,
+                    warehouseName: lot.warehouseName,
+                })));
+                if (success) sent++;
+            }
+        }
+    } catch (error) {
+        console.error('[Telegram] Error processing near-expiry lots:', error);
+    }
+
+    return { processed, sent };
+}
+
 // ============================================================================
 // BOT VALIDATION
 // ============================================================================
@@ -12,10 +12,14 @@ import { join } from 'path';
 import { CronJob } from 'cron';
 import { createWriteStream } from 'fs';
 import * as XLSX from 'xlsx';
+import { generalLedgerService } from '../services/general-ledger.service';
+import { journalTo1CXml, journalToCSV } from './accounting-export';
 
 // Types
+export type ExportFormat = 'json' | 'csv' | 'xlsx' | '1c_xml' | 'journal_csv';
+
 export interface ExportOptions {
-    format: 'json' | 'csv' | 'xlsx';
+    format: ExportFormat;
     includeProducts: boolean;
     includeCustomers: boolean;
     includeOrders: boolean;
@@ -106,6 +110,12 @@ export async function createTenantExport(
  */
 async function processExport(exportId: string, tenantId: string, options: ExportOptions): Promise<void> {
     try {
+        // Accounting formats hold the general ledger journal only
+        if (options.format === '1c_xml' || options.format === 'journal_csv') {
+            await writeJournalExport(exportId, tenantId, options);
+            return;
+        }
+
         const data: Record<string, any> = {};
         const dateFilter = options.dateFrom || options.dateTo
             ? { from: options.dateFrom, to: options.dateTo }
@@ -160,19 +170,7 @@ async function processExport(exportId: string, tenantId: string, options: Export
             await convertToExcel(data, filepath);
         }
 
-        const stats = await stat(filepath);
-
-        // Update export record
-        await db.update(schema.tenantExports)
-            .set({
-                status: 'completed',
-                filename,
-                fileSize: stats.size,
-                completedAt: new Date(),
-            })
-            .where(eq(schema.tenantExports.id, exportId));
-
-        console.log(`[TenantExport] Export ${exportId} completed: ${filename}`);
+        await markExportCompleted(exportId, filename);
     } catch (err: any) {
         console.error(`[TenantExport] Export ${exportId} failed:`, err);
 
@@ -186,6 +184,47 @@ async function processExport(exportId: string, tenantId: string, options: Export
     }
 }
 
+/**
+ * Write the journal in an accounting format (1C XML or CSV journal)
+ */
+async function writeJournalExport(exportId: string, tenantId: string, options: ExportOptions): Promise<void> {
+    const [tenant] = await db.select({ name: schema.tenants.name, currency: schema.tenants.currency })
+        .from(schema.tenants)
+        .where(eq(schema.tenants.id, tenantId))
+        .limit(1);
+
+    const journal = await generalLedgerService.getJournalForExport(tenantId, options.dateFrom, options.dateTo);
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const ext = options.format === '1c_xml' ? 'xml' : 'csv';
+    const filename = `journal-${tenantId.slice(0, 8)}-${timestamp}.${ext}`;
+
+    const fileContent = options.format === '1c_xml'
+        ? journalTo1CXml(journal, { tenantName: tenant?.name || '', currency: tenant?.currency || 'UZS' })
+        : journalToCSV(journal);
+    await writeFile(join(EXPORTS_DIR, filename), fileContent, 'utf-8');
+
+    await markExportCompleted(exportId, filename);
+}
+
+/**
+ * Record a written export file as ready for download
+ */
+async function markExportCompleted(exportId: string, filename: string): Promise<void> {
+    const stats = await stat(join(EXPORTS_DIR, filename));
+
+    await db.update(schema.tenantExports)
+        .set({
+            status: 'completed',
+            filename,
+            fileSize: stats.size,
+            completedAt: new Date(),
+        })
+        .where(eq(schema.tenantExports.id, exportId));
+
+    console.log(`[TenantExport] Export ${exportId} completed: ${filename}`);
+}
+
 /**
  * Fetch products for export
  */
@@ -434,7 +473,7 @@ export async function updateExportSettings(
     tenantId: string,
     updates: {
         frequency?: 'never' | 'daily' | 'weekly' | 'monthly';
-        format?: 'json' | 'csv' | 'xlsx';
+        format?: ExportFormat;
         scheduleTime?: string; // HH:MM format
         sendToTelegram?: boolean; // Send export file to admin Telegram
         includeProducts?: boolean;
@@ -583,7 +622,7 @@ async function runScheduledExports() {
             console.log(`[TenantExport] Running scheduled export for tenant ${settings.tenantId}`);
 
             const exportResult = await createTenantExport(settings.tenantId, settings.tenantId, {
-                format: (settings.format as 'json' | 'csv' | 'xlsx') || 'json',
+                format: settings.format || 'json',
                 includeProducts: settings.includeProducts ?? true,
                 includeCustomers: settings.includeCustomers ?? true,
                 includeOrders: settings.includeOrders ?? true,
@@ -8,6 +8,17 @@ export interface TenantDayRange {
     todayStr: string;
 }
 
+/**
+ * Calendar date (YYYY-MM-DD) in a timezone; the UTC date when the zone is unknown.
+ */
+export const getTenantLocalDate = (timezone: string, at: Date = new Date()): string => {
+    try {
+        return new Intl.DateTimeFormat('en-CA', { year: 'numeric', month: '2-digit', day: '2-digit', timeZone: timezone }).format(at);
+    } catch {
+        return at.toISOString().slice(0, 10);
+    }
+};
+
 export const getTenantDayRange = async (tenantId: string, now: Date = new Date()): Promise<TenantDayRange> => {
     const [tenant] = await db
         .select({ timezone: schema.tenants.timezone })
@@ -45,12 +56,7 @@ export const getTenantDayRange = async (tenantId: string, now: Date = new Date()
     const endOfDay = new Date(startOfDay);
     endOfDay.setDate(endOfDay.getDate() + 1);
 
-    const todayStr = new Intl.DateTimeFormat('en-CA', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        timeZone: timezone,
-    }).format(now);
+    const todayStr = getTenantLocalDate(timezone, now);
 
     return { timezone, startOfDay, endOfDay, todayStr };
 };
@@ -0,0 +1,336 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { generalLedgerService, ACCOUNTING_ROLES, SYSTEM_ROLES } from '../services/general-ledger.service';
+import { exchangeRateService } from '../services/exchange-rate.service';
+
+// Schemas
+const AccountIdParamsSchema = Type.Object({ id: Type.String() });
+
+const AccountTypeSchema = Type.Union([
+    Type.Literal('asset'),
+    Type.Literal('liability'),
+    Type.Literal('equity'),
+    Type.Literal('revenue'),
+    Type.Literal('expense'),
+]);
+
+const SystemRoleSchema = Type.Union(SYSTEM_ROLES.map(role => Type.Literal(role)));
+
+const CreateAccountBodySchema = Type.Object({
+    code: Type.String({ minLength: 1, maxLength: 20 }),
+    name: Type.String({ minLength: 1, maxLength: 255 }),
+    type: AccountTypeSchema,
+});
+
+const UpdateAccountBodySchema = Type.Object({
+    name: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+    isActive: Type.Optional(Type.Boolean()),
+    systemRole: Type.Optional(SystemRoleSchema),
+});
+
+const PaymentMethodAccountBodySchema = Type.Object({
+    // null posts the method's money to the cash account again
+    accountId: Type.Union([Type.String(), Type.Null()]),
+});
+
+const JournalQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    from: Type.Optional(Type.String({ format: 'date' })),
+    to: Type.Optional(Type.String({ format: 'date' })),
+    sourceType: Type.Optional(Type.String()),
+    accountId: Type.Optional(Type.String()),
+});
+
+const PeriodQuerySchema = Type.Object({
+    from: Type.Optional(Type.String({ format: 'date' })),
+    to: Type.Optional(Type.String({ format: 'date' })),
+});
+
+const CurrencyCodeSchema = Type.String({ pattern: '^[A-Za-z]{3}$' });
+
+const RatesQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    currency: Type.Optional(CurrencyCodeSchema),
+    from: Type.Optional(Type.String({ format: 'date' })),
+    to: Type.Optional(Type.String({ format: 'date' })),
+});
+
+const SetRateBodySchema = Type.Object({
+    currency: CurrencyCodeSchema,
+    rate: Type.Number({ exclusiveMinimum: 0 }),
+    rateDate: Type.String({ format: 'date' }),
+});
+
+const ImportRatesBodySchema = Type.Object({
+    // Contents of a CBU rates file, JSON or XML
+    content: Type.String({ minLength: 1 }),
+});
+
+const ConvertQuerySchema = Type.Object({
+    amount: Type.String(),
+    from: CurrencyCodeSchema,
+    to: Type.Optional(CurrencyCodeSchema),
+    date: Type.Optional(Type.String({ format: 'date' })),
+});
+
+type CreateAccountBody = Static<typeof CreateAccountBodySchema>;
+type UpdateAccountBody = Static<typeof UpdateAccountBodySchema>;
+type PaymentMethodAccountBody = Static<typeof PaymentMethodAccountBodySchema>;
+type JournalQuery = Static<typeof JournalQuerySchema>;
+type PeriodQuery = Static<typeof PeriodQuerySchema>;
+type RatesQuery = Static<typeof RatesQuerySchema>;
+type SetRateBody = Static<typeof SetRateBodySchema>;
+type ImportRatesBody = Static<typeof ImportRatesBodySchema>;
+type ConvertQuery = Static<typeof ConvertQuerySchema>;
+
+const accountingError = (message: string): [number, string] => {
+    if (message.includes('not found')) return [404, 'NOT_FOUND'];
+    return [400, 'BAD_REQUEST'];
+};
+
+// Defaults to the current month
+const period = (query: PeriodQuery) => {
+    const today = new Date().toISOString().slice(0, 10);
+    return { from: query.from ?? `${today.slice(0, 8)}01`, to: query.to ?? today };
+};
+
+export const accountingRoutes: FastifyPluginAsync = async (fastify) => {
+    // ----------------------------------------------------------------
+    // CHART OF ACCOUNTS
+    // ----------------------------------------------------------------
+
+    fastify.get('/accounts', {
+        preHandler: [fastify.authenticate],
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const accounts = await generalLedgerService.getAccounts(user.tenantId);
+        return { success: true, data: accounts, meta: { systemRoles: SYSTEM_ROLES } };
+    });
+
+    fastify.post<{ Body: CreateAccountBody }>('/accounts', {
+        preHandler: [fastify.authenticate],
+        schema: { body: CreateAccountBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const account = await generalLedgerService.createAccount(user.tenantId, {
+                ...request.body,
+                code: request.body.code.trim(),
+                name: request.body.name.trim(),
+            });
+            return { success: true, data: account };
+        } catch (error: any) {
+            const [status, code] = accountingError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    fastify.patch<{ Params: Static<typeof AccountIdParamsSchema>; Body: UpdateAccountBody }>('/accounts/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: AccountIdParamsSchema, body: UpdateAccountBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const account = await generalLedgerService.updateAccount(user.tenantId, request.params.id, request.body);
+            return { success: true, data: account };
+        } catch (error: any) {
+            const [status, code] = accountingError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Account a payment method's money is posted to
+    fastify.put<{ Params: Static<typeof AccountIdParamsSchema>; Body: PaymentMethodAccountBody }>('/payment-methods/:id/account', {
+        preHandler: [fastify.authenticate],
+        schema: { params: AccountIdParamsSchema, body: PaymentMethodAccountBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const method = await generalLedgerService.setPaymentMethodAccount(user.tenantId, request.params.id, request.body.accountId);
+            return { success: true, data: method };
+        } catch (error: any) {
+            const [status, code] = accountingError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // ----------------------------------------------------------------
+    // JOURNAL AND REPORTS
+    // ----------------------------------------------------------------
+
+    fastify.get<{ Querystring: JournalQuery }>('/journal', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: JournalQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { page: pageStr = '1', limit: limitStr = '50', ...filters } = request.query;
+        const page = Math.max(1, parseInt(pageStr) || 1);
+        const limit = Math.min(200, Math.max(1, parseInt(limitStr) || 50));
+
+        const { rows, total } = await generalLedgerService.listEntries(user.tenantId, { ...filters, page, limit });
+        return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+    });
+
+    fastify.get<{ Querystring: PeriodQuery }>('/trial-balance', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: PeriodQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { from, to } = period(request.query);
+        if (from > to) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'from must not be after to' } });
+        }
+
+        const trialBalance = await generalLedgerService.getTrialBalance(user.tenantId, from, to);
+        return { success: true, data: trialBalance };
+    });
+
+    fastify.get<{ Querystring: PeriodQuery }>('/profit-and-loss', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: PeriodQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { from, to } = period(request.query);
+        if (from > to) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'from must not be after to' } });
+        }
+
+        const profitAndLoss = await generalLedgerService.getProfitAndLoss(user.tenantId, from, to);
+        return { success: true, data: profitAndLoss };
+    });
+
+    // ----------------------------------------------------------------
+    // EXCHANGE RATES
+    // ----------------------------------------------------------------
+
+    fastify.get<{ Querystring: RatesQuery }>('/exchange-rates', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: RatesQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { page: pageStr = '1', limit: limitStr = '50', ...filters } = request.query;
+        const page = Math.max(1, parseInt(pageStr) || 1);
+        const limit = Math.min(200, Math.max(1, parseInt(limitStr) || 50));
+
+        const [{ rows, total }, baseCurrency] = await Promise.all([
+            exchangeRateService.listRates(user.tenantId, { ...filters, page, limit }),
+            exchangeRateService.getBaseCurrency(user.tenantId),
+        ]);
+        return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit), baseCurrency } };
+    });
+
+    // Manual entry; replaces the currency's rate for that day
+    fastify.put<{ Body: SetRateBody }>('/exchange-rates', {
+        preHandler: [fastify.authenticate],
+        schema: { body: SetRateBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const rate = await exchangeRateService.setRate(user.tenantId, request.body, user.id);
+            return { success: true, data: rate };
+        } catch (error: any) {
+            const [status, code] = accountingError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    fastify.delete<{ Params: Static<typeof AccountIdParamsSchema> }>('/exchange-rates/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: AccountIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            await exchangeRateService.deleteRate(user.tenantId, request.params.id);
+            return { success: true };
+        } catch (error: any) {
+            const [status, code] = accountingError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    fastify.post<{ Body: ImportRatesBody }>('/exchange-rates/import', {
+        preHandler: [fastify.authenticate],
+        schema: { body: ImportRatesBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const result = await exchangeRateService.importCbu(user.tenantId, request.body.content, user.id);
+            return { success: true, data: result };
+        } catch (error: any) {
+            const [status, code] = accountingError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Converts to the base currency unless `to` is given, at today's rate by default
+    fastify.get<{ Querystring: ConvertQuery }>('/exchange-rates/convert', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ConvertQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!ACCOUNTING_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const amount = Number(request.query.amount);
+        if (!Number.isFinite(amount)) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'amount must be a number' } });
+        }
+
+        try {
+            const to = request.query.to ?? await exchangeRateService.getBaseCurrency(user.tenantId);
+            const date = request.query.date ?? new Date().toISOString().slice(0, 10);
+            const result = await exchangeRateService.convert(user.tenantId, amount, request.query.from, to, date);
+            return { success: true, data: { ...result, from: request.query.from.toUpperCase(), to: to.toUpperCase(), date } };
+        } catch (error: any) {
+            const [status, code] = accountingError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+};
@@ -13,6 +13,10 @@ import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, inArray, sql } from 'drizzle-orm';
 import { ordersService } from '../services/orders.service';
+import { customerLedgerService } from '../services/customer-ledger.service';
+import { invoiceService } from '../services/invoice.service';
+import { generalLedgerService } from '../services/general-ledger.service';
+import { packingService } from '../services/packing.service';
 
 // ============================================================================
 // SCHEMAS
@@ -135,6 +139,7 @@ export const batchOrderRoutes: FastifyPluginAsync = async (fastify) => {
                     status: schema.orders.status,
                     tenantId: schema.orders.tenantId,
                     customerId: schema.orders.customerId,
+                    totalAmount: schema.orders.totalAmount,
                 })
                 .from(schema.orders)
                 .where(and(
@@ -177,6 +182,19 @@ export const batchOrderRoutes: FastifyPluginAsync = async (fastify) => {
                     continue;
                 }
 
+                // An order being packed loads once its packing session is verified
+                if (newStatus === 'loaded' && await packingService.isBeingPacked(tx, orderId)) {
+                    results.push({
+                        orderId,
+                        orderNumber: order.orderNumber,
+                        success: false,
+                        error: 'Finish packing and verifying the order before loading',
+                        previousStatus: currentStatus
+                    });
+                    failed++;
+                    continue;
+                }
+
                 // Perform the update
                 try {
                     await tx
@@ -199,6 +217,13 @@ export const batchOrderRoutes: FastifyPluginAsync = async (fastify) => {
                         notes: notes || `Batch status change to ${newStatus}`,
                     });
 
+                    if (['delivered', 'partial'].includes(newStatus)) {
+                        await ordersService.recordFullDelivery(tx, orderId);
+                        await customerLedgerService.postDelivery(tx, order, user.id);
+                        await generalLedgerService.postDelivery(tx, orderId, user.id);
+                    }
+                    await invoiceService.onOrderStatus(tx, order, newStatus, user.id);
+
                     results.push({
                         orderId,
                         orderNumber: order.orderNumber,
@@ -580,6 +605,7 @@ export const batchOrderRoutes: FastifyPluginAsync = async (fastify) => {
                     orderNumber: schema.orders.orderNumber,
                     status: schema.orders.status,
                     tenantId: schema.orders.tenantId,
+                    warehouseId: schema.orders.warehouseId,
                     customerId: schema.orders.customerId,
                     totalAmount: schema.orders.totalAmount,
                 })
@@ -629,14 +655,10 @@ export const batchOrderRoutes: FastifyPluginAsync = async (fastify) => {
                         .where(eq(schema.orderItems.orderId, orderId));
 
                     // Release reserved stock
-                    for (const item of items) {
-                        await tx
-                            .update(schema.products)
-                            .set({
-                                reservedQuantity: sql`GREATEST(0, ${schema.products.reservedQuantity} - ${item.qtyOrdered})`,
-                            })
-                            .where(eq(schema.products.id, item.productId));
-                    }
+                    await ordersService.releaseStock(tx, items.map(item => ({
+                        productId: item.productId,
+                        quantity: item.qtyOrdered,
+                    })), order);
 
                     // Reduce customer debt
                     await tx
@@ -667,6 +689,7 @@ export const batchOrderRoutes: FastifyPluginAsync = async (fastify) => {
                         changedBy: user.id,
                         notes: reason || 'Batch cancellation',
                     });
+                    await invoiceService.cancelForOrder(tx, orderId);
 
                     results.push({
                         orderId,
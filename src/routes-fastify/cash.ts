@@ -0,0 +1,230 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { db, schema } from '../db';
+import { eq, and, sql, desc } from 'drizzle-orm';
+import { getTenantDayRange } from '../lib/tenant-time';
+import { cashService, CASH_COLLECTOR_ROLES, CASHIER_ROLES } from '../services/cash.service';
+
+// Schemas
+const HandoverIdParamsSchema = Type.Object({ id: Type.String() });
+
+const ListHandoversQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    status: Type.Optional(Type.String()),
+    userId: Type.Optional(Type.String()),
+    date: Type.Optional(Type.String()),
+});
+
+const SubmitHandoverBodySchema = Type.Object({
+    businessDate: Type.Optional(Type.String({ format: 'date' })),
+    lines: Type.Array(Type.Object({
+        paymentMethodId: Type.String(),
+        declaredAmount: Type.Number({ minimum: 0 }),
+    })),
+    notes: Type.Optional(Type.String({ maxLength: 1000 })),
+});
+
+const ConfirmHandoverBodySchema = Type.Object({
+    lines: Type.Optional(Type.Array(Type.Object({
+        paymentMethodId: Type.String(),
+        receivedAmount: Type.Number({ minimum: 0 }),
+    }))),
+    notes: Type.Optional(Type.String({ maxLength: 1000 })),
+});
+
+const RejectHandoverBodySchema = Type.Object({
+    reason: Type.String({ minLength: 1, maxLength: 1000 }),
+});
+
+const ReconciliationQuerySchema = Type.Object({
+    date: Type.Optional(Type.String({ format: 'date' })),
+    userId: Type.Optional(Type.String()),
+});
+
+type ListHandoversQuery = Static<typeof ListHandoversQuerySchema>;
+type SubmitHandoverBody = Static<typeof SubmitHandoverBodySchema>;
+type ConfirmHandoverBody = Static<typeof ConfirmHandoverBodySchema>;
+type RejectHandoverBody = Static<typeof RejectHandoverBodySchema>;
+type ReconciliationQuery = Static<typeof ReconciliationQuerySchema>;
+
+const handoverError = (message: string): [number, string] => {
+    if (message.includes('not found')) return [404, 'NOT_FOUND'];
+    if (message.includes('your own')) return [403, 'FORBIDDEN'];
+    return [400, 'BAD_REQUEST'];
+};
+
+export const cashRoutes: FastifyPluginAsync = async (fastify) => {
+    // Current user's cash on hand and open handover
+    fastify.get('/me', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+        const user = request.user!;
+        if (!CASH_COLLECTOR_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const onHand = await cashService.getOnHand(user.tenantId, user.id);
+        const recent = await db.select().from(schema.cashHandovers)
+            .where(and(eq(schema.cashHandovers.tenantId, user.tenantId), eq(schema.cashHandovers.userId, user.id)))
+            .orderBy(desc(schema.cashHandovers.submittedAt))
+            .limit(10);
+
+        return {
+            success: true,
+            data: { ...onHand, openHandover: recent.find(h => h.status === 'submitted') ?? null, recentHandovers: recent },
+        };
+    });
+
+    // Cash on hand of all field users
+    fastify.get('/balances', { preHandler: [fastify.authenticate] }, async (request, reply) => {
+        const user = request.user!;
+        if (!CASHIER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const balances = await cashService.listBalances(user.tenantId);
+        return { success: true, data: balances };
+    });
+
+    // List handovers
+    fastify.get<{ Querystring: ListHandoversQuery }>('/handovers', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ListHandoversQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { page: pageStr = '1', limit: limitStr = '20', status, userId, date } = request.query;
+        const page = parseInt(pageStr);
+        const limit = parseInt(limitStr);
+        const offset = (page - 1) * limit;
+
+        const conditions: any[] = [eq(schema.cashHandovers.tenantId, user.tenantId)];
+        if (CASHIER_ROLES.includes(user.role)) {
+            if (userId) conditions.push(eq(schema.cashHandovers.userId, userId));
+        } else if (CASH_COLLECTOR_ROLES.includes(user.role)) {
+            conditions.push(eq(schema.cashHandovers.userId, user.id));
+        } else {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+        if (status) conditions.push(eq(schema.cashHandovers.status, status as any));
+        if (date) conditions.push(eq(schema.cashHandovers.businessDate, date));
+
+        const handovers = await db.select({
+            id: schema.cashHandovers.id,
+            userId: schema.cashHandovers.userId,
+            userName: schema.users.name,
+            businessDate: schema.cashHandovers.businessDate,
+            status: schema.cashHandovers.status,
+            expectedAmount: schema.cashHandovers.expectedAmount,
+            declaredAmount: schema.cashHandovers.declaredAmount,
+            receivedAmount: schema.cashHandovers.receivedAmount,
+            differenceAmount: schema.cashHandovers.differenceAmount,
+            submittedAt: schema.cashHandovers.submittedAt,
+            confirmedAt: schema.cashHandovers.confirmedAt,
+        }).from(schema.cashHandovers)
+            .leftJoin(schema.users, eq(schema.cashHandovers.userId, schema.users.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.cashHandovers.submittedAt))
+            .limit(limit).offset(offset);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.cashHandovers).where(and(...conditions));
+
+        return { success: true, data: handovers, meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) } };
+    });
+
+    // Get handover detail
+    fastify.get<{ Params: Static<typeof HandoverIdParamsSchema> }>('/handovers/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: HandoverIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const handover = await cashService.getHandover(user.tenantId, request.params.id);
+
+        if (!handover || (!CASHIER_ROLES.includes(user.role) && handover.userId !== user.id)) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+
+        return { success: true, data: handover };
+    });
+
+    // Close the day: declare the cash being handed over
+    fastify.post<{ Body: SubmitHandoverBody }>('/handovers', {
+        preHandler: [fastify.authenticate],
+        schema: { body: SubmitHandoverBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CASH_COLLECTOR_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const handover = await cashService.submitHandover(user.tenantId, user.id, request.body);
+            return { success: true, data: handover };
+        } catch (error: any) {
+            const [status, code] = handoverError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Cashier confirms receipt
+    fastify.post<{ Params: Static<typeof HandoverIdParamsSchema>; Body: ConfirmHandoverBody }>('/handovers/:id/confirm', {
+        preHandler: [fastify.authenticate],
+        schema: { params: HandoverIdParamsSchema, body: ConfirmHandoverBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CASHIER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const handover = await cashService.confirmHandover(user.tenantId, user.id, request.params.id, request.body);
+            return { success: true, data: handover };
+        } catch (error: any) {
+            const [status, code] = handoverError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Cashier sends a handover back to the collector
+    fastify.post<{ Params: Static<typeof HandoverIdParamsSchema>; Body: RejectHandoverBody }>('/handovers/:id/reject', {
+        preHandler: [fastify.authenticate],
+        schema: { params: HandoverIdParamsSchema, body: RejectHandoverBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CASHIER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const handover = await cashService.rejectHandover(user.tenantId, user.id, request.params.id, request.body.reason);
+            return { success: true, data: handover };
+        } catch (error: any) {
+            const [status, code] = handoverError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Reconciliation report per user for one day
+    fastify.get<{ Querystring: ReconciliationQuery }>('/reconciliation', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ReconciliationQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CASHIER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const date = request.query.date ?? (await getTenantDayRange(user.tenantId)).todayStr;
+        const rows = await cashService.getReconciliation(user.tenantId, date, request.query.userId);
+
+        const totals = rows.reduce((sum, row) => ({
+            collected: sum.collected + row.collected,
+            declared: sum.declared + row.declared,
+            received: sum.received + row.received,
+            shortage: sum.shortage + row.shortage,
+            overage: sum.overage + row.overage,
+            onHand: sum.onHand + row.onHand,
+        }), { collected: 0, declared: 0, received: 0, shortage: 0, overage: 0, onHand: 0 });
+
+        return { success: true, data: { date, rows, totals } };
+    });
+};
@@ -0,0 +1,130 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { creditNoteService, CREDIT_NOTE_APPROVER_ROLES } from '../services/credit-note.service';
+
+// Schemas
+const CreditNoteIdParamsSchema = Type.Object({ id: Type.String() });
+
+const ListCreditNotesQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    status: Type.Optional(Type.String()),
+    customerId: Type.Optional(Type.String()),
+    orderId: Type.Optional(Type.String()),
+    search: Type.Optional(Type.String()),
+});
+
+const RejectCreditNoteBodySchema = Type.Object({
+    reason: Type.Optional(Type.String()),
+});
+
+const AllocateCreditNoteBodySchema = Type.Object({
+    // Omit to allocate the remainder oldest order first
+    allocations: Type.Optional(Type.Array(Type.Object({
+        orderId: Type.String(),
+        amount: Type.Number({ exclusiveMinimum: 0 }),
+    }))),
+});
+
+type ListCreditNotesQuery = Static<typeof ListCreditNotesQuerySchema>;
+type RejectCreditNoteBody = Static<typeof RejectCreditNoteBodySchema>;
+type AllocateCreditNoteBody = Static<typeof AllocateCreditNoteBodySchema>;
+
+const creditNoteError = (message: string): [number, string] => {
+    if (message.includes('not found')) return [404, 'NOT_FOUND'];
+    return [400, 'BAD_REQUEST'];
+};
+
+export const creditNoteRoutes: FastifyPluginAsync = async (fastify) => {
+    // List credit notes
+    fastify.get<{ Querystring: ListCreditNotesQuery }>('/', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ListCreditNotesQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CREDIT_NOTE_APPROVER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { page: pageStr = '1', limit: limitStr = '20', ...filters } = request.query;
+        const page = Math.max(1, parseInt(pageStr) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(limitStr) || 20));
+
+        const { rows, total } = await creditNoteService.list(user.tenantId, { ...filters, page, limit });
+        return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+    });
+
+    // Credit note detail
+    fastify.get<{ Params: Static<typeof CreditNoteIdParamsSchema> }>('/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CreditNoteIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CREDIT_NOTE_APPROVER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const note = await creditNoteService.getById(user.tenantId, request.params.id);
+        if (!note) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+        return { success: true, data: note };
+    });
+
+    // Approve a credit note waiting for approval
+    fastify.post<{ Params: Static<typeof CreditNoteIdParamsSchema> }>('/:id/approve', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CreditNoteIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CREDIT_NOTE_APPROVER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const note = await creditNoteService.approve(user.tenantId, request.params.id, user);
+            return { success: true, data: note };
+        } catch (error: any) {
+            const [status, code] = creditNoteError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Reject a credit note waiting for approval
+    fastify.post<{ Params: Static<typeof CreditNoteIdParamsSchema>; Body: RejectCreditNoteBody }>('/:id/reject', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CreditNoteIdParamsSchema, body: RejectCreditNoteBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CREDIT_NOTE_APPROVER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const note = await creditNoteService.reject(user.tenantId, request.params.id, user, request.body.reason);
+            return { success: true, data: note };
+        } catch (error: any) {
+            const [status, code] = creditNoteError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Allocate the unallocated credit to open orders
+    fastify.post<{ Params: Static<typeof CreditNoteIdParamsSchema>; Body: AllocateCreditNoteBody }>('/:id/allocate', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CreditNoteIdParamsSchema, body: AllocateCreditNoteBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!CREDIT_NOTE_APPROVER_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const allocations = await creditNoteService.allocate(user.tenantId, request.params.id, request.body.allocations, user.id);
+            return { success: true, data: allocations };
+        } catch (error: any) {
+            const [status, code] = creditNoteError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+};
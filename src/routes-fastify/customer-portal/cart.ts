@@ -11,6 +11,8 @@ import * as schema from '../../db/schema';
 import { eq } from 'drizzle-orm';
 import { createErrorResponse, createSuccessResponse } from '../../lib/error-codes';
 import { requireCustomerAuth } from './middleware';
+import { priceListService } from '../../services/price-list.service';
+import { productUnitService, type ProductUnitName } from '../../services/product-unit.service';
 
 // ============================================================================
 // SCHEMAS
@@ -20,7 +22,12 @@ const UpdateCartSchema = {
     body: Type.Object({
         items: Type.Array(Type.Object({
             productId: Type.String(),
-            quantity: Type.Number()
+            // In the unit below; the product's base unit when omitted
+            quantity: Type.Number(),
+            unit: Type.Optional(Type.Union([
+                Type.Union(schema.productUnitEnum.enumValues.map(unit => Type.Literal(unit))),
+                Type.Null()
+            ]))
         }))
     })
 };
@@ -61,11 +68,13 @@ export const cartRoutes: FastifyPluginAsync = async (fastify) => {
             .select({
                 productId: schema.cartItems.productId,
                 quantity: schema.cartItems.quantity,
+                unit: schema.cartItems.unit,
                 product: {
                     id: schema.products.id,
                     name: schema.products.name,
                     sku: schema.products.sku,
                     price: schema.products.price,
+                    unit: schema.products.unit,
                     imageUrl: schema.products.imageUrl,
                     stockQuantity: schema.products.stockQuantity,
                     isActive: schema.products.isActive,
@@ -75,16 +84,21 @@ export const cartRoutes: FastifyPluginAsync = async (fastify) => {
             .innerJoin(schema.products, eq(schema.cartItems.productId, schema.products.id))
             .where(eq(schema.cartItems.cartId, cart.id));
 
+        const prices = await priceListService.getCustomerPrices(customerAuth.tenantId, customerAuth.customerId, items.map(i => i.productId));
+        const units = await productUnitService.unitsForProducts(customerAuth.tenantId, items.map(i => i.productId));
+
         return {
             success: true,
             data: items.map(i => ({
                 product: {
                     ...i.product,
-                    sellingPrice: Number(i.product.price),
+                    sellingPrice: prices.get(i.productId)?.price ?? Number(i.product.price),
+                    units: (units.get(i.productId) ?? []).map(u => ({ unit: u.unit, factor: u.factor })),
                     stockQty: Number(i.product.stockQuantity || 0),
                     inStock: Number(i.product.stockQuantity || 0) > 0
                 },
-                quantity: i.quantity
+                quantity: i.quantity,
+                unit: i.unit
             }))
         };
     });
@@ -97,7 +111,7 @@ export const cartRoutes: FastifyPluginAsync = async (fastify) => {
         preHandler: [requireCustomerAuth]
     }, async (request, reply) => {
         const customerAuth = request.customerAuth!;
-        const { items } = request.body as { items: { productId: string; quantity: number }[] };
+        const { items } = request.body as { items: { productId: string; quantity: number; unit?: ProductUnitName | null }[] };
 
         // Get or create cart
         let [cart] = await db
@@ -130,6 +144,7 @@ export const cartRoutes: FastifyPluginAsync = async (fastify) => {
                     items.map((i: any) => ({
                         cartId: cart.id,
                         productId: i.productId,
+                        unit: i.unit ?? null,
                         quantity: i.quantity,
                         createdAt: new Date()
                     }))
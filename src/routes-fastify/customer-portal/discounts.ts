@@ -1,7 +1,7 @@
 /**
  * Customer Portal - Discount Routes (Fastify)
  * 
- * Discount code validation and application for customer orders.
+ * Promo code validation and cart previews for customer orders.
  */
 
 import { FastifyPluginAsync } from 'fastify';
@@ -11,41 +11,48 @@ import * as schema from '../../db/schema';
 import { eq, and, sql, gte, lte, or, isNull } from 'drizzle-orm';
 import { createErrorResponse } from '../../lib/error-codes';
 import { requireCustomerAuth } from './middleware';
+import { pricingService, type PriceQuote } from '../../services/pricing.service';
+import { promoCodeService, type ResolvedPromoCode } from '../../services/promo-code.service';
+import { PromoCodeError } from '../../errors';
 
 // ============================================================================
 // DISCOUNT CALCULATION TYPES
 // ============================================================================
 
 interface DiscountResult {
+    promoCode: string;
     discountId: string;
     discountName: string;
     discountType: string;
     discountValue: number;
+    // What this discount gives on the cart
     discountAmount: number;
     originalTotal: number;
+    // After every discount the cart gets
     newTotal: number;
+    quote: PriceQuote;
 }
 
 // ============================================================================
 // SCHEMAS
 // ============================================================================
 
+// Prices are taken from the catalog, never from the cart
+const CartItemsSchema = Type.Array(Type.Object({
+    productId: Type.String(),
+    quantity: Type.Number({ minimum: 1 })
+}), { minItems: 1 });
+
 const ValidateDiscountSchema = {
     body: Type.Object({
         code: Type.String(),
-        cartTotal: Type.Number({ minimum: 0 }),
-        items: Type.Optional(Type.Array(Type.Object({
-            productId: Type.String(),
-            quantity: Type.Number({ minimum: 1 }),
-            unitPrice: Type.Optional(Type.Number({ minimum: 0 }))
-        })))
+        items: CartItemsSchema
     })
 };
 
 const PreviewDiscountSchema = {
     body: Type.Object({
-        cartTotal: Type.Number(),
-        itemsCount: Type.Optional(Type.Number())
+        items: CartItemsSchema
     })
 };
 
@@ -84,134 +91,66 @@ export const discountRoutes: FastifyPluginAsync = async (fastify) => {
         preHandler: [requireCustomerAuth]
     }, async (request, reply) => {
         const customerAuth = request.customerAuth!;
-        const { code, cartTotal, items } = request.body as {
+        const { code, items } = request.body as {
             code: string;
-            cartTotal: number;
-            items?: { productId: string; quantity: number; unitPrice?: number }[]
+            items: { productId: string; quantity: number }[]
         };
 
         if (!code || !code.trim()) {
             return reply.status(400).send(createErrorResponse('INVALID_INPUT'));
         }
 
-        const now = new Date();
-
-        // Find discount by code (name is used as code)
-        const [discount] = await db
-            .select()
-            .from(schema.discounts)
-            .where(and(
-                eq(schema.discounts.tenantId, customerAuth.tenantId),
-                sql`LOWER(${schema.discounts.name}) = ${code.toLowerCase().trim()}`,
-                eq(schema.discounts.isActive, true),
-                or(
-                    isNull(schema.discounts.startsAt),
-                    lte(schema.discounts.startsAt, now)
-                ),
-                or(
-                    isNull(schema.discounts.endsAt),
-                    gte(schema.discounts.endsAt, now)
-                )
-            ))
-            .limit(1);
-
-        if (!discount) {
-            return reply.status(404).send(createErrorResponse('DISCOUNT_NOT_FOUND'));
-        }
-
-        // Check if discount is active
-        if (!discount.isActive) {
-            return reply.status(400).send(createErrorResponse('DISCOUNT_INACTIVE'));
-        }
-
-        // Check date validity
-        if (discount.startsAt && now < discount.startsAt) {
-            return reply.status(400).send(createErrorResponse('DISCOUNT_INACTIVE'));
-        }
-        if (discount.endsAt && now > discount.endsAt) {
-            return reply.status(400).send(createErrorResponse('DISCOUNT_EXPIRED'));
+        // Limits and first-order rule are checked here and again at checkout
+        let promo: ResolvedPromoCode;
+        try {
+            promo = await promoCodeService.resolve(customerAuth.tenantId, customerAuth.customerId, code);
+        } catch (error: any) {
+            if (error instanceof PromoCodeError) {
+                return reply.status(error.code === 'DISCOUNT_NOT_FOUND' ? 404 : 400).send(createErrorResponse(error.code));
+            }
+            throw error;
         }
 
-        // Check minimum order amount
-        const minOrderAmount = discount.minOrderAmount ? Number(discount.minOrderAmount) : 0;
-        if (minOrderAmount > 0 && cartTotal < minOrderAmount) {
-            return reply.status(400).send({
-                success: false,
-                error: {
-                    code: 'DISCOUNT_MIN_NOT_MET',
-                    message: `Minimal buyurtma summasi: ${minOrderAmount.toLocaleString()} so'm`,
-                    minOrderAmount
-                }
+        // Price the cart; the code's discount is what the engine gives it
+        let quote: PriceQuote;
+        try {
+            quote = await pricingService.quote({
+                tenantId: customerAuth.tenantId,
+                customerId: customerAuth.customerId,
+                lines: items.map(i => ({ productId: i.productId, quantity: i.quantity })),
+                promoDiscountIds: [promo.discountId],
             });
+        } catch (error: any) {
+            return reply.status(400).send(createErrorResponse('INVALID_INPUT', 'uz', [error.message]));
         }
 
-        // Calculate discount amount based on type
-        let discountAmount = 0;
-        const discountValue = Number(discount.value || 0);
-
-        switch (discount.type) {
-            case 'percentage':
-                discountAmount = (cartTotal * discountValue) / 100;
-                // Apply max discount if set
-                if (discount.maxDiscountAmount) {
-                    const maxDiscount = Number(discount.maxDiscountAmount);
-                    discountAmount = Math.min(discountAmount, maxDiscount);
-                }
-                break;
-
-            case 'fixed':
-                discountAmount = discountValue;
-                break;
-
-            case 'buy_x_get_y':
-                // Calculate based on items quantity
-                if (discount.minQty && discount.freeQty) {
-                    const totalQty = items?.reduce((sum: number, i: any) => sum + i.quantity, 0) || 0;
-                    const sets = Math.floor(totalQty / (discount.minQty + discount.freeQty));
-                    // For B2G1, free items would be calculated from average price
-                    if (sets > 0 && items && items.length > 0) {
-                        const avgPrice = cartTotal / totalQty;
-                        discountAmount = sets * discount.freeQty * avgPrice;
-                    }
-                }
-                break;
-
-            case 'volume':
-                // Fetch volume tiers and apply appropriate discount
-                const tiers = await db
-                    .select()
-                    .from(schema.volumeTiers)
-                    .where(eq(schema.volumeTiers.discountId, discount.id))
-                    .orderBy(schema.volumeTiers.minQty);
-
-                if (tiers.length > 0) {
-                    const totalQty = items?.reduce((sum: number, i: any) => sum + i.quantity, 0) || 0;
-                    // Find applicable tier
-                    let applicableTier = null;
-                    for (const tier of tiers) {
-                        if (totalQty >= (tier.minQty || 0)) {
-                            applicableTier = tier;
-                        }
+        const applied = quote.appliedDiscounts.find(d => d.id === promo.discountId);
+        if (!applied) {
+            const minOrderAmount = promo.minOrderAmount;
+            const afterTier = quote.subtotalAmount - quote.lines.reduce((sum, line) => sum + line.tierDiscount, 0);
+            if (minOrderAmount > 0 && afterTier < minOrderAmount) {
+                return reply.status(400).send({
+                    success: false,
+                    error: {
+                        code: 'DISCOUNT_MIN_NOT_MET',
+                        message: `Minimal buyurtma summasi: ${minOrderAmount.toLocaleString()} so'm`,
+                        minOrderAmount
                     }
-                    if (applicableTier && applicableTier.discountPercent) {
-                        discountAmount = (cartTotal * Number(applicableTier.discountPercent)) / 100;
-                    }
-                }
-                break;
+                });
+            }
+            return reply.status(400).send(createErrorResponse('DISCOUNT_NOT_APPLICABLE'));
         }
 
-        // Ensure discount doesn't exceed cart total
-        discountAmount = Math.min(discountAmount, cartTotal);
-        discountAmount = Math.round(discountAmount * 100) / 100;
-
         const result: DiscountResult = {
-            discountId: discount.id,
-            discountName: discount.name,
-            discountType: discount.type,
-            discountValue,
-            discountAmount,
-            originalTotal: cartTotal,
-            newTotal: cartTotal - discountAmount
+            promoCode: promo.code,
+            discountId: promo.discountId,
+            discountName: promo.discountName,
+            discountType: promo.discountType,
+            discountValue: promo.discountValue,
+            discountAmount: applied.amount,
+            originalTotal: quote.subtotalAmount,
+            newTotal: quote.totalAmount,
+            quote
         };
 
         return {
@@ -222,7 +161,8 @@ export const discountRoutes: FastifyPluginAsync = async (fastify) => {
 
     /**
      * Get available discounts for customer
-     * Returns active public discounts without requiring a code
+     * Returns active public discounts without requiring a code;
+     * promo code campaigns stay hidden
      */
     fastify.get('/discounts/available', {
         preHandler: [requireCustomerAuth]
@@ -254,7 +194,8 @@ export const discountRoutes: FastifyPluginAsync = async (fastify) => {
                 or(
                     isNull(schema.discounts.endsAt),
                     gte(schema.discounts.endsAt, now)
-                )
+                ),
+                sql`NOT EXISTS (SELECT 1 FROM ${schema.promoCodes} WHERE ${schema.promoCodes.discountId} = ${schema.discounts.id})`
             ))
             .limit(10);
 
@@ -275,115 +216,25 @@ export const discountRoutes: FastifyPluginAsync = async (fastify) => {
     });
 
     /**
-     * Preview best automatic discount for cart
-     * Returns the best discount that will be applied at checkout
+     * Preview the cart as the pricing engine will price it at checkout:
+     * tier discount, applied promotions and per-line explanations
      */
     fastify.post('/discounts/preview', {
         schema: PreviewDiscountSchema,
         preHandler: [requireCustomerAuth]
     }, async (request, reply) => {
         const customerAuth = request.customerAuth!;
-        const { cartTotal, itemsCount } = request.body as { cartTotal: number; itemsCount?: number };
+        const { items } = request.body as { items: { productId: string; quantity: number }[] };
 
-        const now = new Date();
-
-        // Get all active discounts for the tenant
-        const discounts = await db
-            .select()
-            .from(schema.discounts)
-            .where(and(
-                eq(schema.discounts.tenantId, customerAuth.tenantId),
-                eq(schema.discounts.isActive, true),
-                or(
-                    isNull(schema.discounts.startsAt),
-                    lte(schema.discounts.startsAt, now)
-                ),
-                or(
-                    isNull(schema.discounts.endsAt),
-                    gte(schema.discounts.endsAt, now)
-                )
-            ));
-
-        if (discounts.length === 0) {
-            return { success: true, data: null };
-        }
-
-        let bestDiscount: {
-            id: string;
-            name: string;
-            type: string;
-            value: number;
-            discountAmount: number;
-            newTotal: number;
-        } | null = null;
-        let bestAmount = 0;
-
-        for (const discount of discounts) {
-            const minOrderAmount = discount.minOrderAmount ? Number(discount.minOrderAmount) : 0;
-
-            if (minOrderAmount > 0 && cartTotal < minOrderAmount) {
-                continue;
-            }
-
-            let discountAmount = 0;
-            const discountValue = Number(discount.value || 0);
-
-            switch (discount.type) {
-                case 'percentage':
-                    discountAmount = (cartTotal * discountValue) / 100;
-                    if (discount.maxDiscountAmount) {
-                        discountAmount = Math.min(discountAmount, Number(discount.maxDiscountAmount));
-                    }
-                    break;
-                case 'fixed':
-                    discountAmount = discountValue;
-                    break;
-                case 'buy_x_get_y':
-                    if (discount.minQty && discount.freeQty && itemsCount) {
-                        const sets = Math.floor(itemsCount / (discount.minQty + discount.freeQty));
-                        if (sets > 0) {
-                            const avgPrice = cartTotal / itemsCount;
-                            discountAmount = sets * discount.freeQty * avgPrice;
-                        }
-                    }
-                    break;
-                case 'volume':
-                    const tiers = await db
-                        .select()
-                        .from(schema.volumeTiers)
-                        .where(eq(schema.volumeTiers.discountId, discount.id))
-                        .orderBy(schema.volumeTiers.minQty);
-
-                    if (tiers.length > 0 && itemsCount) {
-                        let applicableTier = null;
-                        for (const tier of tiers) {
-                            if (itemsCount >= (tier.minQty || 0)) {
-                                applicableTier = tier;
-                            }
-                        }
-                        if (applicableTier && applicableTier.discountPercent) {
-                            discountAmount = (cartTotal * Number(applicableTier.discountPercent)) / 100;
-                        }
-                    }
-                    break;
-            }
-
-            discountAmount = Math.min(discountAmount, cartTotal);
-            discountAmount = Math.round(discountAmount * 100) / 100;
-
-            if (discountAmount > bestAmount) {
-                bestAmount = discountAmount;
-                bestDiscount = {
-                    id: discount.id,
-                    name: discount.name,
-                    type: discount.type,
-                    value: discountValue,
-                    discountAmount,
-                    newTotal: cartTotal - discountAmount
-                };
-            }
+        try {
+            const quote = await pricingService.quote({
+                tenantId: customerAuth.tenantId,
+                customerId: customerAuth.customerId,
+                lines: items.map(i => ({ productId: i.productId, quantity: i.quantity })),
+            });
+            return { success: true, data: quote };
+        } catch (error: any) {
+            return reply.status(400).send(createErrorResponse('INVALID_INPUT', 'uz', [error.message]));
         }
-
-        return { success: true, data: bestDiscount };
     });
 };
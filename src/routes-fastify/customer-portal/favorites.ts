@@ -11,6 +11,7 @@ import * as schema from '../../db/schema';
 import { eq, and, desc } from 'drizzle-orm';
 import { createErrorResponse, createSuccessResponse } from '../../lib/error-codes';
 import { requireCustomerAuth } from './middleware';
+import { priceListService } from '../../services/price-list.service';
 
 // ============================================================================
 // SCHEMAS
@@ -52,13 +53,15 @@ export const favoritesRoutes: FastifyPluginAsync = async (fastify) => {
             .where(eq(schema.customerFavorites.customerId, customerAuth.customerId))
             .orderBy(desc(schema.customerFavorites.createdAt));
 
+        const prices = await priceListService.getCustomerPrices(customerAuth.tenantId, customerAuth.customerId, favorites.map(f => f.productId));
+
         return {
             success: true,
             data: favorites.map(f => ({
                 id: f.product.id,
                 name: f.product.name,
                 sku: f.product.sku,
-                sellingPrice: Number(f.product.price),
+                sellingPrice: prices.get(f.productId)?.price ?? Number(f.product.price),
                 imageUrl: f.product.imageUrl,
                 stockQty: Number(f.product.stockQuantity || 0),
                 inStock: Number(f.product.stockQuantity || 0) > 0,
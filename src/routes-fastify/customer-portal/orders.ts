@@ -11,10 +11,17 @@ import { db } from '../../db';
 import * as schema from '../../db/schema';
 import { eq, and, desc, sql, or } from 'drizzle-orm';
 import { customerPortalLogger as logger } from '../../lib/logger';
-import { MAX_PENDING_ORDERS, type OrderItemInput } from './types';
-import { createErrorResponse, createSuccessResponse } from '../../lib/error-codes';
+import { MAX_PENDING_ORDERS } from './types';
+import { createErrorResponse, createSuccessResponse, getErrorMessage } from '../../lib/error-codes';
 import { requireCustomerAuth } from './middleware';
 import { ordersService } from '../../services/orders.service';
+import { pricingService } from '../../services/pricing.service';
+import { promoCodeService, type ResolvedPromoCode } from '../../services/promo-code.service';
+import { productUnitService, type UnitLine } from '../../services/product-unit.service';
+import { stockService } from '../../services/stock.service';
+import { deliveryProofService } from '../../services/delivery-proof.service';
+import { invoiceService } from '../../services/invoice.service';
+import { PromoCodeError, UnitNotSoldError } from '../../errors';
 
 // ============================================================================
 // SCHEMAS
@@ -36,10 +43,16 @@ const CreateOrderSchema = {
     body: Type.Object({
         items: Type.Array(Type.Object({
             productId: Type.String(),
-            quantity: Type.Number()
+            // In the unit below; the product's base unit when omitted
+            quantity: Type.Number(),
+            unit: Type.Optional(Type.Union([
+                Type.Union(schema.productUnitEnum.enumValues.map(unit => Type.Literal(unit))),
+                Type.Null()
+            ]))
         })),
         notes: Type.Optional(Type.String()),
-        deliveryNotes: Type.Optional(Type.String())
+        deliveryNotes: Type.Optional(Type.String()),
+        promoCode: Type.Optional(Type.String())
     })
 };
 
@@ -150,6 +163,9 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                 imageUrl: schema.products.imageUrl,
                 unitPrice: schema.orderItems.unitPrice,
                 qtyOrdered: schema.orderItems.qtyOrdered,
+                unit: schema.orderItems.unit,
+                unitQty: schema.orderItems.unitQty,
+                unitFactor: schema.orderItems.unitFactor,
                 qtyDelivered: schema.orderItems.qtyDelivered,
                 lineTotal: schema.orderItems.lineTotal,
             })
@@ -176,10 +192,17 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
             }
         }
 
+        const [invoice] = await db
+            .select({ invoiceNumber: schema.invoices.invoiceNumber, issueDate: schema.invoices.issueDate })
+            .from(schema.invoices)
+            .where(and(eq(schema.invoices.orderId, order.id), eq(schema.invoices.status, 'issued')))
+            .limit(1);
+
         return {
             success: true,
             data: {
                 ...order,
+                invoice: invoice ?? null,
                 totalAmount: Number(order.totalAmount),
                 paidAmount: Number(order.paidAmount || 0),
                 remainingAmount: Number(order.totalAmount) - Number(order.paidAmount || 0),
@@ -193,6 +216,37 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
         };
     });
 
+    /**
+     * Download the order's invoice as PDF
+     */
+    fastify.get<{ Params: { id: string } }>('/orders/:id/invoice', {
+        schema: OrderIdParamsSchema,
+        preHandler: [requireCustomerAuth]
+    }, async (request, reply) => {
+        const customerAuth = request.customerAuth!;
+
+        const [invoice] = await db
+            .select({ id: schema.invoices.id })
+            .from(schema.invoices)
+            .where(and(
+                eq(schema.invoices.orderId, request.params.id),
+                eq(schema.invoices.tenantId, customerAuth.tenantId),
+                eq(schema.invoices.customerId, customerAuth.customerId),
+                eq(schema.invoices.status, 'issued')
+            ))
+            .limit(1);
+
+        const rendered = invoice && await invoiceService.renderPdf(customerAuth.tenantId, invoice.id);
+        if (!rendered) {
+            return reply.status(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+
+        return reply
+            .header('Content-Type', 'application/pdf')
+            .header('Content-Disposition', `attachment; filename="${encodeURIComponent(rendered.invoiceNumber)}.pdf"`)
+            .send(rendered.pdf);
+    });
+
     /**
      * Get order timeline
      */
@@ -238,6 +292,15 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
             }
         }
 
+        // Handover proof is shown without the driver's GPS fix
+        const proof = await deliveryProofService.getForOrder(customerAuth.tenantId, order.id);
+        const deliveryProof = proof && {
+            recipientName: proof.recipientName,
+            signatureUrl: proof.signatureUrl,
+            photoUrls: proof.photoUrls,
+            capturedAt: proof.capturedAt,
+        };
+
         const statusOrder = ['pending', 'confirmed', 'approved', 'delivering', 'delivered'];
         const currentStatus = order.status || 'pending';
         const currentStatusIndex = statusOrder.indexOf(currentStatus);
@@ -304,6 +367,7 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                 completed: currentStatusIndex >= 4,
                 current: order.status === 'delivered',
                 date: order.deliveredAt || statusDates.get('delivered'),
+                proof: deliveryProof,
             },
         ];
 
@@ -318,10 +382,11 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
         preHandler: [requireCustomerAuth]
     }, async (request, reply) => {
         const customerAuth = request.customerAuth!;
-        const { items, notes, deliveryNotes } = request.body as {
-            items: { productId: string; quantity: number }[];
+        const { items, notes, deliveryNotes, promoCode } = request.body as {
+            items: { productId: string; quantity: number; unit?: UnitLine['unit'] }[];
             notes?: string;
             deliveryNotes?: string;
+            promoCode?: string;
         };
 
         if (!items || items.length === 0) {
@@ -357,9 +422,6 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                 .select({
                     id: schema.products.id,
                     name: schema.products.name,
-                    price: schema.products.price,
-                    stockQuantity: schema.products.stockQuantity,
-                    reservedQuantity: schema.products.reservedQuantity,
                     isActive: schema.products.isActive,
                 })
                 .from(schema.products)
@@ -371,11 +433,30 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
 
             const productMap = new Map(products.map(p => [p.id, p]));
 
-            let totalAmount = 0;
-            const orderItems: OrderItemInput[] = [];
+            // Portal orders are fulfilled from the tenant's default warehouse
+            const warehouseId = await stockService.getDefaultWarehouseId(tx, customerAuth.tenantId);
+            const balances = await stockService.getBalances(tx, warehouseId, productIds, true);
+
+            // Packs are checked and reserved in base units
+            let converted: UnitLine[];
+            try {
+                converted = await productUnitService.toBaseLines(
+                    customerAuth.tenantId,
+                    items.map(item => ({ productId: item.productId, unit: item.unit, quantity: Number(item.quantity) })),
+                    tx
+                );
+            } catch (error: any) {
+                if (!(error instanceof UnitNotSoldError)) throw error;
+                return { error: { code: 'INVALID_INPUT', message: getErrorMessage('INVALID_INPUT'), details: [error.message], status: 400 } };
+            }
+
+            const lines: { productId: string; quantity: number }[] = [];
+            const lineUnits: UnitLine[] = [];
             const errors: string[] = [];
+            // Lines of the same product draw on one balance
+            const taken = new Map<string, number>();
 
-            for (const item of items) {
+            for (const [index, item] of items.entries()) {
                 const product = productMap.get(item.productId);
 
                 if (!product) {
@@ -394,26 +475,18 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                     continue;
                 }
 
-                const availableStock = (product.stockQuantity || 0) - (product.reservedQuantity || 0);
-                if (qty > availableStock) {
+                const availableStock = balances.get(item.productId)!.available - (taken.get(item.productId) ?? 0);
+                if (converted[index].quantity > availableStock) {
                     errors.push(`Yetarli zaxira yo'q: ${product.name} (mavjud: ${availableStock})`);
                     continue;
                 }
 
-                const unitPrice = Number(product.price);
-                const lineTotal = unitPrice * qty;
-                totalAmount += lineTotal;
-
-                orderItems.push({
-                    productId: item.productId,
-                    qty,
-                    unitPrice,
-                    lineTotal,
-                    productName: product.name
-                });
+                taken.set(item.productId, (taken.get(item.productId) ?? 0) + converted[index].quantity);
+                lines.push({ productId: item.productId, quantity: converted[index].quantity });
+                lineUnits.push(converted[index]);
             }
 
-            if (orderItems.length === 0) {
+            if (lines.length === 0) {
                 return {
                     error: {
                         code: 'NO_VALID_ITEMS',
@@ -424,17 +497,41 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                 };
             }
 
-            // Find and apply the best available discount using shared service
-            const totalQty = orderItems.reduce((sum, item) => sum + item.qty, 0);
-            const autoDiscount = await ordersService.findBestAutoDiscount(
-                customerAuth.tenantId,
-                customerAuth.customerId,
-                totalAmount,
-                totalQty
-            );
+            // Locked so concurrent checkouts cannot overrun the code's limits
+            let promo: ResolvedPromoCode | undefined;
+            if (promoCode?.trim()) {
+                try {
+                    promo = await promoCodeService.resolve(customerAuth.tenantId, customerAuth.customerId, promoCode, tx, { lock: true });
+                } catch (error) {
+                    if (!(error instanceof PromoCodeError)) throw error;
+                    return {
+                        error: {
+                            code: error.code,
+                            message: getErrorMessage(error.code),
+                            status: error.code === 'DISCOUNT_NOT_FOUND' ? 404 : 400
+                        }
+                    };
+                }
+            }
 
-            const discountAmount = autoDiscount?.amount || 0;
-            const finalTotal = totalAmount - discountAmount;
+            // Price the order with the shared pricing engine
+            const quote = await pricingService.quote({
+                tenantId: customerAuth.tenantId,
+                customerId: customerAuth.customerId,
+                lines,
+                promoDiscountIds: promo ? [promo.discountId] : undefined,
+            }, tx);
+            if (promo && !quote.appliedDiscounts.some(d => d.id === promo.discountId)) {
+                return {
+                    error: {
+                        code: 'DISCOUNT_NOT_APPLICABLE',
+                        message: getErrorMessage('DISCOUNT_NOT_APPLICABLE'),
+                        status: 400
+                    }
+                };
+            }
+            const { subtotalAmount, discountAmount, totalAmount: finalTotal } = quote;
+            const discountName = quote.appliedDiscounts.map(d => d.name).join(', ') || undefined;
 
             // Validate credit/tier limits
             const creditError = await ordersService.validateCreditLimits(tx, customerAuth.customerId, finalTotal);
@@ -472,14 +569,16 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                     customerId: customerAuth.customerId,
                     salesRepId,
                     orderNumber,
+                    warehouseId,
                     status: 'pending',
                     paymentStatus: 'unpaid',
-                    subtotalAmount: String(totalAmount),
+                    subtotalAmount: String(subtotalAmount),
                     discountAmount: String(discountAmount),
+                    taxAmount: String(quote.taxAmount),
                     totalAmount: String(finalTotal),
                     paidAmount: '0',
-                    notes: autoDiscount
-                        ? `${notes || ''}\n[Chegirma qo'llanildi: ${autoDiscount.name} (-${discountAmount.toLocaleString()} so'm)]`.trim()
+                    notes: discountName
+                        ? `${notes || ''}\n[Chegirma qo'llanildi: ${discountName} (-${discountAmount.toLocaleString()} so'm)]`.trim()
                         : (notes || null),
                     deliveryNotes: deliveryNotes || null,
                     createdAt: new Date(),
@@ -487,26 +586,17 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                 })
                 .returning();
 
-            // Insert order items
-            for (const item of orderItems) {
-                await tx.insert(schema.orderItems).values({
-                    orderId: newOrder.id,
-                    productId: item.productId,
-                    qtyOrdered: item.qty,
-                    qtyDelivered: 0,
-                    unitPrice: String(item.unitPrice),
-                    lineTotal: String(item.lineTotal),
-                });
-            }
+            // Insert priced order items and reserve stock using shared service
+            await ordersService.createOrderItems(tx, newOrder.id, quote.lines, lineUnits);
+            await ordersService.reserveStock(tx, quote.lines, { tenantId: customerAuth.tenantId, warehouseId });
 
-            // Reserve stock using shared service
-            await ordersService.reserveStock(tx, orderItems.map(item => ({
-                productId: item.productId,
-                productName: item.productName,
-                unitPrice: item.unitPrice,
-                quantity: item.qty,
-                lineTotal: item.lineTotal,
-            })));
+            if (promo) {
+                await promoCodeService.recordRedemption(tx, promo, {
+                    id: newOrder.id,
+                    tenantId: customerAuth.tenantId,
+                    customerId: customerAuth.customerId,
+                }, quote);
+            }
 
             // Update customer debt using shared service
             await ordersService.updateCustomerDebt(tx, customerAuth.customerId, finalTotal);
@@ -518,19 +608,20 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
                 orderId: newOrder.id,
                 orderNumber: newOrder.orderNumber,
                 customerId: customerAuth.customerId,
-                subtotal: totalAmount,
+                subtotal: subtotalAmount,
                 discountAmount,
-                discountName: autoDiscount?.name,
+                discountName,
+                promoCode: promo?.code,
                 totalAmount: finalTotal,
-                itemCount: orderItems.length
+                itemCount: quote.lines.length
             });
 
             return {
                 order: newOrder,
-                orderItems,
-                subtotalAmount: totalAmount,
+                orderItems: quote.lines,
+                subtotalAmount,
                 discountAmount,
-                discountName: autoDiscount?.name,
+                discountName,
                 totalAmount: finalTotal,
                 errors
             };
@@ -633,7 +724,7 @@ export const ordersRoutes: FastifyPluginAsync = async (fastify) => {
             await ordersService.releaseStock(tx, items.map(item => ({
                 productId: item.productId,
                 quantity: item.qtyOrdered,
-            })));
+            })), order);
 
             // Reduce customer debt using shared service (negative amount)
             const orderTotal = Number(order.totalAmount || 0);
@@ -11,6 +11,9 @@ import * as schema from '../../db/schema';
 import { eq, and, or, ilike, sql } from 'drizzle-orm';
 import { createErrorResponse } from '../../lib/error-codes';
 import { requireCustomerAuth } from './middleware';
+import { priceListService } from '../../services/price-list.service';
+import { productUnitService } from '../../services/product-unit.service';
+import { productVariantService } from '../../services/product-variant.service';
 
 // ============================================================================
 // SCHEMAS
@@ -29,6 +32,38 @@ const ProductIdParamsSchema = {
     params: Type.Object({ id: Type.String() })
 };
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Variant pickers of the given families, priced for the customer.
+ */
+async function familyPickers(tenantId: string, customerId: string, familyIds: (string | null)[]) {
+    const families = await productVariantService.variantsForFamilies(tenantId, familyIds);
+    const variantIds = [...families.values()].flatMap(f => f.variants.map(v => v.id));
+    const prices = await priceListService.getCustomerPrices(tenantId, customerId, variantIds);
+    const units = await productUnitService.unitsForProducts(tenantId, variantIds);
+
+    return new Map([...families.values()].map(family => [family.id, {
+        id: family.id,
+        name: family.name,
+        attributes: family.attributes,
+        variants: family.variants.map(v => ({
+            id: v.id,
+            name: v.name,
+            sku: v.sku,
+            attributes: v.attributes,
+            sellingPrice: prices.get(v.id)?.price ?? Number(v.price),
+            unit: v.unit,
+            units: (units.get(v.id) ?? []).map(u => ({ unit: u.unit, factor: u.factor })),
+            imageUrl: v.imageUrl,
+            stockQty: Number(v.stockQuantity || 0),
+            inStock: Number(v.stockQuantity || 0) > 0
+        }))
+    }]));
+}
+
 // ============================================================================
 // ROUTES
 // ============================================================================
@@ -80,9 +115,12 @@ export const productsRoutes: FastifyPluginAsync = async (fastify) => {
                 sku: schema.products.sku,
                 description: schema.products.description,
                 price: schema.products.price,
+                unit: schema.products.unit,
                 imageUrl: schema.products.imageUrl,
                 subcategoryId: schema.products.subcategoryId,
                 stockQuantity: schema.products.stockQuantity,
+                familyId: schema.products.familyId,
+                variantAttributes: schema.products.variantAttributes,
             })
             .from(schema.products)
             .where(and(...conditions))
@@ -101,6 +139,11 @@ export const productsRoutes: FastifyPluginAsync = async (fastify) => {
             .where(eq(schema.tenants.id, customerAuth.tenantId))
             .limit(1);
 
+        // The customer's price list price where there is one
+        const prices = await priceListService.getCustomerPrices(customerAuth.tenantId, customerAuth.customerId, products.map(p => p.id));
+        const units = await productUnitService.unitsForProducts(customerAuth.tenantId, products.map(p => p.id));
+        const families = await familyPickers(customerAuth.tenantId, customerAuth.customerId, products.map(p => p.familyId));
+
         return {
             success: true,
             data: products.map(p => ({
@@ -108,11 +151,17 @@ export const productsRoutes: FastifyPluginAsync = async (fastify) => {
                 name: p.name,
                 sku: p.sku,
                 description: p.description,
-                sellingPrice: Number(p.price),
+                sellingPrice: prices.get(p.id)?.price ?? Number(p.price),
+                // sellingPrice and stockQty are per this unit; packs hold factor of it
+                unit: p.unit,
+                units: (units.get(p.id) ?? []).map(u => ({ unit: u.unit, factor: u.factor })),
                 imageUrl: p.imageUrl,
                 categoryId: p.subcategoryId,
                 stockQty: Number(p.stockQuantity || 0),
-                inStock: Number(p.stockQuantity || 0) > 0
+                inStock: Number(p.stockQuantity || 0) > 0,
+                // Variants of one family are shown as one card with a picker
+                variantAttributes: p.variantAttributes,
+                family: (p.familyId && families.get(p.familyId)) || null
             })),
             meta: {
                 page,
@@ -141,9 +190,12 @@ export const productsRoutes: FastifyPluginAsync = async (fastify) => {
                 sku: schema.products.sku,
                 description: schema.products.description,
                 price: schema.products.price,
+                unit: schema.products.unit,
                 imageUrl: schema.products.imageUrl,
                 subcategoryId: schema.products.subcategoryId,
                 stockQuantity: schema.products.stockQuantity,
+                familyId: schema.products.familyId,
+                variantAttributes: schema.products.variantAttributes,
             })
             .from(schema.products)
             .where(and(
@@ -174,6 +226,10 @@ export const productsRoutes: FastifyPluginAsync = async (fastify) => {
             .where(eq(schema.tenants.id, customerAuth.tenantId))
             .limit(1);
 
+        const prices = await priceListService.getCustomerPrices(customerAuth.tenantId, customerAuth.customerId, [product.id]);
+        const units = await productUnitService.unitsForProducts(customerAuth.tenantId, [product.id]);
+        const families = await familyPickers(customerAuth.tenantId, customerAuth.customerId, [product.familyId]);
+
         return {
             success: true,
             data: {
@@ -181,12 +237,16 @@ export const productsRoutes: FastifyPluginAsync = async (fastify) => {
                 name: product.name,
                 sku: product.sku,
                 description: product.description,
-                sellingPrice: Number(product.price),
+                sellingPrice: prices.get(product.id)?.price ?? Number(product.price),
+                unit: product.unit,
+                units: (units.get(product.id) ?? []).map(u => ({ unit: u.unit, factor: u.factor })),
                 imageUrl: product.imageUrl,
                 images: images.length > 0 ? images : (product.imageUrl ? [{ id: 'main', imageUrl: product.imageUrl }] : []),
                 categoryId: product.subcategoryId,
                 stockQty: Number(product.stockQuantity || 0),
                 inStock: Number(product.stockQuantity || 0) > 0,
+                variantAttributes: product.variantAttributes,
+                family: (product.familyId && families.get(product.familyId)) || null,
                 currency: tenant?.currency || 'UZS'
             }
         };
@@ -11,9 +11,12 @@ import * as schema from '../../db/schema';
 import { eq, and, sql, or } from 'drizzle-orm';
 import { customerPortalLogger as logger } from '../../lib/logger';
 import { createErrorResponse, createSuccessResponse } from '../../lib/error-codes';
-import { MAX_PENDING_ORDERS, type OrderItemInput } from './types';
+import { MAX_PENDING_ORDERS } from './types';
 import { requireCustomerAuth } from './middleware';
 import { ordersService } from '../../services/orders.service';
+import { pricingService } from '../../services/pricing.service';
+import type { UnitLine } from '../../services/product-unit.service';
+import { stockService } from '../../services/stock.service';
 
 // ============================================================================
 // SCHEMAS
@@ -73,6 +76,9 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
             .select({
                 productId: schema.orderItems.productId,
                 qtyOrdered: schema.orderItems.qtyOrdered,
+                unit: schema.orderItems.unit,
+                unitQty: schema.orderItems.unitQty,
+                unitFactor: schema.orderItems.unitFactor,
             })
             .from(schema.orderItems)
             .where(eq(schema.orderItems.orderId, request.params.orderId));
@@ -88,9 +94,6 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
                 .select({
                     id: schema.products.id,
                     name: schema.products.name,
-                    price: schema.products.price,
-                    stockQuantity: schema.products.stockQuantity,
-                    reservedQuantity: schema.products.reservedQuantity,
                     isActive: schema.products.isActive,
                 })
                 .from(schema.products)
@@ -102,9 +105,16 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
 
             const productMap = new Map(products.map(p => [p.id, p]));
 
-            let totalAmount = 0;
-            const newItems: OrderItemInput[] = [];
+            // Reorders are fulfilled from the tenant's default warehouse
+            const warehouseId = await stockService.getDefaultWarehouseId(tx, customerAuth.tenantId);
+            const balances = await stockService.getBalances(tx, warehouseId, productIds, true);
+
+            const lines: { productId: string; quantity: number }[] = [];
+            // Lines keep the unit they were first ordered in
+            const lineUnits: UnitLine[] = [];
             const skippedProducts: string[] = [];
+            // Lines of the same product draw on one balance
+            const taken = new Map<string, number>();
 
             for (const item of originalItems) {
                 const product = productMap.get(item.productId);
@@ -114,27 +124,25 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
                 }
 
                 const qty = Number(item.qtyOrdered);
-                const availableStock = (product.stockQuantity || 0) - (product.reservedQuantity || 0);
+                const availableStock = balances.get(item.productId)!.available - (taken.get(item.productId) ?? 0);
 
                 if (qty > availableStock) {
                     skippedProducts.push(`${product.name} (faqat ${availableStock} ta mavjud)`);
                     continue;
                 }
+                taken.set(item.productId, (taken.get(item.productId) ?? 0) + qty);
 
-                const unitPrice = Number(product.price);
-                const lineTotal = unitPrice * qty;
-                totalAmount += lineTotal;
-
-                newItems.push({
+                lines.push({ productId: item.productId, quantity: qty });
+                lineUnits.push({
                     productId: item.productId,
-                    qty,
-                    unitPrice,
-                    lineTotal,
-                    productName: product.name
+                    unit: item.unit,
+                    unitQty: item.unitQty ?? qty,
+                    unitFactor: item.unitFactor,
+                    quantity: qty,
                 });
             }
 
-            if (newItems.length === 0) {
+            if (lines.length === 0) {
                 return {
                     error: {
                         code: 'NO_AVAILABLE_PRODUCTS' as const,
@@ -143,6 +151,14 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
                 };
             }
 
+            // Reorders are priced at today's prices and promotions
+            const quote = await pricingService.quote({
+                tenantId: customerAuth.tenantId,
+                customerId: customerAuth.customerId,
+                lines,
+            }, tx);
+            const totalAmount = quote.totalAmount;
+
             // Validate credit/tier limits
             const creditError = await ordersService.validateCreditLimits(tx, customerAuth.customerId, totalAmount);
             if (creditError) {
@@ -179,9 +195,12 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
                     customerId: customerAuth.customerId,
                     salesRepId,
                     orderNumber,
+                    warehouseId,
                     status: 'pending',
                     paymentStatus: 'unpaid',
-                    subtotalAmount: String(totalAmount),
+                    subtotalAmount: String(quote.subtotalAmount),
+                    discountAmount: String(quote.discountAmount),
+                    taxAmount: String(quote.taxAmount),
                     totalAmount: String(totalAmount),
                     paidAmount: '0',
                     notes: `Qayta buyurtma (${originalOrder.orderNumber} asosida)`,
@@ -190,26 +209,9 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
                 })
                 .returning();
 
-            // Insert order items
-            for (const item of newItems) {
-                await tx.insert(schema.orderItems).values({
-                    orderId: newOrder.id,
-                    productId: item.productId,
-                    qtyOrdered: item.qty,
-                    qtyDelivered: 0,
-                    unitPrice: String(item.unitPrice),
-                    lineTotal: String(item.lineTotal),
-                });
-            }
-
-            // Reserve stock using shared service
-            await ordersService.reserveStock(tx, newItems.map(item => ({
-                productId: item.productId,
-                productName: item.productName,
-                unitPrice: item.unitPrice,
-                quantity: item.qty,
-                lineTotal: item.lineTotal,
-            })));
+            // Insert priced order items and reserve stock using shared service
+            await ordersService.createOrderItems(tx, newOrder.id, quote.lines, lineUnits);
+            await ordersService.reserveStock(tx, quote.lines, { tenantId: customerAuth.tenantId, warehouseId });
 
             // Update customer debt using shared service
             await ordersService.updateCustomerDebt(tx, customerAuth.customerId, totalAmount);
@@ -223,10 +225,10 @@ export const reorderRoutes: FastifyPluginAsync = async (fastify) => {
                 originalOrderNumber: originalOrder.orderNumber,
                 customerId: customerAuth.customerId,
                 totalAmount,
-                itemCount: newItems.length
+                itemCount: quote.lines.length
             });
 
-            return { order: newOrder, newItems, totalAmount, skippedProducts };
+            return { order: newOrder, newItems: quote.lines, totalAmount, skippedProducts };
         });
 
         if ('error' in result && result.error) {
@@ -27,18 +27,6 @@ export interface TransactionError {
 
 export type TransactionResult<T> = T | { error: TransactionError };
 
-// ============================================================================
-// ORDER ITEM TYPE
-// ============================================================================
-
-export interface OrderItemInput {
-    productId: string;
-    qty: number;
-    unitPrice: number;
-    lineTotal: number;
-    productName: string;
-}
-
 // ============================================================================
 // RATE LIMIT CONFIG
 // ============================================================================
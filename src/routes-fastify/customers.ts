@@ -3,6 +3,7 @@ import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { buildSalesCustomerScope } from '../lib/sales-scope';
 import { eq, and, sql, desc, inArray } from 'drizzle-orm';
+import { customerLedgerService } from '../services/customer-ledger.service';
 
 // Schemas
 const CreateTierBodySchema = Type.Object({
@@ -53,6 +54,9 @@ const ListCustomersQuerySchema = Type.Object({
     isActive: Type.Optional(Type.String()),
 });
 
+// HH:MM or HH:MM:SS
+const TimeOfDaySchema = Type.String({ pattern: '^([01]\\d|2[0-3]):[0-5]\\d(:[0-5]\\d)?$' });
+
 const CreateCustomerBodySchema = Type.Object({
     name: Type.String({ minLength: 2 }),
     code: Type.Optional(Type.String()),
@@ -65,6 +69,8 @@ const CreateCustomerBodySchema = Type.Object({
     assignedSalesRepId: Type.Optional(Type.String()),
     latitude: Type.Optional(Type.Number()),
     longitude: Type.Optional(Type.Number()),
+    openingTime: Type.Optional(TimeOfDaySchema),
+    closingTime: Type.Optional(TimeOfDaySchema),
     notes: Type.Optional(Type.String()),
 });
 
@@ -81,12 +87,19 @@ const UpdateCustomerBodySchema = Type.Object({
     assignedSalesRepId: Type.Optional(Type.String()),
     latitude: Type.Optional(Type.Number()),
     longitude: Type.Optional(Type.Number()),
+    openingTime: Type.Optional(Type.Union([TimeOfDaySchema, Type.Null()])),
+    closingTime: Type.Optional(Type.Union([TimeOfDaySchema, Type.Null()])),
     notes: Type.Optional(Type.String()),
     isActive: Type.Optional(Type.Boolean()),
 });
 
 const ParamsSchema = Type.Object({ id: Type.String() });
 
+const StatementQuerySchema = Type.Object({
+    from: Type.Optional(Type.String({ format: 'date' })),
+    to: Type.Optional(Type.String({ format: 'date' })),
+});
+
 type CreateTierBody = Static<typeof CreateTierBodySchema>;
 type CreateRuleBody = Static<typeof CreateRuleBodySchema>;
 type CreateUpgradeRuleBody = Static<typeof CreateUpgradeRuleBodySchema>;
@@ -95,6 +108,7 @@ type UpdateTerritoryBody = Static<typeof UpdateTerritoryBodySchema>;
 type ListCustomersQuery = Static<typeof ListCustomersQuerySchema>;
 type CreateCustomerBody = Static<typeof CreateCustomerBodySchema>;
 type UpdateCustomerBody = Static<typeof UpdateCustomerBodySchema>;
+type StatementQuery = Static<typeof StatementQuerySchema>;
 
 export const customerRoutes: FastifyPluginAsync = async (fastify) => {
     // ----------------------------------------------------------------
@@ -748,6 +762,8 @@ export const customerRoutes: FastifyPluginAsync = async (fastify) => {
                 tierId: schema.customers.tierId,
                 territoryId: schema.customers.territoryId,
                 assignedSalesRepId: schema.customers.assignedSalesRepId,
+                openingTime: schema.customers.openingTime,
+                closingTime: schema.customers.closingTime,
                 notes: schema.customers.notes,
             })
             .from(schema.customers)
@@ -826,6 +842,8 @@ export const customerRoutes: FastifyPluginAsync = async (fastify) => {
                 createdByUserId: user.id,
                 latitude: body.latitude?.toString(),
                 longitude: body.longitude?.toString(),
+                openingTime: body.openingTime,
+                closingTime: body.closingTime,
                 notes: body.notes,
                 isActive: true,
             })
@@ -859,6 +877,66 @@ export const customerRoutes: FastifyPluginAsync = async (fastify) => {
         return { success: true, data: customer };
     });
 
+    // Account statement: ledger entries with opening and closing balance
+    fastify.get<{ Params: Static<typeof ParamsSchema>; Querystring: StatementQuery }>('/:id/statement', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema, querystring: StatementQuerySchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { id } = request.params;
+
+        const [customer] = await db
+            .select({ id: schema.customers.id, name: schema.customers.name, assignedSalesRepId: schema.customers.assignedSalesRepId })
+            .from(schema.customers)
+            .where(and(eq(schema.customers.id, id), eq(schema.customers.tenantId, user.tenantId)))
+            .limit(1);
+
+        if (!customer) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+
+        if (user.role === 'sales_rep' && customer.assignedSalesRepId !== user.id) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        // Defaults to the current month
+        const today = new Date().toISOString().slice(0, 10);
+        const from = request.query.from ?? `${today.slice(0, 8)}01`;
+        const to = request.query.to ?? today;
+        if (from > to) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'from must not be after to' } });
+        }
+
+        const statement = await customerLedgerService.getStatement(user.tenantId, id, from, to);
+        return { success: true, data: { ...statement, customerName: customer.name } };
+    });
+
+    // Orders with an amount still due, oldest first (for allocating payments)
+    fastify.get<{ Params: Static<typeof ParamsSchema> }>('/:id/open-orders', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { id } = request.params;
+
+        const [customer] = await db
+            .select({ assignedSalesRepId: schema.customers.assignedSalesRepId })
+            .from(schema.customers)
+            .where(and(eq(schema.customers.id, id), eq(schema.customers.tenantId, user.tenantId)))
+            .limit(1);
+
+        if (!customer) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+
+        if (user.role === 'sales_rep' && customer.assignedSalesRepId !== user.id) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const orders = await customerLedgerService.getOpenOrders(user.tenantId, id);
+        return { success: true, data: orders };
+    });
+
     // Update customer
     fastify.patch<{ Params: Static<typeof ParamsSchema>; Body: UpdateCustomerBody }>('/:id', {
         preHandler: [fastify.authenticate],
@@ -896,6 +974,8 @@ export const customerRoutes: FastifyPluginAsync = async (fastify) => {
         if (body.contactPerson !== undefined) updates.contactPerson = body.contactPerson;
         if (body.latitude !== undefined) updates.latitude = body.latitude?.toString();
         if (body.longitude !== undefined) updates.longitude = body.longitude?.toString();
+        if (body.openingTime !== undefined) updates.openingTime = body.openingTime;
+        if (body.closingTime !== undefined) updates.closingTime = body.closingTime;
         if (body.notes !== undefined) updates.notes = body.notes;
 
         if (['tenant_admin', 'super_admin', 'supervisor'].includes(user.role)) {
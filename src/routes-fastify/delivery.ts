@@ -2,12 +2,19 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, sql, desc, inArray, or } from 'drizzle-orm';
+import { tripPlannerService } from '../services/trip-planner.service';
+import { deliveryProofService } from '../services/delivery-proof.service';
+import { MAX_PROOF_PHOTOS } from '../lib/delivery-proof';
+import { deliveryService } from '../services/delivery.service';
+import { cashService } from '../services/cash.service';
 
 // Schemas
 const CreateVehicleBodySchema = Type.Object({
     name: Type.String({ minLength: 2 }),
     plateNumber: Type.Optional(Type.String()),
     capacity: Type.Optional(Type.Number({ minimum: 0 })),
+    maxWeightKg: Type.Optional(Type.Number({ minimum: 0 })),
+    maxVolumeM3: Type.Optional(Type.Number({ minimum: 0 })),
 });
 
 const ListTripsQuerySchema = Type.Object({
@@ -15,25 +22,81 @@ const ListTripsQuerySchema = Type.Object({
     limit: Type.Optional(Type.String()),
     status: Type.Optional(Type.String()),
     driverId: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String()),
     date: Type.Optional(Type.String()),
 });
 
 const CreateTripBodySchema = Type.Object({
     driverId: Type.String(),
     vehicleId: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String()),
     plannedDate: Type.String(),
     notes: Type.Optional(Type.String()),
     orderIds: Type.Array(Type.String()),
 });
 
+const PlanTripsBodySchema = Type.Object({
+    date: Type.String(),
+    warehouseId: Type.Optional(Type.String()),
+    vehicleIds: Type.Optional(Type.Array(Type.String())),
+    driverIds: Type.Optional(Type.Array(Type.String())),
+    includeUnscheduled: Type.Optional(Type.Boolean()),
+});
+
+const CommitPlanBodySchema = Type.Object({
+    plannedDate: Type.String(),
+    warehouseId: Type.Optional(Type.String()),
+    trips: Type.Array(Type.Object({
+        driverId: Type.String(),
+        vehicleId: Type.Optional(Type.String()),
+        notes: Type.Optional(Type.String()),
+        orderIds: Type.Array(Type.String(), { minItems: 1 }),
+    }), { minItems: 1 }),
+});
+
 const TripIdParamsSchema = Type.Object({ id: Type.String() });
 const UpdateTripStatusBodySchema = Type.Object({ status: Type.String() });
 const DeliveryOrderParamsSchema = Type.Object({ id: Type.String() });
+const TripStopParamsSchema = Type.Object({ id: Type.String(), orderId: Type.String() });
+
+const SaveProofBodySchema = Type.Object({
+    recipientName: Type.String({ minLength: 1, maxLength: 255 }),
+    signature: Type.Optional(Type.String()),
+    photoUrls: Type.Optional(Type.Array(Type.String(), { maxItems: MAX_PROOF_PHOTOS })),
+    latitude: Type.Optional(Type.Number({ minimum: -90, maximum: 90 })),
+    longitude: Type.Optional(Type.Number({ minimum: -180, maximum: 180 })),
+    accuracy: Type.Optional(Type.Number({ minimum: 0 })),
+    capturedAt: Type.Optional(Type.String()),
+});
+
+const CompleteStopBodySchema = Type.Object({
+    outcome: Type.Union([Type.Literal('delivered'), Type.Literal('partial'), Type.Literal('refused')]),
+    notes: Type.Optional(Type.String()),
+    // Lines not delivered in full; the rest of the shipped quantity comes back as a return
+    lines: Type.Optional(Type.Array(Type.Object({
+        orderItemId: Type.String(),
+        qtyDelivered: Type.Integer({ minimum: 0 }),
+        reason: Type.Optional(Type.String({ maxLength: 500 })),
+    }))),
+});
 
 type CreateVehicleBody = Static<typeof CreateVehicleBodySchema>;
 type ListTripsQuery = Static<typeof ListTripsQuerySchema>;
 type CreateTripBody = Static<typeof CreateTripBodySchema>;
+type PlanTripsBody = Static<typeof PlanTripsBodySchema>;
+type CommitPlanBody = Static<typeof CommitPlanBodySchema>;
 type UpdateTripStatusBody = Static<typeof UpdateTripStatusBodySchema>;
+type TripStopParams = Static<typeof TripStopParamsSchema>;
+type SaveProofBody = Static<typeof SaveProofBodySchema>;
+type CompleteStopBody = Static<typeof CompleteStopBodySchema>;
+
+// Service error message -> HTTP status and code for trip stop endpoints
+const stopError = (message: string): [number, string] => {
+    if (message === 'Trip stop not found' || message === 'Order item not found') return [404, 'NOT_FOUND'];
+    if (message.startsWith('Only the trip driver')) return [403, 'FORBIDDEN'];
+    if (message === 'Proof of delivery required') return [400, 'PROOF_REQUIRED'];
+    return [400, 'BAD_REQUEST'];
+};
 
 export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
     // List vehicles
@@ -57,6 +120,7 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
         const [vehicle] = await db.insert(schema.vehicles).values({
             tenantId: user.tenantId, name: request.body.name, plateNumber: request.body.plateNumber,
             capacity: request.body.capacity, isActive: true,
+            maxWeightKg: request.body.maxWeightKg?.toString(), maxVolumeM3: request.body.maxVolumeM3?.toString(),
         }).returning();
         return { success: true, data: vehicle };
     });
@@ -67,7 +131,7 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
         schema: { querystring: ListTripsQuerySchema },
     }, async (request, reply) => {
         const user = request.user!;
-        const { page: pageStr = '1', limit: limitStr = '20', status, driverId, date } = request.query;
+        const { page: pageStr = '1', limit: limitStr = '20', status, driverId, warehouseId, date } = request.query;
         const page = parseInt(pageStr);
         const limit = parseInt(limitStr);
         const offset = (page - 1) * limit;
@@ -75,6 +139,7 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
         const conditions: any[] = [eq(schema.trips.tenantId, user.tenantId)];
         if (status) conditions.push(eq(schema.trips.status, status as any));
         if (date) conditions.push(eq(schema.trips.plannedDate, date));
+        if (warehouseId) conditions.push(eq(schema.trips.warehouseId, warehouseId));
         if (user.role === 'driver') {
             conditions.push(eq(schema.trips.driverId, user.id));
         } else if (driverId) {
@@ -84,6 +149,7 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
         const trips = await db.select({
             id: schema.trips.id, tripNumber: schema.trips.tripNumber, status: schema.trips.status,
             plannedDate: schema.trips.plannedDate, driverName: schema.users.name, vehicleName: schema.vehicles.name,
+            warehouseId: schema.trips.warehouseId,
             orderCount: sql<number>`(SELECT count(*) FROM ${schema.tripOrders} WHERE ${schema.tripOrders.tripId} = ${schema.trips.id})`,
         }).from(schema.trips)
             .leftJoin(schema.users, eq(schema.trips.driverId, schema.users.id))
@@ -108,41 +174,52 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
         }
 
-        const tripNumber = `TRIP-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+        try {
+            const result = await db.transaction(async (tx) => tripPlannerService.createTrip(tx, user.tenantId, body));
+            return { success: true, data: result };
+        } catch (error: any) {
+            const code = error.message?.startsWith('Vehicle capacity exceeded') ? 'CAPACITY_EXCEEDED' : 'BAD_REQUEST';
+            return reply.code(400).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Preview an automatic trip plan for a day (nothing is saved)
+    fastify.post<{ Body: PlanTripsBody }>('/trips/plan', {
+        preHandler: [fastify.authenticate],
+        schema: { body: PlanTripsBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin', 'supervisor'].includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
 
         try {
-            const result = await db.transaction(async (tx) => {
-                if (body.orderIds && body.orderIds.length > 0) {
-                    const validOrders = await tx.select({ id: schema.orders.id, status: schema.orders.status })
-                        .from(schema.orders)
-                        .where(and(eq(schema.orders.tenantId, user.tenantId), inArray(schema.orders.id, body.orderIds)));
-
-                    if (validOrders.length !== body.orderIds.length) throw new Error('Some orders not found');
-                    const invalidStatus = validOrders.filter(o => !['approved', 'picked', 'confirmed'].includes(o.status as string));
-                    if (invalidStatus.length > 0) throw new Error('Orders must be in approved/picked/confirmed status');
-
-                    const alreadyAssigned = await tx.select({ orderId: schema.tripOrders.orderId })
-                        .from(schema.tripOrders).where(inArray(schema.tripOrders.orderId, body.orderIds));
-                    if (alreadyAssigned.length > 0) throw new Error('Some orders are already assigned');
-                }
+            const plan = await db.transaction(async (tx) => tripPlannerService.plan(tx, user.tenantId, request.body));
+            return { success: true, data: plan };
+        } catch (error: any) {
+            if (error.message === 'Warehouse not found') {
+                return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            }
+            throw error;
+        }
+    });
 
-                const [trip] = await tx.insert(schema.trips).values({
-                    tenantId: user.tenantId, tripNumber, driverId: body.driverId, vehicleId: body.vehicleId,
-                    plannedDate: body.plannedDate, status: 'planned', notes: body.notes,
-                }).returning();
-
-                if (body.orderIds && body.orderIds.length > 0) {
-                    await tx.insert(schema.tripOrders).values(
-                        body.orderIds.map((orderId, idx) => ({ tripId: trip.id, orderId, sequence: idx + 1 }))
-                    );
-                    await tx.update(schema.orders).set({ status: 'picking' as any, updatedAt: new Date() })
-                        .where(inArray(schema.orders.id, body.orderIds));
-                }
-                return trip;
-            });
-            return { success: true, data: result };
+    // Commit a reviewed plan: creates all trips in one transaction
+    fastify.post<{ Body: CommitPlanBody }>('/trips/plan/commit', {
+        preHandler: [fastify.authenticate],
+        schema: { body: CommitPlanBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin', 'supervisor'].includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const trips = await db.transaction(async (tx) => tripPlannerService.commitPlan(tx, user.tenantId, request.body));
+            return { success: true, data: trips };
         } catch (error: any) {
-            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+            const code = error.message?.startsWith('Vehicle capacity exceeded') ? 'CAPACITY_EXCEEDED' : 'BAD_REQUEST';
+            return reply.code(400).send({ success: false, error: { code, message: error.message } });
         }
     });
 
@@ -157,10 +234,12 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
         const [trip] = await db.select({
             id: schema.trips.id, tripNumber: schema.trips.tripNumber, status: schema.trips.status,
             plannedDate: schema.trips.plannedDate, driverId: schema.trips.driverId, vehicleId: schema.trips.vehicleId,
+            warehouseId: schema.trips.warehouseId, warehouseName: schema.warehouses.name,
             notes: schema.trips.notes, driverName: schema.users.name, vehicleName: schema.vehicles.name,
         }).from(schema.trips)
             .leftJoin(schema.users, eq(schema.trips.driverId, schema.users.id))
             .leftJoin(schema.vehicles, eq(schema.trips.vehicleId, schema.vehicles.id))
+            .leftJoin(schema.warehouses, eq(schema.trips.warehouseId, schema.warehouses.id))
             .where(and(eq(schema.trips.id, id), eq(schema.trips.tenantId, user.tenantId)))
             .limit(1);
 
@@ -174,13 +253,18 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
             id: schema.orders.id, orderNumber: schema.orders.orderNumber, customerName: schema.customers.name,
             address: schema.customers.address, totalAmount: schema.orders.totalAmount, status: schema.orders.status,
             sequence: schema.tripOrders.sequence, deliveryNotes: schema.tripOrders.deliveryNotes,
+            deliveredAt: schema.tripOrders.deliveredAt, proofCapturedAt: schema.deliveryProofs.capturedAt,
+            proofRecipientName: schema.deliveryProofs.recipientName,
         }).from(schema.tripOrders)
             .innerJoin(schema.orders, eq(schema.tripOrders.orderId, schema.orders.id))
             .leftJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
+            .leftJoin(schema.deliveryProofs, eq(schema.deliveryProofs.tripOrderId, schema.tripOrders.id))
             .where(eq(schema.tripOrders.tripId, trip.id))
             .orderBy(schema.tripOrders.sequence);
 
-        return { success: true, data: { ...trip, orders } };
+        const proofRequired = await deliveryProofService.isRequired(user.tenantId);
+
+        return { success: true, data: { ...trip, proofRequired, orders } };
     });
 
     // Update trip status
@@ -192,6 +276,18 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
         const { id } = request.params;
         const { status } = request.body;
 
+        if (status === 'in_progress') {
+            const [current] = await db.select({ driverId: schema.trips.driverId }).from(schema.trips)
+                .where(and(eq(schema.trips.id, id), eq(schema.trips.tenantId, user.tenantId))).limit(1);
+            if (!current) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+
+            try {
+                await cashService.assertCanStartTrip(user.tenantId, current.driverId);
+            } catch (error: any) {
+                return reply.code(400).send({ success: false, error: { code: 'CASH_LIMIT_EXCEEDED', message: error.message } });
+            }
+        }
+
         const updates: any = { status, updatedAt: new Date() };
         if (status === 'in_progress') updates.startedAt = new Date();
         if (status === 'completed') updates.completedAt = new Date();
@@ -235,6 +331,107 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
         return { success: true, data: trip };
     });
 
+    // Capture proof of delivery (signature, photos, GPS) for a trip stop
+    fastify.post<{ Params: TripStopParams; Body: SaveProofBody }>('/trips/:id/orders/:orderId/proof', {
+        preHandler: [fastify.authenticate],
+        schema: { params: TripStopParamsSchema, body: SaveProofBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { id, orderId } = request.params;
+
+        if (user.role !== 'driver') {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN', message: 'Only drivers can capture proof of delivery' } });
+        }
+
+        try {
+            const proof = await deliveryProofService.save(user.tenantId, user.id, id, orderId, request.body);
+            return { success: true, data: proof };
+        } catch (error: any) {
+            const [status, code] = stopError(error.message ?? '');
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Complete a trip stop as delivered, partially delivered or refused
+    fastify.post<{ Params: TripStopParams; Body: CompleteStopBody }>('/trips/:id/orders/:orderId/complete', {
+        preHandler: [fastify.authenticate],
+        schema: { params: TripStopParamsSchema, body: CompleteStopBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { id, orderId } = request.params;
+        const { outcome, notes } = request.body;
+
+        if (!['tenant_admin', 'super_admin', 'supervisor', 'driver'].includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        let result;
+        try {
+            result = await deliveryService.completeStop(user.tenantId, user, id, orderId, request.body);
+        } catch (error: any) {
+            const [status, code] = stopError(error.message ?? '');
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+
+        // Notify admins and the customer about the delivery or refusal
+        try {
+            const {
+                canSendTenantNotification, getTenantAdminsWithTelegram, notifyDeliveryCompleted, notifyCustomerDelivered,
+                notifyOrderReturned, notifyCustomerReturned,
+            } = await import('../lib/telegram');
+
+            const [detail] = await db.select({
+                customerName: schema.customers.name, customerChatId: schema.customers.telegramChatId,
+                currency: schema.tenants.currency,
+            }).from(schema.orders)
+                .innerJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
+                .innerJoin(schema.tenants, eq(schema.orders.tenantId, schema.tenants.id))
+                .where(eq(schema.orders.id, orderId)).limit(1);
+
+            const currency = detail.currency || 'UZS';
+            const customer = { chatId: detail.customerChatId ?? '', name: detail.customerName };
+            const admins = await getTenantAdminsWithTelegram(user.tenantId);
+
+            if (outcome === 'refused') {
+                if ((await canSendTenantNotification(user.tenantId, 'notifyOrderReturned')).canSend) {
+                    for (const admin of admins) {
+                        await notifyOrderReturned(admin.telegramChatId, {
+                            orderNumber: result.orderNumber, customerName: detail.customerName,
+                            returnedAmount: result.creditedAmount, totalAmount: result.creditedAmount, currency, reason: notes,
+                        });
+                    }
+                }
+                if (customer.chatId && (await canSendTenantNotification(user.tenantId, 'customerNotifyReturned')).canSend) {
+                    await notifyCustomerReturned(user.tenantId, customer, {
+                        orderNumber: result.orderNumber, returnedAmount: result.creditedAmount, currency,
+                    });
+                }
+            } else {
+                const adminType = outcome === 'partial' ? 'notifyOrderPartialDelivery' : 'notifyOrderDelivered';
+                if ((await canSendTenantNotification(user.tenantId, adminType)).canSend) {
+                    for (const admin of admins) {
+                        await notifyDeliveryCompleted(admin.telegramChatId, {
+                            orderNumber: result.orderNumber, customerName: detail.customerName,
+                            itemsDelivered: result.qtyDelivered, totalItems: result.qtyOrdered,
+                            total: result.totalAmount, currency, driverName: user.name,
+                        });
+                    }
+                }
+
+                const customerType = outcome === 'partial' ? 'customerNotifyPartialDelivery' : 'customerNotifyDelivered';
+                if (customer.chatId && (await canSendTenantNotification(user.tenantId, customerType)).canSend) {
+                    await notifyCustomerDelivered(user.tenantId, customer, {
+                        orderNumber: result.orderNumber, total: result.totalAmount, currency,
+                        deliveredItems: result.qtyDelivered, totalItems: result.qtyOrdered,
+                        returnedAmount: result.creditedAmount > 0 ? result.creditedAmount : undefined,
+                    });
+                }
+            }
+        } catch (e) { console.error('Telegram notification error:', e); }
+
+        return { success: true, data: result };
+    });
+
     // Get delivery order detail
     fastify.get<{ Params: Static<typeof DeliveryOrderParamsSchema> }>('/orders/:id', {
         preHandler: [fastify.authenticate],
@@ -274,6 +471,15 @@ export const deliveryRoutes: FastifyPluginAsync = async (fastify) => {
             }
         }
 
-        return { success: true, data: order };
+        const items = await db.select({
+            id: schema.orderItems.id, productId: schema.orderItems.productId, productName: schema.products.name,
+            sku: schema.products.sku, unitPrice: schema.orderItems.unitPrice, qtyOrdered: schema.orderItems.qtyOrdered,
+            qtyPicked: schema.orderItems.qtyPicked, qtyDelivered: schema.orderItems.qtyDelivered,
+            qtyReturned: schema.orderItems.qtyReturned, lineTotal: schema.orderItems.lineTotal,
+        }).from(schema.orderItems)
+            .leftJoin(schema.products, eq(schema.orderItems.productId, schema.products.id))
+            .where(eq(schema.orderItems.orderId, order.id));
+
+        return { success: true, data: { ...order, items } };
     });
 };
@@ -2,6 +2,7 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, sql, desc, inArray } from 'drizzle-orm';
+import { promoCodeService } from '../services/promo-code.service';
 
 // Schemas
 const ListDiscountsQuerySchema = Type.Object({
@@ -22,6 +23,8 @@ const CreateDiscountBodySchema = Type.Object({
     freeQty: Type.Optional(Type.Number({ minimum: 1 })),
     minOrderAmount: Type.Optional(Type.Number({ minimum: 0 })),
     maxDiscountAmount: Type.Optional(Type.Number({ minimum: 0 })),
+    priority: Type.Optional(Type.Integer()),
+    isStackable: Type.Optional(Type.Boolean()),
     startsAt: Type.Optional(Type.String()),
     endsAt: Type.Optional(Type.String()),
 });
@@ -40,10 +43,60 @@ const UpdateVolumeTiersBodySchema = Type.Object({
     })),
 });
 
+const PromoCodeIdParamsSchema = Type.Object({ codeId: Type.String() });
+
+const ListPromoCodesQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    search: Type.Optional(Type.String()),
+});
+
+// Either a single `code` or `count` generated codes
+const CreatePromoCodesBodySchema = Type.Object({
+    code: Type.Optional(Type.String({ minLength: 3, maxLength: 50 })),
+    count: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+    prefix: Type.Optional(Type.String({ maxLength: 20 })),
+    maxRedemptions: Type.Optional(Type.Union([Type.Integer({ minimum: 1 }), Type.Null()])),
+    maxPerCustomer: Type.Optional(Type.Union([Type.Integer({ minimum: 1 }), Type.Null()])),
+    firstOrderOnly: Type.Optional(Type.Boolean()),
+});
+
+const UpdatePromoCodeBodySchema = Type.Object({
+    isActive: Type.Optional(Type.Boolean()),
+    maxRedemptions: Type.Optional(Type.Union([Type.Integer({ minimum: 1 }), Type.Null()])),
+    maxPerCustomer: Type.Optional(Type.Union([Type.Integer({ minimum: 1 }), Type.Null()])),
+    firstOrderOnly: Type.Optional(Type.Boolean()),
+});
+
+const RedemptionsQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    promoCodeId: Type.Optional(Type.String()),
+    from: Type.Optional(Type.String({ format: 'date' })),
+    to: Type.Optional(Type.String({ format: 'date' })),
+});
+
+const CampaignReportQuerySchema = Type.Object({
+    from: Type.Optional(Type.String({ format: 'date' })),
+    to: Type.Optional(Type.String({ format: 'date' })),
+});
+
 type ListDiscountsQuery = Static<typeof ListDiscountsQuerySchema>;
 type CreateDiscountBody = Static<typeof CreateDiscountBodySchema>;
 type UpdateScopesBody = Static<typeof UpdateScopesBodySchema>;
 type UpdateVolumeTiersBody = Static<typeof UpdateVolumeTiersBodySchema>;
+type ListPromoCodesQuery = Static<typeof ListPromoCodesQuerySchema>;
+type CreatePromoCodesBody = Static<typeof CreatePromoCodesBodySchema>;
+type UpdatePromoCodeBody = Static<typeof UpdatePromoCodeBodySchema>;
+type RedemptionsQuery = Static<typeof RedemptionsQuerySchema>;
+type CampaignReportQuery = Static<typeof CampaignReportQuerySchema>;
+
+const canManagePromotions = (role: string) => ['tenant_admin', 'super_admin'].includes(role);
+
+const sendServiceError = (reply: any, error: any) => {
+    const code = error.message?.includes('not found') ? 'NOT_FOUND' : 'BAD_REQUEST';
+    return reply.code(code === 'NOT_FOUND' ? 404 : 400).send({ success: false, error: { code, message: error.message } });
+};
 
 export const discountRoutes: FastifyPluginAsync = async (fastify) => {
     // List discounts
@@ -85,7 +138,16 @@ export const discountRoutes: FastifyPluginAsync = async (fastify) => {
         const [{ count }] = await db.select({ count: sql<number>`count(*)` })
             .from(schema.discounts).where(and(...conditions));
 
-        return { success: true, data: discounts, meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) } };
+        // Discounts with promo codes are campaigns that need a code
+        const codeCounts = discounts.length > 0
+            ? await db.select({ discountId: schema.promoCodes.discountId, count: sql<number>`count(*)` })
+                .from(schema.promoCodes)
+                .where(inArray(schema.promoCodes.discountId, discounts.map(d => d.id)))
+                .groupBy(schema.promoCodes.discountId)
+            : [];
+        const codeCountMap = new Map(codeCounts.map(c => [c.discountId, Number(c.count)]));
+
+        return { success: true, data: discounts.map(d => ({ ...d, promoCodeCount: codeCountMap.get(d.id) ?? 0 })), meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) } };
     });
 
     // Create discount
@@ -103,6 +165,7 @@ export const discountRoutes: FastifyPluginAsync = async (fastify) => {
             tenantId: user.tenantId, name: body.name, type: body.type as any,
             value: body.value?.toString(), minQty: body.minQty, freeQty: body.freeQty,
             minOrderAmount: body.minOrderAmount?.toString(), maxDiscountAmount: body.maxDiscountAmount?.toString(),
+            priority: body.priority ?? 0, isStackable: body.isStackable ?? false,
             startsAt: body.startsAt ? new Date(body.startsAt) : null, endsAt: body.endsAt ? new Date(body.endsAt) : null,
             isActive: true,
         }).returning();
@@ -190,4 +253,120 @@ export const discountRoutes: FastifyPluginAsync = async (fastify) => {
 
         return { success: true, message: 'Volume tiers updated successfully' };
     });
+
+    // ----------------------------------------------------------------
+    // PROMO CODES
+    // ----------------------------------------------------------------
+
+    // List a discount's promo codes with their redemption counts
+    fastify.get<{ Params: Static<typeof DiscountIdParamsSchema>; Querystring: ListPromoCodesQuery }>('/:id/codes', {
+        preHandler: [fastify.authenticate],
+        schema: { params: DiscountIdParamsSchema, querystring: ListPromoCodesQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!canManagePromotions(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const page = parseInt(request.query.page || '1');
+        const limit = parseInt(request.query.limit || '50');
+        const { rows, total } = await promoCodeService.listCodes(user.tenantId, request.params.id, { search: request.query.search, page, limit });
+
+        return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+    });
+
+    // Create a code or generate a batch of codes
+    fastify.post<{ Params: Static<typeof DiscountIdParamsSchema>; Body: CreatePromoCodesBody }>('/:id/codes', {
+        preHandler: [fastify.authenticate],
+        schema: { params: DiscountIdParamsSchema, body: CreatePromoCodesBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!canManagePromotions(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+        if (!request.body.code && !request.body.count) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'Provide a code or a count to generate' } });
+        }
+
+        try {
+            const codes = await promoCodeService.createCodes(user.tenantId, request.params.id, request.body, user.id);
+            return { success: true, data: codes };
+        } catch (error: any) {
+            return sendServiceError(reply, error);
+        }
+    });
+
+    // Update limits or (de)activate a code
+    fastify.patch<{ Params: Static<typeof PromoCodeIdParamsSchema>; Body: UpdatePromoCodeBody }>('/codes/:codeId', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PromoCodeIdParamsSchema, body: UpdatePromoCodeBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!canManagePromotions(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const code = await promoCodeService.updateCode(user.tenantId, request.params.codeId, request.body);
+            return { success: true, data: code };
+        } catch (error: any) {
+            return sendServiceError(reply, error);
+        }
+    });
+
+    // Delete an unused code
+    fastify.delete<{ Params: Static<typeof PromoCodeIdParamsSchema> }>('/codes/:codeId', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PromoCodeIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!canManagePromotions(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            await promoCodeService.deleteCode(user.tenantId, request.params.codeId);
+            return { success: true, message: 'Promo code deleted' };
+        } catch (error: any) {
+            return sendServiceError(reply, error);
+        }
+    });
+
+    // Orders that redeemed a discount's codes
+    fastify.get<{ Params: Static<typeof DiscountIdParamsSchema>; Querystring: RedemptionsQuery }>('/:id/redemptions', {
+        preHandler: [fastify.authenticate],
+        schema: { params: DiscountIdParamsSchema, querystring: RedemptionsQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!canManagePromotions(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const page = parseInt(request.query.page || '1');
+        const limit = parseInt(request.query.limit || '20');
+        const { rows, total } = await promoCodeService.listRedemptions(user.tenantId, {
+            discountId: request.params.id,
+            promoCodeId: request.query.promoCodeId,
+            from: request.query.from,
+            to: request.query.to,
+            page,
+            limit,
+        });
+
+        return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+    });
+
+    // Redemptions and revenue per promo code campaign
+    fastify.get<{ Querystring: CampaignReportQuery }>('/redemptions/report', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: CampaignReportQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!canManagePromotions(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const data = await promoCodeService.campaignReport(user.tenantId, request.query);
+        return { success: true, data };
+    });
 };
@@ -2,17 +2,21 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, sql, desc } from 'drizzle-orm';
+import { stockService } from '../services/stock.service';
+import { generalLedgerService } from '../services/general-ledger.service';
 
 // Schemas
 const ListMovementsQuerySchema = Type.Object({
     page: Type.Optional(Type.String()),
     limit: Type.Optional(Type.String()),
     productId: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String()),
     movementType: Type.Optional(Type.String()),
 });
 
 const CreateAdjustmentBodySchema = Type.Object({
     productId: Type.String(),
+    warehouseId: Type.Optional(Type.String()),
     type: Type.String(),
     quantity: Type.Number({ minimum: 1 }),
     reason: Type.String({ minLength: 3 }),
@@ -26,6 +30,7 @@ const BatchAdjustmentItemSchema = Type.Object({
 
 const CreateBatchAdjustmentBodySchema = Type.Object({
     type: Type.String(),
+    warehouseId: Type.Optional(Type.String()),
     reason: Type.String({ minLength: 3 }),
     items: Type.Array(BatchAdjustmentItemSchema, { minItems: 1 }),
 });
@@ -41,7 +46,7 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
         schema: { querystring: ListMovementsQuerySchema },
     }, async (request, reply) => {
         const user = request.user!;
-        const { page: pageStr = '1', limit: limitStr = '20', productId, movementType } = request.query;
+        const { page: pageStr = '1', limit: limitStr = '20', productId, warehouseId, movementType } = request.query;
         const page = parseInt(pageStr);
         const limit = parseInt(limitStr);
         const offset = (page - 1) * limit;
@@ -53,11 +58,14 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
 
         const conditions: any[] = [eq(schema.stockMovements.tenantId, user.tenantId)];
         if (productId) conditions.push(eq(schema.stockMovements.productId, productId));
+        if (warehouseId) conditions.push(eq(schema.stockMovements.warehouseId, warehouseId));
         if (movementType) conditions.push(eq(schema.stockMovements.movementType, movementType as any));
 
         const movements = await db.select({
             id: schema.stockMovements.id,
             productName: schema.products.name,
+            warehouseId: schema.stockMovements.warehouseId,
+            warehouseName: schema.warehouses.name,
             movementType: schema.stockMovements.movementType,
             quantity: schema.stockMovements.quantity,
             quantityBefore: schema.stockMovements.quantityBefore,
@@ -67,6 +75,7 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
             userName: schema.users.name,
         }).from(schema.stockMovements)
             .leftJoin(schema.products, eq(schema.stockMovements.productId, schema.products.id))
+            .leftJoin(schema.warehouses, eq(schema.stockMovements.warehouseId, schema.warehouses.id))
             .leftJoin(schema.users, eq(schema.stockMovements.createdBy, schema.users.id))
             .where(and(...conditions))
             .orderBy(desc(schema.stockMovements.createdAt))
@@ -94,14 +103,17 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
 
         try {
             const result = await db.transaction(async (tx) => {
-                const [product] = await tx.select({ stockQuantity: schema.products.stockQuantity })
+                const [product] = await tx.select({ id: schema.products.id })
                     .from(schema.products)
                     .where(and(eq(schema.products.id, body.productId), eq(schema.products.tenantId, user.tenantId)))
                     .limit(1);
 
                 if (!product) throw new Error('Product not found');
 
-                const qtyBefore = product.stockQuantity || 0;
+                const warehouseId = await stockService.resolveWarehouseId(tx, user.tenantId, body.warehouseId);
+                const balance = (await stockService.getBalances(tx, warehouseId, [body.productId], true)).get(body.productId)!;
+
+                const qtyBefore = balance.quantity;
                 let qtyAfter = qtyBefore;
                 let change = 0;
 
@@ -109,28 +121,29 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
                 else if (body.type === 'found') { change = body.quantity; qtyAfter = qtyBefore + change; }
                 else { change = -body.quantity; qtyAfter = qtyBefore + change; }
 
-                await tx.update(schema.products).set({ stockQuantity: qtyAfter }).where(eq(schema.products.id, body.productId));
-
                 const [adjustment] = await tx.insert(schema.stockAdjustments).values({
-                    tenantId: user.tenantId, adjustmentNumber, productId: body.productId,
+                    tenantId: user.tenantId, adjustmentNumber, productId: body.productId, warehouseId,
                     adjustmentType: body.type as any, qtyBefore, qtyAfter, reason: body.reason,
                     createdBy: user.id, approvedBy: user.id,
                 }).returning();
 
-                await tx.insert(schema.stockMovements).values({
-                    tenantId: user.tenantId, productId: body.productId,
+                await stockService.adjustQuantity(tx, {
+                    tenantId: user.tenantId, warehouseId, productId: body.productId, change,
                     movementType: body.type === 'found' ? 'in' : (change < 0 ? 'out' : 'adjust'),
-                    quantity: Math.abs(change), quantityBefore: qtyBefore, quantityAfter: qtyAfter,
                     referenceType: 'adjustment', referenceId: adjustment.id, createdBy: user.id,
                     notes: `Adjustment: ${body.reason}`,
                 });
+                await generalLedgerService.postStockAdjustment(tx, adjustment, user.id);
 
                 return adjustment;
             });
             return { success: true, data: result };
         } catch (error: any) {
-            if (error.message === 'Product not found') {
-                return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            if (error.message === 'Product not found' || error.message === 'Warehouse not found') {
+                return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            }
+            if (error.message?.startsWith('Insufficient stock')) {
+                return reply.code(400).send({ success: false, error: { code: 'INSUFFICIENT_STOCK', message: error.message } });
             }
             return reply.code(500).send({ success: false, error: { code: 'SERVER_ERROR' } });
         }
@@ -154,10 +167,10 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
             const results = await db.transaction(async (tx) => {
                 const adjustments: any[] = [];
                 const errors: string[] = [];
+                const warehouseId = await stockService.resolveWarehouseId(tx, user.tenantId, body.warehouseId);
 
                 for (const item of body.items) {
                     const [product] = await tx.select({
-                        stockQuantity: schema.products.stockQuantity,
                         name: schema.products.name
                     })
                         .from(schema.products)
@@ -169,7 +182,8 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
                         continue;
                     }
 
-                    const qtyBefore = product.stockQuantity || 0;
+                    const balance = (await stockService.getBalances(tx, warehouseId, [item.productId], true)).get(item.productId)!;
+                    const qtyBefore = balance.quantity;
                     let qtyAfter = qtyBefore;
                     let change = 0;
 
@@ -187,11 +201,10 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
 
                     // Skip if no change
                     if (change === 0) continue;
-
-                    // Update product stock
-                    await tx.update(schema.products)
-                        .set({ stockQuantity: qtyAfter })
-                        .where(eq(schema.products.id, item.productId));
+                    if (qtyAfter < 0) {
+                        errors.push(`Insufficient stock for ${product.name}. Only ${qtyBefore} on hand.`);
+                        continue;
+                    }
 
                     // Create adjustment record
                     const adjustmentNumber = `ADJ-${Date.now()}-${adjustments.length}`;
@@ -199,6 +212,7 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
                         tenantId: user.tenantId,
                         adjustmentNumber,
                         productId: item.productId,
+                        warehouseId,
                         adjustmentType: body.type as any,
                         qtyBefore,
                         qtyAfter,
@@ -207,19 +221,19 @@ export const inventoryRoutes: FastifyPluginAsync = async (fastify) => {
                         approvedBy: user.id,
                     }).returning();
 
-                    // Create stock movement
-                    await tx.insert(schema.stockMovements).values({
+                    // Update warehouse stock and record the movement
+                    await stockService.adjustQuantity(tx, {
                         tenantId: user.tenantId,
+                        warehouseId,
                         productId: item.productId,
+                        change,
                         movementType: body.type === 'found' ? 'in' : (change < 0 ? 'out' : 'adjust'),
-                        quantity: Math.abs(change),
-                        quantityBefore: qtyBefore,
-                        quantityAfter: qtyAfter,
                         referenceType: 'adjustment',
                         referenceId: adjustment.id,
                         createdBy: user.id,
                         notes: `Batch Adjustment: ${body.reason}`,
                     });
+                    await generalLedgerService.postStockAdjustment(tx, adjustment, user.id);
 
                     adjustments.push({
                         ...adjustment,
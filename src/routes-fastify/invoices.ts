@@ -0,0 +1,143 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { db, schema } from '../db';
+import { eq, and } from 'drizzle-orm';
+import { invoiceService } from '../services/invoice.service';
+
+// Schemas
+const InvoiceIdParamsSchema = Type.Object({ id: Type.String() });
+
+const ListInvoicesQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    status: Type.Optional(Type.String()),
+    customerId: Type.Optional(Type.String()),
+    orderId: Type.Optional(Type.String()),
+    from: Type.Optional(Type.String({ format: 'date' })),
+    to: Type.Optional(Type.String({ format: 'date' })),
+    search: Type.Optional(Type.String()),
+});
+
+const IssueInvoiceBodySchema = Type.Object({
+    orderId: Type.String(),
+});
+
+type ListInvoicesQuery = Static<typeof ListInvoicesQuerySchema>;
+type IssueInvoiceBody = Static<typeof IssueInvoiceBodySchema>;
+
+const INVOICE_ROLES = ['tenant_admin', 'super_admin', 'supervisor'];
+
+// Orders that may be invoiced by hand (e.g. delivered before invoicing existed)
+const INVOICEABLE_STATUSES = ['approved', 'picking', 'picked', 'loaded', 'delivering', 'delivered', 'partial'];
+
+const invoiceError = (message: string): [number, string] => {
+    if (message.includes('not found')) return [404, 'NOT_FOUND'];
+    return [400, 'BAD_REQUEST'];
+};
+
+export const invoiceRoutes: FastifyPluginAsync = async (fastify) => {
+    // List invoices
+    fastify.get<{ Querystring: ListInvoicesQuery }>('/', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ListInvoicesQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!INVOICE_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { page: pageStr = '1', limit: limitStr = '20', ...filters } = request.query;
+        const page = Math.max(1, parseInt(pageStr) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(limitStr) || 20));
+
+        const { rows, total } = await invoiceService.list(user.tenantId, { ...filters, page, limit });
+        return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+    });
+
+    // Issue the invoice for an order by hand
+    fastify.post<{ Body: IssueInvoiceBody }>('/', {
+        preHandler: [fastify.authenticate],
+        schema: { body: IssueInvoiceBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!INVOICE_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const [order] = await db.select({ id: schema.orders.id, status: schema.orders.status })
+            .from(schema.orders)
+            .where(and(eq(schema.orders.id, request.body.orderId), eq(schema.orders.tenantId, user.tenantId)))
+            .limit(1);
+        if (!order) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Order not found' } });
+        }
+        if (!INVOICEABLE_STATUSES.includes(order.status || '')) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Orders in '${order.status}' status cannot be invoiced` } });
+        }
+
+        try {
+            const invoice = await db.transaction(tx => invoiceService.issueForOrder(tx, order.id, user.id));
+            return { success: true, data: await invoiceService.getById(user.tenantId, invoice.id) };
+        } catch (error: any) {
+            const [status, code] = invoiceError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Invoice detail
+    fastify.get<{ Params: Static<typeof InvoiceIdParamsSchema> }>('/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: InvoiceIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!INVOICE_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const invoice = await invoiceService.getById(user.tenantId, request.params.id);
+        if (!invoice) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+        return { success: true, data: invoice };
+    });
+
+    // Invoice PDF
+    fastify.get<{ Params: Static<typeof InvoiceIdParamsSchema> }>('/:id/pdf', {
+        preHandler: [fastify.authenticate],
+        schema: { params: InvoiceIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!INVOICE_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const rendered = await invoiceService.renderPdf(user.tenantId, request.params.id);
+        if (!rendered) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+
+        return reply
+            .header('Content-Type', 'application/pdf')
+            .header('Content-Disposition', `inline; filename="${encodeURIComponent(rendered.invoiceNumber)}.pdf"`)
+            .send(rendered.pdf);
+    });
+
+    // Send the PDF to the customer's Telegram chat
+    fastify.post<{ Params: Static<typeof InvoiceIdParamsSchema> }>('/:id/send-telegram', {
+        preHandler: [fastify.authenticate],
+        schema: { params: InvoiceIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!INVOICE_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            await invoiceService.sendToTelegram(user.tenantId, request.params.id);
+            return { success: true, message: 'Invoice sent' };
+        } catch (error: any) {
+            const [status, code] = invoiceError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+};
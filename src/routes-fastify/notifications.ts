@@ -37,6 +37,7 @@ const TenantSettingsBodySchema = Type.Object({
     notifyPaymentPartial: Type.Optional(Type.Boolean()),
     notifyPaymentComplete: Type.Optional(Type.Boolean()),
     notifyLowStock: Type.Optional(Type.Boolean()),
+    notifyNearExpiry: Type.Optional(Type.Boolean()),
     notifyDueDebt: Type.Optional(Type.Boolean()),
     customerNotifyOrderConfirmed: Type.Optional(Type.Boolean()),
     customerNotifyOrderApproved: Type.Optional(Type.Boolean()),
@@ -48,6 +49,7 @@ const TenantSettingsBodySchema = Type.Object({
     customerNotifyPaymentReceived: Type.Optional(Type.Boolean()),
     customerNotifyPaymentDue: Type.Optional(Type.Boolean()),
     lowStockThreshold: Type.Optional(Type.Number({ minimum: 1 })),
+    nearExpiryDaysThreshold: Type.Optional(Type.Number({ minimum: 1 })),
     dueDebtDaysThreshold: Type.Optional(Type.Number({ minimum: 1 })),
     // Role-based notification settings
     roleSettings: Type.Optional(Type.Array(Type.Object({
@@ -163,11 +165,11 @@ export const notificationRoutes: FastifyPluginAsync = async (fastify) => {
                     telegramEnabledByAdmin: tenant?.telegramEnabled ?? false,
                     notifyNewOrder: true, notifyOrderApproved: true, notifyOrderCancelled: true, notifyOrderDelivered: true,
                     notifyOrderPartialDelivery: true, notifyOrderReturned: true, notifyOrderPartialReturn: true, notifyOrderCompleted: true,
-                    notifyPaymentReceived: true, notifyPaymentPartial: true, notifyPaymentComplete: true, notifyLowStock: true, notifyDueDebt: false,
+                    notifyPaymentReceived: true, notifyPaymentPartial: true, notifyPaymentComplete: true, notifyLowStock: true, notifyNearExpiry: true, notifyDueDebt: false,
                     customerNotifyOrderConfirmed: true, customerNotifyOrderApproved: true, customerNotifyOrderCancelled: true,
                     customerNotifyOutForDelivery: true, customerNotifyDelivered: true, customerNotifyPartialDelivery: true,
                     customerNotifyReturned: false, customerNotifyPaymentReceived: true, customerNotifyPaymentDue: true,
-                    lowStockThreshold: 10, dueDebtDaysThreshold: 7,
+                    lowStockThreshold: 10, nearExpiryDaysThreshold: 30, dueDebtDaysThreshold: 7,
                     roleSettings: roleSettings.length > 0 ? roleSettings : generateDefaultRoleSettings(user.tenantId),
                 }
             };
@@ -201,12 +203,14 @@ export const notificationRoutes: FastifyPluginAsync = async (fastify) => {
             notifyOrderPartialReturn: body.notifyOrderPartialReturn ?? true, notifyOrderCompleted: body.notifyOrderCompleted ?? true,
             notifyPaymentReceived: body.notifyPaymentReceived ?? true, notifyPaymentPartial: body.notifyPaymentPartial ?? true,
             notifyPaymentComplete: body.notifyPaymentComplete ?? true, notifyLowStock: body.notifyLowStock ?? true,
+            notifyNearExpiry: body.notifyNearExpiry ?? true,
             notifyDueDebt: body.notifyDueDebt ?? false, customerNotifyOrderConfirmed: body.customerNotifyOrderConfirmed ?? true,
             customerNotifyOrderApproved: body.customerNotifyOrderApproved ?? true, customerNotifyOrderCancelled: body.customerNotifyOrderCancelled ?? true,
             customerNotifyOutForDelivery: body.customerNotifyOutForDelivery ?? true, customerNotifyDelivered: body.customerNotifyDelivered ?? true,
             customerNotifyPartialDelivery: body.customerNotifyPartialDelivery ?? true, customerNotifyReturned: body.customerNotifyReturned ?? false,
             customerNotifyPaymentReceived: body.customerNotifyPaymentReceived ?? true, customerNotifyPaymentDue: body.customerNotifyPaymentDue ?? true,
-            lowStockThreshold: body.lowStockThreshold ?? 10, dueDebtDaysThreshold: body.dueDebtDaysThreshold ?? 7,
+            lowStockThreshold: body.lowStockThreshold ?? 10, nearExpiryDaysThreshold: body.nearExpiryDaysThreshold ?? 30,
+            dueDebtDaysThreshold: body.dueDebtDaysThreshold ?? 7,
         }).onConflictDoUpdate({
             target: schema.tenantNotificationSettings.tenantId,
             set: { 
@@ -216,12 +220,14 @@ export const notificationRoutes: FastifyPluginAsync = async (fastify) => {
                 notifyOrderPartialReturn: body.notifyOrderPartialReturn, notifyOrderCompleted: body.notifyOrderCompleted,
                 notifyPaymentReceived: body.notifyPaymentReceived, notifyPaymentPartial: body.notifyPaymentPartial,
                 notifyPaymentComplete: body.notifyPaymentComplete, notifyLowStock: body.notifyLowStock,
+                notifyNearExpiry: body.notifyNearExpiry,
                 notifyDueDebt: body.notifyDueDebt, customerNotifyOrderConfirmed: body.customerNotifyOrderConfirmed,
                 customerNotifyOrderApproved: body.customerNotifyOrderApproved, customerNotifyOrderCancelled: body.customerNotifyOrderCancelled,
                 customerNotifyOutForDelivery: body.customerNotifyOutForDelivery, customerNotifyDelivered: body.customerNotifyDelivered,
                 customerNotifyPartialDelivery: body.customerNotifyPartialDelivery, customerNotifyReturned: body.customerNotifyReturned,
                 customerNotifyPaymentReceived: body.customerNotifyPaymentReceived, customerNotifyPaymentDue: body.customerNotifyPaymentDue,
-                lowStockThreshold: body.lowStockThreshold, dueDebtDaysThreshold: body.dueDebtDaysThreshold,
+                lowStockThreshold: body.lowStockThreshold, nearExpiryDaysThreshold: body.nearExpiryDaysThreshold,
+                dueDebtDaysThreshold: body.dueDebtDaysThreshold,
                 updatedAt: new Date() 
             } as any,
         }).returning();
@@ -250,7 +256,7 @@ function generateDefaultRoleSettings(tenantId: string) {
     const adminNotificationTypes = [
         'notifyNewOrder', 'notifyOrderApproved', 'notifyOrderCancelled', 'notifyOrderDelivered',
         'notifyOrderPartialDelivery', 'notifyOrderReturned', 'notifyOrderPartialReturn', 'notifyOrderCompleted',
-        'notifyPaymentReceived', 'notifyPaymentPartial', 'notifyPaymentComplete', 'notifyLowStock', 'notifyDueDebt'
+        'notifyPaymentReceived', 'notifyPaymentPartial', 'notifyPaymentComplete', 'notifyLowStock', 'notifyNearExpiry', 'notifyDueDebt'
     ];
     
     const defaultSettings = [];
@@ -5,6 +5,17 @@ import { buildSalesCustomerAssignmentCondition, buildSalesCustomerScope } from '
 import { getTenantDayRange } from '../lib/tenant-time';
 import { VisitsService } from '../services/visits.service';
 import { ordersService } from '../services/orders.service';
+import { pricingService, type PriceQuote } from '../services/pricing.service';
+import { promoCodeService, type ResolvedPromoCode } from '../services/promo-code.service';
+import { productUnitService, type UnitLine } from '../services/product-unit.service';
+import { stockService } from '../services/stock.service';
+import { visitRouteService } from '../services/visit-route.service';
+import { deliveryProofService } from '../services/delivery-proof.service';
+import { customerLedgerService } from '../services/customer-ledger.service';
+import { invoiceService } from '../services/invoice.service';
+import { generalLedgerService } from '../services/general-ledger.service';
+import { packingService } from '../services/packing.service';
+import { PromoCodeError, UnitNotSoldError } from '../errors';
 import { eq, and, sql, desc, inArray, gte, lt } from 'drizzle-orm';
 
 // Schemas
@@ -23,25 +34,42 @@ const ListOrdersQuerySchema = Type.Object({
     endDate: Type.Optional(Type.String()),
 });
 
+// A product's base unit or one of its packs (null = base unit)
+const OrderUnitSchema = Type.Optional(Type.Union([
+    Type.Union(schema.productUnitEnum.enumValues.map(unit => Type.Literal(unit))),
+    Type.Null(),
+]));
+
+// Prices and totals come from the pricing engine; the unit price the app
+// showed (per base unit) is only compared with the current one.
+// qtyOrdered is in the line's unit
 const CreateOrderItemSchema = Type.Object({
     productId: Type.String(),
     unitPrice: Type.Number({ minimum: 0 }),
     qtyOrdered: Type.Number({ minimum: 1 }),
-    lineTotal: Type.Number({ minimum: 0 }),
+    unit: OrderUnitSchema,
 });
 
 const CreateOrderBodySchema = Type.Object({
     customerId: Type.String(),
     salesRepId: Type.Optional(Type.String()),
-    subtotalAmount: Type.Number({ minimum: 0 }),
-    discountAmount: Type.Optional(Type.Number({ minimum: 0 })),
-    taxAmount: Type.Optional(Type.Number({ minimum: 0 })),
-    totalAmount: Type.Number({ minimum: 0 }),
     notes: Type.Optional(Type.String()),
     requestedDeliveryDate: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String()),
+    promoCode: Type.Optional(Type.String()),
     items: Type.Array(CreateOrderItemSchema),
 });
 
+const QuoteOrderBodySchema = Type.Object({
+    customerId: Type.String(),
+    promoCode: Type.Optional(Type.String()),
+    items: Type.Array(Type.Object({
+        productId: Type.String(),
+        qtyOrdered: Type.Number({ minimum: 1 }),
+        unit: OrderUnitSchema,
+    }), { minItems: 1 }),
+});
+
 const GetOrderParamsSchema = Type.Object({
     id: Type.String(),
 });
@@ -55,10 +83,22 @@ const CancelOrderBodySchema = Type.Object({
     reason: Type.Optional(Type.String()),
 });
 
+const RouteOptimizationQuerySchema = Type.Object({
+    latitude: Type.Optional(Type.Number({ minimum: -90, maximum: 90 })),
+    longitude: Type.Optional(Type.Number({ minimum: -180, maximum: 180 })),
+});
+
+const SaveRouteOrderBodySchema = Type.Object({
+    visitIds: Type.Array(Type.String(), { minItems: 1 }),
+});
+
 type ListOrdersQuery = Static<typeof ListOrdersQuerySchema>;
 type CreateOrderBody = Static<typeof CreateOrderBodySchema>;
+type QuoteOrderBody = Static<typeof QuoteOrderBodySchema>;
 type UpdateStatusBody = Static<typeof UpdateStatusBodySchema>;
 type CancelOrderBody = Static<typeof CancelOrderBodySchema>;
+type RouteOptimizationQuery = Static<typeof RouteOptimizationQuerySchema>;
+type SaveRouteOrderBody = Static<typeof SaveRouteOrderBodySchema>;
 
 export const orderRoutes: FastifyPluginAsync = async (fastify) => {
     const visitsService = new VisitsService();
@@ -424,87 +464,7 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
         const conversionRate = totalVisits > 0 ? (visitsWithOrders / totalVisits) * 100 : 0;
         const visitCompletionRate = totalVisits > 0 ? (completedVisits / totalVisits) * 100 : 0;
 
-        const routeVisits = await db
-            .select({
-                visitId: schema.salesVisits.id,
-                customerId: schema.customers.id,
-                customerName: schema.customers.name,
-                customerAddress: schema.customers.address,
-                latitude: schema.customers.latitude,
-                longitude: schema.customers.longitude,
-                plannedTime: schema.salesVisits.plannedTime,
-                visitType: schema.salesVisits.visitType,
-            })
-            .from(schema.salesVisits)
-            .innerJoin(schema.customers, eq(schema.salesVisits.customerId, schema.customers.id))
-            .where(and(
-                eq(schema.salesVisits.tenantId, user.tenantId),
-                eq(schema.salesVisits.plannedDate, todayStr),
-                eq(schema.salesVisits.status, 'planned'),
-                eq(schema.salesVisits.salesRepId, user.id)
-            ));
-
-        const visitsWithCoords = routeVisits
-            .filter(v => v.latitude && v.longitude)
-            .map(visit => ({
-                visitId: visit.visitId,
-                customerId: visit.customerId,
-                customerName: visit.customerName,
-                customerAddress: visit.customerAddress,
-                latitude: Number(visit.latitude || 0),
-                longitude: Number(visit.longitude || 0),
-                plannedTime: visit.plannedTime,
-                visitType: visit.visitType,
-            }));
-
-        const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-            const R = 6371;
-            const dLat = (lat2 - lat1) * Math.PI / 180;
-            const dLon = (lon2 - lon1) * Math.PI / 180;
-            const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-                Math.sin(dLon / 2) * Math.sin(dLon / 2);
-            const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-            return R * c;
-        };
-
-        const optimizedRoute: Array<typeof visitsWithCoords[0] & { sequence: number }> = [];
-        const unvisited = [...visitsWithCoords];
-        if (unvisited.length > 0) {
-            let current = unvisited.shift()!;
-            optimizedRoute.push({ ...current, sequence: 1 });
-
-            while (unvisited.length > 0) {
-                let nearestIndex = 0;
-                let nearestDistance = Infinity;
-
-                for (let i = 0; i < unvisited.length; i++) {
-                    const distance = haversineDistance(
-                        current.latitude,
-                        current.longitude,
-                        unvisited[i].latitude,
-                        unvisited[i].longitude
-                    );
-                    if (distance < nearestDistance) {
-                        nearestDistance = distance;
-                        nearestIndex = i;
-                    }
-                }
-
-                current = unvisited.splice(nearestIndex, 1)[0];
-                optimizedRoute.push({ ...current, sequence: optimizedRoute.length + 1 });
-            }
-        }
-
-        let totalDistance = 0;
-        for (let i = 0; i < optimizedRoute.length - 1; i++) {
-            totalDistance += haversineDistance(
-                optimizedRoute[i].latitude,
-                optimizedRoute[i].longitude,
-                optimizedRoute[i + 1].latitude,
-                optimizedRoute[i + 1].longitude
-            );
-        }
+        const routeOptimization = await visitRouteService.optimize(user.tenantId, user.id);
 
         const now = new Date();
         const thirtyDaysAgo = new Date(now);
@@ -684,12 +644,7 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                     completedVisits,
                     visitsWithOrders,
                 },
-                routeOptimization: {
-                    visits: optimizedRoute,
-                    totalVisits: optimizedRoute.length,
-                    estimatedDistance: Number(totalDistance.toFixed(2)),
-                    estimatedTime: Math.round(totalDistance * 2),
-                },
+                routeOptimization,
                 gamification: {
                     currentStreak,
                     totalSales: totalSalesValue,
@@ -1057,8 +1012,9 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
     });
 
     // Route optimization for today's visits
-    fastify.get('/route-optimization', {
+    fastify.get<{ Querystring: RouteOptimizationQuery }>('/route-optimization', {
         preHandler: [fastify.authenticate],
+        schema: { querystring: RouteOptimizationQuerySchema },
     }, async (request, reply) => {
         const user = request.user!;
 
@@ -1066,103 +1022,30 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
             reply.code(403);
             return { success: false, error: { code: 'FORBIDDEN', message: 'Sales dashboard is restricted to sales reps' } };
         }
-        const { todayStr } = await getTenantDayRange(user.tenantId);
-        const visitConditions: any[] = [
-            eq(schema.salesVisits.tenantId, user.tenantId),
-            eq(schema.salesVisits.plannedDate, todayStr),
-            eq(schema.salesVisits.status, 'planned')
-        ];
-        if (user.role === 'sales_rep') {
-            visitConditions.push(eq(schema.salesVisits.salesRepId, user.id));
-        }
-
-        const visits = await db
-            .select({
-                visitId: schema.salesVisits.id,
-                customerId: schema.customers.id,
-                customerName: schema.customers.name,
-                customerAddress: schema.customers.address,
-                latitude: schema.customers.latitude,
-                longitude: schema.customers.longitude,
-                plannedTime: schema.salesVisits.plannedTime,
-                visitType: schema.salesVisits.visitType,
-            })
-            .from(schema.salesVisits)
-            .innerJoin(schema.customers, eq(schema.salesVisits.customerId, schema.customers.id))
-            .where(and(...visitConditions));
 
-        const visitsWithCoords = visits
-            .filter(v => v.latitude && v.longitude)
-            .map(visit => ({
-                visitId: visit.visitId,
-                customerId: visit.customerId,
-                customerName: visit.customerName,
-                customerAddress: visit.customerAddress,
-                latitude: Number(visit.latitude || 0),
-                longitude: Number(visit.longitude || 0),
-                plannedTime: visit.plannedTime,
-                visitType: visit.visitType,
-            }));
-
-        const haversineDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-            const R = 6371;
-            const dLat = (lat2 - lat1) * Math.PI / 180;
-            const dLon = (lon2 - lon1) * Math.PI / 180;
-            const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-                Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-                Math.sin(dLon / 2) * Math.sin(dLon / 2);
-            const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-            return R * c;
-        };
+        const { latitude, longitude } = request.query;
+        const route = await visitRouteService.optimize(user.tenantId, user.id, { latitude, longitude });
+        return { success: true, data: route };
+    });
 
-        const optimizedRoute: Array<typeof visitsWithCoords[0] & { sequence: number }> = [];
-        const unvisited = [...visitsWithCoords];
-
-        if (unvisited.length > 0) {
-            let current = unvisited.shift()!;
-            optimizedRoute.push({ ...current, sequence: 1 });
-
-            while (unvisited.length > 0) {
-                let nearestIndex = 0;
-                let nearestDistance = Infinity;
-
-                for (let i = 0; i < unvisited.length; i++) {
-                    const distance = haversineDistance(
-                        current.latitude,
-                        current.longitude,
-                        unvisited[i].latitude,
-                        unvisited[i].longitude
-                    );
-                    if (distance < nearestDistance) {
-                        nearestDistance = distance;
-                        nearestIndex = i;
-                    }
-                }
+    // Save an optimized route as today's visit order
+    fastify.post<{ Body: SaveRouteOrderBody }>('/route-optimization/apply', {
+        preHandler: [fastify.authenticate],
+        schema: { body: SaveRouteOrderBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
 
-                current = unvisited.splice(nearestIndex, 1)[0];
-                optimizedRoute.push({ ...current, sequence: optimizedRoute.length + 1 });
-            }
+        if (user.role !== 'sales_rep') {
+            reply.code(403);
+            return { success: false, error: { code: 'FORBIDDEN', message: 'Sales dashboard is restricted to sales reps' } };
         }
 
-        let totalDistance = 0;
-        for (let i = 0; i < optimizedRoute.length - 1; i++) {
-            totalDistance += haversineDistance(
-                optimizedRoute[i].latitude,
-                optimizedRoute[i].longitude,
-                optimizedRoute[i + 1].latitude,
-                optimizedRoute[i + 1].longitude
-            );
+        try {
+            const result = await visitRouteService.saveOrder(user.tenantId, user.id, request.body.visitIds);
+            return { success: true, data: result };
+        } catch (error: any) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
         }
-
-        return {
-            success: true,
-            data: {
-                visits: optimizedRoute,
-                totalVisits: optimizedRoute.length,
-                estimatedDistance: Number(totalDistance.toFixed(2)),
-                estimatedTime: Math.round(totalDistance * 2),
-            }
-        };
     });
 
     // Gamification - User achievements and streaks
@@ -1442,6 +1325,59 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
         };
     });
 
+    // ----------------------------------------------------------------
+    // QUOTE ORDER
+    // Prices a cart the way order creation will, with per-line explanations
+    // ----------------------------------------------------------------
+    fastify.post<{ Body: QuoteOrderBody }>('/quote', {
+        preHandler: [fastify.authenticate],
+        schema: {
+            body: QuoteOrderBodySchema,
+        }
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { customerId, items, promoCode } = request.body;
+
+        const [customer] = await db
+            .select({ assignedSalesRepId: schema.customers.assignedSalesRepId })
+            .from(schema.customers)
+            .where(and(eq(schema.customers.id, customerId), eq(schema.customers.tenantId, user.tenantId)))
+            .limit(1);
+
+        if (!customer) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Customer not found' } });
+        }
+        if (user.role === 'sales_rep' && customer.assignedSalesRepId !== user.id) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN', message: 'You can only create orders for your assigned customers' } });
+        }
+
+        try {
+            const promo = promoCode?.trim()
+                ? await promoCodeService.resolve(user.tenantId, customerId, promoCode)
+                : undefined;
+            const unitLines = await productUnitService.toBaseLines(
+                user.tenantId,
+                items.map(item => ({ productId: item.productId, unit: item.unit, quantity: item.qtyOrdered }))
+            );
+            const quote = await pricingService.quote({
+                tenantId: user.tenantId,
+                customerId,
+                lines: unitLines.map(line => ({ productId: line.productId, quantity: line.quantity })),
+                promoDiscountIds: promo ? [promo.discountId] : undefined,
+            });
+            const promoResult = promo
+                ? { code: promo.code, discountId: promo.discountId, applied: quote.appliedDiscounts.some(d => d.id === promo.discountId) }
+                : null;
+            return { success: true, data: { ...quote, promoCode: promoResult } };
+        } catch (error: any) {
+            if (error instanceof PromoCodeError) {
+                return reply.code(error.code === 'DISCOUNT_NOT_FOUND' ? 404 : 400).send({ success: false, error: { code: error.code, message: error.message } });
+            }
+            const code = error.message?.includes('not found') ? 'NOT_FOUND' : 'BAD_REQUEST';
+            return reply.code(code === 'NOT_FOUND' ? 404 : 400).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
     // ----------------------------------------------------------------
     // CREATE ORDER
     // ----------------------------------------------------------------
@@ -1490,46 +1426,37 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                 return { error: { code: 'FORBIDDEN', message: 'You can only create orders for your assigned customers', status: 403 } };
             }
 
-            // 3. Validate credit/tier limits
-            if (customer.tierId) {
-                const [tier] = await tx
-                    .select()
-                    .from(schema.customerTiers)
-                    .where(eq(schema.customerTiers.id, customer.tierId))
-                    .limit(1);
-
-                if (tier) {
-                    if (!tier.creditAllowed) {
-                        const currentCredit = Number(customer.creditBalance || 0);
-                        if (currentCredit < orderData.totalAmount) {
-                            return { error: { code: 'CREDIT_NOT_ALLOWED', message: 'This customer tier does not allow credit orders. Prepayment required.', status: 400 } };
-                        }
-                    }
-
-                    if (tier.creditLimit) {
-                        const currentDebt = Number(customer.debtBalance || 0);
-                        const newDebt = currentDebt + orderData.totalAmount;
-                        if (newDebt > Number(tier.creditLimit)) {
-                            return { error: { code: 'CREDIT_LIMIT_EXCEEDED', message: `Order would exceed credit limit of ${tier.creditLimit}`, status: 400 } };
-                        }
-                    }
+            // 3. Validate stock in the chosen warehouse
+            let warehouseId: string;
+            try {
+                warehouseId = await stockService.resolveWarehouseId(tx, user.tenantId, orderData.warehouseId);
+            } catch {
+                return { error: { code: 'NOT_FOUND', message: 'Warehouse not found', status: 404 } };
+            }
 
-                    if (tier.maxOrderAmount && orderData.totalAmount > Number(tier.maxOrderAmount)) {
-                        return { error: { code: 'MAX_ORDER_EXCEEDED', message: `Order amount exceeds maximum allowed of ${tier.maxOrderAmount}`, status: 400 } };
-                    }
-                }
+            // Quantities entered in packs are reserved and priced in base units
+            let unitLines: UnitLine[];
+            try {
+                unitLines = await productUnitService.toBaseLines(
+                    user.tenantId,
+                    items.map(item => ({ productId: item.productId, unit: item.unit, quantity: item.qtyOrdered })),
+                    tx
+                );
+            } catch (error: any) {
+                if (!(error instanceof UnitNotSoldError)) throw error;
+                return { error: { code: 'BAD_REQUEST', message: error.message, status: 400 } };
             }
 
-            // 4. Validate stock
             if (items && items.length > 0) {
+                const balances = await stockService.getBalances(tx, warehouseId, items.map(i => i.productId), true);
+                // A product on several lines (e.g. in packs and singly) draws on one balance
+                const needed = new Map<string, number>();
+                for (const line of unitLines) needed.set(line.productId, (needed.get(line.productId) ?? 0) + line.quantity);
                 for (const item of items) {
                     const [product] = await tx
                         .select({
                             id: schema.products.id,
                             name: schema.products.name,
-                            price: schema.products.price,
-                            stockQuantity: schema.products.stockQuantity,
-                            reservedQuantity: schema.products.reservedQuantity,
                         })
                         .from(schema.products)
                         .where(eq(schema.products.id, item.productId))
@@ -1540,14 +1467,71 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                         return { error: { code: 'NOT_FOUND', message: `Product not found: ${item.productId}`, status: 404 } };
                     }
 
-                    const availableStock = (product.stockQuantity || 0) - (product.reservedQuantity || 0);
-                    if (availableStock < item.qtyOrdered) {
+                    const availableStock = balances.get(item.productId)!.available;
+                    if (availableStock < needed.get(item.productId)!) {
                         return { error: { code: 'INSUFFICIENT_STOCK', message: `Insufficient stock for ${product.name}. Only ${availableStock} available.`, status: 400 } };
                     }
+                }
+            }
 
-                    const currentPrice = Number(product.price);
-                    if (Math.abs(currentPrice - item.unitPrice) > 0.01) {
-                        return { error: { code: 'PRICE_CHANGED', message: `Price for ${product.name} has changed. Please refresh your cart.`, status: 400 } };
+            // 4. Price the order on the server, with the promo code's discount if one was entered
+            let promo: ResolvedPromoCode | undefined;
+            let quote: PriceQuote;
+            try {
+                if (orderData.promoCode?.trim()) {
+                    promo = await promoCodeService.resolve(user.tenantId, orderData.customerId, orderData.promoCode, tx, { lock: true });
+                }
+                quote = await pricingService.quote({
+                    tenantId: user.tenantId,
+                    customerId: orderData.customerId,
+                    lines: unitLines.map(line => ({ productId: line.productId, quantity: line.quantity })),
+                    promoDiscountIds: promo ? [promo.discountId] : undefined,
+                }, tx);
+            } catch (error: any) {
+                if (error instanceof PromoCodeError) {
+                    return { error: { code: error.code, message: error.message, status: error.code === 'DISCOUNT_NOT_FOUND' ? 404 : 400 } };
+                }
+                return { error: { code: 'BAD_REQUEST', message: error.message, status: 400 } };
+            }
+            if (promo && !quote.appliedDiscounts.some(d => d.id === promo.discountId)) {
+                return { error: { code: 'DISCOUNT_NOT_APPLICABLE', message: `Promo code ${promo.code} does not apply to this order`, status: 400 } };
+            }
+
+            // The price shown in the cart must still be the customer's list price
+            for (const [index, item] of items.entries()) {
+                const line = quote.lines[index];
+                if (Math.abs(line.unitPrice - item.unitPrice) > 0.01) {
+                    return { error: { code: 'PRICE_CHANGED', message: `Price for ${line.productName} has changed. Please refresh your cart.`, status: 400 } };
+                }
+            }
+            const orderTotal = quote.totalAmount;
+
+            // 5. Validate credit/tier limits
+            if (customer.tierId) {
+                const [tier] = await tx
+                    .select()
+                    .from(schema.customerTiers)
+                    .where(eq(schema.customerTiers.id, customer.tierId))
+                    .limit(1);
+
+                if (tier) {
+                    if (!tier.creditAllowed) {
+                        const currentCredit = Number(customer.creditBalance || 0);
+                        if (currentCredit < orderTotal) {
+                            return { error: { code: 'CREDIT_NOT_ALLOWED', message: 'This customer tier does not allow credit orders. Prepayment required.', status: 400 } };
+                        }
+                    }
+
+                    if (tier.creditLimit) {
+                        const currentDebt = Number(customer.debtBalance || 0);
+                        const newDebt = currentDebt + orderTotal;
+                        if (newDebt > Number(tier.creditLimit)) {
+                            return { error: { code: 'CREDIT_LIMIT_EXCEEDED', message: `Order would exceed credit limit of ${tier.creditLimit}`, status: 400 } };
+                        }
+                    }
+
+                    if (tier.maxOrderAmount && orderTotal > Number(tier.maxOrderAmount)) {
+                        return { error: { code: 'MAX_ORDER_EXCEEDED', message: `Order amount exceeds maximum allowed of ${tier.maxOrderAmount}`, status: 400 } };
                     }
                 }
             }
@@ -1563,52 +1547,37 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                     customerId: orderData.customerId,
                     salesRepId: (user.role === 'sales_rep') ? user.id : orderData.salesRepId,
                     createdByUserId: user.id,
+                    warehouseId,
                     status: 'pending',
                     paymentStatus: 'unpaid',
-                    subtotalAmount: orderData.subtotalAmount.toString(),
-                    discountAmount: orderData.discountAmount?.toString() || '0',
-                    taxAmount: orderData.taxAmount?.toString() || '0',
-                    totalAmount: orderData.totalAmount.toString(),
+                    subtotalAmount: quote.subtotalAmount.toString(),
+                    discountAmount: quote.discountAmount.toString(),
+                    taxAmount: quote.taxAmount.toString(),
+                    totalAmount: quote.totalAmount.toString(),
                     notes: orderData.notes,
                     requestedDeliveryDate: orderData.requestedDeliveryDate ? orderData.requestedDeliveryDate : null,
                 })
                 .returning();
 
-            // Insert order items
-            if (items && items.length > 0) {
-                await tx.insert(schema.orderItems).values(
-                    items.map((item) => ({
-                        orderId: order.id,
-                        productId: item.productId,
-                        unitPrice: item.unitPrice.toString(),
-                        qtyOrdered: item.qtyOrdered,
-                        qtyPicked: 0,
-                        qtyDelivered: 0,
-                        lineTotal: item.lineTotal.toString(),
-                    }))
-                );
+            // Insert order items with their discounts and reserve stock
+            await ordersService.createOrderItems(tx, order.id, quote.lines, unitLines);
+            await ordersService.reserveStock(tx, quote.lines, { tenantId: user.tenantId, warehouseId });
 
-                // Reserve stock using shared service
-                await ordersService.reserveStock(tx, items.map(item => ({
-                    productId: item.productId,
-                    productName: '',
-                    unitPrice: item.unitPrice,
-                    quantity: item.qtyOrdered,
-                    lineTotal: item.lineTotal,
-                })));
+            if (promo) {
+                await promoCodeService.recordRedemption(tx, promo, order, quote);
             }
 
             // Update customer debt using shared service
-            await ordersService.updateCustomerDebt(tx, orderData.customerId, orderData.totalAmount);
+            await ordersService.updateCustomerDebt(tx, orderData.customerId, quote.totalAmount);
 
             // Log status change using shared service
             await ordersService.logStatusChange(tx, order.id, 'pending', user.id, 'Order created');
 
-            return order;
+            return { ...order, pricing: quote };
         });
 
         // Handle transaction validation errors
-        if (result && 'error' in result) {
+        if (result && 'error' in result && result.error) {
             return reply.code(result.error.status).send({
                 success: false,
                 error: { code: result.error.code, message: result.error.message }
@@ -1814,6 +1783,9 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                     sku: schema.products.sku,
                     unitPrice: schema.orderItems.unitPrice,
                     qtyOrdered: schema.orderItems.qtyOrdered,
+                    unit: schema.orderItems.unit,
+                    unitQty: schema.orderItems.unitQty,
+                    unitFactor: schema.orderItems.unitFactor,
                     qtyDelivered: schema.orderItems.qtyDelivered,
                     lineTotal: schema.orderItems.lineTotal,
                 })
@@ -1834,6 +1806,20 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                 .where(eq(schema.orderStatusHistory.orderId, id))
                 .orderBy(desc(schema.orderStatusHistory.createdAt));
 
+            const deliveryProof = await deliveryProofService.getForOrder(user.tenantId, id);
+
+            const [invoice] = await db
+                .select({
+                    id: schema.invoices.id,
+                    invoiceNumber: schema.invoices.invoiceNumber,
+                    status: schema.invoices.status,
+                    issueDate: schema.invoices.issueDate,
+                })
+                .from(schema.invoices)
+                .where(eq(schema.invoices.orderId, id))
+                .orderBy(desc(schema.invoices.createdAt))
+                .limit(1);
+
             return {
                 success: true,
                 data: {
@@ -1860,6 +1846,9 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                         sku: item.sku || '',
                         unitPrice: item.unitPrice,
                         qtyOrdered: item.qtyOrdered,
+                        unit: item.unit,
+                        unitQty: item.unitQty ?? item.qtyOrdered,
+                        unitFactor: item.unitFactor,
                         qtyDelivered: item.qtyDelivered || 0,
                         lineTotal: item.lineTotal,
                     })),
@@ -1870,6 +1859,8 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                         notes: h.notes,
                         createdAt: h.createdAt,
                     })),
+                    deliveryProof,
+                    invoice: invoice ?? null,
                 }
             };
         } catch (error) {
@@ -1914,6 +1905,8 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                     id: schema.orders.id,
                     status: schema.orders.status,
                     tenantId: schema.orders.tenantId,
+                    customerId: schema.orders.customerId,
+                    createdAt: schema.orders.createdAt,
                 })
                 .from(schema.orders)
                 .where(and(eq(schema.orders.id, id), eq(schema.orders.tenantId, user.tenantId)))
@@ -1935,6 +1928,14 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                 });
             }
 
+            // Issued invoices are final; quantities can no longer change
+            if (items && items.length > 0 && await invoiceService.getForOrder(user.tenantId, id)) {
+                return reply.code(400).send({
+                    success: false,
+                    error: { code: 'NOT_EDITABLE', message: 'Order has been invoiced; its items can no longer be edited' }
+                });
+            }
+
             // Start transaction
             await db.transaction(async (tx) => {
                 // Update order notes and delivery date
@@ -1954,22 +1955,21 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
 
                 // Update item quantities
                 if (items && items.length > 0) {
-                    let newSubtotal = 0;
-                    let newTotal = 0;
-
                     // Get all current items
                     const currentItems = await tx
                         .select({
                             id: schema.orderItems.id,
+                            productId: schema.orderItems.productId,
                             unitPrice: schema.orderItems.unitPrice,
                             qtyOrdered: schema.orderItems.qtyOrdered,
-                            lineTotal: schema.orderItems.lineTotal,
+                            unitFactor: schema.orderItems.unitFactor,
                         })
                         .from(schema.orderItems)
                         .where(eq(schema.orderItems.orderId, id));
 
-                    // Create a map of updates
+                    // Create a map of updates (in base units)
                     const updateMap = new Map(items.map(i => [i.id, i.qtyOrdered]));
+                    const keptItems: { id: string; productId: string; unitPrice: number; qtyOrdered: number; unitFactor: number }[] = [];
 
                     for (const currentItem of currentItems) {
                         const newQty = updateMap.get(currentItem.id);
@@ -1978,43 +1978,56 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                             // Remove item
                             await tx.delete(schema.orderItems)
                                 .where(eq(schema.orderItems.id, currentItem.id));
-                        } else if (newQty !== undefined && newQty !== currentItem.qtyOrdered) {
-                            // Update quantity
-                            const unitPrice = parseFloat(currentItem.unitPrice);
-                            const newLineTotal = unitPrice * newQty;
-
-                            await tx.update(schema.orderItems)
-                                .set({
-                                    qtyOrdered: newQty,
-                                    lineTotal: newLineTotal.toFixed(2),
-                                    updatedAt: new Date(),
-                                })
-                                .where(eq(schema.orderItems.id, currentItem.id));
-
-                            newSubtotal += newLineTotal;
                         } else {
-                            // Keep as is
-                            newSubtotal += parseFloat(currentItem.lineTotal);
+                            keptItems.push({
+                                id: currentItem.id,
+                                productId: currentItem.productId,
+                                unitPrice: parseFloat(currentItem.unitPrice),
+                                qtyOrdered: newQty ?? currentItem.qtyOrdered,
+                                unitFactor: currentItem.unitFactor,
+                            });
                         }
                     }
 
-                    // Recalculate order totals
-                    const [orderForDiscount] = await tx
-                        .select({ discountAmount: schema.orders.discountAmount })
-                        .from(schema.orders)
-                        .where(eq(schema.orders.id, id))
-                        .limit(1);
-
-                    const discountAmount = parseFloat(orderForDiscount?.discountAmount || '0');
-                    newTotal = newSubtotal - discountAmount;
+                    // Reprice at the prices sold and the promotions of the order date
+                    const quote = await pricingService.quote({
+                        tenantId: user.tenantId,
+                        customerId: order.customerId,
+                        lines: keptItems.map(item => ({ productId: item.productId, quantity: item.qtyOrdered, unitPrice: item.unitPrice })),
+                        at: order.createdAt ?? undefined,
+                        promoDiscountIds: await promoCodeService.discountIdsForOrder(id, tx),
+                    }, tx);
+
+                    for (const [index, item] of keptItems.entries()) {
+                        const line = quote.lines[index];
+                        // A quantity that is no longer whole packs falls back to the base unit
+                        const wholePacks = item.qtyOrdered % item.unitFactor === 0;
+                        await tx.update(schema.orderItems)
+                            .set({
+                                qtyOrdered: item.qtyOrdered,
+                                ...(wholePacks
+                                    ? { unitQty: item.qtyOrdered / item.unitFactor }
+                                    : { unit: null, unitQty: item.qtyOrdered, unitFactor: 1 }),
+                                discountId: line.discountId,
+                                discountAmount: line.discountAmount.toFixed(2),
+                                taxAmount: line.taxAmount.toFixed(2),
+                                lineTotal: line.lineTotal.toFixed(2),
+                                updatedAt: new Date(),
+                            })
+                            .where(eq(schema.orderItems.id, item.id));
+                    }
 
+                    // Recalculate order totals
                     await tx.update(schema.orders)
                         .set({
-                            subtotalAmount: newSubtotal.toFixed(2),
-                            totalAmount: newTotal.toFixed(2),
+                            subtotalAmount: quote.subtotalAmount.toFixed(2),
+                            discountAmount: quote.discountAmount.toFixed(2),
+                            taxAmount: quote.taxAmount.toFixed(2),
+                            totalAmount: quote.totalAmount.toFixed(2),
                             updatedAt: new Date(),
                         })
                         .where(eq(schema.orders.id, id));
+                    await promoCodeService.refreshRedemption(tx, id, quote);
                 }
             });
 
@@ -2095,6 +2108,23 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
         }
 
+        // Drivers must go through proof capture when the tenant requires it
+        if (user.role === 'driver' && ['delivered', 'partial'].includes(newStatus)) {
+            try {
+                await deliveryProofService.assertCaptured(user.tenantId, id);
+            } catch (error: any) {
+                return reply.code(400).send({ success: false, error: { code: 'PROOF_REQUIRED', message: error.message } });
+            }
+        }
+
+        // An order being packed loads once its packing session is verified
+        if (newStatus === 'loaded' && order.status !== 'loaded' && await packingService.isBeingPacked(db, id)) {
+            return reply.code(400).send({
+                success: false,
+                error: { code: 'PACKING_REQUIRED', message: 'Finish packing and verifying the order before loading' }
+            });
+        }
+
         await db.transaction(async (tx) => {
             await tx
                 .update(schema.orders)
@@ -2113,6 +2143,13 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                 changedBy: user.id,
                 notes: notes,
             });
+
+            if (['delivered', 'partial'].includes(newStatus)) {
+                await ordersService.recordFullDelivery(tx, id);
+                await customerLedgerService.postDelivery(tx, order, user.id);
+                await generalLedgerService.postDelivery(tx, id, user.id);
+            }
+            await invoiceService.onOrderStatus(tx, order, newStatus, user.id);
         });
 
         // --- TELEGRAM NOTIFICATIONS ---
@@ -2340,14 +2377,10 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                 .from(schema.orderItems)
                 .where(eq(schema.orderItems.orderId, order.id));
 
-            for (const item of items) {
-                await tx
-                    .update(schema.products)
-                    .set({
-                        reservedQuantity: sql`GREATEST(0, ${schema.products.reservedQuantity} - ${item.qtyOrdered})`,
-                    })
-                    .where(eq(schema.products.id, item.productId));
-            }
+            await ordersService.releaseStock(tx, items.map(item => ({
+                productId: item.productId,
+                quantity: item.qtyOrdered,
+            })), order);
 
             await tx
                 .update(schema.customers)
@@ -2372,6 +2405,7 @@ export const orderRoutes: FastifyPluginAsync = async (fastify) => {
                 changedBy: user.id,
                 notes: reason || 'Order cancelled',
             });
+            await invoiceService.cancelForOrder(tx, order.id);
         });
 
         return { success: true, message: 'Order cancelled successfully' };
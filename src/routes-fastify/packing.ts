@@ -0,0 +1,390 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { db, schema } from '../db';
+import { eq, and, desc, inArray } from 'drizzle-orm';
+import { logAudit } from '../lib/audit';
+import { logScan } from '../services/scan-logging.service';
+import { packingService } from '../services/packing.service';
+import { productUnitService } from '../services/product-unit.service';
+
+// Schemas
+const SessionIdParamsSchema = Type.Object({ id: Type.String() });
+
+const SessionItemParamsSchema = Type.Object({ id: Type.String(), itemId: Type.String() });
+
+const ListSessionsQuerySchema = Type.Object({
+    status: Type.Optional(Type.String()),
+    orderId: Type.Optional(Type.String()),
+});
+
+const StartSessionBodySchema = Type.Object({
+    orderId: Type.String(),
+});
+
+const ScanPackingBodySchema = Type.Object({
+    barcode: Type.String({ minLength: 1 }),
+    quantity: Type.Optional(Type.Integer({ minimum: 1 })),
+});
+
+const CompleteSessionBodySchema = Type.Object({
+    packageCount: Type.Integer({ minimum: 1, maximum: 999 }),
+    weightKg: Type.Optional(Type.Number({ minimum: 0 })),
+    notes: Type.Optional(Type.String()),
+});
+
+type ListSessionsQuery = Static<typeof ListSessionsQuerySchema>;
+type StartSessionBody = Static<typeof StartSessionBodySchema>;
+type ScanPackingBody = Static<typeof ScanPackingBodySchema>;
+type CompleteSessionBody = Static<typeof CompleteSessionBodySchema>;
+
+const allowedRoles = ['tenant_admin', 'super_admin', 'supervisor', 'warehouse'];
+
+export const packingRoutes: FastifyPluginAsync = async (fastify) => {
+    const getSession = async (tx: any, tenantId: string, id: string, lock = false) => {
+        let query = tx.select().from(schema.packingSessions)
+            .where(and(eq(schema.packingSessions.id, id), eq(schema.packingSessions.tenantId, tenantId)));
+        if (lock) query = query.for('update');
+        const [session] = await query.limit(1);
+        return session as typeof schema.packingSessions.$inferSelect | undefined;
+    };
+
+    // List packing sessions (defaults to open ones)
+    fastify.get<{ Querystring: ListSessionsQuery }>('/sessions', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ListSessionsQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { status, orderId } = request.query;
+        const conditions: any[] = [eq(schema.packingSessions.tenantId, user.tenantId)];
+        if (orderId) conditions.push(eq(schema.packingSessions.orderId, orderId));
+        if (status) {
+            conditions.push(eq(schema.packingSessions.status, status as any));
+        } else if (!orderId) {
+            conditions.push(inArray(schema.packingSessions.status, ['started', 'in_progress']));
+        }
+
+        const sessions = await db.select({
+            id: schema.packingSessions.id,
+            orderId: schema.packingSessions.orderId,
+            orderNumber: schema.orders.orderNumber,
+            customerName: schema.customers.name,
+            status: schema.packingSessions.status,
+            itemsScanned: schema.packingSessions.itemsScanned,
+            totalItems: schema.packingSessions.totalItems,
+            packageCount: schema.packingSessions.packageCount,
+            startedAt: schema.packingSessions.startedAt,
+            completedAt: schema.packingSessions.completedAt,
+            packedByName: schema.users.name,
+        }).from(schema.packingSessions)
+            .innerJoin(schema.orders, eq(schema.packingSessions.orderId, schema.orders.id))
+            .leftJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
+            .leftJoin(schema.users, eq(schema.packingSessions.packedByUserId, schema.users.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.packingSessions.startedAt))
+            .limit(100);
+
+        return { success: true, data: sessions };
+    });
+
+    // Start packing a picked order (returns the open session if there is one)
+    fastify.post<{ Body: StartSessionBody }>('/sessions', {
+        preHandler: [fastify.authenticate],
+        schema: { body: StartSessionBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const { session, created } = await db.transaction(async (tx) =>
+                packingService.startSession(tx, user.tenantId, request.body.orderId, user.id)
+            );
+
+            if (created) {
+                await logAudit('packing.start', { orderId: session.orderId }, user.id, user.tenantId, session.id, 'packing_session');
+            }
+            return { success: true, data: session };
+        } catch (error: any) {
+            if (error.message === 'Order not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Session details with lines and outstanding mismatches
+    fastify.get<{ Params: Static<typeof SessionIdParamsSchema> }>('/sessions/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: SessionIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const session = await getSession(db, user.tenantId, request.params.id);
+        if (!session) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Packing session not found' } });
+        }
+
+        const [order] = await db.select({
+            orderNumber: schema.orders.orderNumber,
+            status: schema.orders.status,
+            customerName: schema.customers.name,
+            customerAddress: schema.customers.address,
+        }).from(schema.orders)
+            .leftJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
+            .where(eq(schema.orders.id, session.orderId))
+            .limit(1);
+
+        const items = await db.select({
+            id: schema.packingItems.id,
+            productId: schema.packingItems.productId,
+            productName: schema.products.name,
+            sku: schema.products.sku,
+            barcode: schema.products.barcode,
+            binCode: schema.warehouseBins.code,
+            qtyOrdered: schema.packingItems.qtyOrdered,
+            qtyScanned: schema.packingItems.qtyScanned,
+            isVerified: schema.packingItems.isVerified,
+            scannedAt: schema.packingItems.scannedAt,
+        }).from(schema.packingItems)
+            .leftJoin(schema.products, eq(schema.packingItems.productId, schema.products.id))
+            .leftJoin(schema.warehouseBins, eq(schema.packingItems.binId, schema.warehouseBins.id))
+            .where(eq(schema.packingItems.sessionId, session.id))
+            .orderBy(schema.products.name);
+
+        return {
+            success: true,
+            data: {
+                ...session,
+                order,
+                items: items.map(item => ({ ...item, qtyScanned: item.qtyScanned || 0, isVerified: item.isVerified === 1 })),
+                allVerified: items.every(item => (item.qtyScanned || 0) === item.qtyOrdered),
+            },
+        };
+    });
+
+    // Scan a unit into the box
+    fastify.post<{ Params: Static<typeof SessionIdParamsSchema>; Body: ScanPackingBody }>('/sessions/:id/scan', {
+        preHandler: [fastify.authenticate],
+        schema: { params: SessionIdParamsSchema, body: ScanPackingBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { barcode, quantity = 1 } = request.body;
+        const session = await getSession(db, user.tenantId, request.params.id);
+        if (!session) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Packing session not found' } });
+        }
+        if (!['started', 'in_progress'].includes(session.status)) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Cannot scan into session with status: ${session.status}` } });
+        }
+
+        // A pack barcode scans as a whole pack of base units
+        const match = await productUnitService.resolveBarcode(user.tenantId, barcode);
+        const [product] = match ? await db.select({ id: schema.products.id, name: schema.products.name })
+            .from(schema.products)
+            .where(eq(schema.products.id, match.productId))
+            .limit(1) : [];
+
+        if (!match || !product) {
+            await logScan({ tenantId: user.tenantId, userId: user.id, action: 'packing', barcode, details: { sessionId: session.id, orderId: session.orderId, result: 'product_not_found' } });
+            return reply.code(404).send({ success: false, error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
+        }
+
+        const scanned = quantity * match.factor;
+        try {
+            const item = await db.transaction(async (tx) => packingService.scan(tx, session.id, product.id, scanned));
+
+            await logScan({
+                tenantId: user.tenantId,
+                userId: user.id,
+                productId: product.id,
+                action: 'packing',
+                barcode,
+                details: { sessionId: session.id, orderId: session.orderId, quantity: scanned, unit: match.unit, qtyScanned: item.qtyScanned, qtyOrdered: item.qtyOrdered },
+            });
+
+            return {
+                success: true,
+                data: {
+                    itemId: item.id,
+                    productId: product.id,
+                    productName: product.name,
+                    qtyScanned: item.qtyScanned,
+                    qtyOrdered: item.qtyOrdered,
+                    isVerified: item.isVerified === 1,
+                },
+            };
+        } catch (error: any) {
+            // Wrong products and over-scans are logged so supervisors can see packing errors
+            await logScan({
+                tenantId: user.tenantId,
+                userId: user.id,
+                productId: product.id,
+                action: 'packing',
+                barcode,
+                details: { sessionId: session.id, orderId: session.orderId, quantity: scanned, unit: match.unit, result: 'mismatch', error: error.message },
+            });
+
+            if (error.message === 'Product is not part of this order') {
+                return reply.code(400).send({ success: false, error: { code: 'ITEM_NOT_IN_ORDER', message: error.message } });
+            }
+            if (error.message === 'Scanned more than was picked') {
+                return reply.code(400).send({ success: false, error: { code: 'OVER_SCANNED', message: error.message } });
+            }
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Reset a line's scanned quantity
+    fastify.post<{ Params: Static<typeof SessionItemParamsSchema> }>('/sessions/:id/items/:itemId/reset', {
+        preHandler: [fastify.authenticate],
+        schema: { params: SessionItemParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const session = await getSession(db, user.tenantId, request.params.id);
+        if (!session) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Packing session not found' } });
+        }
+        if (!['started', 'in_progress'].includes(session.status)) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Cannot change session with status: ${session.status}` } });
+        }
+
+        try {
+            const item = await db.transaction(async (tx) => packingService.resetItem(tx, session.id, request.params.itemId));
+            return { success: true, data: item };
+        } catch (error: any) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+        }
+    });
+
+    // Complete packing: blocked until every line verifies, then the order is 'loaded'
+    fastify.post<{ Params: Static<typeof SessionIdParamsSchema>; Body: CompleteSessionBody }>('/sessions/:id/complete', {
+        preHandler: [fastify.authenticate],
+        schema: { params: SessionIdParamsSchema, body: CompleteSessionBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                const session = await getSession(tx, user.tenantId, request.params.id, true);
+                if (!session) throw new Error('Packing session not found');
+                if (!['started', 'in_progress'].includes(session.status)) throw new Error(`Cannot complete session with status: ${session.status}`);
+                return packingService.complete(tx, session, user.id, request.body);
+            });
+
+            if (!result.completed) {
+                return reply.code(400).send({
+                    success: false,
+                    error: { code: 'PACKING_MISMATCH', message: 'Some items do not match the picked quantities', details: result.mismatches },
+                });
+            }
+
+            await logAudit('packing.complete', {
+                orderId: result.session.orderId,
+                packageCount: result.session.packageCount,
+                weightKg: result.session.weightKg,
+            }, user.id, user.tenantId, result.session.id, 'packing_session');
+
+            return { success: true, data: result.session };
+        } catch (error: any) {
+            if (error.message === 'Packing session not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Abandon a session; the order stays 'picked'
+    fastify.post<{ Params: Static<typeof SessionIdParamsSchema> }>('/sessions/:id/cancel', {
+        preHandler: [fastify.authenticate],
+        schema: { params: SessionIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const session = await getSession(db, user.tenantId, request.params.id);
+        if (!session) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Packing session not found' } });
+        }
+        if (!['started', 'in_progress'].includes(session.status)) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Cannot cancel session with status: ${session.status}` } });
+        }
+
+        const [updated] = await db.update(schema.packingSessions)
+            .set({ status: 'cancelled', completedAt: new Date() })
+            .where(eq(schema.packingSessions.id, session.id))
+            .returning();
+
+        await logAudit('packing.cancel', { orderId: session.orderId }, user.id, user.tenantId, session.id, 'packing_session');
+        return { success: true, data: updated };
+    });
+
+    // Packing slip + package labels as PDF
+    fastify.get<{ Params: Static<typeof SessionIdParamsSchema> }>('/sessions/:id/slip', {
+        preHandler: [fastify.authenticate],
+        schema: { params: SessionIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!allowedRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const session = await getSession(db, user.tenantId, request.params.id);
+        if (!session) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Packing session not found' } });
+        }
+        if (session.status !== 'completed') {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'Packing slip is available once packing is completed' } });
+        }
+
+        const [[tenant], [order], items, [packer]] = await Promise.all([
+            db.select({ name: schema.tenants.name, address: schema.tenants.address, phone: schema.tenants.phone })
+                .from(schema.tenants).where(eq(schema.tenants.id, user.tenantId)).limit(1),
+            db.select({
+                orderNumber: schema.orders.orderNumber,
+                requestedDeliveryDate: schema.orders.requestedDeliveryDate,
+                notes: schema.orders.deliveryNotes,
+                customerName: schema.customers.name,
+                customerPhone: schema.customers.phone,
+                customerAddress: schema.customers.address,
+            }).from(schema.orders)
+                .innerJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
+                .where(eq(schema.orders.id, session.orderId)).limit(1),
+            db.select({ sku: schema.products.sku, productName: schema.products.name, quantity: schema.packingItems.qtyScanned })
+                .from(schema.packingItems)
+                .leftJoin(schema.products, eq(schema.packingItems.productId, schema.products.id))
+                .where(eq(schema.packingItems.sessionId, session.id))
+                .orderBy(schema.products.name),
+            db.select({ name: schema.users.name }).from(schema.users).where(eq(schema.users.id, session.packedByUserId)).limit(1),
+        ]);
+
+        const pdf = await packingService.renderSlip({
+            tenant: { name: tenant.name, address: tenant.address, phone: tenant.phone },
+            order: { orderNumber: order.orderNumber, requestedDeliveryDate: order.requestedDeliveryDate, notes: order.notes },
+            customer: { name: order.customerName, phone: order.customerPhone, address: order.customerAddress },
+            session: { packageCount: session.packageCount || 1, weightKg: session.weightKg, packedBy: packer?.name ?? null, completedAt: session.completedAt },
+            items: items.map(item => ({ ...item, quantity: item.quantity || 0 })),
+        });
+
+        return reply
+            .header('Content-Type', 'application/pdf')
+            .header('Content-Disposition', `inline; filename="packing-${encodeURIComponent(order.orderNumber)}.pdf"`)
+            .send(pdf);
+    });
+};
@@ -6,6 +6,10 @@
  * - Payment status checking
  * - Click webhook callbacks
  * - Payme webhook callbacks
+ * - Uzum Bank webhook callbacks
+ * - Gateway status checks and refunds started by tenant admins
+ * - Reversal of payments the gateway cancels after performing them
+ * - Mock gateway for local testing
  */
 
 import { FastifyPluginAsync } from 'fastify';
@@ -16,18 +20,28 @@ import { eq, and, sql } from 'drizzle-orm';
 import {
     createPaymentLink,
     getPaymentToken,
+    getPaymentTokenByTransaction,
+    attachPendingTransaction,
     markTokenAsPaid,
+    markTokenAsRefunded,
+    markTokenAsCancelled,
     isTokenValid,
+    // Registry
+    buildProviderLinks,
+    getPaymentProvider,
+    getTenantProviderCredentials,
+    // Mock
+    isMockProviderEnabled,
+    generateMockTransactionId,
     // Click
-    verifyClickPrepareSignature,
-    verifyClickCompleteSignature,
+    clickProvider,
     clickSuccessResponse,
     clickErrorResponse,
     CLICK_ERRORS,
     type ClickPrepareRequest,
     type ClickCompleteRequest,
     // Payme
-    verifyPaymeAuth,
+    paymeProvider,
     createPaymeResponse,
     paymeOrderNotFound,
     paymeOrderAlreadyPaid,
@@ -36,8 +50,18 @@ import {
     paymeInsufficientPrivilege,
     PAYME_ERRORS,
     tiyinToSum,
+    sumToTiyin,
     type PaymeRequest,
+    // Uzum
+    uzumProvider,
+    uzumErrorResponse,
+    UZUM_ERRORS,
+    type UzumRequest,
+    type UzumResponse,
 } from '../lib/payment-providers';
+import { customerLedgerService } from '../services/customer-ledger.service';
+import { generalLedgerService } from '../services/general-ledger.service';
+import { logAudit } from '../lib/audit';
 
 // Schemas
 const TokenParamsSchema = Type.Object({
@@ -49,8 +73,26 @@ const CreateLinkBodySchema = Type.Object({
     amount: Type.Optional(Type.Number({ minimum: 0 })),
 });
 
+const UzumActionParamsSchema = Type.Object({
+    action: Type.Union([
+        Type.Literal('check'),
+        Type.Literal('create'),
+        Type.Literal('confirm'),
+        Type.Literal('reverse'),
+        Type.Literal('status'),
+    ]),
+});
+
+const RefundBodySchema = Type.Object({
+    reason: Type.Optional(Type.String({ maxLength: 255 })),
+});
+
 type TokenParams = Static<typeof TokenParamsSchema>;
 type CreateLinkBody = Static<typeof CreateLinkBodySchema>;
+type UzumActionParams = Static<typeof UzumActionParamsSchema>;
+type RefundBody = Static<typeof RefundBodySchema>;
+
+const REFUND_ROLES = ['tenant_admin', 'super_admin'];
 
 // Helper: Process payment completion
 async function processPaymentComplete(paymentToken: typeof schema.paymentTokens.$inferSelect) {
@@ -81,48 +123,34 @@ async function processPaymentComplete(paymentToken: typeof schema.paymentTokens.
             onlineMethod = created;
         }
 
-        // 2. Record the payment
+        // 2. Record the payment and settle the order it was requested for
         const paymentNumber = `PAY-${Date.now()}`;
 
-        await db.insert(schema.payments).values({
-            tenantId: paymentToken.tenantId,
-            paymentNumber,
-            customerId: paymentToken.customerId,
-            orderId: paymentToken.orderId,
-            paymentMethodId: onlineMethod.id,
-            amount: paymentToken.amount,
-            referenceNumber: paymentToken.providerTransactionId,
-            collectedAt: new Date(),
-            notes: `Online payment via ${paymentToken.paidVia}`,
+        await db.transaction(async (tx) => {
+            const [payment] = await tx.insert(schema.payments).values({
+                tenantId: paymentToken.tenantId,
+                paymentNumber,
+                customerId: paymentToken.customerId,
+                orderId: paymentToken.orderId,
+                paymentMethodId: onlineMethod.id,
+                amount: paymentToken.amount,
+                referenceNumber: paymentToken.providerTransactionId,
+                collectedAt: new Date(),
+                notes: `Online payment via ${paymentToken.paidVia}`,
+            }).returning();
+
+            await customerLedgerService.postPayment(tx, payment);
+            // Gateway money is settled to the bank account
+            await generalLedgerService.postPayment(tx, payment, null, 'bank');
+
+            await tx.update(schema.paymentTokens)
+                .set({ paymentId: payment.id })
+                .where(eq(schema.paymentTokens.id, paymentToken.id));
+
+            // 3. Allocate to the order, any excess to the oldest open orders
+            await customerLedgerService.allocate(tx, payment, { preferOrderId: paymentToken.orderId });
         });
 
-        // 3. Update order payment status
-        const [order] = await db
-            .select({
-                totalAmount: schema.orders.totalAmount,
-                paidAmount: schema.orders.paidAmount,
-            })
-            .from(schema.orders)
-            .where(eq(schema.orders.id, paymentToken.orderId))
-            .limit(1);
-
-        if (order) {
-            const newPaidAmount = Number(order.paidAmount || 0) + amount;
-            const totalAmount = Number(order.totalAmount);
-
-            let paymentStatus: 'unpaid' | 'partial' | 'paid' = 'partial';
-            if (newPaidAmount >= totalAmount) paymentStatus = 'paid';
-            else if (newPaidAmount <= 0) paymentStatus = 'unpaid';
-
-            await db
-                .update(schema.orders)
-                .set({
-                    paidAmount: newPaidAmount.toString(),
-                    paymentStatus,
-                })
-                .where(eq(schema.orders.id, paymentToken.orderId));
-        }
-
         // 4. Update customer debt
         await db
             .update(schema.customers)
@@ -188,6 +216,119 @@ async function processPaymentComplete(paymentToken: typeof schema.paymentTokens.
     }
 }
 
+// Helper: Mark a paid token refunded and reverse its payment in one transaction.
+// Returns the refunded token, or null if it was not paid. Errors propagate so
+// the token stays paid and the gateway's retry (or an admin) can try again.
+async function refundAndReversePayment(token: string, cancelReason: string, reason: string, userId?: string) {
+    // 1. Refund the token, record the negative payment and undo what the original settled
+    const result = await db.transaction(async (tx) => {
+        const refunded = await markTokenAsRefunded(token, cancelReason, tx);
+        if (!refunded) return null;
+        if (!refunded.paymentId) {
+            console.warn(`[Payment Gateway] No payment recorded for refunded token ${refunded.id}`);
+            return { refunded, reversed: null };
+        }
+        const paymentId = refunded.paymentId;
+
+        const [original] = await tx.select().from(schema.payments)
+            .where(eq(schema.payments.id, paymentId))
+            .for('update')
+            .limit(1);
+        if (!original || original.reversedAt) return { refunded, reversed: null };
+
+        const amount = Number(original.amount);
+        const [reversal] = await tx.insert(schema.payments).values({
+            tenantId: original.tenantId,
+            paymentNumber: `REV-${Date.now()}`,
+            customerId: original.customerId,
+            orderId: original.orderId,
+            paymentMethodId: original.paymentMethodId,
+            amount: String(-amount),
+            referenceNumber: original.referenceNumber,
+            reversalOfId: original.id,
+            collectedAt: new Date(),
+            notes: `Reversal of ${original.paymentNumber}: ${reason}`,
+        }).returning();
+
+        await tx.update(schema.payments)
+            .set({ reversedAt: new Date(), updatedAt: new Date() })
+            .where(eq(schema.payments.id, original.id));
+
+        await customerLedgerService.postRefund(tx, reversal, userId, `Reversal of ${original.paymentNumber}`);
+        await generalLedgerService.postPayment(tx, reversal, userId, 'bank');
+        const allocations = await customerLedgerService.reverseAllocations(tx, original, reversal, userId);
+
+        // 2. Inverse of the payment balance rule: credit goes first, the rest is debt again
+        const [customer] = await tx.select({ debtBalance: schema.customers.debtBalance, creditBalance: schema.customers.creditBalance })
+            .from(schema.customers).where(eq(schema.customers.id, original.customerId)).limit(1);
+        if (customer) {
+            const currentCredit = Number(customer.creditBalance || 0);
+            const fromCredit = Math.min(currentCredit, amount);
+            await tx.update(schema.customers).set({
+                creditBalance: String(currentCredit - fromCredit),
+                debtBalance: String(Number(customer.debtBalance || 0) + amount - fromCredit),
+                updatedAt: new Date(),
+            }).where(eq(schema.customers.id, original.customerId));
+        }
+
+        return { refunded, reversed: { original, reversal, allocations } };
+    });
+    if (!result) return null;
+
+    const { refunded: paymentToken, reversed } = result;
+    if (!reversed) return paymentToken;
+
+    // 3. Audit trail
+    try {
+        await logAudit('payment.reversed', {
+            paymentNumber: reversed.original.paymentNumber,
+            reversalNumber: reversed.reversal.paymentNumber,
+            amount: Number(reversed.original.amount),
+            provider: paymentToken.paidVia,
+            providerTransactionId: paymentToken.providerTransactionId,
+            reason,
+            allocations: reversed.allocations,
+        }, userId ?? null, paymentToken.tenantId, reversed.original.id, 'payment');
+    } catch (e) {
+        console.error('[Payment Gateway] Audit log error:', e);
+    }
+
+    // 4. Notify admins
+    try {
+        const { notifyPaymentReversed, getTenantAdminsWithTelegram } = await import('../lib/telegram');
+
+        const [customer] = await db
+            .select({ name: schema.customers.name })
+            .from(schema.customers)
+            .where(eq(schema.customers.id, paymentToken.customerId))
+            .limit(1);
+
+        const [orderInfo] = await db
+            .select({ orderNumber: schema.orders.orderNumber })
+            .from(schema.orders)
+            .where(eq(schema.orders.id, paymentToken.orderId))
+            .limit(1);
+
+        const admins = await getTenantAdminsWithTelegram(paymentToken.tenantId);
+        for (const admin of admins) {
+            notifyPaymentReversed(admin.telegramChatId, {
+                amount: Number(reversed.original.amount),
+                currency: paymentToken.currency || 'UZS',
+                customerName: customer?.name || 'Unknown',
+                provider: paymentToken.paidVia || 'online',
+                paymentNumber: reversed.original.paymentNumber,
+                orderNumber: orderInfo?.orderNumber,
+                reason,
+            });
+        }
+    } catch (e) {
+        console.error('[Payment Gateway] Telegram notification error:', e);
+    }
+
+    console.log(`[Payment Gateway] Payment reversed: ${reversed.original.paymentNumber} (${reason})`);
+    return paymentToken;
+}
+
 export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
     // ================================================================
     // PUBLIC: Payment Status (for portal page)
@@ -206,41 +347,13 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
         const isExpired = new Date() > result.token.expiresAt;
         const status = isExpired && result.token.status === 'pending' ? 'expired' : result.token.status;
 
-        let clickUrl: string | undefined;
-        let paymeUrl: string | undefined;
-
-        if (status === 'pending') {
-            const [tenant] = await db
-                .select({
-                    clickMerchantId: schema.tenants.clickMerchantId,
-                    clickServiceId: schema.tenants.clickServiceId,
-                    paymeMerchantId: schema.tenants.paymeMerchantId,
-                })
-                .from(schema.tenants)
-                .where(eq(schema.tenants.id, result.token.tenantId))
-                .limit(1);
-
-            const amount = Number(result.token.amount);
-
-            if (tenant?.clickMerchantId && tenant?.clickServiceId) {
-                const { generateClickUrl } = await import('../lib/payment-providers/click');
-                clickUrl = generateClickUrl(
-                    tenant.clickMerchantId,
-                    tenant.clickServiceId,
-                    amount,
-                    token
-                );
-            }
-
-            if (tenant?.paymeMerchantId) {
-                const { generatePaymeUrl, sumToTiyin } = await import('../lib/payment-providers/payme');
-                paymeUrl = generatePaymeUrl(
-                    tenant.paymeMerchantId,
-                    sumToTiyin(amount),
-                    { payment_token: token }
-                );
-            }
-        }
+        const providers = status === 'pending'
+            ? await buildProviderLinks(result.token.tenantId, {
+                token,
+                amount: Number(result.token.amount),
+                currency: result.token.currency || 'UZS',
+            })
+            : [];
 
         return {
             success: true,
@@ -253,8 +366,8 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
                     currency: result.token.currency,
                 },
                 expiresAt: result.token.expiresAt,
-                clickUrl,
-                paymeUrl,
+                providers,
+                mockEnabled: status === 'pending' && isMockProviderEnabled(),
             },
         };
     });
@@ -329,6 +442,107 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
         return { success: true, data: result };
     });
 
+    // ================================================================
+    // AUTHENTICATED: Gateway status of a token's transaction
+    // ================================================================
+    fastify.get<{ Params: TokenParams }>('/tokens/:token/provider-status', {
+        preHandler: [fastify.authenticate],
+        schema: { params: TokenParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!REFUND_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const tokenInfo = await getPaymentToken(request.params.token);
+        if (!tokenInfo || tokenInfo.token.tenantId !== user.tenantId) {
+            return reply.code(404).send({ success: false, error: { code: 'TOKEN_NOT_FOUND' } });
+        }
+
+        const { paidVia, providerTransactionId } = tokenInfo.token;
+        const provider = paidVia ? getPaymentProvider(paidVia) : null;
+        if (!provider || !providerTransactionId) {
+            return reply.code(400).send({ success: false, error: { code: 'NO_TRANSACTION', message: 'Token has no gateway transaction' } });
+        }
+        if (!provider.getStatus) {
+            return reply.code(400).send({ success: false, error: { code: 'NOT_SUPPORTED', message: `${provider.displayName} does not support status checks` } });
+        }
+
+        const credentials = await getTenantProviderCredentials(user.tenantId, provider.name);
+        if (!credentials) {
+            return reply.code(400).send({ success: false, error: { code: 'PROVIDER_NOT_CONFIGURED', message: `${provider.displayName} is not configured` } });
+        }
+
+        try {
+            const providerStatus = await provider.getStatus(credentials, providerTransactionId);
+            return {
+                success: true,
+                data: {
+                    provider: provider.name,
+                    transactionId: providerTransactionId,
+                    providerStatus,
+                    status: tokenInfo.token.status,
+                },
+            };
+        } catch (error: any) {
+            return reply.code(502).send({ success: false, error: { code: 'PROVIDER_ERROR', message: error.message } });
+        }
+    });
+
+    // ================================================================
+    // AUTHENTICATED: Refund a paid token through its gateway
+    // ================================================================
+    fastify.post<{ Params: TokenParams; Body: RefundBody }>('/tokens/:token/refund', {
+        preHandler: [fastify.authenticate],
+        schema: { params: TokenParamsSchema, body: RefundBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!REFUND_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const tokenInfo = await getPaymentToken(request.params.token);
+        if (!tokenInfo || tokenInfo.token.tenantId !== user.tenantId) {
+            return reply.code(404).send({ success: false, error: { code: 'TOKEN_NOT_FOUND' } });
+        }
+        if (tokenInfo.token.status !== 'paid') {
+            return reply.code(400).send({ success: false, error: { code: 'NOT_PAID', message: 'Token is not paid' } });
+        }
+
+        const { paidVia, providerTransactionId } = tokenInfo.token;
+        const provider = paidVia ? getPaymentProvider(paidVia) : null;
+        if (!provider || !providerTransactionId) {
+            return reply.code(400).send({ success: false, error: { code: 'NO_TRANSACTION', message: 'Token has no gateway transaction' } });
+        }
+        if (!provider.refund) {
+            return reply.code(400).send({
+                success: false,
+                error: { code: 'NOT_SUPPORTED', message: `${provider.displayName} refunds are made from its merchant cabinet` },
+            });
+        }
+
+        const credentials = await getTenantProviderCredentials(user.tenantId, provider.name);
+        if (!credentials) {
+            return reply.code(400).send({ success: false, error: { code: 'PROVIDER_NOT_CONFIGURED', message: `${provider.displayName} is not configured` } });
+        }
+
+        try {
+            await provider.refund(credentials, providerTransactionId, Number(tokenInfo.token.amount));
+        } catch (error: any) {
+            return reply.code(502).send({ success: false, error: { code: 'PROVIDER_ERROR', message: error.message } });
+        }
+
+        // The gateway may also send its own cancel callback; whichever comes first reverses the payment
+        await refundAndReversePayment(
+            tokenInfo.token.token,
+            `${provider.name}:manual`,
+            request.body.reason || `Refunded through ${provider.displayName}`,
+            user.id
+        );
+
+        return { success: true, data: { status: 'refunded' } };
+    });
+
     // ================================================================
     // CLICK WEBHOOK
     // ================================================================
@@ -347,13 +561,9 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
             );
         }
 
-        const [tenant] = await db
-            .select({ clickSecretKey: schema.tenants.clickSecretKey })
-            .from(schema.tenants)
-            .where(eq(schema.tenants.id, tokenInfo.token.tenantId))
-            .limit(1);
+        const credentials = await getTenantProviderCredentials(tokenInfo.token.tenantId, 'click');
 
-        if (!tenant?.clickSecretKey) {
+        if (!credentials) {
             return clickErrorResponse(
                 params.click_trans_id,
                 token,
@@ -362,25 +572,32 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
             );
         }
 
+        if (!clickProvider.verifyWebhook(credentials, { body: params, headers: request.headers })) {
+            return clickErrorResponse(
+                params.click_trans_id,
+                token,
+                CLICK_ERRORS.SIGN_CHECK_FAILED,
+                'Invalid signature'
+            );
+        }
+
         // Handle Prepare (action = 0)
         if (params.action === 0) {
-            const prepareParams = params as ClickPrepareRequest;
-
-            if (!verifyClickPrepareSignature(prepareParams, tenant.clickSecretKey)) {
+            if (tokenInfo.token.status === 'paid') {
                 return clickErrorResponse(
                     params.click_trans_id,
                     token,
-                    CLICK_ERRORS.SIGN_CHECK_FAILED,
-                    'Invalid signature'
+                    CLICK_ERRORS.ALREADY_PAID,
+                    'Already paid'
                 );
             }
 
-            if (tokenInfo.token.status === 'paid') {
+            if (tokenInfo.token.status === 'cancelled' || tokenInfo.token.status === 'refunded') {
                 return clickErrorResponse(
                     params.click_trans_id,
                     token,
-                    CLICK_ERRORS.ALREADY_PAID,
-                    'Already paid'
+                    CLICK_ERRORS.TRANSACTION_CANCELLED,
+                    'Transaction cancelled'
                 );
             }
 
@@ -410,16 +627,22 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
         if (params.action === 1) {
             const completeParams = params as ClickCompleteRequest;
 
-            if (!verifyClickCompleteSignature(completeParams, tenant.clickSecretKey)) {
-                return clickErrorResponse(
-                    params.click_trans_id,
-                    token,
-                    CLICK_ERRORS.SIGN_CHECK_FAILED,
-                    'Invalid signature'
-                );
-            }
-
             if (completeParams.error < 0) {
+                // A cancel callback for a payment we already recorded reverses it
+                const isOurPayment = tokenInfo.token.status === 'paid'
+                    && tokenInfo.token.paidVia === 'click'
+                    && tokenInfo.token.providerTransactionId === params.click_trans_id.toString();
+
+                if (isOurPayment) {
+                    await refundAndReversePayment(token, `click:${completeParams.error}`, completeParams.error_note || `Click error ${completeParams.error}`);
+                    return clickErrorResponse(
+                        params.click_trans_id,
+                        token,
+                        CLICK_ERRORS.TRANSACTION_CANCELLED,
+                        'Transaction cancelled'
+                    );
+                }
+
                 console.log(`[Click] Payment failed for ${token}: ${completeParams.error_note}`);
                 return clickSuccessResponse(params.click_trans_id, token, undefined, 1);
             }
@@ -431,7 +654,7 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
             );
 
             if (marked) {
-                await processPaymentComplete(tokenInfo.token);
+                await processPaymentComplete(marked);
             }
 
             return clickSuccessResponse(params.click_trans_id, token, undefined, 1);
@@ -450,35 +673,26 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
     // ================================================================
     fastify.post('/webhook/payme', async (request, reply) => {
         const req = request.body as PaymeRequest;
-        const authHeader = request.headers['authorization'] as string | undefined;
 
         const account = req.params?.account;
-        const token = account?.payment_token || account?.order_id;
-
-        if (!token) {
-            return paymeOrderNotFound(req.id);
-        }
+        const accountToken = account?.payment_token || account?.order_id;
 
-        const tokenInfo = await getPaymentToken(token);
+        // Perform, Cancel and Check carry only Payme's transaction ID
+        const tokenInfo = accountToken
+            ? await getPaymentToken(accountToken)
+            : req.params?.id
+                ? await getPaymentTokenByTransaction('payme', req.params.id)
+                : null;
 
         if (!tokenInfo) {
-            return paymeOrderNotFound(req.id);
+            return accountToken ? paymeOrderNotFound(req.id) : paymeTransactionNotFound(req.id);
         }
 
-        const [tenant] = await db
-            .select({
-                paymeMerchantId: schema.tenants.paymeMerchantId,
-                paymeSecretKey: schema.tenants.paymeSecretKey,
-            })
-            .from(schema.tenants)
-            .where(eq(schema.tenants.id, tokenInfo.token.tenantId))
-            .limit(1);
+        const token = tokenInfo.token.token;
 
-        if (!tenant?.paymeSecretKey) {
-            return paymeInsufficientPrivilege(req.id);
-        }
+        const credentials = await getTenantProviderCredentials(tokenInfo.token.tenantId, 'payme');
 
-        if (!verifyPaymeAuth(authHeader, tenant.paymeMerchantId || '', tenant.paymeSecretKey)) {
+        if (!credentials || !paymeProvider.verifyWebhook(credentials, { body: req, headers: request.headers })) {
             return paymeInsufficientPrivilege(req.id);
         }
 
@@ -505,6 +719,10 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
                     return paymeOrderAlreadyPaid(req.id);
                 }
 
+                if (req.params.id) {
+                    await attachPendingTransaction(token, 'payme', req.params.id);
+                }
+
                 return createPaymeResponse(req.id, {
                     create_time: Date.now(),
                     transaction: req.params.id,
@@ -520,7 +738,7 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
                 );
 
                 if (marked) {
-                    await processPaymentComplete(tokenInfo.token);
+                    await processPaymentComplete(marked);
                 }
 
                 return createPaymeResponse(req.id, {
@@ -531,37 +749,53 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
             }
 
             case 'CancelTransaction': {
+                const reason = req.params.reason;
+
+                // Already cancelled: answer with the original cancellation
+                if (tokenInfo.token.status === 'refunded' || tokenInfo.token.status === 'cancelled') {
+                    return createPaymeResponse(req.id, {
+                        transaction: req.params.id,
+                        cancel_time: tokenInfo.token.cancelledAt?.getTime() || 0,
+                        state: tokenInfo.token.status === 'refunded' ? -2 : -1,
+                    });
+                }
+
+                // Cancelled after perform: the recorded payment is reversed
                 if (tokenInfo.token.status === 'paid') {
+                    const refunded = await refundAndReversePayment(token, `payme:${reason ?? ''}`, `Payme cancellation, reason ${reason ?? 'unknown'}`);
+
                     return createPaymeResponse(req.id, {
                         transaction: req.params.id,
-                        cancel_time: 0,
-                        state: 2,
+                        cancel_time: refunded?.cancelledAt?.getTime() || Date.now(),
+                        state: -2,
                     });
                 }
 
-                await db
-                    .update(schema.paymentTokens)
-                    .set({ status: 'cancelled' })
-                    .where(eq(schema.paymentTokens.token, token));
+                const cancelled = await markTokenAsCancelled(token, `payme:${reason ?? ''}`);
 
                 return createPaymeResponse(req.id, {
                     transaction: req.params.id,
-                    cancel_time: Date.now(),
+                    cancel_time: cancelled?.cancelledAt?.getTime() || Date.now(),
                     state: -1,
                 });
             }
 
             case 'CheckTransaction': {
                 const state = tokenInfo.token.status === 'paid' ? 2
-                    : tokenInfo.token.status === 'cancelled' ? -1
-                        : 1;
+                    : tokenInfo.token.status === 'refunded' ? -2
+                        : tokenInfo.token.status === 'cancelled' ? -1
+                            : 1;
+                const cancelReason = tokenInfo.token.cancelReason?.startsWith('payme:')
+                    ? Number(tokenInfo.token.cancelReason.slice('payme:'.length)) || null
+                    : null;
 
                 return createPaymeResponse(req.id, {
                     create_time: tokenInfo.token.createdAt?.getTime(),
                     perform_time: tokenInfo.token.paidAt?.getTime() || 0,
-                    cancel_time: 0,
+                    cancel_time: tokenInfo.token.cancelledAt?.getTime() || 0,
                     transaction: tokenInfo.token.providerTransactionId,
                     state,
+                    reason: cancelReason,
                 });
             }
 
@@ -579,4 +813,172 @@ export const paymentGatewayRoutes: FastifyPluginAsync = async (fastify) => {
                 };
         }
     });
+
+    // ================================================================
+    // UZUM BANK WEBHOOK
+    // ================================================================
+    fastify.post<{ Params: UzumActionParams }>('/webhook/uzum/:action', {
+        schema: { params: UzumActionParamsSchema },
+    }, async (request, reply) => {
+        const { action } = request.params;
+        const req = (request.body || {}) as UzumRequest;
+        const serviceId = Number(req.serviceId) || 0;
+        const fail = (errorCode: string) => reply.code(400).send(uzumErrorResponse(serviceId, errorCode));
+
+        // Confirm, reverse and status carry only Uzum's transaction ID
+        const accountToken = req.params?.account;
+        const tokenInfo = accountToken
+            ? await getPaymentToken(accountToken)
+            : req.transId
+                ? await getPaymentTokenByTransaction('uzum', req.transId)
+                : null;
+
+        if (!tokenInfo) {
+            return fail(accountToken ? UZUM_ERRORS.ACCOUNT_NOT_FOUND : UZUM_ERRORS.TRANSACTION_NOT_FOUND);
+        }
+
+        const credentials = await getTenantProviderCredentials(tokenInfo.token.tenantId, 'uzum');
+
+        if (!credentials || !uzumProvider.verifyWebhook(credentials, { body: req, headers: request.headers })) {
+            return fail(UZUM_ERRORS.ACCESS_DENIED);
+        }
+
+        const token = tokenInfo.token.token;
+        const amount = sumToTiyin(Number(tokenInfo.token.amount));
+        const isOurTransaction = tokenInfo.token.paidVia === 'uzum'
+            && !!req.transId
+            && tokenInfo.token.providerTransactionId === req.transId;
+
+        const transaction = (paymentToken: typeof schema.paymentTokens.$inferSelect, status: UzumResponse['status']): UzumResponse => ({
+            serviceId,
+            transId: req.transId,
+            status,
+            transTime: paymentToken.createdAt?.getTime(),
+            confirmTime: paymentToken.paidAt?.getTime() ?? null,
+            reverseTime: paymentToken.cancelledAt?.getTime() ?? null,
+            amount,
+            data: { account: { value: token } },
+        });
+
+        switch (action) {
+            case 'check': {
+                if (tokenInfo.token.status === 'paid') {
+                    return fail(UZUM_ERRORS.ALREADY_PAID);
+                }
+                if (tokenInfo.token.status !== 'pending' || new Date() > tokenInfo.token.expiresAt) {
+                    return fail(UZUM_ERRORS.TRANSACTION_CANCELLED);
+                }
+
+                return { serviceId, timestamp: Date.now(), status: 'OK', data: { account: { value: token } } };
+            }
+
+            case 'create': {
+                if (tokenInfo.token.status === 'paid') {
+                    return fail(UZUM_ERRORS.ALREADY_PAID);
+                }
+                if (tokenInfo.token.status !== 'pending' || new Date() > tokenInfo.token.expiresAt) {
+                    return fail(UZUM_ERRORS.TRANSACTION_CANCELLED);
+                }
+                if (!req.transId) {
+                    return fail(UZUM_ERRORS.MISSING_PARAMETERS);
+                }
+                if (req.amount !== undefined && Math.abs(req.amount - amount) > 1) {
+                    return fail(UZUM_ERRORS.INCORRECT_AMOUNT);
+                }
+
+                await attachPendingTransaction(token, 'uzum', req.transId);
+                return { ...transaction(tokenInfo.token, 'CREATED'), transTime: Date.now() };
+            }
+
+            case 'confirm': {
+                if (!isOurTransaction) {
+                    return fail(UZUM_ERRORS.TRANSACTION_NOT_FOUND);
+                }
+                if (tokenInfo.token.status === 'paid') {
+                    return transaction(tokenInfo.token, 'CONFIRMED');
+                }
+
+                const marked = await markTokenAsPaid(token, 'uzum', req.transId!);
+                if (!marked) {
+                    return fail(UZUM_ERRORS.TRANSACTION_CANCELLED);
+                }
+
+                await processPaymentComplete(marked);
+                return transaction(marked, 'CONFIRMED');
+            }
+
+            case 'reverse': {
+                if (!isOurTransaction) {
+                    return fail(UZUM_ERRORS.TRANSACTION_NOT_FOUND);
+                }
+
+                // Already reversed: answer with the original reversal
+                if (tokenInfo.token.status === 'refunded' || tokenInfo.token.status === 'cancelled') {
+                    return transaction(tokenInfo.token, 'REVERSED');
+                }
+
+                // Reversed after confirm: the recorded payment is reversed too
+                if (tokenInfo.token.status === 'paid') {
+                    const refunded = await refundAndReversePayment(token, 'uzum:reverse', 'Uzum Bank reversal');
+                    return transaction(refunded ?? tokenInfo.token, 'REVERSED');
+                }
+
+                const cancelled = await markTokenAsCancelled(token, 'uzum:reverse');
+                return transaction(cancelled ?? tokenInfo.token, 'REVERSED');
+            }
+
+            case 'status': {
+                if (!isOurTransaction) {
+                    return fail(UZUM_ERRORS.TRANSACTION_NOT_FOUND);
+                }
+
+                const status = tokenInfo.token.status === 'paid' ? 'CONFIRMED'
+                    : tokenInfo.token.status === 'refunded' || tokenInfo.token.status === 'cancelled' ? 'REVERSED'
+                        : tokenInfo.token.status === 'expired' ? 'FAILED'
+                            : 'CREATED';
+                return transaction(tokenInfo.token, status);
+            }
+
+            default:
+                return fail(UZUM_ERRORS.INVALID_OPERATION);
+        }
+    });
+
+    // ================================================================
+    // MOCK GATEWAY (local testing only)
+    // ================================================================
+    fastify.post<{ Params: TokenParams }>('/mock/:token/pay', {
+        schema: { params: TokenParamsSchema },
+    }, async (request, reply) => {
+        if (!isMockProviderEnabled()) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+
+        const { token } = request.params;
+        if (!(await isTokenValid(token))) {
+            return reply.code(400).send({ success: false, error: { code: 'TOKEN_INVALID', message: 'Token is not pending or has expired' } });
+        }
+
+        const transactionId = generateMockTransactionId();
+        const marked = await markTokenAsPaid(token, 'mock', transactionId);
+        if (marked) {
+            await processPaymentComplete(marked);
+        }
+
+        return { success: true, data: { transactionId, status: marked ? 'paid' : 'unchanged' } };
+    });
+
+    fastify.post<{ Params: TokenParams; Body: RefundBody }>('/mock/:token/refund', {
+        schema: { params: TokenParamsSchema, body: RefundBodySchema },
+    }, async (request, reply) => {
+        if (!isMockProviderEnabled()) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        }
+
+        const refunded = await refundAndReversePayment(request.params.token, 'mock', request.body.reason || 'Mock gateway refund');
+        if (!refunded) {
+            return reply.code(400).send({ success: false, error: { code: 'NOT_PAID', message: 'Token is not paid' } });
+        }
+        return { success: true, data: { status: refunded.status } };
+    });
 };
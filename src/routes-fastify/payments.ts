@@ -3,6 +3,12 @@ import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { buildSalesCustomerAssignmentCondition } from '../lib/sales-scope';
 import { eq, and, sql, desc } from 'drizzle-orm';
+import { cashService } from '../services/cash.service';
+import { customerLedgerService } from '../services/customer-ledger.service';
+import { generalLedgerService } from '../services/general-ledger.service';
+import { supplierPayablesService } from '../services/supplier-payables.service';
+import { exchangeRateService } from '../services/exchange-rate.service';
+import { AllocationError } from '../errors';
 
 // Schemas
 const ListPaymentsQuerySchema = Type.Object({
@@ -14,6 +20,13 @@ const ListPaymentsQuerySchema = Type.Object({
 
 const CreatePaymentMethodBodySchema = Type.Object({
     name: Type.String({ minLength: 2 }),
+    // Collections count toward the collector's cash on hand
+    isCash: Type.Optional(Type.Boolean()),
+});
+
+const AllocationSchema = Type.Object({
+    orderId: Type.String(),
+    amount: Type.Number({ exclusiveMinimum: 0 }),
 });
 
 const CreatePaymentBodySchema = Type.Object({
@@ -23,6 +36,18 @@ const CreatePaymentBodySchema = Type.Object({
     amount: Type.Number({ minimum: 0 }),
     referenceNumber: Type.Optional(Type.String()),
     notes: Type.Optional(Type.String()),
+    // Explicit split across orders; without it the payment settles orderId
+    // (if given) and then the oldest open orders
+    allocations: Type.Optional(Type.Array(AllocationSchema)),
+    // Set false to keep the unallocated amount as customer credit
+    autoAllocate: Type.Optional(Type.Boolean()),
+});
+
+const PaymentIdParamsSchema = Type.Object({ id: Type.String() });
+
+const AllocatePaymentBodySchema = Type.Object({
+    // Omit to allocate the remainder oldest order first
+    allocations: Type.Optional(Type.Array(AllocationSchema)),
 });
 
 const SupplierPaymentsQuerySchema = Type.Object({
@@ -32,20 +57,37 @@ const SupplierPaymentsQuerySchema = Type.Object({
     purchaseOrderId: Type.Optional(Type.String()),
 });
 
+const BillAllocationSchema = Type.Object({
+    billId: Type.String(),
+    amount: Type.Number({ exclusiveMinimum: 0 }),
+});
+
 const CreateSupplierPaymentBodySchema = Type.Object({
     supplierId: Type.String(),
     purchaseOrderId: Type.Optional(Type.String()),
     paymentMethodId: Type.String(),
     amount: Type.Number({ minimum: 0 }),
+    // Defaults to the purchase order's currency, else the base currency
+    currency: Type.Optional(Type.String({ pattern: '^[A-Za-z]{3}$' })),
     referenceNumber: Type.Optional(Type.String()),
     notes: Type.Optional(Type.String()),
+    // Explicit split across bills; without it the payment settles the bills
+    // of purchaseOrderId (if given) and then the oldest open bills
+    allocations: Type.Optional(Type.Array(BillAllocationSchema)),
+});
+
+const AllocateSupplierPaymentBodySchema = Type.Object({
+    // Omit to allocate the remainder oldest bill first
+    allocations: Type.Optional(Type.Array(BillAllocationSchema)),
 });
 
 type ListPaymentsQuery = Static<typeof ListPaymentsQuerySchema>;
 type CreatePaymentMethodBody = Static<typeof CreatePaymentMethodBodySchema>;
 type CreatePaymentBody = Static<typeof CreatePaymentBodySchema>;
+type AllocatePaymentBody = Static<typeof AllocatePaymentBodySchema>;
 type SupplierPaymentsQuery = Static<typeof SupplierPaymentsQuerySchema>;
 type CreateSupplierPaymentBody = Static<typeof CreateSupplierPaymentBodySchema>;
+type AllocateSupplierPaymentBody = Static<typeof AllocateSupplierPaymentBodySchema>;
 
 export const paymentRoutes: FastifyPluginAsync = async (fastify) => {
     // List payment methods
@@ -67,7 +109,7 @@ export const paymentRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
         }
         const [method] = await db.insert(schema.paymentMethods).values({
-            tenantId: user.tenantId, name: request.body.name, isActive: true,
+            tenantId: user.tenantId, name: request.body.name, isActive: true, isCash: request.body.isCash ?? false,
         }).returning();
         return { success: true, data: method };
     });
@@ -138,43 +180,47 @@ export const paymentRoutes: FastifyPluginAsync = async (fastify) => {
 
         const paymentNumber = `PAY-${Date.now()}`;
 
-        const result = await db.transaction(async (tx) => {
-            const [payment] = await tx.insert(schema.payments).values({
-                tenantId: user.tenantId, paymentNumber, customerId: body.customerId, orderId: body.orderId,
-                paymentMethodId: body.paymentMethodId, amount: body.amount.toString(), collectedBy: user.id,
-                referenceNumber: body.referenceNumber, notes: body.notes, collectedAt: new Date(),
-            }).returning();
-
-            if (body.orderId) {
-                const [order] = await tx.select().from(schema.orders).where(eq(schema.orders.id, body.orderId)).limit(1);
-                if (order) {
-                    const newPaidAmount = Number(order.paidAmount || 0) + body.amount;
-                    const totalAmount = Number(order.totalAmount);
-                    let paymentStatus = 'partial';
-                    if (newPaidAmount >= totalAmount) paymentStatus = 'paid';
-                    else if (newPaidAmount === 0) paymentStatus = 'unpaid';
-                    await tx.update(schema.orders).set({ paidAmount: newPaidAmount.toString(), paymentStatus: paymentStatus as any })
-                        .where(eq(schema.orders.id, body.orderId));
-                }
-            }
-
-            const [customer] = await tx.select({ debtBalance: schema.customers.debtBalance, creditBalance: schema.customers.creditBalance })
-                .from(schema.customers).where(eq(schema.customers.id, body.customerId)).limit(1);
+        let result;
+        try {
+            result = await db.transaction(async (tx) => {
+                const [payment] = await tx.insert(schema.payments).values({
+                    tenantId: user.tenantId, paymentNumber, customerId: body.customerId, orderId: body.orderId,
+                    paymentMethodId: body.paymentMethodId, amount: body.amount.toString(), collectedBy: user.id,
+                    referenceNumber: body.referenceNumber, notes: body.notes, collectedAt: new Date(),
+                }).returning();
+
+                await cashService.recordCollection(tx, payment, user);
+                await customerLedgerService.postPayment(tx, payment, user.id);
+                await generalLedgerService.postPayment(tx, payment, user.id);
+
+                const allocations = await customerLedgerService.allocate(tx, payment, {
+                    manual: body.allocations,
+                    preferOrderId: body.orderId,
+                    fifo: body.autoAllocate !== false,
+                    userId: user.id,
+                });
+
+                const [customer] = await tx.select({ debtBalance: schema.customers.debtBalance, creditBalance: schema.customers.creditBalance })
+                    .from(schema.customers).where(eq(schema.customers.id, body.customerId)).limit(1);
 
-            if (customer) {
-                const currentDebt = Number(customer.debtBalance || 0);
-                const currentCredit = Number(customer.creditBalance || 0);
-                if (body.amount <= currentDebt) {
-                    await tx.update(schema.customers).set({ debtBalance: (currentDebt - body.amount).toString(), updatedAt: new Date() })
-                        .where(eq(schema.customers.id, body.customerId));
-                } else {
-                    const excessAmount = body.amount - currentDebt;
-                    await tx.update(schema.customers).set({ debtBalance: '0', creditBalance: (currentCredit + excessAmount).toString(), updatedAt: new Date() })
-                        .where(eq(schema.customers.id, body.customerId));
+                if (customer) {
+                    const currentDebt = Number(customer.debtBalance || 0);
+                    const currentCredit = Number(customer.creditBalance || 0);
+                    if (body.amount <= currentDebt) {
+                        await tx.update(schema.customers).set({ debtBalance: (currentDebt - body.amount).toString(), updatedAt: new Date() })
+                            .where(eq(schema.customers.id, body.customerId));
+                    } else {
+                        const excessAmount = body.amount - currentDebt;
+                        await tx.update(schema.customers).set({ debtBalance: '0', creditBalance: (currentCredit + excessAmount).toString(), updatedAt: new Date() })
+                            .where(eq(schema.customers.id, body.customerId));
+                    }
                 }
-            }
-            return payment;
-        });
+                return { ...payment, allocations };
+            });
+        } catch (error: any) {
+            if (error instanceof AllocationError) return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+            throw error;
+        }
 
         // Telegram notifications
         try {
@@ -202,6 +248,47 @@ export const paymentRoutes: FastifyPluginAsync = async (fastify) => {
         return { success: true, data: result };
     });
 
+    // Orders a payment was allocated to
+    fastify.get<{ Params: Static<typeof PaymentIdParamsSchema> }>('/:id/allocations', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PaymentIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const [payment] = await db.select().from(schema.payments)
+            .where(and(eq(schema.payments.id, request.params.id), eq(schema.payments.tenantId, user.tenantId))).limit(1);
+        if (!payment) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+
+        const allocations = await customerLedgerService.getAllocations(user.tenantId, payment.id);
+        const unallocated = await customerLedgerService.getUnallocated(db, payment);
+        return { success: true, data: { allocations, unallocated } };
+    });
+
+    // Allocate the unallocated part of a payment
+    fastify.post<{ Params: Static<typeof PaymentIdParamsSchema>; Body: AllocatePaymentBody }>('/:id/allocate', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PaymentIdParamsSchema, body: AllocatePaymentBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin', 'supervisor'].includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const allocations = await db.transaction(async (tx) => {
+                const [payment] = await tx.select().from(schema.payments)
+                    .where(and(eq(schema.payments.id, request.params.id), eq(schema.payments.tenantId, user.tenantId)))
+                    .for('update').limit(1);
+                if (!payment) throw new Error('Payment not found');
+                return customerLedgerService.allocate(tx, payment, { manual: request.body.allocations, userId: user.id });
+            });
+            return { success: true, data: allocations };
+        } catch (error: any) {
+            if (error.message === 'Payment not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            if (error instanceof AllocationError) return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+            throw error;
+        }
+    });
+
     // List supplier payments
     fastify.get<{ Querystring: SupplierPaymentsQuery }>('/suppliers', {
         preHandler: [fastify.authenticate],
@@ -220,6 +307,7 @@ export const paymentRoutes: FastifyPluginAsync = async (fastify) => {
         const paymentsList = await db.select({
             id: schema.supplierPayments.id, paymentNumber: schema.supplierPayments.paymentNumber,
             supplierName: schema.suppliers.name, amount: schema.supplierPayments.amount,
+            currency: schema.supplierPayments.currency, exchangeRate: schema.supplierPayments.exchangeRate,
             methodName: schema.paymentMethods.name, poNumber: schema.purchaseOrders.poNumber,
             paidAt: schema.supplierPayments.paidAt, paidBy: schema.users.name,
         }).from(schema.supplierPayments)
@@ -251,24 +339,86 @@ export const paymentRoutes: FastifyPluginAsync = async (fastify) => {
 
         const paymentNumber = `SPAY-${Date.now()}`;
 
-        const result = await db.transaction(async (tx) => {
-            const [payment] = await tx.insert(schema.supplierPayments).values({
-                tenantId: user.tenantId, paymentNumber, supplierId: body.supplierId, purchaseOrderId: body.purchaseOrderId,
-                paymentMethodId: body.paymentMethodId, amount: body.amount.toString(), paidBy: user.id,
-                referenceNumber: body.referenceNumber, notes: body.notes, paidAt: new Date(),
-            }).returning();
-
-            if (body.purchaseOrderId) {
-                const [po] = await tx.select().from(schema.purchaseOrders).where(eq(schema.purchaseOrders.id, body.purchaseOrderId)).limit(1);
-                if (po) {
-                    const newPaidAmount = Number(po.paidAmount || 0) + body.amount;
-                    await tx.update(schema.purchaseOrders).set({ paidAmount: newPaidAmount.toString() })
-                        .where(eq(schema.purchaseOrders.id, body.purchaseOrderId));
-                }
-            }
-            return payment;
-        });
+        let currency = body.currency?.toUpperCase();
+        if (!currency && body.purchaseOrderId) {
+            const [po] = await db.select({ currency: schema.purchaseOrders.currency }).from(schema.purchaseOrders)
+                .where(and(eq(schema.purchaseOrders.id, body.purchaseOrderId), eq(schema.purchaseOrders.tenantId, user.tenantId))).limit(1);
+            currency = po?.currency;
+        }
+
+        const paidAt = new Date();
+        let rate: number;
+        try {
+            currency = currency ?? await exchangeRateService.getBaseCurrency(user.tenantId);
+            ({ rate } = await exchangeRateService.getRateAt(user.tenantId, currency, paidAt));
+        } catch (error: any) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+
+        let result;
+        try {
+            result = await db.transaction(async (tx) => {
+                const [payment] = await tx.insert(schema.supplierPayments).values({
+                    tenantId: user.tenantId, paymentNumber, supplierId: body.supplierId, purchaseOrderId: body.purchaseOrderId,
+                    paymentMethodId: body.paymentMethodId, amount: body.amount.toString(), currency, exchangeRate: String(rate),
+                    paidBy: user.id, referenceNumber: body.referenceNumber, notes: body.notes, paidAt,
+                }).returning();
+
+                await generalLedgerService.postSupplierPayment(tx, payment, user.id);
+
+                // PO paidAmount follows the bills the payment settles
+                const allocations = await supplierPayablesService.recordPayment(tx, payment, {
+                    manual: body.allocations,
+                    userId: user.id,
+                });
+                return { ...payment, allocations };
+            });
+        } catch (error: any) {
+            if (error instanceof AllocationError) return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+            throw error;
+        }
 
         return { success: true, data: result };
     });
+
+    // Bills a supplier payment was allocated to
+    fastify.get<{ Params: Static<typeof PaymentIdParamsSchema> }>('/suppliers/:id/allocations', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PaymentIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const [payment] = await db.select().from(schema.supplierPayments)
+            .where(and(eq(schema.supplierPayments.id, request.params.id), eq(schema.supplierPayments.tenantId, user.tenantId))).limit(1);
+        if (!payment) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+
+        const allocations = await supplierPayablesService.getAllocations(user.tenantId, payment.id);
+        const unallocated = await supplierPayablesService.getUnallocated(db, payment);
+        return { success: true, data: { allocations, unallocated } };
+    });
+
+    // Allocate the unallocated part of a supplier payment
+    fastify.post<{ Params: Static<typeof PaymentIdParamsSchema>; Body: AllocateSupplierPaymentBody }>('/suppliers/:id/allocate', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PaymentIdParamsSchema, body: AllocateSupplierPaymentBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin', 'supervisor'].includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const allocations = await db.transaction(async (tx) => {
+                const [payment] = await tx.select().from(schema.supplierPayments)
+                    .where(and(eq(schema.supplierPayments.id, request.params.id), eq(schema.supplierPayments.tenantId, user.tenantId)))
+                    .for('update').limit(1);
+                if (!payment) throw new Error('Payment not found');
+                return supplierPayablesService.allocate(tx, payment, { manual: request.body.allocations, userId: user.id });
+            });
+            return { success: true, data: allocations };
+        } catch (error: any) {
+            if (error.message === 'Payment not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            if (error instanceof AllocationError) return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+            throw error;
+        }
+    });
 };
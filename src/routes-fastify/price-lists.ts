@@ -0,0 +1,270 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { priceListService } from '../services/price-list.service';
+
+// Schemas
+const PriceListIdParamsSchema = Type.Object({ id: Type.String() });
+const ItemIdParamsSchema = Type.Object({ itemId: Type.String() });
+
+const PriceListBodySchema = Type.Object({
+    name: Type.String({ minLength: 2, maxLength: 100 }),
+    description: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    currency: Type.Optional(Type.String({ pattern: '^[A-Za-z]{3}$' })),
+    isActive: Type.Optional(Type.Boolean()),
+});
+
+const UpdatePriceListBodySchema = Type.Partial(PriceListBodySchema);
+
+const AssignmentsBodySchema = Type.Object({
+    assignments: Type.Array(Type.Object({
+        scopeType: Type.Union([Type.Literal('customer'), Type.Literal('territory'), Type.Literal('customer_tier')]),
+        scopeId: Type.String(),
+    })),
+});
+
+const ListItemsQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    search: Type.Optional(Type.String()),
+    productId: Type.Optional(Type.String()),
+});
+
+const SetItemBodySchema = Type.Object({
+    productId: Type.String(),
+    price: Type.Number({ minimum: 0 }),
+    validFrom: Type.Optional(Type.String({ format: 'date' })),
+    validTo: Type.Optional(Type.Union([Type.String({ format: 'date' }), Type.Null()])),
+});
+
+const BulkUpdateBodySchema = Type.Object({
+    percent: Type.Number({ exclusiveMinimum: -100, maximum: 1000 }),
+    brandId: Type.Optional(Type.String()),
+    categoryId: Type.Optional(Type.String()),
+    effectiveFrom: Type.Optional(Type.String({ format: 'date' })),
+});
+
+type PriceListBody = Static<typeof PriceListBodySchema>;
+type UpdatePriceListBody = Static<typeof UpdatePriceListBodySchema>;
+type AssignmentsBody = Static<typeof AssignmentsBodySchema>;
+type ListItemsQuery = Static<typeof ListItemsQuerySchema>;
+type SetItemBody = Static<typeof SetItemBodySchema>;
+type BulkUpdateBody = Static<typeof BulkUpdateBodySchema>;
+type PriceListParams = Static<typeof PriceListIdParamsSchema>;
+
+const PRICE_LIST_ROLES = ['tenant_admin', 'super_admin'];
+
+const priceListError = (message: string): [number, string] => {
+    if (message.includes('not found')) return [404, 'NOT_FOUND'];
+    return [400, 'BAD_REQUEST'];
+};
+
+export const priceListRoutes: FastifyPluginAsync = async (fastify) => {
+    // ----------------------------------------------------------------
+    // PRICE LISTS
+    // ----------------------------------------------------------------
+
+    fastify.get('/', {
+        preHandler: [fastify.authenticate],
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        return { success: true, data: await priceListService.listPriceLists(user.tenantId) };
+    });
+
+    fastify.post<{ Body: PriceListBody }>('/', {
+        preHandler: [fastify.authenticate],
+        schema: { body: PriceListBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const list = await priceListService.createPriceList(user.tenantId, request.body);
+            return { success: true, data: list };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // With its customer / territory / tier assignments
+    fastify.get<{ Params: PriceListParams }>('/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            return { success: true, data: await priceListService.getPriceList(user.tenantId, request.params.id) };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    fastify.patch<{ Params: PriceListParams; Body: UpdatePriceListBody }>('/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema, body: UpdatePriceListBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const list = await priceListService.updatePriceList(user.tenantId, request.params.id, request.body);
+            return { success: true, data: list };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    fastify.delete<{ Params: PriceListParams }>('/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            await priceListService.deletePriceList(user.tenantId, request.params.id);
+            return { success: true };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Replaces the list's assignments
+    fastify.put<{ Params: PriceListParams; Body: AssignmentsBody }>('/:id/assignments', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema, body: AssignmentsBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const assignments = await priceListService.setAssignments(user.tenantId, request.params.id, request.body.assignments);
+            return { success: true, data: assignments };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // ----------------------------------------------------------------
+    // PRICES
+    // ----------------------------------------------------------------
+
+    fastify.get<{ Params: PriceListParams; Querystring: ListItemsQuery }>('/:id/items', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema, querystring: ListItemsQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { page: pageStr = '1', limit: limitStr = '50', ...filters } = request.query;
+        const page = Math.max(1, parseInt(pageStr) || 1);
+        const limit = Math.min(200, Math.max(1, parseInt(limitStr) || 50));
+
+        try {
+            const { rows, total } = await priceListService.listItems(user.tenantId, request.params.id, { ...filters, page, limit });
+            return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Sets a product's price from a date (today by default)
+    fastify.put<{ Params: PriceListParams; Body: SetItemBody }>('/:id/items', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema, body: SetItemBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const item = await priceListService.setItemPrice(user.tenantId, request.params.id, request.body, user.id);
+            return { success: true, data: item };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // Only prices that have not started yet
+    fastify.delete<{ Params: Static<typeof ItemIdParamsSchema> }>('/items/:itemId', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ItemIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            await priceListService.deleteItem(user.tenantId, request.params.itemId, user.id);
+            return { success: true };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    // ----------------------------------------------------------------
+    // BULK UPDATE
+    // ----------------------------------------------------------------
+
+    // Old and new price of every product the change would touch
+    fastify.post<{ Params: PriceListParams; Body: BulkUpdateBody }>('/:id/bulk-update/preview', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema, body: BulkUpdateBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            return { success: true, data: await priceListService.previewBulkUpdate(user.tenantId, request.params.id, request.body) };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+
+    fastify.post<{ Params: PriceListParams; Body: BulkUpdateBody }>('/:id/bulk-update', {
+        preHandler: [fastify.authenticate],
+        schema: { params: PriceListIdParamsSchema, body: BulkUpdateBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!PRICE_LIST_ROLES.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            return { success: true, data: await priceListService.applyBulkUpdate(user.tenantId, request.params.id, request.body, user.id) };
+        } catch (error: any) {
+            const [status, code] = priceListError(error.message);
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
+        }
+    });
+};
@@ -2,6 +2,11 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, sql, desc } from 'drizzle-orm';
+import { stockService } from '../services/stock.service';
+import { supplierPayablesService } from '../services/supplier-payables.service';
+import { exchangeRateService } from '../services/exchange-rate.service';
+import { productUnitService } from '../services/product-unit.service';
+import { UnitNotSoldError } from '../errors';
 
 // Schemas
 const CreateSupplierBodySchema = Type.Object({
@@ -33,14 +38,23 @@ const POIdParamsSchema = Type.Object({ id: Type.String() });
 
 const CreatePOBodySchema = Type.Object({
     supplierId: Type.String(),
+    warehouseId: Type.Optional(Type.String()),
     status: Type.Optional(Type.String()),
+    // Currency of the amounts below; the tenant's base currency by default
+    currency: Type.Optional(Type.String({ pattern: '^[A-Za-z]{3}$' })),
     subtotalAmount: Type.Number({ minimum: 0 }),
     taxAmount: Type.Optional(Type.Number({ minimum: 0 })),
     totalAmount: Type.Number({ minimum: 0 }),
     expectedDate: Type.Optional(Type.String()),
     notes: Type.Optional(Type.String()),
+    // qtyOrdered and unitPrice are per the line's unit (e.g. cases at the case price);
+    // they are stored per base unit
     items: Type.Array(Type.Object({
         productId: Type.String(),
+        unit: Type.Optional(Type.Union([
+            Type.Union(schema.productUnitEnum.enumValues.map(unit => Type.Literal(unit))),
+            Type.Null(),
+        ])),
         qtyOrdered: Type.Number({ minimum: 1 }),
         unitPrice: Type.Number({ minimum: 0 }),
         lineTotal: Type.Number({ minimum: 0 }),
@@ -49,11 +63,22 @@ const CreatePOBodySchema = Type.Object({
 
 const UpdatePOStatusBodySchema = Type.Object({ status: Type.String() });
 
+const ListBillsQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    supplierId: Type.Optional(Type.String()),
+    purchaseOrderId: Type.Optional(Type.String()),
+    status: Type.Optional(Type.String()),
+});
+
+const BillIdParamsSchema = Type.Object({ id: Type.String() });
+
 type CreateSupplierBody = Static<typeof CreateSupplierBodySchema>;
 type UpdateSupplierBody = Static<typeof UpdateSupplierBodySchema>;
 type ListPOsQuery = Static<typeof ListPOsQuerySchema>;
 type CreatePOBody = Static<typeof CreatePOBodySchema>;
 type UpdatePOStatusBody = Static<typeof UpdatePOStatusBodySchema>;
+type ListBillsQuery = Static<typeof ListBillsQuerySchema>;
 
 export const procurementRoutes: FastifyPluginAsync = async (fastify) => {
     // List suppliers
@@ -142,7 +167,7 @@ export const procurementRoutes: FastifyPluginAsync = async (fastify) => {
 
         const pos = await db.select({
             id: schema.purchaseOrders.id, poNumber: schema.purchaseOrders.poNumber, supplierName: schema.suppliers.name,
-            status: schema.purchaseOrders.status, totalAmount: schema.purchaseOrders.totalAmount,
+            status: schema.purchaseOrders.status, currency: schema.purchaseOrders.currency, totalAmount: schema.purchaseOrders.totalAmount,
             expectedDate: schema.purchaseOrders.expectedDate, createdAt: schema.purchaseOrders.createdAt,
         }).from(schema.purchaseOrders)
             .leftJoin(schema.suppliers, eq(schema.purchaseOrders.supplierId, schema.suppliers.id))
@@ -165,40 +190,59 @@ export const procurementRoutes: FastifyPluginAsync = async (fastify) => {
         const body = request.body;
         const poNumber = `PO-${Date.now()}`;
         const poStatus = body.status || 'draft';
+        const currency = body.currency?.toUpperCase() ?? await exchangeRateService.getBaseCurrency(user.tenantId);
 
-        const result = await db.transaction(async (tx) => {
-            const [po] = await tx.insert(schema.purchaseOrders).values({
-                tenantId: user.tenantId, poNumber, supplierId: body.supplierId, createdBy: user.id, status: poStatus as any,
-                subtotalAmount: body.subtotalAmount.toString(), taxAmount: body.taxAmount?.toString() || '0',
-                totalAmount: body.totalAmount.toString(), expectedDate: body.expectedDate, notes: body.notes,
-            }).returning();
-
-            if (body.items && body.items.length > 0) {
-                await tx.insert(schema.purchaseOrderItems).values(body.items.map(item => ({
-                    purchaseOrderId: po.id, productId: item.productId, qtyOrdered: item.qtyOrdered, qtyReceived: 0,
-                    unitPrice: item.unitPrice.toString(), lineTotal: item.lineTotal.toString(),
-                })));
-            }
+        let result;
+        try {
+            result = await db.transaction(async (tx) => {
+                const warehouseId = await stockService.resolveWarehouseId(tx, user.tenantId, body.warehouseId);
+                const [po] = await tx.insert(schema.purchaseOrders).values({
+                    tenantId: user.tenantId, poNumber, supplierId: body.supplierId, createdBy: user.id, warehouseId, status: poStatus as any, currency,
+                    subtotalAmount: body.subtotalAmount.toString(), taxAmount: body.taxAmount?.toString() || '0',
+                    totalAmount: body.totalAmount.toString(), expectedDate: body.expectedDate, notes: body.notes,
+                }).returning();
+
+                const units = await productUnitService.toBaseLines(
+                    user.tenantId, body.items.map(item => ({ productId: item.productId, unit: item.unit, quantity: item.qtyOrdered })), tx
+                );
+                const lines = body.items.map((item, index) => ({
+                    ...units[index],
+                    unitPrice: item.unitPrice / units[index].unitFactor,
+                    lineTotal: item.lineTotal,
+                }));
+
+                if (lines.length > 0) {
+                    await tx.insert(schema.purchaseOrderItems).values(lines.map(line => ({
+                        purchaseOrderId: po.id, productId: line.productId, qtyOrdered: line.quantity,
+                        unit: line.unit, unitQty: line.unitQty, unitFactor: line.unitFactor,
+                        qtyReceived: poStatus === 'received' ? line.quantity : 0,
+                        unitPrice: line.unitPrice.toFixed(4), lineTotal: line.lineTotal.toString(),
+                    })));
+                }
 
-            if (poStatus === 'received') {
-                for (const item of body.items) {
-                    const [product] = await tx.select({ stockQuantity: schema.products.stockQuantity })
-                        .from(schema.products).where(eq(schema.products.id, item.productId)).limit(1);
-                    const quantityBefore = product?.stockQuantity || 0;
-                    const quantityAfter = quantityBefore + item.qtyOrdered;
-
-                    await tx.update(schema.products).set({ stockQuantity: quantityAfter, costPrice: item.unitPrice.toString() })
-                        .where(eq(schema.products.id, item.productId));
-                    await tx.insert(schema.stockMovements).values({
-                        tenantId: user.tenantId, productId: item.productId, movementType: 'in', quantity: item.qtyOrdered,
-                        quantityBefore, quantityAfter, referenceType: 'purchase_order', referenceId: po.id,
-                        createdBy: user.id, notes: `PO Received: ${poNumber}`,
-                    });
+                if (poStatus === 'received') {
+                    // Cost prices are kept in the base currency
+                    const { rate } = await exchangeRateService.getRateAt(user.tenantId, currency, new Date(), tx);
+                    for (const item of lines) {
+                        await tx.update(schema.products).set({ costPrice: (item.unitPrice * rate).toFixed(2) })
+                            .where(eq(schema.products.id, item.productId));
+                        await stockService.adjustQuantity(tx, {
+                            tenantId: user.tenantId, warehouseId, productId: item.productId, change: item.quantity,
+                            movementType: 'in', referenceType: 'purchase_order', referenceId: po.id,
+                            createdBy: user.id, notes: `PO Received: ${poNumber}`,
+                        });
+                    }
+                    await tx.update(schema.purchaseOrders).set({ receivedAt: new Date() }).where(eq(schema.purchaseOrders.id, po.id));
+                    await supplierPayablesService.billReceived(tx, po.id, user.id);
                 }
-                await tx.update(schema.purchaseOrders).set({ receivedAt: new Date() }).where(eq(schema.purchaseOrders.id, po.id));
+                return po;
+            });
+        } catch (error: any) {
+            if (error.message?.startsWith('No exchange rate') || error instanceof UnitNotSoldError) {
+                return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
             }
-            return po;
-        });
+            throw error;
+        }
 
         return { success: true, data: result };
     });
@@ -213,7 +257,8 @@ export const procurementRoutes: FastifyPluginAsync = async (fastify) => {
 
         const [po] = await db.select({
             id: schema.purchaseOrders.id, poNumber: schema.purchaseOrders.poNumber, supplierName: schema.suppliers.name,
-            status: schema.purchaseOrders.status, totalAmount: schema.purchaseOrders.totalAmount,
+            status: schema.purchaseOrders.status, currency: schema.purchaseOrders.currency, totalAmount: schema.purchaseOrders.totalAmount,
+            warehouseId: schema.purchaseOrders.warehouseId,
             notes: schema.purchaseOrders.notes, createdAt: schema.purchaseOrders.createdAt,
         }).from(schema.purchaseOrders)
             .leftJoin(schema.suppliers, eq(schema.purchaseOrders.supplierId, schema.suppliers.id))
@@ -224,6 +269,7 @@ export const procurementRoutes: FastifyPluginAsync = async (fastify) => {
         const items = await db.select({
             id: schema.purchaseOrderItems.id, productName: schema.products.name,
             qtyOrdered: schema.purchaseOrderItems.qtyOrdered, qtyReceived: schema.purchaseOrderItems.qtyReceived,
+            unit: schema.purchaseOrderItems.unit, unitQty: schema.purchaseOrderItems.unitQty, unitFactor: schema.purchaseOrderItems.unitFactor,
             unitPrice: schema.purchaseOrderItems.unitPrice, lineTotal: schema.purchaseOrderItems.lineTotal,
         }).from(schema.purchaseOrderItems)
             .leftJoin(schema.products, eq(schema.purchaseOrderItems.productId, schema.products.id))
@@ -246,29 +292,70 @@ export const procurementRoutes: FastifyPluginAsync = async (fastify) => {
         if (!po) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
 
         if (status === 'received' && po.status !== 'received') {
-            await db.transaction(async (tx) => {
-                await tx.update(schema.purchaseOrders).set({ status: 'received', receivedAt: new Date() }).where(eq(schema.purchaseOrders.id, id));
-                const items = await tx.select().from(schema.purchaseOrderItems).where(eq(schema.purchaseOrderItems.purchaseOrderId, po.id));
-
-                for (const item of items) {
-                    const [product] = await tx.select({ stockQuantity: schema.products.stockQuantity })
-                        .from(schema.products).where(eq(schema.products.id, item.productId)).limit(1);
-                    const quantityBefore = product?.stockQuantity || 0;
-                    const quantityAfter = quantityBefore + item.qtyOrdered;
-
-                    await tx.update(schema.products).set({ stockQuantity: quantityAfter, costPrice: item.unitPrice.toString() })
-                        .where(eq(schema.products.id, item.productId));
-                    await tx.insert(schema.stockMovements).values({
-                        tenantId: user.tenantId, productId: item.productId, movementType: 'in', quantity: item.qtyOrdered,
-                        quantityBefore, quantityAfter, referenceType: 'purchase_order', referenceId: po.id,
-                        createdBy: user.id, notes: `PO Received: ${po.poNumber}`,
-                    });
+            try {
+                await db.transaction(async (tx) => {
+                    await tx.update(schema.purchaseOrders).set({ status: 'received', receivedAt: new Date() }).where(eq(schema.purchaseOrders.id, id));
+                    const items = await tx.select().from(schema.purchaseOrderItems).where(eq(schema.purchaseOrderItems.purchaseOrderId, po.id));
+                    const warehouseId = po.warehouseId || await stockService.getDefaultWarehouseId(tx, user.tenantId);
+                    // Cost prices are kept in the base currency
+                    const { rate } = await exchangeRateService.getRateAt(user.tenantId, po.currency, new Date(), tx);
+
+                    for (const item of items) {
+                        await tx.update(schema.products).set({ costPrice: (Number(item.unitPrice) * rate).toFixed(2) })
+                            .where(eq(schema.products.id, item.productId));
+
+                        // Units scanned in at the warehouse are already on hand - post only the rest
+                        const remaining = item.qtyOrdered - (item.qtyReceived || 0);
+                        if (remaining <= 0) continue;
+                        await stockService.adjustQuantity(tx, {
+                            tenantId: user.tenantId, warehouseId, productId: item.productId, change: remaining,
+                            movementType: 'in', referenceType: 'purchase_order', referenceId: po.id,
+                            createdBy: user.id, notes: `PO Received: ${po.poNumber}`,
+                        });
+                        await tx.update(schema.purchaseOrderItems).set({ qtyReceived: item.qtyOrdered })
+                            .where(eq(schema.purchaseOrderItems.id, item.id));
+                    }
+                    await supplierPayablesService.billReceived(tx, po.id, user.id);
+                });
+            } catch (error: any) {
+                if (error.message?.startsWith('No exchange rate')) {
+                    return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
                 }
-            });
+                throw error;
+            }
         } else {
             await db.update(schema.purchaseOrders).set({ status: status as any }).where(eq(schema.purchaseOrders.id, id));
         }
 
         return { success: true, message: 'Status updated' };
     });
+
+    // List supplier bills
+    fastify.get<{ Querystring: ListBillsQuery }>('/supplier-bills', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ListBillsQuerySchema },
+    }, async (request) => {
+        const user = request.user!;
+        const { page: pageStr = '1', limit: limitStr = '20', ...filters } = request.query;
+        const page = Math.max(1, parseInt(pageStr) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(limitStr) || 20));
+
+        const { rows, total } = await supplierPayablesService.listBills(user.tenantId, { ...filters, page, limit });
+        return { success: true, data: rows, meta: { page, limit, total, totalPages: Math.ceil(total / limit) } };
+    });
+
+    // Get supplier bill details
+    fastify.get<{ Params: Static<typeof BillIdParamsSchema> }>('/supplier-bills/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: BillIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        try {
+            const bill = await supplierPayablesService.getBill(user.tenantId, request.params.id);
+            return { success: true, data: bill };
+        } catch (error: any) {
+            if (error.message === 'Bill not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            throw error;
+        }
+    });
 };
@@ -3,6 +3,9 @@ import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, sql, desc, or, ilike } from 'drizzle-orm';
 import { logAudit } from '../lib/audit';
+import { stockService } from '../services/stock.service';
+import { productUnitService } from '../services/product-unit.service';
+import { productVariantService } from '../services/product-variant.service';
 
 // Schemas
 const CreateNameBodySchema = Type.Object({
@@ -34,6 +37,7 @@ const ListProductsQuerySchema = Type.Object({
     subcategoryId: Type.Optional(Type.String()),
     categoryId: Type.Optional(Type.String()),
     brandId: Type.Optional(Type.String()),
+    familyId: Type.Optional(Type.String()),
     isActive: Type.Optional(Type.String()),
 });
 
@@ -56,6 +60,8 @@ const CreateProductBodySchema = Type.Object({
     price: Type.Number({ minimum: 0 }),
     costPrice: Type.Optional(Type.Number({ minimum: 0 })),
     taxRate: Type.Optional(Type.Number({ minimum: 0, maximum: 100 })),
+    weightKg: Type.Optional(Type.Number({ minimum: 0 })),
+    volumeM3: Type.Optional(Type.Number({ minimum: 0 })),
     imageUrl: Type.Optional(Type.String())
 });
 
@@ -69,6 +75,8 @@ const UpdateProductBodySchema = Type.Object({
     price: Type.Optional(Type.Number()),
     costPrice: Type.Optional(Type.Number()),
     taxRate: Type.Optional(Type.Number()),
+    weightKg: Type.Optional(Type.Union([Type.Number({ minimum: 0 }), Type.Null()])),
+    volumeM3: Type.Optional(Type.Union([Type.Number({ minimum: 0 }), Type.Null()])),
     imageUrl: Type.Optional(Type.String()),
     isActive: Type.Optional(Type.Boolean())
 });
@@ -90,6 +98,40 @@ const AddImageBodySchema = Type.Object({
     sortOrder: Type.Optional(Type.Number())
 });
 
+// Replaces the product's alternate units; factor = base units per pack
+const SetUnitsBodySchema = Type.Object({
+    units: Type.Array(Type.Object({
+        unit: Type.Union(schema.productUnitEnum.enumValues.map(unit => Type.Literal(unit))),
+        factor: Type.Integer({ minimum: 2 }),
+        barcode: Type.Optional(Type.Union([Type.String({ maxLength: 100 }), Type.Null()])),
+        isActive: Type.Optional(Type.Boolean()),
+    })),
+});
+
+// attributes = attribute names in picker order, e.g. ["size", "flavour"]
+const FamilyBodySchema = Type.Object({
+    name: Type.String({ minLength: 2, maxLength: 255 }),
+    description: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    subcategoryId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    brandId: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    imageUrl: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    attributes: Type.Array(Type.String({ minLength: 1, maxLength: 50 }), { minItems: 1, maxItems: 5 }),
+    isActive: Type.Optional(Type.Boolean()),
+});
+
+const UpdateFamilyBodySchema = Type.Partial(FamilyBodySchema);
+
+// null detaches the product from its family
+const SetVariantBodySchema = Type.Object({
+    variant: Type.Union([
+        Type.Object({
+            familyId: Type.String(),
+            attributes: Type.Record(Type.String(), Type.String({ minLength: 1, maxLength: 100 })),
+        }),
+        Type.Null()
+    ]),
+});
+
 type CreateNameBody = Static<typeof CreateNameBodySchema>;
 type UpdateNameActiveBody = Static<typeof UpdateNameActiveBodySchema>;
 type CreateSubcategoryBody = Static<typeof CreateSubcategoryBodySchema>;
@@ -99,6 +141,10 @@ type ImportMasterBody = Static<typeof ImportMasterBodySchema>;
 type CreateProductBody = Static<typeof CreateProductBodySchema>;
 type UpdateProductBody = Static<typeof UpdateProductBodySchema>;
 type AddImageBody = Static<typeof AddImageBodySchema>;
+type SetUnitsBody = Static<typeof SetUnitsBodySchema>;
+type FamilyBody = Static<typeof FamilyBodySchema>;
+type UpdateFamilyBody = Static<typeof UpdateFamilyBodySchema>;
+type SetVariantBody = Static<typeof SetVariantBodySchema>;
 
 export const productRoutes: FastifyPluginAsync = async (fastify) => {
 
@@ -321,6 +367,97 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
         }
     });
 
+    // ----------------------------------------------------------------
+    // PRODUCT FAMILIES (parents of variants)
+    // ----------------------------------------------------------------
+
+    fastify.get<{ Querystring: { search?: string } }>('/families', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: Type.Object({ search: Type.Optional(Type.String()) }) }
+    }, async (request) => {
+        const user = request.user!;
+        return { success: true, data: await productVariantService.listFamilies(user.tenantId, request.query.search) };
+    });
+
+    fastify.get<{ Params: Static<typeof ParamsSchema> }>('/families/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        try {
+            return { success: true, data: await productVariantService.getFamily(user.tenantId, request.params.id) };
+        } catch (error: any) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+        }
+    });
+
+    fastify.post<{ Body: FamilyBody }>('/families', {
+        preHandler: [fastify.authenticate],
+        schema: { body: FamilyBodySchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin'].includes(user.role)) return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+
+        try {
+            const family = await productVariantService.createFamily(user.tenantId, request.body, user.id);
+            return { success: true, data: family };
+        } catch (error: any) {
+            if (error.code === '23505') return reply.code(409).send({ success: false, error: { code: 'CONFLICT', message: 'A family with this name already exists' } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    fastify.put<{ Params: Static<typeof ParamsSchema>; Body: UpdateFamilyBody }>('/families/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema, body: UpdateFamilyBodySchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin'].includes(user.role)) return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+
+        try {
+            const family = await productVariantService.updateFamily(user.tenantId, request.params.id, request.body, user.id);
+            return { success: true, data: family };
+        } catch (error: any) {
+            if (error.message === 'Product family not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            if (error.code === '23505') return reply.code(409).send({ success: false, error: { code: 'CONFLICT', message: 'A family with this name already exists' } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    fastify.delete<{ Params: Static<typeof ParamsSchema> }>('/families/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin'].includes(user.role)) return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+
+        try {
+            await productVariantService.deleteFamily(user.tenantId, request.params.id, user.id);
+            return { success: true };
+        } catch (error: any) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+        }
+    });
+
+    // Makes a product a variant of a family (or standalone again)
+    fastify.put<{ Params: Static<typeof ParamsSchema>; Body: SetVariantBody }>('/:id/variant', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema, body: SetVariantBodySchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin'].includes(user.role)) return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+
+        try {
+            const product = await productVariantService.setVariant(user.tenantId, request.params.id, request.body.variant, user.id);
+            return { success: true, data: product };
+        } catch (error: any) {
+            if (error.message === 'Product not found' || error.message === 'Product family not found') {
+                return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            }
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
     // ----------------------------------------------------------------
     // PRODUCTS
     // ----------------------------------------------------------------
@@ -340,7 +477,8 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
             whereClause = or(
                 ilike(schema.masterProducts.name, `%${search}%`),
                 ilike(schema.masterProducts.sku, `%${search}%`),
-                ilike(schema.masterProducts.category, `%${search}%`)
+                ilike(schema.masterProducts.category, `%${search}%`),
+                ilike(schema.masterProducts.familyName, `%${search}%`)
             );
         }
 
@@ -371,27 +509,56 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
         const mp = masterProduct[0];
 
         try {
-            const newProduct = await db.insert(schema.products).values({
-                tenantId: user.tenantId,
-                subcategoryId: request.body.subcategoryId,
-                brandId: request.body.brandId,
-                name: mp.name,
-                description: mp.description,
-                sku: mp.sku,
-                barcode: mp.barcode,
-                imageUrl: mp.imageUrl,
-                unit: 'piece',
-                price: price.toString(),
-                costPrice: costPrice?.toString() || '0',
-                stockQuantity: stock || 0,
-                isActive: true
-            }).returning();
+            const newProduct = await db.transaction(async (tx) => {
+                const inserted = await tx.insert(schema.products).values({
+                    tenantId: user.tenantId,
+                    subcategoryId: request.body.subcategoryId,
+                    brandId: request.body.brandId,
+                    name: mp.name,
+                    description: mp.description,
+                    sku: mp.sku,
+                    barcode: mp.barcode,
+                    imageUrl: mp.imageUrl,
+                    unit: 'piece',
+                    price: price.toString(),
+                    costPrice: costPrice?.toString() || '0',
+                    stockQuantity: 0,
+                    isActive: true
+                }).returning();
+
+                // Master variants join the tenant's family of the same name
+                if (mp.familyName && mp.variantAttributes && Object.keys(mp.variantAttributes).length > 0) {
+                    const family = await productVariantService.familyForImport(user.tenantId, mp.familyName, Object.keys(mp.variantAttributes), {
+                        subcategoryId: request.body.subcategoryId,
+                        brandId: request.body.brandId,
+                        description: mp.description,
+                        imageUrl: mp.imageUrl,
+                    }, tx);
+                    inserted[0] = await productVariantService.setVariant(user.tenantId, inserted[0].id, {
+                        familyId: family.id,
+                        attributes: mp.variantAttributes,
+                    }, user.id, tx);
+                }
+
+                // Opening stock is booked into the default warehouse
+                if (stock && stock > 0) {
+                    const warehouseId = await stockService.getDefaultWarehouseId(tx, user.tenantId);
+                    await stockService.adjustQuantity(tx, {
+                        tenantId: user.tenantId, warehouseId, productId: inserted[0].id, change: stock,
+                        movementType: 'in', referenceType: 'initial', createdBy: user.id, notes: 'Imported from master catalog',
+                    });
+                    inserted[0].stockQuantity = stock;
+                }
+                return inserted;
+            });
 
             await logAudit('product.import', { masterId: mp.id, newId: newProduct[0].id }, user.id, user.tenantId, newProduct[0].id, 'product');
             return { success: true, data: newProduct[0] };
 
         } catch (e: any) {
             if (e.code === '23505') return reply.send({ success: false, error: 'Product with this SKU already exists' });
+            // Variant checks of the family it joins
+            if (!e.code) return reply.send({ success: false, error: e.message });
             throw e;
         }
     });
@@ -402,7 +569,7 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
         schema: { querystring: ListProductsQuerySchema }
     }, async (request, reply) => {
         const user = request.user!;
-        const { page: pageStr = '1', limit: limitStr = '20', search, subcategoryId, categoryId, brandId, isActive } = request.query;
+        const { page: pageStr = '1', limit: limitStr = '20', search, subcategoryId, categoryId, brandId, familyId, isActive } = request.query;
 
         const page = parseInt(pageStr);
         const limit = parseInt(limitStr);
@@ -417,6 +584,7 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
         }
         if (subcategoryId) conditions.push(eq(schema.products.subcategoryId, subcategoryId));
         if (brandId) conditions.push(eq(schema.products.brandId, brandId));
+        if (familyId) conditions.push(eq(schema.products.familyId, familyId));
         if (isActive !== undefined) conditions.push(eq(schema.products.isActive, isActive === 'true'));
 
         if (categoryId) {
@@ -461,9 +629,14 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
                 isActive: schema.products.isActive,
                 description: schema.products.description,
                 taxRate: schema.products.taxRate,
+                weightKg: schema.products.weightKg,
+                volumeM3: schema.products.volumeM3,
                 subcategoryId: schema.products.subcategoryId,
                 brandId: schema.products.brandId,
                 imageUrl: schema.products.imageUrl,
+                barcode: schema.products.barcode,
+                familyId: schema.products.familyId,
+                variantAttributes: schema.products.variantAttributes,
                 subcategoryName: schema.subcategories.name,
                 categoryName: schema.categories.name,
                 brandName: schema.brands.name,
@@ -496,10 +669,22 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
         }
 
         const imageMap = new Map(primaryImages.map(img => [img.productId, img.thumbnailUrl || img.url]));
-        const productsWithImages = products.map(p => ({
-            ...p,
-            imageUrl: imageMap.get(p.id) || p.imageUrl || null
-        }));
+        // Variants carry their whole family so catalogs can show one card with a picker
+        const families = await productVariantService.variantsForFamilies(user.tenantId, products.map(p => p.familyId));
+        const variantIds = [...families.values()].flatMap(f => f.variants.map(v => v.id));
+        const units = await productUnitService.unitsForProducts(user.tenantId, [...new Set([...productIds, ...variantIds])]);
+        const productsWithImages = products.map(p => {
+            const family = p.familyId ? families.get(p.familyId) : undefined;
+            return {
+                ...p,
+                imageUrl: imageMap.get(p.id) || p.imageUrl || null,
+                units: units.get(p.id) ?? [],
+                family: family ? {
+                    ...family,
+                    variants: family.variants.map(v => ({ ...v, units: units.get(v.id) ?? [] }))
+                } : null
+            };
+        });
 
         const [{ count }] = await db
             .select({ count: sql<number>`count(*)` })
@@ -559,6 +744,8 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
             price: request.body.price.toString(),
             costPrice: request.body.costPrice?.toString(),
             taxRate: request.body.taxRate?.toString(),
+            weightKg: request.body.weightKg?.toString(),
+            volumeM3: request.body.volumeM3?.toString(),
             stockQuantity: 0,
             imageUrl: request.body.imageUrl,
             isActive: true,
@@ -585,9 +772,13 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
                 unit: schema.products.unit,
                 isActive: schema.products.isActive,
                 taxRate: schema.products.taxRate,
+                weightKg: schema.products.weightKg,
+                volumeM3: schema.products.volumeM3,
                 imageUrl: schema.products.imageUrl,
                 subcategoryId: schema.products.subcategoryId,
                 brandId: schema.products.brandId,
+                familyId: schema.products.familyId,
+                variantAttributes: schema.products.variantAttributes,
                 subcategoryName: schema.subcategories.name,
                 categoryName: schema.categories.name,
                 brandName: schema.brands.name,
@@ -615,10 +806,15 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
             .where(eq(schema.productImages.productId, request.params.id))
             .orderBy(schema.productImages.sortOrder);
 
+        const units = await productUnitService.listUnits(user.tenantId, product.id);
+        const families = await productVariantService.variantsForFamilies(user.tenantId, [product.familyId]);
+
         return {
             success: true,
             data: {
                 ...product,
+                units,
+                family: (product.familyId && families.get(product.familyId)) || null,
                 images: images.length > 0 ? images : (product.imageUrl ? [{
                     id: 'main',
                     url: product.imageUrl,
@@ -664,6 +860,8 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
         if (request.body.price !== undefined) updateData.price = request.body.price.toString();
         if (request.body.costPrice !== undefined) updateData.costPrice = request.body.costPrice.toString();
         if (request.body.taxRate !== undefined) updateData.taxRate = request.body.taxRate.toString();
+        if (request.body.weightKg !== undefined) updateData.weightKg = request.body.weightKg?.toString() ?? null;
+        if (request.body.volumeM3 !== undefined) updateData.volumeM3 = request.body.volumeM3?.toString() ?? null;
         if (request.body.imageUrl !== undefined) updateData.imageUrl = request.body.imageUrl;
         if (request.body.isActive !== undefined) updateData.isActive = request.body.isActive;
 
@@ -696,6 +894,34 @@ export const productRoutes: FastifyPluginAsync = async (fastify) => {
         }
     });
 
+    // ----------------------------------------------------------------
+    // PRODUCT UNITS
+    // ----------------------------------------------------------------
+
+    fastify.get<{ Params: Static<typeof ParamsSchema> }>('/:id/units', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema }
+    }, async (request) => {
+        const user = request.user!;
+        return { success: true, data: await productUnitService.listUnits(user.tenantId, request.params.id) };
+    });
+
+    fastify.put<{ Params: Static<typeof ParamsSchema>; Body: SetUnitsBody }>('/:id/units', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ParamsSchema, body: SetUnitsBodySchema }
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!['tenant_admin', 'super_admin'].includes(user.role)) return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+
+        try {
+            const units = await productUnitService.setUnits(user.tenantId, request.params.id, request.body.units, user.id);
+            return { success: true, data: units };
+        } catch (error: any) {
+            if (error.message === 'Product not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
     // ----------------------------------------------------------------
     // PRODUCT IMAGES
     // ----------------------------------------------------------------
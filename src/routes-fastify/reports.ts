@@ -1,6 +1,50 @@
 import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, sql, desc, sum, count, gte, lte } from 'drizzle-orm';
+import { stockService } from '../services/stock.service';
+import { supplierPayablesService } from '../services/supplier-payables.service';
+import { receivablesAgingService } from '../services/receivables-aging.service';
+
+const AgingQuerySchema = Type.Object({
+    territoryId: Type.Optional(Type.String()),
+    salesRepId: Type.Optional(Type.String()),
+    tierId: Type.Optional(Type.String()),
+    asOf: Type.Optional(Type.String({ format: 'date' })),
+});
+
+const AgingCustomerParamsSchema = Type.Object({ customerId: Type.String() });
+
+const AgingCustomerQuerySchema = Type.Pick(AgingQuerySchema, ['asOf']);
+
+const WorklistQuerySchema = Type.Intersect([
+    AgingQuerySchema,
+    Type.Object({ minDaysOverdue: Type.Optional(Type.String()) }),
+]);
+
+const AssignCollectionsBodySchema = Type.Object({
+    plannedDate: Type.String({ format: 'date' }),
+    // Omit to plan visits for the whole (filtered) worklist
+    customerIds: Type.Optional(Type.Array(Type.String(), { minItems: 1 })),
+    // Sends this rep instead of each customer's own
+    assignTo: Type.Optional(Type.String()),
+    minDaysOverdue: Type.Optional(Type.Integer({ minimum: 1 })),
+    territoryId: Type.Optional(Type.String()),
+    salesRepId: Type.Optional(Type.String()),
+    tierId: Type.Optional(Type.String()),
+});
+
+const NearExpiryQuerySchema = Type.Object({
+    // Look-ahead horizon; lots that already expired are always included
+    days: Type.Optional(Type.Integer({ minimum: 0, maximum: 3650 })),
+    warehouseId: Type.Optional(Type.String({ pattern: '^[0-9a-fA-F-]{36}$' })),
+});
+
+type AgingQuery = Static<typeof AgingQuerySchema>;
+type AgingCustomerQuery = Static<typeof AgingCustomerQuerySchema>;
+type WorklistQuery = Static<typeof WorklistQuerySchema>;
+type AssignCollectionsBody = Static<typeof AssignCollectionsBodySchema>;
+type NearExpiryQuery = Static<typeof NearExpiryQuerySchema>;
 
 export const reportRoutes: FastifyPluginAsync = async (fastify) => {
     // Pre-handler for all report routes - require admin/supervisor role
@@ -98,21 +142,178 @@ export const reportRoutes: FastifyPluginAsync = async (fastify) => {
         return { success: true, data: report };
     });
 
-    // Inventory valuation
-    fastify.get('/inventory-valuation', { preHandler: [reportAuth] }, async (request, reply) => {
+    // Receivables aging by due date (delivery + tier payment terms): current, 1-30, 31-60, 61-90, 90+
+    fastify.get<{ Querystring: AgingQuery }>('/ar-aging', {
+        preHandler: [reportAuth],
+        schema: { querystring: AgingQuerySchema },
+    }, async (request) => {
         const user = request.user!;
 
-        const report = await db.select({
-            id: schema.products.id, name: schema.products.name,
-            stockQuantity: schema.products.stockQuantity, costPrice: schema.products.costPrice,
-            valuation: sql<number>`${schema.products.stockQuantity} * ${schema.products.costPrice}`,
-        }).from(schema.products)
+        const report = await receivablesAgingService.getAging(user.role !== 'super_admin' ? user.tenantId : null, request.query);
+        return { success: true, data: report.rows, summary: report.summary, meta: { asOf: report.asOf } };
+    });
+
+    // Receivables aging as an XLSX workbook (summary and open items)
+    fastify.get<{ Querystring: AgingQuery }>('/ar-aging/export', {
+        preHandler: [reportAuth],
+        schema: { querystring: AgingQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+
+        const workbook = await receivablesAgingService.exportXlsx(user.role !== 'super_admin' ? user.tenantId : null, request.query);
+        const filename = `ar-aging-${request.query.asOf ?? new Date().toISOString().slice(0, 10)}.xlsx`;
+        return reply
+            .header('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+            .header('Content-Disposition', `attachment; filename="${filename}"`)
+            .send(workbook);
+    });
+
+    // Open items (orders and their invoices) behind a customer's aging row
+    fastify.get<{ Params: Static<typeof AgingCustomerParamsSchema>; Querystring: AgingCustomerQuery }>('/ar-aging/customers/:customerId', {
+        preHandler: [reportAuth],
+        schema: { params: AgingCustomerParamsSchema, querystring: AgingCustomerQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        try {
+            const detail = await receivablesAgingService.getCustomerItems(user.tenantId, request.params.customerId, request.query.asOf);
+            return { success: true, data: detail.items, meta: { asOf: detail.asOf } };
+        } catch (error: any) {
+            if (error.message === 'Customer not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            throw error;
+        }
+    });
+
+    // Overdue customers to chase, most overdue first
+    fastify.get<{ Querystring: WorklistQuery }>('/collection-worklist', {
+        preHandler: [reportAuth],
+        schema: { querystring: WorklistQuerySchema },
+    }, async (request) => {
+        const user = request.user!;
+        const { minDaysOverdue, ...filters } = request.query;
+        const parsedDays = parseInt(minDaysOverdue || '1');
+
+        const worklist = await receivablesAgingService.getWorklist(user.tenantId, filters, Number.isNaN(parsedDays) ? 1 : Math.max(1, parsedDays));
+        return { success: true, data: worklist };
+    });
+
+    // Plan collection visits for worklist customers with their reps
+    fastify.post<{ Body: AssignCollectionsBody }>('/collection-worklist/assign', {
+        preHandler: [reportAuth],
+        schema: { body: AssignCollectionsBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { plannedDate, customerIds, assignTo, minDaysOverdue, ...filters } = request.body;
+
+        try {
+            const result = await receivablesAgingService.assignCollectionVisits(user.tenantId, {
+                plannedDate, customerIds, assignTo, minDaysOverdue, filters,
+            });
+            return { success: true, data: result };
+        } catch (error: any) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Supplier payables aging (days since the bill date: 0-30, 31-60, 61-90, 90+)
+    fastify.get('/supplier-aging', { preHandler: [reportAuth] }, async (request) => {
+        const user = request.user!;
+
+        const report = await supplierPayablesService.getAging(user.role !== 'super_admin' ? user.tenantId : null);
+        const bucketTotal = (pick: (row: typeof report[number]) => number) =>
+            Math.round(report.reduce((sum, row) => sum + pick(row), 0) * 100) / 100;
+
+        return {
+            success: true,
+            data: report,
+            summary: {
+                current: bucketTotal(row => row.current),
+                days31to60: bucketTotal(row => row.days31to60),
+                days61to90: bucketTotal(row => row.days61to90),
+                over90: bucketTotal(row => row.over90),
+                total: bucketTotal(row => row.total),
+            }
+        };
+    });
+
+    // Inventory valuation (tenant-wide, or a single warehouse via ?warehouseId=)
+    fastify.get('/inventory-valuation', { preHandler: [reportAuth] }, async (request, reply) => {
+        const user = request.user!;
+        const { warehouseId } = request.query as { warehouseId?: string };
+        const tenantCondition = user.role !== 'super_admin' ? eq(schema.products.tenantId, user.tenantId) : sql`true`;
+
+        const report = warehouseId
+            ? await db.select({
+                id: schema.products.id, name: schema.products.name,
+                stockQuantity: schema.warehouseStock.quantity, costPrice: schema.products.costPrice,
+                valuation: sql<number>`${schema.warehouseStock.quantity} * ${schema.products.costPrice}`,
+            }).from(schema.warehouseStock)
+                .innerJoin(schema.products, eq(schema.warehouseStock.productId, schema.products.id))
+                .where(and(
+                    tenantCondition,
+                    eq(schema.warehouseStock.warehouseId, warehouseId),
+                    eq(schema.products.isActive, true)
+                ))
+            : await db.select({
+                id: schema.products.id, name: schema.products.name,
+                stockQuantity: schema.products.stockQuantity, costPrice: schema.products.costPrice,
+                valuation: sql<number>`${schema.products.stockQuantity} * ${schema.products.costPrice}`,
+            }).from(schema.products)
+                .where(and(tenantCondition, eq(schema.products.isActive, true)));
+
+        const byWarehouse = await db.select({
+            warehouseId: schema.warehouses.id, warehouseName: schema.warehouses.name,
+            totalQuantity: sql<number>`COALESCE(SUM(${schema.warehouseStock.quantity}), 0)`,
+            valuation: sql<number>`COALESCE(SUM(${schema.warehouseStock.quantity} * ${schema.products.costPrice}), 0)`,
+        }).from(schema.warehouseStock)
+            .innerJoin(schema.warehouses, eq(schema.warehouseStock.warehouseId, schema.warehouses.id))
+            .innerJoin(schema.products, eq(schema.warehouseStock.productId, schema.products.id))
             .where(and(
-                user.role !== 'super_admin' ? eq(schema.products.tenantId, user.tenantId) : sql`true`,
-                eq(schema.products.isActive, true)
-            ));
+                tenantCondition,
+                eq(schema.products.isActive, true),
+                warehouseId ? eq(schema.warehouseStock.warehouseId, warehouseId) : sql`true`
+            ))
+            .groupBy(schema.warehouses.id, schema.warehouses.name);
 
-        return { success: true, data: report };
+        return { success: true, data: report, summary: { byWarehouse } };
+    });
+
+    // Lots expiring within N days (default 30), expired lots included
+    fastify.get<{ Querystring: NearExpiryQuery }>('/near-expiry', {
+        preHandler: [reportAuth],
+        schema: { querystring: NearExpiryQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        const { days: horizon = 30, warehouseId } = request.query;
+
+        if (warehouseId) {
+            try {
+                await stockService.resolveWarehouseId(db, user.tenantId, warehouseId);
+            } catch (error: any) {
+                if (error.message !== 'Warehouse not found') throw error;
+                return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            }
+        }
+
+        const lots = await stockService.getNearExpiryLots(db, user.tenantId, horizon, warehouseId);
+        const report = lots.map(lot => ({
+            ...lot,
+            isExpired: lot.daysLeft < 0,
+            valuation: lot.quantity * Number(lot.costPrice || 0),
+        }));
+
+        const expired = report.filter(r => r.isExpired);
+        return {
+            success: true,
+            data: report,
+            summary: {
+                days: horizon,
+                totalLots: report.length,
+                totalQuantity: report.reduce((sum, r) => sum + r.quantity, 0),
+                totalValuation: report.reduce((sum, r) => sum + r.valuation, 0),
+                expiredLots: expired.length,
+                expiredValuation: expired.reduce((sum, r) => sum + r.valuation, 0),
+            }
+        };
     });
 
     // Visit duration analytics by sales rep
@@ -2,6 +2,9 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, and, sql, desc } from 'drizzle-orm';
+import { stockService } from '../services/stock.service';
+import { creditNoteService } from '../services/credit-note.service';
+import { generalLedgerService } from '../services/general-ledger.service';
 
 // Schemas
 const ListReturnsQuerySchema = Type.Object({
@@ -25,12 +28,34 @@ const ProcessReturnBodySchema = Type.Object({
     condition: Type.String(),
     restock: Type.Boolean(),
     refundAmount: Type.Optional(Type.Number({ minimum: 0 })),
+    // How the refund is settled: account credit (default) or cash paid back
+    settlement: Type.Optional(Type.Union([Type.Literal('credit'), Type.Literal('cash_refund')])),
+    paymentMethodId: Type.Optional(Type.String()),
+    creditNoteNotes: Type.Optional(Type.String()),
+    // Warehouse to restock into (defaults to the order's warehouse)
+    warehouseId: Type.Optional(Type.String()),
 });
 
 type ListReturnsQuery = Static<typeof ListReturnsQuerySchema>;
 type CreateReturnBody = Static<typeof CreateReturnBodySchema>;
 type ProcessReturnBody = Static<typeof ProcessReturnBodySchema>;
 
+// Expected failures of processing a return; anything else is a server error
+const PROCESS_NOT_FOUND = ['Return not found', 'Order not found', 'Order item not found', 'Payment method not found', 'Warehouse not found'];
+const PROCESS_BAD_REQUEST = [
+    'Return already processed',
+    'Return already has a credit note',
+    'A payment method is required for cash refunds',
+    'Refund exceeds the value of the returned items',
+    'No account holds the',
+];
+
+const processError = (message: string): [number, string] | null => {
+    if (PROCESS_NOT_FOUND.includes(message)) return [404, 'NOT_FOUND'];
+    if (PROCESS_BAD_REQUEST.some(known => message.startsWith(known))) return [400, 'BAD_REQUEST'];
+    return null;
+};
+
 export const returnRoutes: FastifyPluginAsync = async (fastify) => {
     // List returns
     fastify.get<{ Querystring: ListReturnsQuery }>('/', {
@@ -103,49 +128,48 @@ export const returnRoutes: FastifyPluginAsync = async (fastify) => {
         try {
             const result = await db.transaction(async (tx) => {
                 const [returnRecord] = await tx.select().from(schema.returns)
-                    .where(and(eq(schema.returns.id, id), eq(schema.returns.tenantId, user.tenantId))).limit(1);
+                    .where(and(eq(schema.returns.id, id), eq(schema.returns.tenantId, user.tenantId)))
+                    .for('update').limit(1);
                 if (!returnRecord) throw new Error('Return not found');
+                if (returnRecord.processedAt) throw new Error('Return already processed');
+
+                // Returns refused at delivery were already credited on the order
+                const alreadyCredited = Number(returnRecord.refundAmount || 0) > 0;
+                // ...and never reached the books as sold: delivery costs only what the customer kept
+                const createdAtDelivery = returnRecord.reason === 'customer_refused' && returnRecord.refundAmount != null;
 
                 const [updatedReturn] = await tx.update(schema.returns).set({
-                    condition: body.condition as any, restock: body.restock, refundAmount: body.refundAmount?.toString(),
+                    condition: body.condition as any, restock: body.restock,
+                    refundAmount: alreadyCredited ? returnRecord.refundAmount : body.refundAmount?.toString(),
                     processedBy: user.id, processedAt: new Date(), updatedAt: new Date(),
                 }).where(eq(schema.returns.id, id)).returning();
 
-                // Handle refund
-                if (body.refundAmount && body.refundAmount > 0) {
-                    const [order] = await tx.select({ id: schema.orders.id, customerId: schema.orders.customerId, totalAmount: schema.orders.totalAmount })
-                        .from(schema.orders).where(eq(schema.orders.id, returnRecord.orderId)).limit(1);
-                    if (order) {
-                        const newTotal = Math.max(0, Number(order.totalAmount) - body.refundAmount);
-                        await tx.update(schema.orders).set({ totalAmount: newTotal.toString(), updatedAt: new Date() }).where(eq(schema.orders.id, order.id));
-
-                        const [customer] = await tx.select({ creditBalance: schema.customers.creditBalance })
-                            .from(schema.customers).where(eq(schema.customers.id, order.customerId)).limit(1);
-                        if (customer) {
-                            const newCredit = Number(customer.creditBalance || 0) + body.refundAmount;
-                            await tx.update(schema.customers).set({ creditBalance: newCredit.toString(), updatedAt: new Date() })
-                                .where(eq(schema.customers.id, order.customerId));
-                        }
-                    }
-                }
+                // Refunds are settled through a credit note
+                const creditNote = !alreadyCredited && body.refundAmount
+                    ? await creditNoteService.createForReturn(tx, returnRecord, {
+                        amount: body.refundAmount, settlement: body.settlement,
+                        paymentMethodId: body.paymentMethodId, notes: body.creditNoteNotes,
+                    }, user)
+                    : null;
 
                 // Handle restock
                 if (body.restock && returnRecord.productId) {
-                    const [product] = await tx.select({ stockQuantity: schema.products.stockQuantity })
+                    const [product] = await tx.select({ id: schema.products.id })
                         .from(schema.products).where(eq(schema.products.id, returnRecord.productId)).limit(1);
                     if (product) {
-                        const quantityBefore = product.stockQuantity || 0;
-                        const quantityAfter = quantityBefore + returnRecord.qtyReturned;
-                        await tx.update(schema.products).set({ stockQuantity: quantityAfter }).where(eq(schema.products.id, returnRecord.productId));
-                        await tx.insert(schema.stockMovements).values({
-                            tenantId: user.tenantId, productId: returnRecord.productId, movementType: 'return',
-                            quantity: returnRecord.qtyReturned, quantityBefore, quantityAfter,
+                        const [order] = await tx.select({ warehouseId: schema.orders.warehouseId })
+                            .from(schema.orders).where(eq(schema.orders.id, returnRecord.orderId)).limit(1);
+                        const warehouseId = await stockService.resolveWarehouseId(tx, user.tenantId, body.warehouseId || order?.warehouseId);
+                        await stockService.adjustQuantity(tx, {
+                            tenantId: user.tenantId, warehouseId, productId: returnRecord.productId,
+                            change: returnRecord.qtyReturned, movementType: 'return',
                             referenceType: 'return', referenceId: returnRecord.id, createdBy: user.id, notes: `Return processed: ${body.condition}`,
                         });
+                        if (!createdAtDelivery) await generalLedgerService.postReturnRestock(tx, returnRecord, user.id);
                     }
                 }
 
-                return updatedReturn;
+                return { ...updatedReturn, creditNote };
             });
 
             // Telegram notification
@@ -164,7 +188,7 @@ export const returnRoutes: FastifyPluginAsync = async (fastify) => {
                         for (const admin of admins) {
                             notifyReturnProcessed(admin.telegramChatId, {
                                 orderNumber: orderInfo[0].orderNumber, customerName: orderInfo[0].customerName || 'Unknown',
-                                amount: body.refundAmount || 0, currency: orderInfo[0].currency || 'USD', reason: result.reason || undefined,
+                                amount: Number(result.refundAmount || 0), currency: orderInfo[0].currency || 'USD', reason: result.reason || undefined,
                             });
                         }
                     }
@@ -173,8 +197,10 @@ export const returnRoutes: FastifyPluginAsync = async (fastify) => {
 
             return { success: true, data: result };
         } catch (error: any) {
-            if (error.message === 'Return not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
-            throw error;
+            const mapped = processError(error.message);
+            if (!mapped) throw error;
+            const [status, code] = mapped;
+            return reply.code(status).send({ success: false, error: { code, message: error.message } });
         }
     });
 };
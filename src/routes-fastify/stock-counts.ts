@@ -0,0 +1,522 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { db, schema } from '../db';
+import { eq, and, sql, desc, isNull } from 'drizzle-orm';
+import { logAudit } from '../lib/audit';
+import { logScan } from '../services/scan-logging.service';
+import { stockService } from '../services/stock.service';
+import { stockCountService } from '../services/stock-count.service';
+import { productUnitService } from '../services/product-unit.service';
+
+// Schemas
+const CountIdParamsSchema = Type.Object({ id: Type.String() });
+
+const CountItemParamsSchema = Type.Object({ id: Type.String(), itemId: Type.String() });
+
+const ListCountsQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    status: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String()),
+});
+
+const CreateCountBodySchema = Type.Object({
+    name: Type.String({ minLength: 1, maxLength: 255 }),
+    warehouseId: Type.Optional(Type.String()),
+    scope: Type.Union([Type.Literal('full'), Type.Literal('category'), Type.Literal('bin'), Type.Literal('cycle')]),
+    categoryId: Type.Optional(Type.String()),
+    binId: Type.Optional(Type.String()),
+    abcClass: Type.Optional(Type.Union([Type.Literal('A'), Type.Literal('B'), Type.Literal('C')])),
+    // Cycle counts only: how many products of the class to count this round
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+    // Blind counts hide expected quantities from counters
+    isBlind: Type.Optional(Type.Boolean()),
+    notes: Type.Optional(Type.String()),
+});
+
+const ScanCountBodySchema = Type.Object({
+    barcode: Type.String({ minLength: 1 }),
+    quantity: Type.Optional(Type.Integer({ minimum: 1 })),
+});
+
+const UpdateCountItemBodySchema = Type.Object({
+    countedQty: Type.Union([Type.Integer({ minimum: 0 }), Type.Null()]),
+    notes: Type.Optional(Type.String()),
+});
+
+const SubmitCountBodySchema = Type.Object({
+    // Record products nobody counted as 0 instead of leaving them out of the adjustment
+    zeroUncounted: Type.Optional(Type.Boolean()),
+});
+
+const RejectCountBodySchema = Type.Object({
+    reason: Type.String({ minLength: 1 }),
+});
+
+type ListCountsQuery = Static<typeof ListCountsQuerySchema>;
+type CreateCountBody = Static<typeof CreateCountBodySchema>;
+type ScanCountBody = Static<typeof ScanCountBodySchema>;
+type UpdateCountItemBody = Static<typeof UpdateCountItemBodySchema>;
+type SubmitCountBody = Static<typeof SubmitCountBodySchema>;
+type RejectCountBody = Static<typeof RejectCountBodySchema>;
+
+const countRoles = ['tenant_admin', 'super_admin', 'supervisor', 'warehouse'];
+const approverRoles = ['tenant_admin', 'super_admin', 'supervisor'];
+
+export const stockCountRoutes: FastifyPluginAsync = async (fastify) => {
+    const getCount = async (tx: any, tenantId: string, id: string, lock = false) => {
+        let query = tx.select().from(schema.stockCounts)
+            .where(and(eq(schema.stockCounts.id, id), eq(schema.stockCounts.tenantId, tenantId)));
+        if (lock) query = query.for('update');
+        const [count] = await query.limit(1);
+        return count as typeof schema.stockCounts.$inferSelect | undefined;
+    };
+
+    // List stock counts
+    fastify.get<{ Querystring: ListCountsQuery }>('/', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ListCountsQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!countRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+        const { page: pageStr = '1', limit: limitStr = '20', status, warehouseId } = request.query;
+        const page = parseInt(pageStr);
+        const limit = parseInt(limitStr);
+        const offset = (page - 1) * limit;
+
+        const conditions: any[] = [eq(schema.stockCounts.tenantId, user.tenantId)];
+        if (status) conditions.push(eq(schema.stockCounts.status, status as any));
+        if (warehouseId) conditions.push(eq(schema.stockCounts.warehouseId, warehouseId));
+
+        const counts = await db.select({
+            id: schema.stockCounts.id,
+            name: schema.stockCounts.name,
+            status: schema.stockCounts.status,
+            scope: schema.stockCounts.scope,
+            scopeAbcClass: schema.stockCounts.scopeAbcClass,
+            isBlind: schema.stockCounts.isBlind,
+            warehouseId: schema.stockCounts.warehouseId,
+            warehouseName: schema.warehouses.name,
+            startedAt: schema.stockCounts.startedAt,
+            submittedAt: schema.stockCounts.submittedAt,
+            completedAt: schema.stockCounts.completedAt,
+            createdByName: schema.users.name,
+            totalItems: sql<number>`(SELECT count(*) FROM ${schema.stockCountItems} WHERE ${schema.stockCountItems.countId} = ${schema.stockCounts.id})`,
+            countedItems: sql<number>`(SELECT count(*) FROM ${schema.stockCountItems} WHERE ${schema.stockCountItems.countId} = ${schema.stockCounts.id} AND ${schema.stockCountItems.countedQty} IS NOT NULL)`,
+        }).from(schema.stockCounts)
+            .leftJoin(schema.warehouses, eq(schema.stockCounts.warehouseId, schema.warehouses.id))
+            .leftJoin(schema.users, eq(schema.stockCounts.createdByUserId, schema.users.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.stockCounts.startedAt))
+            .limit(limit)
+            .offset(offset);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.stockCounts)
+            .where(and(...conditions));
+
+        return {
+            success: true,
+            data: counts.map(c => ({ ...c, totalItems: Number(c.totalItems), countedItems: Number(c.countedItems) })),
+            meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) },
+        };
+    });
+
+    // Open a count: snapshots expected quantities for the products in scope
+    fastify.post<{ Body: CreateCountBody }>('/', {
+        preHandler: [fastify.authenticate],
+        schema: { body: CreateCountBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!countRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const body = request.body;
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                const warehouseId = await stockService.resolveWarehouseId(tx, user.tenantId, body.warehouseId);
+
+                if (body.scope === 'bin' && body.binId) {
+                    const [bin] = await tx.select({ id: schema.warehouseBins.id }).from(schema.warehouseBins)
+                        .where(and(eq(schema.warehouseBins.id, body.binId), eq(schema.warehouseBins.warehouseId, warehouseId)))
+                        .limit(1);
+                    if (!bin) throw new Error('Bin not found in this warehouse');
+                }
+
+                const lines = await stockCountService.buildLines(tx, {
+                    tenantId: user.tenantId,
+                    warehouseId,
+                    scope: body.scope,
+                    categoryId: body.categoryId,
+                    binId: body.binId,
+                    abcClass: body.abcClass,
+                    limit: body.limit,
+                });
+                if (lines.length === 0) throw new Error('No products match this count scope');
+
+                const [count] = await tx.insert(schema.stockCounts).values({
+                    tenantId: user.tenantId,
+                    name: body.name,
+                    warehouseId,
+                    scope: body.scope,
+                    scopeCategoryId: body.scope === 'category' ? body.categoryId : null,
+                    scopeBinId: body.scope === 'bin' ? body.binId : null,
+                    scopeAbcClass: body.scope === 'cycle' ? body.abcClass : null,
+                    isBlind: body.isBlind ?? true,
+                    createdByUserId: user.id,
+                    notes: body.notes,
+                }).returning();
+
+                await tx.insert(schema.stockCountItems).values(lines.map(line => ({
+                    countId: count.id,
+                    productId: line.productId,
+                    binId: line.binId,
+                    expectedQty: line.expectedQty,
+                })));
+
+                return { ...count, totalItems: lines.length };
+            });
+
+            await logAudit('stock_count.create', { name: result.name, scope: result.scope, totalItems: result.totalItems }, user.id, user.tenantId, result.id, 'stock_count');
+            return { success: true, data: result };
+        } catch (error: any) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Count details. Expected quantities and variances stay hidden from counters
+    // while a blind count is in progress.
+    fastify.get<{ Params: Static<typeof CountIdParamsSchema> }>('/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CountIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!countRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const [count] = await db.select({
+            id: schema.stockCounts.id,
+            name: schema.stockCounts.name,
+            status: schema.stockCounts.status,
+            scope: schema.stockCounts.scope,
+            scopeAbcClass: schema.stockCounts.scopeAbcClass,
+            isBlind: schema.stockCounts.isBlind,
+            warehouseId: schema.stockCounts.warehouseId,
+            warehouseName: schema.warehouses.name,
+            startedAt: schema.stockCounts.startedAt,
+            submittedAt: schema.stockCounts.submittedAt,
+            completedAt: schema.stockCounts.completedAt,
+            notes: schema.stockCounts.notes,
+        }).from(schema.stockCounts)
+            .leftJoin(schema.warehouses, eq(schema.stockCounts.warehouseId, schema.warehouses.id))
+            .where(and(eq(schema.stockCounts.id, request.params.id), eq(schema.stockCounts.tenantId, user.tenantId)))
+            .limit(1);
+
+        if (!count) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Stock count not found' } });
+        }
+
+        const items = await db.select({
+            id: schema.stockCountItems.id,
+            productId: schema.stockCountItems.productId,
+            productName: schema.products.name,
+            sku: schema.products.sku,
+            barcode: schema.products.barcode,
+            binId: schema.stockCountItems.binId,
+            binCode: schema.warehouseBins.code,
+            expectedQty: schema.stockCountItems.expectedQty,
+            countedQty: schema.stockCountItems.countedQty,
+            variance: schema.stockCountItems.variance,
+            scannedAt: schema.stockCountItems.scannedAt,
+            adjustmentId: schema.stockCountItems.adjustmentId,
+            notes: schema.stockCountItems.notes,
+            costPrice: schema.products.costPrice,
+        }).from(schema.stockCountItems)
+            .innerJoin(schema.products, eq(schema.stockCountItems.productId, schema.products.id))
+            .leftJoin(schema.warehouseBins, eq(schema.stockCountItems.binId, schema.warehouseBins.id))
+            .where(eq(schema.stockCountItems.countId, count.id))
+            .orderBy(schema.warehouseBins.code, schema.products.name);
+
+        const hideExpected = count.isBlind && count.status === 'in_progress';
+        const counted = items.filter(i => i.countedQty != null);
+        const withVariance = counted.filter(i => i.countedQty! - i.expectedQty !== 0);
+
+        return {
+            success: true,
+            data: {
+                ...count,
+                canApprove: approverRoles.includes(user.role),
+                items: items.map(({ costPrice, ...item }) => hideExpected
+                    ? { ...item, expectedQty: null, variance: null }
+                    : {
+                        ...item,
+                        variance: item.countedQty != null ? item.countedQty - item.expectedQty : null,
+                        varianceValue: item.countedQty != null ? (item.countedQty - item.expectedQty) * Number(costPrice || 0) : null,
+                    }),
+                summary: {
+                    totalItems: items.length,
+                    countedItems: counted.length,
+                    ...(hideExpected ? {} : {
+                        itemsWithVariance: withVariance.length,
+                        netVariance: withVariance.reduce((sum, i) => sum + (i.countedQty! - i.expectedQty), 0),
+                        varianceValue: withVariance.reduce((sum, i) => sum + (i.countedQty! - i.expectedQty) * Number(i.costPrice || 0), 0),
+                    }),
+                },
+            },
+        };
+    });
+
+    // Scan a product: adds to its counted quantity
+    fastify.post<{ Params: Static<typeof CountIdParamsSchema>; Body: ScanCountBody }>('/:id/scan', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CountIdParamsSchema, body: ScanCountBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!countRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { barcode, quantity = 1 } = request.body;
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                const count = await getCount(tx, user.tenantId, request.params.id, true);
+                if (!count) throw new Error('Stock count not found');
+                if (count.status !== 'in_progress') throw new Error(`Cannot count with status: ${count.status}`);
+
+                // A pack barcode counts a whole pack of base units
+                const match = await productUnitService.resolveBarcode(user.tenantId, barcode, tx);
+                const [item] = match ? await tx.select({
+                    id: schema.stockCountItems.id,
+                    productId: schema.stockCountItems.productId,
+                    productName: schema.products.name,
+                    countedQty: schema.stockCountItems.countedQty,
+                }).from(schema.stockCountItems)
+                    .innerJoin(schema.products, eq(schema.stockCountItems.productId, schema.products.id))
+                    .where(and(
+                        eq(schema.stockCountItems.countId, count.id),
+                        eq(schema.stockCountItems.productId, match.productId)
+                    ))
+                    .limit(1) : [];
+                if (!match || !item) throw new Error('Product is not part of this count');
+
+                const counted = quantity * match.factor;
+                const countedQty = (item.countedQty || 0) + counted;
+                await tx.update(schema.stockCountItems)
+                    .set({ countedQty, scannedAt: new Date(), countedByUserId: user.id })
+                    .where(eq(schema.stockCountItems.id, item.id));
+
+                return { countId: count.id, itemId: item.id, productId: item.productId, productName: item.productName, counted, countedQty };
+            });
+
+            await logScan({
+                tenantId: user.tenantId,
+                userId: user.id,
+                productId: result.productId,
+                action: 'counting',
+                barcode,
+                details: { countId: result.countId, quantity: result.counted, countedQty: result.countedQty },
+            });
+
+            return { success: true, data: result };
+        } catch (error: any) {
+            if (error.message === 'Stock count not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            if (error.message === 'Product is not part of this count') return reply.code(400).send({ success: false, error: { code: 'ITEM_NOT_IN_COUNT', message: error.message } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Enter (or clear, with null) the counted quantity of a line
+    fastify.patch<{ Params: Static<typeof CountItemParamsSchema>; Body: UpdateCountItemBody }>('/:id/items/:itemId', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CountItemParamsSchema, body: UpdateCountItemBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!countRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const count = await getCount(db, user.tenantId, request.params.id);
+        if (!count) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Stock count not found' } });
+        }
+        if (count.status !== 'in_progress') {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Cannot count with status: ${count.status}` } });
+        }
+
+        const { countedQty, notes } = request.body;
+        const [item] = await db.update(schema.stockCountItems)
+            .set({
+                countedQty,
+                scannedAt: countedQty == null ? null : new Date(),
+                countedByUserId: countedQty == null ? null : user.id,
+                ...(notes !== undefined ? { notes } : {}),
+            })
+            .where(and(eq(schema.stockCountItems.id, request.params.itemId), eq(schema.stockCountItems.countId, count.id)))
+            .returning({
+                id: schema.stockCountItems.id,
+                productId: schema.stockCountItems.productId,
+                countedQty: schema.stockCountItems.countedQty,
+                notes: schema.stockCountItems.notes,
+            });
+
+        if (!item) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Count item not found' } });
+        }
+
+        return { success: true, data: item };
+    });
+
+    // Finish counting and hand the count over for approval
+    fastify.post<{ Params: Static<typeof CountIdParamsSchema>; Body: SubmitCountBody }>('/:id/submit', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CountIdParamsSchema, body: SubmitCountBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!countRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { zeroUncounted = false } = request.body || {};
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                const count = await getCount(tx, user.tenantId, request.params.id, true);
+                if (!count) throw new Error('Stock count not found');
+                if (count.status !== 'in_progress') throw new Error(`Cannot submit count with status: ${count.status}`);
+
+                if (zeroUncounted) {
+                    await tx.update(schema.stockCountItems)
+                        .set({ countedQty: 0, scannedAt: new Date(), countedByUserId: user.id })
+                        .where(and(eq(schema.stockCountItems.countId, count.id), isNull(schema.stockCountItems.countedQty)));
+                }
+
+                await tx.update(schema.stockCountItems)
+                    .set({ variance: sql`${schema.stockCountItems.countedQty} - ${schema.stockCountItems.expectedQty}` })
+                    .where(eq(schema.stockCountItems.countId, count.id));
+
+                const [updated] = await tx.update(schema.stockCounts)
+                    .set({ status: 'submitted', submittedAt: new Date(), submittedByUserId: user.id })
+                    .where(eq(schema.stockCounts.id, count.id))
+                    .returning();
+                return updated;
+            });
+
+            await logAudit('stock_count.submit', { name: result.name, zeroUncounted }, user.id, user.tenantId, result.id, 'stock_count');
+            return { success: true, data: result };
+        } catch (error: any) {
+            if (error.message === 'Stock count not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Supervisor approval: posts variances as 'count' stock adjustments
+    fastify.post<{ Params: Static<typeof CountIdParamsSchema> }>('/:id/approve', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CountIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!approverRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                const count = await getCount(tx, user.tenantId, request.params.id, true);
+                if (!count) throw new Error('Stock count not found');
+                if (count.status !== 'submitted') throw new Error(`Cannot approve count with status: ${count.status}`);
+
+                const adjustments = await stockCountService.approve(tx, count, user.id);
+                return { count, adjustments };
+            });
+
+            await logAudit('stock_count.approve', {
+                name: result.count.name,
+                adjustments: result.adjustments.length,
+            }, user.id, user.tenantId, result.count.id, 'stock_count');
+
+            return {
+                success: true,
+                data: {
+                    id: result.count.id,
+                    status: 'completed',
+                    adjustments: result.adjustments.map(a => ({
+                        id: a.id,
+                        adjustmentNumber: a.adjustmentNumber,
+                        productId: a.productId,
+                        qtyBefore: a.qtyBefore,
+                        qtyAfter: a.qtyAfter,
+                    })),
+                },
+            };
+        } catch (error: any) {
+            if (error.message === 'Stock count not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Send a submitted count back for recounting
+    fastify.post<{ Params: Static<typeof CountIdParamsSchema>; Body: RejectCountBody }>('/:id/reject', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CountIdParamsSchema, body: RejectCountBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!approverRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const count = await getCount(db, user.tenantId, request.params.id);
+        if (!count) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Stock count not found' } });
+        }
+        if (count.status !== 'submitted') {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Cannot reject count with status: ${count.status}` } });
+        }
+
+        const note = `Returned for recount: ${request.body.reason}`;
+        const [updated] = await db.update(schema.stockCounts)
+            .set({
+                status: 'in_progress',
+                submittedAt: null,
+                submittedByUserId: null,
+                notes: count.notes ? `${count.notes}\n${note}` : note,
+            })
+            .where(eq(schema.stockCounts.id, count.id))
+            .returning();
+
+        await logAudit('stock_count.reject', { name: count.name, reason: request.body.reason }, user.id, user.tenantId, count.id, 'stock_count');
+        return { success: true, data: updated };
+    });
+
+    // Cancel a count that has not been posted
+    fastify.post<{ Params: Static<typeof CountIdParamsSchema> }>('/:id/cancel', {
+        preHandler: [fastify.authenticate],
+        schema: { params: CountIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!approverRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const count = await getCount(db, user.tenantId, request.params.id);
+        if (!count) {
+            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Stock count not found' } });
+        }
+        if (!['in_progress', 'submitted'].includes(count.status)) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Cannot cancel count with status: ${count.status}` } });
+        }
+
+        const [updated] = await db.update(schema.stockCounts)
+            .set({ status: 'cancelled', completedAt: new Date() })
+            .where(eq(schema.stockCounts.id, count.id))
+            .returning();
+
+        await logAudit('stock_count.cancel', { name: count.name }, user.id, user.tenantId, count.id, 'stock_count');
+        return { success: true, data: updated };
+    });
+};
@@ -22,6 +22,9 @@ const MasterProductBodySchema = Type.Object({
     category: Type.Optional(Type.String()),
     description: Type.Optional(Type.String()),
     imageUrl: Type.Optional(Type.String()),
+    // Variants of one family share familyName and differ in variantAttributes ({ size: "1L" })
+    familyName: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    variantAttributes: Type.Optional(Type.Union([Type.Record(Type.String(), Type.String()), Type.Null()])),
 });
 
 const MasterProductUpdateSchema = Type.Object({
@@ -31,6 +34,8 @@ const MasterProductUpdateSchema = Type.Object({
     category: Type.Optional(Type.String()),
     description: Type.Optional(Type.String()),
     imageUrl: Type.Optional(Type.String()),
+    familyName: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    variantAttributes: Type.Optional(Type.Union([Type.Record(Type.String(), Type.String()), Type.Null()])),
 });
 
 const PlanLimitsBodySchema = Type.Object({
@@ -224,23 +229,23 @@ export const superRoutes: FastifyPluginAsync = async (fastify) => {
     }));
 
     // ========== EMAIL SETTINGS ==========
-    fastify.get('/settings/email', async () => ({ success: true, data: settings.getEmailSettings() }));
+    fastify.get('/settings/email', async () => ({ success: true, data: settings.maskSecretSettings('email', settings.getEmailSettings()) }));
 
     fastify.put<{ Body: Static<typeof EmailSettingsSchema> }>('/settings/email', {
         schema: { body: EmailSettingsSchema },
     }, async (request) => ({
         success: true,
-        data: settings.updateEmailSettings(request.body),
+        data: settings.maskSecretSettings('email', await settings.updateEmailSettings(settings.withoutMaskedSecrets('email', request.body))),
     }));
 
     // ========== TELEGRAM SETTINGS ==========
-    fastify.get('/settings/telegram', async () => ({ success: true, data: settings.getTelegramSettings() }));
+    fastify.get('/settings/telegram', async () => ({ success: true, data: settings.maskSecretSettings('telegram', settings.getTelegramSettings()) }));
 
     fastify.put<{ Body: Static<typeof TelegramSettingsSchema> }>('/settings/telegram', {
         schema: { body: TelegramSettingsSchema },
     }, async (request) => ({
         success: true,
-        data: settings.updateTelegramSettings(request.body),
+        data: settings.maskSecretSettings('telegram', await settings.updateTelegramSettings(settings.withoutMaskedSecrets('telegram', request.body))),
     }));
 
     // ========== BRANDING SETTINGS ==========
@@ -416,6 +421,7 @@ export const superRoutes: FastifyPluginAsync = async (fastify) => {
         success: true,
         data: [
             { name: 'overdue-debt', description: 'Send overdue debt notifications to admins' },
+            { name: 'near-expiry', description: 'Send near-expiry stock lot alerts to admins' },
             { name: 'subscription-expiration', description: 'Send subscription expiring notifications' },
             { name: 'customer-payment-reminder', description: 'Send payment reminders to customers' },
             { name: 'follow-up-reminders', description: 'Send follow-up reminders to sales representatives' },
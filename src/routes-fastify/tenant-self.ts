@@ -2,6 +2,15 @@ import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, count, and, gte, lte, sql } from 'drizzle-orm';
+import {
+    getPaymentProvider,
+    getTenantProviderConfigs,
+    isProviderConfigured,
+    maskProviderCredentials,
+    saveTenantProviderConfig,
+} from '../lib/payment-providers';
+import { maskSecret, isMaskedSecret } from '../lib/secrets';
+import type { ExportFormat } from '../lib/tenant-export';
 
 // Schemas
 const UpdateProfileBodySchema = Type.Object({
@@ -22,9 +31,13 @@ const UpdateSettingsBodySchema = Type.Object({
     defaultTaxRate: Type.Optional(Type.Union([Type.Number(), Type.String()])),
     orderNumberPrefix: Type.Optional(Type.String()),
     invoiceNumberPrefix: Type.Optional(Type.String()),
+    invoiceIssueOn: Type.Optional(Type.Union([Type.Literal('delivery'), Type.Literal('approval')])),
+    creditNoteApprovalLimit: Type.Optional(Type.Union([Type.Number({ minimum: 0 }), Type.Null()])),
     defaultPaymentTerms: Type.Optional(Type.Union([Type.Number(), Type.String()])),
     yandexGeocoderApiKey: Type.Optional(Type.String()),
     openWeatherApiKey: Type.Optional(Type.String()),
+    proofOfDeliveryRequired: Type.Optional(Type.Boolean()),
+    unreconciledCashLimit: Type.Optional(Type.Union([Type.Number({ minimum: 0 }), Type.Null()])),
 });
 
 const UpdateTelegramBodySchema = Type.Object({
@@ -36,11 +49,11 @@ const ValidateTelegramBodySchema = Type.Object({ botToken: Type.String() });
 
 const UpdatePaymentSettingsBodySchema = Type.Object({
     paymentPortalEnabled: Type.Optional(Type.Boolean()),
-    clickMerchantId: Type.Optional(Type.String()),
-    clickServiceId: Type.Optional(Type.String()),
-    clickSecretKey: Type.Optional(Type.String()),
-    paymeMerchantId: Type.Optional(Type.String()),
-    paymeSecretKey: Type.Optional(Type.String()),
+    providers: Type.Optional(Type.Array(Type.Object({
+        name: Type.String(),
+        isEnabled: Type.Optional(Type.Boolean()),
+        credentials: Type.Optional(Type.Record(Type.String(), Type.String({ maxLength: 500 }))),
+    }))),
 });
 
 type UpdateProfileBody = Static<typeof UpdateProfileBodySchema>;
@@ -105,8 +118,8 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
         if (body.taxId !== undefined) updates.taxId = body.taxId;
         if (body.logo !== undefined) updates.logo = body.logo;
 
-        const [updated] = await db.update(schema.tenants).set(updates).where(eq(schema.tenants.id, user.tenantId)).returning();
-        return { success: true, data: updated };
+        await db.update(schema.tenants).set(updates).where(eq(schema.tenants.id, user.tenantId));
+        return { success: true, data: { updated: true } };
     });
 
     // Get business settings
@@ -115,8 +128,10 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
         const [tenant] = await db.select({
             currency: schema.tenants.currency, timezone: schema.tenants.timezone, defaultTaxRate: schema.tenants.defaultTaxRate,
             orderNumberPrefix: schema.tenants.orderNumberPrefix, invoiceNumberPrefix: schema.tenants.invoiceNumberPrefix,
+            invoiceIssueOn: schema.tenants.invoiceIssueOn, creditNoteApprovalLimit: schema.tenants.creditNoteApprovalLimit,
             defaultPaymentTerms: schema.tenants.defaultPaymentTerms, yandexGeocoderApiKey: schema.tenants.yandexGeocoderApiKey,
-            openWeatherApiKey: schema.tenants.openWeatherApiKey,
+            openWeatherApiKey: schema.tenants.openWeatherApiKey, proofOfDeliveryRequired: schema.tenants.proofOfDeliveryRequired,
+            unreconciledCashLimit: schema.tenants.unreconciledCashLimit,
         }).from(schema.tenants).where(eq(schema.tenants.id, user.tenantId)).limit(1);
 
         return {
@@ -124,8 +139,11 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
                 currency: tenant?.currency ?? 'UZS', timezone: tenant?.timezone ?? 'Asia/Tashkent',
                 defaultTaxRate: parseFloat(String(tenant?.defaultTaxRate ?? '0')) || 0,
                 orderNumberPrefix: tenant?.orderNumberPrefix ?? 'ORD-', invoiceNumberPrefix: tenant?.invoiceNumberPrefix ?? 'INV-',
-                defaultPaymentTerms: tenant?.defaultPaymentTerms ?? 7, yandexGeocoderApiKey: tenant?.yandexGeocoderApiKey ?? '',
-                openWeatherApiKey: tenant?.openWeatherApiKey ?? '',
+                invoiceIssueOn: tenant?.invoiceIssueOn ?? 'delivery',
+                creditNoteApprovalLimit: tenant?.creditNoteApprovalLimit != null ? Number(tenant.creditNoteApprovalLimit) : null,
+                defaultPaymentTerms: tenant?.defaultPaymentTerms ?? 7, yandexGeocoderApiKey: maskSecret(tenant?.yandexGeocoderApiKey),
+                openWeatherApiKey: maskSecret(tenant?.openWeatherApiKey), proofOfDeliveryRequired: tenant?.proofOfDeliveryRequired ?? false,
+                unreconciledCashLimit: tenant?.unreconciledCashLimit != null ? Number(tenant.unreconciledCashLimit) : null,
             }
         };
     });
@@ -144,12 +162,19 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
         if (body.defaultTaxRate !== undefined) updates.defaultTaxRate = String(body.defaultTaxRate);
         if (body.orderNumberPrefix !== undefined) updates.orderNumberPrefix = body.orderNumberPrefix;
         if (body.invoiceNumberPrefix !== undefined) updates.invoiceNumberPrefix = body.invoiceNumberPrefix;
+        if (body.invoiceIssueOn !== undefined) updates.invoiceIssueOn = body.invoiceIssueOn;
+        if (body.creditNoteApprovalLimit !== undefined) {
+            updates.creditNoteApprovalLimit = body.creditNoteApprovalLimit === null ? null : String(body.creditNoteApprovalLimit);
+        }
         if (body.defaultPaymentTerms !== undefined) updates.defaultPaymentTerms = parseInt(String(body.defaultPaymentTerms)) || 7;
-        if (body.yandexGeocoderApiKey !== undefined) updates.yandexGeocoderApiKey = body.yandexGeocoderApiKey;
-        if (body.openWeatherApiKey !== undefined) updates.openWeatherApiKey = body.openWeatherApiKey;
+        // A masked key is the GET value echoed back unchanged
+        if (body.yandexGeocoderApiKey !== undefined && !isMaskedSecret(body.yandexGeocoderApiKey)) updates.yandexGeocoderApiKey = body.yandexGeocoderApiKey;
+        if (body.openWeatherApiKey !== undefined && !isMaskedSecret(body.openWeatherApiKey)) updates.openWeatherApiKey = body.openWeatherApiKey;
+        if (body.proofOfDeliveryRequired !== undefined) updates.proofOfDeliveryRequired = body.proofOfDeliveryRequired;
+        if (body.unreconciledCashLimit !== undefined) updates.unreconciledCashLimit = body.unreconciledCashLimit === null ? null : String(body.unreconciledCashLimit);
 
-        const [updated] = await db.update(schema.tenants).set(updates).where(eq(schema.tenants.id, user.tenantId)).returning();
-        return { success: true, data: updated };
+        await db.update(schema.tenants).set(updates).where(eq(schema.tenants.id, user.tenantId));
+        return { success: true, data: { updated: true } };
     });
 
     // Get subscription info
@@ -249,19 +274,23 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
     // Get payment settings
     fastify.get('/payment-settings', { preHandler: [fastify.authenticate, requireTenantAdmin] }, async (request, reply) => {
         const user = request.user!;
-        const [tenant] = await db.select({
-            paymentPortalEnabled: schema.tenants.paymentPortalEnabled, clickMerchantId: schema.tenants.clickMerchantId,
-            clickServiceId: schema.tenants.clickServiceId, clickSecretKey: schema.tenants.clickSecretKey,
-            paymeMerchantId: schema.tenants.paymeMerchantId, paymeSecretKey: schema.tenants.paymeSecretKey,
-        }).from(schema.tenants).where(eq(schema.tenants.id, user.tenantId)).limit(1);
+        const [tenant] = await db.select({ paymentPortalEnabled: schema.tenants.paymentPortalEnabled })
+            .from(schema.tenants).where(eq(schema.tenants.id, user.tenantId)).limit(1);
 
         if (!tenant) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
 
+        // Secrets are only ever returned masked
+        const configs = await getTenantProviderConfigs(user.tenantId);
         return {
             success: true, data: {
-                paymentPortalEnabled: tenant.paymentPortalEnabled || false, clickMerchantId: tenant.clickMerchantId || '',
-                clickServiceId: tenant.clickServiceId || '', clickSecretKey: tenant.clickSecretKey || '',
-                paymeMerchantId: tenant.paymeMerchantId || '', paymeSecretKey: tenant.paymeSecretKey || '',
+                paymentPortalEnabled: tenant.paymentPortalEnabled || false,
+                providers: configs.map(({ provider, isEnabled, credentials }) => ({
+                    name: provider.name, displayName: provider.displayName, isEnabled,
+                    configured: isProviderConfigured(provider, credentials),
+                    fields: provider.credentialFields,
+                    credentials: maskProviderCredentials(provider, credentials),
+                    webhookPath: `/api/payment-gateway/webhook/${provider.name}`,
+                })),
             }
         };
     });
@@ -273,17 +302,23 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
     }, async (request, reply) => {
         const user = request.user!;
         const body = request.body;
-        const updates: any = { updatedAt: new Date() };
 
-        if (body.paymentPortalEnabled !== undefined) updates.paymentPortalEnabled = body.paymentPortalEnabled;
-        if (body.clickMerchantId !== undefined) updates.clickMerchantId = body.clickMerchantId;
-        if (body.clickServiceId !== undefined) updates.clickServiceId = body.clickServiceId;
-        if (body.clickSecretKey !== undefined) updates.clickSecretKey = body.clickSecretKey;
-        if (body.paymeMerchantId !== undefined) updates.paymeMerchantId = body.paymeMerchantId;
-        if (body.paymeSecretKey !== undefined) updates.paymeSecretKey = body.paymeSecretKey;
+        const unknown = (body.providers || []).find(p => !getPaymentProvider(p.name));
+        if (unknown) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: `Unknown payment provider: ${unknown.name}` } });
+        }
+
+        for (const provider of body.providers || []) {
+            await saveTenantProviderConfig(user.tenantId, provider.name, { isEnabled: provider.isEnabled, credentials: provider.credentials });
+        }
 
-        const [updated] = await db.update(schema.tenants).set(updates).where(eq(schema.tenants.id, user.tenantId)).returning();
-        return { success: true, data: updated };
+        if (body.paymentPortalEnabled !== undefined) {
+            await db.update(schema.tenants)
+                .set({ paymentPortalEnabled: body.paymentPortalEnabled, updatedAt: new Date() })
+                .where(eq(schema.tenants.id, user.tenantId));
+        }
+
+        return { success: true, data: { updated: true } };
     });
 
     // ========== DATA EXPORT/IMPORT ==========
@@ -291,7 +326,7 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
     // Create a new export
     fastify.post<{
         Body: {
-            format?: 'json' | 'csv';
+            format?: ExportFormat;
             includeProducts?: boolean;
             includeCustomers?: boolean;
             includeOrders?: boolean;
@@ -372,9 +407,11 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
             // Mark as downloaded
             await markExportDownloaded(id, user.tenantId);
 
-            const contentType = exportRecord.format === 'csv'
+            const contentType = exportRecord.format === 'csv' || exportRecord.format === 'journal_csv'
                 ? 'text/csv'
-                : 'application/json';
+                : exportRecord.format === '1c_xml'
+                    ? 'application/xml'
+                    : 'application/json';
 
             return reply
                 .header('Content-Type', contentType)
@@ -400,7 +437,7 @@ export const tenantSelfRoutes: FastifyPluginAsync = async (fastify) => {
     fastify.put<{
         Body: {
             frequency?: 'never' | 'daily' | 'weekly' | 'monthly';
-            format?: 'json' | 'csv';
+            format?: ExportFormat;
             includeProducts?: boolean;
             includeCustomers?: boolean;
             includeOrders?: boolean;
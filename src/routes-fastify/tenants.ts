@@ -3,6 +3,7 @@ import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
 import { eq, sql, desc, and } from 'drizzle-orm';
 import { logAudit } from '../lib/audit';
+import { maskSecret, isMaskedSecret } from '../lib/secrets';
 
 // Schemas
 const ListTenantsQuerySchema = Type.Object({
@@ -61,6 +62,17 @@ const requireSuperAdmin = async (request: any, reply: any) => {
     }
 };
 
+// Secret columns are only ever returned masked
+const TENANT_SECRET_FIELDS = ['telegramBotToken', 'clickSecretKey', 'paymeSecretKey', 'yandexGeocoderApiKey', 'openWeatherApiKey'] as const;
+
+const maskTenantSecrets = <T extends Record<string, any>>(tenant: T): T => {
+    const masked: Record<string, any> = { ...tenant };
+    for (const field of TENANT_SECRET_FIELDS) {
+        if (field in masked) masked[field] = maskSecret(masked[field]);
+    }
+    return masked as T;
+};
+
 export const tenantRoutes: FastifyPluginAsync = async (fastify) => {
     // List tenants
     fastify.get<{ Querystring: ListTenantsQuery }>('/', {
@@ -88,7 +100,7 @@ export const tenantRoutes: FastifyPluginAsync = async (fastify) => {
         }).from(schema.tenants).where(whereClause).orderBy(desc(schema.tenants.createdAt)).limit(limit).offset(offset);
 
         const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.tenants).where(whereClause);
-        return { success: true, data: tenants, meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) } };
+        return { success: true, data: tenants.map(maskTenantSecrets), meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) } };
     });
 
     // Create tenant
@@ -125,7 +137,7 @@ export const tenantRoutes: FastifyPluginAsync = async (fastify) => {
             notifyNewTenant({ name: newTenant.name, subdomain: newTenant.subdomain, plan: newTenant.plan || 'free' });
         } catch (e) { console.error('Telegram notification error:', e); }
 
-        return { success: true, data: newTenant };
+        return { success: true, data: maskTenantSecrets(newTenant) };
     });
 
     // Get tenant by ID
@@ -143,7 +155,7 @@ export const tenantRoutes: FastifyPluginAsync = async (fastify) => {
         const [{ productCount }] = await db.select({ productCount: sql<number>`count(*)` })
             .from(schema.products).where(eq(schema.products.tenantId, id));
 
-        return { success: true, data: { ...tenant, stats: { userCount: Number(userCount), productCount: Number(productCount) } } };
+        return { success: true, data: { ...maskTenantSecrets(tenant), stats: { userCount: Number(userCount), productCount: Number(productCount) } } };
     });
 
     // Update tenant
@@ -155,6 +167,7 @@ export const tenantRoutes: FastifyPluginAsync = async (fastify) => {
         const body = request.body;
 
         const updateData: any = { ...body, updatedAt: new Date() };
+        if (body.telegramBotToken && isMaskedSecret(body.telegramBotToken)) delete updateData.telegramBotToken;
 
         if (body.subdomain) {
             const [existing] = await db.select({ id: schema.tenants.id }).from(schema.tenants)
@@ -179,6 +192,6 @@ export const tenantRoutes: FastifyPluginAsync = async (fastify) => {
         const [updated] = await db.update(schema.tenants).set(updateData).where(eq(schema.tenants.id, id)).returning();
         if (!updated) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
 
-        return { success: true, data: updated };
+        return { success: true, data: maskTenantSecrets(updated) };
     });
 };
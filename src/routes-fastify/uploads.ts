@@ -1,31 +1,7 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { join } from 'path';
-import sharp from 'sharp';
-import { mkdir } from 'fs/promises';
-
-// Magic bytes for common image formats
-const IMAGE_SIGNATURES: Record<string, number[][]> = {
-    'image/jpeg': [[0xFF, 0xD8, 0xFF]],
-    'image/png': [[0x89, 0x50, 0x4E, 0x47]],
-    'image/gif': [[0x47, 0x49, 0x46, 0x38]],
-    'image/webp': [[0x52, 0x49, 0x46, 0x46]],
-    'image/bmp': [[0x42, 0x4D]],
-};
-
-async function validateMagicBytes(buffer: ArrayBuffer): Promise<boolean> {
-    const bytes = new Uint8Array(buffer);
-    for (const signatures of Object.values(IMAGE_SIGNATURES)) {
-        for (const sig of signatures) {
-            if (sig.every((byte, i) => bytes[i] === byte)) return true;
-        }
-    }
-    return false;
-}
-
-async function ensureDir(path: string) {
-    try { await mkdir(path, { recursive: true }); } catch (err: any) { if (err.code !== 'EEXIST') throw err; }
-}
+import { storeImage, validateMagicBytes, MAX_IMAGE_BYTES } from '../lib/image-upload';
 
 const DeleteParamsSchema = Type.Object({
     tenantId: Type.String(),
@@ -54,63 +30,21 @@ export const uploadRoutes: FastifyPluginAsync = async (fastify) => {
         }
 
         // Validate file size (5MB)
-        if (buffer.length > 5 * 1024 * 1024) {
+        if (buffer.length > MAX_IMAGE_BYTES) {
             return reply.code(400).send({ success: false, error: 'File size exceeds 5MB limit' });
         }
 
         // Validate magic bytes
-        const isValidImage = await validateMagicBytes(buffer.buffer as ArrayBuffer);
-        if (!isValidImage) {
+        if (!validateMagicBytes(buffer)) {
             return reply.code(400).send({ success: false, error: 'Invalid image file format' });
         }
 
-        // Generate unique filename
-        const timestamp = Date.now();
-        const baseName = (data.filename || 'image').replace(/\.[^/.]+$/, '').replace(/[^a-zA-Z0-9-]/g, '-').substring(0, 50);
-        const fileName = `${timestamp}-${baseName}`;
-
         // Tenant isolation
         const tenantId = user.tenantId || 'global';
-        const basePath = join('uploads', tenantId);
-
-        const fullPath = join(basePath, 'full');
-        const mediumPath = join(basePath, 'medium');
-        const thumbPath = join(basePath, 'thumb');
-
-        await ensureDir(fullPath);
-        await ensureDir(mediumPath);
-        await ensureDir(thumbPath);
 
         try {
-            const metadata = await sharp(buffer).metadata();
-
-            // Full size (max 1920px width)
-            const fullFileName = `${fileName}.webp`;
-            await sharp(buffer).resize(1920, null, { withoutEnlargement: true, fit: 'inside' })
-                .webp({ quality: 85 }).toFile(join(fullPath, fullFileName));
-
-            // Medium (400x400)
-            const mediumFileName = `${fileName}.webp`;
-            await sharp(buffer).resize(400, 400, { fit: 'cover', position: 'center' })
-                .webp({ quality: 80 }).toFile(join(mediumPath, mediumFileName));
-
-            // Thumbnail (100x100)
-            const thumbFileName = `${fileName}.webp`;
-            await sharp(buffer).resize(100, 100, { fit: 'cover', position: 'center' })
-                .webp({ quality: 75 }).toFile(join(thumbPath, thumbFileName));
-
-            const fullUrl = `/uploads/${tenantId}/full/${fullFileName}`;
-            const mediumUrl = `/uploads/${tenantId}/medium/${mediumFileName}`;
-            const thumbUrl = `/uploads/${tenantId}/thumb/${thumbFileName}`;
-
-            return {
-                success: true,
-                data: {
-                    url: fullUrl,
-                    thumbnails: { thumb: thumbUrl, medium: mediumUrl },
-                    metadata: { width: metadata.width, height: metadata.height, format: 'webp' }
-                }
-            };
+            const image = await storeImage(buffer, tenantId, data.filename || 'image');
+            return { success: true, data: image };
         } catch (error: any) {
             // Detailed error logging for debugging
             const errorDetails = {
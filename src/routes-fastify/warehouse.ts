@@ -1,12 +1,20 @@
 import { FastifyPluginAsync } from 'fastify';
 import { Type, Static } from '@sinclair/typebox';
 import { db, schema } from '../db';
-import { and, desc, eq, inArray, sql, or } from 'drizzle-orm';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { stockService } from '../services/stock.service';
+import { supplierPayablesService } from '../services/supplier-payables.service';
+import { exchangeRateService } from '../services/exchange-rate.service';
+import { binService, sortByWalkingPath, type BinLocation } from '../services/bin.service';
+import { logScan } from '../services/scan-logging.service';
+import { packingService } from '../services/packing.service';
+import { productUnitService } from '../services/product-unit.service';
 
 const ListTasksQuerySchema = Type.Object({
     page: Type.Optional(Type.String()),
     limit: Type.Optional(Type.String()),
-    status: Type.Optional(Type.String())
+    status: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String())
 });
 
 const TaskIdParamsSchema = Type.Object({ id: Type.String() });
@@ -22,7 +30,8 @@ const ReceivingIdParamsSchema = Type.Object({ id: Type.String() });
 const ListInventoryQuerySchema = Type.Object({
     page: Type.Optional(Type.String()),
     limit: Type.Optional(Type.String()),
-    search: Type.Optional(Type.String())
+    search: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String())
 });
 
 const InventoryIdParamsSchema = Type.Object({ id: Type.String() });
@@ -45,12 +54,15 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
         }
 
-        const { page: pageStr = '1', limit: limitStr = '20', status } = request.query;
+        const { page: pageStr = '1', limit: limitStr = '20', status, warehouseId } = request.query;
         const page = parseInt(pageStr);
         const limit = parseInt(limitStr);
         const offset = (page - 1) * limit;
 
         const conditions: any[] = [eq(schema.orders.tenantId, user.tenantId)];
+        if (warehouseId) {
+            conditions.push(eq(schema.orders.warehouseId, warehouseId));
+        }
         if (status) {
             conditions.push(eq(schema.orders.status, status as any));
         } else {
@@ -176,6 +188,7 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             supplierName: schema.suppliers.name,
             notes: schema.purchaseOrders.notes,
             createdAt: schema.purchaseOrders.createdAt,
+            warehouseId: schema.purchaseOrders.warehouseId,
         }).from(schema.purchaseOrders)
             .leftJoin(schema.suppliers, eq(schema.purchaseOrders.supplierId, schema.suppliers.id))
             .where(and(eq(schema.purchaseOrders.id, id), eq(schema.purchaseOrders.tenantId, user.tenantId)))
@@ -187,6 +200,7 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
 
         const items = await db.select({
             id: schema.purchaseOrderItems.id,
+            productId: schema.purchaseOrderItems.productId,
             productName: schema.products.name,
             qtyOrdered: schema.purchaseOrderItems.qtyOrdered,
             qtyReceived: schema.purchaseOrderItems.qtyReceived,
@@ -194,7 +208,24 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             .leftJoin(schema.products, eq(schema.purchaseOrderItems.productId, schema.products.id))
             .where(eq(schema.purchaseOrderItems.purchaseOrderId, po.id));
 
-        return { success: true, data: { ...po, items } };
+        // Where each product should be shelved once it is received
+        const warehouseId = po.warehouseId || await stockService.getDefaultWarehouseId(db, user.tenantId);
+        const putaway = await binService.suggestPutaway(db, warehouseId, [...new Set(items.map(i => i.productId))]);
+        const putawayMap = new Map(putaway.map(p => [p.productId, p]));
+
+        return {
+            success: true,
+            data: {
+                ...po,
+                warehouseId,
+                items: items.map(item => ({
+                    ...item,
+                    putawayBinId: putawayMap.get(item.productId)?.bin?.id ?? null,
+                    putawayBin: putawayMap.get(item.productId)?.bin?.code ?? null,
+                    putawayReason: putawayMap.get(item.productId)?.reason ?? 'no_bins'
+                }))
+            }
+        };
     });
 
     fastify.get<{ Querystring: ListInventoryQuery }>('/inventory', {
@@ -206,7 +237,7 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
         }
 
-        const { page: pageStr = '1', limit: limitStr = '20', search } = request.query;
+        const { page: pageStr = '1', limit: limitStr = '20', search, warehouseId } = request.query;
         const page = parseInt(pageStr);
         const limit = parseInt(limitStr);
         const offset = (page - 1) * limit;
@@ -216,13 +247,24 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             conditions.push(sql`${schema.products.name} ILIKE ${`%${search}%`}`);
         }
 
+        // With a warehouse selected, quantities are that location's balance;
+        // otherwise they are the tenant-wide totals.
         const products = await db.select({
             id: schema.products.id,
             name: schema.products.name,
             sku: schema.products.sku,
-            stockQuantity: schema.products.stockQuantity,
+            stockQuantity: warehouseId
+                ? sql<number>`COALESCE(${schema.warehouseStock.quantity}, 0)`
+                : schema.products.stockQuantity,
+            reservedQuantity: warehouseId
+                ? sql<number>`COALESCE(${schema.warehouseStock.reservedQuantity}, 0)`
+                : schema.products.reservedQuantity,
             reorderPoint: schema.products.reorderPoint,
         }).from(schema.products)
+            .leftJoin(schema.warehouseStock, and(
+                eq(schema.warehouseStock.productId, schema.products.id),
+                warehouseId ? eq(schema.warehouseStock.warehouseId, warehouseId) : sql`false`
+            ))
             .where(and(...conditions))
             .orderBy(desc(schema.products.updatedAt))
             .limit(limit)
@@ -261,7 +303,40 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
         }
 
-        return { success: true, data: product };
+        const warehouses = await db.select({
+            warehouseId: schema.warehouses.id,
+            warehouseName: schema.warehouses.name,
+            warehouseCode: schema.warehouses.code,
+            quantity: schema.warehouseStock.quantity,
+            reservedQuantity: schema.warehouseStock.reservedQuantity,
+            binCode: schema.warehouseBins.code,
+        }).from(schema.warehouseStock)
+            .innerJoin(schema.warehouses, eq(schema.warehouseStock.warehouseId, schema.warehouses.id))
+            .leftJoin(schema.warehouseBins, eq(schema.warehouseStock.defaultBinId, schema.warehouseBins.id))
+            .where(and(
+                eq(schema.warehouseStock.productId, product.id),
+                eq(schema.warehouseStock.tenantId, user.tenantId)
+            ))
+            .orderBy(schema.warehouses.name);
+
+        const lots = await db.select({
+            id: schema.stockLots.id,
+            warehouseId: schema.stockLots.warehouseId,
+            warehouseName: schema.warehouses.name,
+            lotNumber: schema.stockLots.lotNumber,
+            expiryDate: schema.stockLots.expiryDate,
+            quantity: schema.stockLots.quantity,
+            receivedAt: schema.stockLots.receivedAt,
+        }).from(schema.stockLots)
+            .innerJoin(schema.warehouses, eq(schema.stockLots.warehouseId, schema.warehouses.id))
+            .where(and(
+                eq(schema.stockLots.productId, product.id),
+                eq(schema.stockLots.tenantId, user.tenantId),
+                sql`${schema.stockLots.quantity} > 0`
+            ))
+            .orderBy(sql`${schema.stockLots.expiryDate} ASC NULLS LAST`, schema.stockLots.receivedAt);
+
+        return { success: true, data: { ...product, warehouses, lots } };
     });
 
     // PATCH /warehouse/tasks/:id - Update task (order) status
@@ -302,6 +377,14 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
         }
 
+        // An order being packed loads once its packing session is verified
+        if (status === 'loaded' && await packingService.isBeingPacked(db, id)) {
+            return reply.code(400).send({
+                success: false,
+                error: { code: 'PACKING_REQUIRED', message: 'Finish packing and verifying the order before loading' }
+            });
+        }
+
         // Update order status
         await db.update(schema.orders)
             .set({
@@ -361,21 +444,40 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             });
         }
 
-        // Update PO status
-        await db.update(schema.purchaseOrders)
-            .set({
-                status: status as any,
-                updatedAt: new Date()
-            })
-            .where(eq(schema.purchaseOrders.id, id));
+        // Update PO status and bill the units received so far
+        let bill;
+        try {
+            bill = await db.transaction(async (tx) => {
+                await tx.update(schema.purchaseOrders)
+                    .set({
+                        status: status as any,
+                        updatedAt: new Date()
+                    })
+                    .where(eq(schema.purchaseOrders.id, id));
+
+                return supplierPayablesService.billReceived(tx, id, user.id);
+            });
+        } catch (error: any) {
+            // A foreign-currency PO needs the day's rate before it can be billed
+            if (error.message?.startsWith('No exchange rate')) {
+                return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+            }
+            throw error;
+        }
 
-        return { success: true, message: 'Receiving status updated successfully' };
+        return {
+            success: true,
+            message: 'Receiving status updated successfully',
+            data: { billId: bill?.id ?? null, billNumber: bill?.billNumber ?? null }
+        };
     });
 
     // Scan item during receiving
     const ScanReceivingBodySchema = Type.Object({
         barcode: Type.String(),
-        quantity: Type.Optional(Type.Number({ minimum: 1 }))
+        quantity: Type.Optional(Type.Number({ minimum: 1 })),
+        lotNumber: Type.Optional(Type.String({ minLength: 1, maxLength: 100 })),
+        expiryDate: Type.Optional(Type.String({ pattern: '^\\d{4}-\\d{2}-\\d{2}$' }))
     });
 
     fastify.post<{
@@ -390,10 +492,15 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
     }, async (request, reply) => {
         const user = request.user!;
         const { id } = request.params;
-        const { barcode, quantity = 1 } = request.body;
+        const { barcode, quantity = 1, lotNumber, expiryDate } = request.body;
 
         // Verify PO exists and belongs to tenant
-        const [po] = await db.select({ id: schema.purchaseOrders.id, status: schema.purchaseOrders.status })
+        const [po] = await db.select({
+            id: schema.purchaseOrders.id,
+            poNumber: schema.purchaseOrders.poNumber,
+            status: schema.purchaseOrders.status,
+            warehouseId: schema.purchaseOrders.warehouseId
+        })
             .from(schema.purchaseOrders)
             .where(and(eq(schema.purchaseOrders.id, id), eq(schema.purchaseOrders.tenantId, user.tenantId)))
             .limit(1);
@@ -413,19 +520,14 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             });
         }
 
-        // Find product by barcode or SKU
-        const [product] = await db.select({ id: schema.products.id, name: schema.products.name })
+        // Find product by barcode or SKU; a case barcode receives a whole case
+        const match = await productUnitService.resolveBarcode(user.tenantId, barcode);
+        const [product] = match ? await db.select({ id: schema.products.id, name: schema.products.name })
             .from(schema.products)
-            .where(and(
-                eq(schema.products.tenantId, user.tenantId),
-                or(
-                    eq(schema.products.barcode, barcode),
-                    eq(schema.products.sku, barcode)
-                )
-            ))
-            .limit(1);
+            .where(eq(schema.products.id, match.productId))
+            .limit(1) : [];
 
-        if (!product) {
+        if (!match || !product) {
             return reply.code(404).send({ success: false, error: { code: 'PRODUCT_NOT_FOUND', message: 'Product not found' } });
         }
 
@@ -442,23 +544,52 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(400).send({ success: false, error: { code: 'ITEM_NOT_IN_PO', message: 'Product is not in this purchase order' } });
         }
 
-        // Increment received quantity
-        const newQtyReceived = (poItem.qtyReceived || 0) + quantity;
+        // Increment received quantity and put the scanned units on hand (into a lot when given)
+        const received = quantity * match.factor;
+        const newQtyReceived = (poItem.qtyReceived || 0) + received;
 
-        await db.update(schema.purchaseOrderItems)
-            .set({
-                qtyReceived: newQtyReceived,
-                lastScannedAt: new Date(),
-                scannedByUserId: user.id,
-                updatedAt: new Date()
-            })
-            .where(eq(schema.purchaseOrderItems.id, poItem.id));
+        const { lots, putaway } = await db.transaction(async (tx) => {
+            await tx.update(schema.purchaseOrderItems)
+                .set({
+                    qtyReceived: newQtyReceived,
+                    lastScannedAt: new Date(),
+                    scannedByUserId: user.id,
+                    updatedAt: new Date()
+                })
+                .where(eq(schema.purchaseOrderItems.id, poItem.id));
+
+            const warehouseId = po.warehouseId || await stockService.getDefaultWarehouseId(tx, user.tenantId);
+            const result = await stockService.adjustQuantity(tx, {
+                tenantId: user.tenantId,
+                warehouseId,
+                productId: product.id,
+                change: received,
+                movementType: 'in',
+                referenceType: 'purchase_order',
+                referenceId: po.id,
+                createdBy: user.id,
+                notes: `PO Received (scan): ${po.poNumber}`,
+                lot: lotNumber || expiryDate
+                    ? { lotNumber: lotNumber || po.poNumber, expiryDate, purchaseOrderId: po.id }
+                    : undefined
+            });
+            const [suggestion] = await binService.suggestPutaway(tx, warehouseId, [product.id]);
+            return { lots: result.lots, putaway: suggestion };
+        });
 
         return {
             success: true,
             data: {
                 productId: product.id,
                 productName: product.name,
+                unit: match.unit,
+                received,
+                lot: lots[0] || null,
+                putaway: {
+                    binId: putaway.bin?.id ?? null,
+                    binCode: putaway.bin?.code ?? null,
+                    reason: putaway.reason
+                },
                 qtyOrdered: poItem.qtyOrdered,
                 qtyReceived: newQtyReceived,
                 remaining: poItem.qtyOrdered - newQtyReceived,
@@ -826,6 +957,7 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             orderNumber: schema.orders.orderNumber,
             status: schema.orders.status,
             customerName: schema.customers.name,
+            warehouseId: schema.orders.warehouseId,
         })
             .from(schema.orders)
             .leftJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
@@ -863,12 +995,44 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             totalQtyOrdered: number;
             totalQtyPicked: number;
             orders: { orderId: string; orderNumber: string; customerName: string | null; qtyOrdered: number; qtyPicked: number }[];
+            lots: { lotNumber: string; expiryDate: string | null; quantity: number }[];
+            bin: BinLocation | null;
         }>();
 
+        // Lots on hand in the orders' warehouses, in the order they will be picked (FEFO)
+        const defaultWarehouseId = await stockService.getDefaultWarehouseId(db, user.tenantId);
+        const warehouseIds = [...new Set(orders.map(o => o.warehouseId || defaultWarehouseId))];
+        const productIds = [...new Set(items.map(i => i.productId))];
+        const lotRows = productIds.length === 0 ? [] : await db.select({
+            productId: schema.stockLots.productId,
+            lotNumber: schema.stockLots.lotNumber,
+            expiryDate: schema.stockLots.expiryDate,
+            quantity: schema.stockLots.quantity,
+        })
+            .from(schema.stockLots)
+            .where(and(
+                inArray(schema.stockLots.warehouseId, warehouseIds),
+                inArray(schema.stockLots.productId, productIds),
+                sql`${schema.stockLots.quantity} > 0`
+            ))
+            .orderBy(sql`${schema.stockLots.expiryDate} ASC NULLS LAST`, schema.stockLots.receivedAt);
+
+        // Default bins per warehouse; a product is picked in its first order's warehouse
+        const binsByWarehouse = new Map<string, Map<string, BinLocation>>();
+        for (const warehouseId of warehouseIds) {
+            binsByWarehouse.set(warehouseId, await binService.getDefaultBins(db, warehouseId, productIds));
+        }
+        const binPaths = new Map<string, BinLocation | null>();
+
         for (const item of items) {
             const order = orders.find(o => o.id === item.orderId);
             if (!order || !item.productId) continue;
 
+            if (!binPaths.has(item.productId)) {
+                const bins = binsByWarehouse.get(order.warehouseId || defaultWarehouseId);
+                binPaths.set(item.productId, bins?.get(item.productId) ?? null);
+            }
+
             if (!productMap.has(item.productId)) {
                 productMap.set(item.productId, {
                     productId: item.productId,
@@ -878,7 +1042,11 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
                     stockQuantity: item.stockQuantity || 0,
                     totalQtyOrdered: 0,
                     totalQtyPicked: 0,
-                    orders: []
+                    orders: [],
+                    lots: lotRows
+                        .filter(l => l.productId === item.productId)
+                        .map(l => ({ lotNumber: l.lotNumber, expiryDate: l.expiryDate, quantity: l.quantity })),
+                    bin: binPaths.get(item.productId) ?? null
                 });
             }
 
@@ -894,8 +1062,10 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             });
         }
 
-        const batchItems = Array.from(productMap.values()).sort((a, b) =>
-            a.productName.localeCompare(b.productName)
+        // Walk the bins in path order; products without a bin come last by name
+        const batchItems = sortByWalkingPath(
+            Array.from(productMap.values()).sort((a, b) => a.productName.localeCompare(b.productName)),
+            item => binPaths.get(item.productId) ?? null
         );
 
         return {
@@ -923,7 +1093,9 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
     const BatchPickBodySchema = Type.Object({
         productId: Type.String(),
         orderIds: Type.Array(Type.String()),
-        quantity: Type.Number({ minimum: 1 })
+        quantity: Type.Number({ minimum: 1 }),
+        // Scanned bin barcode - checked against the product's bin when given
+        binBarcode: Type.Optional(Type.String())
     });
 
     fastify.patch<{ Body: Static<typeof BatchPickBodySchema> }>('/tasks/batch/pick', {
@@ -935,91 +1107,162 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
         }
 
-        const { productId, orderIds, quantity } = request.body;
+        const { productId, orderIds, quantity, binBarcode } = request.body;
 
-        // Get all order items for this product in these orders
-        const orderItemsList = await db.select({
-            id: schema.orderItems.id,
-            orderId: schema.orderItems.orderId,
-            qtyOrdered: schema.orderItems.qtyOrdered,
-            qtyPicked: schema.orderItems.qtyPicked,
-        })
-            .from(schema.orderItems)
-            .leftJoin(schema.orders, eq(schema.orderItems.orderId, schema.orders.id))
-            .where(and(
-                inArray(schema.orderItems.orderId, orderIds),
-                eq(schema.orderItems.productId, productId),
-                eq(schema.orders.tenantId, user.tenantId)
-            ));
+        type PickUpdate = {
+            itemId: string;
+            orderId: string;
+            qtyPicked: number;
+            pickedNow: number;
+            lots: { lotId: string; lotNumber: string; expiryDate: string | null; quantity: number }[];
+        };
 
-        if (orderItemsList.length === 0) {
-            return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
-        }
+        try {
+            const result = await db.transaction(async (tx) => {
+                // Get all order items for this product in these orders
+                const orderItemsList = await tx.select({
+                    id: schema.orderItems.id,
+                    orderId: schema.orderItems.orderId,
+                    qtyOrdered: schema.orderItems.qtyOrdered,
+                    qtyPicked: schema.orderItems.qtyPicked,
+                    orderNumber: schema.orders.orderNumber,
+                    warehouseId: schema.orders.warehouseId,
+                })
+                    .from(schema.orderItems)
+                    .innerJoin(schema.orders, eq(schema.orderItems.orderId, schema.orders.id))
+                    .where(and(
+                        inArray(schema.orderItems.orderId, orderIds),
+                        eq(schema.orderItems.productId, productId),
+                        eq(schema.orders.tenantId, user.tenantId)
+                    ))
+                    .orderBy(schema.orders.createdAt)
+                    .for('update');
+
+                if (orderItemsList.length === 0) throw new Error('Order items not found');
+
+                // Distribute picked quantity across orders (FIFO - first order first)
+                let remainingQty = quantity;
+                const updates: PickUpdate[] = [];
+
+                for (const item of orderItemsList) {
+                    if (remainingQty <= 0) break;
+
+                    const currentPicked = item.qtyPicked || 0;
+                    const needed = item.qtyOrdered - currentPicked;
+
+                    if (needed > 0) {
+                        const pickQty = Math.min(needed, remainingQty);
+                        const warehouseId = item.warehouseId || await stockService.getDefaultWarehouseId(tx, user.tenantId);
+
+                        if (binBarcode) {
+                            const bin = (await binService.getDefaultBins(tx, warehouseId, [productId])).get(productId);
+                            if (bin && bin.code !== binBarcode && bin.barcode !== binBarcode) {
+                                throw new Error(`Wrong bin. This product is picked from ${bin.code}.`);
+                            }
+                        }
+
+                        const balance = (await stockService.getBalances(tx, warehouseId, [productId], true)).get(productId)!;
+                        if (balance.quantity < pickQty) {
+                            throw new Error(`Insufficient stock for order ${item.orderNumber}. Only ${balance.quantity} on hand.`);
+                        }
+
+                        // Picked goods leave the shelf: take them from lots FEFO and drop the reservation
+                        const { lots } = await stockService.adjustQuantity(tx, {
+                            tenantId: user.tenantId,
+                            warehouseId,
+                            productId,
+                            change: -pickQty,
+                            movementType: 'out',
+                            referenceType: 'order',
+                            referenceId: item.orderId,
+                            createdBy: user.id,
+                            notes: `Picked for order ${item.orderNumber}`
+                        });
+                        await stockService.release(tx, user.tenantId, warehouseId, [{ productId, quantity: pickQty }]);
+
+                        if (lots.length > 0) {
+                            await tx.insert(schema.orderItemLots).values(lots.map(lot => ({
+                                orderItemId: item.id,
+                                lotId: lot.lotId,
+                                quantity: lot.quantity
+                            })));
+                        }
+
+                        await tx.update(schema.orderItems)
+                            .set({ qtyPicked: currentPicked + pickQty, updatedAt: new Date() })
+                            .where(eq(schema.orderItems.id, item.id));
+
+                        updates.push({
+                            itemId: item.id,
+                            orderId: item.orderId,
+                            qtyPicked: currentPicked + pickQty,
+                            pickedNow: pickQty,
+                            lots
+                        });
+                        remainingQty -= pickQty;
+                    }
+                }
 
-        // Distribute picked quantity across orders (FIFO - first order first)
-        let remainingQty = quantity;
-        const updates: { itemId: string; orderId: string; qtyPicked: number }[] = [];
+                // Check if any orders are fully picked and update their status
+                for (const orderId of [...new Set(updates.map(u => u.orderId))]) {
+                    const orderItems = await tx.select({
+                        qtyOrdered: schema.orderItems.qtyOrdered,
+                        qtyPicked: schema.orderItems.qtyPicked,
+                    })
+                        .from(schema.orderItems)
+                        .where(eq(schema.orderItems.orderId, orderId));
+
+                    const allPicked = orderItems.every(item =>
+                        (item.qtyPicked || 0) >= item.qtyOrdered
+                    );
+
+                    if (allPicked) {
+                        await tx.update(schema.orders)
+                            .set({ status: 'picked', updatedAt: new Date() })
+                            .where(eq(schema.orders.id, orderId));
+                    } else {
+                        // Set to picking if not already
+                        await tx.update(schema.orders)
+                            .set({ status: 'picking', updatedAt: new Date() })
+                            .where(and(
+                                eq(schema.orders.id, orderId),
+                                inArray(schema.orders.status, ['approved'] as any)
+                            ));
+                    }
+                }
 
-        for (const item of orderItemsList) {
-            if (remainingQty <= 0) break;
+                return { remainingQty, updates };
+            });
 
-            const currentPicked = item.qtyPicked || 0;
-            const needed = item.qtyOrdered - currentPicked;
+            await logScan({
+                tenantId: user.tenantId,
+                userId: user.id,
+                productId,
+                action: 'picking',
+                barcode: binBarcode,
+                details: { orderIds, quantity: quantity - result.remainingQty, binConfirmed: !!binBarcode }
+            });
 
-            if (needed > 0) {
-                const pickQty = Math.min(needed, remainingQty);
-                updates.push({
-                    itemId: item.id,
-                    orderId: item.orderId,
-                    qtyPicked: currentPicked + pickQty
-                });
-                remainingQty -= pickQty;
+            return {
+                success: true,
+                data: {
+                    pickedQuantity: quantity - result.remainingQty,
+                    unallocated: result.remainingQty,
+                    updates: result.updates
+                }
+            };
+        } catch (error: any) {
+            if (error.message === 'Order items not found') {
+                return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
             }
-        }
-
-        // Apply updates
-        for (const update of updates) {
-            await db.update(schema.orderItems)
-                .set({ qtyPicked: update.qtyPicked, updatedAt: new Date() })
-                .where(eq(schema.orderItems.id, update.itemId));
-        }
-
-        // Check if any orders are fully picked and update their status
-        for (const orderId of [...new Set(updates.map(u => u.orderId))]) {
-            const orderItems = await db.select({
-                qtyOrdered: schema.orderItems.qtyOrdered,
-                qtyPicked: schema.orderItems.qtyPicked,
-            })
-                .from(schema.orderItems)
-                .where(eq(schema.orderItems.orderId, orderId));
-
-            const allPicked = orderItems.every(item =>
-                (item.qtyPicked || 0) >= item.qtyOrdered
-            );
-
-            if (allPicked) {
-                await db.update(schema.orders)
-                    .set({ status: 'picked', updatedAt: new Date() })
-                    .where(eq(schema.orders.id, orderId));
-            } else {
-                // Set to picking if not already
-                await db.update(schema.orders)
-                    .set({ status: 'picking', updatedAt: new Date() })
-                    .where(and(
-                        eq(schema.orders.id, orderId),
-                        inArray(schema.orders.status, ['approved'] as any)
-                    ));
+            if (error.message?.startsWith('Insufficient stock')) {
+                return reply.code(400).send({ success: false, error: { code: 'INSUFFICIENT_STOCK', message: error.message } });
             }
-        }
-
-        return {
-            success: true,
-            data: {
-                pickedQuantity: quantity - remainingQty,
-                unallocated: remainingQty,
-                updates
+            if (error.message?.startsWith('Wrong bin')) {
+                return reply.code(400).send({ success: false, error: { code: 'BIN_MISMATCH', message: error.message } });
             }
-        };
+            throw error;
+        }
     });
 
     // ============================================================================
@@ -1174,7 +1417,7 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
             };
         });
 
-        // Create the PO
+        // Create the PO, priced at cost in the base currency
         const [newPo] = await db.insert(schema.purchaseOrders)
             .values({
                 tenantId: user.tenantId,
@@ -1182,6 +1425,7 @@ export const warehouseRoutes: FastifyPluginAsync = async (fastify) => {
                 supplierId,
                 createdBy: user.id,
                 status: 'draft',
+                currency: await exchangeRateService.getBaseCurrency(user.tenantId),
                 subtotalAmount: subtotal.toFixed(2),
                 taxAmount: '0',
                 totalAmount: subtotal.toFixed(2),
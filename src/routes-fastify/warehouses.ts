@@ -0,0 +1,714 @@
+import { FastifyPluginAsync } from 'fastify';
+import { Type, Static } from '@sinclair/typebox';
+import { db, schema } from '../db';
+import { eq, and, sql, desc, inArray, ne } from 'drizzle-orm';
+import { logAudit } from '../lib/audit';
+import { nextDocumentNumber } from '../lib/document-numbers';
+import { stockService } from '../services/stock.service';
+import { binService, sortByWalkingPath } from '../services/bin.service';
+
+// Schemas
+const WarehouseIdParamsSchema = Type.Object({ id: Type.String() });
+
+const CreateWarehouseBodySchema = Type.Object({
+    name: Type.String({ minLength: 2 }),
+    code: Type.String({ minLength: 1, maxLength: 50 }),
+    address: Type.Optional(Type.String()),
+    latitude: Type.Optional(Type.Number({ minimum: -90, maximum: 90 })),
+    longitude: Type.Optional(Type.Number({ minimum: -180, maximum: 180 })),
+    isDefault: Type.Optional(Type.Boolean()),
+});
+
+const UpdateWarehouseBodySchema = Type.Object({
+    name: Type.Optional(Type.String({ minLength: 2 })),
+    code: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+    address: Type.Optional(Type.String()),
+    latitude: Type.Optional(Type.Number({ minimum: -90, maximum: 90 })),
+    longitude: Type.Optional(Type.Number({ minimum: -180, maximum: 180 })),
+    isDefault: Type.Optional(Type.Boolean()),
+    isActive: Type.Optional(Type.Boolean()),
+});
+
+const ListStockQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    search: Type.Optional(Type.String()),
+});
+
+const BinIdParamsSchema = Type.Object({ binId: Type.String() });
+
+const ProductBinParamsSchema = Type.Object({ id: Type.String(), productId: Type.String() });
+
+const BinFields = {
+    barcode: Type.Optional(Type.String({ maxLength: 100 })),
+    zone: Type.Optional(Type.String({ maxLength: 50 })),
+    aisle: Type.Optional(Type.String({ maxLength: 50 })),
+    pickSequence: Type.Optional(Type.Integer({ minimum: 0 })),
+};
+
+const CreateBinsBodySchema = Type.Object({
+    bins: Type.Array(Type.Object({
+        code: Type.String({ minLength: 1, maxLength: 50 }),
+        ...BinFields,
+    }), { minItems: 1, maxItems: 500 }),
+});
+
+const UpdateBinBodySchema = Type.Object({
+    code: Type.Optional(Type.String({ minLength: 1, maxLength: 50 })),
+    ...BinFields,
+    isActive: Type.Optional(Type.Boolean()),
+});
+
+const SetProductBinBodySchema = Type.Object({
+    binId: Type.Union([Type.String(), Type.Null()]),
+});
+
+const ListTransfersQuerySchema = Type.Object({
+    page: Type.Optional(Type.String()),
+    limit: Type.Optional(Type.String()),
+    status: Type.Optional(Type.String()),
+    warehouseId: Type.Optional(Type.String()),
+});
+
+const CreateTransferBodySchema = Type.Object({
+    fromWarehouseId: Type.String(),
+    toWarehouseId: Type.String(),
+    notes: Type.Optional(Type.String()),
+    items: Type.Array(Type.Object({
+        productId: Type.String(),
+        quantity: Type.Integer({ minimum: 1 }),
+    }), { minItems: 1 }),
+});
+
+const ReceiveTransferBodySchema = Type.Object({
+    // Omit to receive everything that was shipped
+    items: Type.Optional(Type.Array(Type.Object({
+        productId: Type.String(),
+        qtyReceived: Type.Integer({ minimum: 0 }),
+    }))),
+    notes: Type.Optional(Type.String()),
+});
+
+type CreateWarehouseBody = Static<typeof CreateWarehouseBodySchema>;
+type UpdateWarehouseBody = Static<typeof UpdateWarehouseBodySchema>;
+type ListStockQuery = Static<typeof ListStockQuerySchema>;
+type CreateBinsBody = Static<typeof CreateBinsBodySchema>;
+type UpdateBinBody = Static<typeof UpdateBinBodySchema>;
+type SetProductBinBody = Static<typeof SetProductBinBodySchema>;
+type ListTransfersQuery = Static<typeof ListTransfersQuerySchema>;
+type CreateTransferBody = Static<typeof CreateTransferBodySchema>;
+type ReceiveTransferBody = Static<typeof ReceiveTransferBodySchema>;
+
+const adminRoles = ['tenant_admin', 'super_admin'];
+const stockRoles = ['tenant_admin', 'super_admin', 'supervisor', 'warehouse'];
+
+export const warehousesRoutes: FastifyPluginAsync = async (fastify) => {
+    // ----------------------------------------------------------------
+    // WAREHOUSES
+    // ----------------------------------------------------------------
+
+    // List warehouses
+    fastify.get('/', { preHandler: [fastify.authenticate] }, async (request) => {
+        const user = request.user!;
+
+        // Make sure single-location tenants always see their default warehouse
+        await stockService.getDefaultWarehouseId(db, user.tenantId);
+
+        const warehouses = await db.select({
+            id: schema.warehouses.id,
+            name: schema.warehouses.name,
+            code: schema.warehouses.code,
+            address: schema.warehouses.address,
+            latitude: schema.warehouses.latitude,
+            longitude: schema.warehouses.longitude,
+            isDefault: schema.warehouses.isDefault,
+            isActive: schema.warehouses.isActive,
+            productCount: sql<number>`(SELECT count(*) FROM ${schema.warehouseStock} WHERE ${schema.warehouseStock.warehouseId} = ${schema.warehouses.id} AND ${schema.warehouseStock.quantity} > 0)`,
+            totalQuantity: sql<number>`(SELECT COALESCE(SUM(${schema.warehouseStock.quantity}), 0) FROM ${schema.warehouseStock} WHERE ${schema.warehouseStock.warehouseId} = ${schema.warehouses.id})`,
+        }).from(schema.warehouses)
+            .where(eq(schema.warehouses.tenantId, user.tenantId))
+            .orderBy(desc(schema.warehouses.isDefault), schema.warehouses.name);
+
+        return { success: true, data: warehouses };
+    });
+
+    // Create warehouse
+    fastify.post<{ Body: CreateWarehouseBody }>('/', {
+        preHandler: [fastify.authenticate],
+        schema: { body: CreateWarehouseBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!adminRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const body = request.body;
+        const code = body.code.trim().toUpperCase();
+
+        const [existing] = await db.select({ id: schema.warehouses.id }).from(schema.warehouses)
+            .where(and(eq(schema.warehouses.tenantId, user.tenantId), eq(schema.warehouses.code, code))).limit(1);
+        if (existing) {
+            return reply.code(409).send({ success: false, error: { code: 'CONFLICT', message: 'Warehouse code already exists' } });
+        }
+
+        const warehouse = await db.transaction(async (tx) => {
+            if (body.isDefault) {
+                await tx.update(schema.warehouses).set({ isDefault: false, updatedAt: new Date() })
+                    .where(eq(schema.warehouses.tenantId, user.tenantId));
+            }
+            const [created] = await tx.insert(schema.warehouses).values({
+                tenantId: user.tenantId, name: body.name, code, address: body.address,
+                latitude: body.latitude?.toString(), longitude: body.longitude?.toString(),
+                isDefault: body.isDefault || false, isActive: true,
+            }).returning();
+            return created;
+        });
+
+        await logAudit('warehouse.create', { name: warehouse.name, code: warehouse.code }, user.id, user.tenantId, warehouse.id, 'warehouse');
+        return { success: true, data: warehouse };
+    });
+
+    // Update warehouse
+    fastify.patch<{ Params: Static<typeof WarehouseIdParamsSchema>; Body: UpdateWarehouseBody }>('/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema, body: UpdateWarehouseBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!adminRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { id } = request.params;
+        const body = request.body;
+
+        const [warehouse] = await db.select().from(schema.warehouses)
+            .where(and(eq(schema.warehouses.id, id), eq(schema.warehouses.tenantId, user.tenantId))).limit(1);
+        if (!warehouse) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+
+        if (body.isActive === false) {
+            if (warehouse.isDefault && body.isDefault !== false) {
+                return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'Default warehouse cannot be deactivated' } });
+            }
+            const [{ onHand }] = await db.select({ onHand: sql<number>`COALESCE(SUM(${schema.warehouseStock.quantity}), 0)` })
+                .from(schema.warehouseStock).where(eq(schema.warehouseStock.warehouseId, id));
+            if (Number(onHand) > 0) {
+                return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'Transfer remaining stock before deactivating this warehouse' } });
+            }
+        }
+
+        const code = body.code?.trim().toUpperCase();
+        if (code && code !== warehouse.code) {
+            const [existing] = await db.select({ id: schema.warehouses.id }).from(schema.warehouses)
+                .where(and(eq(schema.warehouses.tenantId, user.tenantId), eq(schema.warehouses.code, code), ne(schema.warehouses.id, id))).limit(1);
+            if (existing) {
+                return reply.code(409).send({ success: false, error: { code: 'CONFLICT', message: 'Warehouse code already exists' } });
+            }
+        }
+
+        const updated = await db.transaction(async (tx) => {
+            if (body.isDefault) {
+                await tx.update(schema.warehouses).set({ isDefault: false, updatedAt: new Date() })
+                    .where(and(eq(schema.warehouses.tenantId, user.tenantId), ne(schema.warehouses.id, id)));
+            }
+            const [row] = await tx.update(schema.warehouses).set({
+                name: body.name, code, address: body.address,
+                latitude: body.latitude?.toString(), longitude: body.longitude?.toString(),
+                isDefault: body.isDefault, isActive: body.isActive, updatedAt: new Date(),
+            }).where(eq(schema.warehouses.id, id)).returning();
+            return row;
+        });
+
+        await logAudit('warehouse.update', body, user.id, user.tenantId, id, 'warehouse');
+        return { success: true, data: updated };
+    });
+
+    // Stock balances in one warehouse
+    fastify.get<{ Params: Static<typeof WarehouseIdParamsSchema>; Querystring: ListStockQuery }>('/:id/stock', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema, querystring: ListStockQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { id } = request.params;
+        const { page: pageStr = '1', limit: limitStr = '50', search } = request.query;
+        const page = parseInt(pageStr);
+        const limit = parseInt(limitStr);
+        const offset = (page - 1) * limit;
+
+        const conditions: any[] = [
+            eq(schema.warehouseStock.tenantId, user.tenantId),
+            eq(schema.warehouseStock.warehouseId, id),
+        ];
+        if (search) {
+            conditions.push(sql`(${schema.products.name} ILIKE ${`%${search}%`} OR ${schema.products.sku} ILIKE ${`%${search}%`})`);
+        }
+
+        const items = await db.select({
+            productId: schema.products.id,
+            name: schema.products.name,
+            sku: schema.products.sku,
+            quantity: schema.warehouseStock.quantity,
+            reservedQuantity: schema.warehouseStock.reservedQuantity,
+            available: sql<number>`${schema.warehouseStock.quantity} - ${schema.warehouseStock.reservedQuantity}`,
+            reorderPoint: schema.products.reorderPoint,
+            binId: schema.warehouseStock.defaultBinId,
+            binCode: schema.warehouseBins.code,
+        }).from(schema.warehouseStock)
+            .innerJoin(schema.products, eq(schema.warehouseStock.productId, schema.products.id))
+            .leftJoin(schema.warehouseBins, eq(schema.warehouseStock.defaultBinId, schema.warehouseBins.id))
+            .where(and(...conditions))
+            .orderBy(schema.products.name)
+            .limit(limit).offset(offset);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.warehouseStock)
+            .innerJoin(schema.products, eq(schema.warehouseStock.productId, schema.products.id))
+            .where(and(...conditions));
+
+        return { success: true, data: items, meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) } };
+    });
+
+    // ----------------------------------------------------------------
+    // BINS
+    // ----------------------------------------------------------------
+
+    // List bins of a warehouse in walking-path order
+    fastify.get<{ Params: Static<typeof WarehouseIdParamsSchema> }>('/:id/bins', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const bins = await db.select({
+            id: schema.warehouseBins.id,
+            code: schema.warehouseBins.code,
+            barcode: schema.warehouseBins.barcode,
+            zone: schema.warehouseBins.zone,
+            aisle: schema.warehouseBins.aisle,
+            pickSequence: schema.warehouseBins.pickSequence,
+            isActive: schema.warehouseBins.isActive,
+            productCount: sql<number>`(
+                SELECT COUNT(*) FROM ${schema.warehouseStock}
+                WHERE ${schema.warehouseStock.defaultBinId} = ${schema.warehouseBins.id}
+            )`,
+        }).from(schema.warehouseBins)
+            .where(and(eq(schema.warehouseBins.warehouseId, request.params.id), eq(schema.warehouseBins.tenantId, user.tenantId)));
+
+        return { success: true, data: sortByWalkingPath(bins, bin => bin) };
+    });
+
+    // Create bins (one or a whole rack at once). Existing codes are skipped.
+    fastify.post<{ Params: Static<typeof WarehouseIdParamsSchema>; Body: CreateBinsBody }>('/:id/bins', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema, body: CreateBinsBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!adminRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const [warehouse] = await db.select({ id: schema.warehouses.id }).from(schema.warehouses)
+            .where(and(eq(schema.warehouses.id, request.params.id), eq(schema.warehouses.tenantId, user.tenantId))).limit(1);
+        if (!warehouse) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+
+        const created = await db.insert(schema.warehouseBins).values(request.body.bins.map(bin => ({
+            tenantId: user.tenantId,
+            warehouseId: warehouse.id,
+            code: bin.code.trim().toUpperCase(),
+            barcode: bin.barcode || null,
+            zone: bin.zone || null,
+            aisle: bin.aisle || null,
+            pickSequence: bin.pickSequence ?? null,
+        }))).onConflictDoNothing().returning();
+
+        const createdCodes = new Set(created.map(b => b.code));
+        const skipped = request.body.bins.map(b => b.code.trim().toUpperCase()).filter(code => !createdCodes.has(code));
+
+        await logAudit('warehouse_bin.create', { count: created.length, skipped: skipped.length }, user.id, user.tenantId, warehouse.id, 'warehouse');
+        return { success: true, data: { created, skipped } };
+    });
+
+    // Update a bin. Deactivating it unassigns the products that lived there.
+    fastify.patch<{ Params: Static<typeof BinIdParamsSchema>; Body: UpdateBinBody }>('/bins/:binId', {
+        preHandler: [fastify.authenticate],
+        schema: { params: BinIdParamsSchema, body: UpdateBinBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!adminRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { binId } = request.params;
+        const body = request.body;
+
+        const [bin] = await db.select().from(schema.warehouseBins)
+            .where(and(eq(schema.warehouseBins.id, binId), eq(schema.warehouseBins.tenantId, user.tenantId))).limit(1);
+        if (!bin) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+
+        const code = body.code?.trim().toUpperCase();
+        if (code && code !== bin.code) {
+            const [existing] = await db.select({ id: schema.warehouseBins.id }).from(schema.warehouseBins)
+                .where(and(eq(schema.warehouseBins.warehouseId, bin.warehouseId), eq(schema.warehouseBins.code, code))).limit(1);
+            if (existing) {
+                return reply.code(409).send({ success: false, error: { code: 'CONFLICT', message: 'Bin code already exists' } });
+            }
+        }
+
+        const updated = await db.transaction(async (tx) => {
+            const [row] = await tx.update(schema.warehouseBins).set({
+                code, barcode: body.barcode, zone: body.zone, aisle: body.aisle,
+                pickSequence: body.pickSequence, isActive: body.isActive, updatedAt: new Date(),
+            }).where(eq(schema.warehouseBins.id, binId)).returning();
+
+            if (body.isActive === false) {
+                await tx.update(schema.warehouseStock).set({ defaultBinId: null, updatedAt: new Date() })
+                    .where(eq(schema.warehouseStock.defaultBinId, binId));
+            }
+            return row;
+        });
+
+        return { success: true, data: updated };
+    });
+
+    // Assign (or clear) the default bin of a product in this warehouse
+    fastify.put<{ Params: Static<typeof ProductBinParamsSchema>; Body: SetProductBinBody }>('/:id/products/:productId/bin', {
+        preHandler: [fastify.authenticate],
+        schema: { params: ProductBinParamsSchema, body: SetProductBinBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { id, productId } = request.params;
+        const { binId } = request.body;
+
+        const [product] = await db.select({ id: schema.products.id }).from(schema.products)
+            .where(and(eq(schema.products.id, productId), eq(schema.products.tenantId, user.tenantId))).limit(1);
+        if (!product) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Product not found' } });
+
+        if (binId) {
+            const [bin] = await db.select({ id: schema.warehouseBins.id }).from(schema.warehouseBins)
+                .where(and(
+                    eq(schema.warehouseBins.id, binId),
+                    eq(schema.warehouseBins.warehouseId, id),
+                    eq(schema.warehouseBins.tenantId, user.tenantId),
+                    eq(schema.warehouseBins.isActive, true)
+                )).limit(1);
+            if (!bin) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Bin not found' } });
+        } else {
+            const [warehouse] = await db.select({ id: schema.warehouses.id }).from(schema.warehouses)
+                .where(and(eq(schema.warehouses.id, id), eq(schema.warehouses.tenantId, user.tenantId))).limit(1);
+            if (!warehouse) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: 'Warehouse not found' } });
+        }
+
+        await binService.setDefaultBin(db, user.tenantId, id, productId, binId);
+        return { success: true, data: { warehouseId: id, productId, binId } };
+    });
+
+    // ----------------------------------------------------------------
+    // TRANSFERS
+    // ----------------------------------------------------------------
+
+    // List transfers
+    fastify.get<{ Querystring: ListTransfersQuery }>('/transfers', {
+        preHandler: [fastify.authenticate],
+        schema: { querystring: ListTransfersQuerySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const { page: pageStr = '1', limit: limitStr = '20', status, warehouseId } = request.query;
+        const page = parseInt(pageStr);
+        const limit = parseInt(limitStr);
+        const offset = (page - 1) * limit;
+
+        const conditions: any[] = [eq(schema.stockTransfers.tenantId, user.tenantId)];
+        if (status) conditions.push(eq(schema.stockTransfers.status, status as any));
+        if (warehouseId) {
+            conditions.push(sql`(${schema.stockTransfers.fromWarehouseId} = ${warehouseId} OR ${schema.stockTransfers.toWarehouseId} = ${warehouseId})`);
+        }
+
+        const transfers = await db.select({
+            id: schema.stockTransfers.id,
+            transferNumber: schema.stockTransfers.transferNumber,
+            status: schema.stockTransfers.status,
+            fromWarehouseId: schema.stockTransfers.fromWarehouseId,
+            fromWarehouseName: sql<string>`(SELECT name FROM ${schema.warehouses} WHERE ${schema.warehouses.id} = ${schema.stockTransfers.fromWarehouseId})`,
+            toWarehouseId: schema.stockTransfers.toWarehouseId,
+            toWarehouseName: sql<string>`(SELECT name FROM ${schema.warehouses} WHERE ${schema.warehouses.id} = ${schema.stockTransfers.toWarehouseId})`,
+            itemCount: sql<number>`(SELECT count(*) FROM ${schema.stockTransferItems} WHERE ${schema.stockTransferItems.transferId} = ${schema.stockTransfers.id})`,
+            shippedAt: schema.stockTransfers.shippedAt,
+            receivedAt: schema.stockTransfers.receivedAt,
+            createdAt: schema.stockTransfers.createdAt,
+        }).from(schema.stockTransfers)
+            .where(and(...conditions))
+            .orderBy(desc(schema.stockTransfers.createdAt))
+            .limit(limit).offset(offset);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.stockTransfers).where(and(...conditions));
+        return { success: true, data: transfers, meta: { page, limit, total: Number(count), totalPages: Math.ceil(Number(count) / limit) } };
+    });
+
+    // Create transfer (draft)
+    fastify.post<{ Body: CreateTransferBody }>('/transfers', {
+        preHandler: [fastify.authenticate],
+        schema: { body: CreateTransferBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const body = request.body;
+        if (body.fromWarehouseId === body.toWarehouseId) {
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: 'Source and destination warehouses must differ' } });
+        }
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                await stockService.resolveWarehouseId(tx, user.tenantId, body.fromWarehouseId);
+                await stockService.resolveWarehouseId(tx, user.tenantId, body.toWarehouseId);
+
+                const productIds = [...new Set(body.items.map(i => i.productId))];
+                const products = await tx.select({ id: schema.products.id }).from(schema.products)
+                    .where(and(eq(schema.products.tenantId, user.tenantId), inArray(schema.products.id, productIds)));
+                if (products.length !== productIds.length) throw new Error('Some products not found');
+
+                const transferNumber = await nextDocumentNumber(tx, user.tenantId, 'transfer', 'TRF-');
+
+                const [transfer] = await tx.insert(schema.stockTransfers).values({
+                    tenantId: user.tenantId, transferNumber, fromWarehouseId: body.fromWarehouseId,
+                    toWarehouseId: body.toWarehouseId, status: 'draft', notes: body.notes, createdBy: user.id,
+                }).returning();
+
+                await tx.insert(schema.stockTransferItems).values(body.items.map(item => ({
+                    transferId: transfer.id, productId: item.productId, quantity: item.quantity,
+                })));
+
+                return transfer;
+            });
+            return { success: true, data: result };
+        } catch (error: any) {
+            if (error.message === 'Warehouse not found' || error.message === 'Some products not found') {
+                return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND', message: error.message } });
+            }
+            throw error;
+        }
+    });
+
+    // Get transfer
+    fastify.get<{ Params: Static<typeof WarehouseIdParamsSchema> }>('/transfers/:id', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const [transfer] = await db.select().from(schema.stockTransfers)
+            .where(and(eq(schema.stockTransfers.id, request.params.id), eq(schema.stockTransfers.tenantId, user.tenantId))).limit(1);
+        if (!transfer) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+
+        const items = await db.select({
+            id: schema.stockTransferItems.id,
+            productId: schema.stockTransferItems.productId,
+            productName: schema.products.name,
+            sku: schema.products.sku,
+            quantity: schema.stockTransferItems.quantity,
+            qtyReceived: schema.stockTransferItems.qtyReceived,
+        }).from(schema.stockTransferItems)
+            .leftJoin(schema.products, eq(schema.stockTransferItems.productId, schema.products.id))
+            .where(eq(schema.stockTransferItems.transferId, transfer.id));
+
+        return { success: true, data: { ...transfer, items } };
+    });
+
+    // Ship transfer: draft -> shipped, stock leaves the source warehouse
+    fastify.post<{ Params: Static<typeof WarehouseIdParamsSchema> }>('/transfers/:id/ship', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                const [transfer] = await tx.select().from(schema.stockTransfers)
+                    .where(and(eq(schema.stockTransfers.id, request.params.id), eq(schema.stockTransfers.tenantId, user.tenantId)))
+                    .for('update').limit(1);
+                if (!transfer) throw new Error('Transfer not found');
+                if (transfer.status !== 'draft') throw new Error(`Cannot ship transfer with status: ${transfer.status}`);
+
+                const items = await tx.select({
+                    id: schema.stockTransferItems.id,
+                    productId: schema.stockTransferItems.productId,
+                    quantity: schema.stockTransferItems.quantity,
+                    productName: schema.products.name,
+                }).from(schema.stockTransferItems)
+                    .leftJoin(schema.products, eq(schema.stockTransferItems.productId, schema.products.id))
+                    .where(eq(schema.stockTransferItems.transferId, transfer.id));
+
+                // A product may appear on several lines; check the total against what is available
+                const needed = new Map<string, { productName: string | null; quantity: number }>();
+                for (const item of items) {
+                    const line = needed.get(item.productId);
+                    if (line) line.quantity += item.quantity;
+                    else needed.set(item.productId, { productName: item.productName, quantity: item.quantity });
+                }
+
+                const balances = await stockService.getBalances(tx, transfer.fromWarehouseId, [...needed.keys()], true);
+                for (const [productId, line] of needed) {
+                    const available = balances.get(productId)!.available;
+                    if (available < line.quantity) {
+                        throw new Error(`Insufficient stock for ${line.productName}. Only ${available} available.`);
+                    }
+                }
+
+                for (const item of items) {
+                    const { lots } = await stockService.adjustQuantity(tx, {
+                        tenantId: user.tenantId, warehouseId: transfer.fromWarehouseId, productId: item.productId,
+                        change: -item.quantity, movementType: 'out', referenceType: 'transfer', referenceId: transfer.id,
+                        createdBy: user.id, notes: `Transfer shipped: ${transfer.transferNumber}`,
+                    });
+                    // Remember which lots left so the destination can book the same ones
+                    if (lots.length > 0) {
+                        await tx.update(schema.stockTransferItems)
+                            .set({ lots: lots.map(l => ({ lotNumber: l.lotNumber, expiryDate: l.expiryDate, quantity: l.quantity })) })
+                            .where(eq(schema.stockTransferItems.id, item.id));
+                    }
+                }
+
+                const [updated] = await tx.update(schema.stockTransfers).set({
+                    status: 'shipped', shippedBy: user.id, shippedAt: new Date(), updatedAt: new Date(),
+                }).where(eq(schema.stockTransfers.id, transfer.id)).returning();
+                return updated;
+            });
+
+            await logAudit('stock_transfer.ship', { transferNumber: result.transferNumber }, user.id, user.tenantId, result.id, 'stock_transfer');
+            return { success: true, data: result };
+        } catch (error: any) {
+            if (error.message === 'Transfer not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Receive transfer: shipped -> received, stock enters the destination warehouse
+    fastify.post<{ Params: Static<typeof WarehouseIdParamsSchema>; Body: ReceiveTransferBody }>('/transfers/:id/receive', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema, body: ReceiveTransferBodySchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const body = request.body || {};
+
+        try {
+            const result = await db.transaction(async (tx) => {
+                const [transfer] = await tx.select().from(schema.stockTransfers)
+                    .where(and(eq(schema.stockTransfers.id, request.params.id), eq(schema.stockTransfers.tenantId, user.tenantId)))
+                    .for('update').limit(1);
+                if (!transfer) throw new Error('Transfer not found');
+                if (transfer.status !== 'shipped') throw new Error(`Cannot receive transfer with status: ${transfer.status}`);
+
+                const items = await tx.select().from(schema.stockTransferItems)
+                    .where(eq(schema.stockTransferItems.transferId, transfer.id));
+                // Received quantities are per product; lines of the same product take from it in order
+                const receivedMap = new Map((body.items || []).map(i => [i.productId, i.qtyReceived]));
+
+                const shortages: string[] = [];
+                for (const item of items) {
+                    const reported = receivedMap.get(item.productId);
+                    const qtyReceived = reported === undefined ? item.quantity : Math.min(reported, item.quantity);
+                    if (reported !== undefined) receivedMap.set(item.productId, reported - qtyReceived);
+                    const qtyLost = item.quantity - qtyReceived;
+                    if (qtyLost > 0) {
+                        shortages.push(`${item.productId}: ${qtyLost}`);
+                    }
+
+                    await tx.update(schema.stockTransferItems).set({ qtyReceived })
+                        .where(eq(schema.stockTransferItems.id, item.id));
+
+                    // Book everything shipped, shipped lots first (earliest expiry first) and the
+                    // rest as untracked stock, then write the missing units off as a transfer loss
+                    let remaining = item.quantity;
+                    for (const lot of item.lots || []) {
+                        if (remaining <= 0) break;
+                        const qty = Math.min(lot.quantity, remaining);
+                        await stockService.adjustQuantity(tx, {
+                            tenantId: user.tenantId, warehouseId: transfer.toWarehouseId, productId: item.productId,
+                            change: qty, movementType: 'in', referenceType: 'transfer', referenceId: transfer.id,
+                            createdBy: user.id, notes: `Transfer received: ${transfer.transferNumber}`,
+                            lot: { lotNumber: lot.lotNumber, expiryDate: lot.expiryDate },
+                        });
+                        remaining -= qty;
+                    }
+                    if (remaining > 0) {
+                        await stockService.adjustQuantity(tx, {
+                            tenantId: user.tenantId, warehouseId: transfer.toWarehouseId, productId: item.productId,
+                            change: remaining, movementType: 'in', referenceType: 'transfer', referenceId: transfer.id,
+                            createdBy: user.id, notes: `Transfer received: ${transfer.transferNumber}`,
+                        });
+                    }
+                    if (qtyLost > 0) {
+                        await stockService.adjustQuantity(tx, {
+                            tenantId: user.tenantId, warehouseId: transfer.toWarehouseId, productId: item.productId,
+                            change: -qtyLost, movementType: 'adjust', referenceType: 'transfer', referenceId: transfer.id,
+                            createdBy: user.id, notes: `Transfer loss: ${transfer.transferNumber}`,
+                        });
+                    }
+                }
+
+                const noteLines = [transfer.notes, body.notes, shortages.length > 0 ? `[Short received: ${shortages.join(', ')}]` : null]
+                    .filter(Boolean);
+
+                const [updated] = await tx.update(schema.stockTransfers).set({
+                    status: 'received', receivedBy: user.id, receivedAt: new Date(), updatedAt: new Date(),
+                    notes: noteLines.length > 0 ? noteLines.join('\n') : null,
+                }).where(eq(schema.stockTransfers.id, transfer.id)).returning();
+                return updated;
+            });
+
+            await logAudit('stock_transfer.receive', { transferNumber: result.transferNumber }, user.id, user.tenantId, result.id, 'stock_transfer');
+            return { success: true, data: result };
+        } catch (error: any) {
+            if (error.message === 'Transfer not found') return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+            return reply.code(400).send({ success: false, error: { code: 'BAD_REQUEST', message: error.message } });
+        }
+    });
+
+    // Cancel transfer (drafts only - shipped stock must be received)
+    fastify.post<{ Params: Static<typeof WarehouseIdParamsSchema> }>('/transfers/:id/cancel', {
+        preHandler: [fastify.authenticate],
+        schema: { params: WarehouseIdParamsSchema },
+    }, async (request, reply) => {
+        const user = request.user!;
+        if (!stockRoles.includes(user.role)) {
+            return reply.code(403).send({ success: false, error: { code: 'FORBIDDEN' } });
+        }
+
+        const [transfer] = await db.select().from(schema.stockTransfers)
+            .where(and(eq(schema.stockTransfers.id, request.params.id), eq(schema.stockTransfers.tenantId, user.tenantId))).limit(1);
+        if (!transfer) return reply.code(404).send({ success: false, error: { code: 'NOT_FOUND' } });
+        if (transfer.status !== 'draft') {
+            return reply.code(400).send({ success: false, error: { code: 'INVALID_STATUS', message: `Cannot cancel transfer with status: ${transfer.status}` } });
+        }
+
+        const [updated] = await db.update(schema.stockTransfers).set({ status: 'cancelled', updatedAt: new Date() })
+            .where(eq(schema.stockTransfers.id, transfer.id)).returning();
+        return { success: true, data: updated };
+    });
+};
@@ -0,0 +1,182 @@
+/**
+ * BinService - Shelf locations inside a warehouse
+ *
+ * Bins are organised zone -> aisle -> bin code. Pick lists are ordered along a
+ * serpentine walking path: aisles are visited in order and every other aisle
+ * is walked in reverse so the picker never doubles back to the aisle start.
+ */
+
+import { schema } from '../db';
+import { eq, and, asc, sql, inArray } from 'drizzle-orm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BinLocation {
+    id: string;
+    code: string;
+    barcode: string | null;
+    zone: string | null;
+    aisle: string | null;
+    pickSequence: number | null;
+}
+
+export interface PutawaySuggestion {
+    productId: string;
+    bin: BinLocation | null;
+    reason: 'default_bin' | 'empty_bin' | 'no_bins';
+}
+
+// ============================================================================
+// WALKING PATH
+// ============================================================================
+
+const naturalCompare = (a: string, b: string) =>
+    a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+/**
+ * Orders items by where their bin sits on the walking path.
+ * Bins with an explicit pickSequence come first in that order; the rest follow
+ * zone, then aisle, alternating direction by aisle. Items without a bin go last
+ * and keep their relative order.
+ */
+export function sortByWalkingPath<T>(items: T[], binOf: (item: T) => BinLocation | null): T[] {
+    const aisleKeys = [...new Set(
+        items
+            .map(binOf)
+            .filter((bin): bin is BinLocation => !!bin && bin.pickSequence == null)
+            .map(bin => `${bin.zone ?? ''}\u0000${bin.aisle ?? ''}`)
+    )].sort((a, b) => {
+        const [zoneA, aisleA] = a.split('\u0000');
+        const [zoneB, aisleB] = b.split('\u0000');
+        return naturalCompare(zoneA, zoneB) || naturalCompare(aisleA, aisleB);
+    });
+    const aisleIndex = new Map(aisleKeys.map((key, i) => [key, i]));
+
+    const compare = (a: BinLocation, b: BinLocation): number => {
+        const seqA = a.pickSequence ?? Number.POSITIVE_INFINITY;
+        const seqB = b.pickSequence ?? Number.POSITIVE_INFINITY;
+        if (seqA !== seqB) return seqA < seqB ? -1 : 1;
+        if (a.pickSequence != null) return naturalCompare(a.code, b.code);
+
+        const idxA = aisleIndex.get(`${a.zone ?? ''}\u0000${a.aisle ?? ''}`)!;
+        const idxB = aisleIndex.get(`${b.zone ?? ''}\u0000${b.aisle ?? ''}`)!;
+        if (idxA !== idxB) return idxA - idxB;
+
+        // Odd aisles are walked back towards the front
+        return idxA % 2 === 0 ? naturalCompare(a.code, b.code) : naturalCompare(b.code, a.code);
+    };
+
+    return items
+        .map((item, index) => ({ item, index, bin: binOf(item) }))
+        .sort((x, y) => {
+            if (x.bin && y.bin) return compare(x.bin, y.bin) || x.index - y.index;
+            if (x.bin) return -1;
+            if (y.bin) return 1;
+            return x.index - y.index;
+        })
+        .map(entry => entry.item);
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+const binColumns = {
+    id: schema.warehouseBins.id,
+    code: schema.warehouseBins.code,
+    barcode: schema.warehouseBins.barcode,
+    zone: schema.warehouseBins.zone,
+    aisle: schema.warehouseBins.aisle,
+    pickSequence: schema.warehouseBins.pickSequence,
+};
+
+export class BinService {
+    /**
+     * Default bins of the given products in one warehouse.
+     */
+    async getDefaultBins(tx: any, warehouseId: string, productIds: string[]): Promise<Map<string, BinLocation>> {
+        const bins = new Map<string, BinLocation>();
+        if (productIds.length === 0) return bins;
+
+        const rows: (BinLocation & { productId: string })[] = await tx
+            .select({ productId: schema.warehouseStock.productId, ...binColumns })
+            .from(schema.warehouseStock)
+            .innerJoin(schema.warehouseBins, eq(schema.warehouseStock.defaultBinId, schema.warehouseBins.id))
+            .where(and(
+                eq(schema.warehouseStock.warehouseId, warehouseId),
+                inArray(schema.warehouseStock.productId, productIds)
+            ));
+
+        for (const { productId, ...bin } of rows) {
+            bins.set(productId, bin);
+        }
+        return bins;
+    }
+
+    /**
+     * Finds an active bin in a warehouse by its barcode or code.
+     */
+    async findByBarcode(tx: any, warehouseId: string, barcode: string): Promise<BinLocation | null> {
+        const [bin] = await tx
+            .select(binColumns)
+            .from(schema.warehouseBins)
+            .where(and(
+                eq(schema.warehouseBins.warehouseId, warehouseId),
+                eq(schema.warehouseBins.isActive, true),
+                sql`(${schema.warehouseBins.barcode} = ${barcode} OR ${schema.warehouseBins.code} = ${barcode})`
+            ))
+            .limit(1);
+        return bin || null;
+    }
+
+    /**
+     * Where received goods should be shelved: the product's default bin, or
+     * else the first bin on the walking path that no product is assigned to.
+     */
+    async suggestPutaway(tx: any, warehouseId: string, productIds: string[]): Promise<PutawaySuggestion[]> {
+        const defaults = await this.getDefaultBins(tx, warehouseId, productIds);
+
+        let freeBins: BinLocation[] = [];
+        if (productIds.some(id => !defaults.has(id))) {
+            const rows: BinLocation[] = await tx
+                .select(binColumns)
+                .from(schema.warehouseBins)
+                .where(and(
+                    eq(schema.warehouseBins.warehouseId, warehouseId),
+                    eq(schema.warehouseBins.isActive, true),
+                    sql`NOT EXISTS (
+                        SELECT 1 FROM ${schema.warehouseStock}
+                        WHERE ${schema.warehouseStock.defaultBinId} = ${schema.warehouseBins.id}
+                    )`
+                ))
+                .orderBy(asc(schema.warehouseBins.code));
+            freeBins = sortByWalkingPath(rows, bin => bin);
+        }
+
+        let next = 0;
+        return productIds.map(productId => {
+            const bin = defaults.get(productId);
+            if (bin) return { productId, bin, reason: 'default_bin' as const };
+            // Hand out a different free bin to each unassigned product
+            const free = freeBins[next++] ?? null;
+            return { productId, bin: free, reason: free ? 'empty_bin' as const : 'no_bins' as const };
+        });
+    }
+
+    /**
+     * Assigns (or clears, with null) a product's default bin in a warehouse.
+     */
+    async setDefaultBin(tx: any, tenantId: string, warehouseId: string, productId: string, binId: string | null): Promise<void> {
+        await tx
+            .insert(schema.warehouseStock)
+            .values({ tenantId, warehouseId, productId, defaultBinId: binId })
+            .onConflictDoUpdate({
+                target: [schema.warehouseStock.warehouseId, schema.warehouseStock.productId],
+                set: { defaultBinId: binId, updatedAt: new Date() },
+            });
+    }
+}
+
+export const binService = new BinService();
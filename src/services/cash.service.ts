@@ -0,0 +1,452 @@
+/**
+ * CashService - Cash on hand for field users and end-of-day handovers
+ *
+ * Every payment a driver or sales rep collects with a cash payment method
+ * (`is_cash`) adds a `collection` entry to their cash ledger; card and bank
+ * payments never pass through their hands, so cash on hand is the sum of their entries per payment
+ * method. At the end of the day the collector declares what they hand over;
+ * the expected amount is snapshotted at that moment. When the cashier
+ * confirms, the received amount leaves the ledger and any difference against
+ * the expectation is booked as a shortage or overage, which brings the
+ * handed-over balance back to zero. Collections made after submitting stay
+ * on hand for the next handover.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, inArray, gte, lt } from 'drizzle-orm';
+import { getTenantDayRange } from '../lib/tenant-time';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MethodBalance {
+    paymentMethodId: string;
+    methodName: string | null;
+    amount: number;
+}
+
+export interface CashOnHand {
+    total: number;
+    methods: MethodBalance[];
+}
+
+export interface HandoverInput {
+    businessDate?: string;
+    lines: { paymentMethodId: string; declaredAmount: number }[];
+    notes?: string;
+}
+
+export interface ConfirmInput {
+    /** Counted amounts; methods left out are taken as declared */
+    lines?: { paymentMethodId: string; receivedAmount: number }[];
+    notes?: string;
+}
+
+export type ReconciliationStatus = 'not_submitted' | 'pending' | 'reconciled' | 'discrepancy';
+
+export interface ReconciliationRow {
+    userId: string;
+    userName: string | null;
+    role: string | null;
+    collected: number;
+    expected: number;
+    declared: number;
+    received: number;
+    shortage: number;
+    overage: number;
+    onHand: number;
+    status: ReconciliationStatus;
+    handoverIds: string[];
+    methods: {
+        paymentMethodId: string;
+        methodName: string | null;
+        collected: number;
+        declared: number;
+        received: number;
+        difference: number;
+    }[];
+}
+
+/** Roles whose collections are tracked as cash on hand */
+export const CASH_COLLECTOR_ROLES = ['sales_rep', 'driver'];
+
+/** Roles that receive handovers */
+export const CASHIER_ROLES = ['tenant_admin', 'supervisor'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class CashService {
+    /**
+     * Adds a collected payment to the collector's cash on hand. Call inside
+     * the transaction that creates the payment.
+     */
+    async recordCollection(tx: any, payment: { id: string; tenantId: string; paymentMethodId: string; amount: string | number }, collector: { id: string; role: string }) {
+        if (!CASH_COLLECTOR_ROLES.includes(collector.role)) return;
+        if (Number(payment.amount) <= 0) return;
+
+        const [method] = await tx.select({ isCash: schema.paymentMethods.isCash })
+            .from(schema.paymentMethods)
+            .where(eq(schema.paymentMethods.id, payment.paymentMethodId))
+            .limit(1);
+        if (!method?.isCash) return;
+
+        await tx.insert(schema.cashLedgerEntries).values({
+            tenantId: payment.tenantId,
+            userId: collector.id,
+            paymentMethodId: payment.paymentMethodId,
+            type: 'collection',
+            amount: String(payment.amount),
+            paymentId: payment.id,
+        });
+    }
+
+    /**
+     * Cash on hand per payment method (methods with a zero balance are left out).
+     */
+    async getOnHand(tenantId: string, userId: string, tx: any = db): Promise<CashOnHand> {
+        const rows: { paymentMethodId: string; methodName: string | null; amount: string }[] = await tx
+            .select({
+                paymentMethodId: schema.cashLedgerEntries.paymentMethodId,
+                methodName: schema.paymentMethods.name,
+                amount: sql<string>`COALESCE(SUM(${schema.cashLedgerEntries.amount}), 0)`,
+            })
+            .from(schema.cashLedgerEntries)
+            .leftJoin(schema.paymentMethods, eq(schema.cashLedgerEntries.paymentMethodId, schema.paymentMethods.id))
+            .where(and(eq(schema.cashLedgerEntries.tenantId, tenantId), eq(schema.cashLedgerEntries.userId, userId)))
+            .groupBy(schema.cashLedgerEntries.paymentMethodId, schema.paymentMethods.name);
+
+        const methods = rows
+            .map(row => ({ paymentMethodId: row.paymentMethodId, methodName: row.methodName, amount: round2(Number(row.amount)) }))
+            .filter(row => row.amount !== 0);
+
+        return { total: round2(methods.reduce((sum, m) => sum + m.amount, 0)), methods };
+    }
+
+    /**
+     * Cash on hand of every field user with a non-zero balance.
+     */
+    async listBalances(tenantId: string) {
+        const rows = await db
+            .select({
+                userId: schema.cashLedgerEntries.userId,
+                userName: schema.users.name,
+                role: schema.users.role,
+                amount: sql<string>`COALESCE(SUM(${schema.cashLedgerEntries.amount}), 0)`,
+                lastCollectedAt: sql<string | null>`MAX(${schema.cashLedgerEntries.createdAt}) FILTER (WHERE ${schema.cashLedgerEntries.type} = 'collection')`,
+            })
+            .from(schema.cashLedgerEntries)
+            .innerJoin(schema.users, eq(schema.cashLedgerEntries.userId, schema.users.id))
+            .where(eq(schema.cashLedgerEntries.tenantId, tenantId))
+            .groupBy(schema.cashLedgerEntries.userId, schema.users.name, schema.users.role);
+
+        return rows
+            .map(row => ({ ...row, amount: round2(Number(row.amount)) }))
+            .filter(row => row.amount !== 0)
+            .sort((a, b) => b.amount - a.amount);
+    }
+
+    /**
+     * Throws when the driver holds more unreconciled cash than the tenant allows.
+     */
+    async assertCanStartTrip(tenantId: string, driverId: string) {
+        const [tenant] = await db.select({ limit: schema.tenants.unreconciledCashLimit })
+            .from(schema.tenants).where(eq(schema.tenants.id, tenantId)).limit(1);
+        if (tenant?.limit === null || tenant?.limit === undefined) return;
+
+        const limit = Number(tenant.limit);
+        const { total } = await this.getOnHand(tenantId, driverId);
+        if (total > limit) {
+            throw new Error(`Unreconciled cash of ${total} exceeds the limit of ${limit}; hand over cash before starting a trip`);
+        }
+    }
+
+    /**
+     * Closes the collector's day with the amounts they hand over per method.
+     */
+    async submitHandover(tenantId: string, userId: string, input: HandoverInput) {
+        const businessDate = input.businessDate ?? (await getTenantDayRange(tenantId)).todayStr;
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(businessDate)) throw new Error('Invalid business date');
+
+        const declared = new Map<string, number>();
+        for (const line of input.lines) {
+            if (declared.has(line.paymentMethodId)) throw new Error('A payment method appears more than once');
+            if (line.declaredAmount < 0) throw new Error('Declared amount cannot be negative');
+            declared.set(line.paymentMethodId, round2(line.declaredAmount));
+        }
+
+        return db.transaction(async (tx) => {
+            // Serialise handovers of the same user
+            await tx.select({ id: schema.users.id }).from(schema.users)
+                .where(eq(schema.users.id, userId)).for('update').limit(1);
+
+            const [open] = await tx.select({ id: schema.cashHandovers.id }).from(schema.cashHandovers)
+                .where(and(eq(schema.cashHandovers.userId, userId), eq(schema.cashHandovers.status, 'submitted')))
+                .limit(1);
+            if (open) throw new Error('A handover is already waiting for confirmation');
+
+            const onHand = await this.getOnHand(tenantId, userId, tx);
+            const expected = new Map(onHand.methods.map(m => [m.paymentMethodId, m.amount]));
+
+            const methodIds = [...new Set([...expected.keys(), ...declared.keys()])];
+            if (methodIds.length === 0 || [...declared.values(), ...expected.values()].every(v => v === 0)) {
+                throw new Error('No cash to hand over');
+            }
+
+            const methods = await tx.select({ id: schema.paymentMethods.id, name: schema.paymentMethods.name })
+                .from(schema.paymentMethods)
+                .where(and(eq(schema.paymentMethods.tenantId, tenantId), inArray(schema.paymentMethods.id, methodIds)));
+            if (methods.length !== methodIds.length) throw new Error('Payment method not found');
+            const methodNames = new Map(methods.map(m => [m.id, m.name]));
+
+            const expectedTotal = round2(methodIds.reduce((sum, id) => sum + (expected.get(id) ?? 0), 0));
+            const declaredTotal = round2(methodIds.reduce((sum, id) => sum + (declared.get(id) ?? 0), 0));
+
+            const [handover] = await tx.insert(schema.cashHandovers).values({
+                tenantId,
+                userId,
+                businessDate,
+                expectedAmount: String(expectedTotal),
+                declaredAmount: String(declaredTotal),
+                notes: input.notes || null,
+            }).returning();
+
+            await tx.insert(schema.cashHandoverLines).values(methodIds.map(id => ({
+                handoverId: handover.id,
+                paymentMethodId: id,
+                methodName: methodNames.get(id) ?? null,
+                expectedAmount: String(expected.get(id) ?? 0),
+                declaredAmount: String(declared.get(id) ?? 0),
+            })));
+
+            return handover;
+        });
+    }
+
+    /**
+     * Cashier confirms the money received. Posts the handover and any
+     * shortage/overage to the collector's ledger.
+     */
+    async confirmHandover(tenantId: string, cashierId: string, handoverId: string, input: ConfirmInput) {
+        return db.transaction(async (tx) => {
+            const [handover] = await tx.select().from(schema.cashHandovers)
+                .where(and(eq(schema.cashHandovers.id, handoverId), eq(schema.cashHandovers.tenantId, tenantId)))
+                .for('update').limit(1);
+            if (!handover) throw new Error('Handover not found');
+            if (handover.status !== 'submitted') throw new Error('Handover is not waiting for confirmation');
+            if (handover.userId === cashierId) throw new Error('You cannot confirm your own handover');
+
+            const lines = await tx.select().from(schema.cashHandoverLines)
+                .where(eq(schema.cashHandoverLines.handoverId, handoverId));
+
+            const counted = new Map<string, number>();
+            for (const line of input.lines ?? []) {
+                if (!lines.some(l => l.paymentMethodId === line.paymentMethodId)) throw new Error('Payment method is not part of this handover');
+                if (line.receivedAmount < 0) throw new Error('Received amount cannot be negative');
+                counted.set(line.paymentMethodId, round2(line.receivedAmount));
+            }
+
+            const now = new Date();
+            let receivedTotal = 0;
+            let differenceTotal = 0;
+
+            for (const line of lines) {
+                const expected = Number(line.expectedAmount);
+                const received = counted.get(line.paymentMethodId) ?? Number(line.declaredAmount);
+                const difference = round2(received - expected);
+                receivedTotal += received;
+                differenceTotal += difference;
+
+                const entry = { tenantId, userId: handover.userId, paymentMethodId: line.paymentMethodId, handoverId, createdAt: now };
+                if (received !== 0) {
+                    await tx.insert(schema.cashLedgerEntries).values({ ...entry, type: 'handover', amount: String(-received) });
+                }
+                if (difference !== 0) {
+                    await tx.insert(schema.cashLedgerEntries).values({
+                        ...entry,
+                        type: difference < 0 ? 'shortage' : 'overage',
+                        amount: String(difference),
+                    });
+                }
+
+                await tx.update(schema.cashHandoverLines)
+                    .set({ receivedAmount: String(received), differenceAmount: String(difference) })
+                    .where(eq(schema.cashHandoverLines.id, line.id));
+            }
+
+            const [updated] = await tx.update(schema.cashHandovers).set({
+                status: 'confirmed',
+                receivedAmount: String(round2(receivedTotal)),
+                differenceAmount: String(round2(differenceTotal)),
+                cashierNotes: input.notes || null,
+                confirmedByUserId: cashierId,
+                confirmedAt: now,
+                updatedAt: now,
+            }).where(eq(schema.cashHandovers.id, handoverId)).returning();
+
+            return updated;
+        });
+    }
+
+    /**
+     * Sends a handover back; the collector's cash on hand is unchanged and
+     * they can submit again.
+     */
+    async rejectHandover(tenantId: string, cashierId: string, handoverId: string, notes: string) {
+        const [updated] = await db.update(schema.cashHandovers).set({
+            status: 'rejected',
+            cashierNotes: notes,
+            confirmedByUserId: cashierId,
+            confirmedAt: new Date(),
+            updatedAt: new Date(),
+        }).where(and(
+            eq(schema.cashHandovers.id, handoverId),
+            eq(schema.cashHandovers.tenantId, tenantId),
+            eq(schema.cashHandovers.status, 'submitted')
+        )).returning();
+
+        if (!updated) throw new Error('Handover not found or not waiting for confirmation');
+        return updated;
+    }
+
+    /**
+     * Handover with its lines and the names of the people involved.
+     */
+    async getHandover(tenantId: string, handoverId: string) {
+        const [handover] = await db.select({
+            handover: schema.cashHandovers,
+            userName: schema.users.name,
+        }).from(schema.cashHandovers)
+            .leftJoin(schema.users, eq(schema.cashHandovers.userId, schema.users.id))
+            .where(and(eq(schema.cashHandovers.id, handoverId), eq(schema.cashHandovers.tenantId, tenantId)))
+            .limit(1);
+        if (!handover) return null;
+
+        const lines = await db.select().from(schema.cashHandoverLines)
+            .where(eq(schema.cashHandoverLines.handoverId, handoverId));
+
+        let confirmedByName: string | null = null;
+        if (handover.handover.confirmedByUserId) {
+            const [cashier] = await db.select({ name: schema.users.name }).from(schema.users)
+                .where(eq(schema.users.id, handover.handover.confirmedByUserId)).limit(1);
+            confirmedByName = cashier?.name ?? null;
+        }
+
+        return { ...handover.handover, userName: handover.userName, confirmedByName, lines };
+    }
+
+    /**
+     * Per-user reconciliation for one day: what was collected that day, what
+     * was declared and received in that day's handovers, and the cash still
+     * on hand now.
+     */
+    async getReconciliation(tenantId: string, date: string, userId?: string): Promise<ReconciliationRow[]> {
+        // The tenant's calendar day, not the UTC one (noon UTC falls on the same date in every tenant zone)
+        const { startOfDay, endOfDay } = await getTenantDayRange(tenantId, new Date(`${date}T12:00:00Z`));
+        const entryConditions = [
+            eq(schema.cashLedgerEntries.tenantId, tenantId),
+            eq(schema.cashLedgerEntries.type, 'collection'),
+            gte(schema.cashLedgerEntries.createdAt, startOfDay),
+            lt(schema.cashLedgerEntries.createdAt, endOfDay),
+        ];
+        if (userId) entryConditions.push(eq(schema.cashLedgerEntries.userId, userId));
+
+        const collections = await db.select({
+            userId: schema.cashLedgerEntries.userId,
+            paymentMethodId: schema.cashLedgerEntries.paymentMethodId,
+            amount: sql<string>`COALESCE(SUM(${schema.cashLedgerEntries.amount}), 0)`,
+        }).from(schema.cashLedgerEntries)
+            .where(and(...entryConditions))
+            .groupBy(schema.cashLedgerEntries.userId, schema.cashLedgerEntries.paymentMethodId);
+
+        const handoverConditions = [
+            eq(schema.cashHandovers.tenantId, tenantId),
+            eq(schema.cashHandovers.businessDate, date),
+            inArray(schema.cashHandovers.status, ['submitted', 'confirmed']),
+        ];
+        if (userId) handoverConditions.push(eq(schema.cashHandovers.userId, userId));
+
+        const handovers = await db.select().from(schema.cashHandovers).where(and(...handoverConditions));
+        const handoverLines = handovers.length > 0
+            ? await db.select().from(schema.cashHandoverLines)
+                .where(inArray(schema.cashHandoverLines.handoverId, handovers.map(h => h.id)))
+            : [];
+
+        const userIds = [...new Set([...collections.map(c => c.userId), ...handovers.map(h => h.userId)])];
+        if (userIds.length === 0) return [];
+
+        const users = await db.select({ id: schema.users.id, name: schema.users.name, role: schema.users.role })
+            .from(schema.users).where(inArray(schema.users.id, userIds));
+        const methods = await db.select({ id: schema.paymentMethods.id, name: schema.paymentMethods.name })
+            .from(schema.paymentMethods).where(eq(schema.paymentMethods.tenantId, tenantId));
+        const methodNames = new Map(methods.map(m => [m.id, m.name]));
+
+        const rows: ReconciliationRow[] = [];
+        for (const id of userIds) {
+            const user = users.find(u => u.id === id);
+            const userHandovers = handovers.filter(h => h.userId === id);
+            const userLines = handoverLines.filter(l => userHandovers.some(h => h.id === l.handoverId));
+            const confirmedIds = new Set(userHandovers.filter(h => h.status === 'confirmed').map(h => h.id));
+
+            const byMethod = new Map<string, ReconciliationRow['methods'][number]>();
+            const methodRow = (methodId: string) => {
+                let row = byMethod.get(methodId);
+                if (!row) {
+                    row = { paymentMethodId: methodId, methodName: methodNames.get(methodId) ?? null, collected: 0, declared: 0, received: 0, difference: 0 };
+                    byMethod.set(methodId, row);
+                }
+                return row;
+            };
+
+            for (const c of collections.filter(c => c.userId === id)) methodRow(c.paymentMethodId).collected += Number(c.amount);
+            for (const line of userLines) {
+                const row = methodRow(line.paymentMethodId);
+                row.declared += Number(line.declaredAmount);
+                if (confirmedIds.has(line.handoverId)) {
+                    row.received += Number(line.receivedAmount ?? 0);
+                    row.difference += Number(line.differenceAmount ?? 0);
+                }
+            }
+
+            const differences = userHandovers.filter(h => h.status === 'confirmed').map(h => Number(h.differenceAmount ?? 0));
+            const shortage = round2(-differences.filter(d => d < 0).reduce((sum, d) => sum + d, 0));
+            const overage = round2(differences.filter(d => d > 0).reduce((sum, d) => sum + d, 0));
+
+            let status: ReconciliationStatus = 'not_submitted';
+            if (userHandovers.some(h => h.status === 'submitted')) status = 'pending';
+            else if (userHandovers.length > 0) status = shortage > 0 || overage > 0 ? 'discrepancy' : 'reconciled';
+
+            const methodRows = [...byMethod.values()].map(m => ({
+                ...m,
+                collected: round2(m.collected),
+                declared: round2(m.declared),
+                received: round2(m.received),
+                difference: round2(m.difference),
+            }));
+
+            rows.push({
+                userId: id,
+                userName: user?.name ?? null,
+                role: user?.role ?? null,
+                collected: round2(methodRows.reduce((sum, m) => sum + m.collected, 0)),
+                expected: round2(userHandovers.reduce((sum, h) => sum + Number(h.expectedAmount), 0)),
+                declared: round2(userHandovers.reduce((sum, h) => sum + Number(h.declaredAmount), 0)),
+                received: round2(userHandovers.reduce((sum, h) => sum + Number(h.receivedAmount ?? 0), 0)),
+                shortage,
+                overage,
+                onHand: (await this.getOnHand(tenantId, id)).total,
+                status,
+                handoverIds: userHandovers.map(h => h.id),
+                methods: methodRows,
+            });
+        }
+
+        return rows.sort((a, b) => (a.userName ?? '').localeCompare(b.userName ?? ''));
+    }
+}
+
+export const cashService = new CashService();
@@ -0,0 +1,349 @@
+/**
+ * CreditNoteService - Credit notes for processed returns
+ *
+ * Processing a return with a refund creates one credit note. The refund is
+ * tax-inclusive; the tax of the returned line is reversed at that line's
+ * rate. Notes above the tenant's approval limit wait for a supervisor, the
+ * rest are issued straight away. On issue a note takes the next number from
+ * the tenant's credit_note document counter and is settled either as account credit
+ * (allocated to the return's order first, the rest left for later orders) or
+ * as a cash refund paid out through a negative payment.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, desc, or, ilike } from 'drizzle-orm';
+import { customerLedgerService } from './customer-ledger.service';
+import { generalLedgerService } from './general-ledger.service';
+import { nextDocumentSequence, formatDocumentNumber } from '../lib/document-numbers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CreditNoteSettlement = 'credit' | 'cash_refund';
+
+export interface CreateCreditNoteInput {
+    amount: number;
+    settlement?: CreditNoteSettlement;
+    paymentMethodId?: string;
+    notes?: string;
+}
+
+export interface CreditNoteListFilters {
+    status?: string;
+    customerId?: string;
+    orderId?: string;
+    search?: string;
+    page: number;
+    limit: number;
+}
+
+// Roles that may approve credit notes; their own notes never wait
+export const CREDIT_NOTE_APPROVER_ROLES = ['tenant_admin', 'super_admin', 'supervisor'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class CreditNoteService {
+    /**
+     * Creates the credit note for a return being processed, issuing it unless
+     * it needs approval. Returns null when there is nothing to refund.
+     */
+    async createForReturn(
+        tx: any,
+        returnRecord: { id: string; tenantId: string; orderId: string; orderItemId: string; qtyReturned: number },
+        input: CreateCreditNoteInput,
+        user: { id: string; role: string }
+    ) {
+        const amount = round2(input.amount);
+        if (amount <= 0) return null;
+
+        const settlement = input.settlement ?? 'credit';
+        if (settlement === 'cash_refund') {
+            if (!input.paymentMethodId) throw new Error('A payment method is required for cash refunds');
+            const [method] = await tx.select({ id: schema.paymentMethods.id }).from(schema.paymentMethods)
+                .where(and(eq(schema.paymentMethods.id, input.paymentMethodId), eq(schema.paymentMethods.tenantId, returnRecord.tenantId)))
+                .limit(1);
+            if (!method) throw new Error('Payment method not found');
+        }
+
+        const [existing] = await tx.select({ id: schema.creditNotes.id }).from(schema.creditNotes)
+            .where(eq(schema.creditNotes.returnId, returnRecord.id)).limit(1);
+        if (existing) throw new Error('Return already has a credit note');
+
+        const [order] = await tx.select({
+            id: schema.orders.id,
+            customerId: schema.orders.customerId,
+            totalAmount: schema.orders.totalAmount,
+        }).from(schema.orders).where(eq(schema.orders.id, returnRecord.orderId)).limit(1);
+        if (!order) throw new Error('Order not found');
+
+        const items: { id: string; qtyOrdered: number; lineTotal: string; discountAmount: string | null; taxAmount: string | null; productTaxRate: string | null }[] = await tx
+            .select({
+                id: schema.orderItems.id,
+                qtyOrdered: schema.orderItems.qtyOrdered,
+                lineTotal: schema.orderItems.lineTotal,
+                discountAmount: schema.orderItems.discountAmount,
+                taxAmount: schema.orderItems.taxAmount,
+                productTaxRate: schema.products.taxRate,
+            })
+            .from(schema.orderItems)
+            .leftJoin(schema.products, eq(schema.orderItems.productId, schema.products.id))
+            .where(eq(schema.orderItems.orderId, order.id));
+        const item = items.find(i => i.id === returnRecord.orderItemId);
+        if (!item) throw new Error('Order item not found');
+
+        // Returned units are worth their share of the line, scaled like the
+        // order total (order-level discount included)
+        const linesTotal = items.reduce((sum, i) => sum + Number(i.lineTotal), 0);
+        const unitValue = item.qtyOrdered > 0 ? Number(item.lineTotal) / item.qtyOrdered : 0;
+        const maxRefund = round2(unitValue * returnRecord.qtyReturned * (linesTotal > 0 ? Number(order.totalAmount) / linesTotal : 1));
+        if (amount > maxRefund + 0.01) throw new Error(`Refund exceeds the value of the returned items (${maxRefund})`);
+
+        // Reverse the tax at the rate the line was invoiced at
+        const [invoiced] = await tx.select({ invoiceId: schema.invoices.id, taxRate: schema.invoiceLines.taxRate })
+            .from(schema.invoices)
+            .leftJoin(schema.invoiceLines, and(eq(schema.invoiceLines.invoiceId, schema.invoices.id), eq(schema.invoiceLines.orderItemId, item.id)))
+            .where(and(eq(schema.invoices.orderId, order.id), eq(schema.invoices.status, 'issued')))
+            .limit(1);
+        const lineTax = Number(item.taxAmount ?? 0);
+        const taxable = Number(item.lineTotal) - Number(item.discountAmount ?? 0);
+        const taxRate = invoiced?.taxRate != null
+            ? Number(invoiced.taxRate)
+            : lineTax === 0 ? 0 : item.productTaxRate != null ? Number(item.productTaxRate) : taxable > 0 ? round2(lineTax / taxable * 100) : 0;
+        const taxAmount = round2(amount * taxRate / (100 + taxRate));
+
+        const [tenant] = await tx.select({ currency: schema.tenants.currency, approvalLimit: schema.tenants.creditNoteApprovalLimit })
+            .from(schema.tenants).where(eq(schema.tenants.id, returnRecord.tenantId)).limit(1);
+        const needsApproval = tenant?.approvalLimit != null
+            && amount > Number(tenant.approvalLimit)
+            && !CREDIT_NOTE_APPROVER_ROLES.includes(user.role);
+
+        const [note] = await tx.insert(schema.creditNotes).values({
+            tenantId: returnRecord.tenantId,
+            returnId: returnRecord.id,
+            orderId: order.id,
+            invoiceId: invoiced?.invoiceId ?? null,
+            customerId: order.customerId,
+            status: needsApproval ? 'pending_approval' : 'issued',
+            settlement,
+            currency: tenant?.currency || 'UZS',
+            subtotalAmount: String(round2(amount - taxAmount)),
+            taxRate: String(taxRate),
+            taxAmount: String(taxAmount),
+            totalAmount: String(amount),
+            paymentMethodId: settlement === 'cash_refund' ? input.paymentMethodId : null,
+            notes: input.notes ?? null,
+            createdBy: user.id,
+        }).returning();
+
+        return needsApproval ? note : this.issue(tx, note, user.id);
+    }
+
+    /**
+     * Approves a pending credit note and issues it.
+     */
+    async approve(tenantId: string, id: string, approver: { id: string }) {
+        return db.transaction(async (tx) => {
+            const note = await this.lockPending(tx, tenantId, id);
+            if (note.createdBy === approver.id) throw new Error('Credit notes cannot be approved by the user who created them');
+            return this.issue(tx, note, approver.id, true);
+        });
+    }
+
+    /**
+     * Rejects a pending credit note. The return keeps its processing but no
+     * longer carries a refund.
+     */
+    async reject(tenantId: string, id: string, approver: { id: string }, reason?: string) {
+        return db.transaction(async (tx) => {
+            const note = await this.lockPending(tx, tenantId, id);
+
+            const [rejected] = await tx.update(schema.creditNotes).set({
+                status: 'rejected',
+                approvedBy: approver.id,
+                approvedAt: new Date(),
+                rejectionReason: reason ?? null,
+                updatedAt: new Date(),
+            }).where(eq(schema.creditNotes.id, note.id)).returning();
+
+            await tx.update(schema.returns).set({ refundAmount: '0', updatedAt: new Date() })
+                .where(eq(schema.returns.id, note.returnId));
+
+            return rejected;
+        });
+    }
+
+    /**
+     * Allocates the unallocated part of an issued credit note to open orders
+     * (as given, or oldest first).
+     */
+    async allocate(tenantId: string, id: string, manual: { orderId: string; amount: number }[] | undefined, userId: string) {
+        return db.transaction(async (tx) => {
+            const [note] = await tx.select().from(schema.creditNotes)
+                .where(and(eq(schema.creditNotes.id, id), eq(schema.creditNotes.tenantId, tenantId)))
+                .for('update').limit(1);
+            if (!note) throw new Error('Credit note not found');
+            if (note.status !== 'issued' || note.settlement !== 'credit') throw new Error('Only issued account credit can be allocated');
+
+            return customerLedgerService.allocate(tx, this.allocationSource(note), { manual, userId });
+        });
+    }
+
+    /**
+     * Paginated credit notes with order, customer and allocated amounts.
+     */
+    async list(tenantId: string, filters: CreditNoteListFilters) {
+        const conditions: any[] = [eq(schema.creditNotes.tenantId, tenantId)];
+        if (filters.status) conditions.push(eq(schema.creditNotes.status, filters.status as any));
+        if (filters.customerId) conditions.push(eq(schema.creditNotes.customerId, filters.customerId));
+        if (filters.orderId) conditions.push(eq(schema.creditNotes.orderId, filters.orderId));
+        if (filters.search) {
+            conditions.push(or(
+                ilike(schema.creditNotes.creditNoteNumber, `%${filters.search}%`),
+                ilike(schema.customers.name, `%${filters.search}%`),
+                ilike(schema.orders.orderNumber, `%${filters.search}%`)
+            ));
+        }
+
+        const rows = await db.select({
+            id: schema.creditNotes.id,
+            creditNoteNumber: schema.creditNotes.creditNoteNumber,
+            status: schema.creditNotes.status,
+            settlement: schema.creditNotes.settlement,
+            returnId: schema.creditNotes.returnId,
+            orderId: schema.creditNotes.orderId,
+            orderNumber: schema.orders.orderNumber,
+            customerId: schema.creditNotes.customerId,
+            customerName: schema.customers.name,
+            currency: schema.creditNotes.currency,
+            taxAmount: schema.creditNotes.taxAmount,
+            totalAmount: schema.creditNotes.totalAmount,
+            allocatedAmount: sql<string>`(SELECT COALESCE(SUM(${schema.paymentAllocations.amount}), 0) FROM ${schema.paymentAllocations} WHERE ${schema.paymentAllocations.creditNoteId} = ${schema.creditNotes.id})`,
+            issueDate: schema.creditNotes.issueDate,
+            createdAt: schema.creditNotes.createdAt,
+        }).from(schema.creditNotes)
+            .innerJoin(schema.orders, eq(schema.creditNotes.orderId, schema.orders.id))
+            .innerJoin(schema.customers, eq(schema.creditNotes.customerId, schema.customers.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.creditNotes.createdAt))
+            .limit(filters.limit)
+            .offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.creditNotes)
+            .innerJoin(schema.orders, eq(schema.creditNotes.orderId, schema.orders.id))
+            .innerJoin(schema.customers, eq(schema.creditNotes.customerId, schema.customers.id))
+            .where(and(...conditions));
+        return { rows, total: Number(count) };
+    }
+
+    /**
+     * Credit note with the returned item, allocations and unallocated amount.
+     */
+    async getById(tenantId: string, id: string) {
+        const [row] = await db.select({
+            note: schema.creditNotes,
+            orderNumber: schema.orders.orderNumber,
+            customerName: schema.customers.name,
+            invoiceNumber: schema.invoices.invoiceNumber,
+            productName: schema.products.name,
+            qtyReturned: schema.returns.qtyReturned,
+            reason: schema.returns.reason,
+        }).from(schema.creditNotes)
+            .innerJoin(schema.orders, eq(schema.creditNotes.orderId, schema.orders.id))
+            .innerJoin(schema.customers, eq(schema.creditNotes.customerId, schema.customers.id))
+            .innerJoin(schema.returns, eq(schema.creditNotes.returnId, schema.returns.id))
+            .leftJoin(schema.products, eq(schema.returns.productId, schema.products.id))
+            .leftJoin(schema.invoices, eq(schema.creditNotes.invoiceId, schema.invoices.id))
+            .where(and(eq(schema.creditNotes.id, id), eq(schema.creditNotes.tenantId, tenantId)))
+            .limit(1);
+        if (!row) return null;
+
+        const { note, ...details } = row;
+        const allocations = await customerLedgerService.getAllocations(tenantId, note.id, 'credit_note');
+        const unallocated = note.status === 'issued' && note.settlement === 'credit'
+            ? await customerLedgerService.getUnallocated(db, this.allocationSource(note))
+            : 0;
+
+        return { ...note, ...details, allocations, unallocated };
+    }
+
+    /**
+     * Numbers the note, credits the customer and settles the credit.
+     */
+    private async issue(tx: any, note: typeof schema.creditNotes.$inferSelect, userId: string, approved = false) {
+        const [tenant] = await tx.select({ timezone: schema.tenants.timezone })
+            .from(schema.tenants).where(eq(schema.tenants.id, note.tenantId)).limit(1);
+        const sequenceNumber = await nextDocumentSequence(tx, note.tenantId, 'credit_note');
+
+        const [issued] = await tx.update(schema.creditNotes).set({
+            status: 'issued',
+            creditNoteNumber: formatDocumentNumber('CN-', sequenceNumber),
+            sequenceNumber,
+            issueDate: sql`(now() AT TIME ZONE ${tenant?.timezone || 'Asia/Tashkent'})::date`,
+            ...(approved ? { approvedBy: userId, approvedAt: new Date() } : {}),
+            updatedAt: new Date(),
+        }).where(eq(schema.creditNotes.id, note.id)).returning();
+
+        await customerLedgerService.postCreditNote(tx, issued, userId);
+        await generalLedgerService.postCreditNote(tx, issued, userId);
+
+        if (issued.settlement === 'cash_refund') {
+            const [refund] = await tx.insert(schema.payments).values({
+                tenantId: issued.tenantId,
+                paymentNumber: `REF-${Date.now()}`,
+                orderId: issued.orderId,
+                customerId: issued.customerId,
+                paymentMethodId: issued.paymentMethodId,
+                amount: String(-Number(issued.totalAmount)),
+                collectedBy: userId,
+                referenceNumber: issued.creditNoteNumber,
+                notes: `Refund for credit note ${issued.creditNoteNumber}`,
+                collectedAt: new Date(),
+            }).returning();
+            await customerLedgerService.postRefund(tx, refund, userId);
+            await generalLedgerService.postPayment(tx, refund, userId);
+
+            const [settled] = await tx.update(schema.creditNotes).set({ refundPaymentId: refund.id })
+                .where(eq(schema.creditNotes.id, issued.id)).returning();
+            return settled;
+        }
+
+        // Settle the return's own order first; the rest waits for later orders
+        await customerLedgerService.allocate(tx, this.allocationSource(issued), { preferOrderId: issued.orderId, fifo: false, userId });
+
+        // Same balance rule as a payment: pay down debt, the excess is credit
+        const amount = Number(issued.totalAmount);
+        const [customer] = await tx.select({ debtBalance: schema.customers.debtBalance, creditBalance: schema.customers.creditBalance })
+            .from(schema.customers).where(eq(schema.customers.id, issued.customerId)).limit(1);
+        if (customer) {
+            const currentDebt = Number(customer.debtBalance || 0);
+            const currentCredit = Number(customer.creditBalance || 0);
+            await tx.update(schema.customers).set({
+                debtBalance: String(round2(Math.max(0, currentDebt - amount))),
+                creditBalance: String(round2(currentCredit + Math.max(0, amount - currentDebt))),
+                updatedAt: new Date(),
+            }).where(eq(schema.customers.id, issued.customerId));
+        }
+
+        return issued;
+    }
+
+    private async lockPending(tx: any, tenantId: string, id: string): Promise<typeof schema.creditNotes.$inferSelect> {
+        const [note] = await tx.select().from(schema.creditNotes)
+            .where(and(eq(schema.creditNotes.id, id), eq(schema.creditNotes.tenantId, tenantId)))
+            .for('update').limit(1);
+        if (!note) throw new Error('Credit note not found');
+        if (note.status !== 'pending_approval') throw new Error('Credit note is not awaiting approval');
+        return note;
+    }
+
+    private allocationSource(note: { id: string; tenantId: string; customerId: string; totalAmount: string }) {
+        return { id: note.id, tenantId: note.tenantId, customerId: note.customerId, amount: note.totalAmount, kind: 'credit_note' as const };
+    }
+}
+
+export const creditNoteService = new CreditNoteService();
@@ -0,0 +1,461 @@
+/**
+ * CustomerLedgerService - Accounts receivable sub-ledger per customer
+ *
+ * Deliveries and cash refunds debit the customer; payments and credit notes
+ * for returned goods credit them. The ledger balance is what the customer owes for
+ * goods received, and drives the account statement. Payments are also
+ * allocated to individual orders (oldest first, or as the user chooses) so
+ * each order's paidAmount and paymentStatus agree with the money received.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, asc, desc, notInArray, inArray } from 'drizzle-orm';
+import { AllocationError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LedgerEntryType = 'delivery' | 'payment' | 'return' | 'credit_note' | 'adjustment';
+
+export type AllocationSourceKind = 'payment' | 'credit_note';
+
+// A payment or an issued credit note being allocated to orders
+export interface AllocationSource {
+    id: string;
+    tenantId: string;
+    customerId: string;
+    amount: string | number;
+    kind?: AllocationSourceKind;
+}
+
+export interface AllocationInput {
+    orderId: string;
+    amount: number;
+}
+
+export interface Allocation {
+    orderId: string;
+    orderNumber: string;
+    amount: number;
+}
+
+export interface StatementLine {
+    id: string;
+    date: Date;
+    type: LedgerEntryType;
+    description: string | null;
+    orderId: string | null;
+    paymentId: string | null;
+    debit: number;
+    credit: number;
+    balance: number;
+}
+
+export interface Statement {
+    customerId: string;
+    from: string;
+    to: string;
+    openingBalance: number;
+    totalDebit: number;
+    totalCredit: number;
+    closingBalance: number;
+    lines: StatementLine[];
+}
+
+// Orders that can no longer take payments
+const CLOSED_STATUSES = ['cancelled', 'returned'];
+
+// Orders the customer owes for: delivered, or already invoiced
+const BILLED_STATUSES = ['delivered', 'partial'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const paymentStatusFor = (paid: number, total: number) =>
+    paid <= 0 ? 'unpaid' as const : paid >= total ? 'paid' as const : 'partial' as const;
+
+const allocationColumn = (kind: AllocationSourceKind = 'payment') =>
+    kind === 'credit_note' ? schema.paymentAllocations.creditNoteId : schema.paymentAllocations.paymentId;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class CustomerLedgerService {
+    /**
+     * Debits the customer for a delivered order. Posted once per order; the
+     * amount is the order total at delivery, after any shortfall.
+     */
+    async postDelivery(tx: any, order: { id: string; tenantId: string; customerId: string; orderNumber: string; totalAmount: string | number }, userId?: string) {
+        const [existing] = await tx.select({ id: schema.customerLedgerEntries.id })
+            .from(schema.customerLedgerEntries)
+            .where(and(eq(schema.customerLedgerEntries.orderId, order.id), eq(schema.customerLedgerEntries.type, 'delivery')))
+            .limit(1);
+        if (existing) return;
+
+        await tx.insert(schema.customerLedgerEntries).values({
+            tenantId: order.tenantId,
+            customerId: order.customerId,
+            type: 'delivery',
+            debit: String(order.totalAmount),
+            orderId: order.id,
+            description: `Order ${order.orderNumber}`,
+            entryDate: new Date(),
+            createdBy: userId ?? null,
+        });
+    }
+
+    /**
+     * Credits the customer for a received payment.
+     */
+    async postPayment(tx: any, payment: { id: string; tenantId: string; customerId: string; paymentNumber: string; amount: string | number; orderId?: string | null; collectedAt?: Date | null }, userId?: string) {
+        await tx.insert(schema.customerLedgerEntries).values({
+            tenantId: payment.tenantId,
+            customerId: payment.customerId,
+            type: 'payment',
+            credit: String(payment.amount),
+            orderId: payment.orderId ?? null,
+            paymentId: payment.id,
+            description: `Payment ${payment.paymentNumber}`,
+            entryDate: payment.collectedAt ?? new Date(),
+            createdBy: userId ?? null,
+        });
+    }
+
+    /**
+     * Debits the customer for money paid back to them or a reversed payment
+     * (a negative payment).
+     */
+    async postRefund(tx: any, payment: { id: string; tenantId: string; customerId: string; paymentNumber: string; amount: string | number; orderId?: string | null; collectedAt?: Date | null }, userId?: string, description?: string) {
+        await tx.insert(schema.customerLedgerEntries).values({
+            tenantId: payment.tenantId,
+            customerId: payment.customerId,
+            type: 'payment',
+            debit: String(Math.abs(Number(payment.amount))),
+            orderId: payment.orderId ?? null,
+            paymentId: payment.id,
+            description: description ?? `Refund ${payment.paymentNumber}`,
+            entryDate: payment.collectedAt ?? new Date(),
+            createdBy: userId ?? null,
+        });
+    }
+
+    /**
+     * Credits the customer for an issued credit note.
+     */
+    async postCreditNote(tx: any, note: { id: string; tenantId: string; customerId: string; orderId: string; returnId: string; creditNoteNumber: string | null; totalAmount: string | number }, userId?: string) {
+        await tx.insert(schema.customerLedgerEntries).values({
+            tenantId: note.tenantId,
+            customerId: note.customerId,
+            type: 'credit_note',
+            credit: String(note.totalAmount),
+            orderId: note.orderId,
+            returnId: note.returnId,
+            creditNoteId: note.id,
+            description: `Credit note ${note.creditNoteNumber ?? ''}`.trim(),
+            entryDate: new Date(),
+            createdBy: userId ?? null,
+        });
+    }
+
+    /**
+     * Amount of the payment or credit note not yet allocated to orders.
+     */
+    async getUnallocated(tx: any, source: { id: string; amount: string | number; kind?: AllocationSourceKind }): Promise<number> {
+        const [row] = await tx.select({ allocated: sql<string>`COALESCE(SUM(${schema.paymentAllocations.amount}), 0)` })
+            .from(schema.paymentAllocations)
+            .where(eq(allocationColumn(source.kind), source.id));
+        return round2(Number(source.amount) - Number(row?.allocated ?? 0));
+    }
+
+    /**
+     * Allocates the unallocated part of a payment. With `manual` lines the
+     * amounts go exactly there; otherwise the oldest open orders are settled
+     * first. `preferOrderId` is settled before FIFO continues with the rest;
+     * FIFO only settles orders that were delivered or invoiced, so money is
+     * never parked on an order that may still shrink or be cancelled.
+     * Whatever cannot be allocated stays on the payment as customer credit.
+     * Credit notes are allocated the same way.
+     */
+    async allocate(
+        tx: any,
+        payment: AllocationSource,
+        options: { manual?: AllocationInput[]; preferOrderId?: string; fifo?: boolean; userId?: string } = {}
+    ): Promise<Allocation[]> {
+        let remaining = await this.getUnallocated(tx, payment);
+        if (remaining <= 0) return [];
+
+        const openOrders = await this.lockOpenOrders(tx, payment.tenantId, payment.customerId);
+        const outstanding = (order: typeof openOrders[number]) => round2(Number(order.totalAmount) - Number(order.paidAmount ?? 0));
+
+        const plan: { order: typeof openOrders[number]; amount: number }[] = [];
+        const take = (order: typeof openOrders[number], requested: number) => {
+            const planned = plan.filter(p => p.order.id === order.id).reduce((sum, p) => sum + p.amount, 0);
+            const amount = round2(Math.min(requested, remaining, outstanding(order) - planned));
+            if (amount <= 0) return;
+            plan.push({ order, amount });
+            remaining = round2(remaining - amount);
+        };
+
+        if (options.manual) {
+            const seen = new Set<string>();
+            for (const line of options.manual) {
+                if (seen.has(line.orderId)) throw new AllocationError('An order appears more than once');
+                seen.add(line.orderId);
+                if (line.amount <= 0) throw new AllocationError('Allocation amount must be positive');
+
+                const order = openOrders.find(o => o.id === line.orderId);
+                if (!order) throw new AllocationError('Order is not open for this customer');
+                if (line.amount > outstanding(order) + 0.001) throw new AllocationError(`Allocation exceeds the amount due on ${order.orderNumber}`);
+                if (line.amount > remaining + 0.001) throw new AllocationError('Allocations exceed the unallocated payment amount');
+                take(order, line.amount);
+            }
+        } else {
+            if (options.preferOrderId) {
+                const preferred = openOrders.find(o => o.id === options.preferOrderId);
+                if (preferred) take(preferred, remaining);
+            }
+            if (options.fifo !== false) {
+                for (const order of openOrders) {
+                    if (remaining <= 0) break;
+                    if (!order.billed) continue;
+                    take(order, remaining);
+                }
+            }
+        }
+
+        const allocations: Allocation[] = [];
+        for (const { order, amount } of plan) {
+            await tx.insert(schema.paymentAllocations).values({
+                tenantId: payment.tenantId,
+                paymentId: payment.kind === 'credit_note' ? null : payment.id,
+                creditNoteId: payment.kind === 'credit_note' ? payment.id : null,
+                orderId: order.id,
+                amount: String(amount),
+                createdBy: options.userId ?? null,
+            });
+
+            const paid = round2(Number(order.paidAmount ?? 0) + amount);
+            order.paidAmount = String(paid);
+            await tx.update(schema.orders).set({
+                paidAmount: String(paid),
+                paymentStatus: paymentStatusFor(paid, Number(order.totalAmount)),
+                updatedAt: new Date(),
+            }).where(eq(schema.orders.id, order.id));
+
+            allocations.push({ orderId: order.id, orderNumber: order.orderNumber, amount });
+        }
+
+        return allocations;
+    }
+
+    /**
+     * Undoes a payment's allocations when it is reversed. The reversal
+     * payment gets matching negative allocations, so both payments stay
+     * fully allocated and each order's history shows what happened.
+     */
+    async reverseAllocations(tx: any, original: { id: string }, reversal: { id: string; tenantId: string }, userId?: string): Promise<Allocation[]> {
+        const rows: { orderId: string; amount: string }[] = await tx
+            .select({ orderId: schema.paymentAllocations.orderId, amount: sql<string>`SUM(${schema.paymentAllocations.amount})` })
+            .from(schema.paymentAllocations)
+            .where(eq(schema.paymentAllocations.paymentId, original.id))
+            .groupBy(schema.paymentAllocations.orderId);
+
+        const reversed: Allocation[] = [];
+        for (const row of rows) {
+            const amount = round2(Number(row.amount));
+            if (amount <= 0) continue;
+
+            const [order] = await tx.select({
+                id: schema.orders.id,
+                orderNumber: schema.orders.orderNumber,
+                totalAmount: schema.orders.totalAmount,
+                paidAmount: schema.orders.paidAmount,
+            }).from(schema.orders).where(eq(schema.orders.id, row.orderId)).for('update');
+            if (!order) continue;
+
+            await tx.insert(schema.paymentAllocations).values({
+                tenantId: reversal.tenantId,
+                paymentId: reversal.id,
+                orderId: order.id,
+                amount: String(-amount),
+                createdBy: userId ?? null,
+            });
+
+            const paid = round2(Math.max(0, Number(order.paidAmount ?? 0) - amount));
+            await tx.update(schema.orders).set({
+                paidAmount: String(paid),
+                paymentStatus: paymentStatusFor(paid, Number(order.totalAmount)),
+                updatedAt: new Date(),
+            }).where(eq(schema.orders.id, order.id));
+
+            reversed.push({ orderId: order.id, orderNumber: order.orderNumber, amount });
+        }
+        return reversed;
+    }
+
+    /**
+     * Gives back what an order's allocations hold above its new total after
+     * the order shrank (a short or refused delivery). The latest payments
+     * and credit notes give back first, through negative allocations, so the
+     * money is unallocated on them again as customer credit. Returns the
+     * amount given back.
+     */
+    async trimAllocations(tx: any, order: { id: string; tenantId: string }, totalAmount: number, userId?: string): Promise<number> {
+        const rows: { paymentId: string | null; creditNoteId: string | null; amount: string }[] = await tx
+            .select({
+                paymentId: schema.paymentAllocations.paymentId,
+                creditNoteId: schema.paymentAllocations.creditNoteId,
+                amount: sql<string>`SUM(${schema.paymentAllocations.amount})`,
+            })
+            .from(schema.paymentAllocations)
+            .where(eq(schema.paymentAllocations.orderId, order.id))
+            .groupBy(schema.paymentAllocations.paymentId, schema.paymentAllocations.creditNoteId)
+            .orderBy(desc(sql`MAX(${schema.paymentAllocations.createdAt})`));
+
+        const allocated = round2(rows.reduce((sum, row) => sum + Number(row.amount), 0));
+        let excess = round2(allocated - totalAmount);
+        const trimmed = Math.max(0, excess);
+
+        for (const row of rows) {
+            if (excess <= 0) break;
+            const amount = round2(Math.min(Number(row.amount), excess));
+            if (amount <= 0) continue;
+
+            await tx.insert(schema.paymentAllocations).values({
+                tenantId: order.tenantId,
+                paymentId: row.paymentId,
+                creditNoteId: row.creditNoteId,
+                orderId: order.id,
+                amount: String(-amount),
+                createdBy: userId ?? null,
+            });
+            excess = round2(excess - amount);
+        }
+        return trimmed;
+    }
+
+    /**
+     * Allocations of a payment (or credit note) with order numbers.
+     */
+    async getAllocations(tenantId: string, sourceId: string, kind: AllocationSourceKind = 'payment') {
+        return db.select({
+            id: schema.paymentAllocations.id,
+            orderId: schema.paymentAllocations.orderId,
+            orderNumber: schema.orders.orderNumber,
+            amount: schema.paymentAllocations.amount,
+            createdAt: schema.paymentAllocations.createdAt,
+        }).from(schema.paymentAllocations)
+            .innerJoin(schema.orders, eq(schema.paymentAllocations.orderId, schema.orders.id))
+            .where(and(eq(schema.paymentAllocations.tenantId, tenantId), eq(allocationColumn(kind), sourceId)))
+            .orderBy(asc(schema.paymentAllocations.createdAt));
+    }
+
+    /**
+     * Orders of the customer that still have an amount due, oldest first.
+     */
+    async getOpenOrders(tenantId: string, customerId: string) {
+        const orders = await db.select({
+            id: schema.orders.id,
+            orderNumber: schema.orders.orderNumber,
+            status: schema.orders.status,
+            totalAmount: schema.orders.totalAmount,
+            paidAmount: schema.orders.paidAmount,
+            createdAt: schema.orders.createdAt,
+            deliveredAt: schema.orders.deliveredAt,
+        }).from(schema.orders)
+            .where(this.openOrderConditions(tenantId, customerId))
+            .orderBy(asc(schema.orders.createdAt));
+
+        return orders.map(order => ({
+            ...order,
+            amountDue: round2(Number(order.totalAmount) - Number(order.paidAmount ?? 0)),
+        }));
+    }
+
+    /**
+     * Account statement for a date range (inclusive, YYYY-MM-DD) with the
+     * balance brought forward and a running balance per line.
+     */
+    async getStatement(tenantId: string, customerId: string, from: string, to: string): Promise<Statement> {
+        const base = and(
+            eq(schema.customerLedgerEntries.tenantId, tenantId),
+            eq(schema.customerLedgerEntries.customerId, customerId)
+        );
+
+        const [opening] = await db.select({
+            balance: sql<string>`COALESCE(SUM(${schema.customerLedgerEntries.debit} - ${schema.customerLedgerEntries.credit}), 0)`,
+        }).from(schema.customerLedgerEntries)
+            .where(and(base, sql`${schema.customerLedgerEntries.entryDate} < ${from}::date`));
+
+        const entries = await db.select().from(schema.customerLedgerEntries)
+            .where(and(
+                base,
+                sql`${schema.customerLedgerEntries.entryDate} >= ${from}::date`,
+                sql`${schema.customerLedgerEntries.entryDate} < ${to}::date + 1`
+            ))
+            .orderBy(asc(schema.customerLedgerEntries.entryDate), asc(schema.customerLedgerEntries.createdAt));
+
+        const openingBalance = round2(Number(opening?.balance ?? 0));
+        let balance = openingBalance;
+        let totalDebit = 0;
+        let totalCredit = 0;
+
+        const lines: StatementLine[] = entries.map(entry => {
+            const debit = Number(entry.debit);
+            const credit = Number(entry.credit);
+            totalDebit += debit;
+            totalCredit += credit;
+            balance = round2(balance + debit - credit);
+            return {
+                id: entry.id,
+                date: entry.entryDate,
+                type: entry.type,
+                description: entry.description,
+                orderId: entry.orderId,
+                paymentId: entry.paymentId,
+                debit,
+                credit,
+                balance,
+            };
+        });
+
+        return {
+            customerId,
+            from,
+            to,
+            openingBalance,
+            totalDebit: round2(totalDebit),
+            totalCredit: round2(totalCredit),
+            closingBalance: balance,
+            lines,
+        };
+    }
+
+    private openOrderConditions(tenantId: string, customerId: string) {
+        return and(
+            eq(schema.orders.tenantId, tenantId),
+            eq(schema.orders.customerId, customerId),
+            notInArray(schema.orders.status, CLOSED_STATUSES as any),
+            sql`${schema.orders.totalAmount} - COALESCE(${schema.orders.paidAmount}, 0) > 0`
+        );
+    }
+
+    private async lockOpenOrders(tx: any, tenantId: string, customerId: string) {
+        const orders: { id: string; orderNumber: string; totalAmount: string; paidAmount: string | null; billed: boolean }[] = await tx
+            .select({
+                id: schema.orders.id,
+                orderNumber: schema.orders.orderNumber,
+                totalAmount: schema.orders.totalAmount,
+                paidAmount: schema.orders.paidAmount,
+                billed: sql<boolean>`(${inArray(schema.orders.status, BILLED_STATUSES as any)} OR EXISTS (SELECT 1 FROM ${schema.invoices} WHERE ${schema.invoices.orderId} = ${schema.orders.id} AND ${schema.invoices.status} = 'issued'))`,
+            })
+            .from(schema.orders)
+            .where(this.openOrderConditions(tenantId, customerId))
+            .orderBy(asc(schema.orders.createdAt))
+            .for('update');
+        return orders;
+    }
+}
+
+export const customerLedgerService = new CustomerLedgerService();
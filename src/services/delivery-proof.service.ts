@@ -0,0 +1,170 @@
+/**
+ * DeliveryProofService - Proof of delivery per trip stop
+ *
+ * At handover the driver records who received the goods, an on-screen
+ * signature, optional photos and the GPS fix. Tenants can require a proof
+ * before a stop is marked delivered; refused stops never need one.
+ */
+
+import { db, schema } from '../db';
+import { eq, and } from 'drizzle-orm';
+import { storeImage, validateMagicBytes, MAX_IMAGE_BYTES } from '../lib/image-upload';
+import { checkProofInput } from '../lib/delivery-proof';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ProofInput {
+    recipientName: string;
+    /** PNG/JPEG data URL from the signature pad */
+    signature?: string;
+    /** URLs returned by POST /uploads */
+    photoUrls?: string[];
+    latitude?: number;
+    longitude?: number;
+    accuracy?: number;
+    capturedAt?: string;
+}
+
+export interface DeliveryProof {
+    id: string;
+    orderId: string;
+    recipientName: string;
+    signatureUrl: string | null;
+    photoUrls: string[];
+    latitude: number | null;
+    longitude: number | null;
+    accuracy: number | null;
+    capturedAt: Date;
+    capturedByName: string | null;
+}
+
+const FINAL_STATUSES = ['delivered', 'partial', 'cancelled', 'returned'];
+
+const toNumber = (value: string | null) => (value === null ? null : Number(value));
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class DeliveryProofService {
+    /**
+     * Whether the tenant requires a proof before delivery.
+     */
+    async isRequired(tenantId: string): Promise<boolean> {
+        const [tenant] = await db.select({ required: schema.tenants.proofOfDeliveryRequired })
+            .from(schema.tenants).where(eq(schema.tenants.id, tenantId)).limit(1);
+        return tenant?.required ?? false;
+    }
+
+    /**
+     * Throws when the tenant requires a proof and the order's trip stop has
+     * none. Orders that are not on a trip are not checked.
+     */
+    async assertCaptured(tenantId: string, orderId: string) {
+        if (!(await this.isRequired(tenantId))) return;
+
+        const [stop] = await db.select({ id: schema.tripOrders.id, proofId: schema.deliveryProofs.id })
+            .from(schema.tripOrders)
+            .leftJoin(schema.deliveryProofs, eq(schema.deliveryProofs.tripOrderId, schema.tripOrders.id))
+            .where(eq(schema.tripOrders.orderId, orderId))
+            .limit(1);
+        if (stop && !stop.proofId) throw new Error('Proof of delivery required');
+    }
+
+    /**
+     * Stores (or replaces) the proof for a stop of the driver's trip.
+     */
+    async save(tenantId: string, driverId: string, tripId: string, orderId: string, input: ProofInput) {
+        const stop = await this.getStop(tenantId, tripId, orderId);
+        if (stop.driverId !== driverId) throw new Error('Only the trip driver can capture proof');
+        if (FINAL_STATUSES.includes(stop.orderStatus ?? '')) throw new Error('Order is already completed');
+
+        const { recipientName, photoUrls, capturedAt } = checkProofInput(tenantId, input);
+
+        const signatureUrl = input.signature
+            ? (await storeImage(this.decodeSignature(input.signature), tenantId, `signature-${stop.orderNumber}`)).url
+            : null;
+
+        const values = {
+            recipientName,
+            signatureUrl,
+            photoUrls,
+            latitude: input.latitude !== undefined ? String(input.latitude) : null,
+            longitude: input.longitude !== undefined ? String(input.longitude) : null,
+            accuracy: input.accuracy !== undefined ? String(input.accuracy) : null,
+            capturedAt,
+            capturedByUserId: driverId,
+            updatedAt: new Date(),
+        };
+
+        const [proof] = await db.insert(schema.deliveryProofs)
+            .values({ tenantId, tripOrderId: stop.tripOrderId, orderId, ...values })
+            .onConflictDoUpdate({ target: schema.deliveryProofs.tripOrderId, set: values })
+            .returning();
+
+        return proof;
+    }
+
+    /**
+     * Proof for an order, or null when none was captured.
+     */
+    async getForOrder(tenantId: string, orderId: string): Promise<DeliveryProof | null> {
+        const [proof] = await db.select({
+            id: schema.deliveryProofs.id,
+            orderId: schema.deliveryProofs.orderId,
+            recipientName: schema.deliveryProofs.recipientName,
+            signatureUrl: schema.deliveryProofs.signatureUrl,
+            photoUrls: schema.deliveryProofs.photoUrls,
+            latitude: schema.deliveryProofs.latitude,
+            longitude: schema.deliveryProofs.longitude,
+            accuracy: schema.deliveryProofs.accuracy,
+            capturedAt: schema.deliveryProofs.capturedAt,
+            capturedByName: schema.users.name,
+        }).from(schema.deliveryProofs)
+            .leftJoin(schema.users, eq(schema.deliveryProofs.capturedByUserId, schema.users.id))
+            .where(and(eq(schema.deliveryProofs.tenantId, tenantId), eq(schema.deliveryProofs.orderId, orderId)))
+            .limit(1);
+
+        if (!proof) return null;
+        return {
+            ...proof,
+            photoUrls: proof.photoUrls ?? [],
+            latitude: toNumber(proof.latitude),
+            longitude: toNumber(proof.longitude),
+            accuracy: toNumber(proof.accuracy),
+        };
+    }
+
+    private async getStop(tenantId: string, tripId: string, orderId: string) {
+        const [stop] = await db.select({
+            tripOrderId: schema.tripOrders.id,
+            driverId: schema.trips.driverId,
+            orderNumber: schema.orders.orderNumber,
+            orderStatus: schema.orders.status,
+        }).from(schema.tripOrders)
+            .innerJoin(schema.trips, eq(schema.tripOrders.tripId, schema.trips.id))
+            .innerJoin(schema.orders, eq(schema.tripOrders.orderId, schema.orders.id))
+            .where(and(
+                eq(schema.tripOrders.tripId, tripId),
+                eq(schema.tripOrders.orderId, orderId),
+                eq(schema.trips.tenantId, tenantId)
+            ))
+            .limit(1);
+
+        if (!stop) throw new Error('Trip stop not found');
+        return stop;
+    }
+
+    private decodeSignature(dataUrl: string): Buffer {
+        const match = /^data:image\/(png|jpeg);base64,([A-Za-z0-9+/=]+)$/.exec(dataUrl);
+        if (!match) throw new Error('Invalid signature image');
+
+        const buffer = Buffer.from(match[2], 'base64');
+        if (buffer.length > MAX_IMAGE_BYTES || !validateMagicBytes(buffer)) throw new Error('Invalid signature image');
+        return buffer;
+    }
+}
+
+export const deliveryProofService = new DeliveryProofService();
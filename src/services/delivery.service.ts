@@ -0,0 +1,204 @@
+/**
+ * DeliveryService - Closing trip stops from the driver app
+ *
+ * A stop ends delivered, partially delivered or refused. For partial and
+ * refused stops the driver records delivered quantities per line; whatever
+ * left the warehouse but stayed in the van becomes a pending `returns` row
+ * (reason `customer_refused`) for the warehouse to restock. The order amounts
+ * shrink by the value not delivered and the customer's debt follows.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql } from 'drizzle-orm';
+import { ordersService } from './orders.service';
+import { deliveryProofService } from './delivery-proof.service';
+import { customerLedgerService } from './customer-ledger.service';
+import { invoiceService } from './invoice.service';
+import { generalLedgerService } from './general-ledger.service';
+import { resolveDelivered, shrinkOrder, shippedQty } from '../lib/delivery-amounts';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type StopOutcome = 'delivered' | 'partial' | 'refused';
+
+export interface DeliveredLine {
+    orderItemId: string;
+    qtyDelivered: number;
+    reason?: string;
+}
+
+export interface StopResult {
+    id: string;
+    orderNumber: string;
+    status: string;
+    fromStatus: string | null;
+    totalAmount: number;
+    /** Value taken off the order for goods not delivered */
+    creditedAmount: number;
+    qtyDelivered: number;
+    qtyOrdered: number;
+    qtyReturned: number;
+    returnIds: string[];
+}
+
+const FINAL_STATUSES = ['delivered', 'partial', 'cancelled', 'returned'];
+
+const OUTCOME_STATUS: Record<StopOutcome, 'delivered' | 'partial' | 'returned'> = {
+    delivered: 'delivered',
+    partial: 'partial',
+    refused: 'returned',
+};
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class DeliveryService {
+    /**
+     * Closes a trip stop. `lines` lists the lines that were not delivered in
+     * full (required for partial); lines left out count as fully delivered.
+     * A refused stop delivers nothing.
+     */
+    async completeStop(
+        tenantId: string,
+        user: { id: string; role: string },
+        tripId: string,
+        orderId: string,
+        input: { outcome: StopOutcome; notes?: string; lines?: DeliveredLine[] }
+    ): Promise<StopResult> {
+        const { outcome, notes } = input;
+        const stop = await this.getStop(tenantId, tripId, orderId);
+        if (user.role === 'driver' && stop.driverId !== user.id) throw new Error('Only the trip driver can complete this stop');
+        if (stop.tripStatus !== 'in_progress') throw new Error('Trip is not in progress');
+        if (FINAL_STATUSES.includes(stop.orderStatus ?? '')) throw new Error('Order is already completed');
+
+        if (outcome !== 'refused') await deliveryProofService.assertCaptured(tenantId, orderId);
+
+        const status = OUTCOME_STATUS[outcome];
+        const now = new Date();
+
+        return db.transaction(async (tx) => {
+            const [order] = await tx.select().from(schema.orders)
+                .where(eq(schema.orders.id, orderId)).for('update').limit(1);
+            // Another request may have closed the stop between the check above and the lock
+            if (FINAL_STATUSES.includes(order.status ?? '')) throw new Error('Order is already completed');
+            const items = await tx.select().from(schema.orderItems).where(eq(schema.orderItems.orderId, orderId));
+
+            const delivered = resolveDelivered(outcome, items, input.lines ?? []);
+            const amounts = shrinkOrder(order, items, delivered);
+            const { shortLines, totalAmount: newTotal, creditedAmount } = amounts;
+
+            for (const item of items) {
+                if (delivered.has(item.id)) continue;
+                await tx.update(schema.orderItems)
+                    .set({ qtyDelivered: shippedQty(item), updatedAt: now })
+                    .where(eq(schema.orderItems.id, item.id));
+            }
+
+            const returnIds: string[] = [];
+            for (const line of shortLines) {
+                const item = items.find(i => i.id === line.itemId)!;
+                await tx.update(schema.orderItems).set({
+                    qtyDelivered: line.qtyDelivered,
+                    qtyReturned: sql`COALESCE(${schema.orderItems.qtyReturned}, 0) + ${line.qtyBack}`,
+                    discountAmount: String(line.discountAmount),
+                    taxAmount: String(line.taxAmount),
+                    lineTotal: String(line.lineTotal),
+                    updatedAt: now,
+                }).where(eq(schema.orderItems.id, item.id));
+
+                if (line.qtyBack === 0) continue;
+
+                // Pending until the warehouse receives the goods back; the
+                // refund is already applied to the order, so it is recorded here
+                const [returnRecord] = await tx.insert(schema.returns).values({
+                    tenantId,
+                    orderId,
+                    orderItemId: item.id,
+                    productId: item.productId,
+                    qtyReturned: line.qtyBack,
+                    reason: 'customer_refused',
+                    reasonNotes: line.reason || null,
+                    refundAmount: String(line.refundAmount),
+                }).returning({ id: schema.returns.id });
+                returnIds.push(returnRecord.id);
+            }
+
+            // Settle the difference; money allocated above the new total goes back to its payments
+            if (creditedAmount > 0) await customerLedgerService.trimAllocations(tx, order, newTotal, user.id);
+            if (amounts.debtReduction > 0) await ordersService.updateCustomerDebt(tx, order.customerId, -amounts.debtReduction);
+            if (amounts.overpaid > 0) {
+                await tx.update(schema.customers).set({
+                    creditBalance: sql`COALESCE(${schema.customers.creditBalance}, 0) + ${amounts.overpaid}`,
+                    updatedAt: now,
+                }).where(eq(schema.customers.id, order.customerId));
+            }
+
+            await tx.update(schema.tripOrders)
+                .set({ deliveredAt: outcome === 'refused' ? null : now, deliveryNotes: notes ?? null })
+                .where(eq(schema.tripOrders.id, stop.tripOrderId));
+
+            await tx.update(schema.orders).set({
+                status,
+                subtotalAmount: String(amounts.subtotalAmount),
+                discountAmount: String(amounts.discountAmount),
+                taxAmount: String(amounts.taxAmount),
+                totalAmount: String(newTotal),
+                paidAmount: String(amounts.paidAmount),
+                paymentStatus: amounts.paymentStatus,
+                deliveredAt: outcome === 'refused' ? undefined : now,
+                ...(notes ? { deliveryNotes: notes } : {}),
+                updatedAt: now,
+            }).where(eq(schema.orders.id, orderId));
+
+            await ordersService.logStatusChange(tx, orderId, status, user.id, notes);
+            if (outcome !== 'refused') {
+                await customerLedgerService.postDelivery(tx, { ...order, totalAmount: newTotal }, user.id);
+                await generalLedgerService.postDelivery(tx, orderId, user.id);
+            }
+            if (creditedAmount > 0) await invoiceService.reissueForOrder(tx, orderId, user.id);
+            await invoiceService.onOrderStatus(tx, order, status, user.id);
+
+            const qtyOrdered = items.reduce((sum, item) => sum + item.qtyOrdered, 0);
+            const qtyReturned = shortLines.reduce((sum, line) => sum + line.qtyBack, 0);
+            const qtyDelivered = items.reduce((sum, item) => sum + (delivered.get(item.id)?.qtyDelivered ?? shippedQty(item)), 0);
+
+            return {
+                id: order.id,
+                orderNumber: order.orderNumber,
+                status,
+                fromStatus: stop.orderStatus,
+                totalAmount: newTotal,
+                creditedAmount,
+                qtyDelivered,
+                qtyOrdered,
+                qtyReturned,
+                returnIds,
+            };
+        });
+    }
+
+    private async getStop(tenantId: string, tripId: string, orderId: string) {
+        const [stop] = await db.select({
+            tripOrderId: schema.tripOrders.id,
+            driverId: schema.trips.driverId,
+            tripStatus: schema.trips.status,
+            orderStatus: schema.orders.status,
+        }).from(schema.tripOrders)
+            .innerJoin(schema.trips, eq(schema.tripOrders.tripId, schema.trips.id))
+            .innerJoin(schema.orders, eq(schema.tripOrders.orderId, schema.orders.id))
+            .where(and(
+                eq(schema.tripOrders.tripId, tripId),
+                eq(schema.tripOrders.orderId, orderId),
+                eq(schema.trips.tenantId, tenantId)
+            ))
+            .limit(1);
+
+        if (!stop) throw new Error('Trip stop not found');
+        return stop;
+    }
+}
+
+export const deliveryService = new DeliveryService();
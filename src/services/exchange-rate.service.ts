@@ -0,0 +1,255 @@
+/**
+ * ExchangeRateService - Daily exchange rates to the tenant's base currency
+ *
+ * The base currency is tenants.currency. Rates are kept per day as base
+ * units for one unit of the foreign currency, entered by hand or imported
+ * from the Central Bank of Uzbekistan (CBU) rates file. A document is
+ * converted at the latest rate on or before its date, so a missing day
+ * (weekend, holiday) falls back to the previous one.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, desc, lte } from 'drizzle-orm';
+import { getTenantLocalDate } from '../lib/tenant-time';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RateListFilters {
+    currency?: string;
+    from?: string;
+    to?: string;
+    page: number;
+    limit: number;
+}
+
+export interface CbuImportResult {
+    imported: number;
+    rateDates: string[];
+    currencies: string[];
+}
+
+interface CbuRate {
+    currency: string;
+    // Sum for `nominal` units, in UZS
+    rate: number;
+    nominal: number;
+    rateDate: string;
+}
+
+// CBU publishes every rate in UZS
+const CBU_CURRENCY = 'UZS';
+
+// Rates keep 10 decimals so that a weak currency against a strong base stays exact enough
+const roundRate = (value: number) => Math.round(value * 1e10) / 1e10;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class ExchangeRateService {
+    // ----------------------------------------------------------------
+    // LOOKUP
+    // ----------------------------------------------------------------
+
+    async getBaseCurrency(tenantId: string, executor: any = db): Promise<string> {
+        return (await this.tenantSettings(tenantId, executor)).currency;
+    }
+
+    /**
+     * Base units for one unit of `currency` on `date` (YYYY-MM-DD): the
+     * latest rate on or before that day, 1 for the base currency itself.
+     */
+    async getRate(tenantId: string, currency: string, date: string, executor: any = db): Promise<number> {
+        const code = currency.toUpperCase();
+        if (code === await this.getBaseCurrency(tenantId, executor)) return 1;
+
+        const [row] = await executor.select({ rate: schema.exchangeRates.rate })
+            .from(schema.exchangeRates)
+            .where(and(
+                eq(schema.exchangeRates.tenantId, tenantId),
+                eq(schema.exchangeRates.currency, code),
+                lte(schema.exchangeRates.rateDate, date)
+            ))
+            .orderBy(desc(schema.exchangeRates.rateDate))
+            .limit(1);
+        if (!row) throw new Error(`No exchange rate for ${code} on or before ${date}`);
+        return Number(row.rate);
+    }
+
+    /**
+     * Rate for a transaction at a moment, on the tenant's local date.
+     */
+    async getRateAt(tenantId: string, currency: string, at: Date = new Date(), executor: any = db) {
+        const { timezone } = await this.tenantSettings(tenantId, executor);
+        const rateDate = getTenantLocalDate(timezone, at);
+        return { rate: await this.getRate(tenantId, currency, rateDate, executor), rateDate };
+    }
+
+    /**
+     * Converts an amount between two currencies through the base currency.
+     */
+    async convert(tenantId: string, amount: number, from: string, to: string, date: string, executor: any = db) {
+        const fromRate = await this.getRate(tenantId, from, date, executor);
+        const toRate = await this.getRate(tenantId, to, date, executor);
+        const rate = roundRate(fromRate / toRate);
+        return { amount: Math.round(amount * rate * 100) / 100, rate };
+    }
+
+    // ----------------------------------------------------------------
+    // MAINTENANCE
+    // ----------------------------------------------------------------
+
+    async listRates(tenantId: string, filters: RateListFilters) {
+        const conditions: any[] = [eq(schema.exchangeRates.tenantId, tenantId)];
+        if (filters.currency) conditions.push(eq(schema.exchangeRates.currency, filters.currency.toUpperCase()));
+        if (filters.from) conditions.push(sql`${schema.exchangeRates.rateDate} >= ${filters.from}`);
+        if (filters.to) conditions.push(sql`${schema.exchangeRates.rateDate} <= ${filters.to}`);
+
+        const rows = await db.select().from(schema.exchangeRates)
+            .where(and(...conditions))
+            .orderBy(desc(schema.exchangeRates.rateDate), schema.exchangeRates.currency)
+            .limit(filters.limit).offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.exchangeRates).where(and(...conditions));
+
+        return { rows, total: Number(count) };
+    }
+
+    /**
+     * Sets the rate of a currency for a day, replacing an earlier entry.
+     */
+    async setRate(tenantId: string, input: { currency: string; rate: number; rateDate: string }, userId?: string) {
+        const currency = input.currency.toUpperCase();
+        if (input.rate <= 0) throw new Error('Rate must be positive');
+        if (currency === await this.getBaseCurrency(tenantId)) throw new Error('The base currency has no exchange rate');
+
+        return this.upsert(db, tenantId, [{ currency, rate: input.rate, rateDate: input.rateDate }], 'manual', userId)
+            .then(([row]) => row);
+    }
+
+    async deleteRate(tenantId: string, id: string) {
+        const [deleted] = await db.delete(schema.exchangeRates)
+            .where(and(eq(schema.exchangeRates.id, id), eq(schema.exchangeRates.tenantId, tenantId)))
+            .returning({ id: schema.exchangeRates.id });
+        if (!deleted) throw new Error('Exchange rate not found');
+    }
+
+    /**
+     * Imports a CBU rates file (JSON array or XML CcyNtry list). CBU quotes
+     * in UZS; for another base currency the rates are crossed through the
+     * base currency's own UZS rate from the same file, and UZS is added.
+     */
+    async importCbu(tenantId: string, content: string, userId?: string): Promise<CbuImportResult> {
+        const parsed = this.parseCbu(content);
+        if (parsed.length === 0) throw new Error('No rates found in the file');
+
+        const base = await this.getBaseCurrency(tenantId);
+        const rows: { currency: string; rate: number; rateDate: string }[] = [];
+
+        const byDate = new Map<string, CbuRate[]>();
+        for (const entry of parsed) {
+            byDate.set(entry.rateDate, [...(byDate.get(entry.rateDate) ?? []), entry]);
+        }
+
+        for (const [rateDate, entries] of byDate) {
+            let baseInUzs = 1;
+            if (base !== CBU_CURRENCY) {
+                const baseEntry = entries.find(e => e.currency === base);
+                if (!baseEntry) throw new Error(`The file has no ${base} rate for ${rateDate}`);
+                baseInUzs = baseEntry.rate / baseEntry.nominal;
+                rows.push({ currency: CBU_CURRENCY, rate: roundRate(1 / baseInUzs), rateDate });
+            }
+            for (const entry of entries) {
+                if (entry.currency === base) continue;
+                rows.push({ currency: entry.currency, rate: roundRate(entry.rate / entry.nominal / baseInUzs), rateDate });
+            }
+        }
+
+        const saved = await db.transaction(tx => this.upsert(tx, tenantId, rows, 'cbu', userId));
+
+        return {
+            imported: saved.length,
+            rateDates: [...byDate.keys()].sort(),
+            currencies: [...new Set(rows.map(r => r.currency))].sort(),
+        };
+    }
+
+    // ----------------------------------------------------------------
+    // HELPERS
+    // ----------------------------------------------------------------
+
+    private async tenantSettings(tenantId: string, executor: any) {
+        const [tenant] = await executor.select({ currency: schema.tenants.currency, timezone: schema.tenants.timezone })
+            .from(schema.tenants).where(eq(schema.tenants.id, tenantId)).limit(1);
+        if (!tenant) throw new Error('Tenant not found');
+        return { currency: (tenant.currency || 'UZS') as string, timezone: (tenant.timezone || 'Asia/Tashkent') as string };
+    }
+
+    private async upsert(
+        executor: any,
+        tenantId: string,
+        rows: { currency: string; rate: number; rateDate: string }[],
+        source: 'manual' | 'cbu',
+        userId?: string
+    ) {
+        if (rows.length === 0) return [];
+        return executor.insert(schema.exchangeRates)
+            .values(rows.map(row => ({
+                tenantId,
+                currency: row.currency,
+                rate: row.rate.toFixed(10),
+                rateDate: row.rateDate,
+                source,
+                createdBy: userId ?? null,
+            })))
+            .onConflictDoUpdate({
+                target: [schema.exchangeRates.tenantId, schema.exchangeRates.currency, schema.exchangeRates.rateDate],
+                set: {
+                    rate: sql`excluded.rate`,
+                    source: sql`excluded.source`,
+                    createdBy: sql`excluded.created_by`,
+                    updatedAt: new Date(),
+                },
+            })
+            .returning();
+    }
+
+    private parseCbu(content: string): CbuRate[] {
+        const text = content.trim();
+        let entries: Record<string, unknown>[];
+
+        if (text.startsWith('[') || text.startsWith('{')) {
+            let json: unknown;
+            try {
+                json = JSON.parse(text);
+            } catch {
+                throw new Error('Invalid JSON rates file');
+            }
+            entries = (Array.isArray(json) ? json : [json]) as Record<string, unknown>[];
+        } else if (text.startsWith('<')) {
+            entries = [...text.matchAll(/<CcyNtry\b[^>]*>([\s\S]*?)<\/CcyNtry>/g)].map(([, body]) => {
+                const field = (name: string) => body.match(new RegExp(`<${name}>([^<]*)</${name}>`))?.[1]?.trim();
+                return { Ccy: field('Ccy'), Rate: field('Rate'), Nominal: field('Nominal'), Date: field('Date') };
+            });
+        } else {
+            throw new Error('Unrecognized rates file format');
+        }
+
+        return entries.map(entry => {
+            const currency = String(entry.Ccy ?? '').toUpperCase();
+            const rate = Number(String(entry.Rate ?? '').replace(',', '.'));
+            const nominal = Number(entry.Nominal ?? 1) || 1;
+            // CBU dates are DD.MM.YYYY
+            const dateMatch = String(entry.Date ?? '').match(/^(\d{2})\.(\d{2})\.(\d{4})$/);
+            if (!/^[A-Z]{3}$/.test(currency) || !(rate > 0) || !dateMatch) {
+                throw new Error(`Invalid rate entry: ${JSON.stringify(entry)}`);
+            }
+            return { currency, rate, nominal, rateDate: `${dateMatch[3]}-${dateMatch[2]}-${dateMatch[1]}` };
+        });
+    }
+}
+
+export const exchangeRateService = new ExchangeRateService();
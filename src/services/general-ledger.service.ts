@@ -0,0 +1,699 @@
+/**
+ * GeneralLedgerService - Double-entry journal posted from business documents
+ *
+ * Deliveries, customer payments (and their refunds and reversals), supplier
+ * bills and payments, credit notes, restocked returns and stock adjustments each post
+ * one balanced journal entry, inside the transaction that creates the
+ * document. Postings go to the accounts holding a system role (receivable,
+ * revenue, cash...) in the tenant's chart of accounts; the chart is seeded
+ * with a default on first use and can be edited afterwards. Goods are
+ * costed at the product's cost price. Amounts are in the base currency;
+ * foreign-currency supplier documents arrive converted at their own rate.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, asc, desc, inArray } from 'drizzle-orm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type GlAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export type JournalSource = 'delivery' | 'payment' | 'supplier_payment' | 'supplier_bill' | 'supplier_fx' | 'credit_note' | 'return' | 'stock_adjustment';
+
+export type SystemRole =
+    | 'cash'
+    | 'bank'
+    | 'receivable'
+    | 'inventory'
+    | 'payable'
+    | 'tax_payable'
+    | 'revenue'
+    | 'sales_returns'
+    | 'cogs'
+    | 'inventory_adjustment'
+    | 'fx_gain'
+    | 'fx_loss';
+
+export const SYSTEM_ROLES: SystemRole[] = [
+    'cash', 'bank', 'receivable', 'inventory', 'payable', 'tax_payable', 'revenue', 'sales_returns', 'cogs', 'inventory_adjustment', 'fx_gain', 'fx_loss',
+];
+
+// Roles that may see and configure the ledger
+export const ACCOUNTING_ROLES = ['tenant_admin', 'super_admin'];
+
+interface PostingLine {
+    account: SystemRole | { id: string };
+    debit?: number;
+    credit?: number;
+    customerId?: string | null;
+    supplierId?: string | null;
+}
+
+interface PostingHeader {
+    tenantId: string;
+    sourceType: JournalSource;
+    sourceId: string;
+    reference?: string | null;
+    description: string;
+    entryDate?: Date | null;
+    createdBy?: string | null;
+}
+
+export interface JournalFilters {
+    from?: string;
+    to?: string;
+    sourceType?: string;
+    accountId?: string;
+    page: number;
+    limit: number;
+}
+
+export interface JournalExportLine {
+    accountCode: string;
+    accountName: string;
+    debit: number;
+    credit: number;
+    customerName: string | null;
+    supplierName: string | null;
+}
+
+export interface JournalExportEntry {
+    id: string;
+    date: Date;
+    sourceType: JournalSource;
+    reference: string | null;
+    description: string | null;
+    totalAmount: number;
+    lines: JournalExportLine[];
+}
+
+export interface TrialBalanceRow {
+    accountId: string;
+    code: string;
+    name: string;
+    type: GlAccountType;
+    openingBalance: number;
+    debit: number;
+    credit: number;
+    closingBalance: number;
+}
+
+// Uzbek national chart of accounts (NAS 21) codes, as used by 1C
+const DEFAULT_CHART: { code: string; name: string; type: GlAccountType; systemRole: SystemRole | null }[] = [
+    { code: '2910', name: 'Goods in warehouse', type: 'asset', systemRole: 'inventory' },
+    { code: '4010', name: 'Receivables from customers', type: 'asset', systemRole: 'receivable' },
+    { code: '5010', name: 'Cash on hand', type: 'asset', systemRole: 'cash' },
+    { code: '5110', name: 'Settlement account', type: 'asset', systemRole: 'bank' },
+    { code: '6010', name: 'Payables to suppliers', type: 'liability', systemRole: 'payable' },
+    { code: '6410', name: 'Taxes payable', type: 'liability', systemRole: 'tax_payable' },
+    { code: '8710', name: 'Retained earnings', type: 'equity', systemRole: null },
+    { code: '9020', name: 'Revenue from sales of goods', type: 'revenue', systemRole: 'revenue' },
+    { code: '9040', name: 'Returns of goods sold', type: 'revenue', systemRole: 'sales_returns' },
+    { code: '9120', name: 'Cost of goods sold', type: 'expense', systemRole: 'cogs' },
+    { code: '9430', name: 'Other operating expenses', type: 'expense', systemRole: 'inventory_adjustment' },
+    { code: '9540', name: 'Foreign exchange gains', type: 'revenue', systemRole: 'fx_gain' },
+    { code: '9620', name: 'Foreign exchange losses', type: 'expense', systemRole: 'fx_loss' },
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Assets and expenses carry debit balances, the rest credit balances
+const isDebitNormal = (type: GlAccountType) => type === 'asset' || type === 'expense';
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class GeneralLedgerService {
+    // ----------------------------------------------------------------
+    // POSTING
+    // ----------------------------------------------------------------
+
+    /**
+     * Sale of a delivered order: receivable against revenue and tax, and the
+     * cost of the goods out of inventory. Reads the order as stored, so call
+     * it after any shortfall has been applied.
+     */
+    async postDelivery(tx: any, orderId: string, userId?: string) {
+        const [order] = await tx.select().from(schema.orders).where(eq(schema.orders.id, orderId)).limit(1);
+        if (!order) return;
+
+        const total = round2(Number(order.totalAmount));
+        const tax = round2(Number(order.taxAmount ?? 0));
+
+        const [cost] = await tx.select({
+            // Delivered units only, as on the invoice; refused units go back to stock
+            amount: sql<string>`COALESCE(SUM(COALESCE(${schema.orderItems.qtyDelivered}, 0) * COALESCE(${schema.products.costPrice}, 0)), 0)`,
+        }).from(schema.orderItems)
+            .innerJoin(schema.products, eq(schema.orderItems.productId, schema.products.id))
+            .where(eq(schema.orderItems.orderId, orderId));
+        const costAmount = round2(Number(cost?.amount ?? 0));
+
+        await this.post(tx, {
+            tenantId: order.tenantId,
+            sourceType: 'delivery',
+            sourceId: order.id,
+            reference: order.orderNumber,
+            description: `Sale, order ${order.orderNumber}`,
+            entryDate: order.deliveredAt,
+            createdBy: userId,
+        }, [
+            { account: 'receivable', debit: total, customerId: order.customerId },
+            { account: 'revenue', credit: round2(total - tax) },
+            { account: 'tax_payable', credit: tax },
+            { account: 'cogs', debit: costAmount },
+            { account: 'inventory', credit: costAmount },
+        ]);
+    }
+
+    /**
+     * Customer payment against the receivable. Negative payments (refunds,
+     * gateway reversals) post the other way round. Money goes to the payment
+     * method's account, else to the fallback role.
+     */
+    async postPayment(
+        tx: any,
+        payment: { id: string; tenantId: string; customerId: string; paymentNumber: string; paymentMethodId: string; amount: string | number; collectedAt?: Date | null },
+        userId?: string | null,
+        fallback: SystemRole = 'cash'
+    ) {
+        const amount = round2(Number(payment.amount));
+        const money = await this.moneyAccount(tx, payment.paymentMethodId, fallback);
+        const refund = amount < 0;
+
+        await this.post(tx, {
+            tenantId: payment.tenantId,
+            sourceType: 'payment',
+            sourceId: payment.id,
+            reference: payment.paymentNumber,
+            description: `${refund ? 'Refund' : 'Payment'} ${payment.paymentNumber}`,
+            entryDate: payment.collectedAt,
+            createdBy: userId,
+        }, [
+            { account: money, debit: refund ? 0 : amount, credit: refund ? -amount : 0 },
+            { account: 'receivable', debit: refund ? -amount : 0, credit: refund ? 0 : amount, customerId: payment.customerId },
+        ]);
+    }
+
+    /**
+     * Payment to a supplier, settling the payable at the payment's rate.
+     */
+    async postSupplierPayment(
+        tx: any,
+        payment: { id: string; tenantId: string; supplierId: string; paymentNumber: string; paymentMethodId: string; amount: string | number; exchangeRate?: string | number; paidAt?: Date | null },
+        userId?: string
+    ) {
+        const amount = round2(Number(payment.amount) * Number(payment.exchangeRate ?? 1));
+        const money = await this.moneyAccount(tx, payment.paymentMethodId, 'cash');
+
+        await this.post(tx, {
+            tenantId: payment.tenantId,
+            sourceType: 'supplier_payment',
+            sourceId: payment.id,
+            reference: payment.paymentNumber,
+            description: `Supplier payment ${payment.paymentNumber}`,
+            entryDate: payment.paidAt,
+            createdBy: userId,
+        }, [
+            { account: 'payable', debit: amount, supplierId: payment.supplierId },
+            { account: money, credit: amount },
+        ]);
+    }
+
+    /**
+     * Supplier bill for received goods: inventory at the purchase price and
+     * the input tax (which lowers tax payable) against the supplier, at the
+     * bill's rate.
+     */
+    async postSupplierBill(
+        tx: any,
+        bill: { id: string; tenantId: string; supplierId: string; billNumber: string; subtotalAmount: string | number; taxAmount: string | number; totalAmount: string | number; exchangeRate?: string | number },
+        userId?: string
+    ) {
+        const rate = Number(bill.exchangeRate ?? 1);
+        const total = round2(Number(bill.totalAmount) * rate);
+        const tax = round2(Number(bill.taxAmount) * rate);
+
+        await this.post(tx, {
+            tenantId: bill.tenantId,
+            sourceType: 'supplier_bill',
+            sourceId: bill.id,
+            reference: bill.billNumber,
+            description: `Supplier bill ${bill.billNumber}`,
+            createdBy: userId,
+        }, [
+            // Inventory takes the remainder so the entry balances after rounding
+            { account: 'inventory', debit: round2(total - tax) },
+            { account: 'tax_payable', debit: tax },
+            { account: 'payable', credit: total, supplierId: bill.supplierId },
+        ]);
+    }
+
+    /**
+     * Realized exchange difference of a payment allocated to a bill booked
+     * at another rate: a gain lowers the payable, a loss raises it.
+     */
+    async postSupplierFx(
+        tx: any,
+        allocation: { id: string; tenantId: string; supplierId: string; billNumber: string; paymentNumber: string; fxGainLoss: number },
+        userId?: string
+    ) {
+        const amount = round2(Math.abs(allocation.fxGainLoss));
+        const lines: PostingLine[] = allocation.fxGainLoss > 0
+            ? [{ account: 'payable', debit: amount, supplierId: allocation.supplierId }, { account: 'fx_gain', credit: amount }]
+            : [{ account: 'fx_loss', debit: amount }, { account: 'payable', credit: amount, supplierId: allocation.supplierId }];
+
+        await this.post(tx, {
+            tenantId: allocation.tenantId,
+            sourceType: 'supplier_fx',
+            sourceId: allocation.id,
+            reference: allocation.paymentNumber,
+            description: `Exchange difference on ${allocation.billNumber} paid by ${allocation.paymentNumber}`,
+            createdBy: userId,
+        }, lines);
+    }
+
+    /**
+     * Issued credit note: sales returns and the reversed tax against the
+     * receivable. A cash refund is posted separately as a negative payment.
+     */
+    async postCreditNote(
+        tx: any,
+        note: { id: string; tenantId: string; customerId: string; creditNoteNumber: string | null; subtotalAmount: string | number; taxAmount: string | number; totalAmount: string | number },
+        userId?: string
+    ) {
+        const total = round2(Number(note.totalAmount));
+        const tax = round2(Number(note.taxAmount));
+
+        await this.post(tx, {
+            tenantId: note.tenantId,
+            sourceType: 'credit_note',
+            sourceId: note.id,
+            reference: note.creditNoteNumber,
+            description: `Credit note ${note.creditNoteNumber}`,
+            createdBy: userId,
+        }, [
+            { account: 'sales_returns', debit: round2(total - tax) },
+            { account: 'tax_payable', debit: tax },
+            { account: 'receivable', credit: total, customerId: note.customerId },
+        ]);
+    }
+
+    /**
+     * Returned goods put back into stock, at cost. Not for goods refused at
+     * delivery: postDelivery never costed them out of inventory.
+     */
+    async postReturnRestock(tx: any, returnRecord: { id: string; tenantId: string; productId: string | null; qtyReturned: number }, userId?: string) {
+        if (!returnRecord.productId) return;
+        const cost = round2(returnRecord.qtyReturned * await this.unitCost(tx, returnRecord.productId));
+
+        await this.post(tx, {
+            tenantId: returnRecord.tenantId,
+            sourceType: 'return',
+            sourceId: returnRecord.id,
+            description: 'Returned goods restocked',
+            createdBy: userId,
+        }, [
+            { account: 'inventory', debit: cost },
+            { account: 'cogs', credit: cost },
+        ]);
+    }
+
+    /**
+     * Stock found or written off, at cost, against the adjustment account.
+     */
+    async postStockAdjustment(
+        tx: any,
+        adjustment: { id: string; tenantId: string; adjustmentNumber: string; productId: string; qtyBefore: number; qtyAfter: number; reason: string },
+        userId?: string | null
+    ) {
+        const value = round2((adjustment.qtyAfter - adjustment.qtyBefore) * await this.unitCost(tx, adjustment.productId));
+        const gain = value > 0;
+
+        await this.post(tx, {
+            tenantId: adjustment.tenantId,
+            sourceType: 'stock_adjustment',
+            sourceId: adjustment.id,
+            reference: adjustment.adjustmentNumber,
+            description: adjustment.reason.slice(0, 255),
+            createdBy: userId,
+        }, [
+            { account: 'inventory', debit: gain ? value : 0, credit: gain ? 0 : -value },
+            { account: 'inventory_adjustment', debit: gain ? 0 : -value, credit: gain ? value : 0 },
+        ]);
+    }
+
+    // ----------------------------------------------------------------
+    // CHART OF ACCOUNTS
+    // ----------------------------------------------------------------
+
+    /**
+     * The tenant's chart, seeding the default one if it has none yet.
+     */
+    async getAccounts(tenantId: string, executor: any = db) {
+        await this.ensureChart(executor, tenantId);
+        return executor.select().from(schema.glAccounts)
+            .where(eq(schema.glAccounts.tenantId, tenantId))
+            .orderBy(asc(schema.glAccounts.code));
+    }
+
+    async createAccount(tenantId: string, input: { code: string; name: string; type: GlAccountType }) {
+        await this.ensureChart(db, tenantId);
+        const [existing] = await db.select({ id: schema.glAccounts.id }).from(schema.glAccounts)
+            .where(and(eq(schema.glAccounts.tenantId, tenantId), eq(schema.glAccounts.code, input.code))).limit(1);
+        if (existing) throw new Error(`Account ${input.code} already exists`);
+
+        const [account] = await db.insert(schema.glAccounts).values({ tenantId, ...input }).returning();
+        return account;
+    }
+
+    /**
+     * Rename, (de)activate or give an account a system role. A role moves
+     * from the account that held it; accounts holding a role stay active.
+     */
+    async updateAccount(tenantId: string, id: string, input: { name?: string; isActive?: boolean; systemRole?: SystemRole }) {
+        return db.transaction(async (tx) => {
+            const [account] = await tx.select().from(schema.glAccounts)
+                .where(and(eq(schema.glAccounts.id, id), eq(schema.glAccounts.tenantId, tenantId)))
+                .for('update').limit(1);
+            if (!account) throw new Error('Account not found');
+
+            const systemRole = input.systemRole ?? account.systemRole;
+            if (systemRole && input.isActive === false) {
+                throw new Error(`Account holds the ${systemRole} role; assign it to another account first`);
+            }
+            if (input.systemRole && !account.isActive && input.isActive !== true) {
+                throw new Error('Inactive accounts cannot hold a system role');
+            }
+
+            if (input.systemRole && input.systemRole !== account.systemRole) {
+                await tx.update(schema.glAccounts).set({ systemRole: null, updatedAt: new Date() })
+                    .where(and(eq(schema.glAccounts.tenantId, tenantId), eq(schema.glAccounts.systemRole, input.systemRole)));
+            }
+
+            const [updated] = await tx.update(schema.glAccounts).set({
+                ...(input.name !== undefined ? { name: input.name } : {}),
+                ...(input.isActive !== undefined ? { isActive: input.isActive } : {}),
+                systemRole,
+                updatedAt: new Date(),
+            }).where(eq(schema.glAccounts.id, id)).returning();
+            return updated;
+        });
+    }
+
+    /**
+     * Point a payment method at the account its money is posted to, or back
+     * at the cash account with null.
+     */
+    async setPaymentMethodAccount(tenantId: string, paymentMethodId: string, accountId: string | null) {
+        if (accountId) {
+            const [account] = await db.select({ type: schema.glAccounts.type, isActive: schema.glAccounts.isActive })
+                .from(schema.glAccounts)
+                .where(and(eq(schema.glAccounts.id, accountId), eq(schema.glAccounts.tenantId, tenantId))).limit(1);
+            if (!account) throw new Error('Account not found');
+            if (account.type !== 'asset' || !account.isActive) throw new Error('Money can only be posted to an active asset account');
+        }
+
+        const [method] = await db.update(schema.paymentMethods)
+            .set({ glAccountId: accountId, updatedAt: new Date() })
+            .where(and(eq(schema.paymentMethods.id, paymentMethodId), eq(schema.paymentMethods.tenantId, tenantId)))
+            .returning();
+        if (!method) throw new Error('Payment method not found');
+        return method;
+    }
+
+    // ----------------------------------------------------------------
+    // REPORTS
+    // ----------------------------------------------------------------
+
+    async listEntries(tenantId: string, filters: JournalFilters) {
+        const conditions = [eq(schema.journalEntries.tenantId, tenantId), ...this.dateConditions(filters.from, filters.to)];
+        if (filters.sourceType) conditions.push(eq(schema.journalEntries.sourceType, filters.sourceType as JournalSource));
+        if (filters.accountId) {
+            conditions.push(sql`${schema.journalEntries.id} IN (SELECT ${schema.journalLines.entryId} FROM ${schema.journalLines} WHERE ${schema.journalLines.accountId} = ${filters.accountId})`);
+        }
+
+        const entries = await db.select().from(schema.journalEntries)
+            .where(and(...conditions))
+            .orderBy(desc(schema.journalEntries.entryDate), desc(schema.journalEntries.createdAt))
+            .limit(filters.limit)
+            .offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.journalEntries).where(and(...conditions));
+
+        const lines = entries.length > 0
+            ? await db.select({
+                entryId: schema.journalLines.entryId,
+                accountId: schema.journalLines.accountId,
+                accountCode: schema.glAccounts.code,
+                accountName: schema.glAccounts.name,
+                debit: schema.journalLines.debit,
+                credit: schema.journalLines.credit,
+                customerId: schema.journalLines.customerId,
+                supplierId: schema.journalLines.supplierId,
+            }).from(schema.journalLines)
+                .innerJoin(schema.glAccounts, eq(schema.journalLines.accountId, schema.glAccounts.id))
+                .where(inArray(schema.journalLines.entryId, entries.map(e => e.id)))
+            : [];
+
+        return {
+            rows: entries.map(entry => ({
+                ...entry,
+                lines: lines
+                    .filter(line => line.entryId === entry.id)
+                    .map(line => ({
+                        accountId: line.accountId,
+                        accountCode: line.accountCode,
+                        accountName: line.accountName,
+                        debit: Number(line.debit),
+                        credit: Number(line.credit),
+                        customerId: line.customerId,
+                        supplierId: line.supplierId,
+                    })),
+            })),
+            total: Number(count),
+        };
+    }
+
+    /**
+     * Every account with its balance before `from`, the period's movements
+     * and the closing balance, signed by the account's normal side.
+     */
+    async getTrialBalance(tenantId: string, from: string, to: string) {
+        const accounts = await this.getAccounts(tenantId);
+
+        const rows = await db.select({
+            accountId: schema.journalLines.accountId,
+            openingDebit: sql<string>`COALESCE(SUM(${schema.journalLines.debit}) FILTER (WHERE ${schema.journalEntries.entryDate} < ${from}::date), 0)`,
+            openingCredit: sql<string>`COALESCE(SUM(${schema.journalLines.credit}) FILTER (WHERE ${schema.journalEntries.entryDate} < ${from}::date), 0)`,
+            debit: sql<string>`COALESCE(SUM(${schema.journalLines.debit}) FILTER (WHERE ${schema.journalEntries.entryDate} >= ${from}::date), 0)`,
+            credit: sql<string>`COALESCE(SUM(${schema.journalLines.credit}) FILTER (WHERE ${schema.journalEntries.entryDate} >= ${from}::date), 0)`,
+        }).from(schema.journalLines)
+            .innerJoin(schema.journalEntries, eq(schema.journalLines.entryId, schema.journalEntries.id))
+            .where(and(
+                eq(schema.journalEntries.tenantId, tenantId),
+                sql`${schema.journalEntries.entryDate} < ${to}::date + 1`
+            ))
+            .groupBy(schema.journalLines.accountId);
+
+        const totals = new Map(rows.map(row => [row.accountId, row]));
+        const lines: TrialBalanceRow[] = accounts.map((account: typeof schema.glAccounts.$inferSelect) => {
+            const row = totals.get(account.id);
+            const sign = isDebitNormal(account.type) ? 1 : -1;
+            const opening = round2(sign * (Number(row?.openingDebit ?? 0) - Number(row?.openingCredit ?? 0)));
+            const debit = round2(Number(row?.debit ?? 0));
+            const credit = round2(Number(row?.credit ?? 0));
+            return {
+                accountId: account.id,
+                code: account.code,
+                name: account.name,
+                type: account.type,
+                openingBalance: opening,
+                debit,
+                credit,
+                closingBalance: round2(opening + sign * (debit - credit)),
+            };
+        }).filter((line: TrialBalanceRow) => line.openingBalance !== 0 || line.debit !== 0 || line.credit !== 0);
+
+        return {
+            from,
+            to,
+            lines,
+            totalDebit: round2(lines.reduce((sum, line) => sum + line.debit, 0)),
+            totalCredit: round2(lines.reduce((sum, line) => sum + line.credit, 0)),
+        };
+    }
+
+    /**
+     * Revenue and expense accounts' movements over the period.
+     */
+    async getProfitAndLoss(tenantId: string, from: string, to: string) {
+        const { lines } = await this.getTrialBalance(tenantId, from, to);
+        const movement = (line: TrialBalanceRow) => round2(line.type === 'revenue' ? line.credit - line.debit : line.debit - line.credit);
+
+        const revenue = lines.filter(line => line.type === 'revenue' && movement(line) !== 0)
+            .map(line => ({ accountId: line.accountId, code: line.code, name: line.name, amount: movement(line) }));
+        const expenses = lines.filter(line => line.type === 'expense' && movement(line) !== 0)
+            .map(line => ({ accountId: line.accountId, code: line.code, name: line.name, amount: movement(line) }));
+
+        const totalRevenue = round2(revenue.reduce((sum, line) => sum + line.amount, 0));
+        const totalExpenses = round2(expenses.reduce((sum, line) => sum + line.amount, 0));
+
+        return { from, to, revenue, expenses, totalRevenue, totalExpenses, netProfit: round2(totalRevenue - totalExpenses) };
+    }
+
+    /**
+     * Journal entries with account codes and counterparties, oldest first,
+     * for the accounting exports.
+     */
+    async getJournalForExport(tenantId: string, from?: Date, to?: Date): Promise<JournalExportEntry[]> {
+        const conditions = [eq(schema.journalEntries.tenantId, tenantId)];
+        if (from) conditions.push(sql`${schema.journalEntries.entryDate} >= ${from}`);
+        if (to) conditions.push(sql`${schema.journalEntries.entryDate} <= ${to}`);
+
+        const entries = await db.select().from(schema.journalEntries)
+            .where(and(...conditions))
+            .orderBy(asc(schema.journalEntries.entryDate), asc(schema.journalEntries.createdAt));
+        if (entries.length === 0) return [];
+
+        const lines = await db.select({
+            entryId: schema.journalLines.entryId,
+            accountCode: schema.glAccounts.code,
+            accountName: schema.glAccounts.name,
+            debit: schema.journalLines.debit,
+            credit: schema.journalLines.credit,
+            customerName: schema.customers.name,
+            supplierName: schema.suppliers.name,
+        }).from(schema.journalLines)
+            .innerJoin(schema.glAccounts, eq(schema.journalLines.accountId, schema.glAccounts.id))
+            .leftJoin(schema.customers, eq(schema.journalLines.customerId, schema.customers.id))
+            .leftJoin(schema.suppliers, eq(schema.journalLines.supplierId, schema.suppliers.id))
+            .innerJoin(schema.journalEntries, eq(schema.journalLines.entryId, schema.journalEntries.id))
+            .where(and(...conditions));
+
+        const byEntry = new Map<string, JournalExportLine[]>();
+        for (const { entryId, ...line } of lines) {
+            const list = byEntry.get(entryId) ?? [];
+            list.push({ ...line, debit: Number(line.debit), credit: Number(line.credit) });
+            byEntry.set(entryId, list);
+        }
+
+        return entries.map(entry => ({
+            id: entry.id,
+            date: entry.entryDate,
+            sourceType: entry.sourceType,
+            reference: entry.reference,
+            description: entry.description,
+            totalAmount: Number(entry.totalAmount),
+            lines: byEntry.get(entry.id) ?? [],
+        }));
+    }
+
+    // ----------------------------------------------------------------
+    // INTERNALS
+    // ----------------------------------------------------------------
+
+    /**
+     * Writes a balanced entry. Zero lines are dropped; a document already
+     * posted is skipped, so posting is safe to repeat.
+     */
+    private async post(tx: any, header: PostingHeader, lines: PostingLine[]) {
+        const nonZero = lines
+            .map(line => ({ ...line, debit: round2(line.debit ?? 0), credit: round2(line.credit ?? 0) }))
+            .filter(line => line.debit !== 0 || line.credit !== 0);
+        if (nonZero.length === 0) return;
+
+        const totalDebit = round2(nonZero.reduce((sum, line) => sum + line.debit, 0));
+        const totalCredit = round2(nonZero.reduce((sum, line) => sum + line.credit, 0));
+        if (totalDebit !== totalCredit) {
+            throw new Error(`Unbalanced journal entry for ${header.sourceType} ${header.sourceId}: ${totalDebit} / ${totalCredit}`);
+        }
+
+        const [existing] = await tx.select({ id: schema.journalEntries.id }).from(schema.journalEntries)
+            .where(and(
+                eq(schema.journalEntries.tenantId, header.tenantId),
+                eq(schema.journalEntries.sourceType, header.sourceType),
+                eq(schema.journalEntries.sourceId, header.sourceId)
+            )).limit(1);
+        if (existing) return;
+
+        const roles = await this.roleAccounts(tx, header.tenantId);
+
+        const [entry] = await tx.insert(schema.journalEntries).values({
+            tenantId: header.tenantId,
+            sourceType: header.sourceType,
+            sourceId: header.sourceId,
+            reference: header.reference ?? null,
+            description: header.description,
+            totalAmount: String(totalDebit),
+            entryDate: header.entryDate ?? new Date(),
+            createdBy: header.createdBy ?? null,
+        }).returning({ id: schema.journalEntries.id });
+
+        await tx.insert(schema.journalLines).values(nonZero.map(line => ({
+            entryId: entry.id,
+            accountId: typeof line.account === 'string' ? roles.get(line.account)! : line.account.id,
+            debit: String(line.debit),
+            credit: String(line.credit),
+            customerId: line.customerId ?? null,
+            supplierId: line.supplierId ?? null,
+        })));
+    }
+
+    private async roleAccounts(tx: any, tenantId: string): Promise<Map<string, string>> {
+        await this.ensureChart(tx, tenantId);
+        const accounts = await tx.select({ id: schema.glAccounts.id, systemRole: schema.glAccounts.systemRole })
+            .from(schema.glAccounts)
+            .where(and(eq(schema.glAccounts.tenantId, tenantId), sql`${schema.glAccounts.systemRole} IS NOT NULL`));
+
+        const roles = new Map<string, string>(accounts.map((a: { id: string; systemRole: string }) => [a.systemRole, a.id]));
+        const missing = SYSTEM_ROLES.filter(role => !roles.has(role));
+        if (missing.length > 0) {
+            throw new Error(`No account holds the ${missing.join(', ')} role`);
+        }
+        return roles;
+    }
+
+    /**
+     * Seeds the default chart on first use. An existing chart only gets the
+     * default accounts of system roles it lacks (roles added since it was
+     * seeded), unless their code is already taken.
+     */
+    private async ensureChart(tx: any, tenantId: string) {
+        const existing: { systemRole: string | null }[] = await tx.select({ systemRole: schema.glAccounts.systemRole })
+            .from(schema.glAccounts).where(eq(schema.glAccounts.tenantId, tenantId));
+        const roles = new Set(existing.map(account => account.systemRole));
+
+        const accounts = existing.length === 0
+            ? DEFAULT_CHART
+            : DEFAULT_CHART.filter(account => account.systemRole && !roles.has(account.systemRole));
+        if (accounts.length === 0) return;
+
+        await tx.insert(schema.glAccounts)
+            .values(accounts.map(account => ({ tenantId, ...account })))
+            .onConflictDoNothing();
+    }
+
+    private async moneyAccount(tx: any, paymentMethodId: string, fallback: SystemRole): Promise<SystemRole | { id: string }> {
+        const [method] = await tx.select({ glAccountId: schema.paymentMethods.glAccountId })
+            .from(schema.paymentMethods).where(eq(schema.paymentMethods.id, paymentMethodId)).limit(1);
+        return method?.glAccountId ? { id: method.glAccountId } : fallback;
+    }
+
+    private async unitCost(tx: any, productId: string): Promise<number> {
+        const [product] = await tx.select({ costPrice: schema.products.costPrice })
+            .from(schema.products).where(eq(schema.products.id, productId)).limit(1);
+        return Number(product?.costPrice ?? 0);
+    }
+
+    private dateConditions(from?: string, to?: string) {
+        const conditions = [];
+        if (from) conditions.push(sql`${schema.journalEntries.entryDate} >= ${from}::date`);
+        if (to) conditions.push(sql`${schema.journalEntries.entryDate} < ${to}::date + 1`);
+        return conditions;
+    }
+}
+
+export const generalLedgerService = new GeneralLedgerService();
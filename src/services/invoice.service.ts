@@ -0,0 +1,520 @@
+/**
+ * InvoiceService - Sales invoices for orders
+ *
+ * One invoice per order, issued when the order is delivered or, if the tenant
+ * prefers, when it is approved. An invoice issued on approval is replaced by
+ * a new one (the old number stays, cancelled) when a short delivery or
+ * refusal later changes the order total. Numbers come from the tenant's
+ * invoice counter (see nextDocumentSequence), bumped in the issuing transaction, so a rolled-back issue releases its
+ * number and the sequence has no gaps. Lines and buyer details are copied at
+ * issue time; the seller block is rendered from the current tenant profile.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, desc, asc, gte, lte, or, ilike } from 'drizzle-orm';
+import { existsSync } from 'fs';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import path from 'path';
+import { createPdfDocument, pdfToBuffer } from '../lib/pdf';
+import { getTenantLocalDate } from '../lib/tenant-time';
+import { nextDocumentSequence, formatDocumentNumber } from '../lib/document-numbers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TaxBreakdownRow {
+    rate: number;
+    taxable: number;
+    tax: number;
+}
+
+export interface InvoiceListFilters {
+    status?: string;
+    customerId?: string;
+    orderId?: string;
+    from?: string;
+    to?: string;
+    search?: string;
+    page: number;
+    limit: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// Once delivered, order lines carry the delivered quantity
+const DELIVERED_STATUSES = ['delivered', 'partial', 'returned'];
+
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+// Loopback, private, link-local (cloud metadata) and other non-public ranges
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+    ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+    ['172.16.0.0', 12], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) PRIVATE_RANGES.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+    ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) PRIVATE_RANGES.addSubnet(network, prefix, 'ipv6');
+
+const formatMoney = (value: string | number, currency: string) =>
+    `${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+const addDays = (day: string, days: number) => {
+    const date = new Date(`${day}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+};
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class InvoiceService {
+    /**
+     * Issues or cancels the order's invoice after a status change. Orders that
+     * skip approval are still invoiced when delivered.
+     */
+    async onOrderStatus(tx: any, order: { id: string; tenantId: string }, status: string, userId?: string) {
+        if (status === 'cancelled') {
+            await this.cancelForOrder(tx, order.id);
+            return null;
+        }
+        if (!['approved', 'delivered', 'partial'].includes(status)) return null;
+
+        if (status === 'approved') {
+            const [tenant] = await tx.select({ invoiceIssueOn: schema.tenants.invoiceIssueOn })
+                .from(schema.tenants)
+                .where(eq(schema.tenants.id, order.tenantId))
+                .limit(1);
+            if (tenant?.invoiceIssueOn !== 'approval') return null;
+        }
+
+        return this.issueForOrder(tx, order.id, userId);
+    }
+
+    /**
+     * Issues the invoice for an order, or returns the one already issued.
+     */
+    async issueForOrder(tx: any, orderId: string, userId?: string, replacesInvoiceId?: string) {
+        // Serializes concurrent issues for the same order
+        const [order] = await tx.select().from(schema.orders)
+            .where(eq(schema.orders.id, orderId))
+            .for('update');
+        if (!order) throw new Error('Order not found');
+
+        const [existing] = await tx.select().from(schema.invoices)
+            .where(and(eq(schema.invoices.orderId, orderId), eq(schema.invoices.status, 'issued')))
+            .limit(1);
+        if (existing) return existing;
+
+        if (order.status === 'cancelled') throw new Error('Cancelled orders cannot be invoiced');
+
+        const [tenant] = await tx.select({
+            currency: schema.tenants.currency,
+            timezone: schema.tenants.timezone,
+            invoiceNumberPrefix: schema.tenants.invoiceNumberPrefix,
+            defaultPaymentTerms: schema.tenants.defaultPaymentTerms,
+        }).from(schema.tenants).where(eq(schema.tenants.id, order.tenantId)).limit(1);
+        const [customer] = await tx.select({ name: schema.customers.name, address: schema.customers.address, phone: schema.customers.phone })
+            .from(schema.customers).where(eq(schema.customers.id, order.customerId)).limit(1);
+        const items: any[] = await tx.select({
+            id: schema.orderItems.id,
+            productId: schema.orderItems.productId,
+            productName: schema.products.name,
+            sku: schema.products.sku,
+            productTaxRate: schema.products.taxRate,
+            unitPrice: schema.orderItems.unitPrice,
+            qtyOrdered: schema.orderItems.qtyOrdered,
+            qtyDelivered: schema.orderItems.qtyDelivered,
+            discountAmount: schema.orderItems.discountAmount,
+            taxAmount: schema.orderItems.taxAmount,
+            lineTotal: schema.orderItems.lineTotal,
+        }).from(schema.orderItems)
+            .leftJoin(schema.products, eq(schema.orderItems.productId, schema.products.id))
+            .where(eq(schema.orderItems.orderId, orderId))
+            .orderBy(asc(schema.orderItems.createdAt));
+
+        const sequenceNumber = await nextDocumentSequence(tx, order.tenantId, 'invoice');
+        const issueDate = getTenantLocalDate(tenant?.timezone || 'Asia/Tashkent');
+        const paymentTerms = tenant?.defaultPaymentTerms ?? 7;
+
+        const [invoice] = await tx.insert(schema.invoices).values({
+            tenantId: order.tenantId,
+            invoiceNumber: formatDocumentNumber(tenant?.invoiceNumberPrefix ?? 'INV-', sequenceNumber),
+            sequenceNumber,
+            orderId,
+            customerId: order.customerId,
+            currency: tenant?.currency || 'UZS',
+            subtotalAmount: order.subtotalAmount,
+            discountAmount: order.discountAmount ?? '0',
+            taxAmount: order.taxAmount ?? '0',
+            totalAmount: order.totalAmount,
+            customerName: customer?.name ?? '',
+            customerAddress: customer?.address?.slice(0, 500) ?? null,
+            customerPhone: customer?.phone ?? null,
+            issueDate,
+            dueDate: paymentTerms > 0 ? addDays(issueDate, paymentTerms) : issueDate,
+            issuedBy: userId ?? null,
+            replacesInvoiceId: replacesInvoiceId ?? null,
+        }).returning();
+
+        // Bills what was delivered. An invoice issued before delivery (tenants
+        // that invoice on approval) bills the ordered quantity and is re-issued
+        // if the delivery falls short.
+        const delivered = DELIVERED_STATUSES.includes(order.status);
+        const lines = items
+            .map(item => ({ item, quantity: delivered ? item.qtyDelivered ?? 0 : item.qtyOrdered }))
+            .filter(({ item, quantity }) => quantity > 0 || Number(item.lineTotal) > 0);
+
+        if (lines.length > 0) {
+            await tx.insert(schema.invoiceLines).values(lines.map(({ item, quantity }) => {
+                const tax = Number(item.taxAmount ?? 0);
+                const taxable = Number(item.lineTotal) - Number(item.discountAmount ?? 0);
+                const rate = tax === 0 ? 0 : item.productTaxRate != null ? Number(item.productTaxRate) : taxable > 0 ? round2(tax / taxable * 100) : 0;
+                return {
+                    invoiceId: invoice.id,
+                    orderItemId: item.id,
+                    productId: item.productId,
+                    productName: item.productName ?? '',
+                    sku: item.sku,
+                    quantity,
+                    unitPrice: item.unitPrice,
+                    discountAmount: item.discountAmount ?? '0',
+                    taxRate: String(rate),
+                    taxAmount: item.taxAmount ?? '0',
+                    lineTotal: item.lineTotal,
+                };
+            }));
+        }
+
+        return invoice;
+    }
+
+    /**
+     * Replaces an invoice issued before delivery once a short delivery or
+     * refusal has reduced the order total: the old invoice is cancelled and,
+     * unless nothing was delivered, a new one is issued for the new total
+     * with a reference to the one it replaces. Call inside the delivery
+     * transaction, after the order amounts are updated.
+     */
+    async reissueForOrder(tx: any, orderId: string, userId?: string) {
+        const [issued] = await tx.select().from(schema.invoices)
+            .where(and(eq(schema.invoices.orderId, orderId), eq(schema.invoices.status, 'issued')))
+            .limit(1);
+        if (!issued) return null;
+
+        const [order] = await tx.select({ totalAmount: schema.orders.totalAmount })
+            .from(schema.orders)
+            .where(eq(schema.orders.id, orderId));
+        if (round2(Number(issued.totalAmount)) === round2(Number(order.totalAmount))) return issued;
+
+        await this.cancelForOrder(tx, orderId);
+        if (Number(order.totalAmount) <= 0) return null;
+        return this.issueForOrder(tx, orderId, userId, issued.id);
+    }
+
+    /**
+     * Marks the order's invoice cancelled. The number is kept so the
+     * sequence stays complete.
+     */
+    async cancelForOrder(tx: any, orderId: string) {
+        await tx.update(schema.invoices)
+            .set({ status: 'cancelled', cancelledAt: new Date() })
+            .where(and(eq(schema.invoices.orderId, orderId), eq(schema.invoices.status, 'issued')));
+    }
+
+    /**
+     * Paginated invoices with order numbers.
+     */
+    async list(tenantId: string, filters: InvoiceListFilters) {
+        const conditions: any[] = [eq(schema.invoices.tenantId, tenantId)];
+        if (filters.status) conditions.push(eq(schema.invoices.status, filters.status as any));
+        if (filters.customerId) conditions.push(eq(schema.invoices.customerId, filters.customerId));
+        if (filters.orderId) conditions.push(eq(schema.invoices.orderId, filters.orderId));
+        if (filters.from) conditions.push(gte(schema.invoices.issueDate, filters.from));
+        if (filters.to) conditions.push(lte(schema.invoices.issueDate, filters.to));
+        if (filters.search) {
+            conditions.push(or(
+                ilike(schema.invoices.invoiceNumber, `%${filters.search}%`),
+                ilike(schema.invoices.customerName, `%${filters.search}%`)
+            ));
+        }
+
+        const rows = await db.select({
+            id: schema.invoices.id,
+            invoiceNumber: schema.invoices.invoiceNumber,
+            status: schema.invoices.status,
+            orderId: schema.invoices.orderId,
+            orderNumber: schema.orders.orderNumber,
+            customerId: schema.invoices.customerId,
+            customerName: schema.invoices.customerName,
+            currency: schema.invoices.currency,
+            taxAmount: schema.invoices.taxAmount,
+            totalAmount: schema.invoices.totalAmount,
+            issueDate: schema.invoices.issueDate,
+            dueDate: schema.invoices.dueDate,
+        }).from(schema.invoices)
+            .innerJoin(schema.orders, eq(schema.invoices.orderId, schema.orders.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.invoices.sequenceNumber))
+            .limit(filters.limit)
+            .offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(schema.invoices).where(and(...conditions));
+        return { rows, total: Number(count) };
+    }
+
+    /**
+     * Invoice with lines, tax breakdown and order number.
+     */
+    async getById(tenantId: string, id: string) {
+        const [invoice] = await db.select({
+            invoice: schema.invoices,
+            orderNumber: schema.orders.orderNumber,
+            replacesInvoiceNumber: sql<string | null>`(SELECT r.invoice_number FROM invoices r WHERE r.id = ${schema.invoices.replacesInvoiceId})`,
+        }).from(schema.invoices)
+            .innerJoin(schema.orders, eq(schema.invoices.orderId, schema.orders.id))
+            .where(and(eq(schema.invoices.id, id), eq(schema.invoices.tenantId, tenantId)))
+            .limit(1);
+        if (!invoice) return null;
+
+        const lines = await db.select().from(schema.invoiceLines)
+            .where(eq(schema.invoiceLines.invoiceId, id))
+            .orderBy(asc(schema.invoiceLines.productName));
+
+        return {
+            ...invoice.invoice,
+            orderNumber: invoice.orderNumber,
+            replacesInvoiceNumber: invoice.replacesInvoiceNumber,
+            lines,
+            taxBreakdown: this.taxBreakdown(lines),
+        };
+    }
+
+    /**
+     * Latest invoice of an order, if one has been issued.
+     */
+    async getForOrder(tenantId: string, orderId: string) {
+        const [invoice] = await db.select({ id: schema.invoices.id }).from(schema.invoices)
+            .where(and(eq(schema.invoices.orderId, orderId), eq(schema.invoices.tenantId, tenantId)))
+            .orderBy(desc(schema.invoices.createdAt))
+            .limit(1);
+        return invoice ? this.getById(tenantId, invoice.id) : null;
+    }
+
+    /**
+     * Taxable base and tax per rate.
+     */
+    taxBreakdown(lines: { taxRate: string; taxAmount: string; lineTotal: string; discountAmount: string }[]): TaxBreakdownRow[] {
+        const byRate = new Map<number, TaxBreakdownRow>();
+        for (const line of lines) {
+            const rate = Number(line.taxRate);
+            const row = byRate.get(rate) ?? { rate, taxable: 0, tax: 0 };
+            row.taxable = round2(row.taxable + Number(line.lineTotal) - Number(line.discountAmount));
+            row.tax = round2(row.tax + Number(line.taxAmount));
+            byRate.set(rate, row);
+        }
+        return [...byRate.values()].sort((a, b) => a.rate - b.rate);
+    }
+
+    // --------------------------------------------------------------------------
+    // DOCUMENTS
+    // --------------------------------------------------------------------------
+
+    /**
+     * Renders the invoice as an A4 PDF.
+     */
+    async renderPdf(tenantId: string, id: string): Promise<{ invoiceNumber: string; pdf: Buffer } | null> {
+        const invoice = await this.getById(tenantId, id);
+        if (!invoice) return null;
+
+        const [tenant] = await db.select({
+            name: schema.tenants.name,
+            address: schema.tenants.address,
+            city: schema.tenants.city,
+            country: schema.tenants.country,
+            phone: schema.tenants.phone,
+            email: schema.tenants.email,
+            website: schema.tenants.website,
+            taxId: schema.tenants.taxId,
+            logo: schema.tenants.logo,
+        }).from(schema.tenants).where(eq(schema.tenants.id, tenantId)).limit(1);
+
+        const doc = createPdfDocument({ size: 'A4' });
+        const left = doc.page.margins.left;
+        const width = doc.page.width - left - doc.page.margins.right;
+        const money = (value: string | number) => formatMoney(value, invoice.currency);
+
+        // Seller
+        let sellerX = left;
+        const logo = await this.loadLogo(tenantId, tenant?.logo);
+        if (logo) {
+            try {
+                doc.image(logo, left, 40, { fit: [80, 50] });
+                sellerX = left + 90;
+            } catch {
+                // Unsupported image format; the invoice is still valid without it
+            }
+        }
+        doc.font('bold').fontSize(16).text(tenant?.name ?? '', sellerX, 40, { width: width / 2 });
+        doc.font('regular').fontSize(9).fillColor('#555555');
+        const sellerAddress = [tenant?.address, tenant?.city, tenant?.country].filter(Boolean).join(', ');
+        if (sellerAddress) doc.text(sellerAddress, { width: width / 2 });
+        if (tenant?.phone) doc.text(tenant.phone);
+        if (tenant?.email) doc.text(tenant.email);
+        if (tenant?.website) doc.text(tenant.website);
+        if (tenant?.taxId) doc.text(`Tax ID: ${tenant.taxId}`);
+        const sellerBottom = doc.y;
+
+        // Invoice details
+        doc.fillColor('#000000').font('bold').fontSize(18)
+            .text('INVOICE', left, 40, { width, align: 'right' });
+        doc.font('regular').fontSize(10)
+            .text(invoice.invoiceNumber, { width, align: 'right' })
+            .fontSize(9)
+            .text(`Date: ${invoice.issueDate}`, { width, align: 'right' });
+        if (invoice.dueDate) doc.text(`Due: ${invoice.dueDate}`, { width, align: 'right' });
+        doc.text(`Order: ${invoice.orderNumber}`, { width, align: 'right' });
+        if (invoice.replacesInvoiceNumber) doc.text(`Replaces: ${invoice.replacesInvoiceNumber}`, { width, align: 'right' });
+
+        if (invoice.status === 'cancelled') {
+            doc.font('bold').fontSize(12).fillColor('#cc0000').text('CANCELLED', { width, align: 'right' });
+            doc.fillColor('#000000');
+        }
+
+        // Buyer
+        doc.y = Math.max(doc.y, sellerBottom) + 20;
+        doc.font('bold').fontSize(10).text('Bill to', left);
+        doc.font('regular').text(invoice.customerName);
+        if (invoice.customerAddress) doc.text(invoice.customerAddress);
+        if (invoice.customerPhone) doc.text(invoice.customerPhone);
+
+        // Lines
+        doc.moveDown();
+        const columns = [
+            { x: left, width: 20, align: 'left' as const },
+            { x: left + 22, width: 190, align: 'left' as const },
+            { x: left + 215, width: 40, align: 'right' as const },
+            { x: left + 260, width: 75, align: 'right' as const },
+            { x: left + 340, width: 40, align: 'right' as const },
+            { x: left + 385, width: 60, align: 'right' as const },
+            { x: left + 450, width: width - 450, align: 'right' as const },
+        ];
+        const drawRow = (cells: string[], bold = false) => {
+            if (doc.y > doc.page.height - doc.page.margins.bottom - 40) doc.addPage();
+            const y = doc.y;
+            doc.font(bold ? 'bold' : 'regular').fontSize(8);
+            let bottom = y;
+            cells.forEach((cell, i) => {
+                doc.text(cell, columns[i].x, y, { width: columns[i].width, align: columns[i].align });
+                bottom = Math.max(bottom, doc.y);
+            });
+            doc.y = Math.max(bottom, y + 12);
+            doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor('#dddddd').stroke();
+            doc.y += 4;
+        };
+        drawRow(['#', 'Product', 'Qty', 'Unit price', 'Tax %', 'Tax', 'Amount'], true);
+        invoice.lines.forEach((line, i) => drawRow([
+            String(i + 1),
+            line.sku ? `${line.productName} (${line.sku})` : line.productName,
+            String(line.quantity),
+            money(line.unitPrice),
+            `${Number(line.taxRate)}%`,
+            money(line.taxAmount),
+            money(line.lineTotal),
+        ]));
+
+        // Tax breakdown
+        if (invoice.taxBreakdown.some(row => row.tax > 0)) {
+            doc.moveDown();
+            doc.font('bold').fontSize(9).text('Tax breakdown', left);
+            for (const row of invoice.taxBreakdown) {
+                doc.font('regular').fontSize(8)
+                    .text(`${row.rate}%: taxable ${money(row.taxable)}, tax ${money(row.tax)}`, left);
+            }
+        }
+
+        // Totals
+        doc.moveDown();
+        const totalRow = (label: string, value: string, bold = false) => {
+            const y = doc.y;
+            doc.font(bold ? 'bold' : 'regular').fontSize(bold ? 11 : 9);
+            doc.text(label, left + width - 250, y, { width: 130, align: 'right' });
+            doc.text(value, left + width - 115, y, { width: 115, align: 'right' });
+        };
+        totalRow('Subtotal', money(invoice.subtotalAmount));
+        if (Number(invoice.discountAmount) > 0) totalRow('Discount', `-${money(invoice.discountAmount)}`);
+        totalRow('Tax', money(invoice.taxAmount));
+        totalRow('Total', money(invoice.totalAmount), true);
+
+        return { invoiceNumber: invoice.invoiceNumber, pdf: await pdfToBuffer(doc) };
+    }
+
+    /**
+     * Sends the invoice PDF to the customer through the tenant's bot.
+     */
+    async sendToTelegram(tenantId: string, id: string): Promise<void> {
+        const [row] = await db.select({
+            chatId: schema.customers.telegramChatId,
+            telegramEnabled: schema.tenants.telegramEnabled,
+            botToken: schema.tenants.telegramBotToken,
+        }).from(schema.invoices)
+            .innerJoin(schema.customers, eq(schema.invoices.customerId, schema.customers.id))
+            .innerJoin(schema.tenants, eq(schema.invoices.tenantId, schema.tenants.id))
+            .where(and(eq(schema.invoices.id, id), eq(schema.invoices.tenantId, tenantId)))
+            .limit(1);
+        if (!row) throw new Error('Invoice not found');
+        if (!row.telegramEnabled || !row.botToken) throw new Error('Telegram bot is not configured');
+        if (!row.chatId) throw new Error('Customer has no linked Telegram chat');
+
+        const rendered = await this.renderPdf(tenantId, id);
+        if (!rendered) throw new Error('Invoice not found');
+
+        const { sendTelegramDocument, escapeHtml } = await import('../lib/telegram');
+        const sent = await sendTelegramDocument(
+            row.chatId,
+            rendered.pdf,
+            `${rendered.invoiceNumber}.pdf`,
+            `🧾 <b>${escapeHtml(rendered.invoiceNumber)}</b>`,
+            row.botToken
+        );
+        if (!sent) throw new Error('Telegram did not accept the document');
+    }
+
+    /**
+     * Logo from the tenant's own upload folder or a public https URL; null
+     * when unavailable. The logo is tenant-controlled, so remote hosts that
+     * resolve to private or loopback addresses are refused and redirects are
+     * not followed.
+     */
+    private async loadLogo(tenantId: string, logo: string | null | undefined): Promise<Buffer | string | null> {
+        if (!logo) return null;
+        try {
+            if (logo.startsWith('/uploads/')) {
+                const root = path.join(process.cwd(), 'uploads', tenantId);
+                const file = path.resolve(process.cwd(), 'uploads', logo.slice('/uploads/'.length));
+                return file.startsWith(root + path.sep) && existsSync(file) ? file : null;
+            }
+
+            const url = new URL(logo);
+            if (url.protocol !== 'https:' || url.username || url.password) return null;
+            const host = url.hostname.replace(/^\[|\]$/g, '');
+            const addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+            if (addresses.length === 0 || addresses.some(a => PRIVATE_RANGES.check(a.address, a.family === 6 ? 'ipv6' : 'ipv4'))) {
+                return null;
+            }
+
+            const response = await fetch(url, { redirect: 'error', signal: AbortSignal.timeout(5000) });
+            if (!response.ok || Number(response.headers.get('content-length') ?? 0) > MAX_LOGO_BYTES) return null;
+            const bytes = Buffer.from(await response.arrayBuffer());
+            return bytes.length <= MAX_LOGO_BYTES ? bytes : null;
+        } catch {
+            // Missing logo never blocks the invoice
+        }
+        return null;
+    }
+}
+
+export const invoiceService = new InvoiceService();
@@ -6,8 +6,11 @@
  * API (routes-fastify/customer-portal/orders.ts).
  */
 
-import { db, schema } from '../db';
-import { eq, and, sql, or, gte, lte, isNull } from 'drizzle-orm';
+import { schema } from '../db';
+import { eq, and, sql } from 'drizzle-orm';
+import { stockService } from './stock.service';
+import { pricingService, type PricedLine, type AppliedDiscount } from './pricing.service';
+import type { UnitLine } from './product-unit.service';
 
 // ============================================================================
 // TYPES
@@ -33,11 +36,8 @@ export interface CreateOrderInput {
     notes?: string;
     deliveryNotes?: string;
     requestedDeliveryDate?: string;
-    // Pre-calculated totals (for sales rep mode where client sends totals)
-    subtotalAmount?: number;
-    discountAmount?: number;
-    taxAmount?: number;
-    totalAmount?: number;
+    // Warehouse to reserve from (defaults to the tenant's default warehouse)
+    warehouseId?: string;
 }
 
 export interface CreateOrderContext {
@@ -45,7 +45,6 @@ export interface CreateOrderContext {
     userId?: string;
     salesRepId?: string;
     skipCreditCheck?: boolean;
-    applyAutoDiscount?: boolean;
 }
 
 export interface OrderValidationError {
@@ -55,20 +54,13 @@ export interface OrderValidationError {
     details?: string[];
 }
 
-export interface ApplicableDiscount {
-    id: string;
-    name: string;
-    type: string;
-    value: number;
-    amount: number;
-}
-
 export interface CreateOrderResult {
     order: typeof schema.orders.$inferSelect;
-    items: ValidatedOrderItem[];
+    items: PricedLine[];
     subtotalAmount: number;
     discountAmount: number;
-    discountName?: string;
+    appliedDiscounts: AppliedDiscount[];
+    taxAmount: number;
     totalAmount: number;
     warnings?: string[];
 }
@@ -170,9 +162,14 @@ export class OrdersService {
         options?: {
             checkPriceMatch?: boolean;
             expectedPrices?: Map<string, number>;
+            // When set, availability is checked against this warehouse only
+            warehouseId?: string;
         }
     ): Promise<{ items: ValidatedOrderItem[]; errors: string[] }> {
         const productIds = items.map(i => i.productId);
+        const warehouseBalances = options?.warehouseId
+            ? await stockService.getBalances(tx, options.warehouseId, productIds, true)
+            : undefined;
 
         const products = await tx
             .select({
@@ -201,6 +198,8 @@ export class OrdersService {
         const productMap = new Map<string, ProductInfo>(products.map((p: ProductInfo) => [p.id, p]));
         const validatedItems: ValidatedOrderItem[] = [];
         const errors: string[] = [];
+        // Lines of the same product draw on one balance
+        const taken = new Map<string, number>();
 
         for (const item of items) {
             const product = productMap.get(item.productId);
@@ -221,11 +220,14 @@ export class OrdersService {
                 continue;
             }
 
-            const availableStock = (product.stockQuantity || 0) - (product.reservedQuantity || 0);
+            const availableStock = (warehouseBalances
+                ? warehouseBalances.get(item.productId)!.available
+                : (product.stockQuantity || 0) - (product.reservedQuantity || 0)) - (taken.get(item.productId) ?? 0);
             if (qty > availableStock) {
                 errors.push(`Insufficient stock for ${product.name} (available: ${availableStock})`);
                 continue;
             }
+            taken.set(item.productId, (taken.get(item.productId) ?? 0) + qty);
 
             const currentPrice = Number(product.price);
 
@@ -256,31 +258,28 @@ export class OrdersService {
     // --------------------------------------------------------------------------
 
     /**
-     * Reserves stock for order items (increments reservedQuantity).
+     * Reserves stock for order items in the order's warehouse.
      */
-    async reserveStock(tx: any, items: ValidatedOrderItem[]): Promise<void> {
-        for (const item of items) {
-            await tx
-                .update(schema.products)
-                .set({
-                    reservedQuantity: sql`COALESCE(${schema.products.reservedQuantity}, 0) + ${item.quantity}`,
-                })
-                .where(eq(schema.products.id, item.productId));
-        }
+    async reserveStock(
+        tx: any,
+        items: { productId: string; quantity: number }[],
+        target: { tenantId: string; warehouseId: string }
+    ): Promise<void> {
+        await stockService.reserve(tx, target.tenantId, target.warehouseId, items.map(item => ({
+            productId: item.productId,
+            quantity: item.quantity,
+        })));
     }
 
     /**
-     * Releases reserved stock (decrements reservedQuantity). Used in cancellation.
+     * Releases reserved stock from the order's warehouse. Used in cancellation.
      */
-    async releaseStock(tx: any, items: { productId: string; quantity: number }[]): Promise<void> {
-        for (const item of items) {
-            await tx
-                .update(schema.products)
-                .set({
-                    reservedQuantity: sql`GREATEST(0, COALESCE(${schema.products.reservedQuantity}, 0) - ${item.quantity})`,
-                })
-                .where(eq(schema.products.id, item.productId));
-        }
+    async releaseStock(
+        tx: any,
+        items: { productId: string; quantity: number }[],
+        order: { tenantId: string; warehouseId: string | null }
+    ): Promise<void> {
+        await stockService.releaseOrder(tx, order, items);
     }
 
     // --------------------------------------------------------------------------
@@ -314,20 +313,28 @@ export class OrdersService {
     // --------------------------------------------------------------------------
 
     /**
-     * Inserts order items into the database.
+     * Inserts priced order items. lineTotal stays gross; the line's discount
+     * and the tax it includes are stored next to it. units, in line order,
+     * records the unit each line was entered in.
      */
-    async createOrderItems(tx: any, orderId: string, items: ValidatedOrderItem[]): Promise<void> {
-        if (items.length === 0) return;
+    async createOrderItems(tx: any, orderId: string, lines: PricedLine[], units?: UnitLine[]): Promise<void> {
+        if (lines.length === 0) return;
 
         await tx.insert(schema.orderItems).values(
-            items.map(item => ({
+            lines.map((line, index) => ({
                 orderId,
-                productId: item.productId,
-                unitPrice: String(item.unitPrice),
-                qtyOrdered: item.quantity,
+                productId: line.productId,
+                unitPrice: String(line.unitPrice),
+                qtyOrdered: line.quantity,
+                unit: units?.[index]?.unit ?? null,
+                unitQty: units?.[index]?.unitQty ?? line.quantity,
+                unitFactor: units?.[index]?.unitFactor ?? 1,
                 qtyPicked: 0,
                 qtyDelivered: 0,
-                lineTotal: String(item.lineTotal),
+                discountId: line.discountId,
+                discountAmount: String(line.discountAmount),
+                taxAmount: String(line.taxAmount),
+                lineTotal: String(line.lineTotal),
             }))
         );
     }
@@ -354,128 +361,18 @@ export class OrdersService {
         });
     }
 
-    // --------------------------------------------------------------------------
-    // AUTO-DISCOUNT (for Customer Portal)
-    // --------------------------------------------------------------------------
-
     /**
-     * Finds and returns the best applicable auto-discount for an order.
+     * Records every line as delivered in full (what was shipped) when an
+     * order is marked delivered without a driver's delivery record, so
+     * invoices and ledger postings can go by the delivered quantity.
      */
-    async findBestAutoDiscount(
-        tenantId: string,
-        customerId: string,
-        cartTotal: number,
-        itemsCount: number
-    ): Promise<ApplicableDiscount | null> {
-        const now = new Date();
-
-        const discounts = await db
-            .select()
-            .from(schema.discounts)
-            .where(and(
-                eq(schema.discounts.tenantId, tenantId),
-                eq(schema.discounts.isActive, true),
-                or(
-                    isNull(schema.discounts.startsAt),
-                    lte(schema.discounts.startsAt, now)
-                ),
-                or(
-                    isNull(schema.discounts.endsAt),
-                    gte(schema.discounts.endsAt, now)
-                )
-            ));
-
-        if (discounts.length === 0) return null;
-
-        let bestDiscount: ApplicableDiscount | null = null;
-        let bestAmount = 0;
-
-        for (const discount of discounts) {
-            const minOrderAmount = discount.minOrderAmount ? Number(discount.minOrderAmount) : 0;
-
-            if (minOrderAmount > 0 && cartTotal < minOrderAmount) {
-                continue;
-            }
-
-            // Check customer scope restrictions
-            const scopes = await db
-                .select()
-                .from(schema.discountScopes)
-                .where(eq(schema.discountScopes.discountId, discount.id));
-
-            if (scopes.length > 0) {
-                const customerScopes = scopes.filter((s: any) => s.scopeType === 'customer');
-                if (customerScopes.length > 0) {
-                    const isCustomerIncluded = customerScopes.some((s: any) => s.scopeId === customerId);
-                    if (!isCustomerIncluded) {
-                        continue;
-                    }
-                }
-            }
-
-            let discountAmount = 0;
-            const discountValue = Number(discount.value || 0);
-
-            switch (discount.type) {
-                case 'percentage':
-                    discountAmount = (cartTotal * discountValue) / 100;
-                    if (discount.maxDiscountAmount) {
-                        const maxDiscount = Number(discount.maxDiscountAmount);
-                        discountAmount = Math.min(discountAmount, maxDiscount);
-                    }
-                    break;
-
-                case 'fixed':
-                    discountAmount = discountValue;
-                    break;
-
-                case 'buy_x_get_y':
-                    if (discount.minQty && discount.freeQty) {
-                        const sets = Math.floor(itemsCount / (discount.minQty + discount.freeQty));
-                        if (sets > 0) {
-                            const avgPrice = cartTotal / itemsCount;
-                            discountAmount = sets * discount.freeQty * avgPrice;
-                        }
-                    }
-                    break;
-
-                case 'volume':
-                    const tiers = await db
-                        .select()
-                        .from(schema.volumeTiers)
-                        .where(eq(schema.volumeTiers.discountId, discount.id))
-                        .orderBy(schema.volumeTiers.minQty);
-
-                    if (tiers.length > 0) {
-                        let applicableTier = null;
-                        for (const tier of tiers) {
-                            if (itemsCount >= (tier.minQty || 0)) {
-                                applicableTier = tier;
-                            }
-                        }
-                        if (applicableTier && applicableTier.discountPercent) {
-                            discountAmount = (cartTotal * Number(applicableTier.discountPercent)) / 100;
-                        }
-                    }
-                    break;
-            }
-
-            discountAmount = Math.min(discountAmount, cartTotal);
-            discountAmount = Math.round(discountAmount * 100) / 100;
-
-            if (discountAmount > bestAmount) {
-                bestAmount = discountAmount;
-                bestDiscount = {
-                    id: discount.id,
-                    name: discount.name,
-                    type: discount.type,
-                    value: discountValue,
-                    amount: discountAmount,
-                };
-            }
-        }
-
-        return bestDiscount;
+    async recordFullDelivery(tx: any, orderId: string): Promise<void> {
+        await tx.update(schema.orderItems)
+            .set({
+                qtyDelivered: sql`CASE WHEN COALESCE(${schema.orderItems.qtyPicked}, 0) > 0 THEN ${schema.orderItems.qtyPicked} ELSE ${schema.orderItems.qtyOrdered} END`,
+                updatedAt: new Date(),
+            })
+            .where(eq(schema.orderItems.orderId, orderId));
     }
 
     // --------------------------------------------------------------------------
@@ -588,13 +485,9 @@ export class OrdersService {
             // unless they're admin/supervisor (handled at route level)
         }
 
-        // 3. Validate products and stock
-        const validation = await this.validateProducts(tx, tenantId, items, {
-            checkPriceMatch: context.mode === 'sales_rep',
-            expectedPrices: context.mode === 'sales_rep' && input.totalAmount !== undefined
-                ? undefined // We'll trust the prices sent for sales rep mode
-                : undefined,
-        });
+        // 3. Validate products and stock in the chosen warehouse
+        const warehouseId = await stockService.resolveWarehouseId(tx, tenantId, input.warehouseId);
+        const validation = await this.validateProducts(tx, tenantId, items, { warehouseId });
 
         if (validation.items.length === 0) {
             return {
@@ -607,33 +500,13 @@ export class OrdersService {
             };
         }
 
-        // 4. Calculate totals
-        let subtotalAmount = validation.items.reduce((sum, item) => sum + item.lineTotal, 0);
-        let discountAmount = 0;
-        let discountName: string | undefined;
-
-        // For sales_rep mode, use provided totals if available
-        if (context.mode === 'sales_rep' && input.subtotalAmount !== undefined) {
-            subtotalAmount = input.subtotalAmount;
-            discountAmount = input.discountAmount || 0;
-        }
-
-        // Apply auto-discount for customer portal
-        if (context.mode === 'customer_portal' && context.applyAutoDiscount) {
-            const totalQty = validation.items.reduce((sum, item) => sum + item.quantity, 0);
-            const autoDiscount = await this.findBestAutoDiscount(
-                tenantId,
-                customerId,
-                subtotalAmount,
-                totalQty
-            );
-            if (autoDiscount) {
-                discountAmount = autoDiscount.amount;
-                discountName = autoDiscount.name;
-            }
-        }
-
-        const totalAmount = input.totalAmount ?? (subtotalAmount - discountAmount);
+        // 4. Price the order
+        const quote = await pricingService.quote({
+            tenantId,
+            customerId,
+            lines: validation.items.map(item => ({ productId: item.productId, quantity: item.quantity })),
+        }, tx);
+        const { subtotalAmount, discountAmount, taxAmount, totalAmount, appliedDiscounts } = quote;
 
         // 5. Validate credit/tier limits (unless explicitly skipped)
         if (!context.skipCreditCheck) {
@@ -654,8 +527,8 @@ export class OrdersService {
 
         // 8. Build notes with discount info for portal orders
         let finalNotes = notes || null;
-        if (context.mode === 'customer_portal' && discountName && discountAmount > 0) {
-            const discountNote = `[Discount applied: ${discountName} (-${discountAmount.toLocaleString()})]`;
+        if (context.mode === 'customer_portal' && appliedDiscounts.length > 0) {
+            const discountNote = `[Discount applied: ${appliedDiscounts.map(d => d.name).join(', ')} (-${discountAmount.toLocaleString()})]`;
             finalNotes = finalNotes ? `${finalNotes}\n${discountNote}` : discountNote;
         }
 
@@ -668,11 +541,12 @@ export class OrdersService {
                 customerId,
                 salesRepId,
                 createdByUserId: context.userId,
+                warehouseId,
                 status: 'pending',
                 paymentStatus: 'unpaid',
                 subtotalAmount: String(subtotalAmount),
                 discountAmount: String(discountAmount),
-                taxAmount: String(input.taxAmount || 0),
+                taxAmount: String(taxAmount),
                 totalAmount: String(totalAmount),
                 paidAmount: '0',
                 notes: finalNotes,
@@ -684,10 +558,10 @@ export class OrdersService {
             .returning();
 
         // 10. Insert order items
-        await this.createOrderItems(tx, order.id, validation.items);
+        await this.createOrderItems(tx, order.id, quote.lines);
 
         // 11. Reserve stock
-        await this.reserveStock(tx, validation.items);
+        await this.reserveStock(tx, quote.lines, { tenantId, warehouseId });
 
         // 12. Update customer debt
         await this.updateCustomerDebt(tx, customerId, totalAmount);
@@ -700,10 +574,11 @@ export class OrdersService {
 
         return {
             order,
-            items: validation.items,
+            items: quote.lines,
             subtotalAmount,
             discountAmount,
-            discountName,
+            appliedDiscounts,
+            taxAmount,
             totalAmount,
             warnings: validation.errors.length > 0 ? validation.errors : undefined,
         };
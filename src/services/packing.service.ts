@@ -0,0 +1,301 @@
+/**
+ * PackingService - Packing station between 'picked' and 'loaded'
+ *
+ * A packer opens a session for a picked order and scans every unit into the
+ * box. The order only moves to 'loaded' once each line's scanned quantity
+ * matches what was picked. Packing is optional: orders nobody started
+ * packing load as before.
+ */
+
+import { schema } from '../db';
+import { eq, and, inArray, sql } from 'drizzle-orm';
+import { stockService } from './stock.service';
+import { binService } from './bin.service';
+import { ordersService } from './orders.service';
+import { createPdfDocument, pdfToBuffer } from '../lib/pdf';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PackingMismatch {
+    itemId: string;
+    productId: string;
+    productName: string | null;
+    expected: number;
+    scanned: number;
+}
+
+export interface PackingSlipData {
+    tenant: { name: string; address: string | null; phone: string | null };
+    order: { orderNumber: string; requestedDeliveryDate: string | null; notes: string | null };
+    customer: { name: string; phone: string | null; address: string | null };
+    session: { packageCount: number; weightKg: string | null; packedBy: string | null; completedAt: Date | null };
+    items: { sku: string | null; productName: string | null; quantity: number }[];
+}
+
+// Sessions that still block a new one for the same order
+const ACTIVE_STATUSES = ['started', 'in_progress'] as const;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class PackingService {
+    // --------------------------------------------------------------------------
+    // SESSIONS
+    // --------------------------------------------------------------------------
+
+    /**
+     * Returns the order's open session or starts a new one. Lines expect the
+     * picked quantity (falling back to the ordered quantity for orders that
+     * were marked picked without scanning).
+     */
+    async startSession(tx: any, tenantId: string, orderId: string, userId: string) {
+        const [order] = await tx.select({
+            id: schema.orders.id,
+            status: schema.orders.status,
+            warehouseId: schema.orders.warehouseId,
+        }).from(schema.orders)
+            .where(and(eq(schema.orders.id, orderId), eq(schema.orders.tenantId, tenantId)))
+            .for('update')
+            .limit(1);
+        if (!order) throw new Error('Order not found');
+
+        const [existing] = await tx.select().from(schema.packingSessions)
+            .where(and(
+                eq(schema.packingSessions.orderId, orderId),
+                inArray(schema.packingSessions.status, [...ACTIVE_STATUSES])
+            ))
+            .limit(1);
+        if (existing) return { session: existing, created: false };
+
+        if (order.status !== 'picked') throw new Error(`Cannot pack order with status: ${order.status}`);
+
+        const lines: { productId: string; qtyOrdered: number; qtyPicked: number | null }[] = await tx.select({
+            productId: schema.orderItems.productId,
+            qtyOrdered: schema.orderItems.qtyOrdered,
+            qtyPicked: schema.orderItems.qtyPicked,
+        }).from(schema.orderItems)
+            .where(eq(schema.orderItems.orderId, orderId));
+
+        // One packing line per product, even if the order repeats a product
+        const expected = new Map<string, number>();
+        for (const line of lines) {
+            const qty = line.qtyPicked && line.qtyPicked > 0 ? line.qtyPicked : line.qtyOrdered;
+            expected.set(line.productId, (expected.get(line.productId) || 0) + qty);
+        }
+        const productIds = [...expected.keys()].filter(id => expected.get(id)! > 0);
+        if (productIds.length === 0) throw new Error('Order has no items to pack');
+
+        const warehouseId = order.warehouseId || await stockService.getDefaultWarehouseId(tx, tenantId);
+        const bins = await binService.getDefaultBins(tx, warehouseId, productIds);
+
+        const [session] = await tx.insert(schema.packingSessions).values({
+            tenantId,
+            orderId,
+            warehouseId,
+            packedByUserId: userId,
+            totalItems: productIds.reduce((sum, id) => sum + expected.get(id)!, 0),
+        }).returning();
+
+        await tx.insert(schema.packingItems).values(productIds.map(productId => ({
+            sessionId: session.id,
+            productId,
+            binId: bins.get(productId)?.id ?? null,
+            qtyOrdered: expected.get(productId)!,
+        })));
+
+        return { session, created: true };
+    }
+
+    /**
+     * Adds scanned units to a session line. Over-scans are rejected rather
+     * than counted so the box never holds more than was picked.
+     */
+    async scan(tx: any, sessionId: string, productId: string, quantity: number) {
+        const [item] = await tx.select().from(schema.packingItems)
+            .where(and(eq(schema.packingItems.sessionId, sessionId), eq(schema.packingItems.productId, productId)))
+            .for('update')
+            .limit(1);
+        if (!item) throw new Error('Product is not part of this order');
+
+        const qtyScanned = (item.qtyScanned || 0) + quantity;
+        if (qtyScanned > item.qtyOrdered) throw new Error('Scanned more than was picked');
+
+        const [updated] = await tx.update(schema.packingItems)
+            .set({ qtyScanned, scannedAt: new Date(), isVerified: qtyScanned === item.qtyOrdered ? 1 : 0 })
+            .where(eq(schema.packingItems.id, item.id))
+            .returning();
+
+        await this.refreshProgress(tx, sessionId);
+        return updated;
+    }
+
+    /**
+     * Clears a line so it can be scanned again (e.g. after repacking a box).
+     */
+    async resetItem(tx: any, sessionId: string, itemId: string) {
+        const [item] = await tx.update(schema.packingItems)
+            .set({ qtyScanned: 0, scannedAt: null, isVerified: 0 })
+            .where(and(eq(schema.packingItems.id, itemId), eq(schema.packingItems.sessionId, sessionId)))
+            .returning();
+        if (!item) throw new Error('Packing item not found');
+
+        await this.refreshProgress(tx, sessionId);
+        return item;
+    }
+
+    /**
+     * Lines whose scanned quantity differs from the expected quantity.
+     */
+    async getMismatches(tx: any, sessionId: string): Promise<PackingMismatch[]> {
+        const rows = await tx.select({
+            itemId: schema.packingItems.id,
+            productId: schema.packingItems.productId,
+            productName: schema.products.name,
+            expected: schema.packingItems.qtyOrdered,
+            scanned: schema.packingItems.qtyScanned,
+        }).from(schema.packingItems)
+            .leftJoin(schema.products, eq(schema.packingItems.productId, schema.products.id))
+            .where(eq(schema.packingItems.sessionId, sessionId));
+
+        return rows
+            .map((r: any) => ({ ...r, scanned: r.scanned || 0 }))
+            .filter((r: PackingMismatch) => r.scanned !== r.expected);
+    }
+
+    /**
+     * Closes a fully verified session and moves the order to 'loaded'.
+     */
+    async complete(tx: any, session: { id: string; orderId: string }, userId: string, params: { packageCount: number; weightKg?: number; notes?: string }) {
+        const mismatches = await this.getMismatches(tx, session.id);
+        if (mismatches.length > 0) return { completed: false as const, mismatches };
+
+        const [order] = await tx.select({ status: schema.orders.status }).from(schema.orders)
+            .where(eq(schema.orders.id, session.orderId))
+            .for('update')
+            .limit(1);
+        if (!order || order.status !== 'picked') throw new Error(`Cannot load order with status: ${order?.status}`);
+
+        const [updated] = await tx.update(schema.packingSessions)
+            .set({
+                status: 'completed',
+                completedAt: new Date(),
+                packageCount: params.packageCount,
+                weightKg: params.weightKg != null ? String(params.weightKg) : null,
+                ...(params.notes !== undefined ? { notes: params.notes } : {}),
+            })
+            .where(eq(schema.packingSessions.id, session.id))
+            .returning();
+
+        await tx.update(schema.orders)
+            .set({ status: 'loaded', updatedAt: new Date() })
+            .where(eq(schema.orders.id, session.orderId));
+        await ordersService.logStatusChange(tx, session.orderId, 'loaded', userId, `Packed into ${params.packageCount} package(s)`);
+
+        return { completed: true as const, session: updated };
+    }
+
+    /**
+     * Whether an order is in a packing session that is not completed yet,
+     * which holds it back from loading until every unit is scanned.
+     */
+    async isBeingPacked(tx: any, orderId: string): Promise<boolean> {
+        const [row] = await tx.select({ id: schema.packingSessions.id }).from(schema.packingSessions)
+            .where(and(eq(schema.packingSessions.orderId, orderId), inArray(schema.packingSessions.status, [...ACTIVE_STATUSES])))
+            .limit(1);
+        return !!row;
+    }
+
+    private async refreshProgress(tx: any, sessionId: string) {
+        await tx.update(schema.packingSessions)
+            .set({
+                status: 'in_progress',
+                itemsScanned: sql`(SELECT COALESCE(SUM(${schema.packingItems.qtyScanned}), 0) FROM ${schema.packingItems} WHERE ${schema.packingItems.sessionId} = ${sessionId})`,
+            })
+            .where(eq(schema.packingSessions.id, sessionId));
+    }
+
+    // --------------------------------------------------------------------------
+    // DOCUMENTS
+    // --------------------------------------------------------------------------
+
+    /**
+     * Packing slip (A4, first page) followed by one 100x150mm label per package.
+     */
+    async renderSlip(data: PackingSlipData): Promise<Buffer> {
+        const doc = createPdfDocument({ size: 'A4' });
+        const left = doc.page.margins.left;
+        const width = doc.page.width - left - doc.page.margins.right;
+
+        // Header
+        doc.font('bold').fontSize(18).text(data.tenant.name, left, 40);
+        doc.font('regular').fontSize(9).fillColor('#555555');
+        if (data.tenant.address) doc.text(data.tenant.address);
+        if (data.tenant.phone) doc.text(data.tenant.phone);
+        doc.fillColor('#000000').font('bold').fontSize(14)
+            .text(`PACKING SLIP  ${data.order.orderNumber}`, left, 40, { width, align: 'right' });
+        doc.font('regular').fontSize(9)
+            .text(data.session.completedAt ? data.session.completedAt.toISOString().slice(0, 10) : '', { width, align: 'right' });
+
+        // Ship to
+        doc.moveDown(3);
+        doc.font('bold').fontSize(10).text('Ship to', left);
+        doc.font('regular').text(data.customer.name);
+        if (data.customer.address) doc.text(data.customer.address);
+        if (data.customer.phone) doc.text(data.customer.phone);
+        if (data.order.requestedDeliveryDate) doc.text(`Delivery date: ${data.order.requestedDeliveryDate}`);
+
+        // Items table
+        doc.moveDown();
+        const columns = [left, left + 30, left + 130, left + width - 60];
+        const drawRow = (cells: string[], bold = false) => {
+            const y = doc.y;
+            doc.font(bold ? 'bold' : 'regular').fontSize(9);
+            doc.text(cells[0], columns[0], y, { width: 25 });
+            doc.text(cells[1], columns[1], y, { width: 95 });
+            doc.text(cells[2], columns[2], y, { width: columns[3] - columns[2] - 10 });
+            doc.text(cells[3], columns[3], y, { width: 60, align: 'right' });
+            doc.y = Math.max(doc.y, y + 14);
+            doc.moveTo(left, doc.y).lineTo(left + width, doc.y).strokeColor('#dddddd').stroke();
+            doc.y += 4;
+        };
+        drawRow(['#', 'SKU', 'Product', 'Qty'], true);
+        data.items.forEach((item, i) => drawRow([String(i + 1), item.sku || '', item.productName || '', String(item.quantity)]));
+
+        const totalQty = data.items.reduce((sum, item) => sum + item.quantity, 0);
+        doc.moveDown();
+        doc.font('bold').fontSize(10).text(`Total units: ${totalQty}`, left, doc.y, { width, align: 'right' });
+        doc.text(`Packages: ${data.session.packageCount}`, { width, align: 'right' });
+        if (data.session.weightKg) doc.text(`Weight: ${Number(data.session.weightKg)} kg`, { width, align: 'right' });
+        if (data.order.notes) {
+            doc.moveDown();
+            doc.font('regular').fontSize(9).text(`Notes: ${data.order.notes}`, left);
+        }
+        if (data.session.packedBy) {
+            doc.moveDown();
+            doc.font('regular').fontSize(9).text(`Packed by: ${data.session.packedBy}`, left);
+        }
+
+        // One label per package (100 x 150 mm)
+        const labelSize: [number, number] = [283, 425];
+        for (let n = 1; n <= data.session.packageCount; n++) {
+            doc.addPage({ size: labelSize, margin: 18 });
+            const labelWidth = labelSize[0] - 36;
+            doc.font('regular').fontSize(8).text(data.tenant.name, 18, 18, { width: labelWidth });
+            doc.moveDown();
+            doc.font('bold').fontSize(22).text(data.order.orderNumber, { width: labelWidth, align: 'center' });
+            doc.moveDown();
+            doc.fontSize(14).text(data.customer.name, { width: labelWidth });
+            doc.font('regular').fontSize(10);
+            if (data.customer.address) doc.text(data.customer.address, { width: labelWidth });
+            if (data.customer.phone) doc.text(data.customer.phone, { width: labelWidth });
+            doc.font('bold').fontSize(28).text(`${n} / ${data.session.packageCount}`, 18, labelSize[1] - 70, { width: labelWidth, align: 'center' });
+        }
+
+        return pdfToBuffer(doc);
+    }
+}
+
+export const packingService = new PackingService();
@@ -0,0 +1,526 @@
+/**
+ * PriceListService - Named price lists and the list price a customer pays
+ *
+ * A price list is assigned to customers, territories or customer tiers. A
+ * customer's list price for a product comes from, in order: their own
+ * list, their territory's list, their tier's list, then products.price.
+ * A list that has no current price for the product is skipped.
+ *
+ * Prices are dated on the tenant's local calendar. The price on a day is
+ * the latest-starting entry whose period covers it, so a price increase is
+ * scheduled by adding an entry that starts next Monday, and a temporary
+ * price (with validTo) falls back to the previous one when it ends. Entries
+ * that already started are kept, so repricing an old order stays exact.
+ *
+ * A list's prices are in its own currency. Resolved prices are converted
+ * to the tenant's base currency at the rate of the pricing day.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, desc, inArray, lte, gte, or, isNull } from 'drizzle-orm';
+import { getTenantDayRange } from '../lib/tenant-time';
+import { exchangeRateService } from './exchange-rate.service';
+import { logAudit } from '../lib/audit';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PriceListScopeType = 'customer' | 'territory' | 'customer_tier';
+
+export interface ListPrice {
+    // In the tenant's base currency
+    price: number;
+    priceListId: string;
+    priceListName: string;
+    // The price as listed, before conversion
+    currency: string;
+    listedPrice: number;
+}
+
+export interface PriceListCustomer {
+    id: string;
+    tierId: string | null;
+    territoryId: string | null;
+}
+
+export interface PriceListInput {
+    name: string;
+    description?: string | null;
+    // Defaults to the tenant's base currency
+    currency?: string;
+    isActive?: boolean;
+}
+
+export interface PriceListItemInput {
+    productId: string;
+    price: number;
+    // Defaults to today
+    validFrom?: string;
+    validTo?: string | null;
+}
+
+export interface BulkPriceUpdateInput {
+    // e.g. 7.5 raises prices by 7.5%, -10 lowers them by 10%
+    percent: number;
+    brandId?: string;
+    categoryId?: string;
+    // Defaults to today
+    effectiveFrom?: string;
+}
+
+export interface BulkPriceChange {
+    productId: string;
+    productName: string;
+    sku: string | null;
+    // Where the current price comes from
+    source: 'price_list' | 'base';
+    currentPrice: number;
+    newPrice: number;
+}
+
+// Most specific first
+const SCOPE_PRECEDENCE: PriceListScopeType[] = ['customer', 'territory', 'customer_tier'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class PriceListService {
+    // ----------------------------------------------------------------
+    // LOOKUP
+    // ----------------------------------------------------------------
+
+    /**
+     * List prices from the customer's price lists on the tenant-local date
+     * of `at`, in the base currency at that day's rate. Products without
+     * one are absent; they sell at products.price.
+     */
+    async resolvePrices(
+        tenantId: string,
+        customer: PriceListCustomer,
+        productIds: string[],
+        at: Date = new Date(),
+        executor: any = db
+    ): Promise<Map<string, ListPrice>> {
+        const prices = new Map<string, ListPrice>();
+        if (productIds.length === 0) return prices;
+
+        const scopeIds: Record<PriceListScopeType, string | null> = {
+            customer: customer.id,
+            territory: customer.territoryId,
+            customer_tier: customer.tierId,
+        };
+        const scopes = SCOPE_PRECEDENCE.filter(scope => scopeIds[scope]);
+
+        const assignments: { priceListId: string; priceListName: string; currency: string; scopeType: PriceListScopeType }[] = await executor
+            .select({
+                priceListId: schema.priceListAssignments.priceListId,
+                priceListName: schema.priceLists.name,
+                currency: schema.priceLists.currency,
+                scopeType: schema.priceListAssignments.scopeType,
+            })
+            .from(schema.priceListAssignments)
+            .innerJoin(schema.priceLists, eq(schema.priceListAssignments.priceListId, schema.priceLists.id))
+            .where(and(
+                eq(schema.priceListAssignments.tenantId, tenantId),
+                eq(schema.priceLists.isActive, true),
+                or(...scopes.map(scope => and(
+                    eq(schema.priceListAssignments.scopeType, scope),
+                    eq(schema.priceListAssignments.scopeId, scopeIds[scope]!)
+                )))
+            ));
+        if (assignments.length === 0) return prices;
+
+        const lists = assignments.sort((a, b) => SCOPE_PRECEDENCE.indexOf(a.scopeType) - SCOPE_PRECEDENCE.indexOf(b.scopeType));
+        const day = (await getTenantDayRange(tenantId, at)).todayStr;
+
+        const items: { priceListId: string; productId: string; price: string }[] = await executor
+            .select({
+                priceListId: schema.priceListItems.priceListId,
+                productId: schema.priceListItems.productId,
+                price: schema.priceListItems.price,
+            })
+            .from(schema.priceListItems)
+            .where(and(
+                inArray(schema.priceListItems.priceListId, lists.map(list => list.priceListId)),
+                inArray(schema.priceListItems.productId, productIds),
+                lte(schema.priceListItems.validFrom, day),
+                or(isNull(schema.priceListItems.validTo), gte(schema.priceListItems.validTo, day))
+            ))
+            .orderBy(desc(schema.priceListItems.validFrom));
+
+        const rates = new Map<string, number>();
+        for (const list of lists) {
+            for (const item of items) {
+                if (item.priceListId !== list.priceListId || prices.has(item.productId)) continue;
+                if (!rates.has(list.currency)) rates.set(list.currency, await exchangeRateService.getRate(tenantId, list.currency, day, executor));
+                const listedPrice = Number(item.price);
+                prices.set(item.productId, {
+                    price: round2(listedPrice * rates.get(list.currency)!),
+                    priceListId: list.priceListId,
+                    priceListName: list.priceListName,
+                    currency: list.currency,
+                    listedPrice,
+                });
+            }
+        }
+        return prices;
+    }
+
+    /**
+     * List prices for a customer by id (catalog and cart listings).
+     */
+    async getCustomerPrices(tenantId: string, customerId: string, productIds: string[], at: Date = new Date(), executor: any = db) {
+        const [customer] = await executor
+            .select({ id: schema.customers.id, tierId: schema.customers.tierId, territoryId: schema.customers.territoryId })
+            .from(schema.customers)
+            .where(and(eq(schema.customers.id, customerId), eq(schema.customers.tenantId, tenantId)))
+            .limit(1);
+        if (!customer) return new Map<string, ListPrice>();
+        return this.resolvePrices(tenantId, customer, productIds, at, executor);
+    }
+
+    // ----------------------------------------------------------------
+    // MAINTENANCE
+    // ----------------------------------------------------------------
+
+    async listPriceLists(tenantId: string) {
+        const lists = await db.select().from(schema.priceLists)
+            .where(eq(schema.priceLists.tenantId, tenantId))
+            .orderBy(schema.priceLists.name);
+        if (lists.length === 0) return [];
+
+        const ids = lists.map(list => list.id);
+        const itemCounts = await db.select({ priceListId: schema.priceListItems.priceListId, count: sql<number>`count(DISTINCT ${schema.priceListItems.productId})` })
+            .from(schema.priceListItems)
+            .where(inArray(schema.priceListItems.priceListId, ids))
+            .groupBy(schema.priceListItems.priceListId);
+        const assignmentCounts = await db.select({ priceListId: schema.priceListAssignments.priceListId, count: sql<number>`count(*)` })
+            .from(schema.priceListAssignments)
+            .where(inArray(schema.priceListAssignments.priceListId, ids))
+            .groupBy(schema.priceListAssignments.priceListId);
+
+        const itemMap = new Map(itemCounts.map(row => [row.priceListId, Number(row.count)]));
+        const assignmentMap = new Map(assignmentCounts.map(row => [row.priceListId, Number(row.count)]));
+        return lists.map(list => ({
+            ...list,
+            productCount: itemMap.get(list.id) ?? 0,
+            assignmentCount: assignmentMap.get(list.id) ?? 0,
+        }));
+    }
+
+    /**
+     * A price list with its assignments, named for display.
+     */
+    async getPriceList(tenantId: string, id: string) {
+        const list = await this.findList(tenantId, id);
+
+        const assignments = await db.select({
+            id: schema.priceListAssignments.id,
+            scopeType: schema.priceListAssignments.scopeType,
+            scopeId: schema.priceListAssignments.scopeId,
+            name: sql<string | null>`COALESCE(${schema.customers.name}, ${schema.territories.name}, ${schema.customerTiers.name})`,
+        }).from(schema.priceListAssignments)
+            .leftJoin(schema.customers, and(eq(schema.priceListAssignments.scopeType, 'customer'), eq(schema.customers.id, schema.priceListAssignments.scopeId)))
+            .leftJoin(schema.territories, and(eq(schema.priceListAssignments.scopeType, 'territory'), eq(schema.territories.id, schema.priceListAssignments.scopeId)))
+            .leftJoin(schema.customerTiers, and(eq(schema.priceListAssignments.scopeType, 'customer_tier'), eq(schema.customerTiers.id, schema.priceListAssignments.scopeId)))
+            .where(eq(schema.priceListAssignments.priceListId, id))
+            .orderBy(schema.priceListAssignments.scopeType);
+
+        return { ...list, assignments };
+    }
+
+    async createPriceList(tenantId: string, input: PriceListInput) {
+        const currency = input.currency?.toUpperCase() ?? await exchangeRateService.getBaseCurrency(tenantId);
+        const [created] = await db.insert(schema.priceLists)
+            .values({ tenantId, name: input.name.trim(), description: input.description ?? null, currency, isActive: input.isActive ?? true })
+            .onConflictDoNothing()
+            .returning();
+        if (!created) throw new Error(`A price list named ${input.name.trim()} already exists`);
+        return created;
+    }
+
+    /**
+     * The currency can only change while the list has no prices; they
+     * would otherwise be read in the new currency.
+     */
+    async updatePriceList(tenantId: string, id: string, input: Partial<PriceListInput>) {
+        const list = await this.findList(tenantId, id);
+        const currency = input.currency?.toUpperCase();
+        if (currency && currency !== list.currency) {
+            const [priced] = await db.select({ id: schema.priceListItems.id })
+                .from(schema.priceListItems)
+                .where(eq(schema.priceListItems.priceListId, id))
+                .limit(1);
+            if (priced) throw new Error('The currency of a price list with prices cannot change');
+        }
+        try {
+            const [updated] = await db.update(schema.priceLists)
+                .set({ ...input, ...(input.name ? { name: input.name.trim() } : {}), ...(currency ? { currency } : {}), updatedAt: new Date() })
+                .where(eq(schema.priceLists.id, id))
+                .returning();
+            return updated;
+        } catch (error: any) {
+            if (error.code === '23505') throw new Error(`A price list named ${input.name?.trim()} already exists`);
+            throw error;
+        }
+    }
+
+    async deletePriceList(tenantId: string, id: string) {
+        await this.findList(tenantId, id);
+        await db.delete(schema.priceLists).where(eq(schema.priceLists.id, id));
+    }
+
+    /**
+     * Replaces who the list is assigned to. A customer, territory or tier
+     * already on another list must be removed from it first.
+     */
+    async setAssignments(tenantId: string, id: string, assignments: { scopeType: PriceListScopeType; scopeId: string }[]) {
+        await this.findList(tenantId, id);
+
+        return db.transaction(async (tx) => {
+            await tx.delete(schema.priceListAssignments).where(eq(schema.priceListAssignments.priceListId, id));
+            if (assignments.length === 0) return [];
+
+            for (const assignment of assignments) {
+                const [taken] = await tx.select({ name: schema.priceLists.name })
+                    .from(schema.priceListAssignments)
+                    .innerJoin(schema.priceLists, eq(schema.priceListAssignments.priceListId, schema.priceLists.id))
+                    .where(and(
+                        eq(schema.priceListAssignments.tenantId, tenantId),
+                        eq(schema.priceListAssignments.scopeType, assignment.scopeType),
+                        eq(schema.priceListAssignments.scopeId, assignment.scopeId)
+                    ))
+                    .limit(1);
+                if (taken) throw new Error(`This ${assignment.scopeType.replace('_', ' ')} is already on price list ${taken.name}`);
+            }
+
+            return tx.insert(schema.priceListAssignments)
+                .values(assignments.map(assignment => ({ tenantId, priceListId: id, ...assignment })))
+                .onConflictDoNothing()
+                .returning();
+        });
+    }
+
+    /**
+     * Every dated price of the list, with the product's base price.
+     */
+    async listItems(tenantId: string, id: string, filters: { search?: string; productId?: string; page: number; limit: number }) {
+        await this.findList(tenantId, id);
+
+        const conditions: any[] = [eq(schema.priceListItems.priceListId, id)];
+        if (filters.productId) conditions.push(eq(schema.priceListItems.productId, filters.productId));
+        if (filters.search) {
+            const term = `%${filters.search.trim()}%`;
+            conditions.push(sql`(${schema.products.name} ILIKE ${term} OR ${schema.products.sku} ILIKE ${term})`);
+        }
+
+        const rows = await db.select({
+            id: schema.priceListItems.id,
+            productId: schema.priceListItems.productId,
+            productName: schema.products.name,
+            sku: schema.products.sku,
+            basePrice: schema.products.price,
+            price: schema.priceListItems.price,
+            validFrom: schema.priceListItems.validFrom,
+            validTo: schema.priceListItems.validTo,
+        }).from(schema.priceListItems)
+            .innerJoin(schema.products, eq(schema.priceListItems.productId, schema.products.id))
+            .where(and(...conditions))
+            .orderBy(schema.products.name, desc(schema.priceListItems.validFrom))
+            .limit(filters.limit).offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.priceListItems)
+            .innerJoin(schema.products, eq(schema.priceListItems.productId, schema.products.id))
+            .where(and(...conditions));
+
+        return { rows, total: Number(count) };
+    }
+
+    /**
+     * Sets a product's price from a date, replacing an entry starting the
+     * same day. Dates before today are refused.
+     */
+    async setItemPrice(tenantId: string, id: string, input: PriceListItemInput, userId?: string) {
+        await this.findList(tenantId, id);
+        const today = (await getTenantDayRange(tenantId)).todayStr;
+        const validFrom = input.validFrom ?? today;
+        if (validFrom < today) throw new Error('Prices cannot start in the past');
+        if (input.validTo && input.validTo < validFrom) throw new Error('validTo is before validFrom');
+        if (input.price < 0) throw new Error('Price cannot be negative');
+
+        const [product] = await db.select({ id: schema.products.id }).from(schema.products)
+            .where(and(eq(schema.products.id, input.productId), eq(schema.products.tenantId, tenantId))).limit(1);
+        if (!product) throw new Error('Product not found');
+
+        const [item] = await db.insert(schema.priceListItems)
+            .values({
+                priceListId: id,
+                productId: input.productId,
+                price: input.price.toFixed(2),
+                validFrom,
+                validTo: input.validTo ?? null,
+                createdBy: userId ?? null,
+            })
+            .onConflictDoUpdate({
+                target: [schema.priceListItems.priceListId, schema.priceListItems.productId, schema.priceListItems.validFrom],
+                set: { price: sql`excluded.price`, validTo: sql`excluded.valid_to`, createdBy: sql`excluded.created_by`, updatedAt: new Date() },
+            })
+            .returning();
+
+        await logAudit('price_list.price_set', { productId: input.productId, price: input.price, validFrom, validTo: input.validTo ?? null }, userId, tenantId, id, 'price_list');
+        return item;
+    }
+
+    /**
+     * Removes a price that has not started yet.
+     */
+    async deleteItem(tenantId: string, itemId: string, userId?: string) {
+        const [item] = await db.select({ item: schema.priceListItems, tenantId: schema.priceLists.tenantId })
+            .from(schema.priceListItems)
+            .innerJoin(schema.priceLists, eq(schema.priceListItems.priceListId, schema.priceLists.id))
+            .where(eq(schema.priceListItems.id, itemId))
+            .limit(1);
+        if (!item || item.tenantId !== tenantId) throw new Error('Price not found');
+
+        const today = (await getTenantDayRange(tenantId)).todayStr;
+        if (item.item.validFrom <= today) throw new Error('A price already in effect cannot be deleted; add a new price instead');
+
+        await db.delete(schema.priceListItems).where(eq(schema.priceListItems.id, itemId));
+        await logAudit('price_list.price_deleted', { productId: item.item.productId, price: Number(item.item.price), validFrom: item.item.validFrom }, userId, tenantId, item.item.priceListId, 'price_list');
+    }
+
+    // ----------------------------------------------------------------
+    // BULK UPDATE
+    // ----------------------------------------------------------------
+
+    /**
+     * What a percentage change by brand / category would do: every active
+     * matching product's price on the effective date (from the list, or
+     * the base price converted to the list's currency) and the new one.
+     */
+    async previewBulkUpdate(tenantId: string, id: string, input: BulkPriceUpdateInput) {
+        const list = await this.findList(tenantId, id);
+        const today = (await getTenantDayRange(tenantId)).todayStr;
+        const effectiveFrom = input.effectiveFrom ?? today;
+        if (effectiveFrom < today) throw new Error('Price changes cannot start in the past');
+        if (input.percent <= -100) throw new Error('Percent must be above -100');
+
+        const conditions: any[] = [eq(schema.products.tenantId, tenantId), eq(schema.products.isActive, true)];
+        if (input.brandId) conditions.push(eq(schema.products.brandId, input.brandId));
+        if (input.categoryId) conditions.push(eq(schema.subcategories.categoryId, input.categoryId));
+
+        const products = await db.select({
+            id: schema.products.id,
+            name: schema.products.name,
+            sku: schema.products.sku,
+            price: schema.products.price,
+        }).from(schema.products)
+            .leftJoin(schema.subcategories, eq(schema.products.subcategoryId, schema.subcategories.id))
+            .where(and(...conditions))
+            .orderBy(schema.products.name);
+
+        const current = await this.pricesOn(id, products.map(p => p.id), effectiveFrom);
+        const rate = current.size < products.length ? await exchangeRateService.getRate(tenantId, list.currency, effectiveFrom) : 1;
+        const changes: BulkPriceChange[] = products.map(product => {
+            const listPrice = current.get(product.id);
+            const currentPrice = listPrice ?? round2(Number(product.price) / rate);
+            return {
+                productId: product.id,
+                productName: product.name,
+                sku: product.sku,
+                source: listPrice !== undefined ? 'price_list' : 'base',
+                currentPrice,
+                newPrice: round2(currentPrice * (1 + input.percent / 100)),
+            };
+        });
+
+        return {
+            priceListId: list.id,
+            priceListName: list.name,
+            currency: list.currency,
+            percent: input.percent,
+            effectiveFrom,
+            changes,
+            totals: {
+                products: changes.length,
+                currentAmount: round2(changes.reduce((sum, c) => sum + c.currentPrice, 0)),
+                newAmount: round2(changes.reduce((sum, c) => sum + c.newPrice, 0)),
+            },
+        };
+    }
+
+    /**
+     * Applies the previewed change as prices starting on the effective date
+     * and records it in the audit log.
+     */
+    async applyBulkUpdate(tenantId: string, id: string, input: BulkPriceUpdateInput, userId?: string) {
+        const preview = await this.previewBulkUpdate(tenantId, id, input);
+        if (preview.changes.length === 0) throw new Error('No products match the filter');
+
+        await db.transaction(async (tx) => {
+            await tx.insert(schema.priceListItems)
+                .values(preview.changes.map(change => ({
+                    priceListId: id,
+                    productId: change.productId,
+                    price: change.newPrice.toFixed(2),
+                    validFrom: preview.effectiveFrom,
+                    createdBy: userId ?? null,
+                })))
+                .onConflictDoUpdate({
+                    target: [schema.priceListItems.priceListId, schema.priceListItems.productId, schema.priceListItems.validFrom],
+                    set: { price: sql`excluded.price`, validTo: null, createdBy: sql`excluded.created_by`, updatedAt: new Date() },
+                });
+        });
+
+        await logAudit('price_list.bulk_update', {
+            percent: input.percent,
+            brandId: input.brandId ?? null,
+            categoryId: input.categoryId ?? null,
+            effectiveFrom: preview.effectiveFrom,
+            products: preview.changes.length,
+            changes: preview.changes.map(c => ({ productId: c.productId, from: c.currentPrice, to: c.newPrice })),
+        }, userId, tenantId, id, 'price_list');
+
+        return preview;
+    }
+
+    // ----------------------------------------------------------------
+    // HELPERS
+    // ----------------------------------------------------------------
+
+    private async findList(tenantId: string, id: string) {
+        const [list] = await db.select().from(schema.priceLists)
+            .where(and(eq(schema.priceLists.id, id), eq(schema.priceLists.tenantId, tenantId)))
+            .limit(1);
+        if (!list) throw new Error('Price list not found');
+        return list;
+    }
+
+    // One list's prices on a date
+    private async pricesOn(priceListId: string, productIds: string[], day: string) {
+        const prices = new Map<string, number>();
+        if (productIds.length === 0) return prices;
+
+        const items = await db.select({ productId: schema.priceListItems.productId, price: schema.priceListItems.price })
+            .from(schema.priceListItems)
+            .where(and(
+                eq(schema.priceListItems.priceListId, priceListId),
+                inArray(schema.priceListItems.productId, productIds),
+                lte(schema.priceListItems.validFrom, day),
+                or(isNull(schema.priceListItems.validTo), gte(schema.priceListItems.validTo, day))
+            ))
+            .orderBy(desc(schema.priceListItems.validFrom));
+
+        for (const item of items) {
+            if (!prices.has(item.productId)) prices.set(item.productId, Number(item.price));
+        }
+        return prices;
+    }
+}
+
+export const priceListService = new PriceListService();
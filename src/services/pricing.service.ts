@@ -0,0 +1,479 @@
+/**
+ * PricingService - Server-side prices, discounts and order totals
+ *
+ * Every order-creation path (sales app, customer portal, reorder) and every
+ * cart preview prices through quote(), so the totals a customer is shown
+ * are the totals that get stored. Prices are tax-inclusive.
+ *
+ * Stacking rules, in the order they are applied:
+ *  1. List price: the price an existing order line was sold at when that
+ *     order is repriced; otherwise the customer's price list price on the
+ *     pricing date (see PriceListService), or the product's price. A list
+ *     price in another currency is converted to the tenant's base currency
+ *     at that day's exchange rate; quotes are always in the base currency.
+ *  2. Customer tier: the tier's discountPercent comes off every line and
+ *     always stacks.
+ *  3. Promotions active at the pricing moment, for which the customer
+ *     qualifies (customer / customer_tier / territory scopes), are taken by
+ *     descending priority, then by the larger amount. Each one applies to
+ *     its eligible lines (all / category / subcategory / brand / product
+ *     scopes; none means every line), on what is left of them:
+ *       - percentage:  value % off
+ *       - volume:      the best tier reached by the eligible quantity
+ *       - buy_x_get_y: every minQty + freeQty units of a line, freeQty free
+ *       - fixed:       value off, split across the lines by their amounts
+ *     A non-stackable promotion only takes lines no other non-stackable
+ *     promotion has taken; a stackable one applies on top. minOrderAmount
+ *     is checked against the eligible lines after the tier discount, and
+ *     maxDiscountAmount caps what the promotion gives in total.
+ *     A promotion with promo codes is only a candidate when one of its
+ *     codes was entered (promoDiscountIds).
+ */
+
+import { db, schema } from '../db';
+import { priceListService, type ListPrice } from './price-list.service';
+import { eq, and, or, not, gte, lte, isNull, inArray, sql } from 'drizzle-orm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PricingLineInput {
+    productId: string;
+    quantity: number;
+    // Overrides the list price (repricing an existing order line)
+    unitPrice?: number;
+}
+
+export interface PricingRequest {
+    tenantId: string;
+    customerId: string;
+    lines: PricingLineInput[];
+    // Moment whose promotions apply, defaults to now
+    at?: Date;
+    // Promotions unlocked by an entered promo code
+    promoDiscountIds?: string[];
+}
+
+export interface PriceAdjustment {
+    kind: 'tier' | 'promotion';
+    discountId: string | null;
+    name: string;
+    type: string;
+    description: string;
+    amount: number;
+}
+
+export interface PricedLine {
+    productId: string;
+    productName: string;
+    quantity: number;
+    unitPrice: number;
+    // The price list unitPrice came from; null for the product's own price
+    priceListId: string | null;
+    priceListName: string | null;
+    // The list's price and currency, before conversion to unitPrice
+    priceListCurrency: string | null;
+    priceListPrice: number | null;
+    // Gross: unitPrice x quantity
+    lineTotal: number;
+    tierDiscount: number;
+    promotionDiscount: number;
+    discountAmount: number;
+    // The promotion that gave the most on this line
+    discountId: string | null;
+    freeQty: number;
+    taxRate: number;
+    taxAmount: number;
+    netTotal: number;
+    explanations: PriceAdjustment[];
+}
+
+export interface AppliedDiscount {
+    id: string;
+    name: string;
+    type: string;
+    amount: number;
+}
+
+export interface PriceQuote {
+    customerId: string;
+    tierName: string | null;
+    tierDiscountPercent: number;
+    lines: PricedLine[];
+    appliedDiscounts: AppliedDiscount[];
+    subtotalAmount: number;
+    discountAmount: number;
+    taxAmount: number;
+    totalAmount: number;
+}
+
+interface Promotion {
+    id: string;
+    name: string;
+    type: 'percentage' | 'fixed' | 'buy_x_get_y' | 'volume';
+    value: number;
+    minQty: number;
+    freeQty: number;
+    minOrderAmount: number;
+    maxDiscountAmount: number | null;
+    priority: number;
+    isStackable: boolean;
+    customerScopes: { scopeType: string; scopeId: string | null }[];
+    lineScopes: { scopeType: string; scopeId: string | null }[];
+    tiers: { minQty: number; percent: number }[];
+}
+
+interface WorkLine extends PricedLine {
+    categoryId: string | null;
+    subcategoryId: string;
+    brandId: string;
+    net: number;
+    exclusiveTaken: boolean;
+}
+
+const CUSTOMER_SCOPES = ['customer', 'customer_tier', 'territory'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class PricingService {
+    /**
+     * Prices the lines for the customer. Throws when a product is unknown
+     * or inactive, a quantity is invalid, or the customer does not exist.
+     */
+    async quote(request: PricingRequest, executor: any = db): Promise<PriceQuote> {
+        const { tenantId, customerId } = request;
+        const at = request.at ?? new Date();
+
+        const [customer] = await executor
+            .select({
+                id: schema.customers.id,
+                tierId: schema.customers.tierId,
+                territoryId: schema.customers.territoryId,
+                tierName: schema.customerTiers.name,
+                tierDiscountPercent: schema.customerTiers.discountPercent,
+            })
+            .from(schema.customers)
+            .leftJoin(schema.customerTiers, eq(schema.customers.tierId, schema.customerTiers.id))
+            .where(and(eq(schema.customers.id, customerId), eq(schema.customers.tenantId, tenantId)))
+            .limit(1);
+        if (!customer) throw new Error('Customer not found');
+
+        // 1. List price
+        const listPrices = await priceListService.resolvePrices(
+            tenantId,
+            customer,
+            request.lines.filter(line => line.unitPrice === undefined).map(line => line.productId),
+            at,
+            executor
+        );
+        const lines = await this.loadLines(executor, tenantId, request.lines, listPrices);
+
+        // 2. Customer tier
+        const tierPercent = Number(customer.tierDiscountPercent ?? 0);
+        if (tierPercent > 0) {
+            for (const line of lines) {
+                const amount = Math.min(line.net, round2(line.lineTotal * tierPercent / 100));
+                if (amount <= 0) continue;
+                line.tierDiscount = amount;
+                line.net = round2(line.net - amount);
+                line.explanations.push({
+                    kind: 'tier',
+                    discountId: null,
+                    name: customer.tierName ?? 'Tier',
+                    type: 'percentage',
+                    description: `${tierPercent}% customer tier discount`,
+                    amount,
+                });
+            }
+        }
+
+        // 3. Promotions
+        const promotions = (await this.loadPromotions(executor, tenantId, at, request.promoDiscountIds ?? []))
+            .filter(promo => this.customerQualifies(promo, customer));
+
+        const ranked = promotions
+            .map(promo => ({ promo, estimate: this.evaluate(promo, lines, false).total }))
+            .filter(entry => entry.estimate > 0)
+            .sort((a, b) => b.promo.priority - a.promo.priority || b.estimate - a.estimate);
+
+        const applied: AppliedDiscount[] = [];
+        for (const { promo } of ranked) {
+            const result = this.evaluate(promo, lines, true);
+            if (result.total <= 0) continue;
+
+            for (const [line, amount, detail] of result.shares) {
+                line.promotionDiscount = round2(line.promotionDiscount + amount);
+                line.net = round2(line.net - amount);
+                line.freeQty += detail.freeQty;
+                if (!promo.isStackable) line.exclusiveTaken = true;
+                line.explanations.push({
+                    kind: 'promotion',
+                    discountId: promo.id,
+                    name: promo.name,
+                    type: promo.type,
+                    description: detail.description,
+                    amount,
+                });
+            }
+            applied.push({ id: promo.id, name: promo.name, type: promo.type, amount: result.total });
+        }
+
+        // Totals
+        const priced: PricedLine[] = lines.map(line => {
+            const best = line.explanations
+                .filter(e => e.kind === 'promotion')
+                .sort((a, b) => b.amount - a.amount)[0];
+            const discountAmount = round2(line.tierDiscount + line.promotionDiscount);
+            const netTotal = round2(line.lineTotal - discountAmount);
+            return {
+                productId: line.productId,
+                productName: line.productName,
+                quantity: line.quantity,
+                unitPrice: line.unitPrice,
+                priceListId: line.priceListId,
+                priceListName: line.priceListName,
+                priceListCurrency: line.priceListCurrency,
+                priceListPrice: line.priceListPrice,
+                lineTotal: line.lineTotal,
+                tierDiscount: line.tierDiscount,
+                promotionDiscount: line.promotionDiscount,
+                discountAmount,
+                discountId: best?.discountId ?? null,
+                freeQty: line.freeQty,
+                taxRate: line.taxRate,
+                // Prices include tax
+                taxAmount: round2(netTotal * line.taxRate / (100 + line.taxRate)),
+                netTotal,
+                explanations: line.explanations,
+            };
+        });
+
+        const sum = (pick: (line: PricedLine) => number) => round2(priced.reduce((total, line) => total + pick(line), 0));
+
+        return {
+            customerId,
+            tierName: customer.tierName ?? null,
+            tierDiscountPercent: tierPercent,
+            lines: priced,
+            appliedDiscounts: applied,
+            subtotalAmount: sum(line => line.lineTotal),
+            discountAmount: sum(line => line.discountAmount),
+            taxAmount: sum(line => line.taxAmount),
+            totalAmount: sum(line => line.netTotal),
+        };
+    }
+
+    // ----------------------------------------------------------------
+    // HELPERS
+    // ----------------------------------------------------------------
+
+    private async loadLines(executor: any, tenantId: string, inputs: PricingLineInput[], listPrices: Map<string, ListPrice>): Promise<WorkLine[]> {
+        if (inputs.length === 0) return [];
+
+        const productIds = [...new Set(inputs.map(line => line.productId))];
+        const products: {
+            id: string; name: string; price: string; taxRate: string | null; isActive: boolean | null;
+            subcategoryId: string; brandId: string; categoryId: string | null;
+        }[] = await executor
+            .select({
+                id: schema.products.id,
+                name: schema.products.name,
+                price: schema.products.price,
+                taxRate: schema.products.taxRate,
+                isActive: schema.products.isActive,
+                subcategoryId: schema.products.subcategoryId,
+                brandId: schema.products.brandId,
+                categoryId: schema.subcategories.categoryId,
+            })
+            .from(schema.products)
+            .leftJoin(schema.subcategories, eq(schema.products.subcategoryId, schema.subcategories.id))
+            .where(and(eq(schema.products.tenantId, tenantId), inArray(schema.products.id, productIds)));
+        const productMap = new Map(products.map(p => [p.id, p]));
+
+        return inputs.map(input => {
+            const product = productMap.get(input.productId);
+            if (!product) throw new Error(`Product not found: ${input.productId}`);
+            // A line already sold keeps its product even if it was delisted since
+            if (!product.isActive && input.unitPrice === undefined) throw new Error(`Product is not available: ${product.name}`);
+
+            const quantity = Number(input.quantity);
+            if (!Number.isInteger(quantity) || quantity <= 0) throw new Error(`Invalid quantity for ${product.name}`);
+
+            const listPrice = input.unitPrice === undefined ? listPrices.get(product.id) : undefined;
+            const unitPrice = input.unitPrice ?? listPrice?.price ?? Number(product.price);
+            const lineTotal = round2(unitPrice * quantity);
+            return {
+                productId: product.id,
+                productName: product.name,
+                quantity,
+                unitPrice,
+                priceListId: listPrice?.priceListId ?? null,
+                priceListName: listPrice?.priceListName ?? null,
+                priceListCurrency: listPrice?.currency ?? null,
+                priceListPrice: listPrice?.listedPrice ?? null,
+                lineTotal,
+                tierDiscount: 0,
+                promotionDiscount: 0,
+                discountAmount: 0,
+                discountId: null,
+                freeQty: 0,
+                taxRate: Number(product.taxRate ?? 0),
+                taxAmount: 0,
+                netTotal: lineTotal,
+                explanations: [],
+                categoryId: product.categoryId,
+                subcategoryId: product.subcategoryId,
+                brandId: product.brandId,
+                net: lineTotal,
+                exclusiveTaken: false,
+            };
+        });
+    }
+
+    private async loadPromotions(executor: any, tenantId: string, at: Date, unlocked: string[]): Promise<Promotion[]> {
+        // Discounts with promo codes apply only through one of their codes
+        const codeOnly = sql`EXISTS (SELECT 1 FROM ${schema.promoCodes} WHERE ${schema.promoCodes.discountId} = ${schema.discounts.id})`;
+        const discounts = await executor
+            .select()
+            .from(schema.discounts)
+            .where(and(
+                eq(schema.discounts.tenantId, tenantId),
+                eq(schema.discounts.isActive, true),
+                or(isNull(schema.discounts.startsAt), lte(schema.discounts.startsAt, at)),
+                or(isNull(schema.discounts.endsAt), gte(schema.discounts.endsAt, at)),
+                unlocked.length > 0
+                    ? or(not(codeOnly), inArray(schema.discounts.id, unlocked))
+                    : not(codeOnly)
+            ));
+        if (discounts.length === 0) return [];
+
+        const ids = discounts.map((d: any) => d.id);
+        const scopes = await executor.select().from(schema.discountScopes)
+            .where(inArray(schema.discountScopes.discountId, ids));
+        const tiers = await executor.select().from(schema.volumeTiers)
+            .where(inArray(schema.volumeTiers.discountId, ids))
+            .orderBy(schema.volumeTiers.minQty);
+
+        return discounts.map((d: any) => {
+            const own = scopes.filter((s: any) => s.discountId === d.id);
+            return {
+                id: d.id,
+                name: d.name,
+                type: d.type,
+                value: Number(d.value ?? 0),
+                minQty: d.minQty ?? 0,
+                freeQty: d.freeQty ?? 0,
+                minOrderAmount: Number(d.minOrderAmount ?? 0),
+                maxDiscountAmount: d.maxDiscountAmount != null ? Number(d.maxDiscountAmount) : null,
+                priority: d.priority ?? 0,
+                isStackable: d.isStackable ?? false,
+                customerScopes: own.filter((s: any) => CUSTOMER_SCOPES.includes(s.scopeType)),
+                lineScopes: own.filter((s: any) => !CUSTOMER_SCOPES.includes(s.scopeType)),
+                tiers: tiers
+                    .filter((t: any) => t.discountId === d.id)
+                    .map((t: any) => ({ minQty: t.minQty, percent: Number(t.discountPercent) })),
+            };
+        });
+    }
+
+    private customerQualifies(promo: Promotion, customer: { id: string; tierId: string | null; territoryId: string | null }) {
+        if (promo.customerScopes.length === 0) return true;
+        return promo.customerScopes.some(scope =>
+            (scope.scopeType === 'customer' && scope.scopeId === customer.id)
+            || (scope.scopeType === 'customer_tier' && scope.scopeId === customer.tierId)
+            || (scope.scopeType === 'territory' && scope.scopeId === customer.territoryId));
+    }
+
+    private lineMatches(promo: Promotion, line: WorkLine) {
+        if (promo.lineScopes.length === 0) return true;
+        return promo.lineScopes.some(scope =>
+            scope.scopeType === 'all'
+            || (scope.scopeType === 'category' && scope.scopeId === line.categoryId)
+            || (scope.scopeType === 'subcategory' && scope.scopeId === line.subcategoryId)
+            || (scope.scopeType === 'brand' && scope.scopeId === line.brandId)
+            || (scope.scopeType === 'product' && scope.scopeId === line.productId));
+    }
+
+    /**
+     * What the promotion gives on the current line amounts. With
+     * `exclusive` set, a non-stackable promotion skips lines another one
+     * has taken (estimates for ranking ignore that).
+     */
+    private evaluate(promo: Promotion, lines: WorkLine[], exclusive: boolean) {
+        const shares: [WorkLine, number, { description: string; freeQty: number }][] = [];
+        const eligible = lines.filter(line => this.lineMatches(promo, line));
+
+        const threshold = round2(eligible.reduce((sum, line) => sum + line.lineTotal - line.tierDiscount, 0));
+        if (promo.minOrderAmount > 0 && threshold < promo.minOrderAmount) return { total: 0, shares };
+
+        const targets = eligible.filter(line => line.net > 0 && !(exclusive && !promo.isStackable && line.exclusiveTaken));
+        if (targets.length === 0) return { total: 0, shares };
+
+        let amounts: number[] = [];
+        let details: { description: string; freeQty: number }[] = [];
+
+        switch (promo.type) {
+            case 'percentage':
+                amounts = targets.map(line => line.net * promo.value / 100);
+                details = targets.map(() => ({ description: `${promo.value}% off`, freeQty: 0 }));
+                break;
+
+            case 'volume': {
+                const quantity = targets.reduce((sum, line) => sum + line.quantity, 0);
+                const tier = promo.tiers.filter(t => quantity >= t.minQty).pop();
+                if (!tier) return { total: 0, shares };
+                amounts = targets.map(line => line.net * tier.percent / 100);
+                details = targets.map(() => ({ description: `${tier.percent}% off for ${tier.minQty}+ units`, freeQty: 0 }));
+                break;
+            }
+
+            case 'buy_x_get_y': {
+                if (promo.minQty <= 0 || promo.freeQty <= 0) return { total: 0, shares };
+                const free = targets.map(line => Math.floor(line.quantity / (promo.minQty + promo.freeQty)) * promo.freeQty);
+                amounts = targets.map((line, i) => line.net / line.quantity * free[i]);
+                details = targets.map((_, i) => ({ description: `Buy ${promo.minQty} get ${promo.freeQty} free: ${free[i]} free`, freeQty: free[i] }));
+                break;
+            }
+
+            case 'fixed': {
+                const base = targets.reduce((sum, line) => sum + line.net, 0);
+                amounts = this.allocate(Math.min(promo.value, base), targets.map(line => line.net));
+                details = targets.map(() => ({ description: `Share of ${promo.value} off`, freeQty: 0 }));
+                break;
+            }
+        }
+
+        amounts = amounts.map((amount, i) => Math.min(targets[i].net, round2(amount)));
+        let total = round2(amounts.reduce((sum, amount) => sum + amount, 0));
+        if (promo.maxDiscountAmount !== null && total > promo.maxDiscountAmount) {
+            amounts = this.allocate(promo.maxDiscountAmount, amounts);
+            total = round2(promo.maxDiscountAmount);
+        }
+
+        targets.forEach((line, i) => {
+            if (amounts[i] > 0) shares.push([line, amounts[i], details[i]]);
+        });
+        return { total, shares };
+    }
+
+    /**
+     * Splits an amount in proportion to the weights; the rounding
+     * remainder goes to the largest weight so the parts add up exactly.
+     */
+    private allocate(amount: number, weights: number[]) {
+        const total = weights.reduce((sum, w) => sum + w, 0);
+        if (total <= 0) return weights.map(() => 0);
+
+        const parts = weights.map(w => round2(amount * w / total));
+        const largest = weights.indexOf(Math.max(...weights));
+        parts[largest] = round2(parts[largest] + round2(amount) - round2(parts.reduce((sum, p) => sum + p, 0)));
+        return parts;
+    }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,257 @@
+/**
+ * ProductUnitService - Pack sizes of a product and conversion to its base unit
+ *
+ * A product is stocked, reserved and moved in its base unit (products.unit).
+ * Alternate units are packs of that unit with a whole-number factor (a case
+ * of 12 pieces) and their own barcode. Order, cart and PO lines may be
+ * entered in any active unit; they are converted here, so stock_movements
+ * and reservations only ever see base units. Lines keep the unit they were
+ * entered in for display.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, or, ne, inArray } from 'drizzle-orm';
+import { logAudit } from '../lib/audit';
+import { UnitNotSoldError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ProductUnitName = typeof schema.productUnitEnum.enumValues[number];
+
+export interface ProductUnitInput {
+    unit: ProductUnitName;
+    factor: number;
+    barcode?: string | null;
+    isActive?: boolean;
+}
+
+export interface ProductUnitOption {
+    id: string;
+    unit: ProductUnitName;
+    factor: number;
+    barcode: string | null;
+    isActive: boolean;
+}
+
+export interface UnitLineInput {
+    productId: string;
+    // Null or the product's own unit = the base unit
+    unit?: ProductUnitName | null;
+    // In that unit
+    quantity: number;
+}
+
+export interface UnitLine {
+    productId: string;
+    unit: ProductUnitName | null;
+    unitQty: number;
+    unitFactor: number;
+    // In the base unit
+    quantity: number;
+}
+
+export interface BarcodeMatch {
+    productId: string;
+    unit: ProductUnitName | null;
+    // Base units one scan stands for
+    factor: number;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class ProductUnitService {
+    // ----------------------------------------------------------------
+    // UNITS
+    // ----------------------------------------------------------------
+
+    async listUnits(tenantId: string, productId: string, executor: any = db): Promise<ProductUnitOption[]> {
+        return executor.select({
+            id: schema.productUnits.id,
+            unit: schema.productUnits.unit,
+            factor: schema.productUnits.factor,
+            barcode: schema.productUnits.barcode,
+            isActive: schema.productUnits.isActive,
+        }).from(schema.productUnits)
+            .where(and(eq(schema.productUnits.tenantId, tenantId), eq(schema.productUnits.productId, productId)))
+            .orderBy(schema.productUnits.factor);
+    }
+
+    /**
+     * Active units of each product, smallest pack first, for catalogs and carts.
+     */
+    async unitsForProducts(tenantId: string, productIds: string[], executor: any = db): Promise<Map<string, ProductUnitOption[]>> {
+        const units = new Map<string, ProductUnitOption[]>();
+        if (productIds.length === 0) return units;
+
+        const rows = await executor.select({
+            id: schema.productUnits.id,
+            productId: schema.productUnits.productId,
+            unit: schema.productUnits.unit,
+            factor: schema.productUnits.factor,
+            barcode: schema.productUnits.barcode,
+            isActive: schema.productUnits.isActive,
+        }).from(schema.productUnits)
+            .where(and(
+                eq(schema.productUnits.tenantId, tenantId),
+                inArray(schema.productUnits.productId, productIds),
+                eq(schema.productUnits.isActive, true)
+            ))
+            .orderBy(schema.productUnits.factor);
+
+        for (const { productId, ...unit } of rows) {
+            units.set(productId, [...(units.get(productId) ?? []), unit]);
+        }
+        return units;
+    }
+
+    /**
+     * Replaces a product's alternate units. Lines already entered in a
+     * removed unit keep their snapshot of it.
+     */
+    async setUnits(tenantId: string, productId: string, units: ProductUnitInput[], userId: string) {
+        const [product] = await db.select({ id: schema.products.id, name: schema.products.name, unit: schema.products.unit })
+            .from(schema.products)
+            .where(and(eq(schema.products.id, productId), eq(schema.products.tenantId, tenantId)))
+            .limit(1);
+        if (!product) throw new Error('Product not found');
+
+        const seenUnits = new Set<string>();
+        const seenBarcodes = new Set<string>();
+        for (const unit of units) {
+            if (!Number.isInteger(unit.factor) || unit.factor < 2) {
+                throw new Error(`Pack size of ${unit.unit} must be a whole number above 1`);
+            }
+            if (unit.unit === (product.unit ?? 'piece')) throw new Error(`${unit.unit} is the product's base unit`);
+            if (seenUnits.has(unit.unit)) throw new Error(`Unit ${unit.unit} is listed twice`);
+            seenUnits.add(unit.unit);
+
+            const barcode = unit.barcode?.trim();
+            if (!barcode) continue;
+            if (seenBarcodes.has(barcode)) throw new Error(`Barcode ${barcode} is listed twice`);
+            seenBarcodes.add(barcode);
+            await this.assertBarcodeFree(tenantId, productId, barcode);
+        }
+
+        const saved = await db.transaction(async (tx) => {
+            await tx.delete(schema.productUnits).where(eq(schema.productUnits.productId, productId));
+            if (units.length === 0) return [];
+
+            return tx.insert(schema.productUnits).values(units.map(unit => ({
+                tenantId,
+                productId,
+                unit: unit.unit,
+                factor: unit.factor,
+                barcode: unit.barcode?.trim() || null,
+                isActive: unit.isActive ?? true,
+            }))).returning();
+        });
+
+        await logAudit(
+            'product.units_updated',
+            `Units of ${product.name}: ${units.map(u => `${u.unit} = ${u.factor}`).join(', ') || 'base unit only'}`,
+            userId, tenantId, productId, 'product'
+        );
+        return saved;
+    }
+
+    // ----------------------------------------------------------------
+    // CONVERSION
+    // ----------------------------------------------------------------
+
+    /**
+     * Converts lines entered in any unit to base-unit quantities, in input
+     * order. Unknown products are passed through as base units for the
+     * caller's own product checks; an unknown or inactive unit throws
+     * UnitNotSoldError.
+     */
+    async toBaseLines(tenantId: string, lines: UnitLineInput[], executor: any = db): Promise<UnitLine[]> {
+        const productIds = [...new Set(lines.filter(line => line.unit).map(line => line.productId))];
+        const baseUnits = new Map<string, { name: string; unit: string | null }>();
+        const units = await this.unitsForProducts(tenantId, productIds, executor);
+
+        if (productIds.length > 0) {
+            const products = await executor.select({ id: schema.products.id, name: schema.products.name, unit: schema.products.unit })
+                .from(schema.products)
+                .where(and(eq(schema.products.tenantId, tenantId), inArray(schema.products.id, productIds)));
+            for (const product of products) baseUnits.set(product.id, product);
+        }
+
+        return lines.map(line => {
+            const product = baseUnits.get(line.productId);
+            if (!line.unit || !product || line.unit === (product.unit ?? 'piece')) {
+                return { productId: line.productId, unit: null, unitQty: line.quantity, unitFactor: 1, quantity: line.quantity };
+            }
+
+            const unit = units.get(line.productId)?.find(u => u.unit === line.unit);
+            if (!unit) throw new UnitNotSoldError(`${product.name} is not sold by the ${line.unit}`);
+            return {
+                productId: line.productId,
+                unit: unit.unit,
+                unitQty: line.quantity,
+                unitFactor: unit.factor,
+                quantity: line.quantity * unit.factor,
+            };
+        });
+    }
+
+    /**
+     * The product a scanned code stands for: its own barcode or SKU count as
+     * one base unit, a pack barcode as a whole pack.
+     */
+    async resolveBarcode(tenantId: string, code: string, executor: any = db): Promise<BarcodeMatch | null> {
+        const [product] = await executor.select({ id: schema.products.id })
+            .from(schema.products)
+            .where(and(
+                eq(schema.products.tenantId, tenantId),
+                or(eq(schema.products.barcode, code), eq(schema.products.sku, code))
+            ))
+            .limit(1);
+        if (product) return { productId: product.id, unit: null, factor: 1 };
+
+        const [pack] = await executor.select({
+            productId: schema.productUnits.productId,
+            unit: schema.productUnits.unit,
+            factor: schema.productUnits.factor,
+        }).from(schema.productUnits)
+            .where(and(
+                eq(schema.productUnits.tenantId, tenantId),
+                eq(schema.productUnits.barcode, code),
+                eq(schema.productUnits.isActive, true)
+            ))
+            .limit(1);
+        return pack ?? null;
+    }
+
+    // ----------------------------------------------------------------
+    // HELPERS
+    // ----------------------------------------------------------------
+
+    // A pack barcode must not scan as another product or another product's pack
+    private async assertBarcodeFree(tenantId: string, productId: string, barcode: string) {
+        const [product] = await db.select({ name: schema.products.name })
+            .from(schema.products)
+            .where(and(
+                eq(schema.products.tenantId, tenantId),
+                or(eq(schema.products.barcode, barcode), eq(schema.products.sku, barcode))
+            ))
+            .limit(1);
+        if (product) throw new Error(`Barcode ${barcode} is already used by ${product.name}`);
+
+        const [pack] = await db.select({ name: schema.products.name })
+            .from(schema.productUnits)
+            .innerJoin(schema.products, eq(schema.productUnits.productId, schema.products.id))
+            .where(and(
+                eq(schema.productUnits.tenantId, tenantId),
+                eq(schema.productUnits.barcode, barcode),
+                ne(schema.productUnits.productId, productId)
+            ))
+            .limit(1);
+        if (pack) throw new Error(`Barcode ${barcode} is already used by ${pack.name}`);
+    }
+}
+
+export const productUnitService = new ProductUnitService();
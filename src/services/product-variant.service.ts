@@ -0,0 +1,328 @@
+/**
+ * ProductVariantService - Product families and their attribute-defined variants
+ *
+ * A family is the parent product shown once in a catalog ("Cola"). Its
+ * variants are ordinary products, each with its own SKU, barcode, price and
+ * stock, told apart by a value for every attribute the family defines
+ * ({ size: "1L", flavour: "Cherry" }). Orders, stock and pricing keep
+ * working per product; the family only groups variants for the pickers.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, ne, sql, inArray, ilike } from 'drizzle-orm';
+import { logAudit } from '../lib/audit';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type VariantAttributes = Record<string, string>;
+
+export interface ProductFamilyInput {
+    name: string;
+    description?: string | null;
+    subcategoryId?: string | null;
+    brandId?: string | null;
+    imageUrl?: string | null;
+    // Attribute names in picker order
+    attributes: string[];
+    isActive?: boolean;
+}
+
+export interface VariantInput {
+    familyId: string;
+    attributes: VariantAttributes;
+}
+
+export interface VariantOption {
+    id: string;
+    name: string;
+    sku: string;
+    barcode: string | null;
+    price: string;
+    unit: string | null;
+    stockQuantity: number | null;
+    imageUrl: string | null;
+    attributes: VariantAttributes;
+}
+
+export interface FamilyVariants {
+    id: string;
+    name: string;
+    attributes: string[];
+    variants: VariantOption[];
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class ProductVariantService {
+    // ----------------------------------------------------------------
+    // FAMILIES
+    // ----------------------------------------------------------------
+
+    async listFamilies(tenantId: string, search?: string) {
+        const conditions: any[] = [eq(schema.productFamilies.tenantId, tenantId)];
+        if (search) conditions.push(ilike(schema.productFamilies.name, `%${search}%`));
+
+        return db.select({
+            id: schema.productFamilies.id,
+            name: schema.productFamilies.name,
+            description: schema.productFamilies.description,
+            subcategoryId: schema.productFamilies.subcategoryId,
+            brandId: schema.productFamilies.brandId,
+            imageUrl: schema.productFamilies.imageUrl,
+            attributes: schema.productFamilies.attributes,
+            isActive: schema.productFamilies.isActive,
+            variantCount: sql<number>`(SELECT count(*)::int FROM ${schema.products} WHERE ${schema.products.familyId} = ${schema.productFamilies.id})`,
+        }).from(schema.productFamilies)
+            .where(and(...conditions))
+            .orderBy(schema.productFamilies.name);
+    }
+
+    async getFamily(tenantId: string, familyId: string) {
+        const [family] = await db.select().from(schema.productFamilies)
+            .where(and(eq(schema.productFamilies.id, familyId), eq(schema.productFamilies.tenantId, tenantId)))
+            .limit(1);
+        if (!family) throw new Error('Product family not found');
+
+        const variants = await db.select({
+            id: schema.products.id,
+            name: schema.products.name,
+            sku: schema.products.sku,
+            barcode: schema.products.barcode,
+            price: schema.products.price,
+            stockQuantity: schema.products.stockQuantity,
+            isActive: schema.products.isActive,
+            attributes: schema.products.variantAttributes,
+        }).from(schema.products)
+            .where(and(eq(schema.products.tenantId, tenantId), eq(schema.products.familyId, familyId)))
+            .orderBy(schema.products.name);
+
+        return { ...family, variants };
+    }
+
+    async createFamily(tenantId: string, input: ProductFamilyInput, userId: string) {
+        const attributes = this.normalizeAttributeNames(input.attributes);
+
+        const [family] = await db.insert(schema.productFamilies).values({
+            tenantId,
+            name: input.name.trim(),
+            description: input.description ?? null,
+            subcategoryId: input.subcategoryId ?? null,
+            brandId: input.brandId ?? null,
+            imageUrl: input.imageUrl ?? null,
+            attributes,
+            isActive: input.isActive ?? true,
+        }).returning();
+
+        await logAudit('product_family.create', `Created product family ${family.name} (${attributes.join(', ')})`, userId, tenantId, family.id, 'product_family');
+        return family;
+    }
+
+    /**
+     * Attribute names can only change while the family has no variants;
+     * existing variants would otherwise be left without a value.
+     */
+    async updateFamily(tenantId: string, familyId: string, input: Partial<ProductFamilyInput>, userId: string) {
+        const family = await this.getFamily(tenantId, familyId);
+
+        const updates: any = { updatedAt: new Date() };
+        if (input.name !== undefined) updates.name = input.name.trim();
+        if (input.description !== undefined) updates.description = input.description;
+        if (input.subcategoryId !== undefined) updates.subcategoryId = input.subcategoryId;
+        if (input.brandId !== undefined) updates.brandId = input.brandId;
+        if (input.imageUrl !== undefined) updates.imageUrl = input.imageUrl;
+        if (input.isActive !== undefined) updates.isActive = input.isActive;
+
+        if (input.attributes !== undefined) {
+            const attributes = this.normalizeAttributeNames(input.attributes);
+            if (attributes.join('|') !== family.attributes.join('|') && family.variants.length > 0) {
+                throw new Error('Attributes cannot change while the family has variants');
+            }
+            updates.attributes = attributes;
+        }
+
+        const [updated] = await db.update(schema.productFamilies)
+            .set(updates)
+            .where(eq(schema.productFamilies.id, familyId))
+            .returning();
+
+        await logAudit('product_family.update', `Updated product family ${updated.name}`, userId, tenantId, familyId, 'product_family');
+        return updated;
+    }
+
+    /**
+     * Deletes the family; its variants stay as standalone products.
+     */
+    async deleteFamily(tenantId: string, familyId: string, userId: string) {
+        const family = await this.getFamily(tenantId, familyId);
+
+        await db.transaction(async (tx) => {
+            await tx.update(schema.products)
+                .set({ familyId: null, variantAttributes: null, updatedAt: new Date() })
+                .where(eq(schema.products.familyId, familyId));
+            await tx.delete(schema.productFamilies).where(eq(schema.productFamilies.id, familyId));
+        });
+
+        await logAudit('product_family.delete', `Deleted product family ${family.name} (${family.variants.length} variants kept as products)`, userId, tenantId, familyId, 'product_family');
+    }
+
+    /**
+     * The tenant's family for a master catalog family name, created on first
+     * import with the master product's attribute names.
+     */
+    async familyForImport(
+        tenantId: string,
+        name: string,
+        attributes: string[],
+        defaults: Omit<ProductFamilyInput, 'name' | 'attributes'>,
+        executor: any = db
+    ) {
+        const names = this.normalizeAttributeNames(attributes);
+        const [existing] = await executor.select().from(schema.productFamilies)
+            .where(and(eq(schema.productFamilies.tenantId, tenantId), eq(schema.productFamilies.name, name)))
+            .limit(1);
+
+        if (existing) {
+            if ([...names].sort().join('|') !== [...existing.attributes].sort().join('|')) {
+                throw new Error(`Family ${name} is split by ${existing.attributes.join(', ')}, not ${names.join(', ')}`);
+            }
+            return existing;
+        }
+
+        const [family] = await executor.insert(schema.productFamilies).values({
+            tenantId,
+            name,
+            description: defaults.description ?? null,
+            subcategoryId: defaults.subcategoryId ?? null,
+            brandId: defaults.brandId ?? null,
+            imageUrl: defaults.imageUrl ?? null,
+            attributes: names,
+        }).returning();
+        return family;
+    }
+
+    // ----------------------------------------------------------------
+    // VARIANTS
+    // ----------------------------------------------------------------
+
+    /**
+     * Makes a product a variant of a family, or a standalone product again
+     * when variant is null. Every family attribute needs a value, and no two
+     * variants of a family may share all of them.
+     */
+    async setVariant(tenantId: string, productId: string, variant: VariantInput | null, userId: string, executor: any = db) {
+        const [product] = await executor.select({ id: schema.products.id, name: schema.products.name })
+            .from(schema.products)
+            .where(and(eq(schema.products.id, productId), eq(schema.products.tenantId, tenantId)))
+            .limit(1);
+        if (!product) throw new Error('Product not found');
+
+        if (!variant) {
+            const [updated] = await executor.update(schema.products)
+                .set({ familyId: null, variantAttributes: null, updatedAt: new Date() })
+                .where(eq(schema.products.id, productId))
+                .returning();
+            await logAudit('product.variant_removed', `${product.name} is no longer a variant`, userId, tenantId, productId, 'product');
+            return updated;
+        }
+
+        const [family] = await executor.select().from(schema.productFamilies)
+            .where(and(eq(schema.productFamilies.id, variant.familyId), eq(schema.productFamilies.tenantId, tenantId)))
+            .limit(1);
+        if (!family) throw new Error('Product family not found');
+
+        const given = Object.fromEntries(Object.entries(variant.attributes).map(([name, value]) => [name.trim().toLowerCase(), value]));
+        const attributes: VariantAttributes = {};
+        for (const name of family.attributes) {
+            const value = given[name]?.trim();
+            if (!value) throw new Error(`A value for ${name} is required`);
+            attributes[name] = value;
+        }
+        const unknown = Object.keys(given).filter(name => !family.attributes.includes(name));
+        if (unknown.length > 0) throw new Error(`${family.name} has no attribute ${unknown.join(', ')}`);
+
+        const [taken] = await executor.select({ name: schema.products.name })
+            .from(schema.products)
+            .where(and(
+                eq(schema.products.familyId, family.id),
+                ne(schema.products.id, productId),
+                sql`${schema.products.variantAttributes} = ${JSON.stringify(attributes)}::jsonb`
+            ))
+            .limit(1);
+        if (taken) throw new Error(`${taken.name} is already the ${this.describe(attributes)} variant of ${family.name}`);
+
+        const [updated] = await executor.update(schema.products)
+            .set({ familyId: family.id, variantAttributes: attributes, updatedAt: new Date() })
+            .where(eq(schema.products.id, productId))
+            .returning();
+
+        await logAudit('product.variant_set', `${product.name} is the ${this.describe(attributes)} variant of ${family.name}`, userId, tenantId, productId, 'product');
+        return updated;
+    }
+
+    /**
+     * Active families with their active variants, for catalog pickers.
+     */
+    async variantsForFamilies(tenantId: string, familyIds: (string | null)[], executor: any = db): Promise<Map<string, FamilyVariants>> {
+        const families = new Map<string, FamilyVariants>();
+        const ids = [...new Set(familyIds.filter((id): id is string => !!id))];
+        if (ids.length === 0) return families;
+
+        const familyRows = await executor.select({
+            id: schema.productFamilies.id,
+            name: schema.productFamilies.name,
+            attributes: schema.productFamilies.attributes,
+        }).from(schema.productFamilies)
+            .where(and(
+                eq(schema.productFamilies.tenantId, tenantId),
+                inArray(schema.productFamilies.id, ids),
+                eq(schema.productFamilies.isActive, true)
+            ));
+        for (const family of familyRows) families.set(family.id, { ...family, variants: [] });
+        if (families.size === 0) return families;
+
+        const variants = await executor.select({
+            id: schema.products.id,
+            familyId: schema.products.familyId,
+            name: schema.products.name,
+            sku: schema.products.sku,
+            barcode: schema.products.barcode,
+            price: schema.products.price,
+            unit: schema.products.unit,
+            stockQuantity: schema.products.stockQuantity,
+            imageUrl: schema.products.imageUrl,
+            attributes: schema.products.variantAttributes,
+        }).from(schema.products)
+            .where(and(
+                eq(schema.products.tenantId, tenantId),
+                inArray(schema.products.familyId, [...families.keys()]),
+                eq(schema.products.isActive, true)
+            ))
+            .orderBy(schema.products.price);
+
+        for (const { familyId, attributes, ...variant } of variants) {
+            families.get(familyId)?.variants.push({ ...variant, attributes: attributes ?? {} });
+        }
+        return families;
+    }
+
+    // ----------------------------------------------------------------
+    // HELPERS
+    // ----------------------------------------------------------------
+
+    private normalizeAttributeNames(attributes: string[]): string[] {
+        const names = attributes.map(name => name.trim().toLowerCase()).filter(Boolean);
+        if (names.length === 0) throw new Error('A family needs at least one attribute');
+        if (new Set(names).size !== names.length) throw new Error('Attribute names must be unique');
+        return names;
+    }
+
+    private describe(attributes: VariantAttributes): string {
+        return Object.values(attributes).join(' / ');
+    }
+}
+
+export const productVariantService = new ProductVariantService();
@@ -0,0 +1,392 @@
+/**
+ * PromoCodeService - Coupon codes for discounts and their redemptions
+ *
+ * A discount with promo codes is a campaign: the pricing engine only applies
+ * it to an order that enters one of its codes. Codes are created one by one
+ * or generated in bulk, each with optional total and per-customer limits and
+ * a first-order-only flag. Every order that uses a code records a
+ * redemption; redemptions of cancelled orders no longer count.
+ */
+
+import { randomInt, randomUUID } from 'crypto';
+import { db, schema } from '../db';
+import { eq, and, sql, desc, ne } from 'drizzle-orm';
+import { PromoCodeError } from '../errors';
+import type { PriceQuote } from './pricing.service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ResolvedPromoCode {
+    id: string;
+    code: string;
+    discountId: string;
+    discountName: string;
+    discountType: string;
+    discountValue: number;
+    minOrderAmount: number;
+}
+
+export interface CreatePromoCodesInput {
+    // A single code; otherwise `count` codes are generated
+    code?: string;
+    count?: number;
+    prefix?: string;
+    maxRedemptions?: number | null;
+    maxPerCustomer?: number | null;
+    firstOrderOnly?: boolean;
+}
+
+export interface UpdatePromoCodeInput {
+    isActive?: boolean;
+    maxRedemptions?: number | null;
+    maxPerCustomer?: number | null;
+    firstOrderOnly?: boolean;
+}
+
+export interface RedemptionFilters {
+    discountId?: string;
+    promoCodeId?: string;
+    from?: string;
+    to?: string;
+    page: number;
+    limit: number;
+}
+
+export interface CampaignReportRow {
+    discountId: string;
+    discountName: string;
+    codes: number;
+    redemptions: number;
+    customers: number;
+    discountAmount: number;
+    revenue: number;
+}
+
+// Without look-alike characters (0/O, 1/I/L)
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const GENERATED_LENGTH = 8;
+const MAX_BULK_CODES = 1000;
+const CODE_PATTERN = /^[A-Z0-9_-]{3,50}$/;
+
+const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+// Redemptions that count: the order was not cancelled
+const activeRedemption = sql`${schema.orders.status} <> 'cancelled'`;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class PromoCodeService {
+    // ----------------------------------------------------------------
+    // REDEMPTION
+    // ----------------------------------------------------------------
+
+    /**
+     * Checks that a customer may use a code now. With `lock` the code row is
+     * locked so concurrent checkouts cannot both take its last redemption;
+     * call it inside the order transaction.
+     */
+    async resolve(tenantId: string, customerId: string, rawCode: string, executor: any = db, options?: { lock?: boolean }): Promise<ResolvedPromoCode> {
+        const code = normalizeCode(rawCode);
+
+        let query = executor.select().from(schema.promoCodes)
+            .where(and(eq(schema.promoCodes.tenantId, tenantId), eq(schema.promoCodes.code, code)))
+            .limit(1);
+        if (options?.lock) query = query.for('update');
+        const [promo] = await query;
+        if (!promo) throw new PromoCodeError('DISCOUNT_NOT_FOUND', 'Promo code not found');
+
+        const [discount] = await executor.select().from(schema.discounts)
+            .where(eq(schema.discounts.id, promo.discountId)).limit(1);
+        const now = new Date();
+        if (!discount || !promo.isActive || !discount.isActive) throw new PromoCodeError('DISCOUNT_INACTIVE', 'Promo code is not active');
+        if (discount.startsAt && now < discount.startsAt) throw new PromoCodeError('DISCOUNT_INACTIVE', 'Promo code is not active yet');
+        if (discount.endsAt && now > discount.endsAt) throw new PromoCodeError('DISCOUNT_EXPIRED', 'Promo code has expired');
+
+        const [usage] = await executor
+            .select({
+                total: sql<number>`count(*)`,
+                byCustomer: sql<number>`count(*) FILTER (WHERE ${schema.promoCodeRedemptions.customerId} = ${customerId})`,
+            })
+            .from(schema.promoCodeRedemptions)
+            .innerJoin(schema.orders, eq(schema.promoCodeRedemptions.orderId, schema.orders.id))
+            .where(and(eq(schema.promoCodeRedemptions.promoCodeId, promo.id), activeRedemption));
+
+        if (promo.maxRedemptions != null && Number(usage.total) >= promo.maxRedemptions) {
+            throw new PromoCodeError('PROMO_CODE_EXHAUSTED', 'Promo code has been fully redeemed');
+        }
+        if (promo.maxPerCustomer != null && Number(usage.byCustomer) >= promo.maxPerCustomer) {
+            throw new PromoCodeError('DISCOUNT_ALREADY_USED', 'Promo code already used');
+        }
+
+        if (promo.firstOrderOnly) {
+            const [previous] = await executor.select({ id: schema.orders.id }).from(schema.orders)
+                .where(and(eq(schema.orders.customerId, customerId), ne(schema.orders.status, 'cancelled')))
+                .limit(1);
+            if (previous) throw new PromoCodeError('PROMO_CODE_FIRST_ORDER_ONLY', 'Promo code is valid on the first order only');
+        }
+
+        return {
+            id: promo.id,
+            code: promo.code,
+            discountId: discount.id,
+            discountName: discount.name,
+            discountType: discount.type,
+            discountValue: Number(discount.value ?? 0),
+            minOrderAmount: Number(discount.minOrderAmount ?? 0),
+        };
+    }
+
+    /**
+     * Records that an order used a code, with what its discount gave.
+     */
+    async recordRedemption(
+        tx: any,
+        promo: ResolvedPromoCode,
+        order: { id: string; tenantId: string; customerId: string },
+        quote: PriceQuote
+    ) {
+        const applied = quote.appliedDiscounts.find(d => d.id === promo.discountId);
+        await tx.insert(schema.promoCodeRedemptions).values({
+            tenantId: order.tenantId,
+            promoCodeId: promo.id,
+            discountId: promo.discountId,
+            customerId: order.customerId,
+            orderId: order.id,
+            discountAmount: String(applied?.amount ?? 0),
+            orderTotal: String(quote.totalAmount),
+        });
+    }
+
+    /**
+     * Discounts unlocked by the order's code, for repricing it.
+     */
+    async discountIdsForOrder(orderId: string, executor: any = db): Promise<string[]> {
+        const rows = await executor.select({ discountId: schema.promoCodeRedemptions.discountId })
+            .from(schema.promoCodeRedemptions)
+            .where(eq(schema.promoCodeRedemptions.orderId, orderId));
+        return rows.map((row: { discountId: string }) => row.discountId);
+    }
+
+    /**
+     * Keeps the redemption in step with a repriced order.
+     */
+    async refreshRedemption(tx: any, orderId: string, quote: PriceQuote) {
+        const [redemption] = await tx.select().from(schema.promoCodeRedemptions)
+            .where(eq(schema.promoCodeRedemptions.orderId, orderId)).limit(1);
+        if (!redemption) return;
+
+        const applied = quote.appliedDiscounts.find(d => d.id === redemption.discountId);
+        await tx.update(schema.promoCodeRedemptions)
+            .set({ discountAmount: String(applied?.amount ?? 0), orderTotal: String(quote.totalAmount) })
+            .where(eq(schema.promoCodeRedemptions.id, redemption.id));
+    }
+
+    // ----------------------------------------------------------------
+    // MAINTENANCE
+    // ----------------------------------------------------------------
+
+    async listCodes(tenantId: string, discountId: string, filters: { search?: string; page: number; limit: number }) {
+        const conditions: any[] = [eq(schema.promoCodes.tenantId, tenantId), eq(schema.promoCodes.discountId, discountId)];
+        if (filters.search) conditions.push(sql`${schema.promoCodes.code} ILIKE ${`%${filters.search.trim()}%`}`);
+
+        const redemptions = db.select({
+            promoCodeId: schema.promoCodeRedemptions.promoCodeId,
+            count: sql<number>`count(*)`.as('count'),
+        }).from(schema.promoCodeRedemptions)
+            .innerJoin(schema.orders, eq(schema.promoCodeRedemptions.orderId, schema.orders.id))
+            .where(activeRedemption)
+            .groupBy(schema.promoCodeRedemptions.promoCodeId)
+            .as('redemptions');
+
+        const rows = await db.select({
+            id: schema.promoCodes.id,
+            code: schema.promoCodes.code,
+            batchId: schema.promoCodes.batchId,
+            maxRedemptions: schema.promoCodes.maxRedemptions,
+            maxPerCustomer: schema.promoCodes.maxPerCustomer,
+            firstOrderOnly: schema.promoCodes.firstOrderOnly,
+            isActive: schema.promoCodes.isActive,
+            createdAt: schema.promoCodes.createdAt,
+            redemptions: sql<number>`COALESCE(${redemptions.count}, 0)`,
+        }).from(schema.promoCodes)
+            .leftJoin(redemptions, eq(redemptions.promoCodeId, schema.promoCodes.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.promoCodes.createdAt), schema.promoCodes.code)
+            .limit(filters.limit).offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.promoCodes).where(and(...conditions));
+
+        return { rows: rows.map(row => ({ ...row, redemptions: Number(row.redemptions) })), total: Number(count) };
+    }
+
+    /**
+     * Creates one named code or a batch of generated unique ones.
+     */
+    async createCodes(tenantId: string, discountId: string, input: CreatePromoCodesInput, userId?: string) {
+        const [discount] = await db.select({ id: schema.discounts.id }).from(schema.discounts)
+            .where(and(eq(schema.discounts.id, discountId), eq(schema.discounts.tenantId, tenantId))).limit(1);
+        if (!discount) throw new Error('Discount not found');
+
+        const limits = {
+            maxRedemptions: input.maxRedemptions ?? null,
+            maxPerCustomer: input.maxPerCustomer ?? null,
+            firstOrderOnly: input.firstOrderOnly ?? false,
+        };
+        const values = (codes: string[], batchId: string | null) => codes.map(code => ({
+            tenantId, discountId, code, batchId, ...limits, createdBy: userId ?? null,
+        }));
+
+        if (input.code) {
+            const code = normalizeCode(input.code);
+            if (!CODE_PATTERN.test(code)) throw new Error('Codes are 3-50 letters, digits, "-" or "_"');
+            const created = await db.insert(schema.promoCodes).values(values([code], null))
+                .onConflictDoNothing().returning();
+            if (created.length === 0) throw new Error(`Code ${code} already exists`);
+            return created;
+        }
+
+        const count = input.count ?? 0;
+        if (count < 1 || count > MAX_BULK_CODES) throw new Error(`Generate between 1 and ${MAX_BULK_CODES} codes`);
+        const prefix = input.prefix ? `${normalizeCode(input.prefix)}-` : '';
+        if (prefix && !CODE_PATTERN.test(`${prefix}${'X'.repeat(GENERATED_LENGTH)}`)) throw new Error('Invalid code prefix');
+
+        const batchId = randomUUID();
+        const created: any[] = [];
+        // Collisions with existing codes are skipped and made up in the next round
+        for (let attempt = 0; attempt < 5 && created.length < count; attempt++) {
+            const codes = new Set<string>();
+            while (codes.size < count - created.length) {
+                let random = '';
+                for (let i = 0; i < GENERATED_LENGTH; i++) random += CODE_ALPHABET[randomInt(CODE_ALPHABET.length)];
+                codes.add(`${prefix}${random}`);
+            }
+            created.push(...await db.insert(schema.promoCodes).values(values([...codes], batchId))
+                .onConflictDoNothing().returning());
+        }
+        if (created.length < count) throw new Error('Could not generate enough unique codes; use a longer prefix');
+        return created;
+    }
+
+    async updateCode(tenantId: string, id: string, input: UpdatePromoCodeInput) {
+        const [updated] = await db.update(schema.promoCodes)
+            .set({ ...input, updatedAt: new Date() })
+            .where(and(eq(schema.promoCodes.id, id), eq(schema.promoCodes.tenantId, tenantId)))
+            .returning();
+        if (!updated) throw new Error('Promo code not found');
+        return updated;
+    }
+
+    /**
+     * Deletes an unused code; a redeemed one can only be deactivated.
+     */
+    async deleteCode(tenantId: string, id: string) {
+        const [used] = await db.select({ id: schema.promoCodeRedemptions.id }).from(schema.promoCodeRedemptions)
+            .where(eq(schema.promoCodeRedemptions.promoCodeId, id)).limit(1);
+        if (used) throw new Error('Promo code has redemptions; deactivate it instead');
+
+        const [deleted] = await db.delete(schema.promoCodes)
+            .where(and(eq(schema.promoCodes.id, id), eq(schema.promoCodes.tenantId, tenantId)))
+            .returning({ id: schema.promoCodes.id });
+        if (!deleted) throw new Error('Promo code not found');
+    }
+
+    // ----------------------------------------------------------------
+    // REPORTING
+    // ----------------------------------------------------------------
+
+    async listRedemptions(tenantId: string, filters: RedemptionFilters) {
+        const conditions = this.redemptionConditions(tenantId, filters);
+
+        const rows = await db.select({
+            id: schema.promoCodeRedemptions.id,
+            code: schema.promoCodes.code,
+            discountId: schema.promoCodeRedemptions.discountId,
+            discountName: schema.discounts.name,
+            customerId: schema.promoCodeRedemptions.customerId,
+            customerName: schema.customers.name,
+            orderId: schema.promoCodeRedemptions.orderId,
+            orderNumber: schema.orders.orderNumber,
+            orderStatus: schema.orders.status,
+            discountAmount: schema.promoCodeRedemptions.discountAmount,
+            orderTotal: schema.promoCodeRedemptions.orderTotal,
+            createdAt: schema.promoCodeRedemptions.createdAt,
+        }).from(schema.promoCodeRedemptions)
+            .innerJoin(schema.promoCodes, eq(schema.promoCodeRedemptions.promoCodeId, schema.promoCodes.id))
+            .innerJoin(schema.discounts, eq(schema.promoCodeRedemptions.discountId, schema.discounts.id))
+            .innerJoin(schema.customers, eq(schema.promoCodeRedemptions.customerId, schema.customers.id))
+            .innerJoin(schema.orders, eq(schema.promoCodeRedemptions.orderId, schema.orders.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.promoCodeRedemptions.createdAt))
+            .limit(filters.limit).offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.promoCodeRedemptions)
+            .where(and(...conditions));
+
+        return { rows, total: Number(count) };
+    }
+
+    /**
+     * Redemptions, customers, discount given and order revenue per campaign
+     * (discount with codes). Cancelled orders are left out.
+     */
+    async campaignReport(tenantId: string, filters: { from?: string; to?: string }): Promise<CampaignReportRow[]> {
+        const conditions = this.redemptionConditions(tenantId, filters);
+
+        const usage = await db.select({
+            discountId: schema.promoCodeRedemptions.discountId,
+            redemptions: sql<number>`count(*)`,
+            customers: sql<number>`count(DISTINCT ${schema.promoCodeRedemptions.customerId})`,
+            discountAmount: sql<string>`COALESCE(SUM(${schema.promoCodeRedemptions.discountAmount}), 0)`,
+            revenue: sql<string>`COALESCE(SUM(${schema.promoCodeRedemptions.orderTotal}), 0)`,
+        }).from(schema.promoCodeRedemptions)
+            .innerJoin(schema.orders, eq(schema.promoCodeRedemptions.orderId, schema.orders.id))
+            .where(and(...conditions, activeRedemption))
+            .groupBy(schema.promoCodeRedemptions.discountId);
+
+        const campaigns = await db.select({
+            discountId: schema.promoCodes.discountId,
+            discountName: schema.discounts.name,
+            codes: sql<number>`count(*)`,
+        }).from(schema.promoCodes)
+            .innerJoin(schema.discounts, eq(schema.promoCodes.discountId, schema.discounts.id))
+            .where(eq(schema.promoCodes.tenantId, tenantId))
+            .groupBy(schema.promoCodes.discountId, schema.discounts.name);
+
+        const usageMap = new Map(usage.map(row => [row.discountId, row]));
+        return campaigns
+            .map(campaign => {
+                const used = usageMap.get(campaign.discountId);
+                return {
+                    discountId: campaign.discountId,
+                    discountName: campaign.discountName,
+                    codes: Number(campaign.codes),
+                    redemptions: Number(used?.redemptions ?? 0),
+                    customers: Number(used?.customers ?? 0),
+                    discountAmount: Number(used?.discountAmount ?? 0),
+                    revenue: Number(used?.revenue ?? 0),
+                };
+            })
+            .sort((a, b) => b.revenue - a.revenue || a.discountName.localeCompare(b.discountName));
+    }
+
+    // ----------------------------------------------------------------
+    // HELPERS
+    // ----------------------------------------------------------------
+
+    private redemptionConditions(tenantId: string, filters: { discountId?: string; promoCodeId?: string; from?: string; to?: string }) {
+        const conditions: any[] = [eq(schema.promoCodeRedemptions.tenantId, tenantId)];
+        if (filters.discountId) conditions.push(eq(schema.promoCodeRedemptions.discountId, filters.discountId));
+        if (filters.promoCodeId) conditions.push(eq(schema.promoCodeRedemptions.promoCodeId, filters.promoCodeId));
+        if (filters.from) conditions.push(sql`${schema.promoCodeRedemptions.createdAt}::date >= ${filters.from}`);
+        if (filters.to) conditions.push(sql`${schema.promoCodeRedemptions.createdAt}::date <= ${filters.to}`);
+        return conditions;
+    }
+}
+
+export const promoCodeService = new PromoCodeService();
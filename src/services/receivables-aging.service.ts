@@ -0,0 +1,400 @@
+/**
+ * ReceivablesAgingService - Accounts receivable aging and collections
+ *
+ * Every delivered order with an amount still due is an open item. It falls
+ * due the customer's tier payment terms after delivery, and is bucketed by
+ * days past that date. Customers with overdue items make up the collection
+ * worklist, which turns into planned visits for their sales reps.
+ */
+
+import * as XLSX from 'xlsx';
+import { db, schema } from '../db';
+import { eq, and, sql, asc, inArray, isNotNull, notInArray, gte } from 'drizzle-orm';
+import { getTenantDayRange } from '../lib/tenant-time';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days1to30', 'days31to60', 'days61to90', 'over90'];
+
+export interface AgingFilters {
+    territoryId?: string;
+    salesRepId?: string;
+    tierId?: string;
+    customerId?: string;
+    // Day the ages are counted to (YYYY-MM-DD), today by default
+    asOf?: string;
+}
+
+export interface AgingItem {
+    orderId: string;
+    orderNumber: string;
+    invoiceId: string | null;
+    invoiceNumber: string | null;
+    deliveredAt: Date;
+    dueDate: string;
+    daysOverdue: number;
+    bucket: AgingBucket;
+    totalAmount: number;
+    paidAmount: number;
+    amountDue: number;
+}
+
+export type AgingTotals = Record<AgingBucket, number> & { total: number };
+
+export interface AgingRow extends AgingTotals {
+    customerId: string;
+    customerName: string;
+    customerCode: string | null;
+    phone: string | null;
+    territoryId: string | null;
+    territoryName: string | null;
+    salesRepId: string | null;
+    salesRepName: string | null;
+    tierId: string | null;
+    tierName: string | null;
+    paymentTermsDays: number;
+    openItems: number;
+    maxDaysOverdue: number;
+}
+
+export interface AgingReport {
+    asOf: string;
+    rows: AgingRow[];
+    summary: AgingTotals & { customers: number };
+}
+
+export interface WorklistRow extends AgingRow {
+    overdueAmount: number;
+    nextVisitDate: string | null;
+}
+
+export interface AssignCollectionsInput {
+    plannedDate: string;
+    customerIds?: string[];
+    // Sends this rep to every customer instead of their own
+    assignTo?: string;
+    minDaysOverdue?: number;
+    filters?: AgingFilters;
+}
+
+export interface AssignCollectionsResult {
+    created: { visitId: string; customerId: string; customerName: string; salesRepId: string; overdueAmount: number }[];
+    skipped: { customerId: string; customerName: string; reason: string }[];
+}
+
+// Orders that no longer carry a receivable
+const CLOSED_STATUSES = ['cancelled', 'returned'];
+
+// Visits that still lie ahead
+const UPCOMING_VISIT_STATUSES = ['planned', 'in_progress'];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const bucketFor = (daysOverdue: number): AgingBucket =>
+    daysOverdue <= 0 ? 'current'
+        : daysOverdue <= 30 ? 'days1to30'
+            : daysOverdue <= 60 ? 'days31to60'
+                : daysOverdue <= 90 ? 'days61to90'
+                    : 'over90';
+
+const emptyTotals = (): AgingTotals => ({ current: 0, days1to30: 0, days31to60: 0, days61to90: 0, over90: 0, total: 0 });
+
+const daysBetween = (from: string, to: string) =>
+    Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class ReceivablesAgingService {
+    /**
+     * Aging per customer. A null tenant covers all tenants (super admin).
+     */
+    async getAging(tenantId: string | null, filters: AgingFilters = {}): Promise<AgingReport> {
+        const asOf = await this.resolveAsOf(tenantId, filters.asOf);
+        return this.summarize(await this.loadOpenItems(tenantId, filters, asOf), asOf);
+    }
+
+    /**
+     * Open items of one customer, oldest due date first.
+     */
+    async getCustomerItems(tenantId: string, customerId: string, asOf?: string): Promise<{ asOf: string; items: AgingItem[] }> {
+        const [customer] = await db.select({ id: schema.customers.id }).from(schema.customers)
+            .where(and(eq(schema.customers.id, customerId), eq(schema.customers.tenantId, tenantId))).limit(1);
+        if (!customer) throw new Error('Customer not found');
+
+        const day = await this.resolveAsOf(tenantId, asOf);
+        const openItems = await this.loadOpenItems(tenantId, { customerId }, day);
+        return { asOf: day, items: openItems.map(({ item }) => item) };
+    }
+
+    // ----------------------------------------------------------------
+    // COLLECTIONS
+    // ----------------------------------------------------------------
+
+    /**
+     * Customers with items at least `minDaysOverdue` days past due, most
+     * overdue first, with their next planned visit if any.
+     */
+    async getWorklist(tenantId: string, filters: AgingFilters = {}, minDaysOverdue = 1): Promise<WorklistRow[]> {
+        const { rows } = await this.getAging(tenantId, filters);
+        const overdue = rows.filter(row => row.maxDaysOverdue >= minDaysOverdue);
+        if (overdue.length === 0) return [];
+
+        const today = (await getTenantDayRange(tenantId)).todayStr;
+        const nextVisits = await this.nextVisitDates(tenantId, overdue.map(row => row.customerId), today);
+
+        return overdue
+            .map(row => ({
+                ...row,
+                overdueAmount: round2(row.total - row.current),
+                nextVisitDate: nextVisits.get(row.customerId) ?? null,
+            }))
+            .sort((a, b) => b.maxDaysOverdue - a.maxDaysOverdue || b.overdueAmount - a.overdueAmount);
+    }
+
+    /**
+     * Plans a collection visit for each worklist customer (or the chosen
+     * ones) with their assigned rep. Customers who already have a visit
+     * coming up, or no rep to send, are skipped.
+     */
+    async assignCollectionVisits(tenantId: string, input: AssignCollectionsInput): Promise<AssignCollectionsResult> {
+        const { todayStr } = await getTenantDayRange(tenantId);
+        if (input.plannedDate < todayStr) throw new Error('Planned date cannot be in the past');
+
+        if (input.assignTo) {
+            const [rep] = await db.select({ id: schema.users.id }).from(schema.users)
+                .where(and(eq(schema.users.id, input.assignTo), eq(schema.users.tenantId, tenantId), eq(schema.users.role, 'sales_rep')))
+                .limit(1);
+            if (!rep) throw new Error('Sales rep not found');
+        }
+
+        let worklist = await this.getWorklist(tenantId, input.filters, input.minDaysOverdue ?? 1);
+        if (input.customerIds) {
+            const chosen = new Set(input.customerIds);
+            worklist = worklist.filter(row => chosen.has(row.customerId));
+        }
+
+        const result: AssignCollectionsResult = { created: [], skipped: [] };
+        await db.transaction(async (tx) => {
+            for (const row of worklist) {
+                const salesRepId = input.assignTo ?? row.salesRepId;
+                if (!salesRepId) {
+                    result.skipped.push({ customerId: row.customerId, customerName: row.customerName, reason: 'No sales rep assigned' });
+                    continue;
+                }
+                if (row.nextVisitDate) {
+                    result.skipped.push({ customerId: row.customerId, customerName: row.customerName, reason: `Visit already planned for ${row.nextVisitDate}` });
+                    continue;
+                }
+
+                const [visit] = await tx.insert(schema.salesVisits).values({
+                    tenantId,
+                    customerId: row.customerId,
+                    salesRepId,
+                    visitType: 'scheduled',
+                    status: 'planned',
+                    plannedDate: input.plannedDate,
+                    notes: `Collection: ${row.overdueAmount.toFixed(2)} overdue, oldest ${row.maxDaysOverdue} days past due (assigned by finance)`,
+                }).returning({ id: schema.salesVisits.id });
+
+                result.created.push({
+                    visitId: visit.id,
+                    customerId: row.customerId,
+                    customerName: row.customerName,
+                    salesRepId,
+                    overdueAmount: row.overdueAmount,
+                });
+            }
+        });
+
+        return result;
+    }
+
+    // ----------------------------------------------------------------
+    // EXPORT
+    // ----------------------------------------------------------------
+
+    /**
+     * Workbook with the per-customer summary and every open item.
+     */
+    async exportXlsx(tenantId: string | null, filters: AgingFilters = {}): Promise<Buffer> {
+        const asOf = await this.resolveAsOf(tenantId, filters.asOf);
+        const items = await this.loadOpenItems(tenantId, filters, asOf);
+        const report = this.summarize(items, asOf);
+
+        const summarySheet = XLSX.utils.json_to_sheet(report.rows.map(row => ({
+            'Customer': row.customerName,
+            'Code': row.customerCode ?? '',
+            'Territory': row.territoryName ?? '',
+            'Sales Rep': row.salesRepName ?? '',
+            'Tier': row.tierName ?? '',
+            'Terms (days)': row.paymentTermsDays,
+            'Current': row.current,
+            '1-30': row.days1to30,
+            '31-60': row.days31to60,
+            '61-90': row.days61to90,
+            '90+': row.over90,
+            'Total': row.total,
+            'Max Days Overdue': row.maxDaysOverdue,
+        })));
+        XLSX.utils.sheet_add_json(summarySheet, [{
+            'Customer': 'TOTAL',
+            'Current': report.summary.current,
+            '1-30': report.summary.days1to30,
+            '31-60': report.summary.days31to60,
+            '61-90': report.summary.days61to90,
+            '90+': report.summary.over90,
+            'Total': report.summary.total,
+        }], { skipHeader: true, origin: -1 });
+
+        const itemsSheet = XLSX.utils.json_to_sheet(items.map(({ customer, item }) => ({
+            'Customer': customer.customerName,
+            'Order': item.orderNumber,
+            'Invoice': item.invoiceNumber ?? '',
+            'Delivered': item.deliveredAt.toISOString().slice(0, 10),
+            'Due Date': item.dueDate,
+            'Days Overdue': Math.max(0, item.daysOverdue),
+            'Order Total': item.totalAmount,
+            'Paid': item.paidAmount,
+            'Amount Due': item.amountDue,
+        })));
+
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, summarySheet, `Aging ${report.asOf}`);
+        XLSX.utils.book_append_sheet(workbook, itemsSheet, 'Open Items');
+        return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+    }
+
+    // ----------------------------------------------------------------
+    // HELPERS
+    // ----------------------------------------------------------------
+
+    private summarize(openItems: Awaited<ReturnType<ReceivablesAgingService['loadOpenItems']>>, asOf: string): AgingReport {
+        const byCustomer = new Map<string, AgingRow>();
+        for (const { customer, item } of openItems) {
+            let row = byCustomer.get(customer.customerId);
+            if (!row) {
+                row = { ...customer, ...emptyTotals(), openItems: 0, maxDaysOverdue: 0 };
+                byCustomer.set(customer.customerId, row);
+            }
+            row[item.bucket] = round2(row[item.bucket] + item.amountDue);
+            row.total = round2(row.total + item.amountDue);
+            row.openItems += 1;
+            row.maxDaysOverdue = Math.max(row.maxDaysOverdue, item.daysOverdue);
+        }
+
+        const rows = [...byCustomer.values()].sort((a, b) => b.total - a.total);
+        const summary = { ...emptyTotals(), customers: rows.length };
+        for (const row of rows) {
+            for (const bucket of AGING_BUCKETS) summary[bucket] = round2(summary[bucket] + row[bucket]);
+            summary.total = round2(summary.total + row.total);
+        }
+
+        return { asOf, rows, summary };
+    }
+
+    private async resolveAsOf(tenantId: string | null, asOf?: string) {
+        if (asOf) return asOf;
+        return tenantId ? (await getTenantDayRange(tenantId)).todayStr : new Date().toISOString().slice(0, 10);
+    }
+
+    private async loadOpenItems(tenantId: string | null, filters: AgingFilters, asOf: string) {
+        const conditions = [
+            tenantId ? eq(schema.orders.tenantId, tenantId) : sql`true`,
+            isNotNull(schema.orders.deliveredAt),
+            notInArray(schema.orders.status, CLOSED_STATUSES as any),
+            sql`${schema.orders.totalAmount} - COALESCE(${schema.orders.paidAmount}, 0) > 0`,
+        ];
+        if (filters.territoryId) conditions.push(eq(schema.customers.territoryId, filters.territoryId));
+        if (filters.salesRepId) conditions.push(eq(schema.customers.assignedSalesRepId, filters.salesRepId));
+        if (filters.tierId) conditions.push(eq(schema.customers.tierId, filters.tierId));
+        if (filters.customerId) conditions.push(eq(schema.orders.customerId, filters.customerId));
+
+        const rows = await db.select({
+            orderId: schema.orders.id,
+            orderNumber: schema.orders.orderNumber,
+            totalAmount: schema.orders.totalAmount,
+            paidAmount: schema.orders.paidAmount,
+            deliveredAt: schema.orders.deliveredAt,
+            invoiceId: schema.invoices.id,
+            invoiceNumber: schema.invoices.invoiceNumber,
+            customerId: schema.customers.id,
+            customerName: schema.customers.name,
+            customerCode: schema.customers.code,
+            phone: schema.customers.phone,
+            territoryId: schema.customers.territoryId,
+            territoryName: schema.territories.name,
+            salesRepId: schema.customers.assignedSalesRepId,
+            salesRepName: schema.users.name,
+            tierId: schema.customers.tierId,
+            tierName: schema.customerTiers.name,
+            paymentTermsDays: schema.customerTiers.paymentTermsDays,
+            // Due date in the order's tenant timezone
+            dueDate: sql<string>`to_char((${schema.orders.deliveredAt} AT TIME ZONE 'UTC' AT TIME ZONE COALESCE(${schema.tenants.timezone}, 'Asia/Tashkent'))::date + COALESCE(${schema.customerTiers.paymentTermsDays}, 0), 'YYYY-MM-DD')`,
+        }).from(schema.orders)
+            .innerJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
+            .innerJoin(schema.tenants, eq(schema.orders.tenantId, schema.tenants.id))
+            .leftJoin(schema.customerTiers, eq(schema.customers.tierId, schema.customerTiers.id))
+            .leftJoin(schema.territories, eq(schema.customers.territoryId, schema.territories.id))
+            .leftJoin(schema.users, eq(schema.customers.assignedSalesRepId, schema.users.id))
+            .leftJoin(schema.invoices, and(eq(schema.invoices.orderId, schema.orders.id), eq(schema.invoices.status, 'issued')))
+            .where(and(...conditions))
+            .orderBy(asc(schema.customers.name), asc(schema.orders.deliveredAt));
+
+        return rows.map(row => {
+            const totalAmount = Number(row.totalAmount);
+            const paidAmount = Number(row.paidAmount ?? 0);
+            const daysOverdue = daysBetween(row.dueDate, asOf);
+            const item: AgingItem = {
+                orderId: row.orderId,
+                orderNumber: row.orderNumber,
+                invoiceId: row.invoiceId,
+                invoiceNumber: row.invoiceNumber,
+                deliveredAt: row.deliveredAt!,
+                dueDate: row.dueDate,
+                daysOverdue,
+                bucket: bucketFor(daysOverdue),
+                totalAmount,
+                paidAmount,
+                amountDue: round2(totalAmount - paidAmount),
+            };
+            const customer = {
+                customerId: row.customerId,
+                customerName: row.customerName,
+                customerCode: row.customerCode,
+                phone: row.phone,
+                territoryId: row.territoryId,
+                territoryName: row.territoryName,
+                salesRepId: row.salesRepId,
+                salesRepName: row.salesRepName,
+                tierId: row.tierId,
+                tierName: row.tierName,
+                paymentTermsDays: row.paymentTermsDays ?? 0,
+            };
+            return { customer, item };
+        });
+    }
+
+    private async nextVisitDates(tenantId: string, customerIds: string[], from: string): Promise<Map<string, string>> {
+        const visits = await db.select({
+            customerId: schema.salesVisits.customerId,
+            plannedDate: sql<string>`MIN(${schema.salesVisits.plannedDate})`,
+        }).from(schema.salesVisits)
+            .where(and(
+                eq(schema.salesVisits.tenantId, tenantId),
+                inArray(schema.salesVisits.customerId, customerIds),
+                inArray(schema.salesVisits.status, UPCOMING_VISIT_STATUSES as any),
+                gte(schema.salesVisits.plannedDate, from)
+            ))
+            .groupBy(schema.salesVisits.customerId);
+
+        return new Map(visits.map(visit => [visit.customerId, String(visit.plannedDate)]));
+    }
+}
+
+export const receivablesAgingService = new ReceivablesAgingService();
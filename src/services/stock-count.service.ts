@@ -0,0 +1,226 @@
+/**
+ * StockCountService - Physical stock counts (full, category, bin, ABC cycle)
+ *
+ * A count snapshots the expected on-hand quantity when it is opened. On
+ * approval the variance (counted - expected) is applied to the current
+ * balance, so stock that moved while the count was running is not lost.
+ */
+
+import crypto from 'crypto';
+import { schema } from '../db';
+import { eq, and, sql, inArray, notInArray, gte } from 'drizzle-orm';
+import { stockService } from './stock.service';
+import { generalLedgerService } from './general-ledger.service';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CountScope = 'full' | 'category' | 'bin' | 'cycle';
+export type AbcClass = 'A' | 'B' | 'C';
+
+export interface CountScopeParams {
+    tenantId: string;
+    warehouseId: string;
+    scope: CountScope;
+    categoryId?: string;
+    binId?: string;
+    abcClass?: AbcClass;
+    /** Max products in a cycle count */
+    limit?: number;
+}
+
+export interface CountLine {
+    productId: string;
+    binId: string | null;
+    expectedQty: number;
+}
+
+// Cumulative share of sales value that closes the A and B classes
+const ABC_A_SHARE = 0.8;
+const ABC_B_SHARE = 0.95;
+const ABC_SALES_DAYS = 90;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class StockCountService {
+    /**
+     * Classifies active products by sales value over the last 90 days:
+     * A = top 80% of value, B = next 15%, C = the rest (including no sales).
+     */
+    async getAbcClasses(tx: any, tenantId: string): Promise<Map<string, AbcClass>> {
+        const since = new Date();
+        since.setDate(since.getDate() - ABC_SALES_DAYS);
+
+        const sales: { productId: string; value: string | null }[] = await tx
+            .select({
+                productId: schema.orderItems.productId,
+                value: sql<string>`SUM(${schema.orderItems.lineTotal})`,
+            })
+            .from(schema.orderItems)
+            .innerJoin(schema.orders, eq(schema.orderItems.orderId, schema.orders.id))
+            .where(and(
+                eq(schema.orders.tenantId, tenantId),
+                notInArray(schema.orders.status, ['cancelled'] as any),
+                gte(schema.orders.createdAt, since)
+            ))
+            .groupBy(schema.orderItems.productId);
+
+        const products: { id: string }[] = await tx
+            .select({ id: schema.products.id })
+            .from(schema.products)
+            .where(and(eq(schema.products.tenantId, tenantId), eq(schema.products.isActive, true)));
+
+        const ranked = sales
+            .map(s => ({ productId: s.productId, value: Number(s.value || 0) }))
+            .filter(s => s.value > 0)
+            .sort((a, b) => b.value - a.value);
+        const total = ranked.reduce((sum, s) => sum + s.value, 0);
+
+        const classes = new Map<string, AbcClass>();
+        for (const product of products) classes.set(product.id, 'C');
+
+        let cumulative = 0;
+        for (const row of ranked) {
+            if (!classes.has(row.productId)) continue;
+            // Classify by the share reached *before* this product so the top seller is always A
+            const share = total > 0 ? cumulative / total : 1;
+            classes.set(row.productId, share < ABC_A_SHARE ? 'A' : share < ABC_B_SHARE ? 'B' : 'C');
+            cumulative += row.value;
+        }
+        return classes;
+    }
+
+    /**
+     * Picks the products a new count covers and snapshots their expected
+     * quantities in the count's warehouse.
+     */
+    async buildLines(tx: any, params: CountScopeParams): Promise<CountLine[]> {
+        const { tenantId, warehouseId } = params;
+        const conditions: any[] = [
+            eq(schema.products.tenantId, tenantId),
+            eq(schema.products.isActive, true),
+        ];
+
+        if (params.scope === 'category') {
+            if (!params.categoryId) throw new Error('categoryId is required for a category count');
+            conditions.push(sql`${schema.products.subcategoryId} IN (
+                SELECT ${schema.subcategories.id} FROM ${schema.subcategories}
+                WHERE ${schema.subcategories.categoryId} = ${params.categoryId}
+            )`);
+        } else if (params.scope === 'bin') {
+            if (!params.binId) throw new Error('binId is required for a bin count');
+            conditions.push(eq(schema.warehouseStock.defaultBinId, params.binId));
+        } else if (params.scope === 'cycle') {
+            if (!params.abcClass) throw new Error('abcClass is required for a cycle count');
+            const classes = await this.getAbcClasses(tx, tenantId);
+            const inClass = [...classes].filter(([, c]) => c === params.abcClass).map(([id]) => id);
+            if (inClass.length === 0) return [];
+            conditions.push(inArray(schema.products.id, inClass));
+        }
+
+        // Products counted longest ago come first (cycle counts rotate through the class)
+        const lastCounted = sql`(
+            SELECT MAX(${schema.stockCountItems.scannedAt}) FROM ${schema.stockCountItems}
+            INNER JOIN ${schema.stockCounts} ON ${schema.stockCounts.id} = ${schema.stockCountItems.countId}
+            WHERE ${schema.stockCountItems.productId} = ${schema.products.id}
+              AND ${schema.stockCounts.warehouseId} = ${warehouseId}
+              AND ${schema.stockCounts.status} = 'completed'
+        )`;
+
+        let query = tx
+            .select({
+                productId: schema.products.id,
+                binId: schema.warehouseStock.defaultBinId,
+                expectedQty: sql<number>`COALESCE(${schema.warehouseStock.quantity}, 0)`,
+            })
+            .from(schema.products)
+            .leftJoin(schema.warehouseStock, and(
+                eq(schema.warehouseStock.productId, schema.products.id),
+                eq(schema.warehouseStock.warehouseId, warehouseId)
+            ))
+            .where(and(...conditions))
+            .orderBy(sql`${lastCounted} ASC NULLS FIRST`, schema.products.name);
+        if (params.scope === 'cycle') query = query.limit(params.limit || 50);
+
+        const rows: { productId: string; binId: string | null; expectedQty: number }[] = await query;
+        return rows.map(r => ({ productId: r.productId, binId: r.binId, expectedQty: Number(r.expectedQty) }));
+    }
+
+    /**
+     * Posts the variances of a submitted count as 'count' stock adjustments
+     * and marks the count completed. Lines never counted are skipped.
+     */
+    async approve(tx: any, count: { id: string; tenantId: string; name: string; warehouseId: string | null }, approverId: string) {
+        const warehouseId = count.warehouseId || await stockService.getDefaultWarehouseId(tx, count.tenantId);
+        const items: {
+            id: string;
+            productId: string;
+            expectedQty: number;
+            countedQty: number | null;
+            countedByUserId: string | null;
+        }[] = await tx
+            .select({
+                id: schema.stockCountItems.id,
+                productId: schema.stockCountItems.productId,
+                expectedQty: schema.stockCountItems.expectedQty,
+                countedQty: schema.stockCountItems.countedQty,
+                countedByUserId: schema.stockCountItems.countedByUserId,
+            })
+            .from(schema.stockCountItems)
+            .where(eq(schema.stockCountItems.countId, count.id));
+
+        const adjustments: (typeof schema.stockAdjustments.$inferSelect)[] = [];
+        for (const item of items) {
+            if (item.countedQty == null) continue;
+            const variance = item.countedQty - item.expectedQty;
+            if (variance === 0) continue;
+
+            // Id is generated up front so the stock movements can reference the adjustment
+            const adjustmentId = crypto.randomUUID();
+            const { quantityBefore, quantityAfter } = await stockService.adjustQuantity(tx, {
+                tenantId: count.tenantId,
+                warehouseId,
+                productId: item.productId,
+                change: variance,
+                movementType: variance < 0 ? 'out' : 'adjust',
+                referenceType: 'adjustment',
+                referenceId: adjustmentId,
+                createdBy: approverId,
+                notes: `Stock count: ${count.name}`,
+            });
+
+            const [adjustment] = await tx.insert(schema.stockAdjustments).values({
+                id: adjustmentId,
+                tenantId: count.tenantId,
+                adjustmentNumber: `CNT-${Date.now()}-${adjustments.length}`,
+                productId: item.productId,
+                warehouseId,
+                adjustmentType: 'count',
+                qtyBefore: quantityBefore,
+                qtyAfter: quantityAfter,
+                reason: `Stock count: ${count.name} (expected ${item.expectedQty}, counted ${item.countedQty})`,
+                createdBy: item.countedByUserId || approverId,
+                approvedBy: approverId,
+            }).returning();
+
+            await generalLedgerService.postStockAdjustment(tx, adjustment, approverId);
+
+            await tx.update(schema.stockCountItems)
+                .set({ adjustmentId: adjustment.id, variance })
+                .where(eq(schema.stockCountItems.id, item.id));
+
+            adjustments.push(adjustment);
+        }
+
+        await tx.update(schema.stockCounts)
+            .set({ status: 'completed', approvedByUserId: approverId, completedAt: new Date() })
+            .where(eq(schema.stockCounts.id, count.id));
+
+        return adjustments;
+    }
+}
+
+export const stockCountService = new StockCountService();
@@ -0,0 +1,454 @@
+/**
+ * StockService - Warehouse-aware stock bookkeeping
+ *
+ * Every on-hand or reservation change goes through this service so that the
+ * per-warehouse balances (warehouse_stock) and the tenant-wide totals kept on
+ * products.stockQuantity / products.reservedQuantity never drift apart.
+ * Lot balances (stock_lots) are maintained here as well.
+ */
+
+import { schema } from '../db';
+import { eq, and, asc, desc, sql, inArray } from 'drizzle-orm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StockLine {
+    productId: string;
+    quantity: number;
+}
+
+export interface WarehouseBalance {
+    quantity: number;
+    reservedQuantity: number;
+    available: number;
+}
+
+export interface LotInput {
+    lotNumber: string;
+    expiryDate?: string | null;
+    purchaseOrderId?: string;
+}
+
+export interface LotSlice {
+    lotId: string;
+    lotNumber: string;
+    expiryDate: string | null;
+    quantity: number;
+}
+
+export interface AdjustQuantityParams {
+    tenantId: string;
+    warehouseId: string;
+    productId: string;
+    /** Signed change in on-hand quantity */
+    change: number;
+    movementType: 'in' | 'out' | 'adjust' | 'return';
+    referenceType?: 'purchase_order' | 'order' | 'return' | 'adjustment' | 'initial' | 'transfer';
+    referenceId?: string;
+    notes?: string;
+    createdBy?: string;
+    /** Lot to book incoming stock into. Outgoing stock always drains lots FEFO. */
+    lot?: LotInput;
+}
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class StockService {
+    // --------------------------------------------------------------------------
+    // WAREHOUSE RESOLUTION
+    // --------------------------------------------------------------------------
+
+    /**
+     * Returns the tenant's default warehouse, falling back to the oldest active
+     * one. Tenants that have never configured a warehouse get a "Main" warehouse
+     * created on first use so existing single-location flows keep working.
+     */
+    async getDefaultWarehouseId(tx: any, tenantId: string): Promise<string> {
+        const [warehouse] = await tx
+            .select({ id: schema.warehouses.id })
+            .from(schema.warehouses)
+            .where(and(
+                eq(schema.warehouses.tenantId, tenantId),
+                eq(schema.warehouses.isActive, true)
+            ))
+            .orderBy(desc(schema.warehouses.isDefault), asc(schema.warehouses.createdAt))
+            .limit(1);
+
+        if (warehouse) return warehouse.id;
+
+        const [created] = await tx
+            .insert(schema.warehouses)
+            .values({ tenantId, name: 'Main Warehouse', code: 'MAIN', isDefault: true })
+            .onConflictDoNothing()
+            .returning({ id: schema.warehouses.id });
+
+        if (created) return created.id;
+
+        // Lost a race with a concurrent request - read the row it created
+        const [existing] = await tx
+            .select({ id: schema.warehouses.id })
+            .from(schema.warehouses)
+            .where(and(eq(schema.warehouses.tenantId, tenantId), eq(schema.warehouses.code, 'MAIN')))
+            .limit(1);
+        return existing.id;
+    }
+
+    /**
+     * Validates an explicitly chosen warehouse or falls back to the default.
+     * Throws 'Warehouse not found' when the id does not belong to the tenant.
+     */
+    async resolveWarehouseId(tx: any, tenantId: string, warehouseId?: string | null): Promise<string> {
+        if (!warehouseId) return this.getDefaultWarehouseId(tx, tenantId);
+
+        const [warehouse] = await tx
+            .select({ id: schema.warehouses.id })
+            .from(schema.warehouses)
+            .where(and(
+                eq(schema.warehouses.id, warehouseId),
+                eq(schema.warehouses.tenantId, tenantId),
+                eq(schema.warehouses.isActive, true)
+            ))
+            .limit(1);
+
+        if (!warehouse) throw new Error('Warehouse not found');
+        return warehouse.id;
+    }
+
+    // --------------------------------------------------------------------------
+    // BALANCES
+    // --------------------------------------------------------------------------
+
+    /**
+     * Makes sure a warehouse_stock row exists for each product.
+     */
+    private async ensureRows(tx: any, tenantId: string, warehouseId: string, productIds: string[]): Promise<void> {
+        if (productIds.length === 0) return;
+        await tx
+            .insert(schema.warehouseStock)
+            .values(productIds.map(productId => ({ tenantId, warehouseId, productId })))
+            .onConflictDoNothing();
+    }
+
+    /**
+     * Loads balances for the given products in one warehouse.
+     * Pass lock=true inside a transaction that is about to modify them.
+     */
+    async getBalances(
+        tx: any,
+        warehouseId: string,
+        productIds: string[],
+        lock = false
+    ): Promise<Map<string, WarehouseBalance>> {
+        const balances = new Map<string, WarehouseBalance>();
+        if (productIds.length === 0) return balances;
+
+        let query = tx
+            .select({
+                productId: schema.warehouseStock.productId,
+                quantity: schema.warehouseStock.quantity,
+                reservedQuantity: schema.warehouseStock.reservedQuantity,
+            })
+            .from(schema.warehouseStock)
+            .where(and(
+                eq(schema.warehouseStock.warehouseId, warehouseId),
+                inArray(schema.warehouseStock.productId, productIds)
+            ));
+        if (lock) query = query.for('update');
+
+        const rows: { productId: string; quantity: number; reservedQuantity: number }[] = await query;
+        for (const row of rows) {
+            balances.set(row.productId, {
+                quantity: row.quantity,
+                reservedQuantity: row.reservedQuantity,
+                available: row.quantity - row.reservedQuantity,
+            });
+        }
+        for (const productId of productIds) {
+            if (!balances.has(productId)) {
+                balances.set(productId, { quantity: 0, reservedQuantity: 0, available: 0 });
+            }
+        }
+        return balances;
+    }
+
+    // --------------------------------------------------------------------------
+    // RESERVATIONS
+    // --------------------------------------------------------------------------
+
+    /**
+     * Reserves stock in a warehouse (and in the product-level totals).
+     */
+    async reserve(tx: any, tenantId: string, warehouseId: string, items: StockLine[]): Promise<void> {
+        await this.ensureRows(tx, tenantId, warehouseId, items.map(i => i.productId));
+        for (const item of items) {
+            await tx
+                .update(schema.warehouseStock)
+                .set({
+                    reservedQuantity: sql`${schema.warehouseStock.reservedQuantity} + ${item.quantity}`,
+                    updatedAt: new Date(),
+                })
+                .where(and(
+                    eq(schema.warehouseStock.tenantId, tenantId),
+                    eq(schema.warehouseStock.warehouseId, warehouseId),
+                    eq(schema.warehouseStock.productId, item.productId)
+                ));
+            await tx
+                .update(schema.products)
+                .set({
+                    reservedQuantity: sql`COALESCE(${schema.products.reservedQuantity}, 0) + ${item.quantity}`,
+                })
+                .where(eq(schema.products.id, item.productId));
+        }
+    }
+
+    /**
+     * Releases previously reserved stock. Never drives a reservation below zero.
+     */
+    async release(tx: any, tenantId: string, warehouseId: string, items: StockLine[]): Promise<void> {
+        for (const item of items) {
+            await tx
+                .update(schema.warehouseStock)
+                .set({
+                    reservedQuantity: sql`GREATEST(0, ${schema.warehouseStock.reservedQuantity} - ${item.quantity})`,
+                    updatedAt: new Date(),
+                })
+                .where(and(
+                    eq(schema.warehouseStock.tenantId, tenantId),
+                    eq(schema.warehouseStock.warehouseId, warehouseId),
+                    eq(schema.warehouseStock.productId, item.productId)
+                ));
+            await tx
+                .update(schema.products)
+                .set({
+                    reservedQuantity: sql`GREATEST(0, COALESCE(${schema.products.reservedQuantity}, 0) - ${item.quantity})`,
+                })
+                .where(eq(schema.products.id, item.productId));
+        }
+    }
+
+    /**
+     * Releases the reservation held by an order in whichever warehouse it was
+     * placed against (orders created before warehouses existed use the default).
+     */
+    async releaseOrder(
+        tx: any,
+        order: { tenantId: string; warehouseId: string | null },
+        items: StockLine[]
+    ): Promise<void> {
+        const warehouseId = order.warehouseId || await this.getDefaultWarehouseId(tx, order.tenantId);
+        await this.release(tx, order.tenantId, warehouseId, items);
+    }
+
+    // --------------------------------------------------------------------------
+    // LOTS
+    // --------------------------------------------------------------------------
+
+    /**
+     * Lots of a product in one warehouse with stock left, in first-expiry-
+     * first-out order (no expiry last, then oldest receipt first).
+     */
+    async getLots(tx: any, warehouseId: string, productId: string, lock = false) {
+        let query = tx
+            .select({
+                id: schema.stockLots.id,
+                lotNumber: schema.stockLots.lotNumber,
+                expiryDate: schema.stockLots.expiryDate,
+                quantity: schema.stockLots.quantity,
+                receivedAt: schema.stockLots.receivedAt,
+            })
+            .from(schema.stockLots)
+            .where(and(
+                eq(schema.stockLots.warehouseId, warehouseId),
+                eq(schema.stockLots.productId, productId),
+                sql`${schema.stockLots.quantity} > 0`
+            ))
+            .orderBy(sql`${schema.stockLots.expiryDate} ASC NULLS LAST`, asc(schema.stockLots.receivedAt));
+        if (lock) query = query.for('update');
+
+        const rows: { id: string; lotNumber: string; expiryDate: string | null; quantity: number; receivedAt: Date | null }[] = await query;
+        return rows;
+    }
+
+    /**
+     * Lots with stock left that expire within `days` days (already expired
+     * lots included), soonest first.
+     */
+    async getNearExpiryLots(tx: any, tenantId: string, days: number, warehouseId?: string) {
+        const rows: {
+            lotId: string;
+            lotNumber: string;
+            expiryDate: string;
+            quantity: number;
+            daysLeft: number;
+            productId: string;
+            productName: string;
+            sku: string;
+            costPrice: string | null;
+            warehouseId: string;
+            warehouseName: string;
+        }[] = await tx
+            .select({
+                lotId: schema.stockLots.id,
+                lotNumber: schema.stockLots.lotNumber,
+                expiryDate: schema.stockLots.expiryDate,
+                quantity: schema.stockLots.quantity,
+                daysLeft: sql<number>`(${schema.stockLots.expiryDate} - CURRENT_DATE)::int`,
+                productId: schema.products.id,
+                productName: schema.products.name,
+                sku: schema.products.sku,
+                costPrice: schema.products.costPrice,
+                warehouseId: schema.warehouses.id,
+                warehouseName: schema.warehouses.name,
+            })
+            .from(schema.stockLots)
+            .innerJoin(schema.products, eq(schema.stockLots.productId, schema.products.id))
+            .innerJoin(schema.warehouses, eq(schema.stockLots.warehouseId, schema.warehouses.id))
+            .where(and(
+                eq(schema.stockLots.tenantId, tenantId),
+                sql`${schema.stockLots.quantity} > 0`,
+                sql`${schema.stockLots.expiryDate} <= CURRENT_DATE + ${days}::int`,
+                warehouseId ? eq(schema.stockLots.warehouseId, warehouseId) : sql`true`
+            ))
+            .orderBy(asc(schema.stockLots.expiryDate), asc(schema.products.name));
+        return rows;
+    }
+
+    /**
+     * Adds quantity to a lot, creating it on first receipt.
+     */
+    private async bookIntoLot(tx: any, tenantId: string, warehouseId: string, productId: string, lot: LotInput, quantity: number): Promise<LotSlice> {
+        const [row] = await tx
+            .insert(schema.stockLots)
+            .values({
+                tenantId,
+                warehouseId,
+                productId,
+                lotNumber: lot.lotNumber,
+                expiryDate: lot.expiryDate || null,
+                quantity,
+                purchaseOrderId: lot.purchaseOrderId,
+            })
+            .onConflictDoUpdate({
+                target: [schema.stockLots.warehouseId, schema.stockLots.productId, schema.stockLots.lotNumber],
+                set: {
+                    quantity: sql`${schema.stockLots.quantity} + ${quantity}`,
+                    expiryDate: sql`COALESCE(${schema.stockLots.expiryDate}, EXCLUDED.expiry_date)`,
+                    updatedAt: new Date(),
+                },
+            })
+            .returning({ id: schema.stockLots.id, lotNumber: schema.stockLots.lotNumber, expiryDate: schema.stockLots.expiryDate });
+
+        return { lotId: row.id, lotNumber: row.lotNumber, expiryDate: row.expiryDate, quantity };
+    }
+
+    /**
+     * Takes quantity out of a product's lots FEFO. Returns the slices taken;
+     * anything not covered by lots comes from untracked stock.
+     */
+    private async drainLots(tx: any, warehouseId: string, productId: string, quantity: number): Promise<LotSlice[]> {
+        const lots = await this.getLots(tx, warehouseId, productId, true);
+        const slices: LotSlice[] = [];
+        let remaining = quantity;
+
+        for (const lot of lots) {
+            if (remaining <= 0) break;
+            const take = Math.min(lot.quantity, remaining);
+            await tx
+                .update(schema.stockLots)
+                .set({ quantity: lot.quantity - take, updatedAt: new Date() })
+                .where(eq(schema.stockLots.id, lot.id));
+            slices.push({ lotId: lot.id, lotNumber: lot.lotNumber, expiryDate: lot.expiryDate, quantity: take });
+            remaining -= take;
+        }
+
+        return slices;
+    }
+
+    // --------------------------------------------------------------------------
+    // ON-HAND CHANGES
+    // --------------------------------------------------------------------------
+
+    /**
+     * Changes on-hand quantity in one warehouse, keeps the product total in
+     * sync and records stock movements. quantityBefore/After on movements
+     * are warehouse-level figures.
+     *
+     * Incoming stock with `lot` is booked into that lot. Outgoing stock is
+     * taken from lots first-expiry-first-out and then from untracked stock,
+     * with one movement per lot slice so every lot stays traceable. Taking
+     * more than the warehouse holds is refused.
+     */
+    async adjustQuantity(tx: any, params: AdjustQuantityParams) {
+        const { tenantId, warehouseId, productId, change } = params;
+
+        await this.ensureRows(tx, tenantId, warehouseId, [productId]);
+        const balance = (await this.getBalances(tx, warehouseId, [productId], true)).get(productId)!;
+
+        const quantityBefore = balance.quantity;
+        const quantityAfter = quantityBefore + change;
+        if (quantityAfter < 0) {
+            throw new Error(`Insufficient stock in the warehouse. Only ${quantityBefore} on hand.`);
+        }
+
+        await tx
+            .update(schema.warehouseStock)
+            .set({ quantity: quantityAfter, updatedAt: new Date() })
+            .where(and(
+                eq(schema.warehouseStock.warehouseId, warehouseId),
+                eq(schema.warehouseStock.productId, productId)
+            ));
+
+        await tx
+            .update(schema.products)
+            .set({
+                stockQuantity: sql`COALESCE(${schema.products.stockQuantity}, 0) + ${change}`,
+                updatedAt: new Date(),
+            })
+            .where(eq(schema.products.id, productId));
+
+        let lots: LotSlice[] = [];
+        if (change > 0 && params.lot) {
+            lots = [await this.bookIntoLot(tx, tenantId, warehouseId, productId, params.lot, change)];
+        } else if (change < 0) {
+            lots = await this.drainLots(tx, warehouseId, productId, -change);
+        }
+
+        // Split the movement into lot slices plus an untracked remainder
+        const slices: { lotId: string | null; quantity: number }[] = lots.map(l => ({ lotId: l.lotId, quantity: l.quantity }));
+        const untracked = Math.abs(change) - lots.reduce((sum, l) => sum + l.quantity, 0);
+        if (untracked > 0 || slices.length === 0) slices.push({ lotId: null, quantity: untracked });
+
+        const sign = change < 0 ? -1 : 1;
+        let running = quantityBefore;
+        const movements = [];
+        for (const slice of slices) {
+            const [movement] = await tx
+                .insert(schema.stockMovements)
+                .values({
+                    tenantId,
+                    productId,
+                    warehouseId,
+                    lotId: slice.lotId,
+                    movementType: params.movementType,
+                    quantity: slice.quantity,
+                    quantityBefore: running,
+                    quantityAfter: running + sign * slice.quantity,
+                    referenceType: params.referenceType,
+                    referenceId: params.referenceId,
+                    notes: params.notes,
+                    createdBy: params.createdBy,
+                })
+                .returning();
+            movements.push(movement);
+            running += sign * slice.quantity;
+        }
+
+        return { quantityBefore, quantityAfter, movements, lots };
+    }
+}
+
+export const stockService = new StockService();
@@ -0,0 +1,501 @@
+/**
+ * SupplierPayablesService - Accounts payable per supplier
+ *
+ * Receiving goods against a purchase order creates a supplier bill for the
+ * received units not billed yet, at the PO price. Supplier payments are
+ * allocated to open bills (the payment's PO first, then oldest first, or as
+ * the user chooses), which keeps each bill's and each PO's paidAmount in step
+ * with the money paid. suppliers.balance is what the tenant owes: bills raise
+ * it, payments lower it. A payment made before the goods arrive stays
+ * unallocated and is applied to the PO's bill once it exists.
+ *
+ * Bills carry the PO's currency and payments their own, each with its rate
+ * to the base currency on its date; the balance and the ledger are kept in
+ * the base currency. A payment only settles bills in its currency, and the
+ * difference between the two rates is the realized FX gain or loss.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, sql, asc, desc, gt, type SQL } from 'drizzle-orm';
+import { nextDocumentNumber } from '../lib/document-numbers';
+import { getTenantLocalDate } from '../lib/tenant-time';
+import { generalLedgerService } from './general-ledger.service';
+import { exchangeRateService } from './exchange-rate.service';
+import { AllocationError } from '../errors';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface BillAllocationInput {
+    billId: string;
+    amount: number;
+}
+
+export interface BillAllocation {
+    billId: string;
+    billNumber: string;
+    amount: number;
+    fxGainLoss: number;
+}
+
+export interface SupplierPaymentSource {
+    id: string;
+    tenantId: string;
+    supplierId: string;
+    paymentNumber: string;
+    amount: string | number;
+    currency: string;
+    exchangeRate: string | number;
+    purchaseOrderId?: string | null;
+}
+
+export interface BillListFilters {
+    supplierId?: string;
+    purchaseOrderId?: string;
+    status?: string;
+    page: number;
+    limit: number;
+}
+
+export interface SupplierAgingRow {
+    supplierId: string;
+    supplierName: string;
+    openBills: number;
+    current: number;   // 0-30 days since the bill date
+    days31to60: number;
+    days61to90: number;
+    over90: number;
+    total: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const billStatusFor = (paid: number, total: number) =>
+    paid <= 0 ? 'open' as const : paid >= total ? 'paid' as const : 'partial' as const;
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class SupplierPayablesService {
+    // ----------------------------------------------------------------
+    // BILLS
+    // ----------------------------------------------------------------
+
+    /**
+     * Bills the PO's received but unbilled units. Returns null when there is
+     * nothing new to bill, so it is safe to call on every receiving update.
+     */
+    async billReceived(tx: any, purchaseOrderId: string, userId?: string) {
+        const [po] = await tx.select().from(schema.purchaseOrders)
+            .where(eq(schema.purchaseOrders.id, purchaseOrderId))
+            .for('update').limit(1);
+        if (!po) throw new Error('Purchase order not found');
+
+        const items: { id: string; productId: string; qtyOrdered: number; qtyReceived: number | null; qtyBilled: number; unitPrice: string; taxAmount: string | null }[] = await tx
+            .select({
+                id: schema.purchaseOrderItems.id,
+                productId: schema.purchaseOrderItems.productId,
+                qtyOrdered: schema.purchaseOrderItems.qtyOrdered,
+                qtyReceived: schema.purchaseOrderItems.qtyReceived,
+                qtyBilled: schema.purchaseOrderItems.qtyBilled,
+                unitPrice: schema.purchaseOrderItems.unitPrice,
+                taxAmount: schema.purchaseOrderItems.taxAmount,
+            })
+            .from(schema.purchaseOrderItems)
+            .where(eq(schema.purchaseOrderItems.purchaseOrderId, purchaseOrderId))
+            .orderBy(asc(schema.purchaseOrderItems.createdAt));
+
+        // Tax of a PO line is billed in proportion to the units received
+        const lines = items
+            .map(item => ({ item, quantity: (item.qtyReceived ?? 0) - item.qtyBilled }))
+            .filter(({ quantity }) => quantity > 0)
+            .map(({ item, quantity }) => {
+                const lineTotal = round2(quantity * Number(item.unitPrice));
+                const taxAmount = item.qtyOrdered > 0
+                    ? round2(Number(item.taxAmount ?? 0) * Math.min(quantity, item.qtyOrdered) / item.qtyOrdered)
+                    : 0;
+                return { item, quantity, lineTotal, taxAmount };
+            });
+        if (lines.length === 0) return null;
+
+        const subtotal = round2(lines.reduce((sum, line) => sum + line.lineTotal, 0));
+        const tax = round2(lines.reduce((sum, line) => sum + line.taxAmount, 0));
+        const total = round2(subtotal + tax);
+
+        const [tenant] = await tx.select({ timezone: schema.tenants.timezone })
+            .from(schema.tenants).where(eq(schema.tenants.id, po.tenantId)).limit(1);
+        const billDate = getTenantLocalDate(tenant?.timezone || 'Asia/Tashkent');
+        const rate = await exchangeRateService.getRate(po.tenantId, po.currency, billDate, tx);
+
+        const [bill] = await tx.insert(schema.supplierBills).values({
+            tenantId: po.tenantId,
+            billNumber: await nextDocumentNumber(tx, po.tenantId, 'bill', 'BILL-'),
+            supplierId: po.supplierId,
+            purchaseOrderId: po.id,
+            currency: po.currency,
+            exchangeRate: String(rate),
+            subtotalAmount: String(subtotal),
+            taxAmount: String(tax),
+            totalAmount: String(total),
+            billDate,
+            createdBy: userId ?? null,
+        }).returning();
+
+        await tx.insert(schema.supplierBillLines).values(lines.map(line => ({
+            billId: bill.id,
+            purchaseOrderItemId: line.item.id,
+            productId: line.item.productId,
+            quantity: line.quantity,
+            unitPrice: line.item.unitPrice,
+            taxAmount: String(line.taxAmount),
+            lineTotal: String(line.lineTotal),
+        })));
+
+        for (const line of lines) {
+            await tx.update(schema.purchaseOrderItems)
+                .set({ qtyBilled: line.item.qtyBilled + line.quantity, updatedAt: new Date() })
+                .where(eq(schema.purchaseOrderItems.id, line.item.id));
+        }
+
+        await tx.update(schema.suppliers)
+            .set({ balance: sql`COALESCE(${schema.suppliers.balance}, 0) + ${round2(total * rate)}`, updatedAt: new Date() })
+            .where(eq(schema.suppliers.id, po.supplierId));
+
+        await generalLedgerService.postSupplierBill(tx, bill, userId);
+
+        // Apply prepayments made against this PO
+        const prepayments: SupplierPaymentSource[] = await tx.select({
+            id: schema.supplierPayments.id,
+            tenantId: schema.supplierPayments.tenantId,
+            supplierId: schema.supplierPayments.supplierId,
+            paymentNumber: schema.supplierPayments.paymentNumber,
+            amount: schema.supplierPayments.amount,
+            currency: schema.supplierPayments.currency,
+            exchangeRate: schema.supplierPayments.exchangeRate,
+            purchaseOrderId: schema.supplierPayments.purchaseOrderId,
+        }).from(schema.supplierPayments)
+            .where(eq(schema.supplierPayments.purchaseOrderId, po.id))
+            .orderBy(asc(schema.supplierPayments.paidAt));
+        for (const payment of prepayments) {
+            await this.allocate(tx, payment, { onlyPurchaseOrder: true, userId });
+        }
+
+        return bill;
+    }
+
+    /**
+     * Bills of the tenant, newest first, with the amount still due.
+     */
+    async listBills(tenantId: string, filters: BillListFilters) {
+        const conditions: any[] = [eq(schema.supplierBills.tenantId, tenantId)];
+        if (filters.supplierId) conditions.push(eq(schema.supplierBills.supplierId, filters.supplierId));
+        if (filters.purchaseOrderId) conditions.push(eq(schema.supplierBills.purchaseOrderId, filters.purchaseOrderId));
+        if (filters.status) conditions.push(eq(schema.supplierBills.status, filters.status as any));
+
+        const rows = await db.select({
+            id: schema.supplierBills.id,
+            billNumber: schema.supplierBills.billNumber,
+            supplierId: schema.supplierBills.supplierId,
+            supplierName: schema.suppliers.name,
+            purchaseOrderId: schema.supplierBills.purchaseOrderId,
+            poNumber: schema.purchaseOrders.poNumber,
+            status: schema.supplierBills.status,
+            currency: schema.supplierBills.currency,
+            exchangeRate: schema.supplierBills.exchangeRate,
+            totalAmount: schema.supplierBills.totalAmount,
+            paidAmount: schema.supplierBills.paidAmount,
+            billDate: schema.supplierBills.billDate,
+            createdAt: schema.supplierBills.createdAt,
+        }).from(schema.supplierBills)
+            .leftJoin(schema.suppliers, eq(schema.supplierBills.supplierId, schema.suppliers.id))
+            .leftJoin(schema.purchaseOrders, eq(schema.supplierBills.purchaseOrderId, schema.purchaseOrders.id))
+            .where(and(...conditions))
+            .orderBy(desc(schema.supplierBills.createdAt))
+            .limit(filters.limit).offset((filters.page - 1) * filters.limit);
+
+        const [{ count }] = await db.select({ count: sql<number>`count(*)` })
+            .from(schema.supplierBills).where(and(...conditions));
+
+        return {
+            rows: rows.map(row => ({ ...row, amountDue: round2(Number(row.totalAmount) - Number(row.paidAmount)) })),
+            total: Number(count),
+        };
+    }
+
+    /**
+     * A bill with its lines and the payments allocated to it.
+     */
+    async getBill(tenantId: string, id: string) {
+        const [bill] = await db.select({
+            id: schema.supplierBills.id,
+            billNumber: schema.supplierBills.billNumber,
+            supplierId: schema.supplierBills.supplierId,
+            supplierName: schema.suppliers.name,
+            purchaseOrderId: schema.supplierBills.purchaseOrderId,
+            poNumber: schema.purchaseOrders.poNumber,
+            status: schema.supplierBills.status,
+            currency: schema.supplierBills.currency,
+            exchangeRate: schema.supplierBills.exchangeRate,
+            subtotalAmount: schema.supplierBills.subtotalAmount,
+            taxAmount: schema.supplierBills.taxAmount,
+            totalAmount: schema.supplierBills.totalAmount,
+            paidAmount: schema.supplierBills.paidAmount,
+            billDate: schema.supplierBills.billDate,
+            createdAt: schema.supplierBills.createdAt,
+        }).from(schema.supplierBills)
+            .leftJoin(schema.suppliers, eq(schema.supplierBills.supplierId, schema.suppliers.id))
+            .leftJoin(schema.purchaseOrders, eq(schema.supplierBills.purchaseOrderId, schema.purchaseOrders.id))
+            .where(and(eq(schema.supplierBills.id, id), eq(schema.supplierBills.tenantId, tenantId)))
+            .limit(1);
+        if (!bill) throw new Error('Bill not found');
+
+        const lines = await db.select({
+            id: schema.supplierBillLines.id,
+            productId: schema.supplierBillLines.productId,
+            productName: schema.products.name,
+            quantity: schema.supplierBillLines.quantity,
+            unitPrice: schema.supplierBillLines.unitPrice,
+            taxAmount: schema.supplierBillLines.taxAmount,
+            lineTotal: schema.supplierBillLines.lineTotal,
+        }).from(schema.supplierBillLines)
+            .leftJoin(schema.products, eq(schema.supplierBillLines.productId, schema.products.id))
+            .where(eq(schema.supplierBillLines.billId, bill.id));
+
+        const payments = await db.select({
+            id: schema.supplierBillAllocations.id,
+            supplierPaymentId: schema.supplierBillAllocations.supplierPaymentId,
+            paymentNumber: schema.supplierPayments.paymentNumber,
+            amount: schema.supplierBillAllocations.amount,
+            fxGainLoss: schema.supplierBillAllocations.fxGainLoss,
+            createdAt: schema.supplierBillAllocations.createdAt,
+        }).from(schema.supplierBillAllocations)
+            .innerJoin(schema.supplierPayments, eq(schema.supplierBillAllocations.supplierPaymentId, schema.supplierPayments.id))
+            .where(eq(schema.supplierBillAllocations.billId, bill.id))
+            .orderBy(asc(schema.supplierBillAllocations.createdAt));
+
+        return { ...bill, amountDue: round2(Number(bill.totalAmount) - Number(bill.paidAmount)), lines, payments };
+    }
+
+    // ----------------------------------------------------------------
+    // PAYMENTS
+    // ----------------------------------------------------------------
+
+    /**
+     * Books a new supplier payment: lowers the supplier's balance and
+     * allocates it to open bills.
+     */
+    async recordPayment(tx: any, payment: SupplierPaymentSource, options: { manual?: BillAllocationInput[]; userId?: string } = {}): Promise<BillAllocation[]> {
+        await tx.update(schema.suppliers)
+            .set({ balance: sql`COALESCE(${schema.suppliers.balance}, 0) - ${round2(Number(payment.amount) * Number(payment.exchangeRate))}`, updatedAt: new Date() })
+            .where(eq(schema.suppliers.id, payment.supplierId));
+
+        return this.allocate(tx, payment, options);
+    }
+
+    /**
+     * Amount of the supplier payment not yet allocated to bills.
+     */
+    async getUnallocated(tx: any, payment: { id: string; amount: string | number }): Promise<number> {
+        const [row] = await tx.select({ allocated: sql<string>`COALESCE(SUM(${schema.supplierBillAllocations.amount}), 0)` })
+            .from(schema.supplierBillAllocations)
+            .where(eq(schema.supplierBillAllocations.supplierPaymentId, payment.id));
+        return round2(Number(payment.amount) - Number(row?.allocated ?? 0));
+    }
+
+    /**
+     * Allocates the unallocated part of a supplier payment. With `manual`
+     * lines the amounts go exactly there; otherwise bills of the payment's
+     * PO are settled first, then the supplier's oldest open bills
+     * (`onlyPurchaseOrder` stops after the PO's bills). Only bills in the
+     * payment's currency qualify. Whatever cannot be allocated stays on the
+     * payment as an advance to the supplier.
+     */
+    async allocate(
+        tx: any,
+        payment: SupplierPaymentSource,
+        options: { manual?: BillAllocationInput[]; onlyPurchaseOrder?: boolean; userId?: string } = {}
+    ): Promise<BillAllocation[]> {
+        let remaining = await this.getUnallocated(tx, payment);
+        if (remaining <= 0) return [];
+
+        const openBills = await this.lockOpenBills(tx, payment.tenantId, payment.supplierId);
+        const outstanding = (bill: typeof openBills[number]) => round2(Number(bill.totalAmount) - Number(bill.paidAmount));
+
+        const plan: { bill: typeof openBills[number]; amount: number }[] = [];
+        const take = (bill: typeof openBills[number], requested: number) => {
+            const planned = plan.filter(p => p.bill.id === bill.id).reduce((sum, p) => sum + p.amount, 0);
+            const amount = round2(Math.min(requested, remaining, outstanding(bill) - planned));
+            if (amount <= 0) return;
+            plan.push({ bill, amount });
+            remaining = round2(remaining - amount);
+        };
+
+        if (options.manual) {
+            const seen = new Set<string>();
+            for (const line of options.manual) {
+                if (seen.has(line.billId)) throw new AllocationError('A bill appears more than once');
+                seen.add(line.billId);
+                if (line.amount <= 0) throw new AllocationError('Allocation amount must be positive');
+
+                const bill = openBills.find(b => b.id === line.billId);
+                if (!bill) throw new AllocationError('Bill is not open for this supplier');
+                if (bill.currency !== payment.currency) {
+                    throw new AllocationError(`${bill.billNumber} is in ${bill.currency}, the payment in ${payment.currency}`);
+                }
+                if (line.amount > outstanding(bill) + 0.001) throw new AllocationError(`Allocation exceeds the amount due on ${bill.billNumber}`);
+                if (line.amount > remaining + 0.001) throw new AllocationError('Allocations exceed the unallocated payment amount');
+                take(bill, line.amount);
+            }
+        } else {
+            const sameCurrency = openBills.filter(b => b.currency === payment.currency);
+            if (payment.purchaseOrderId) {
+                for (const bill of sameCurrency.filter(b => b.purchaseOrderId === payment.purchaseOrderId)) {
+                    take(bill, remaining);
+                }
+            }
+            if (!options.onlyPurchaseOrder) {
+                for (const bill of sameCurrency) {
+                    if (remaining <= 0) break;
+                    take(bill, remaining);
+                }
+            }
+        }
+
+        const allocations: BillAllocation[] = [];
+        for (const { bill, amount } of plan) {
+            // The bill raised the balance at its rate and the payment lowered it at its own
+            const fxGainLoss = round2(amount * (Number(bill.exchangeRate) - Number(payment.exchangeRate)));
+
+            const [allocation] = await tx.insert(schema.supplierBillAllocations).values({
+                tenantId: payment.tenantId,
+                supplierPaymentId: payment.id,
+                billId: bill.id,
+                amount: String(amount),
+                fxGainLoss: String(fxGainLoss),
+                createdBy: options.userId ?? null,
+            }).returning({ id: schema.supplierBillAllocations.id });
+
+            if (fxGainLoss !== 0) {
+                await tx.update(schema.suppliers)
+                    .set({ balance: sql`COALESCE(${schema.suppliers.balance}, 0) - ${fxGainLoss}`, updatedAt: new Date() })
+                    .where(eq(schema.suppliers.id, payment.supplierId));
+                await generalLedgerService.postSupplierFx(tx, {
+                    id: allocation.id,
+                    tenantId: payment.tenantId,
+                    supplierId: payment.supplierId,
+                    billNumber: bill.billNumber,
+                    paymentNumber: payment.paymentNumber,
+                    fxGainLoss,
+                }, options.userId);
+            }
+
+            const paid = round2(Number(bill.paidAmount) + amount);
+            bill.paidAmount = String(paid);
+            await tx.update(schema.supplierBills).set({
+                paidAmount: String(paid),
+                status: billStatusFor(paid, Number(bill.totalAmount)),
+                updatedAt: new Date(),
+            }).where(eq(schema.supplierBills.id, bill.id));
+
+            await tx.update(schema.purchaseOrders).set({
+                paidAmount: sql`COALESCE(${schema.purchaseOrders.paidAmount}, 0) + ${amount}`,
+                updatedAt: new Date(),
+            }).where(eq(schema.purchaseOrders.id, bill.purchaseOrderId));
+
+            allocations.push({ billId: bill.id, billNumber: bill.billNumber, amount, fxGainLoss });
+        }
+
+        return allocations;
+    }
+
+    /**
+     * Allocations of a supplier payment with bill numbers.
+     */
+    async getAllocations(tenantId: string, supplierPaymentId: string) {
+        return db.select({
+            id: schema.supplierBillAllocations.id,
+            billId: schema.supplierBillAllocations.billId,
+            billNumber: schema.supplierBills.billNumber,
+            amount: schema.supplierBillAllocations.amount,
+            fxGainLoss: schema.supplierBillAllocations.fxGainLoss,
+            createdAt: schema.supplierBillAllocations.createdAt,
+        }).from(schema.supplierBillAllocations)
+            .innerJoin(schema.supplierBills, eq(schema.supplierBillAllocations.billId, schema.supplierBills.id))
+            .where(and(
+                eq(schema.supplierBillAllocations.tenantId, tenantId),
+                eq(schema.supplierBillAllocations.supplierPaymentId, supplierPaymentId)
+            ))
+            .orderBy(asc(schema.supplierBillAllocations.createdAt));
+    }
+
+    // ----------------------------------------------------------------
+    // AGING
+    // ----------------------------------------------------------------
+
+    /**
+     * Amounts due per supplier in the base currency (at each bill's rate),
+     * bucketed by days since the bill date. A null tenant covers all
+     * tenants (super admin).
+     */
+    async getAging(tenantId: string | null): Promise<SupplierAgingRow[]> {
+        const due = sql`(${schema.supplierBills.totalAmount} - ${schema.supplierBills.paidAmount}) * ${schema.supplierBills.exchangeRate}`;
+        const age = sql`CURRENT_DATE - ${schema.supplierBills.billDate}`;
+        const bucket = (condition: SQL) =>
+            sql<string>`COALESCE(SUM(CASE WHEN ${condition} THEN ${due} ELSE 0 END), 0)`;
+
+        const rows = await db.select({
+            supplierId: schema.suppliers.id,
+            supplierName: schema.suppliers.name,
+            openBills: sql<number>`count(*)`,
+            current: bucket(sql`${age} <= 30`),
+            days31to60: bucket(sql`${age} BETWEEN 31 AND 60`),
+            days61to90: bucket(sql`${age} BETWEEN 61 AND 90`),
+            over90: bucket(sql`${age} > 90`),
+            total: sql<string>`SUM(${due})`,
+        }).from(schema.supplierBills)
+            .innerJoin(schema.suppliers, eq(schema.supplierBills.supplierId, schema.suppliers.id))
+            .where(and(
+                tenantId ? eq(schema.supplierBills.tenantId, tenantId) : sql`true`,
+                gt(schema.supplierBills.totalAmount, schema.supplierBills.paidAmount)
+            ))
+            .groupBy(schema.suppliers.id, schema.suppliers.name)
+            .orderBy(desc(sql`SUM(${due})`));
+
+        return rows.map(row => ({
+            supplierId: row.supplierId,
+            supplierName: row.supplierName,
+            openBills: Number(row.openBills),
+            current: round2(Number(row.current)),
+            days31to60: round2(Number(row.days31to60)),
+            days61to90: round2(Number(row.days61to90)),
+            over90: round2(Number(row.over90)),
+            total: round2(Number(row.total)),
+        }));
+    }
+
+    private async lockOpenBills(tx: any, tenantId: string, supplierId: string) {
+        const bills: { id: string; billNumber: string; purchaseOrderId: string; currency: string; exchangeRate: string; totalAmount: string; paidAmount: string }[] = await tx
+            .select({
+                id: schema.supplierBills.id,
+                billNumber: schema.supplierBills.billNumber,
+                purchaseOrderId: schema.supplierBills.purchaseOrderId,
+                currency: schema.supplierBills.currency,
+                exchangeRate: schema.supplierBills.exchangeRate,
+                totalAmount: schema.supplierBills.totalAmount,
+                paidAmount: schema.supplierBills.paidAmount,
+            })
+            .from(schema.supplierBills)
+            .where(and(
+                eq(schema.supplierBills.tenantId, tenantId),
+                eq(schema.supplierBills.supplierId, supplierId),
+                gt(schema.supplierBills.totalAmount, schema.supplierBills.paidAmount)
+            ))
+            .orderBy(asc(schema.supplierBills.billDate), asc(schema.supplierBills.createdAt))
+            .for('update');
+        return bills;
+    }
+}
+
+export const supplierPayablesService = new SupplierPayablesService();
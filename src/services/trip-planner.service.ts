@@ -0,0 +1,543 @@
+/**
+ * TripPlannerService - Capacity-aware delivery trip planning
+ *
+ * Deliverable orders for a day are grouped by the customer's territory and
+ * each territory is routed as one tour from the warehouse. The tour is then
+ * cut into trips whenever the next stop would no longer fit any free vehicle
+ * (route first, cluster second). Every trip gets the smallest vehicle its load
+ * fits in, and its stops are re-ordered with 2-opt.
+ */
+
+import { schema } from '../db';
+import { eq, and, inArray, sql, isNull, or } from 'drizzle-orm';
+import { stockService } from './stock.service';
+import { getDistanceMatrix, optimizeRoute, type GeoPoint } from '../lib/routing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface OrderLoad {
+    weightKg: number;
+    volumeM3: number;
+    /** Some product on the order has no weight or volume set */
+    missingDimensions: boolean;
+}
+
+export interface VehicleCapacity {
+    id: string;
+    name: string;
+    plateNumber: string | null;
+    maxWeightKg: number | null;
+    maxVolumeM3: number | null;
+}
+
+export interface PlannedStop {
+    orderId: string;
+    orderNumber: string;
+    customerId: string;
+    customerName: string;
+    address: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    weightKg: number;
+    volumeM3: number;
+    missingDimensions: boolean;
+    sequence: number;
+    /** Distance from the previous stop (or the warehouse); null without coordinates */
+    legKm: number | null;
+}
+
+export interface PlannedTrip {
+    territoryId: string | null;
+    territoryName: string | null;
+    vehicleId: string;
+    vehicleName: string;
+    driverId: string | null;
+    driverName: string | null;
+    weightKg: number;
+    volumeM3: number;
+    maxWeightKg: number | null;
+    maxVolumeM3: number | null;
+    distanceKm: number;
+    durationMin: number;
+    stops: PlannedStop[];
+}
+
+export interface UnplannedOrder {
+    orderId: string;
+    orderNumber: string;
+    customerName: string;
+    reason: 'no_vehicle' | 'exceeds_vehicle_capacity';
+}
+
+export interface TripPlan {
+    date: string;
+    warehouseId: string;
+    distanceSource: 'osrm' | 'haversine';
+    trips: PlannedTrip[];
+    unplanned: UnplannedOrder[];
+}
+
+export interface PlanOptions {
+    date: string;
+    warehouseId?: string;
+    vehicleIds?: string[];
+    driverIds?: string[];
+    /** Also plan orders without a requested delivery date */
+    includeUnscheduled?: boolean;
+}
+
+export interface CreateTripInput {
+    driverId: string;
+    vehicleId?: string;
+    warehouseId?: string;
+    plannedDate: string;
+    notes?: string;
+    orderIds: string[];
+}
+
+interface Candidate {
+    orderId: string;
+    orderNumber: string;
+    customerId: string;
+    customerName: string;
+    address: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    territoryId: string | null;
+    territoryName: string | null;
+    load: OrderLoad;
+}
+
+// Orders that can be put on a trip
+const PLANNABLE_STATUSES = ['approved', 'picked', 'confirmed'];
+// Trips that keep a vehicle or driver busy for the day
+const BUSY_TRIP_STATUSES = ['planned', 'loading', 'in_progress'];
+// Unloading and paperwork at each customer
+const SERVICE_MIN_PER_STOP = 10;
+
+const toNumber = (value: string | number | null | undefined): number | null =>
+    value === null || value === undefined || value === '' ? null : Number(value);
+
+const fits = (load: { weightKg: number; volumeM3: number }, vehicle: VehicleCapacity) =>
+    (vehicle.maxWeightKg === null || load.weightKg <= vehicle.maxWeightKg + 1e-9)
+    && (vehicle.maxVolumeM3 === null || load.volumeM3 <= vehicle.maxVolumeM3 + 1e-9);
+
+const sumLoads = (loads: OrderLoad[]): OrderLoad => loads.reduce((total, load) => ({
+    weightKg: total.weightKg + load.weightKg,
+    volumeM3: total.volumeM3 + load.volumeM3,
+    missingDimensions: total.missingDimensions || load.missingDimensions,
+}), { weightKg: 0, volumeM3: 0, missingDimensions: false });
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class TripPlannerService {
+    // --------------------------------------------------------------------------
+    // LOADS & CAPACITY
+    // --------------------------------------------------------------------------
+
+    /**
+     * Weight and volume per order from product dimensions. Picked quantities
+     * win over ordered ones once picking has happened.
+     */
+    async getOrderLoads(tx: any, orderIds: string[]): Promise<Map<string, OrderLoad>> {
+        const loads = new Map<string, OrderLoad>();
+        if (orderIds.length === 0) return loads;
+
+        const qty = sql`CASE WHEN ${schema.orderItems.qtyPicked} > 0 THEN ${schema.orderItems.qtyPicked} ELSE ${schema.orderItems.qtyOrdered} END`;
+        const rows: { orderId: string; weightKg: string; volumeM3: string; missingDimensions: boolean }[] = await tx.select({
+            orderId: schema.orderItems.orderId,
+            weightKg: sql<string>`COALESCE(SUM(${qty} * ${schema.products.weightKg}), 0)`,
+            volumeM3: sql<string>`COALESCE(SUM(${qty} * ${schema.products.volumeM3}), 0)`,
+            missingDimensions: sql<boolean>`BOOL_OR(${schema.products.weightKg} IS NULL OR ${schema.products.volumeM3} IS NULL)`,
+        }).from(schema.orderItems)
+            .innerJoin(schema.products, eq(schema.orderItems.productId, schema.products.id))
+            .where(inArray(schema.orderItems.orderId, orderIds))
+            .groupBy(schema.orderItems.orderId);
+
+        for (const row of rows) {
+            loads.set(row.orderId, {
+                weightKg: Number(row.weightKg),
+                volumeM3: Number(row.volumeM3),
+                missingDimensions: Boolean(row.missingDimensions),
+            });
+        }
+        return loads;
+    }
+
+    /**
+     * Vehicle limits. The legacy integer capacity counts as kilograms when no
+     * explicit weight limit is set; a missing limit means unlimited.
+     */
+    toCapacity(vehicle: typeof schema.vehicles.$inferSelect): VehicleCapacity {
+        return {
+            id: vehicle.id,
+            name: vehicle.name,
+            plateNumber: vehicle.plateNumber,
+            maxWeightKg: toNumber(vehicle.maxWeightKg) ?? vehicle.capacity ?? null,
+            maxVolumeM3: toNumber(vehicle.maxVolumeM3),
+        };
+    }
+
+    /**
+     * Throws when the orders' combined load does not fit the vehicle.
+     */
+    async assertCapacity(tx: any, tenantId: string, vehicleId: string, orderIds: string[]) {
+        const [vehicle] = await tx.select().from(schema.vehicles)
+            .where(and(eq(schema.vehicles.id, vehicleId), eq(schema.vehicles.tenantId, tenantId)))
+            .limit(1);
+        if (!vehicle) throw new Error('Vehicle not found');
+
+        const capacity = this.toCapacity(vehicle);
+        const load = sumLoads([...(await this.getOrderLoads(tx, orderIds)).values()]);
+
+        if (capacity.maxWeightKg !== null && load.weightKg > capacity.maxWeightKg + 1e-9) {
+            throw new Error(`Vehicle capacity exceeded: ${round(load.weightKg, 1)} kg of ${capacity.maxWeightKg} kg`);
+        }
+        if (capacity.maxVolumeM3 !== null && load.volumeM3 > capacity.maxVolumeM3 + 1e-9) {
+            throw new Error(`Vehicle capacity exceeded: ${round(load.volumeM3, 2)} m3 of ${capacity.maxVolumeM3} m3`);
+        }
+    }
+
+    // --------------------------------------------------------------------------
+    // TRIPS
+    // --------------------------------------------------------------------------
+
+    /**
+     * Creates a trip with its orders in the given sequence and moves the
+     * orders to 'picking'.
+     */
+    async createTrip(tx: any, tenantId: string, input: CreateTripInput, tripNumber?: string) {
+        const warehouseId = await stockService.resolveWarehouseId(tx, tenantId, input.warehouseId);
+        const defaultWarehouseId = await stockService.getDefaultWarehouseId(tx, tenantId);
+
+        const [driver] = await tx.select({ id: schema.users.id }).from(schema.users)
+            .where(and(eq(schema.users.id, input.driverId), eq(schema.users.tenantId, tenantId)))
+            .limit(1);
+        if (!driver) throw new Error('Driver not found');
+
+        if (input.orderIds.length > 0) {
+            const validOrders = await tx.select({ id: schema.orders.id, status: schema.orders.status, warehouseId: schema.orders.warehouseId })
+                .from(schema.orders)
+                .where(and(eq(schema.orders.tenantId, tenantId), inArray(schema.orders.id, input.orderIds)));
+
+            if (validOrders.length !== input.orderIds.length) throw new Error('Some orders not found');
+            const invalidStatus = validOrders.filter((o: any) => !PLANNABLE_STATUSES.includes(o.status as string));
+            if (invalidStatus.length > 0) throw new Error('Orders must be in approved/picked/confirmed status');
+
+            // Stock for these orders is reserved in a specific warehouse; a trip loads from one location
+            const otherWarehouse = validOrders.filter((o: any) => (o.warehouseId || defaultWarehouseId) !== warehouseId);
+            if (otherWarehouse.length > 0) throw new Error('All orders must be reserved from the trip warehouse');
+
+            const alreadyAssigned = await tx.select({ orderId: schema.tripOrders.orderId })
+                .from(schema.tripOrders).where(inArray(schema.tripOrders.orderId, input.orderIds));
+            if (alreadyAssigned.length > 0) throw new Error('Some orders are already assigned');
+        }
+
+        if (input.vehicleId) await this.assertCapacity(tx, tenantId, input.vehicleId, input.orderIds);
+
+        const [trip] = await tx.insert(schema.trips).values({
+            tenantId,
+            tripNumber: tripNumber ?? `TRIP-${Date.now()}-${Math.floor(Math.random() * 1000)}`,
+            driverId: input.driverId,
+            vehicleId: input.vehicleId,
+            warehouseId,
+            plannedDate: input.plannedDate,
+            status: 'planned',
+            notes: input.notes,
+        }).returning();
+
+        if (input.orderIds.length > 0) {
+            await tx.insert(schema.tripOrders).values(
+                input.orderIds.map((orderId, idx) => ({ tripId: trip.id, orderId, sequence: idx + 1 }))
+            );
+            await tx.update(schema.orders).set({ status: 'picking' as any, updatedAt: new Date() })
+                .where(inArray(schema.orders.id, input.orderIds));
+        }
+
+        return trip;
+    }
+
+    // --------------------------------------------------------------------------
+    // PLANNING
+    // --------------------------------------------------------------------------
+
+    /**
+     * Builds a trip plan for a day without writing anything, so dispatchers
+     * can review and adjust it before committing.
+     */
+    async plan(tx: any, tenantId: string, options: PlanOptions): Promise<TripPlan> {
+        const warehouseId = await stockService.resolveWarehouseId(tx, tenantId, options.warehouseId);
+        const defaultWarehouseId = await stockService.getDefaultWarehouseId(tx, tenantId);
+
+        const [warehouse] = await tx.select({ latitude: schema.warehouses.latitude, longitude: schema.warehouses.longitude })
+            .from(schema.warehouses).where(eq(schema.warehouses.id, warehouseId)).limit(1);
+        const depot: GeoPoint | null = warehouse?.latitude && warehouse?.longitude
+            ? { lat: Number(warehouse.latitude), lng: Number(warehouse.longitude) }
+            : null;
+
+        const candidates = await this.getCandidates(tx, tenantId, options, warehouseId, warehouseId === defaultWarehouseId);
+        const vehicles = await this.getFreeVehicles(tx, tenantId, options);
+        const drivers = await this.getFreeDrivers(tx, tenantId, options);
+
+        // Heaviest territories first so they get the big vehicles
+        const groups = new Map<string, Candidate[]>();
+        for (const candidate of candidates) {
+            const key = candidate.territoryId ?? '';
+            groups.set(key, [...(groups.get(key) ?? []), candidate]);
+        }
+        const sortedGroups = [...groups.values()]
+            .sort((a, b) => sumLoads(b.map(c => c.load)).weightKg - sumLoads(a.map(c => c.load)).weightKg);
+
+        const trips: PlannedTrip[] = [];
+        const unplanned: UnplannedOrder[] = [];
+        let usedOsrm = false;
+
+        for (const group of sortedGroups) {
+            const tour = await this.sequence(depot, group);
+            usedOsrm ||= tour.source === 'osrm';
+
+            const chunks: { stops: Candidate[]; vehicle: VehicleCapacity }[] = [];
+            let current: Candidate[] = [];
+            const close = () => {
+                if (current.length === 0) return;
+                const load = sumLoads(current.map(c => c.load));
+                // Smallest vehicle that takes the load keeps the big ones for later
+                const vehicle = vehicles
+                    .filter(v => fits(load, v))
+                    .sort((a, b) => (a.maxWeightKg ?? Infinity) - (b.maxWeightKg ?? Infinity)
+                        || (a.maxVolumeM3 ?? Infinity) - (b.maxVolumeM3 ?? Infinity))[0];
+                vehicles.splice(vehicles.indexOf(vehicle), 1);
+                chunks.push({ stops: current, vehicle });
+                current = [];
+            };
+
+            for (const stop of tour.stops) {
+                const withStop = sumLoads([...current, stop].map(c => c.load));
+                if (vehicles.some(v => fits(withStop, v))) {
+                    current.push(stop);
+                    continue;
+                }
+
+                close();
+                if (vehicles.some(v => fits(stop.load, v))) {
+                    current = [stop];
+                } else {
+                    unplanned.push({
+                        orderId: stop.orderId,
+                        orderNumber: stop.orderNumber,
+                        customerName: stop.customerName,
+                        reason: vehicles.length === 0 ? 'no_vehicle' : 'exceeds_vehicle_capacity',
+                    });
+                }
+            }
+            close();
+
+            for (const chunk of chunks) {
+                const route = await this.sequence(depot, chunk.stops);
+                usedOsrm ||= route.source === 'osrm';
+                const load = sumLoads(chunk.stops.map(c => c.load));
+                const driver = drivers[trips.length] ?? null;
+
+                trips.push({
+                    territoryId: group[0].territoryId,
+                    territoryName: group[0].territoryName,
+                    vehicleId: chunk.vehicle.id,
+                    vehicleName: chunk.vehicle.name,
+                    driverId: driver?.id ?? null,
+                    driverName: driver?.name ?? null,
+                    weightKg: round(load.weightKg, 3),
+                    volumeM3: round(load.volumeM3, 6),
+                    maxWeightKg: chunk.vehicle.maxWeightKg,
+                    maxVolumeM3: chunk.vehicle.maxVolumeM3,
+                    distanceKm: round(route.distanceKm, 1),
+                    durationMin: Math.round(route.durationMin),
+                    stops: route.stops.map((stop, idx) => ({
+                        orderId: stop.orderId,
+                        orderNumber: stop.orderNumber,
+                        customerId: stop.customerId,
+                        customerName: stop.customerName,
+                        address: stop.address,
+                        latitude: stop.latitude,
+                        longitude: stop.longitude,
+                        weightKg: round(stop.load.weightKg, 3),
+                        volumeM3: round(stop.load.volumeM3, 6),
+                        missingDimensions: stop.load.missingDimensions,
+                        sequence: idx + 1,
+                        legKm: route.legsKm[idx] === null ? null : round(route.legsKm[idx] as number, 1),
+                    })),
+                });
+            }
+        }
+
+        return {
+            date: options.date,
+            warehouseId,
+            distanceSource: usedOsrm ? 'osrm' : 'haversine',
+            trips,
+            unplanned,
+        };
+    }
+
+    /**
+     * Creates the trips of a reviewed plan. All or nothing: any invalid trip
+     * rolls back the whole plan.
+     */
+    async commitPlan(tx: any, tenantId: string, input: {
+        plannedDate: string;
+        warehouseId?: string;
+        trips: { driverId: string; vehicleId?: string; notes?: string; orderIds: string[] }[];
+    }) {
+        const seen = new Set<string>();
+        for (const trip of input.trips) {
+            if (trip.orderIds.length === 0) throw new Error('A planned trip has no orders');
+            for (const orderId of trip.orderIds) {
+                if (seen.has(orderId)) throw new Error('An order appears in more than one trip');
+                seen.add(orderId);
+            }
+        }
+
+        const stamp = Date.now();
+        const created = [];
+        for (const [idx, trip] of input.trips.entries()) {
+            created.push(await this.createTrip(tx, tenantId, {
+                ...trip,
+                plannedDate: input.plannedDate,
+                warehouseId: input.warehouseId,
+            }, `TRIP-${stamp}-${idx + 1}`));
+        }
+        return created;
+    }
+
+    // --------------------------------------------------------------------------
+    // HELPERS
+    // --------------------------------------------------------------------------
+
+    private async getCandidates(tx: any, tenantId: string, options: PlanOptions, warehouseId: string, isDefaultWarehouse: boolean): Promise<Candidate[]> {
+        const dateCondition = options.includeUnscheduled
+            ? or(eq(schema.orders.requestedDeliveryDate, options.date), isNull(schema.orders.requestedDeliveryDate))
+            : eq(schema.orders.requestedDeliveryDate, options.date);
+        // Orders without a warehouse reserve stock from the default one
+        const warehouseCondition = isDefaultWarehouse
+            ? or(eq(schema.orders.warehouseId, warehouseId), isNull(schema.orders.warehouseId))
+            : eq(schema.orders.warehouseId, warehouseId);
+
+        const rows = await tx.select({
+            orderId: schema.orders.id,
+            orderNumber: schema.orders.orderNumber,
+            customerId: schema.customers.id,
+            customerName: schema.customers.name,
+            address: schema.customers.address,
+            latitude: schema.customers.latitude,
+            longitude: schema.customers.longitude,
+            territoryId: schema.customers.territoryId,
+            territoryName: schema.territories.name,
+        }).from(schema.orders)
+            .innerJoin(schema.customers, eq(schema.orders.customerId, schema.customers.id))
+            .leftJoin(schema.territories, eq(schema.customers.territoryId, schema.territories.id))
+            .where(and(
+                eq(schema.orders.tenantId, tenantId),
+                inArray(schema.orders.status, PLANNABLE_STATUSES as any),
+                dateCondition,
+                warehouseCondition,
+                sql`NOT EXISTS (SELECT 1 FROM ${schema.tripOrders} WHERE ${schema.tripOrders.orderId} = ${schema.orders.id})`
+            ))
+            .orderBy(schema.orders.orderNumber);
+
+        const loads = await this.getOrderLoads(tx, rows.map((r: any) => r.orderId));
+
+        return rows.map((row: any) => ({
+            ...row,
+            latitude: toNumber(row.latitude),
+            longitude: toNumber(row.longitude),
+            load: loads.get(row.orderId) ?? { weightKg: 0, volumeM3: 0, missingDimensions: true },
+        }));
+    }
+
+    private async getFreeVehicles(tx: any, tenantId: string, options: PlanOptions): Promise<VehicleCapacity[]> {
+        const conditions: any[] = [eq(schema.vehicles.tenantId, tenantId), eq(schema.vehicles.isActive, true)];
+        if (options.vehicleIds?.length) conditions.push(inArray(schema.vehicles.id, options.vehicleIds));
+
+        const rows = await tx.select().from(schema.vehicles).where(and(...conditions));
+        const busy = await tx.select({ vehicleId: schema.trips.vehicleId }).from(schema.trips)
+            .where(and(
+                eq(schema.trips.tenantId, tenantId),
+                eq(schema.trips.plannedDate, options.date),
+                inArray(schema.trips.status, BUSY_TRIP_STATUSES as any)
+            ));
+        const busyIds = new Set(busy.map((b: any) => b.vehicleId));
+
+        return rows.filter((v: any) => !busyIds.has(v.id)).map((v: any) => this.toCapacity(v));
+    }
+
+    /**
+     * Drivers for the plan in assignment order. Explicitly chosen drivers are
+     * used even when they already have a trip that day.
+     */
+    private async getFreeDrivers(tx: any, tenantId: string, options: PlanOptions): Promise<{ id: string; name: string }[]> {
+        const conditions: any[] = [eq(schema.users.tenantId, tenantId), eq(schema.users.isActive, true)];
+        if (options.driverIds?.length) {
+            conditions.push(inArray(schema.users.id, options.driverIds));
+        } else {
+            conditions.push(eq(schema.users.role, 'driver'));
+        }
+
+        const rows: { id: string; name: string }[] = await tx.select({ id: schema.users.id, name: schema.users.name })
+            .from(schema.users).where(and(...conditions)).orderBy(schema.users.name);
+        if (options.driverIds?.length) {
+            return options.driverIds.map(id => rows.find(r => r.id === id)).filter((r): r is { id: string; name: string } => !!r);
+        }
+
+        const busy = await tx.select({ driverId: schema.trips.driverId }).from(schema.trips)
+            .where(and(
+                eq(schema.trips.tenantId, tenantId),
+                eq(schema.trips.plannedDate, options.date),
+                inArray(schema.trips.status, BUSY_TRIP_STATUSES as any)
+            ));
+        const busyIds = new Set(busy.map((b: any) => b.driverId));
+        return rows.filter(r => !busyIds.has(r.id));
+    }
+
+    /**
+     * Orders stops from the depot (or from the first stop when the warehouse
+     * has no coordinates). Stops without coordinates go last.
+     */
+    private async sequence(depot: GeoPoint | null, stops: Candidate[]) {
+        const located = stops.filter(s => s.latitude !== null && s.longitude !== null);
+        const unlocated = stops.filter(s => s.latitude === null || s.longitude === null);
+        const serviceMin = stops.length * SERVICE_MIN_PER_STOP;
+
+        if (located.length === 0) {
+            return { stops: unlocated, legsKm: unlocated.map(() => null), distanceKm: 0, durationMin: serviceMin, source: 'haversine' as const };
+        }
+
+        const points: GeoPoint[] = [
+            ...(depot ? [depot] : []),
+            ...located.map(s => ({ lat: s.latitude as number, lng: s.longitude as number })),
+        ];
+        const matrix = await getDistanceMatrix(points);
+        const route = optimizeRoute(matrix, { start: 0, closed: !!depot });
+        const path = depot ? route.order : [0, ...route.order];
+        const offset = depot ? 1 : 0;
+
+        const legsKm: (number | null)[] = path.map((node, idx) => {
+            const previous = idx === 0 ? (depot ? 0 : null) : path[idx - 1];
+            return previous === null ? 0 : matrix.distanceKm[previous][node];
+        });
+
+        return {
+            stops: [...path.map(node => located[node - offset]), ...unlocated],
+            legsKm: [...legsKm, ...unlocated.map(() => null)],
+            distanceKm: route.distanceKm,
+            durationMin: route.durationMin + serviceMin,
+            source: matrix.source,
+        };
+    }
+}
+
+export const tripPlannerService = new TripPlannerService();
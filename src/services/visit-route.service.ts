@@ -0,0 +1,252 @@
+/**
+ * VisitRouteService - Day route for a sales rep's planned visits
+ *
+ * The route starts where the rep is (today's last GPS fix) or at the default
+ * warehouse, and orders visits so planned times and customer receiving hours
+ * are met first and travel time is minimal second. The result can be saved
+ * back as the day's visit order.
+ */
+
+import { db, schema } from '../db';
+import { eq, and, inArray } from 'drizzle-orm';
+import { getTenantDayRange } from '../lib/tenant-time';
+import { stockService } from './stock.service';
+import { getDistanceMatrix, optimizeRouteWithTimeWindows, type GeoPoint, type TimeWindow } from '../lib/routing';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RouteStart extends GeoPoint {
+    source: 'request' | 'gps' | 'depot' | 'first_visit';
+}
+
+export interface RoutedVisit {
+    visitId: string;
+    customerId: string;
+    customerName: string;
+    customerAddress: string | null;
+    latitude: number;
+    longitude: number;
+    plannedTime: string | null;
+    visitType: string | null;
+    sequence: number;
+    legKm: number;
+    legMin: number;
+    /** Expected arrival, HH:MM local time */
+    eta: string;
+    waitMin: number;
+    lateMin: number;
+    windowStart: string | null;
+    windowEnd: string | null;
+}
+
+export interface VisitRoute {
+    start: RouteStart | null;
+    visits: RoutedVisit[];
+    /** Planned visits whose customer has no coordinates */
+    unlocated: { visitId: string; customerName: string; customerAddress: string | null; plannedTime: string | null }[];
+    totalVisits: number;
+    estimatedDistance: number;
+    estimatedTime: number;
+    lateVisits: number;
+    distanceSource: 'osrm' | 'haversine';
+}
+
+// Typical time spent at a customer
+const VISIT_SERVICE_MIN = 20;
+// A planned time means "around then": this much early or late is on time
+const PLANNED_TIME_SLACK_MIN = 30;
+
+const toMinutes = (value: string | null): number | null => {
+    if (!value) return null;
+    const [hours, minutes] = value.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+const toClock = (minutes: number): string => {
+    const total = Math.round(minutes) % (24 * 60);
+    return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Window from the planned time (± slack) narrowed to receiving hours. A
+ * planned time outside receiving hours was set on purpose, so it wins.
+ */
+const buildWindow = (plannedTime: string | null, openingTime: string | null, closingTime: string | null): TimeWindow => {
+    const open = toMinutes(openingTime);
+    const close = toMinutes(closingTime);
+    const hours = { earliest: open, latest: close !== null ? close - VISIT_SERVICE_MIN : null };
+
+    const planned = toMinutes(plannedTime);
+    if (planned === null) return { ...hours, serviceMin: VISIT_SERVICE_MIN };
+
+    const slot = { earliest: planned - PLANNED_TIME_SLACK_MIN, latest: planned + PLANNED_TIME_SLACK_MIN };
+    const earliest = Math.max(slot.earliest, hours.earliest ?? -Infinity);
+    const latest = Math.min(slot.latest, hours.latest ?? Infinity);
+    if (earliest > latest) return { ...slot, serviceMin: VISIT_SERVICE_MIN };
+
+    return { earliest, latest, serviceMin: VISIT_SERVICE_MIN };
+};
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+// ============================================================================
+// SERVICE
+// ============================================================================
+
+export class VisitRouteService {
+    /**
+     * Optimized order for today's planned visits of a sales rep, with per-leg
+     * distance and ETA. Nothing is saved.
+     */
+    async optimize(tenantId: string, userId: string, options: { latitude?: number; longitude?: number } = {}): Promise<VisitRoute> {
+        const { todayStr, startOfDay } = await getTenantDayRange(tenantId);
+        const nowMin = Math.max(0, (Date.now() - startOfDay.getTime()) / 60000);
+
+        const rows = await db.select({
+            visitId: schema.salesVisits.id,
+            customerId: schema.customers.id,
+            customerName: schema.customers.name,
+            customerAddress: schema.customers.address,
+            latitude: schema.customers.latitude,
+            longitude: schema.customers.longitude,
+            openingTime: schema.customers.openingTime,
+            closingTime: schema.customers.closingTime,
+            plannedTime: schema.salesVisits.plannedTime,
+            visitType: schema.salesVisits.visitType,
+        }).from(schema.salesVisits)
+            .innerJoin(schema.customers, eq(schema.salesVisits.customerId, schema.customers.id))
+            .where(and(
+                eq(schema.salesVisits.tenantId, tenantId),
+                eq(schema.salesVisits.plannedDate, todayStr),
+                eq(schema.salesVisits.status, 'planned'),
+                eq(schema.salesVisits.salesRepId, userId)
+            ));
+
+        const located = rows
+            .filter(v => v.latitude && v.longitude)
+            .map(v => ({
+                ...v,
+                latitude: Number(v.latitude),
+                longitude: Number(v.longitude),
+                window: buildWindow(v.plannedTime, v.openingTime, v.closingTime),
+            }));
+        const unlocated = rows
+            .filter(v => !v.latitude || !v.longitude)
+            .map(v => ({ visitId: v.visitId, customerName: v.customerName, customerAddress: v.customerAddress, plannedTime: v.plannedTime }));
+
+        const empty: VisitRoute = {
+            start: null, visits: [], unlocated, totalVisits: 0,
+            estimatedDistance: 0, estimatedTime: 0, lateVisits: 0, distanceSource: 'haversine',
+        };
+        if (located.length === 0) return empty;
+
+        // Without a known position, start at the visit with the earliest deadline
+        let start = await this.resolveStart(tenantId, userId, startOfDay, options);
+        if (!start) {
+            const first = [...located].sort((a, b) =>
+                (a.window.latest ?? a.window.earliest ?? Infinity) - (b.window.latest ?? b.window.earliest ?? Infinity))[0];
+            start = { lat: first.latitude, lng: first.longitude, source: 'first_visit' };
+        }
+
+        const matrix = await getDistanceMatrix([
+            { lat: start.lat, lng: start.lng },
+            ...located.map(v => ({ lat: v.latitude, lng: v.longitude })),
+        ]);
+        const windows: TimeWindow[] = [{ earliest: null, latest: null, serviceMin: 0 }, ...located.map(v => v.window)];
+        const route = optimizeRouteWithTimeWindows(matrix, windows, { start: 0, startMin: nowMin });
+
+        const visits: RoutedVisit[] = route.stops.map((stop, idx) => {
+            const visit = located[stop.node - 1];
+            return {
+                visitId: visit.visitId,
+                customerId: visit.customerId,
+                customerName: visit.customerName,
+                customerAddress: visit.customerAddress,
+                latitude: visit.latitude,
+                longitude: visit.longitude,
+                plannedTime: visit.plannedTime,
+                visitType: visit.visitType,
+                sequence: idx + 1,
+                legKm: round(stop.legKm, 2),
+                legMin: Math.round(stop.legMin),
+                eta: toClock(stop.arrivalMin),
+                waitMin: Math.round(stop.waitMin),
+                lateMin: Math.round(stop.lateMin),
+                windowStart: visit.window.earliest !== null ? toClock(visit.window.earliest) : null,
+                windowEnd: visit.window.latest !== null ? toClock(visit.window.latest) : null,
+            };
+        });
+
+        return {
+            start,
+            visits,
+            unlocated,
+            totalVisits: visits.length,
+            estimatedDistance: round(route.distanceKm, 2),
+            estimatedTime: Math.round(route.durationMin),
+            lateVisits: visits.filter(v => v.lateMin > 0).length,
+            distanceSource: matrix.source,
+        };
+    }
+
+    /**
+     * Saves the given visit order as today's route. Visits left out keep no
+     * sequence and sort after the routed ones.
+     */
+    async saveOrder(tenantId: string, userId: string, visitIds: string[]) {
+        const { todayStr } = await getTenantDayRange(tenantId);
+
+        return db.transaction(async (tx) => {
+            const conditions = and(
+                eq(schema.salesVisits.tenantId, tenantId),
+                eq(schema.salesVisits.salesRepId, userId),
+                eq(schema.salesVisits.plannedDate, todayStr)
+            );
+
+            const visits = await tx.select({ id: schema.salesVisits.id }).from(schema.salesVisits)
+                .where(and(conditions, inArray(schema.salesVisits.id, visitIds)));
+            if (visits.length !== new Set(visitIds).size) throw new Error('Some visits not found');
+
+            await tx.update(schema.salesVisits).set({ routeSequence: null }).where(conditions);
+            for (const [idx, visitId] of visitIds.entries()) {
+                await tx.update(schema.salesVisits)
+                    .set({ routeSequence: idx + 1, updatedAt: new Date() })
+                    .where(eq(schema.salesVisits.id, visitId));
+            }
+
+            return { updated: visitIds.length };
+        });
+    }
+
+    /**
+     * Explicit position first, then today's GPS fix, then the default
+     * warehouse as depot.
+     */
+    private async resolveStart(tenantId: string, userId: string, startOfDay: Date, options: { latitude?: number; longitude?: number }): Promise<RouteStart | null> {
+        if (options.latitude !== undefined && options.longitude !== undefined) {
+            return { lat: options.latitude, lng: options.longitude, source: 'request' };
+        }
+
+        const [user] = await db.select({
+            latitude: schema.users.lastKnownLatitude,
+            longitude: schema.users.lastKnownLongitude,
+            updatedAt: schema.users.lastLocationUpdateAt,
+        }).from(schema.users).where(eq(schema.users.id, userId)).limit(1);
+        if (user?.latitude && user.longitude && user.updatedAt && user.updatedAt >= startOfDay) {
+            return { lat: Number(user.latitude), lng: Number(user.longitude), source: 'gps' };
+        }
+
+        const warehouseId = await stockService.getDefaultWarehouseId(db, tenantId);
+        const [warehouse] = await db.select({ latitude: schema.warehouses.latitude, longitude: schema.warehouses.longitude })
+            .from(schema.warehouses).where(eq(schema.warehouses.id, warehouseId)).limit(1);
+        if (warehouse?.latitude && warehouse.longitude) {
+            return { lat: Number(warehouse.latitude), lng: Number(warehouse.longitude), source: 'depot' };
+        }
+
+        return null;
+    }
+}
+
+export const visitRouteService = new VisitRouteService();
@@ -262,6 +262,7 @@ export class VisitsService {
         status: schema.salesVisits.status,
         outcome: schema.salesVisits.outcome,
         plannedTime: schema.salesVisits.plannedTime,
+        routeSequence: schema.salesVisits.routeSequence,
         startedAt: schema.salesVisits.startedAt,
         completedAt: schema.salesVisits.completedAt,
         notes: schema.salesVisits.notes,
@@ -269,7 +270,8 @@ export class VisitsService {
       .from(schema.salesVisits)
       .leftJoin(schema.customers, eq(schema.salesVisits.customerId, schema.customers.id))
       .where(and(...conditions))
-      .orderBy(desc(schema.salesVisits.plannedTime));
+      // Saved route order first; visits outside the route keep the old order
+      .orderBy(sql`${schema.salesVisits.routeSequence} ASC NULLS LAST`, desc(schema.salesVisits.plannedTime));
 
     // Calculate stats
     const completed = visits.filter(v => v.status === 'completed').length;